@@ -5,6 +5,7 @@ const meta: MetaRecord = {
   agents: "Agents",
   workflows: "Workflows",
   assistant: "Agentron (Chat)",
+  access: "Access and API tokens",
   heap: "Heap (specialists)",
   "agent-architectures": "Agent architectures (comparison)",
   "event-driven-architecture": "Event-driven architecture",
@@ -0,0 +1,659 @@
+/** Tables and indexes of a new SQLite database; createSqliteAdapter runs it on initialize and reset. */
+export const SCHEMA_SQL = `
+        create table if not exists agents (
+          id text primary key,
+          name text not null,
+          description text,
+          kind text not null,
+          type text not null,
+          protocol text not null,
+          endpoint text,
+          agent_key text,
+          capabilities text not null,
+          scopes text not null,
+          llm_config text,
+          definition text,
+          created_at integer not null
+        );
+        create table if not exists workflows (
+          id text primary key,
+          name text not null,
+          description text,
+          nodes text not null,
+          edges text not null,
+          execution_mode text not null,
+          schedule text,
+          max_rounds integer,
+          turn_instruction text,
+          branches text,
+          execution_order text,
+          timezone text,
+          catch_up text,
+          input_schema text,
+          output_schema text,
+          output_mapping text,
+          created_at integer not null
+        );
+        create table if not exists agent_versions (
+          id text primary key,
+          agent_id text not null,
+          version integer not null,
+          snapshot text not null,
+          created_at integer not null,
+          conversation_id text
+        );
+        create table if not exists workflow_versions (
+          id text primary key,
+          workflow_id text not null,
+          version integer not null,
+          snapshot text not null,
+          created_at integer not null,
+          conversation_id text
+        );
+        create table if not exists tools (
+          id text primary key,
+          name text not null,
+          protocol text not null,
+          config text not null,
+          input_schema text,
+          output_schema text
+        );
+        create table if not exists prompts (
+          id text primary key,
+          name text not null,
+          description text,
+          arguments text,
+          template text not null
+        );
+        create table if not exists llm_configs (
+          id text primary key,
+          provider text not null,
+          model text not null,
+          api_key_ref text,
+          endpoint text,
+          extra text
+        );
+        create table if not exists executions (
+          id text primary key,
+          target_type text not null,
+          target_id text not null,
+          target_branch_id text,
+          conversation_id text,
+          status text not null,
+          started_at integer not null,
+          finished_at integer,
+          output text
+        );
+        create table if not exists run_logs (
+          id text primary key,
+          execution_id text not null,
+          level text not null,
+          message text not null,
+          payload text,
+          created_at integer not null
+        );
+        create table if not exists workflow_messages (
+          id text primary key,
+          execution_id text not null,
+          node_id text,
+          agent_id text,
+          role text not null,
+          content text not null,
+          message_type text,
+          metadata text,
+          created_at integer not null
+        );
+        create table if not exists execution_events (
+          id text primary key,
+          execution_id text not null,
+          sequence integer not null,
+          type text not null,
+          payload text,
+          processed_at integer,
+          created_at integer not null
+        );
+        create table if not exists execution_run_state (
+          execution_id text primary key,
+          workflow_id text not null,
+          target_branch_id text,
+          current_node_id text,
+          round integer not null,
+          shared_context text not null,
+          status text not null,
+          waiting_at_node_id text,
+          trail_snapshot text,
+          updated_at integer not null
+        );
+        create table if not exists workflow_queue (
+          id text primary key,
+          type text not null,
+          payload text not null,
+          status text not null,
+          run_id text,
+          enqueued_at integer not null,
+          started_at integer,
+          finished_at integer,
+          error text,
+          created_at integer not null
+        );
+        create table if not exists workflow_schedules (
+          id text primary key,
+          workflow_id text not null,
+          branch_id text,
+          schedule text not null,
+          timezone text not null,
+          next_run_at integer,
+          last_run_at integer,
+          updated_at integer not null
+        );
+        create table if not exists workflow_triggers (
+          id text primary key,
+          workflow_id text not null,
+          branch_id text,
+          name text not null,
+          type text not null,
+          token text,
+          secret text,
+          config text,
+          input_mapping text,
+          enabled integer not null,
+          last_fired_at integer,
+          created_at integer not null,
+          updated_at integer not null
+        );
+        create unique index if not exists workflow_triggers_token on workflow_triggers (token);
+        create table if not exists workflow_trigger_events (
+          id text primary key,
+          trigger_id text not null,
+          workflow_id text not null,
+          source text not null,
+          source_ref text,
+          status text not null,
+          job_id text,
+          run_id text,
+          payload text,
+          error text,
+          created_at integer not null
+        );
+        create index if not exists workflow_trigger_events_trigger on workflow_trigger_events (trigger_id, created_at);
+        create table if not exists conversation_locks (
+          conversation_id text primary key,
+          started_at integer not null,
+          created_at integer not null
+        );
+        create table if not exists message_queue_log (
+          id text primary key,
+          conversation_id text not null,
+          message_id text,
+          type text not null,
+          phase text,
+          label text,
+          payload text,
+          created_at integer not null
+        );
+        create table if not exists execution_log (
+          id text primary key,
+          execution_id text not null,
+          sequence integer not null,
+          phase text not null,
+          label text,
+          payload text,
+          created_at integer not null
+        );
+        create table if not exists skills (
+          id text primary key,
+          name text not null,
+          description text,
+          type text not null,
+          content text,
+          config text,
+          created_at integer not null
+        );
+        create table if not exists agent_skills (
+          agent_id text not null,
+          skill_id text not null,
+          sort_order integer not null,
+          config text,
+          created_at integer not null,
+          primary key (agent_id, skill_id)
+        );
+        create table if not exists contexts (
+          id text primary key,
+          key text not null,
+          value text not null,
+          updated_at integer not null
+        );
+        create table if not exists conversations (
+          id text primary key,
+          title text,
+          rating integer,
+          note text,
+          summary text,
+          last_used_provider text,
+          last_used_model text,
+          created_at integer not null
+        );
+        create table if not exists assistant_memory (
+          id text primary key,
+          key text,
+          content text not null,
+          created_at integer not null
+        );
+        create table if not exists chat_messages (
+          id text primary key,
+          conversation_id text,
+          role text not null,
+          content text not null,
+          tool_calls text,
+          created_at integer not null
+        );
+        create table if not exists files (
+          id text primary key,
+          name text not null,
+          mime_type text not null,
+          size integer not null,
+          path text not null,
+          created_at integer not null
+        );
+        create table if not exists sandboxes (
+          id text primary key,
+          name text not null,
+          image text not null,
+          status text not null,
+          container_id text,
+          config text not null,
+          created_at integer not null
+        );
+        create table if not exists custom_functions (
+          id text primary key,
+          name text not null,
+          description text,
+          language text not null,
+          source text not null,
+          sandbox_id text,
+          created_at integer not null
+        );
+        create table if not exists token_usage (
+          id text primary key,
+          execution_id text,
+          agent_id text,
+          workflow_id text,
+          provider text not null,
+          model text not null,
+          prompt_tokens integer not null,
+          completion_tokens integer not null,
+          estimated_cost text,
+          fallback_from text,
+          failed_attempts integer,
+          conversation_id text,
+          created_at integer not null
+        );
+        create table if not exists rate_limit_requests (
+          id text primary key,
+          key text not null,
+          started_at integer not null,
+          finished_at integer,
+          expires_at integer not null
+        );
+        create index if not exists rate_limit_requests_key on rate_limit_requests (key, started_at);
+        create table if not exists rate_limit_tokens (
+          id text primary key,
+          key text not null,
+          tokens integer not null,
+          created_at integer not null
+        );
+        create index if not exists rate_limit_tokens_key on rate_limit_tokens (key, created_at);
+        create table if not exists rate_limit_quotas (
+          key text not null,
+          period text not null,
+          tokens integer not null,
+          primary key (key, period)
+        );
+        create table if not exists budgets (
+          id text primary key,
+          name text,
+          scope text not null,
+          scope_id text,
+          per_run_limit text,
+          daily_limit text,
+          monthly_limit text,
+          action text not null,
+          enabled integer not null,
+          created_at integer not null,
+          updated_at integer not null
+        );
+        create table if not exists model_pricing (
+          id text primary key,
+          model_pattern text not null,
+          input_cost_per_m text not null,
+          output_cost_per_m text not null,
+          updated_at integer not null
+        );
+        create table if not exists feedback (
+          id text primary key,
+          target_type text not null,
+          target_id text not null,
+          execution_id text,
+          input text not null,
+          output text not null,
+          label text not null,
+          notes text,
+          created_at integer not null
+        );
+        create table if not exists remote_servers (
+          id text primary key,
+          label text not null,
+          host text not null,
+          port integer not null,
+          user text not null,
+          auth_type text not null,
+          key_path text,
+          model_base_url text,
+          created_at integer not null
+        );
+        create table if not exists sandbox_site_bindings (
+          id text primary key,
+          sandbox_id text not null,
+          host text not null,
+          container_port integer not null,
+          host_port integer not null,
+          created_at integer not null
+        );
+        create table if not exists tasks (
+          id text primary key,
+          workflow_id text not null,
+          execution_id text,
+          agent_id text not null,
+          step_id text not null,
+          step_name text not null,
+          label text,
+          status text not null,
+          input text,
+          output text,
+          created_at integer not null,
+          resolved_at integer,
+          resolved_by text
+        );
+        create table if not exists rag_embedding_providers (
+          id text primary key,
+          name text not null,
+          type text not null,
+          endpoint text,
+          api_key_ref text,
+          extra text,
+          created_at integer not null
+        );
+        create table if not exists rag_encoding_configs (
+          id text primary key,
+          name text not null,
+          provider text not null,
+          model_or_endpoint text not null,
+          dimensions integer not null,
+          embedding_provider_id text,
+          endpoint text,
+          chunking text,
+          created_at integer not null
+        );
+        create table if not exists rag_document_stores (
+          id text primary key,
+          name text not null,
+          type text not null,
+          bucket text not null,
+          region text,
+          endpoint text,
+          credentials_ref text,
+          created_at integer not null
+        );
+        create table if not exists rag_vector_stores (
+          id text primary key,
+          name text not null,
+          type text not null,
+          config text,
+          created_at integer not null
+        );
+        create table if not exists rag_collections (
+          id text primary key,
+          name text not null,
+          scope text not null,
+          agent_id text,
+          encoding_config_id text not null,
+          document_store_id text not null,
+          vector_store_id text,
+          rag_retrieve_limit integer,
+          retrieval_mode text,
+          rerank_config text,
+          chunking text,
+          created_at integer not null
+        );
+        create table if not exists rag_documents (
+          id text primary key,
+          collection_id text not null,
+          external_id text,
+          store_path text not null,
+          mime_type text,
+          metadata text,
+          created_at integer not null
+        );
+        create table if not exists rag_connectors (
+          id text primary key,
+          type text not null,
+          collection_id text not null,
+          config text not null,
+          status text not null,
+          last_sync_at integer,
+          created_at integer not null
+        );
+        create table if not exists rag_vectors (
+          id text primary key,
+          collection_id text not null,
+          document_id text not null,
+          chunk_index integer not null,
+          text text not null,
+          embedding text not null,
+          embedding_blob blob,
+          list_id integer,
+          heading_path text,
+          start_offset integer,
+          end_offset integer,
+          created_at integer not null
+        );
+        create table if not exists rag_vector_indexes (
+          collection_id text primary key,
+          dimensions integer not null,
+          lists integer not null,
+          centroids blob not null,
+          trained_count integer not null,
+          built_at integer not null
+        );
+        create virtual table if not exists rag_vectors_fts using fts5(
+          text,
+          content='rag_vectors',
+          content_rowid='rowid',
+          tokenize='unicode61'
+        );
+        create trigger if not exists rag_vectors_fts_insert after insert on rag_vectors begin
+          insert into rag_vectors_fts(rowid, text) values (new.rowid, new.text);
+        end;
+        create trigger if not exists rag_vectors_fts_delete after delete on rag_vectors begin
+          insert into rag_vectors_fts(rag_vectors_fts, rowid, text) values ('delete', old.rowid, old.text);
+        end;
+        create trigger if not exists rag_vectors_fts_update after update of text on rag_vectors begin
+          insert into rag_vectors_fts(rag_vectors_fts, rowid, text) values ('delete', old.rowid, old.text);
+          insert into rag_vectors_fts(rowid, text) values (new.rowid, new.text);
+        end;
+        create table if not exists improvement_jobs (
+          id text primary key,
+          name text,
+          scope_type text,
+          scope_id text,
+          student_llm_config_id text,
+          teacher_llm_config_id text,
+          current_model_ref text,
+          instance_refs text,
+          architecture_spec text,
+          last_trained_at integer,
+          last_feedback_at integer,
+          created_at integer not null
+        );
+        create table if not exists technique_insights (
+          id text primary key,
+          job_id text not null,
+          run_id text,
+          technique_or_strategy text not null,
+          outcome text not null,
+          summary text not null,
+          config text,
+          created_at integer not null
+        );
+        create table if not exists technique_playbook (
+          id text primary key,
+          name text not null,
+          description text,
+          when_to_use text,
+          downsides text,
+          interactions text,
+          observed text,
+          updated_at integer not null
+        );
+        create table if not exists guardrails (
+          id text primary key,
+          scope text not null,
+          scope_id text,
+          config text not null,
+          created_at integer not null
+        );
+        create table if not exists agent_store_entries (
+          id text primary key,
+          scope text not null,
+          scope_id text not null,
+          store_name text not null,
+          key text not null,
+          value text not null,
+          created_at integer not null
+        );
+        create table if not exists training_runs (
+          id text primary key,
+          job_id text not null,
+          backend text not null,
+          status text not null,
+          dataset_ref text,
+          output_model_ref text,
+          config text,
+          created_at integer not null,
+          finished_at integer
+        );
+        create table if not exists eval_results (
+          id text primary key,
+          job_id text not null,
+          training_run_id text,
+          instance_ref text,
+          eval_set_ref text,
+          metrics text not null,
+          eval_run_id text,
+          case_id text,
+          execution_id text,
+          score text,
+          passed integer,
+          output text,
+          error text,
+          created_at integer not null
+        );
+        create table if not exists eval_suites (
+          id text primary key,
+          name text not null,
+          description text,
+          target_type text not null,
+          target_id text not null,
+          created_at integer not null,
+          updated_at integer not null
+        );
+        create index if not exists eval_suites_target on eval_suites (target_type, target_id);
+        create table if not exists eval_cases (
+          id text primary key,
+          suite_id text not null,
+          name text not null,
+          input text not null,
+          expected text,
+          scorer text not null,
+          created_at integer not null
+        );
+        create index if not exists eval_cases_suite on eval_cases (suite_id, created_at);
+        create table if not exists eval_runs (
+          id text primary key,
+          suite_id text not null,
+          target_type text not null,
+          target_id text not null,
+          agent_version integer,
+          instance_ref text,
+          label text,
+          status text not null,
+          case_count integer not null,
+          passed_count integer not null,
+          mean_score text,
+          error text,
+          created_at integer not null,
+          finished_at integer
+        );
+        create index if not exists eval_runs_suite on eval_runs (suite_id, created_at);
+        create table if not exists credential_grants (
+          id text primary key,
+          credential_key text not null,
+          target_type text not null,
+          target_id text not null,
+          wrapped_key text,
+          value text,
+          created_at integer not null,
+          revoked_at integer,
+          last_used_at integer
+        );
+        create index if not exists credential_grants_key on credential_grants (credential_key);
+        create index if not exists credential_grants_target on credential_grants (target_type, target_id);
+        create table if not exists auth_admin (
+          id text primary key,
+          password_hash text not null,
+          salt text not null,
+          created_at integer not null,
+          updated_at integer not null
+        );
+        create table if not exists auth_sessions (
+          id text primary key,
+          token_hash text not null,
+          created_at integer not null,
+          expires_at integer not null
+        );
+        create unique index if not exists auth_sessions_token_hash on auth_sessions (token_hash);
+        create table if not exists api_tokens (
+          id text primary key,
+          name text not null,
+          scope text not null,
+          token_hash text not null,
+          token_prefix text not null,
+          created_at integer not null,
+          expires_at integer,
+          last_used_at integer,
+          revoked_at integer
+        );
+        create unique index if not exists api_tokens_token_hash on api_tokens (token_hash);
+        create table if not exists reminders (
+          id text primary key,
+          run_at integer not null,
+          message text not null,
+          conversation_id text,
+          task_type text not null,
+          status text not null,
+          created_at integer not null,
+          fired_at integer
+        );
+        create table if not exists notifications (
+          id text primary key,
+          type text not null,
+          source_id text not null,
+          title text not null,
+          message text not null,
+          severity text not null,
+          status text not null,
+          created_at integer not null,
+          updated_at integer not null,
+          metadata text
+        );
+      `;
@@ -2,469 +2,10 @@ import path from "node:path";
 import Database from "better-sqlite3";
 import { drizzle } from "drizzle-orm/better-sqlite3";
 import type { DatabaseAdapter } from "./types";
+import { SCHEMA_SQL } from "./sqlite-schema";
 
 export type SqliteAdapter = DatabaseAdapter<ReturnType<typeof drizzle>>;
 
-const SCHEMA_SQL = `
-        create table if not exists agents (
-          id text primary key,
-          name text not null,
-          description text,
-          kind text not null,
-          type text not null,
-          protocol text not null,
-          endpoint text,
-          agent_key text,
-          capabilities text not null,
-          scopes text not null,
-          llm_config text,
-          definition text,
-          created_at integer not null
-        );
-        create table if not exists workflows (
-          id text primary key,
-          name text not null,
-          description text,
-          nodes text not null,
-          edges text not null,
-          execution_mode text not null,
-          schedule text,
-          max_rounds integer,
-          turn_instruction text,
-          branches text,
-          execution_order text,
-          created_at integer not null
-        );
-        create table if not exists agent_versions (
-          id text primary key,
-          agent_id text not null,
-          version integer not null,
-          snapshot text not null,
-          created_at integer not null,
-          conversation_id text
-        );
-        create table if not exists workflow_versions (
-          id text primary key,
-          workflow_id text not null,
-          version integer not null,
-          snapshot text not null,
-          created_at integer not null,
-          conversation_id text
-        );
-        create table if not exists tools (
-          id text primary key,
-          name text not null,
-          protocol text not null,
-          config text not null,
-          input_schema text,
-          output_schema text
-        );
-        create table if not exists prompts (
-          id text primary key,
-          name text not null,
-          description text,
-          arguments text,
-          template text not null
-        );
-        create table if not exists llm_configs (
-          id text primary key,
-          provider text not null,
-          model text not null,
-          api_key_ref text,
-          endpoint text,
-          extra text
-        );
-        create table if not exists executions (
-          id text primary key,
-          target_type text not null,
-          target_id text not null,
-          target_branch_id text,
-          conversation_id text,
-          status text not null,
-          started_at integer not null,
-          finished_at integer,
-          output text
-        );
-        create table if not exists run_logs (
-          id text primary key,
-          execution_id text not null,
-          level text not null,
-          message text not null,
-          payload text,
-          created_at integer not null
-        );
-        create table if not exists workflow_messages (
-          id text primary key,
-          execution_id text not null,
-          node_id text,
-          agent_id text,
-          role text not null,
-          content text not null,
-          message_type text,
-          metadata text,
-          created_at integer not null
-        );
-        create table if not exists execution_events (
-          id text primary key,
-          execution_id text not null,
-          sequence integer not null,
-          type text not null,
-          payload text,
-          processed_at integer,
-          created_at integer not null
-        );
-        create table if not exists execution_run_state (
-          execution_id text primary key,
-          workflow_id text not null,
-          target_branch_id text,
-          current_node_id text,
-          round integer not null,
-          shared_context text not null,
-          status text not null,
-          waiting_at_node_id text,
-          trail_snapshot text,
-          updated_at integer not null
-        );
-        create table if not exists workflow_queue (
-          id text primary key,
-          type text not null,
-          payload text not null,
-          status text not null,
-          run_id text,
-          enqueued_at integer not null,
-          started_at integer,
-          finished_at integer,
-          error text,
-          created_at integer not null
-        );
-        create table if not exists conversation_locks (
-          conversation_id text primary key,
-          started_at integer not null,
-          created_at integer not null
-        );
-        create table if not exists message_queue_log (
-          id text primary key,
-          conversation_id text not null,
-          message_id text,
-          type text not null,
-          phase text,
-          label text,
-          payload text,
-          created_at integer not null
-        );
-        create table if not exists execution_log (
-          id text primary key,
-          execution_id text not null,
-          sequence integer not null,
-          phase text not null,
-          label text,
-          payload text,
-          created_at integer not null
-        );
-        create table if not exists skills (
-          id text primary key,
-          name text not null,
-          description text,
-          type text not null,
-          content text,
-          config text,
-          created_at integer not null
-        );
-        create table if not exists agent_skills (
-          agent_id text not null,
-          skill_id text not null,
-          sort_order integer not null,
-          config text,
-          created_at integer not null,
-          primary key (agent_id, skill_id)
-        );
-        create table if not exists contexts (
-          id text primary key,
-          key text not null,
-          value text not null,
-          updated_at integer not null
-        );
-        create table if not exists conversations (
-          id text primary key,
-          title text,
-          rating integer,
-          note text,
-          summary text,
-          last_used_provider text,
-          last_used_model text,
-          created_at integer not null
-        );
-        create table if not exists assistant_memory (
-          id text primary key,
-          key text,
-          content text not null,
-          created_at integer not null
-        );
-        create table if not exists chat_messages (
-          id text primary key,
-          conversation_id text,
-          role text not null,
-          content text not null,
-          tool_calls text,
-          created_at integer not null
-        );
-        create table if not exists files (
-          id text primary key,
-          name text not null,
-          mime_type text not null,
-          size integer not null,
-          path text not null,
-          created_at integer not null
-        );
-        create table if not exists sandboxes (
-          id text primary key,
-          name text not null,
-          image text not null,
-          status text not null,
-          container_id text,
-          config text not null,
-          created_at integer not null
-        );
-        create table if not exists custom_functions (
-          id text primary key,
-          name text not null,
-          description text,
-          language text not null,
-          source text not null,
-          sandbox_id text,
-          created_at integer not null
-        );
-        create table if not exists token_usage (
-          id text primary key,
-          execution_id text,
-          agent_id text,
-          workflow_id text,
-          provider text not null,
-          model text not null,
-          prompt_tokens integer not null,
-          completion_tokens integer not null,
-          estimated_cost text,
-          created_at integer not null
-        );
-        create table if not exists model_pricing (
-          id text primary key,
-          model_pattern text not null,
-          input_cost_per_m text not null,
-          output_cost_per_m text not null,
-          updated_at integer not null
-        );
-        create table if not exists feedback (
-          id text primary key,
-          target_type text not null,
-          target_id text not null,
-          execution_id text,
-          input text not null,
-          output text not null,
-          label text not null,
-          notes text,
-          created_at integer not null
-        );
-        create table if not exists remote_servers (
-          id text primary key,
-          label text not null,
-          host text not null,
-          port integer not null,
-          user text not null,
-          auth_type text not null,
-          key_path text,
-          model_base_url text,
-          created_at integer not null
-        );
-        create table if not exists sandbox_site_bindings (
-          id text primary key,
-          sandbox_id text not null,
-          host text not null,
-          container_port integer not null,
-          host_port integer not null,
-          created_at integer not null
-        );
-        create table if not exists tasks (
-          id text primary key,
-          workflow_id text not null,
-          execution_id text,
-          agent_id text not null,
-          step_id text not null,
-          step_name text not null,
-          label text,
-          status text not null,
-          input text,
-          output text,
-          created_at integer not null,
-          resolved_at integer,
-          resolved_by text
-        );
-        create table if not exists rag_embedding_providers (
-          id text primary key,
-          name text not null,
-          type text not null,
-          endpoint text,
-          api_key_ref text,
-          extra text,
-          created_at integer not null
-        );
-        create table if not exists rag_encoding_configs (
-          id text primary key,
-          name text not null,
-          provider text not null,
-          model_or_endpoint text not null,
-          dimensions integer not null,
-          embedding_provider_id text,
-          endpoint text,
-          created_at integer not null
-        );
-        create table if not exists rag_document_stores (
-          id text primary key,
-          name text not null,
-          type text not null,
-          bucket text not null,
-          region text,
-          endpoint text,
-          credentials_ref text,
-          created_at integer not null
-        );
-        create table if not exists rag_vector_stores (
-          id text primary key,
-          name text not null,
-          type text not null,
-          config text,
-          created_at integer not null
-        );
-        create table if not exists rag_collections (
-          id text primary key,
-          name text not null,
-          scope text not null,
-          agent_id text,
-          encoding_config_id text not null,
-          document_store_id text not null,
-          vector_store_id text,
-          created_at integer not null
-        );
-        create table if not exists rag_documents (
-          id text primary key,
-          collection_id text not null,
-          external_id text,
-          store_path text not null,
-          mime_type text,
-          metadata text,
-          created_at integer not null
-        );
-        create table if not exists rag_connectors (
-          id text primary key,
-          type text not null,
-          collection_id text not null,
-          config text not null,
-          status text not null,
-          last_sync_at integer,
-          created_at integer not null
-        );
-        create table if not exists rag_vectors (
-          id text primary key,
-          collection_id text not null,
-          document_id text not null,
-          chunk_index integer not null,
-          text text not null,
-          embedding text not null,
-          created_at integer not null
-        );
-        create table if not exists improvement_jobs (
-          id text primary key,
-          name text,
-          scope_type text,
-          scope_id text,
-          student_llm_config_id text,
-          teacher_llm_config_id text,
-          current_model_ref text,
-          instance_refs text,
-          architecture_spec text,
-          last_trained_at integer,
-          last_feedback_at integer,
-          created_at integer not null
-        );
-        create table if not exists technique_insights (
-          id text primary key,
-          job_id text not null,
-          run_id text,
-          technique_or_strategy text not null,
-          outcome text not null,
-          summary text not null,
-          config text,
-          created_at integer not null
-        );
-        create table if not exists technique_playbook (
-          id text primary key,
-          name text not null,
-          description text,
-          when_to_use text,
-          downsides text,
-          interactions text,
-          observed text,
-          updated_at integer not null
-        );
-        create table if not exists guardrails (
-          id text primary key,
-          scope text not null,
-          scope_id text,
-          config text not null,
-          created_at integer not null
-        );
-        create table if not exists agent_store_entries (
-          id text primary key,
-          scope text not null,
-          scope_id text not null,
-          store_name text not null,
-          key text not null,
-          value text not null,
-          created_at integer not null
-        );
-        create table if not exists training_runs (
-          id text primary key,
-          job_id text not null,
-          backend text not null,
-          status text not null,
-          dataset_ref text,
-          output_model_ref text,
-          config text,
-          created_at integer not null,
-          finished_at integer
-        );
-        create table if not exists eval_results (
-          id text primary key,
-          job_id text not null,
-          training_run_id text,
-          instance_ref text,
-          eval_set_ref text,
-          metrics text not null,
-          created_at integer not null
-        );
-        create table if not exists reminders (
-          id text primary key,
-          run_at integer not null,
-          message text not null,
-          conversation_id text,
-          task_type text not null,
-          status text not null,
-          created_at integer not null,
-          fired_at integer
-        );
-        create table if not exists notifications (
-          id text primary key,
-          type text not null,
-          source_id text not null,
-          title text not null,
-          message text not null,
-          severity text not null,
-          status text not null,
-          created_at integer not null,
-          updated_at integer not null,
-          metadata text
-        );
-      `;
-
 export const createSqliteAdapter = (filePath: string): SqliteAdapter => {
   const sqlite = new Database(filePath);
   const db = drizzle(sqlite);
@@ -484,6 +25,8 @@ export const createSqliteAdapter = (filePath: string): SqliteAdapter => {
           )
           .all() as { name: string }[];
         for (const { name } of rows) {
+          // The keyword index follows rag_vectors through its triggers.
+          if (name.startsWith("rag_vectors_fts")) continue;
           const quoted = `"${name.replace(/"/g, '""')}"`;
           sqlite.exec(`DELETE FROM main.${quoted}`);
           sqlite.exec(`INSERT INTO main.${quoted} SELECT * FROM backup.${quoted}`);
@@ -497,12 +40,17 @@ export const createSqliteAdapter = (filePath: string): SqliteAdapter => {
         "notifications",
         "reminders",
         "training_runs",
+        "eval_runs",
+        "eval_cases",
+        "eval_suites",
         "eval_results",
         "agent_store_entries",
         "guardrails",
         "technique_insights",
         "technique_playbook",
         "improvement_jobs",
+        "rag_vectors_fts",
+        "rag_vector_indexes",
         "rag_vectors",
         "rag_connectors",
         "rag_documents",
@@ -517,7 +65,11 @@ export const createSqliteAdapter = (filePath: string): SqliteAdapter => {
         "feedback",
         "remote_servers",
         "model_pricing",
+        "budgets",
         "token_usage",
+        "rate_limit_requests",
+        "rate_limit_tokens",
+        "rate_limit_quotas",
         "message_queue_log",
         "execution_log",
         "custom_functions",
@@ -527,6 +79,10 @@ export const createSqliteAdapter = (filePath: string): SqliteAdapter => {
         "conversations",
         "assistant_memory",
         "chat_assistant_settings",
+        "api_tokens",
+        "auth_sessions",
+        "auth_admin",
+        "credential_grants",
         "saved_credentials",
         "vault_meta",
         "contexts",
@@ -537,6 +93,9 @@ export const createSqliteAdapter = (filePath: string): SqliteAdapter => {
         "llm_configs",
         "prompts",
         "tools",
+        "workflow_trigger_events",
+        "workflow_triggers",
+        "workflow_schedules",
         "workflows",
         "agents",
       ];
@@ -546,7 +105,13 @@ export const createSqliteAdapter = (filePath: string): SqliteAdapter => {
       sqlite.exec(SCHEMA_SQL);
     },
     initialize: () => {
+      const hadKeywordIndex =
+        sqlite.prepare("select 1 from sqlite_master where name = 'rag_vectors_fts'").get() != null;
       sqlite.exec(SCHEMA_SQL);
+      if (!hadKeywordIndex) {
+        // Index chunks stored before the keyword index existed.
+        sqlite.exec("insert into rag_vectors_fts(rag_vectors_fts) values ('rebuild')");
+      }
       try {
         sqlite.exec("ALTER TABLE workflows ADD COLUMN max_rounds integer");
       } catch {
@@ -567,6 +132,19 @@ export const createSqliteAdapter = (filePath: string): SqliteAdapter => {
       } catch {
         // Column already exists
       }
+      for (const column of [
+        "timezone text",
+        "catch_up text",
+        "input_schema text",
+        "output_schema text",
+        "output_mapping text",
+      ]) {
+        try {
+          sqlite.exec(`ALTER TABLE workflows ADD COLUMN ${column}`);
+        } catch {
+          // Column already exists
+        }
+      }
       try {
         sqlite.exec("ALTER TABLE executions ADD COLUMN target_branch_id text");
       } catch {
@@ -609,6 +187,17 @@ export const createSqliteAdapter = (filePath: string): SqliteAdapter => {
       } catch {
         // Column already exists
       }
+      for (const column of [
+        "fallback_from text",
+        "failed_attempts integer",
+        "conversation_id text",
+      ]) {
+        try {
+          sqlite.exec(`ALTER TABLE token_usage ADD COLUMN ${column}`);
+        } catch {
+          // Column already exists
+        }
+      }
       try {
         sqlite.exec(
           "CREATE TABLE IF NOT EXISTS assistant_memory (id text primary key, key text, content text not null, created_at integer not null)"
@@ -691,6 +280,11 @@ export const createSqliteAdapter = (filePath: string): SqliteAdapter => {
       } catch {
         // Column already exists
       }
+      try {
+        sqlite.exec("ALTER TABLE chat_messages ADD COLUMN citations text");
+      } catch {
+        // Column already exists
+      }
       try {
         sqlite.exec(
           "CREATE TABLE IF NOT EXISTS saved_credentials (key text primary key, value text not null, created_at integer not null)"
@@ -705,6 +299,18 @@ export const createSqliteAdapter = (filePath: string): SqliteAdapter => {
       } catch {
         // Already exists
       }
+      for (const column of [
+        "recovery_salt text",
+        "recovery_wrapped_key text",
+        "recovery_seal text",
+        "rotated_at integer",
+      ]) {
+        try {
+          sqlite.exec(`ALTER TABLE vault_meta ADD COLUMN ${column}`);
+        } catch {
+          // Column already exists
+        }
+      }
       try {
         sqlite.exec(
           "CREATE TABLE IF NOT EXISTS message_queue_log (id text primary key, conversation_id text not null, message_id text, type text not null, phase text, label text, payload text, created_at integer not null)"
@@ -771,6 +377,42 @@ export const createSqliteAdapter = (filePath: string): SqliteAdapter => {
       } catch {
         // Column already exists
       }
+      try {
+        sqlite.exec("ALTER TABLE rag_collections ADD COLUMN retrieval_mode text");
+      } catch {
+        // Column already exists
+      }
+      try {
+        sqlite.exec("ALTER TABLE rag_collections ADD COLUMN rerank_config text");
+      } catch {
+        // Column already exists
+      }
+      try {
+        sqlite.exec("ALTER TABLE rag_collections ADD COLUMN chunking text");
+      } catch {
+        // Column already exists
+      }
+      try {
+        sqlite.exec("ALTER TABLE rag_encoding_configs ADD COLUMN chunking text");
+      } catch {
+        // Column already exists
+      }
+      for (const column of [
+        "heading_path text",
+        "start_offset integer",
+        "end_offset integer",
+        "embedding_blob blob",
+        "list_id integer",
+      ]) {
+        try {
+          sqlite.exec(`ALTER TABLE rag_vectors ADD COLUMN ${column}`);
+        } catch {
+          // Column already exists
+        }
+      }
+      sqlite.exec(
+        "CREATE INDEX IF NOT EXISTS rag_vectors_collection_list ON rag_vectors (collection_id, list_id)"
+      );
       sqlite.exec(`
         CREATE TABLE IF NOT EXISTS improvement_jobs (id text primary key, name text, scope_type text, scope_id text, student_llm_config_id text, teacher_llm_config_id text, current_model_ref text, instance_refs text, architecture_spec text, last_trained_at integer, last_feedback_at integer, created_at integer not null);
         CREATE TABLE IF NOT EXISTS technique_insights (id text primary key, job_id text not null, run_id text, technique_or_strategy text not null, outcome text not null, summary text not null, config text, created_at integer not null);
@@ -782,6 +424,24 @@ export const createSqliteAdapter = (filePath: string): SqliteAdapter => {
         CREATE TABLE IF NOT EXISTS reminders (id text primary key, run_at integer not null, message text not null, conversation_id text, task_type text not null, status text not null, created_at integer not null, fired_at integer);
         CREATE TABLE IF NOT EXISTS notifications (id text primary key, type text not null, source_id text not null, title text not null, message text not null, severity text not null, status text not null, created_at integer not null, updated_at integer not null, metadata text);
       `);
+      for (const column of [
+        "eval_run_id text",
+        "case_id text",
+        "execution_id text",
+        "score text",
+        "passed integer",
+        "output text",
+        "error text",
+      ]) {
+        try {
+          sqlite.exec(`ALTER TABLE eval_results ADD COLUMN ${column}`);
+        } catch {
+          // Column already exists
+        }
+      }
+      sqlite.exec(
+        "CREATE INDEX IF NOT EXISTS eval_results_run ON eval_results (eval_run_id, created_at)"
+      );
     },
   };
 };
@@ -1,4 +1,4 @@
-import { sqliteTable, text, integer, primaryKey } from "drizzle-orm/sqlite-core";
+import { sqliteTable, text, integer, blob, primaryKey } from "drizzle-orm/sqlite-core";
 
 export const agents = sqliteTable("agents", {
   id: text("id").primaryKey(),
@@ -32,6 +32,15 @@ export const workflows = sqliteTable("workflows", {
   branches: text("branches"),
   /** Optional explicit execution order: JSON array of steps (node id or { parallel: nodeIds }). */
   executionOrder: text("execution_order"),
+  /** IANA timezone for cron and daily@/weekly@ schedules; server timezone when null. */
+  timezone: text("timezone"),
+  /** Missed runs after downtime: skip | run_once | run_all (skip when null). */
+  catchUp: text("catch_up"),
+  /** JSON schemas (type "object") of the run inputs and of the mapped result. */
+  inputSchema: text("input_schema"),
+  outputSchema: text("output_schema"),
+  /** JSON object: result field -> expression over node outputs (see mapWorkflowOutput). */
+  outputMapping: text("output_mapping"),
   createdAt: integer("created_at").notNull(),
 });
 
@@ -121,6 +130,7 @@ export const chatMessages = sqliteTable("chat_messages", {
   toolCalls: text("tool_calls"),
   llmTrace: text("llm_trace"),
   rephrasedPrompt: text("rephrased_prompt"),
+  citations: text("citations"),
   createdAt: integer("created_at").notNull(),
 });
 
@@ -156,12 +166,70 @@ export const savedCredentials = sqliteTable("saved_credentials", {
   createdAt: integer("created_at").notNull(),
 });
 
+/**
+ * Unattended access to one saved credential for a workflow or agent, used by runs without an
+ * unlocked vault (schedules, triggers). value is a copy of the credential encrypted with a per-grant
+ * key; wrappedKey is that key encrypted with the machine secret. Revoking clears both and keeps the
+ * row for the audit trail.
+ */
+export const credentialGrants = sqliteTable("credential_grants", {
+  id: text("id").primaryKey(),
+  credentialKey: text("credential_key").notNull(),
+  targetType: text("target_type").notNull(), // workflow | agent
+  targetId: text("target_id").notNull(),
+  wrappedKey: text("wrapped_key"),
+  value: text("value"),
+  createdAt: integer("created_at").notNull(),
+  revokedAt: integer("revoked_at"),
+  lastUsedAt: integer("last_used_at"),
+});
+
 /** Single row: vault salt and encrypted check value. Used to verify master password; credentials are encrypted with key derived from master password. */
 export const vaultMeta = sqliteTable("vault_meta", {
   id: text("id").primaryKey(),
   salt: text("salt").notNull(),
   check: text("check").notNull(),
   createdAt: integer("created_at").notNull(),
+  /** Recovery key: scrypt salt for the recovery key, set when the vault has one. */
+  recoverySalt: text("recovery_salt"),
+  /** Vault key encrypted with the key derived from the recovery key. */
+  recoveryWrappedKey: text("recovery_wrapped_key"),
+  /** Recovery-derived key encrypted with the vault key, so a password rotation can rewrap it. */
+  recoverySeal: text("recovery_seal"),
+  rotatedAt: integer("rotated_at"),
+});
+
+/** Single row: the local admin login. passwordHash is scrypt(password, salt). When absent, API auth is off. */
+export const authAdmin = sqliteTable("auth_admin", {
+  id: text("id").primaryKey(),
+  passwordHash: text("password_hash").notNull(),
+  salt: text("salt").notNull(),
+  createdAt: integer("created_at").notNull(),
+  updatedAt: integer("updated_at").notNull(),
+});
+
+/** Browser sessions of the admin login. Only the SHA-256 of the session cookie is stored. */
+export const authSessions = sqliteTable("auth_sessions", {
+  id: text("id").primaryKey(),
+  tokenHash: text("token_hash").notNull(),
+  createdAt: integer("created_at").notNull(),
+  expiresAt: integer("expires_at").notNull(),
+});
+
+/**
+ * Personal access tokens for the API (Authorization: Bearer). Only the SHA-256 of the token is stored;
+ * tokenPrefix is kept to tell tokens apart in the UI. Revoked tokens keep their row.
+ */
+export const apiTokens = sqliteTable("api_tokens", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  scope: text("scope").notNull(), // read | run | admin
+  tokenHash: text("token_hash").notNull(),
+  tokenPrefix: text("token_prefix").notNull(),
+  createdAt: integer("created_at").notNull(),
+  expiresAt: integer("expires_at"),
+  lastUsedAt: integer("last_used_at"),
+  revokedAt: integer("revoked_at"),
 });
 
 export const files = sqliteTable("files", {
@@ -235,9 +303,66 @@ export const tokenUsage = sqliteTable("token_usage", {
   promptTokens: integer("prompt_tokens").notNull(),
   completionTokens: integer("completion_tokens").notNull(),
   estimatedCost: text("estimated_cost"),
+  /** "provider/model" of the requested config when a fallback answered instead */
+  fallbackFrom: text("fallback_from"),
+  /** Calls that failed (retries and fallbacks) before the one that answered */
+  failedAttempts: integer("failed_attempts"),
+  /** Chat conversation whose turn made the call */
+  conversationId: text("conversation_id"),
   createdAt: integer("created_at").notNull(),
 });
 
+/**
+ * Shared LLM rate limiter state (all processes using the database): one row per request in the
+ * last minute or still in flight, token records of the last minute, and tokens per daily/monthly
+ * quota period. Keyed by LLM config id.
+ */
+export const rateLimitRequests = sqliteTable("rate_limit_requests", {
+  id: text("id").primaryKey(),
+  key: text("key").notNull(),
+  startedAt: integer("started_at").notNull(),
+  finishedAt: integer("finished_at"),
+  /** A request not released by then (crashed process) no longer holds a concurrency slot */
+  expiresAt: integer("expires_at").notNull(),
+});
+
+export const rateLimitTokens = sqliteTable("rate_limit_tokens", {
+  id: text("id").primaryKey(),
+  key: text("key").notNull(),
+  tokens: integer("tokens").notNull(),
+  createdAt: integer("created_at").notNull(),
+});
+
+export const rateLimitQuotas = sqliteTable(
+  "rate_limit_quotas",
+  {
+    key: text("key").notNull(),
+    /** "day:YYYY-MM-DD" or "month:YYYY-MM" (UTC) */
+    period: text("period").notNull(),
+    tokens: integer("tokens").notNull(),
+  },
+  (t) => [primaryKey({ columns: [t.key, t.period] })]
+);
+
+/**
+ * Spend limits in USD for the whole deployment (scope "global", no scopeId) or one workflow, agent
+ * or conversation. Limits are checked against token_usage costs per run (chat turn for
+ * conversations), per UTC day and per UTC month; action "pause" or "cancel" applies to runs.
+ */
+export const budgets = sqliteTable("budgets", {
+  id: text("id").primaryKey(),
+  name: text("name"),
+  scope: text("scope").notNull(),
+  scopeId: text("scope_id"),
+  perRunLimit: text("per_run_limit"),
+  dailyLimit: text("daily_limit"),
+  monthlyLimit: text("monthly_limit"),
+  action: text("action").notNull(),
+  enabled: integer("enabled").notNull(),
+  createdAt: integer("created_at").notNull(),
+  updatedAt: integer("updated_at").notNull(),
+});
+
 export const modelPricing = sqliteTable("model_pricing", {
   id: text("id").primaryKey(),
   modelPattern: text("model_pattern").notNull(),
@@ -359,6 +484,63 @@ export const workflowQueue = sqliteTable("workflow_queue", {
   createdAt: integer("created_at").notNull(),
 });
 
+/**
+ * Schedule state per workflow or branch (id = workflowId or workflowId:branchId): when it last
+ * fired and when it fires next, so runs missed while the app was closed can be caught up.
+ * schedule/timezone are what nextRunAt was computed from; a changed schedule starts over.
+ */
+export const workflowSchedules = sqliteTable("workflow_schedules", {
+  id: text("id").primaryKey(),
+  workflowId: text("workflow_id").notNull(),
+  branchId: text("branch_id"),
+  schedule: text("schedule").notNull(),
+  timezone: text("timezone").notNull(),
+  nextRunAt: integer("next_run_at"),
+  lastRunAt: integer("last_run_at"),
+  updatedAt: integer("updated_at").notNull(),
+});
+
+/**
+ * Triggers that start a workflow (or one branch) from outside: a webhook at /api/hooks/:token, a
+ * new file in a watched folder, new RAG connector items after a sync, another workflow's run
+ * finishing, or a matching Telegram message. config holds the type's settings (JSON);
+ * inputMapping maps run input names to expressions over the event (JSON).
+ */
+export const workflowTriggers = sqliteTable("workflow_triggers", {
+  id: text("id").primaryKey(),
+  workflowId: text("workflow_id").notNull(),
+  branchId: text("branch_id"),
+  name: text("name").notNull(),
+  type: text("type").notNull(), // webhook | file | rag_connector | workflow_run | telegram
+  token: text("token"), // webhook only: path segment of /api/hooks/:token
+  secret: text("secret"), // webhook only: HMAC-SHA256 key for the signature header
+  config: text("config"),
+  inputMapping: text("input_mapping"),
+  enabled: integer("enabled").notNull(),
+  lastFiredAt: integer("last_fired_at"),
+  createdAt: integer("created_at").notNull(),
+  updatedAt: integer("updated_at").notNull(),
+});
+
+/**
+ * Audit log of trigger firings: the event that fired (payload truncated), whether it was queued
+ * or rejected, and the workflow_queue job and run it created. sourceRef identifies the event
+ * (file path, document id, run id, message id) so one event starts a trigger's workflow once.
+ */
+export const workflowTriggerEvents = sqliteTable("workflow_trigger_events", {
+  id: text("id").primaryKey(),
+  triggerId: text("trigger_id").notNull(),
+  workflowId: text("workflow_id").notNull(),
+  source: text("source").notNull(),
+  sourceRef: text("source_ref"),
+  status: text("status").notNull(), // queued | rejected | failed
+  jobId: text("job_id"),
+  runId: text("run_id"),
+  payload: text("payload"),
+  error: text("error"),
+  createdAt: integer("created_at").notNull(),
+});
+
 /** Chat turn locks: one active turn per conversation (DB-backed serialization). */
 export const conversationLocks = sqliteTable("conversation_locks", {
   conversationId: text("conversation_id").primaryKey(),
@@ -409,6 +591,8 @@ export const ragEncodingConfigs = sqliteTable("rag_encoding_configs", {
   dimensions: integer("dimensions").notNull(),
   embeddingProviderId: text("embedding_provider_id"),
   endpoint: text("endpoint"),
+  /** JSON chunking config used at ingest (strategy, size, overlap); collections can override. */
+  chunking: text("chunking"),
   createdAt: integer("created_at").notNull(),
 });
 
@@ -443,6 +627,12 @@ export const ragCollections = sqliteTable("rag_collections", {
   documentStoreId: text("document_store_id").notNull(),
   vectorStoreId: text("vector_store_id"),
   ragRetrieveLimit: integer("rag_retrieve_limit"),
+  /** vector | keyword | hybrid (null = vector). */
+  retrievalMode: text("retrieval_mode"),
+  /** JSON rerank stage config ({ type: "llm", llmConfigId } or { type: "endpoint", url }); null = no rerank. */
+  rerankConfig: text("rerank_config"),
+  /** JSON chunking config; overrides the encoding config's. */
+  chunking: text("chunking"),
   createdAt: integer("created_at").notNull(),
 });
 
@@ -453,10 +643,32 @@ export const ragVectors = sqliteTable("rag_vectors", {
   documentId: text("document_id").notNull(),
   chunkIndex: integer("chunk_index").notNull(),
   text: text("text").notNull(),
+  /** JSON array of numbers; only rows stored before embedding_blob (new rows keep it empty). */
   embedding: text("embedding").notNull(),
+  /** Float32 little-endian vector. */
+  embeddingBlob: blob("embedding_blob", { mode: "buffer" }),
+  /** IVF list (nearest centroid in rag_vector_indexes); null until the collection is indexed. */
+  listId: integer("list_id"),
+  /** JSON array of the section headings the chunk sits under (markdown), or the symbol (code). */
+  headingPath: text("heading_path"),
+  /** Character offsets of the chunk in the extracted document text. */
+  startOffset: integer("start_offset"),
+  endOffset: integer("end_offset"),
   createdAt: integer("created_at").notNull(),
 });
 
+// --- RAG: approximate nearest neighbour index of a bundled collection (IVF over rag_vectors.list_id) ---
+export const ragVectorIndexes = sqliteTable("rag_vector_indexes", {
+  collectionId: text("collection_id").primaryKey(),
+  dimensions: integer("dimensions").notNull(),
+  lists: integer("lists").notNull(),
+  /** Float32 centroids, lists × dimensions. */
+  centroids: blob("centroids", { mode: "buffer" }).notNull(),
+  /** Vectors in the collection when the centroids were trained. */
+  trainedCount: integer("trained_count").notNull(),
+  builtAt: integer("built_at").notNull(),
+});
+
 // --- RAG: documents (ingested; vectors stored in vector DB keyed by id) ---
 export const ragDocuments = sqliteTable("rag_documents", {
   id: text("id").primaryKey(),
@@ -547,7 +759,11 @@ export const trainingRuns = sqliteTable("training_runs", {
   finishedAt: integer("finished_at"),
 });
 
-/** Eval results for MLOps: persisted metrics from evaluate_model (jobId, optional instanceRef, metrics JSON). */
+/**
+ * Eval results: one row per scored case of an eval run (evalRunId, caseId, score, passed, output),
+ * and the older per-job metrics rows of evaluate_model. jobId is the improvement job, "" when the
+ * suite targets an agent or workflow; evalSetRef is the suite id.
+ */
 export const evalResults = sqliteTable("eval_results", {
   id: text("id").primaryKey(),
   jobId: text("job_id").notNull(),
@@ -555,9 +771,60 @@ export const evalResults = sqliteTable("eval_results", {
   instanceRef: text("instance_ref"),
   evalSetRef: text("eval_set_ref"),
   metrics: text("metrics").notNull(),
+  evalRunId: text("eval_run_id"),
+  caseId: text("case_id"),
+  executionId: text("execution_id"),
+  score: text("score"),
+  passed: integer("passed"),
+  output: text("output"),
+  error: text("error"),
   createdAt: integer("created_at").notNull(),
 });
 
+/** Eval suites: named golden test sets attached to an agent, workflow or improvement job (targetType, targetId). */
+export const evalSuites = sqliteTable("eval_suites", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  description: text("description"),
+  targetType: text("target_type").notNull(), // agent | workflow | improvement_job
+  targetId: text("target_id").notNull(),
+  createdAt: integer("created_at").notNull(),
+  updatedAt: integer("updated_at").notNull(),
+});
+
+/** Cases of an eval suite: input (JSON), expected output or rubric, and the scorer config (JSON). */
+export const evalCases = sqliteTable("eval_cases", {
+  id: text("id").primaryKey(),
+  suiteId: text("suite_id").notNull(),
+  name: text("name").notNull(),
+  input: text("input").notNull(),
+  expected: text("expected"),
+  scorer: text("scorer").notNull(),
+  createdAt: integer("created_at").notNull(),
+});
+
+/**
+ * One execution of an eval suite against a target variant: an agent version, an improvement
+ * job's student model (instanceRef) or a candidate prompt (label). Summary scores are filled in
+ * when the run finishes; the per-case scores are in eval_results.
+ */
+export const evalRuns = sqliteTable("eval_runs", {
+  id: text("id").primaryKey(),
+  suiteId: text("suite_id").notNull(),
+  targetType: text("target_type").notNull(),
+  targetId: text("target_id").notNull(),
+  agentVersion: integer("agent_version"),
+  instanceRef: text("instance_ref"),
+  label: text("label"),
+  status: text("status").notNull(), // running | completed | failed
+  caseCount: integer("case_count").notNull(),
+  passedCount: integer("passed_count").notNull(),
+  meanScore: text("mean_score"),
+  error: text("error"),
+  createdAt: integer("created_at").notNull(),
+  finishedAt: integer("finished_at"),
+});
+
 /** One-shot reminders. taskType: "message" = post static text to chat; "assistant_task" = insert user message and run one assistant turn. */
 export const reminders = sqliteTable("reminders", {
   id: text("id").primaryKey(),
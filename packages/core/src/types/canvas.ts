@@ -32,8 +32,42 @@ export type EdgeCondition =
       /** "content_contains": last output/message content must include value (case-insensitive). */
       type: "content_contains";
       value: string;
+    }
+  | {
+      /** "regex": last output (as text) must match pattern. */
+      type: "regex";
+      pattern: string;
+      /** RegExp flags, e.g. "i". Default none. */
+      flags?: string;
+    }
+  | {
+      /** "json_path": compares a value read from the structured last output (e.g. "$.review.score"). */
+      type: "json_path";
+      path: string;
+      op: JsonPathConditionOp;
+      /** Compared value; not used by "exists". */
+      value?: unknown;
+    }
+  | { type: "and"; conditions: EdgeCondition[] }
+  | { type: "or"; conditions: EdgeCondition[] }
+  | { type: "not"; condition: EdgeCondition }
+  | {
+      /** "llm_judge": asks the given LLM config a yes/no question about the last output. */
+      type: "llm_judge";
+      llmConfigId: string;
+      question: string;
     };
 
+export type JsonPathConditionOp =
+  | "eq"
+  | "neq"
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte"
+  | "contains"
+  | "exists";
+
 export type CanvasEdge = {
   id: string;
   source: string;
@@ -43,6 +77,11 @@ export type CanvasEdge = {
   to?: string;
   /** Optional: edge is taken only when condition evaluates true against last output/message. */
   condition?: EdgeCondition;
+  /**
+   * Optional: for routing nodes (condition, switch, for_each), edge is taken only when the source
+   * node picked this branch (e.g. "true"/"false", a switch case, "item"/"done").
+   */
+  branch?: string;
 };
 
 /** Unified canvas structure - single source of truth for agent/workflow graphs. */
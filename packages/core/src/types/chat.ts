@@ -25,6 +25,25 @@ export interface LLMTraceCall {
   usage?: { promptTokens?: number; completionTokens?: number; totalTokens?: number };
 }
 
+/** Numbered source of a retrieved knowledge chunk; answers refer to it as [index]. */
+export interface ChatCitation {
+  index: number;
+  documentId?: string;
+  /** Original file name, or the connector item's name or title. */
+  filename?: string;
+  /** Id of the item in its connector (Drive file id, Notion page id, local path, ...). */
+  connectorItemId?: string;
+  /** Link to the connector item, or to the stored document file. */
+  url?: string;
+  chunkIndex?: number;
+  /** Character offsets of the chunk in the document text. */
+  start?: number;
+  end?: number;
+  headingPath?: string[];
+  /** Start of the chunk text, for previews. */
+  snippet?: string;
+}
+
 export interface ChatMessage {
   id: string;
   role: ChatRole;
@@ -34,6 +53,8 @@ export interface ChatMessage {
   llmTrace?: LLMTraceCall[];
   /** Rephrased user intent for this turn (assistant only; shown in UI and trace). */
   rephrasedPrompt?: string | null;
+  /** Knowledge sources cited in the answer (assistant only). */
+  citations?: ChatCitation[];
   createdAt: number;
   conversationId?: string;
 }
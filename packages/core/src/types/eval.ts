@@ -0,0 +1,40 @@
+/** What an eval suite runs: an agent, a workflow, or an improvement job's scope with its student model. */
+export type EvalTargetType = "agent" | "workflow" | "improvement_job";
+
+/**
+ * How a case's output is scored (0..1). exact and regex compare text; json_schema checks the
+ * output parses as JSON matching schema; similarity is the cosine similarity of the output and
+ * expected embeddings; llm_judge asks an LLM to grade the output against a rubric.
+ * A case passes when its score reaches threshold (1 for exact, regex and json_schema).
+ */
+export type EvalScorer =
+  | { type: "exact"; caseSensitive?: boolean }
+  | { type: "regex"; pattern?: string; flags?: string }
+  | { type: "json_schema"; schema: Record<string, unknown> }
+  | { type: "similarity"; threshold?: number; encodingConfigId?: string }
+  | { type: "llm_judge"; rubric?: string; llmConfigId?: string; threshold?: number };
+
+export type EvalScorerType = EvalScorer["type"];
+
+/** One input with its expected output (or rubric) in an eval suite. */
+export interface EvalCase {
+  id: string;
+  suiteId: string;
+  name: string;
+  /** Run inputs (object) or a message for an agent (string). */
+  input: unknown;
+  expected?: string | null;
+  scorer: EvalScorer;
+  createdAt: number;
+}
+
+/** A named golden test set attached to an agent, workflow or improvement job. */
+export interface EvalSuite {
+  id: string;
+  name: string;
+  description?: string | null;
+  targetType: EvalTargetType;
+  targetId: string;
+  createdAt: number;
+  updatedAt: number;
+}
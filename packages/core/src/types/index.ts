@@ -9,3 +9,4 @@ export * from "./sandbox";
 export * from "./file";
 export * from "./function";
 export * from "./feedback";
+export * from "./eval";
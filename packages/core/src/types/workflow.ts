@@ -2,6 +2,20 @@ import type { Canvas } from "./canvas";
 
 export type ExecutionMode = "one_time" | "continuous" | "interval";
 
+/** What to do with scheduled runs missed while the app was not running. */
+export type ScheduleCatchUp = "skip" | "run_once" | "run_all";
+
+/**
+ * JSON schema of a workflow's run inputs or result: an object with properties (each a JSON
+ * schema with optional description and default) and required names.
+ */
+export interface WorkflowIOSchema {
+  type?: "object";
+  properties?: Record<string, Record<string, unknown>>;
+  required?: string[];
+  additionalProperties?: boolean;
+}
+
 /**
  * One step in an explicit execution order: a single node id or a parallel group of node ids.
  * Mirrors the heap's HeapStep structure for leveled DAG execution.
@@ -16,8 +30,12 @@ export interface WorkflowBranch {
   edges: Canvas["edges"];
   /** When set with edges, execution follows the graph and stops after this many full cycles. */
   maxRounds?: number | null;
-  /** Schedule for this branch only: interval seconds (e.g. "60"), daily@HH:mm, or weekly@0,1,2 (0=Sun). */
+  /** Schedule for this branch only: interval seconds (e.g. "60"), a 5/6-field cron expression, daily@HH:mm, or weekly@0,1,2 (0=Sun). */
   schedule?: string;
+  /** IANA timezone for this branch's schedule; defaults to the workflow's timezone. */
+  timezone?: string;
+  /** Catch-up for this branch's missed runs; defaults to the workflow's catchUp. */
+  catchUp?: ScheduleCatchUp;
   executionMode?: ExecutionMode;
   /** Optional turn instruction for agents in this branch. */
   turnInstruction?: string | null;
@@ -30,7 +48,12 @@ export interface Workflow {
   nodes: Canvas["nodes"];
   edges: Canvas["edges"];
   executionMode: ExecutionMode;
+  /** Interval seconds (e.g. "60"), a 5/6-field cron expression (e.g. "0 9 * * 1-5"), daily@HH:mm, or weekly@0,1,2 (0=Sun). */
   schedule?: string;
+  /** IANA timezone (e.g. "Europe/Berlin") for cron and daily@/weekly@ schedules; server timezone when unset. */
+  timezone?: string;
+  /** Missed runs after downtime: skip them (default), run once, or run each one. */
+  catchUp?: ScheduleCatchUp;
   /** When set with edges, execution follows the graph and stops after this many full cycles (avoids endless loops). */
   maxRounds?: number | null;
   /** Optional instruction injected at the start of each agent turn (e.g. "Reply directly to what the partner just said."). Set via update_workflow turnInstruction. */
@@ -43,4 +66,10 @@ export interface Workflow {
    * nodes run in array order (one per level). Mirrors heap's priorityOrder structure.
    */
   executionOrder?: WorkflowExecutionStep[] | null;
+  /** Declared run inputs; execute requests, triggers and chat runs are validated against it. */
+  inputSchema?: WorkflowIOSchema | null;
+  /** Schema the run result must match; checked after outputMapping is applied. */
+  outputSchema?: WorkflowIOSchema | null;
+  /** Result field -> expression over node outputs (e.g. "nodes.summarize.title"); the run output becomes this object. */
+  outputMapping?: Record<string, string> | null;
 }
@@ -5,17 +5,22 @@ import type {
   ToolOverride,
 } from "@agentron-studio/core";
 import { renderPromptTemplate, validatePromptArguments } from "../prompts";
+import { contentText, toolResultContent } from "../llm/content";
+import { parseJsonOutput } from "../llm/structured-output";
 import type { LLMRequest, LLMResponse, LLMMessage } from "../llm/types";
 
 type NodeExecutionContext = AgentExecutionContext & {
   prompts?: Record<string, PromptTemplate>;
 };
 
-/** Runs the LLM with a decision layer: when tools are available, the model may return tool_calls; we execute them and loop until a final text response. */
+/**
+ * Runs the LLM with a decision layer: when tools are available, the model may return tool_calls; we execute them and loop until a final text response.
+ * With request.responseFormat the final response is the parsed JSON object instead of text.
+ */
 async function runLLMWithDecisionLayer(
   context: NodeExecutionContext,
   request: LLMRequest & { llmConfigId?: string }
-): Promise<string> {
+): Promise<unknown> {
   let messages: LLMMessage[] = [...request.messages];
   const tools = request.tools;
 
@@ -23,9 +28,20 @@ async function runLLMWithDecisionLayer(
     const req = { ...request, messages, llmConfigId: request.llmConfigId };
     const raw = await context.callLLM(req);
     const res = raw as LLMResponse;
-    if (!isLLMResponse(res)) return typeof raw === "string" ? raw : String(raw ?? "");
+    if (!isLLMResponse(res)) {
+      const text = typeof raw === "string" ? raw : String(raw ?? "");
+      return request.responseFormat ? (parseJsonOutput(text)?.value ?? text) : text;
+    }
 
     if (!res.toolCalls || res.toolCalls.length === 0) {
+      if (request.responseFormat) {
+        if (res.parsed === undefined) {
+          throw new Error(
+            `LLM output does not match the node's output schema: ${(res.content ?? "").slice(0, 200)}`
+          );
+        }
+        return res.parsed;
+      }
       return res.content ?? "";
     }
 
@@ -42,10 +58,10 @@ async function runLLMWithDecisionLayer(
       args = {};
     }
     const result = await context.callTool(tc.name, args);
-    const content = typeof result === "string" ? result : JSON.stringify(result ?? null);
-    messages.push({ role: "tool" as const, content, toolCallId: tc.id });
+    // Screenshots and other images in the result are passed to the model as image parts.
+    messages.push({ role: "tool" as const, content: toolResultContent(result), toolCallId: tc.id });
   }
-  return (messages[messages.length - 1]?.content as string) ?? "";
+  return contentText(messages[messages.length - 1]?.content ?? "");
 }
 
 function isLLMResponse(v: unknown): v is LLMResponse {
@@ -188,6 +204,11 @@ export class NodeAgentExecutor {
               (userContent ? "\n\n" + userContent : "");
           }
           const tools = (definition.toolIds ?? []).length > 0 ? context.availableTools : undefined;
+          // outputSchema (JSON schema): the node outputs the parsed object for downstream nodes and edge conditions.
+          const outputSchema =
+            p.outputSchema && typeof p.outputSchema === "object" && !Array.isArray(p.outputSchema)
+              ? (p.outputSchema as Record<string, unknown>)
+              : undefined;
           out = await runLLMWithDecisionLayer(context, {
             llmConfigId,
             messages: [
@@ -195,6 +216,13 @@ export class NodeAgentExecutor {
               { role: "user" as const, content: userContent },
             ],
             ...(tools && tools.length > 0 ? { tools } : {}),
+            ...(outputSchema && {
+              responseFormat: {
+                type: "json_schema" as const,
+                name: "node_output",
+                schema: outputSchema,
+              },
+            }),
           });
           break;
         }
@@ -1,4 +1,4 @@
-import type { LLMRequest, LLMResponse, LLMMessage } from "../llm/types";
+import type { LLMContentPart, LLMRequest, LLMResponse, LLMMessage } from "../llm/types";
 import { ASSISTANT_TOOLS, SYSTEM_PROMPT, type AssistantToolDef } from "./tools";
 
 export type ToolExecutor = (name: string, args: Record<string, unknown>) => Promise<unknown>;
@@ -6,6 +6,10 @@ export type ToolExecutor = (name: string, args: Record<string, unknown>) => Prom
 /** Tracking fields in tool arguments; stripped before calling the tool. */
 const TRACKING_KEYS = ["todoIndex", "subStepIndex", "subStepLabel", "completeTodo"] as const;
 
+/** Prompt instructions that go before numbered RAG passages, in chat and in workflow agents. */
+export const RAG_CITATION_INSTRUCTIONS =
+  "Each passage below is numbered. When your answer uses a passage, cite it inline with its number in square brackets, e.g. [1] or [2][3]. Only cite numbers that appear below; do not cite when you answer from general knowledge.";
+
 export interface AssistantProgress {
   onPlan?(reasoning: string, todos: string[]): void;
   /** Called before executing each tool (todoIndex when plan present, else step index; optional subStepLabel for multi-step todos) */
@@ -50,6 +54,8 @@ export interface AssistantOptions {
   maxTokens?: number;
   /** Max follow-up rounds when there are tool results (default 2). Use 0 for "continue from shell approval" to save LLM calls. */
   maxFollowUpRounds?: number;
+  /** Optional image/file parts attached to the user message (only pass images to vision-capable models) */
+  userContentParts?: LLMContentPart[];
 }
 
 export interface AssistantResponse {
@@ -74,7 +80,7 @@ export async function runAssistant(
 ): Promise<AssistantResponse> {
   let systemPrompt = options.systemPromptOverride ?? SYSTEM_PROMPT;
   if (options.ragContext) {
-    systemPrompt += `\n\n## Knowledge base\nUse the following context when relevant to answer the user.\n\n${options.ragContext}`;
+    systemPrompt += `\n\n## Knowledge base\n${RAG_CITATION_INSTRUCTIONS}\n\n${options.ragContext}`;
   }
   if (options.feedbackInjection) {
     systemPrompt += `\n\n${options.feedbackInjection}`;
@@ -140,7 +146,12 @@ export async function runAssistant(
   const messages: LLMMessage[] = [
     { role: "system", content: systemPrompt },
     ...history,
-    { role: "user", content: userMessage },
+    {
+      role: "user",
+      content: options.userContentParts?.length
+        ? [{ type: "text", text: userMessage }, ...options.userContentParts]
+        : userMessage,
+    },
   ];
 
   const mainTemp = options.temperature ?? 0.4;
@@ -464,4 +475,61 @@ export async function runAssistant(
   };
 }
 
+/** Planning and tool call markup in assistant output that is never shown to the user. */
+const HIDDEN_BLOCKS: Array<[open: string, close: string]> = [
+  ["<reasoning>", "</reasoning>"],
+  ["<todos>", "</todos>"],
+  ["<tool_call>", "</tool_call>"],
+  ["<|tool_call_start|>", "<|tool_call_end|>"],
+];
+
+/**
+ * Filter for streamed assistant output: returns the part of each delta the user should see,
+ * dropping <reasoning>, <todos> and tool call blocks (as the final content cleanup does). A tag
+ * split across deltas is held back until it can be told apart from text.
+ */
+export function createVisibleContentFilter(): (delta: string) => string {
+  let buffer = "";
+  let closeTag: string | null = null;
+  return (delta) => {
+    buffer += delta;
+    let visible = "";
+    for (;;) {
+      const lower = buffer.toLowerCase();
+      if (closeTag) {
+        const end = lower.indexOf(closeTag);
+        if (end === -1) {
+          // Keep only what could be the start of the closing tag.
+          buffer = buffer.slice(Math.max(0, buffer.length - closeTag.length + 1));
+          return visible;
+        }
+        buffer = buffer.slice(end + closeTag.length);
+        closeTag = null;
+        continue;
+      }
+      let next: { index: number; open: string; close: string } | null = null;
+      for (const [open, close] of HIDDEN_BLOCKS) {
+        const index = lower.indexOf(open);
+        if (index !== -1 && (next == null || index < next.index)) next = { index, open, close };
+      }
+      if (next) {
+        visible += buffer.slice(0, next.index);
+        buffer = buffer.slice(next.index + next.open.length);
+        closeTag = next.close;
+        continue;
+      }
+      // Hold back a trailing "<..." that may still become an opening tag.
+      let hold = buffer.length;
+      for (let i = lower.lastIndexOf("<"); i !== -1; i = lower.lastIndexOf("<", i - 1)) {
+        const tail = lower.slice(i);
+        if (HIDDEN_BLOCKS.some(([open]) => open.startsWith(tail))) hold = i;
+        if (i === 0 || buffer.length - i >= 20) break;
+      }
+      visible += buffer.slice(0, hold);
+      buffer = buffer.slice(hold);
+      return visible;
+    }
+  };
+}
+
 export { ASSISTANT_TOOLS, SYSTEM_PROMPT };
@@ -6,12 +6,37 @@ import type { HeapStep } from "./types";
 import type { PlannerOutput } from "./types";
 import type { SpecialistRegistry } from "./registry";
 import { getSpecialistOptions } from "./registry";
-import { ROUTER_OPTIONS_CAP } from "./router";
+import type { LLMResponseFormat } from "../../llm/types";
+import { HEAP_STEPS_SCHEMA, ROUTER_OPTIONS_CAP } from "./router";
 import { planImpliesCreateAgentAndWorkflow } from "./heap-dag";
 
-/** Retry instruction appended when planner returns empty or invalid. */
+/**
+ * Retry instruction appended when planner returns empty or invalid.
+ * @deprecated Send planner calls with PLANNER_RESPONSE_FORMAT; the LLM manager repairs invalid output.
+ */
 export const PLANNER_RETRY_INSTRUCTION = "\n\nOutput only a single JSON object, no other text.";
 
+/** Structured output format for planner calls (LLMRequest.responseFormat); parse the result with parsePlanOutput. */
+export const PLANNER_RESPONSE_FORMAT: LLMResponseFormat = {
+  type: "json_schema",
+  name: "heap_plan",
+  schema: {
+    type: "object",
+    properties: {
+      priorityOrder: HEAP_STEPS_SCHEMA,
+      refinedTask: { type: "string" },
+      extractedContext: { type: "object" },
+      instructionsForGeneral: { type: "string" },
+      instructionsForAgent: { type: "string" },
+      instructionsForWorkflow: { type: "string" },
+      instructionsForImproveRun: { type: "string" },
+      instructionsForImproveHeap: { type: "string" },
+      instructionsForImproveAgentsWorkflows: { type: "string" },
+    },
+    required: ["priorityOrder", "refinedTask"],
+  },
+};
+
 /**
  * Builds the planner prompt: user message + instruction to output a single JSON plan.
  * Shows at most ROUTER_OPTIONS_CAP specialists (and their option groups). Deeper exploration is via delegation, not full tree.
@@ -3,12 +3,39 @@
  * The actual LLM call is done by the caller (e.g. chat route).
  */
 
+import type { LLMResponseFormat } from "../../llm/types";
 import type { RouterOutput, HeapStep } from "./types";
 import type { SpecialistRegistry } from "./registry";
 
 /** Max options the model sees at once. Deeper exploration is recursive via delegation (sub-heap), not by showing the full tree. */
 export const ROUTER_OPTIONS_CAP = 10;
 
+/** JSON schema of priorityOrder: specialist ids and { parallel: [...] } groups. */
+export const HEAP_STEPS_SCHEMA = {
+  type: "array",
+  items: {
+    anyOf: [
+      { type: "string" },
+      {
+        type: "object",
+        properties: { parallel: { type: "array", items: { type: "string" } } },
+        required: ["parallel"],
+      },
+    ],
+  },
+};
+
+/** Structured output format for router calls (LLMRequest.responseFormat). */
+export const ROUTER_RESPONSE_FORMAT: LLMResponseFormat = {
+  type: "json_schema",
+  name: "heap_route",
+  schema: {
+    type: "object",
+    properties: { priorityOrder: HEAP_STEPS_SCHEMA, refinedTask: { type: "string" } },
+    required: ["priorityOrder", "refinedTask"],
+  },
+};
+
 /**
  * Builds the router prompt: user message + list of top-level specialist ids (with optional descriptions).
  * Never shows more than ROUTER_OPTIONS_CAP options; further levels are reached by delegation at runtime.
@@ -81,7 +81,7 @@ export const AGENT_TOOLS: AssistantToolDef[] = [
         graphNodes: {
           type: "array",
           description:
-            "Graph nodes: [{ id, type, position: [x,y], parameters? }]. decision node: llmConfigId, toolIds, systemPrompt.",
+            "Graph nodes: [{ id, type, position: [x,y], parameters? }]. decision node: llmConfigId, toolIds, systemPrompt. llm node: systemPrompt, optional outputSchema (JSON schema) to output a JSON object instead of text.",
         },
         graphEdges: { type: "array", description: "Graph edges: [{ id, source, target }]" },
         learningConfig: {
@@ -160,6 +160,11 @@ export const AGENT_TOOLS: AssistantToolDef[] = [
           description:
             "If true, persist the refined prompt to the agent; if false, only return the suggestion (default false)",
         },
+        evalSuiteId: {
+          type: "string",
+          description:
+            "Optional eval suite of this agent. The current and suggested prompts are both run on it and compared; with autoApply the suggestion is only applied when no case regresses.",
+        },
         includeExecutionHistory: {
           type: "boolean",
           description:
@@ -1,14 +1,15 @@
 import type { AssistantToolDef } from "./types";
 
 /**
- * Guardrails (§2.0.4). User defines via chat; runtime applies when agent uses fetch/browser.
- * Config: allowedDomains, deniedDomains, sanitize (strip HTML/injection), segment (wrap remote content), maxRequests.
+ * Guardrails (§2.0.4). User defines via chat; checked before every fetch, search, shell, code and HTTP tool call.
+ * Config: allowedDomains, deniedDomains, allowedCommandPatterns, deniedCommandPatterns, maxPayloadBytes,
+ * blockPii, blockSecrets, deniedPatterns, tools; sanitize, segment and maxRequests apply to fetched content.
  */
 export const GUARDRAIL_TOOLS: AssistantToolDef[] = [
   {
     name: "create_guardrail",
     description:
-      "Create a guardrail to derisk prompt injection when the agent uses the internet. Config: allowedDomains (array), deniedDomains (array), sanitize (bool), segment (bool), maxRequests (number). Scope: deployment (scopeId empty), agent, or workflow.",
+      "Create a guardrail that is enforced before tool calls (fetch_url, web_search, run_shell_command, execute_code, HTTP tools). Config: allowedDomains/deniedDomains (arrays; subdomains match), allowedCommandPatterns/deniedCommandPatterns (regex arrays for shell commands and code), maxPayloadBytes (number), blockPii (bool), blockSecrets (bool), deniedPatterns (regex array over the arguments), tools (optional array of tool names it applies to), sanitize (bool), segment (bool), maxRequests (number). Blocked calls return a refusal with the rule and reason and are written to the execution log. Scope: deployment (scopeId empty), agent, or workflow.",
     parameters: {
       type: "object",
       properties: {
@@ -19,10 +20,18 @@ export const GUARDRAIL_TOOLS: AssistantToolDef[] = [
         },
         config: {
           type: "object",
-          description: "allowedDomains[], deniedDomains[], sanitize, segment, maxRequests",
+          description:
+            "allowedDomains[], deniedDomains[], allowedCommandPatterns[], deniedCommandPatterns[], maxPayloadBytes, blockPii, blockSecrets, deniedPatterns[], tools[], sanitize, segment, maxRequests",
           properties: {
             allowedDomains: { type: "array", items: { type: "string" } },
             deniedDomains: { type: "array", items: { type: "string" } },
+            allowedCommandPatterns: { type: "array", items: { type: "string" } },
+            deniedCommandPatterns: { type: "array", items: { type: "string" } },
+            maxPayloadBytes: { type: "number" },
+            blockPii: { type: "boolean" },
+            blockSecrets: { type: "boolean" },
+            deniedPatterns: { type: "array", items: { type: "string" } },
+            tools: { type: "array", items: { type: "string" } },
             sanitize: { type: "boolean" },
             segment: { type: "boolean" },
             maxRequests: { type: "number" },
@@ -55,7 +64,8 @@ export const GUARDRAIL_TOOLS: AssistantToolDef[] = [
   },
   {
     name: "update_guardrail",
-    description: "Update a guardrail's config (allowedDomains, sanitize, etc.).",
+    description:
+      "Update a guardrail's config (allowedDomains, deniedCommandPatterns, blockSecrets, etc.).",
     parameters: {
       type: "object",
       properties: {
@@ -91,15 +91,18 @@ export const IMPROVEMENT_TOOLS: AssistantToolDef[] = [
   {
     name: "evaluate_model",
     description:
-      "Run the student (or a given instance) on an eval set; return metrics. Use to check if improvement is good enough or to compare instances.",
+      "Run the student (or a given instance) on the job's eval suite: every case is run and scored, and per-case results are stored. Returns accuracy, mean score and the failing cases. Use to check if improvement is good enough or to compare instances.",
     parameters: {
       type: "object",
       properties: {
         jobId: { type: "string" },
-        instanceRef: { type: "string", description: "Optional; omit to use job's current model" },
+        instanceRef: {
+          type: "string",
+          description: "Optional LLM config id; omit to use the job's current or student model",
+        },
         evalSetRef: {
           type: "string",
-          description: "Optional ref to eval set from a store or path",
+          description: "Optional eval suite id; omit to use the suite attached to the job",
         },
       },
       required: ["jobId"],
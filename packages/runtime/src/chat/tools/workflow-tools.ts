@@ -100,7 +100,7 @@ export const WORKFLOW_TOOLS: AssistantToolDef[] = [
   {
     name: "get_workflow",
     description:
-      "Get a workflow by ID including its nodes, edges, and optional branches. Branches are disconnected graphs with their own schedule (interval, daily@HH:mm, weekly@0,1,2). Use when you need to read the current workflow graph or branches before updating.",
+      "Get a workflow by ID including its nodes, edges, and optional branches. Branches are disconnected graphs with their own schedule (interval seconds, cron, daily@HH:mm, weekly@0,1,2). Use when you need to read the current workflow graph or branches before updating.",
     parameters: {
       type: "object",
       properties: { id: { type: "string", description: "Workflow ID" } },
@@ -146,7 +146,7 @@ export const WORKFLOW_TOOLS: AssistantToolDef[] = [
       "MANDATORY SAME-TURN WIRING:",
       'When you create both agents and a workflow in the same turn, you MUST call update_workflow in the SAME turn (in the same tool_call batch, after create_workflow and create_agent return) to attach agent nodes, edges, and maxRounds. A workflow with no nodes/edges runs no agents and is useless. Never defer wiring to a "next message" or "next response" — you already have the workflow id and agent ids from the same turn.',
       "",
-      "Workflow nodes are agent-only: pass only nodes with type 'agent'. Do not add type 'tool' to the workflow; tools are attached to agents via toolIds. For a single agent that uses tools, pass ONE node (that agent) and NO edges.",
+      "Workflow nodes are agents plus optional control nodes (condition, switch, for_each, merge, delay, set_context; see update_workflow). Do not add type 'tool' to the workflow; tools are attached to agents via toolIds. For a single agent that uses tools, pass ONE node (that agent) and NO edges.",
       "Multi‑agent chat:",
       "After create_workflow and create_agent(s), call update_workflow with: nodes = one { id, type: 'agent', position, parameters: { agentId: '<exact-uuid>' } } per agent; edges = e.g. [{ id: 'e1', source: 'n1', target: 'n2' }, { id: 'e2', source: 'n2', target: 'n1' }] for a loop; maxRounds = number of full cycles (one cycle = each agent speaks once). For '3 rounds each' in a 2-agent chat use maxRounds: 3 (6 steps total). For longer runs use e.g. 6–10.",
       "ALWAYS set maxRounds when edges form a loop so execution does not run forever.",
@@ -167,8 +167,9 @@ export const WORKFLOW_TOOLS: AssistantToolDef[] = [
       "",
       "REQUIRED: id (workflow UUID from create_workflow or from [Created workflow id: <uuid>] in previous steps). Always pass workflow by id, never by name.",
       "",
-      "Nodes: array of { id (e.g. 'n1'), type: 'agent', position: [x,y], parameters: { agentId: '<exact-agent-uuid>' } }. Each node MUST be type 'agent' with parameters.agentId. Do NOT pass nodes with type 'tool'; the runtime does not support workflow-level tool nodes. Tools are configured on the agent (toolIds), not as workflow nodes.",
+      "Nodes: array of { id (e.g. 'n1'), type: 'agent', position: [x,y], parameters: { agentId: '<exact-agent-uuid>' } }. Agent nodes MUST have parameters.agentId. Do NOT pass nodes with type 'tool'; the runtime does not support workflow-level tool nodes. Tools are configured on the agent (toolIds), not as workflow nodes.",
       "Edges: array of { id, source: nodeId, target: nodeId } (e.g. n1→n2 and n2→n1 for a two-agent chat loop). For a single agent, use no edges (empty array).",
+      "Control nodes (no agent; parameters are their config): condition { expression } routes to edges with branch 'true' or 'false'; switch { expression } routes to the edge whose branch equals the value, else branch 'default'; for_each { items?, itemKey?, maxIterations? } sends each item along branch 'item' (the body must lead back to the for_each node) and the collected results along branch 'done'; merge { mode: object|array|text } combines upstream outputs; delay { seconds } waits (max 1h); set_context { values?, expressions? } stores keys in the run context. Expressions read output, context (context.item inside a for_each body), outputs.<nodeId>, input (e.g. \"output.score >= 0.8 && context.lang == 'en'\"); operators: == != > >= < <= && || ! contains matches, functions len/lower/upper/trim/number/string/json.",
       "maxRounds: REQUIRED when edges form a loop. Number of full cycles (one cycle = each agent runs once). For 2-agent chat, '3 rounds each' means maxRounds: 3 (6 steps). Use 6–10 only for longer conversations.",
       "",
       "Example (two-agent chat, 3 rounds each = 6 steps):",
@@ -193,18 +194,48 @@ export const WORKFLOW_TOOLS: AssistantToolDef[] = [
         schedule: {
           type: "string",
           description:
-            "Optional top-level schedule: interval seconds (e.g. '60'), daily@HH:mm, or weekly@0,1,2. Used when workflow has no branches.",
+            "Optional top-level schedule: interval seconds (e.g. '60'), a 5- or 6-field cron expression (e.g. '0 9 * * 1-5' = weekdays 09:00), daily@HH:mm, or weekly@0,1,2. Used when workflow has no branches.",
+        },
+        timezone: {
+          type: "string",
+          description:
+            "Optional IANA timezone for cron/daily/weekly schedules (e.g. 'Europe/Berlin'). Server timezone when unset; branches can override it.",
+        },
+        catchUp: {
+          type: "string",
+          enum: ["skip", "run_once", "run_all"],
+          description:
+            "Optional: what to do with scheduled runs missed while the app was closed. skip (default), run_once, or run_all. Branches can override it.",
         },
         nodes: {
           type: "array",
           description:
-            "Each item: { id, type: 'agent', position: [x,y], parameters: { agentId: '<uuid-from-create_agent>' } }. Only agent nodes; do not add type 'tool' — tools are on the agent via toolIds.",
+            "Each item: { id, type: 'agent', position: [x,y], parameters: { agentId: '<uuid-from-create_agent>' } }, or a control node { id, type: 'condition' | 'switch' | 'for_each' | 'merge' | 'delay' | 'set_context', position, parameters: <config> }. Do not add type 'tool' — tools are on the agent via toolIds.",
+        },
+        edges: {
+          type: "array",
+          description:
+            "Each item: { id, source: nodeId, target: nodeId, branch?, condition? }. Set branch on edges leaving condition ('true'/'false'), switch (value or 'default') and for_each ('item'/'done') nodes. condition (edge followed only when it holds for the source output): { type: 'content_contains' | 'message_type', value } | { type: 'regex', pattern, flags? } | { type: 'json_path', path: '$.score', op: 'eq'|'neq'|'gt'|'gte'|'lt'|'lte'|'contains'|'exists', value? } | { type: 'and'|'or', conditions: [...] } | { type: 'not', condition } | { type: 'llm_judge', llmConfigId, question }. Invalid conditions are rejected.",
+        },
+        inputSchema: {
+          type: "object",
+          description:
+            "Optional JSON schema of the run inputs: { type: 'object', properties: { <name>: { type, description?, default?, enum? } }, required?: [names] }. Runs with missing or mistyped inputs are rejected. Pass null to remove.",
+        },
+        outputSchema: {
+          type: "object",
+          description:
+            "Optional JSON schema (same shape as inputSchema) the mapped run result must match; a mismatch fails the run. Pass null to remove.",
+        },
+        outputMapping: {
+          type: "object",
+          description:
+            "Optional map of result field → expression over { nodes, output, context, input }, e.g. { title: 'nodes.n2.title', score: 'number(nodes.n3.score)' }. nodes.<nodeId> is that node's output (JSON parsed when possible). The run output becomes this object. Pass null to remove.",
         },
-        edges: { type: "array", description: "Each item: { id, source: nodeId, target: nodeId }" },
         branches: {
           type: "array",
           description:
-            "Optional array of disconnected graphs. Each branch: { id, name?, nodes, edges, maxRounds?, schedule?, executionMode? }. executionMode: one_time = run only when user triggers; interval = fixed schedule (schedule required: seconds, daily@HH:mm, weekly@0,1,2); continuous = re-run after each run completes (schedule optional = delay in seconds between runs). Branches run in parallel; mix modes freely.",
+            "Optional array of disconnected graphs. Each branch: { id, name?, nodes, edges, maxRounds?, schedule?, timezone?, catchUp?, executionMode? }. executionMode: one_time = run only when user triggers; interval = fixed schedule (schedule required: seconds, cron, daily@HH:mm, weekly@0,1,2); continuous = re-run after each run completes (schedule optional = delay in seconds between runs). Branches run in parallel; mix modes freely.",
         },
       },
       required: ["id"],
@@ -266,7 +297,7 @@ export const WORKFLOW_TOOLS: AssistantToolDef[] = [
         inputs: {
           type: "object",
           description:
-            "Optional. Run-level inputs (e.g. { url: 'https://...' }) passed to workflow nodes so the agent receives them on first turn. Use when the workflow expects inputs (e.g. url from extractedContext or user request).",
+            "Optional. Run-level inputs (e.g. { url: 'https://...' }) passed to workflow nodes so the agent receives them on first turn. Use when the workflow expects inputs (e.g. url from extractedContext or user request). When the workflow declares an inputSchema (see get_workflow), inputs must match it; invalid fields are returned as errors.",
         },
       },
       required: ["id"],
@@ -0,0 +1,92 @@
+/**
+ * Summaries of eval runs and side-by-side comparison of two runs of the same suite
+ * (e.g. an agent's current version against a candidate prompt).
+ */
+
+/** A scored case as stored per run; error is set when the case could not be run or scored. */
+export type EvalCaseResult = {
+  caseId: string;
+  name?: string;
+  score: number;
+  passed: boolean;
+  error?: string | null;
+};
+
+export type EvalRunSummary = {
+  caseCount: number;
+  passedCount: number;
+  /** Mean score over all cases; errored cases count as 0. */
+  meanScore: number;
+};
+
+export type EvalCaseComparison = {
+  caseId: string;
+  name?: string;
+  baseline: { score: number; passed: boolean } | null;
+  candidate: { score: number; passed: boolean } | null;
+  change: "improved" | "regressed" | "unchanged";
+};
+
+export type EvalComparison = {
+  baseline: EvalRunSummary;
+  candidate: EvalRunSummary;
+  cases: EvalCaseComparison[];
+  regressions: number;
+  improvements: number;
+  /** True when a case that passed in the baseline fails in the candidate or the mean score drops. */
+  regressed: boolean;
+};
+
+/** Scores within this distance are treated as equal (judge and embedding noise). */
+const SCORE_EPSILON = 1e-6;
+
+export function summarizeEvalResults(results: EvalCaseResult[]): EvalRunSummary {
+  const caseCount = results.length;
+  const passedCount = results.filter((r) => r.passed && !r.error).length;
+  const total = results.reduce((sum, r) => sum + (r.error ? 0 : r.score), 0);
+  return { caseCount, passedCount, meanScore: caseCount ? total / caseCount : 0 };
+}
+
+function outcome(result: EvalCaseResult | undefined): { score: number; passed: boolean } | null {
+  if (!result) return null;
+  return result.error
+    ? { score: 0, passed: false }
+    : { score: result.score, passed: result.passed };
+}
+
+/**
+ * Compares two runs case by case. A case regresses when it passed before and fails now, or keeps
+ * its pass/fail status with a lower score; improvements are the reverse. Cases only present in
+ * one run are listed as unchanged.
+ */
+export function compareEvalRuns(
+  baseline: EvalCaseResult[],
+  candidate: EvalCaseResult[]
+): EvalComparison {
+  const before = new Map(baseline.map((r) => [r.caseId, r]));
+  const after = new Map(candidate.map((r) => [r.caseId, r]));
+  const ids = [...new Set([...before.keys(), ...after.keys()])];
+  const cases = ids.map((caseId): EvalCaseComparison => {
+    const b = outcome(before.get(caseId));
+    const c = outcome(after.get(caseId));
+    let change: EvalCaseComparison["change"] = "unchanged";
+    if (b && c) {
+      if (b.passed !== c.passed) change = c.passed ? "improved" : "regressed";
+      else if (c.score < b.score - SCORE_EPSILON) change = "regressed";
+      else if (c.score > b.score + SCORE_EPSILON) change = "improved";
+    }
+    const name = after.get(caseId)?.name ?? before.get(caseId)?.name;
+    return { caseId, ...(name ? { name } : {}), baseline: b, candidate: c, change };
+  });
+  const baselineSummary = summarizeEvalResults(baseline);
+  const candidateSummary = summarizeEvalResults(candidate);
+  const lostPass = cases.some((c) => c.baseline?.passed && c.candidate && !c.candidate.passed);
+  return {
+    baseline: baselineSummary,
+    candidate: candidateSummary,
+    cases,
+    regressions: cases.filter((c) => c.change === "regressed").length,
+    improvements: cases.filter((c) => c.change === "improved").length,
+    regressed: lostPass || candidateSummary.meanScore < baselineSummary.meanScore - SCORE_EPSILON,
+  };
+}
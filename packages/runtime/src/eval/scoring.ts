@@ -0,0 +1,180 @@
+import type { EvalScorer } from "@agentron-studio/core";
+import type { LLMRequest, LLMResponse } from "../llm/types";
+import { parseJsonOutput, validateJsonSchema } from "../llm/structured-output";
+import { parseJudgeVerdict } from "../workflow/edge-conditions";
+
+/**
+ * Scores one eval case's output against its expected output. Every scorer yields a score in 0..1
+ * and the case passes when the score reaches the scorer's threshold. exact, regex and json_schema
+ * are synchronous checks; similarity and llm_judge call the embed / callLLM dependencies.
+ */
+
+const SCORER_TYPES = ["exact", "regex", "json_schema", "similarity", "llm_judge"];
+const MAX_PATTERN_LENGTH = 500;
+const JUDGE_OUTPUT_MAX_CHARS = 8000;
+
+/** Pass thresholds when the scorer does not set one. */
+export const DEFAULT_EVAL_THRESHOLDS: Record<EvalScorer["type"], number> = {
+  exact: 1,
+  regex: 1,
+  json_schema: 1,
+  similarity: 0.8,
+  llm_judge: 0.5,
+};
+
+export type EvalScore = {
+  score: number;
+  passed: boolean;
+  /** Why the case failed or how it was graded (judge reason, schema errors, …). */
+  detail?: string;
+};
+
+export type EvalScoringDeps = {
+  /** Embeds texts with an encoding config (the default one when encodingConfigId is unset). */
+  embed?: (texts: string[], encodingConfigId?: string) => Promise<number[][]>;
+  /** Calls an LLM config (the default one when llmConfigId is unset). */
+  callLLM?: (req: LLMRequest & { llmConfigId?: string }) => Promise<LLMResponse>;
+};
+
+/** Text of a run output: strings as-is, anything else as JSON. */
+export function evalOutputText(output: unknown): string {
+  if (typeof output === "string") return output;
+  if (output === undefined || output === null) return "";
+  return JSON.stringify(output);
+}
+
+/** Validates a scorer definition. Returns one message per problem; empty when valid. */
+export function validateEvalScorer(scorer: unknown, label = "scorer"): string[] {
+  if (scorer == null || typeof scorer !== "object" || Array.isArray(scorer)) {
+    return [`${label} must be an object`];
+  }
+  const s = scorer as Record<string, unknown>;
+  if (!SCORER_TYPES.includes(s.type as string)) {
+    return [`${label}.type must be one of ${SCORER_TYPES.join(", ")}`];
+  }
+  const errors: string[] = [];
+  if (s.type === "regex" && s.pattern !== undefined) {
+    if (typeof s.pattern !== "string" || s.pattern.length > MAX_PATTERN_LENGTH) {
+      errors.push(`${label}.pattern must be a string of at most ${MAX_PATTERN_LENGTH} characters`);
+    } else {
+      try {
+        new RegExp(s.pattern, typeof s.flags === "string" ? s.flags : undefined);
+      } catch (err) {
+        errors.push(`${label}.pattern is not a valid regular expression: ${String(err)}`);
+      }
+    }
+  }
+  if (s.type === "json_schema" && (s.schema == null || typeof s.schema !== "object")) {
+    errors.push(`${label}.schema must be an object`);
+  }
+  if (
+    s.threshold !== undefined &&
+    (typeof s.threshold !== "number" || s.threshold < 0 || s.threshold > 1)
+  ) {
+    errors.push(`${label}.threshold must be a number between 0 and 1`);
+  }
+  return errors;
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+function clamp01(n: number): number {
+  return Number.isFinite(n) ? Math.min(1, Math.max(0, n)) : 0;
+}
+
+/** Reads { score, reason } from a judge reply; falls back to a YES/NO verdict. */
+export function parseJudgeScore(reply: string): { score: number; reason?: string } {
+  const parsed = parseJsonOutput(reply)?.value;
+  if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+    const { score, reason } = parsed as { score?: unknown; reason?: unknown };
+    const n = typeof score === "string" ? Number(score) : score;
+    if (typeof n === "number" && Number.isFinite(n)) {
+      return {
+        score: clamp01(n > 1 && n <= 10 ? n / 10 : n),
+        reason: typeof reason === "string" ? reason : undefined,
+      };
+    }
+  }
+  return { score: parseJudgeVerdict(reply) ? 1 : 0 };
+}
+
+/**
+ * Scores an output. Throws when the scorer needs a dependency that was not provided or when the
+ * embedding / judge call fails, so the caller records the case as errored rather than failed.
+ */
+export async function scoreEvalOutput(
+  output: unknown,
+  evalCase: { expected?: string | null; scorer: EvalScorer },
+  deps: EvalScoringDeps = {}
+): Promise<EvalScore> {
+  const { scorer } = evalCase;
+  const text = evalOutputText(output);
+  const expected = evalCase.expected ?? "";
+  const threshold =
+    "threshold" in scorer && typeof scorer.threshold === "number"
+      ? scorer.threshold
+      : DEFAULT_EVAL_THRESHOLDS[scorer.type];
+  const result = (score: number, detail?: string): EvalScore => ({
+    score,
+    passed: score >= threshold,
+    ...(detail ? { detail } : {}),
+  });
+
+  switch (scorer.type) {
+    case "exact": {
+      const a = text.trim();
+      const b = expected.trim();
+      const equal = scorer.caseSensitive ? a === b : a.toLowerCase() === b.toLowerCase();
+      return result(equal ? 1 : 0, equal ? undefined : "output does not equal expected");
+    }
+    case "regex": {
+      const pattern = scorer.pattern ?? expected;
+      const matched = new RegExp(pattern, scorer.flags).test(text);
+      return result(matched ? 1 : 0, matched ? undefined : `output does not match /${pattern}/`);
+    }
+    case "json_schema": {
+      const parsed = typeof output === "string" ? parseJsonOutput(output) : { value: output };
+      if (!parsed) return result(0, "output is not JSON");
+      const errors = validateJsonSchema(parsed.value, scorer.schema);
+      return result(errors.length === 0 ? 1 : 0, errors.join("; ") || undefined);
+    }
+    case "similarity": {
+      if (!deps.embed) throw new Error("similarity scoring needs an embedding model");
+      const [a, b] = await deps.embed([text, expected], scorer.encodingConfigId);
+      const score = clamp01(cosineSimilarity(a ?? [], b ?? []));
+      return result(score);
+    }
+    case "llm_judge": {
+      if (!deps.callLLM) throw new Error("llm_judge scoring needs an LLM");
+      const rubric = scorer.rubric || "The output is correct and complete for the input.";
+      const response = await deps.callLLM({
+        llmConfigId: scorer.llmConfigId,
+        temperature: 0,
+        maxTokens: 300,
+        messages: [
+          {
+            role: "system",
+            content:
+              'You grade an output against a rubric and an expected answer. Reply with JSON only: {"score": <number from 0 to 1>, "reason": "<one sentence>"}.',
+          },
+          {
+            role: "user",
+            content: `Rubric: ${rubric}\n\nExpected:\n${expected || "(none)"}\n\nOutput:\n${text.slice(0, JUDGE_OUTPUT_MAX_CHARS)}`,
+          },
+        ],
+      });
+      const { score, reason } = parseJudgeScore(response.content ?? "");
+      return result(score, reason);
+    }
+  }
+}
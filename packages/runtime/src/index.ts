@@ -3,6 +3,7 @@ export * from "./tools";
 export * from "./prompts";
 export * from "./agent";
 export * from "./workflow";
+export * from "./eval";
 export * from "./mcp";
 export * from "./sandbox";
 export * from "./chat";
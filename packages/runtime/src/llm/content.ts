@@ -0,0 +1,53 @@
+import type { LLMContentPart, LLMMessage } from "./types";
+
+const DATA_URL = /^data:([^;,]+)?(?:;[^;,]*)*;base64,(.*)$/s;
+
+/** Text of a message: the string itself, or its text parts joined (images and files omitted). */
+export function contentText(content: LLMMessage["content"]): string {
+  if (typeof content === "string") return content;
+  return content
+    .filter((p): p is Extract<LLMContentPart, { type: "text" }> => p.type === "text")
+    .map((p) => p.text)
+    .join("\n");
+}
+
+export function hasImageParts(content: LLMMessage["content"]): boolean {
+  return Array.isArray(content) && content.some((p) => p.type === "image");
+}
+
+/** Split a base64 data URL into mime type and data; undefined for other URLs. */
+export function parseDataUrl(url: string): { mimeType: string; data: string } | undefined {
+  const m = url.match(DATA_URL);
+  return m ? { mimeType: m[1] ?? "application/octet-stream", data: m[2] } : undefined;
+}
+
+/** Data URL of an image or file part (base64 data), else its URL. */
+export function partUrl(part: Extract<LLMContentPart, { type: "image" | "file" }>): string {
+  if (part.data != null) {
+    return `data:${part.mimeType ?? "application/octet-stream"};base64,${part.data}`;
+  }
+  return part.url ?? "";
+}
+
+/** Text placeholder for an image or file part a model cannot take. */
+export function partPlaceholder(part: Extract<LLMContentPart, { type: "image" | "file" }>): string {
+  if (part.type === "image") return "[image omitted: this model cannot view images]";
+  return `[file ${part.name ?? part.mimeType} omitted: this model cannot read files]`;
+}
+
+/**
+ * Content for a tool result: image data URLs found in the result (e.g. a browser screenshot) are
+ * passed as image parts after the JSON, in which they are replaced by "[image N]".
+ */
+export function toolResultContent(result: unknown): string | LLMContentPart[] {
+  if (typeof result === "string") return result;
+  const images: LLMContentPart[] = [];
+  const text = JSON.stringify(result ?? null, (_key, value: unknown) => {
+    if (typeof value !== "string") return value;
+    const parsed = parseDataUrl(value);
+    if (!parsed || !parsed.mimeType.startsWith("image/")) return value;
+    images.push({ type: "image", mimeType: parsed.mimeType, data: parsed.data });
+    return `[image ${images.length}]`;
+  });
+  return images.length > 0 ? [{ type: "text", text }, ...images] : text;
+}
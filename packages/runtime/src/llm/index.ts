@@ -1,7 +1,10 @@
 export * from "./types";
+export * from "./content";
+export * from "./structured-output";
 export * from "./manager";
 export * from "./installer";
 export * from "./pricing";
 export * from "./rate-limits";
 export * from "./rate-limiter";
+export * from "./retry";
 export * from "./models/catalog";
@@ -1,6 +1,15 @@
 import type { LLMConfig } from "@agentron-studio/core";
 import type { LLMProvider } from "@agentron-studio/core";
-import type { LLMProviderAdapter, LLMRequest, LLMRequestContext, LLMResponse } from "./types";
+import type {
+  LLMFailedAttempt,
+  LLMProviderAdapter,
+  LLMRequest,
+  LLMRequestContext,
+  LLMResponse,
+  LLMStreamEvent,
+  LLMUsage,
+} from "./types";
+import { checkStructuredOutput, structuredOutputInstruction } from "./structured-output";
 import { anthropicProvider } from "./providers/anthropic";
 import { azureProvider } from "./providers/azure";
 import { customHttpProvider } from "./providers/custom-http";
@@ -10,16 +19,65 @@ import { openaiProvider } from "./providers/openai";
 import { openrouterProvider } from "./providers/openrouter";
 import { huggingfaceProvider } from "./providers/huggingface";
 import { getRateLimitForConfig, type LLMConfigWithId } from "./rate-limits";
-import { getDefaultRateLimiter } from "./rate-limiter";
+import { getDefaultRateLimiter, type RateLimitStore } from "./rate-limiter";
+import {
+  errorStatus,
+  getFallbackConfigIds,
+  getRetryPolicyForConfig,
+  isRetryableError,
+  retryDelayMs,
+} from "./retry";
 
 export type SecretResolver = (ref?: string) => Promise<string | undefined>;
 
+/** Loads an LLM config by id (used for fallback configs). */
+export type LLMConfigResolver = (id: string) => Promise<(LLMConfig & { id?: string }) | undefined>;
+
+export type LLMChatOptions = {
+  /**
+   * Receives content and tool call deltas while the response is generated. The call streams when
+   * its provider supports it; otherwise the full content arrives as one delta at the end.
+   */
+  onStream?: (event: Exclude<LLMStreamEvent, { type: "done" }>) => void;
+};
+
+/** Usage of two calls added up (undefined when neither reported usage). */
+function sumUsage(a?: LLMUsage, b?: LLMUsage): LLMUsage | undefined {
+  if (!a || !b) return a ?? b;
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+  };
+}
+
+/** Rate limiter key of a config: its id, else provider, model and endpoint. */
+function rateLimitKey(config: LLMConfig & { id?: string }): string {
+  return config.id ?? `${config.provider}:${config.model}:${config.endpoint ?? "default"}`;
+}
+
+/** Forward a provider stream's deltas and return the response from its "done" event. */
+async function consumeStream(
+  stream: AsyncIterable<LLMStreamEvent>,
+  onStream: NonNullable<LLMChatOptions["onStream"]>
+): Promise<LLMResponse> {
+  let response: LLMResponse | undefined;
+  for await (const event of stream) {
+    if (event.type === "done") response = event.response;
+    else onStream(event);
+  }
+  if (!response) throw new Error("LLM stream ended without a response");
+  return response;
+}
+
 export class LLMManager {
   private providers = new Map<LLMProvider, LLMProviderAdapter>();
   private resolveSecret?: SecretResolver;
+  private resolveConfig?: LLMConfigResolver;
 
-  constructor(resolveSecret?: SecretResolver) {
+  constructor(resolveSecret?: SecretResolver, resolveConfig?: LLMConfigResolver) {
     this.resolveSecret = resolveSecret;
+    this.resolveConfig = resolveConfig;
   }
 
   register(provider: LLMProviderAdapter) {
@@ -37,10 +95,136 @@ export class LLMManager {
     this.register(customHttpProvider);
   }
 
+  /**
+   * Send a chat request. Failed calls are retried per the config's retry policy, then the config's
+   * fallbacks are tried in order; response.servedBy tells which config answered. With
+   * request.responseFormat, the content is parsed and validated against the schema
+   * (response.parsed); when that fails the model is asked once to repair its output.
+   */
   async chat(
     config: LLMConfig & { id?: string },
     request: LLMRequest,
-    context?: LLMRequestContext
+    context?: LLMRequestContext,
+    options?: LLMChatOptions
+  ): Promise<LLMResponse> {
+    const response = await this.complete(config, request, context, options);
+    const format = request.responseFormat;
+    if (!format || (response.toolCalls?.length ?? 0) > 0) return response;
+
+    const check = checkStructuredOutput(response.content, format);
+    if (check.errors.length === 0) return { ...response, parsed: check.value };
+
+    const repaired = await this.complete(
+      config,
+      {
+        ...request,
+        messages: [
+          ...request.messages,
+          { role: "assistant", content: response.content },
+          {
+            role: "user",
+            content: `Your reply did not match the required output format:\n${check.errors.slice(0, 10).join("\n")}\n${structuredOutputInstruction(format)}`,
+          },
+        ],
+      },
+      context
+    );
+    const usage = sumUsage(response.usage, repaired.usage);
+    const failedAttempts = [...(response.failedAttempts ?? []), ...(repaired.failedAttempts ?? [])];
+    const recheck = checkStructuredOutput(repaired.content, format);
+    return {
+      ...repaired,
+      ...(usage && { usage }),
+      ...(failedAttempts.length > 0 && { failedAttempts }),
+      ...(recheck.errors.length === 0 && { parsed: recheck.value }),
+    };
+  }
+
+  /** Configs to try after the requested one, in order (unknown ids and repeats skipped). */
+  private async fallbackConfigs(
+    config: LLMConfig & { id?: string }
+  ): Promise<(LLMConfig & { id?: string })[]> {
+    const ids = getFallbackConfigIds(config as LLMConfigWithId);
+    if (ids.length === 0 || !this.resolveConfig) return [];
+    const seen = new Set(config.id ? [config.id] : []);
+    const out: (LLMConfig & { id?: string })[] = [];
+    for (const id of ids) {
+      if (seen.has(id)) continue;
+      seen.add(id);
+      const fallback = await this.resolveConfig(id);
+      if (fallback) out.push({ ...fallback, id });
+    }
+    return out;
+  }
+
+  /** Send with retries (backoff, honoring Retry-After), then through the fallback chain. */
+  private async complete(
+    config: LLMConfig & { id?: string },
+    request: LLMRequest,
+    context?: LLMRequestContext,
+    options?: LLMChatOptions
+  ): Promise<LLMResponse> {
+    const chain = [config, ...(await this.fallbackConfigs(config))];
+    const failedAttempts: LLMFailedAttempt[] = [];
+    let streamed = false;
+    const onStream = options?.onStream;
+    const sendOptions: LLMChatOptions | undefined = onStream
+      ? {
+          onStream: (event) => {
+            streamed = true;
+            onStream(event);
+          },
+        }
+      : options;
+    let lastError: unknown;
+    for (const [index, candidate] of chain.entries()) {
+      const policy = getRetryPolicyForConfig(candidate as LLMConfigWithId);
+      for (let retry = 0; ; retry++) {
+        try {
+          const response = await this.send(candidate, request, context, sendOptions);
+          return {
+            ...response,
+            servedBy: {
+              provider: candidate.provider,
+              model: candidate.model,
+              ...(candidate.id && { llmConfigId: candidate.id }),
+              fallback: index > 0,
+            },
+            ...(failedAttempts.length > 0 && { failedAttempts }),
+          };
+        } catch (err) {
+          // Deltas already passed to onStream cannot be taken back, so a broken stream is final.
+          if (streamed) throw err;
+          lastError = err;
+          const status = errorStatus(err);
+          const error = err instanceof Error ? err.message : String(err);
+          failedAttempts.push({
+            provider: candidate.provider,
+            model: candidate.model,
+            ...(candidate.id && { llmConfigId: candidate.id }),
+            ...(status != null && { status }),
+            error,
+          });
+          if (retry >= policy.maxRetries || !isRetryableError(err, policy)) break;
+          const delayMs = retryDelayMs(retry, policy, err);
+          if (delayMs == null) break;
+          await getDefaultRateLimiter().waitForRetry(
+            rateLimitKey(candidate),
+            delayMs,
+            { attempt: retry + 1, maxRetries: policy.maxRetries, status, error },
+            context
+          );
+        }
+      }
+    }
+    throw lastError;
+  }
+
+  private async send(
+    config: LLMConfig & { id?: string },
+    request: LLMRequest,
+    context?: LLMRequestContext,
+    options?: LLMChatOptions
   ): Promise<LLMResponse> {
     const provider = this.providers.get(config.provider);
     if (!provider) {
@@ -48,9 +232,29 @@ export class LLMManager {
     }
 
     const limits = getRateLimitForConfig(config as LLMConfigWithId);
-    const key = config.id ?? `${config.provider}:${config.model}:${config.endpoint ?? "default"}`;
-    await getDefaultRateLimiter().acquire(key, limits, context);
+    const key = rateLimitKey(config);
+    const limiter = getDefaultRateLimiter();
+    const lease = await limiter.acquire(key, limits, context);
+    try {
+      const response = await this.sendToProvider(provider, config, request, options);
+      // Token usage is known once the (streamed) response is complete.
+      const totalTokens =
+        response.usage?.promptTokens != null && response.usage?.completionTokens != null
+          ? response.usage.promptTokens + response.usage.completionTokens
+          : 0;
+      await limiter.recordTokens(key, totalTokens);
+      return response;
+    } finally {
+      await lease.release();
+    }
+  }
 
+  private async sendToProvider(
+    provider: LLMProviderAdapter,
+    config: LLMConfig & { id?: string },
+    request: LLMRequest,
+    options?: LLMChatOptions
+  ): Promise<LLMResponse> {
     let apiKey =
       (await this.resolveSecret?.(config.apiKeyRef)) ??
       (typeof config.extra?.apiKey === "string" ? config.extra.apiKey : undefined);
@@ -65,22 +269,38 @@ export class LLMManager {
       apiKey = process.env.OPENROUTER_API_KEY;
     }
 
-    const response = await provider.chat({ ...config, apiKey }, request);
-
-    const totalTokens =
-      response.usage?.promptTokens != null && response.usage?.completionTokens != null
-        ? response.usage.promptTokens + response.usage.completionTokens
-        : 0;
-    if (totalTokens > 0 && limits.tokensPerMinute != null) {
-      getDefaultRateLimiter().recordTokens(key, totalTokens);
+    const resolved = { ...config, apiKey };
+    // Providers without native structured output get the schema as a system instruction.
+    const providerRequest: LLMRequest =
+      request.responseFormat && !provider.structuredOutput
+        ? {
+            ...request,
+            messages: [
+              ...request.messages,
+              { role: "system", content: structuredOutputInstruction(request.responseFormat) },
+            ],
+          }
+        : request;
+    const onStream = options?.onStream;
+    if (onStream && provider.chatStream) {
+      return consumeStream(provider.chatStream(resolved, providerRequest), onStream);
     }
-
+    const response = await provider.chat(resolved, providerRequest);
+    if (onStream && response.content) onStream({ type: "content", delta: response.content });
     return response;
   }
 }
 
-export const createDefaultLLMManager = (resolveSecret?: SecretResolver) => {
-  const manager = new LLMManager(resolveSecret);
+/** A rateLimitStore, when given, backs the shared default rate limiter (e.g. SQLite). */
+export const createDefaultLLMManager = (
+  resolveSecret?: SecretResolver,
+  resolveConfig?: LLMConfigResolver,
+  rateLimitStore?: RateLimitStore
+) => {
+  if (rateLimitStore && getDefaultRateLimiter().getStore() !== rateLimitStore) {
+    getDefaultRateLimiter().setStore(rateLimitStore);
+  }
+  const manager = new LLMManager(resolveSecret, resolveConfig);
   manager.registerDefaults();
   return manager;
 };
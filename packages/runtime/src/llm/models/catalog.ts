@@ -5,6 +5,8 @@ export interface CatalogModel {
   contextLength?: number;
   parameterSize?: string;
   pricing?: { input: number; output: number };
+  /** Accepts image parts in messages. */
+  vision?: boolean;
 }
 
 export const MODEL_CATALOG: Record<string, CatalogModel[]> = {
@@ -14,6 +16,7 @@ export const MODEL_CATALOG: Record<string, CatalogModel[]> = {
       id: "gpt-5.2",
       name: "GPT-5.2",
       provider: "openai",
+      vision: true,
       contextLength: 128000,
       pricing: { input: 1.75, output: 14.0 },
     },
@@ -21,19 +24,39 @@ export const MODEL_CATALOG: Record<string, CatalogModel[]> = {
       id: "gpt-5-mini",
       name: "GPT-5 mini",
       provider: "openai",
+      vision: true,
       contextLength: 128000,
       pricing: { input: 0.25, output: 2.0 },
     },
-    { id: "gpt-5-nano", name: "GPT-5 nano", provider: "openai", contextLength: 128000 },
-    { id: "gpt-5.1", name: "GPT-5.1", provider: "openai", contextLength: 128000 },
-    { id: "gpt-5", name: "GPT-5", provider: "openai", contextLength: 128000 },
-    { id: "gpt-5.2-pro", name: "GPT-5.2 pro", provider: "openai", contextLength: 128000 },
-    { id: "gpt-4.1", name: "GPT-4.1", provider: "openai", contextLength: 128000 },
-    { id: "gpt-4.1-mini", name: "GPT-4.1 mini", provider: "openai", contextLength: 128000 },
+    {
+      id: "gpt-5-nano",
+      name: "GPT-5 nano",
+      provider: "openai",
+      contextLength: 128000,
+      vision: true,
+    },
+    { id: "gpt-5.1", name: "GPT-5.1", provider: "openai", contextLength: 128000, vision: true },
+    { id: "gpt-5", name: "GPT-5", provider: "openai", contextLength: 128000, vision: true },
+    {
+      id: "gpt-5.2-pro",
+      name: "GPT-5.2 pro",
+      provider: "openai",
+      contextLength: 128000,
+      vision: true,
+    },
+    { id: "gpt-4.1", name: "GPT-4.1", provider: "openai", contextLength: 128000, vision: true },
+    {
+      id: "gpt-4.1-mini",
+      name: "GPT-4.1 mini",
+      provider: "openai",
+      contextLength: 128000,
+      vision: true,
+    },
     {
       id: "gpt-4o",
       name: "GPT-4o",
       provider: "openai",
+      vision: true,
       contextLength: 128000,
       pricing: { input: 2.5, output: 10.0 },
     },
@@ -41,6 +64,7 @@ export const MODEL_CATALOG: Record<string, CatalogModel[]> = {
       id: "gpt-4o-mini",
       name: "GPT-4o mini",
       provider: "openai",
+      vision: true,
       contextLength: 128000,
       pricing: { input: 0.15, output: 0.6 },
     },
@@ -51,12 +75,13 @@ export const MODEL_CATALOG: Record<string, CatalogModel[]> = {
       contextLength: 200000,
       pricing: { input: 1.1, output: 4.4 },
     },
-    { id: "o3", name: "o3", provider: "openai", contextLength: 200000 },
-    { id: "o4-mini", name: "o4-mini", provider: "openai", contextLength: 200000 },
+    { id: "o3", name: "o3", provider: "openai", contextLength: 200000, vision: true },
+    { id: "o4-mini", name: "o4-mini", provider: "openai", contextLength: 200000, vision: true },
     {
       id: "o1",
       name: "o1",
       provider: "openai",
+      vision: true,
       contextLength: 200000,
       pricing: { input: 15.0, output: 60.0 },
     },
@@ -73,6 +98,7 @@ export const MODEL_CATALOG: Record<string, CatalogModel[]> = {
       id: "claude-opus-4.5",
       name: "Claude Opus 4.5",
       provider: "anthropic",
+      vision: true,
       contextLength: 200000,
       pricing: { input: 5.0, output: 25.0 },
     },
@@ -80,6 +106,7 @@ export const MODEL_CATALOG: Record<string, CatalogModel[]> = {
       id: "claude-sonnet-4.5",
       name: "Claude Sonnet 4.5",
       provider: "anthropic",
+      vision: true,
       contextLength: 200000,
       pricing: { input: 3.0, output: 15.0 },
     },
@@ -87,6 +114,7 @@ export const MODEL_CATALOG: Record<string, CatalogModel[]> = {
       id: "claude-haiku-4.5",
       name: "Claude Haiku 4.5",
       provider: "anthropic",
+      vision: true,
       contextLength: 200000,
       pricing: { input: 1.0, output: 5.0 },
     },
@@ -94,6 +122,7 @@ export const MODEL_CATALOG: Record<string, CatalogModel[]> = {
       id: "claude-3.5-sonnet",
       name: "Claude 3.5 Sonnet",
       provider: "anthropic",
+      vision: true,
       contextLength: 200000,
       pricing: { input: 6.0, output: 30.0 },
     },
@@ -101,6 +130,7 @@ export const MODEL_CATALOG: Record<string, CatalogModel[]> = {
       id: "claude-3.5-haiku",
       name: "Claude 3.5 Haiku",
       provider: "anthropic",
+      vision: true,
       contextLength: 200000,
       pricing: { input: 0.8, output: 4.0 },
     },
@@ -118,6 +148,7 @@ export const MODEL_CATALOG: Record<string, CatalogModel[]> = {
       id: "openai/gpt-4o",
       name: "GPT-4o",
       provider: "openrouter",
+      vision: true,
       contextLength: 128000,
       pricing: { input: 2.5, output: 10.0 },
     },
@@ -125,6 +156,7 @@ export const MODEL_CATALOG: Record<string, CatalogModel[]> = {
       id: "openai/gpt-4o-mini",
       name: "GPT-4o Mini",
       provider: "openrouter",
+      vision: true,
       contextLength: 128000,
       pricing: { input: 0.15, output: 0.6 },
     },
@@ -133,6 +165,7 @@ export const MODEL_CATALOG: Record<string, CatalogModel[]> = {
       id: "anthropic/claude-sonnet-4.5",
       name: "Claude Sonnet 4.5",
       provider: "openrouter",
+      vision: true,
       contextLength: 200000,
       pricing: { input: 3.0, output: 15.0 },
     },
@@ -189,6 +222,7 @@ export const MODEL_CATALOG: Record<string, CatalogModel[]> = {
       id: "mistralai/mistral-small-3.1-24b",
       name: "Mistral Small 3.1",
       provider: "openrouter",
+      vision: true,
       contextLength: 96000,
       pricing: { input: 0.03, output: 0.11 },
     },
@@ -217,6 +251,7 @@ export const MODEL_CATALOG: Record<string, CatalogModel[]> = {
       id: "google/gemini-2.5-pro",
       name: "Gemini 2.5 Pro",
       provider: "openrouter",
+      vision: true,
       contextLength: 1000000,
       pricing: { input: 1.25, output: 10.0 },
     },
@@ -224,6 +259,7 @@ export const MODEL_CATALOG: Record<string, CatalogModel[]> = {
       id: "google/gemini-2.0-flash",
       name: "Gemini 2.0 Flash",
       provider: "openrouter",
+      vision: true,
       contextLength: 1000000,
       pricing: { input: 0.3, output: 2.5 },
     },
@@ -299,6 +335,7 @@ export const MODEL_CATALOG: Record<string, CatalogModel[]> = {
       id: "gemini-2.5-pro",
       name: "Gemini 2.5 Pro",
       provider: "gcp",
+      vision: true,
       contextLength: 1000000,
       pricing: { input: 1.25, output: 10.0 },
     },
@@ -306,6 +343,7 @@ export const MODEL_CATALOG: Record<string, CatalogModel[]> = {
       id: "gemini-2.0-flash",
       name: "Gemini 2.0 Flash",
       provider: "gcp",
+      vision: true,
       contextLength: 1000000,
       pricing: { input: 0.3, output: 2.5 },
     },
@@ -313,13 +351,20 @@ export const MODEL_CATALOG: Record<string, CatalogModel[]> = {
       id: "gemini-2.5-flash-lite",
       name: "Gemini 2.5 Flash Lite",
       provider: "gcp",
+      vision: true,
       contextLength: 1000000,
       pricing: { input: 0.1, output: 0.4 },
     },
   ],
   azure: [
-    { id: "gpt-4o", name: "GPT-4o", provider: "azure", contextLength: 128000 },
-    { id: "gpt-4o-mini", name: "GPT-4o Mini", provider: "azure", contextLength: 128000 },
+    { id: "gpt-4o", name: "GPT-4o", provider: "azure", contextLength: 128000, vision: true },
+    {
+      id: "gpt-4o-mini",
+      name: "GPT-4o Mini",
+      provider: "azure",
+      contextLength: 128000,
+      vision: true,
+    },
   ],
   huggingface: [],
   custom_http: [],
@@ -339,3 +384,22 @@ export function getDefaultContextLengthForModel(
   const entry = list.find((m) => m.id === model || model.startsWith(m.id.split(":")[0]));
   return entry?.contextLength;
 }
+
+/** Model names that usually accept images, for models not in the catalog (e.g. pulled into Ollama). */
+const VISION_MODEL_PATTERN =
+  /gpt-4o|gpt-4\.1|gpt-5|^o[134](?!-mini)|claude|gemini|llava|bakllava|vision|-vl\b|gemma3|pixtral|minicpm-v|moondream/i;
+
+/**
+ * Whether a provider/model accepts image parts: config.extra.vision when set, else the catalog
+ * entry, else a guess from the model name.
+ */
+export function modelSupportsVision(config: {
+  provider: string;
+  model: string;
+  extra?: Record<string, unknown>;
+}): boolean {
+  if (typeof config.extra?.vision === "boolean") return config.extra.vision;
+  const entry = MODEL_CATALOG[config.provider]?.find((m) => m.id === config.model);
+  if (entry) return entry.vision === true;
+  return VISION_MODEL_PATTERN.test(config.model.replace(/^[^/]+\//, ""));
+}
@@ -1,74 +1,474 @@
-import type { LLMProviderAdapter, LLMRequest, LLMResponse } from "../types";
+import type {
+  LLMContentPart,
+  LLMFinishReason,
+  LLMMessage,
+  LLMProviderAdapter,
+  LLMRequest,
+  LLMResponse,
+  LLMStreamEvent,
+  LLMToolCall,
+  ResolvedLLMConfig,
+} from "../types";
+import { contentText, parseDataUrl, partPlaceholder } from "../content";
+import { LLMRequestError, parseRetryAfter } from "../retry";
+import { responseFormatSchema } from "../structured-output";
+import { readSseData } from "./sse";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+type CacheControl = { type: "ephemeral" };
+
+type AnthropicTextBlock = { type: "text"; text: string; cache_control?: CacheControl };
+type AnthropicToolUseBlock = {
+  type: "tool_use";
+  id: string;
+  name: string;
+  input: unknown;
+  cache_control?: CacheControl;
+};
+type AnthropicSource =
+  | { type: "base64"; media_type: string; data: string }
+  | { type: "url"; url: string }
+  | { type: "text"; media_type: "text/plain"; data: string };
+type AnthropicImageBlock = { type: "image"; source: AnthropicSource; cache_control?: CacheControl };
+type AnthropicDocumentBlock = {
+  type: "document";
+  source: AnthropicSource;
+  title?: string;
+  cache_control?: CacheControl;
+};
+type AnthropicToolResultBlock = {
+  type: "tool_result";
+  tool_use_id: string;
+  content: string | Array<AnthropicTextBlock | AnthropicImageBlock>;
+  cache_control?: CacheControl;
+};
+type AnthropicBlock =
+  | AnthropicTextBlock
+  | AnthropicImageBlock
+  | AnthropicDocumentBlock
+  | AnthropicToolUseBlock
+  | AnthropicToolResultBlock;
+
+type AnthropicMessage = { role: "user" | "assistant"; content: AnthropicBlock[] };
+
+type AnthropicUsage = {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+};
 
 type AnthropicResponse = {
   id: string;
-  content?: Array<{ text?: string }>;
-  usage?: {
-    input_tokens?: number;
-    output_tokens?: number;
-  };
+  /** Text, tool_use and other blocks (e.g. thinking) in output order. */
+  content?: Array<{ type?: string; text?: string; id?: string; name?: string; input?: unknown }>;
+  stop_reason?: string | null;
+  usage?: AnthropicUsage;
 };
 
-const buildAnthropicPayload = (model: string, request: LLMRequest) => {
-  const systemMessage = request.messages.find((msg) => msg.role === "system")?.content;
-  const messages = request.messages
-    .filter((msg) => msg.role !== "system")
-    .map((msg) => ({
-      role: msg.role === "assistant" ? "assistant" : "user",
-      content: msg.content,
-    }));
+const STOP_REASONS: Record<string, LLMFinishReason> = {
+  end_turn: "stop",
+  stop_sequence: "stop",
+  pause_turn: "stop",
+  max_tokens: "length",
+  model_context_window_exceeded: "length",
+  tool_use: "tool_calls",
+  refusal: "content_filter",
+};
+
+/** Image types the Messages API accepts as base64 image sources. */
+const IMAGE_MEDIA_TYPES = new Set(["image/jpeg", "image/png", "image/gif", "image/webp"]);
+
+/** Tool call arguments are JSON strings internally; the Messages API wants the parsed object. */
+function parseToolInput(args: string): unknown {
+  try {
+    const parsed = JSON.parse(args || "{}");
+    return parsed != null && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function partSource(part: Extract<LLMContentPart, { type: "image" | "file" }>): AnthropicSource {
+  const inline =
+    part.data != null
+      ? { mimeType: part.mimeType ?? "application/octet-stream", data: part.data }
+      : part.url
+        ? parseDataUrl(part.url)
+        : undefined;
+  if (inline) return { type: "base64", media_type: inline.mimeType, data: inline.data };
+  return { type: "url", url: part.url ?? "" };
+}
+
+/** Image block for an image part; throws for image types the API does not accept. */
+function imageBlock(part: Extract<LLMContentPart, { type: "image" }>): AnthropicImageBlock {
+  const source = partSource(part);
+  if (source.type === "base64" && !IMAGE_MEDIA_TYPES.has(source.media_type)) {
+    throw new Error(
+      `Anthropic does not support images of type ${source.media_type}; use JPEG, PNG, GIF or WebP.`
+    );
+  }
+  return { type: "image", source };
+}
+
+/**
+ * Text, image and document blocks for message content; unsupported files become placeholders
+ * and unsupported image types are rejected.
+ */
+function contentBlocks(content: LLMMessage["content"]): AnthropicBlock[] {
+  // The API rejects empty text blocks.
+  if (typeof content === "string") return content ? [{ type: "text", text: content }] : [];
+  const blocks: AnthropicBlock[] = [];
+  for (const part of content) {
+    if (part.type === "text") {
+      if (part.text) blocks.push({ type: "text", text: part.text });
+    } else if (part.type === "image") {
+      blocks.push(imageBlock(part));
+    } else if (part.mimeType === "application/pdf") {
+      blocks.push({
+        type: "document",
+        source: partSource(part),
+        ...(part.name && { title: part.name }),
+      });
+    } else if (part.mimeType.startsWith("text/") && part.data != null) {
+      blocks.push({
+        type: "document",
+        source: {
+          type: "text",
+          media_type: "text/plain",
+          data: Buffer.from(part.data, "base64").toString("utf-8"),
+        },
+        ...(part.name && { title: part.name }),
+      });
+    } else {
+      blocks.push({ type: "text", text: partPlaceholder(part) });
+    }
+  }
+  return blocks;
+}
+
+function messageBlocks(msg: LLMMessage): AnthropicBlock[] {
+  if (msg.role === "tool" && msg.toolCallId) {
+    // Tool results take text and images; documents are described in text.
+    const content =
+      typeof msg.content === "string"
+        ? msg.content
+        : contentBlocks(msg.content).map((b) =>
+            b.type === "text" || b.type === "image"
+              ? b
+              : { type: "text" as const, text: "[document omitted from tool result]" }
+          );
+    return [{ type: "tool_result", tool_use_id: msg.toolCallId, content }];
+  }
+  const blocks = contentBlocks(msg.content);
+  if (msg.role === "assistant") {
+    for (const tc of msg.toolCalls ?? []) {
+      blocks.push({
+        type: "tool_use",
+        id: tc.id,
+        name: tc.name,
+        input: parseToolInput(tc.arguments),
+      });
+    }
+  }
+  return blocks;
+}
+
+/**
+ * Map internal messages to the Messages API: system messages become the system prompt, tool
+ * results become tool_result blocks of a user turn, assistant tool calls become tool_use blocks,
+ * and consecutive turns of the same role are merged (the API requires alternating roles).
+ */
+function mapMessages(messages: LLMMessage[]): {
+  system: AnthropicTextBlock[];
+  messages: AnthropicMessage[];
+} {
+  const system: AnthropicTextBlock[] = [];
+  const mapped: AnthropicMessage[] = [];
+  for (const msg of messages) {
+    if (msg.role === "system") {
+      const text = contentText(msg.content);
+      if (text) system.push({ type: "text", text });
+      continue;
+    }
+    const blocks = messageBlocks(msg);
+    if (blocks.length === 0) continue;
+    const role = msg.role === "assistant" ? "assistant" : "user";
+    const last = mapped[mapped.length - 1];
+    if (last?.role === role) last.content.push(...blocks);
+    else mapped.push({ role, content: blocks });
+  }
+  return { system, messages: mapped };
+}
+
+/**
+ * Prompt caching is on unless config.extra.promptCaching is false: cache breakpoints are set on
+ * the tool definitions, the system prompt and the latest message, so agent loops that resend the
+ * same prefix with one more tool result are billed at the cache-read rate.
+ */
+function promptCachingEnabled(config: ResolvedLLMConfig): boolean {
+  return config.extra?.promptCaching !== false;
+}
+
+/**
+ * Name of the tool that carries structured output: the Messages API has no JSON mode, so a
+ * responseFormat becomes a tool whose input schema is the format's schema, and the model is made
+ * to call it. Its input is returned as the response content.
+ */
+function outputToolName(request: LLMRequest): string | undefined {
+  const format = request.responseFormat;
+  if (!format) return undefined;
+  const name = format.type === "json_schema" ? format.name : "json_output";
+  return name.replace(/[^a-zA-Z0-9_-]/g, "_").slice(0, 64) || "json_output";
+}
+
+const buildAnthropicPayload = (config: ResolvedLLMConfig, request: LLMRequest, stream: boolean) => {
+  const cache = promptCachingEnabled(config);
+  const { system, messages } = mapMessages(request.messages ?? []);
+  const tools = (request.tools ?? []).map((t) => ({
+    name: t.function.name,
+    description: t.function.description,
+    input_schema: t.function.parameters ?? { type: "object" },
+  }));
+  const outputTool = outputToolName(request);
+  if (outputTool && request.responseFormat) {
+    tools.push({
+      name: outputTool,
+      description: "Give your final answer by calling this tool with it as the input.",
+      input_schema: responseFormatSchema(request.responseFormat),
+    });
+  }
+
+  if (cache) {
+    const lastTool = tools[tools.length - 1];
+    if (lastTool) Object.assign(lastTool, { cache_control: { type: "ephemeral" } });
+    const lastSystem = system[system.length - 1];
+    if (lastSystem) lastSystem.cache_control = { type: "ephemeral" };
+    const lastMessage = messages[messages.length - 1];
+    const lastBlock = lastMessage?.content[lastMessage.content.length - 1];
+    if (lastBlock) lastBlock.cache_control = { type: "ephemeral" };
+  }
 
   return {
-    model,
-    system: systemMessage,
+    model: config.model,
+    ...(system.length > 0 ? { system } : {}),
     messages,
     max_tokens: request.maxTokens ?? 1024,
-    temperature: request.temperature,
+    ...(request.temperature != null ? { temperature: request.temperature } : {}),
+    ...(request.topP != null ? { top_p: request.topP } : {}),
+    ...(tools.length > 0 ? { tools } : {}),
+    // With other tools the model may call those first; otherwise it must answer via the output tool.
+    ...(outputTool
+      ? {
+          tool_choice: tools.length > 1 ? { type: "any" } : { type: "tool", name: outputTool },
+        }
+      : {}),
+    ...(stream ? { stream: true } : {}),
   };
 };
 
-export const anthropicProvider: LLMProviderAdapter = {
-  provider: "anthropic",
-  chat: async (config, request) => {
-    if (!config.apiKey) {
-      throw new Error("Anthropic API key is required.");
-    }
+/** Request headers; config.extra.anthropicBeta (string or list) opts into beta features. */
+function anthropicHeaders(config: ResolvedLLMConfig, apiKey: string): Record<string, string> {
+  const beta = config.extra?.anthropicBeta;
+  const betas = (Array.isArray(beta) ? beta : [beta]).filter(
+    (b): b is string => typeof b === "string" && b.trim() !== ""
+  );
+  return {
+    "Content-Type": "application/json",
+    "x-api-key": apiKey,
+    "anthropic-version": ANTHROPIC_VERSION,
+    ...(betas.length > 0 ? { "anthropic-beta": betas.join(",") } : {}),
+  };
+}
 
-    const endpoint = config.endpoint ?? "https://api.anthropic.com";
-    const payload = buildAnthropicPayload(config.model, request);
-
-    const response = await fetch(`${endpoint}/v1/messages`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "x-api-key": config.apiKey,
-        "anthropic-version": "2023-06-01",
-      },
-      body: JSON.stringify(payload),
-    });
+async function postMessages(
+  config: ResolvedLLMConfig,
+  request: LLMRequest,
+  stream: boolean
+): Promise<Response> {
+  if (!config.apiKey) {
+    throw new Error("Anthropic API key is required.");
+  }
+  const endpoint = (config.endpoint ?? "https://api.anthropic.com").replace(/\/$/, "");
+  const response = await fetch(`${endpoint}/v1/messages`, {
+    method: "POST",
+    headers: anthropicHeaders(config, config.apiKey),
+    body: JSON.stringify(buildAnthropicPayload(config, request, stream)),
+  });
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new LLMRequestError(
+      `LLM request failed (${response.status}): ${errorText}`,
+      response.status,
+      parseRetryAfter(response.headers.get("retry-after"))
+    );
+  }
+  return response;
+}
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`LLM request failed (${response.status}): ${errorText}`);
-    }
+/**
+ * Convert a Messages API response (or one assembled from a stream) to an LLMResponse. A call of
+ * the structured output tool becomes the content (its input as JSON).
+ */
+function toLLMResponse(data: AnthropicResponse, outputTool?: string): LLMResponse {
+  const blocks = data.content ?? [];
+  const output = outputTool
+    ? blocks.find((b) => b.type === "tool_use" && b.name === outputTool)
+    : undefined;
+  const content = output
+    ? JSON.stringify(output.input ?? {})
+    : blocks
+        .filter((b) => b.type === "text" && typeof b.text === "string")
+        .map((b) => b.text)
+        .join("");
+  const toolCalls: LLMToolCall[] = blocks
+    .filter((b) => b.type === "tool_use" && b.name && b !== output)
+    .map((b) => ({
+      id: b.id ?? "",
+      name: b.name!,
+      arguments: JSON.stringify(b.input ?? {}),
+    }));
 
-    const data = (await response.json()) as AnthropicResponse;
-    const content = data.content?.[0]?.text ?? "";
+  // input_tokens excludes cached prompt tokens; promptTokens counts the whole prompt.
+  const cacheReadTokens = data.usage?.cache_read_input_tokens ?? 0;
+  const cacheCreationTokens = data.usage?.cache_creation_input_tokens ?? 0;
+  const promptTokens = (data.usage?.input_tokens ?? 0) + cacheReadTokens + cacheCreationTokens;
+  const completionTokens = data.usage?.output_tokens ?? 0;
+  const finishReason = output
+    ? "stop"
+    : data.stop_reason
+      ? STOP_REASONS[data.stop_reason]
+      : undefined;
 
-    const promptTokens = data.usage?.input_tokens ?? 0;
-    const completionTokens = data.usage?.output_tokens ?? 0;
+  return {
+    id: data.id ?? "unknown",
+    content,
+    ...(toolCalls.length > 0 ? { toolCalls } : {}),
+    usage: {
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+      ...(cacheReadTokens > 0 ? { cacheReadTokens } : {}),
+      ...(cacheCreationTokens > 0 ? { cacheCreationTokens } : {}),
+    },
+    ...(finishReason ? { finishReason } : {}),
+    raw: data,
+  };
+}
+
+type AnthropicStreamEvent = {
+  type: string;
+  index?: number;
+  message?: AnthropicResponse;
+  content_block?: { type?: string; text?: string; id?: string; name?: string };
+  delta?: {
+    type?: string;
+    text?: string;
+    partial_json?: string;
+    stop_reason?: string | null;
+  };
+  usage?: AnthropicUsage;
+  error?: { type?: string; message?: string };
+};
+
+/**
+ * Streamed Messages API call: yields text and tool input deltas as they arrive and assembles the
+ * same response the non-streaming call returns for the final "done" event.
+ */
+async function* streamMessages(
+  config: ResolvedLLMConfig,
+  request: LLMRequest
+): AsyncGenerator<LLMStreamEvent> {
+  const response = await postMessages(config, request, true);
+  if (!response.body) throw new Error("LLM stream failed: response has no body");
+  const outputTool = outputToolName(request);
 
-    const result: LLMResponse = {
-      id: data.id ?? "unknown",
-      content,
-      usage: {
-        promptTokens,
-        completionTokens,
-        totalTokens: promptTokens + completionTokens,
-      },
-      raw: data,
-    };
+  const message: AnthropicResponse = { id: "unknown", content: [] };
+  const blocks: NonNullable<AnthropicResponse["content"]> = [];
+  /** Per content block index: the tool call's position (-1 for structured output) and its partial JSON input. */
+  const toolInputs = new Map<number, { toolIndex: number; json: string }>();
 
-    return result;
+  for await (const data of readSseData(response.body)) {
+    const event = JSON.parse(data) as AnthropicStreamEvent;
+    switch (event.type) {
+      case "message_start":
+        Object.assign(message, event.message, { content: blocks });
+        break;
+      case "content_block_start": {
+        const index = event.index ?? blocks.length;
+        const block = { ...event.content_block };
+        blocks[index] = block;
+        if (block.type === "tool_use" && block.name === outputTool) {
+          // Structured output streams as content.
+          toolInputs.set(index, { toolIndex: -1, json: "" });
+        } else if (block.type === "tool_use") {
+          const toolIndex = [...toolInputs.values()].filter((t) => t.toolIndex >= 0).length;
+          toolInputs.set(index, { toolIndex, json: "" });
+          yield {
+            type: "tool_call",
+            index: toolIndex,
+            id: block.id,
+            name: block.name,
+            argumentsDelta: "",
+          };
+        } else if (block.type === "text" && block.text) {
+          yield { type: "content", delta: block.text };
+        }
+        break;
+      }
+      case "content_block_delta": {
+        const index = event.index ?? blocks.length - 1;
+        const block = blocks[index];
+        if (event.delta?.type === "text_delta" && event.delta.text && block) {
+          block.text = (block.text ?? "") + event.delta.text;
+          yield { type: "content", delta: event.delta.text };
+        } else if (event.delta?.type === "input_json_delta" && event.delta.partial_json) {
+          const tool = toolInputs.get(index);
+          if (!tool) break;
+          tool.json += event.delta.partial_json;
+          if (tool.toolIndex < 0) {
+            yield { type: "content", delta: event.delta.partial_json };
+            break;
+          }
+          yield {
+            type: "tool_call",
+            index: tool.toolIndex,
+            argumentsDelta: event.delta.partial_json,
+          };
+        }
+        break;
+      }
+      case "content_block_stop": {
+        const index = event.index ?? blocks.length - 1;
+        const tool = toolInputs.get(index);
+        if (tool && blocks[index]) blocks[index].input = parseToolInput(tool.json);
+        break;
+      }
+      case "message_delta":
+        if (event.delta?.stop_reason !== undefined) message.stop_reason = event.delta.stop_reason;
+        message.usage = { ...message.usage, ...event.usage };
+        break;
+      case "error":
+        throw new Error(
+          `LLM stream failed: ${event.error?.type ?? "error"}: ${event.error?.message ?? ""}`
+        );
+      default:
+        // ping, message_stop and event types added by later API versions
+        break;
+    }
+  }
+
+  message.content = blocks.filter(Boolean);
+  yield { type: "done", response: toLLMResponse(message, outputTool) };
+}
+
+export const anthropicProvider: LLMProviderAdapter = {
+  provider: "anthropic",
+  structuredOutput: true,
+  chat: async (config, request) => {
+    const response = await postMessages(config, request, false);
+    return toLLMResponse((await response.json()) as AnthropicResponse, outputToolName(request));
   },
+  chatStream: (config, request) => streamMessages(config, request),
 };
@@ -1,18 +1,34 @@
-import type { LLMProviderAdapter } from "../types";
-import { openAICompatibleChat } from "./openai-compatible";
+import type { LLMProviderAdapter, ResolvedLLMConfig } from "../types";
+import {
+  openAICompatibleChat,
+  openAICompatibleChatStream,
+  type OpenAICompatibleOptions,
+} from "./openai-compatible";
+
+const AZURE_OPTIONS: OpenAICompatibleOptions = {
+  fileParts: "file",
+  responseFormat: "response_format",
+};
+
+function azureTarget(config: ResolvedLLMConfig) {
+  if (!config.endpoint) {
+    throw new Error("Azure provider requires an endpoint.");
+  }
+  if (!config.apiKey) {
+    throw new Error("Azure API key is required.");
+  }
+  return { endpoint: config.endpoint, headers: { "api-key": config.apiKey } };
+}
 
 export const azureProvider: LLMProviderAdapter = {
   provider: "azure",
+  structuredOutput: true,
   chat: async (config, request) => {
-    if (!config.endpoint) {
-      throw new Error("Azure provider requires an endpoint.");
-    }
-    if (!config.apiKey) {
-      throw new Error("Azure API key is required.");
-    }
-
-    return openAICompatibleChat(config.endpoint, config, request, {
-      "api-key": config.apiKey,
-    });
+    const { endpoint, headers } = azureTarget(config);
+    return openAICompatibleChat(endpoint, config, request, headers, AZURE_OPTIONS);
+  },
+  chatStream: async function* (config, request) {
+    const { endpoint, headers } = azureTarget(config);
+    yield* openAICompatibleChatStream(endpoint, config, request, headers, AZURE_OPTIONS);
   },
 };
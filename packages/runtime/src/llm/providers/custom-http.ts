@@ -1,13 +1,19 @@
-import type { LLMProviderAdapter } from "../types";
-import { openAICompatibleChat } from "./openai-compatible";
+import type { LLMProviderAdapter, ResolvedLLMConfig } from "../types";
+import { openAICompatibleChat, openAICompatibleChatStream } from "./openai-compatible";
+
+function customHttpEndpoint(config: ResolvedLLMConfig): string {
+  if (!config.endpoint) {
+    throw new Error("Custom HTTP provider requires an endpoint.");
+  }
+  return config.endpoint;
+}
 
 export const customHttpProvider: LLMProviderAdapter = {
   provider: "custom_http",
   chat: async (config, request) => {
-    if (!config.endpoint) {
-      throw new Error("Custom HTTP provider requires an endpoint.");
-    }
-
-    return openAICompatibleChat(config.endpoint, config, request, {});
+    return openAICompatibleChat(customHttpEndpoint(config), config, request, {});
+  },
+  chatStream: async function* (config, request) {
+    yield* openAICompatibleChatStream(customHttpEndpoint(config), config, request, {});
   },
 };
@@ -1,18 +1,38 @@
-import type { LLMProviderAdapter } from "../types";
-import { openAICompatibleChat } from "./openai-compatible";
+import type { LLMProviderAdapter, ResolvedLLMConfig } from "../types";
+import {
+  openAICompatibleChat,
+  openAICompatibleChatStream,
+  type OpenAICompatibleOptions,
+} from "./openai-compatible";
+
+const GCP_OPTIONS: OpenAICompatibleOptions = {
+  fileParts: "image_url",
+  responseFormat: "response_format",
+};
+
+function gcpTarget(config: ResolvedLLMConfig) {
+  if (!config.endpoint) {
+    throw new Error("GCP provider requires an endpoint.");
+  }
+
+  const headers: Record<string, string> = {};
+  if (config.apiKey) {
+    headers.Authorization = `Bearer ${config.apiKey}`;
+  }
+  return { endpoint: config.endpoint, headers };
+}
 
 export const gcpProvider: LLMProviderAdapter = {
   provider: "gcp",
+  structuredOutput: true,
   chat: async (config, request) => {
-    if (!config.endpoint) {
-      throw new Error("GCP provider requires an endpoint.");
-    }
-
-    const headers: Record<string, string> = {};
-    if (config.apiKey) {
-      headers.Authorization = `Bearer ${config.apiKey}`;
-    }
-
-    return openAICompatibleChat(config.endpoint, config, request, headers);
+    const { endpoint, headers } = gcpTarget(config);
+    return openAICompatibleChat(endpoint, config, request, headers, GCP_OPTIONS);
+  },
+  chatStream: async function* (config, request) {
+    const { endpoint, headers } = gcpTarget(config);
+    yield* openAICompatibleChatStream(endpoint, config, request, headers, {
+      fileParts: "image_url",
+    });
   },
 };
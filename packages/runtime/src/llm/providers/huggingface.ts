@@ -1,17 +1,23 @@
-import type { LLMProviderAdapter } from "../types";
-import { openAICompatibleChat } from "./openai-compatible";
+import type { LLMProviderAdapter, ResolvedLLMConfig } from "../types";
+import { openAICompatibleChat, openAICompatibleChatStream } from "./openai-compatible";
+
+function huggingfaceTarget(config: ResolvedLLMConfig) {
+  if (!config.apiKey) {
+    throw new Error("Hugging Face API token is required.");
+  }
+
+  const endpoint = config.endpoint ?? "https://api-inference.huggingface.co";
+  return { endpoint, headers: { Authorization: `Bearer ${config.apiKey}` } };
+}
 
 export const huggingfaceProvider: LLMProviderAdapter = {
   provider: "huggingface",
   chat: async (config, request) => {
-    if (!config.apiKey) {
-      throw new Error("Hugging Face API token is required.");
-    }
-
-    const endpoint = config.endpoint ?? "https://api-inference.huggingface.co";
-
-    return openAICompatibleChat(endpoint, config, request, {
-      Authorization: `Bearer ${config.apiKey}`,
-    });
+    const { endpoint, headers } = huggingfaceTarget(config);
+    return openAICompatibleChat(endpoint, config, request, headers);
+  },
+  chatStream: async function* (config, request) {
+    const { endpoint, headers } = huggingfaceTarget(config);
+    yield* openAICompatibleChatStream(endpoint, config, request, headers);
   },
 };
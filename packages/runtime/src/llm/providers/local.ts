@@ -1,8 +1,18 @@
 import type { LLMProviderAdapter } from "../types";
-import { openAICompatibleChat } from "./openai-compatible";
+import {
+  openAICompatibleChat,
+  openAICompatibleChatStream,
+  type OpenAICompatibleOptions,
+} from "./openai-compatible";
+
+const OLLAMA_OPTIONS: OpenAICompatibleOptions = {
+  inlineImagesOnly: true,
+  responseFormat: "format",
+};
 
 export const localProvider: LLMProviderAdapter = {
   provider: "local",
+  structuredOutput: true,
   chat: async (config, request) => {
     const endpoint = config.endpoint ?? "http://localhost:11434";
 
@@ -26,6 +36,16 @@ export const localProvider: LLMProviderAdapter = {
     // For the OpenAI-compatible endpoint, options are passed via extra body params
     // However, the standard openAICompatibleChat function doesn't support this,
     // so for now we use the compatibility layer which works for most cases.
-    return openAICompatibleChat(endpoint, config, request, {});
+    return openAICompatibleChat(endpoint, config, request, {}, OLLAMA_OPTIONS);
+  },
+  // Ollama streams /v1/chat/completions chunks (with usage in the last one) like OpenAI.
+  chatStream: async function* (config, request) {
+    yield* openAICompatibleChatStream(
+      config.endpoint ?? "http://localhost:11434",
+      config,
+      request,
+      {},
+      OLLAMA_OPTIONS
+    );
   },
 };
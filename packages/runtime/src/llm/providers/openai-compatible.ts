@@ -1,8 +1,22 @@
-import type { LLMRequest, LLMResponse, ResolvedLLMConfig } from "../types";
+import { contentText, partPlaceholder, partUrl } from "../content";
+import { LLMRequestError, parseRetryAfter } from "../retry";
+import type {
+  LLMContentPart,
+  LLMFinishReason,
+  LLMMessage,
+  LLMRequest,
+  LLMResponse,
+  LLMStreamEvent,
+  ResolvedLLMConfig,
+} from "../types";
+import { readSseData } from "./sse";
+
+const FINISH_REASONS = new Set<string>(["stop", "length", "tool_calls", "content_filter"]);
 
 type OpenAIChatResponse = {
   id: string;
   choices?: Array<{
+    finish_reason?: string | null;
     message?: {
       /** String (legacy) or array of parts (e.g. [{ type: "text", text: "..." }]) in newer APIs */
       content?: string | Array<{ type?: string; text?: string }>;
@@ -55,8 +69,45 @@ function modelRequiresMaxCompletionTokens(model: string): boolean {
 export type OpenAICompatibleOptions = {
   /** Use max_completion_tokens instead of max_tokens (required for newer OpenAI models e.g. gpt-5-mini). */
   useMaxCompletionTokens?: boolean;
+  /**
+   * How file parts are sent: "file" as OpenAI file parts, "image_url" as data URLs (Gemini),
+   * otherwise replaced by a text placeholder.
+   */
+  fileParts?: "file" | "image_url";
+  /** Replace image parts given by remote URL with a placeholder (servers that only take base64). */
+  inlineImagesOnly?: boolean;
+  /**
+   * How request.responseFormat is sent: OpenAI response_format or Ollama format. Unset for servers
+   * without structured output (the manager then puts the schema in the prompt).
+   */
+  responseFormat?: "response_format" | "format";
 };
 
+/** Body fields for request.responseFormat in the server's dialect. */
+function responseFormatParams(
+  request: LLMRequest,
+  options?: OpenAICompatibleOptions
+): Record<string, unknown> {
+  const format = request.responseFormat;
+  if (!format || !options?.responseFormat) return {};
+  if (options.responseFormat === "format") {
+    return { format: format.type === "json_schema" ? format.schema : "json" };
+  }
+  return {
+    response_format:
+      format.type === "json_schema"
+        ? {
+            type: "json_schema",
+            json_schema: {
+              name: format.name,
+              schema: format.schema,
+              strict: format.strict ?? false,
+            },
+          }
+        : { type: "json_object" },
+  };
+}
+
 function buildRequestBody(
   request: LLMRequest,
   config: ResolvedLLMConfig,
@@ -74,23 +125,30 @@ function buildRequestBody(
       : {};
   return {
     model: config.model,
-    messages: mapMessagesToApi(request.messages ?? []),
+    messages: mapMessagesToApi(request.messages ?? [], options),
     ...(temperature !== undefined && temperature !== null ? { temperature } : {}),
     top_p: request.topP,
     ...completionLimit,
     ...(request.tools && request.tools.length > 0 ? { tools: request.tools } : {}),
+    ...responseFormatParams(request, options),
   };
 }
 
-export const openAICompatibleChat = async (
+/**
+ * POST /v1/chat/completions, retrying once with temperature 1 for models that reject other
+ * temperatures. Throws with the response body (and a hint for 404s) when the request fails.
+ */
+async function postChatCompletions(
   endpoint: string,
   config: ResolvedLLMConfig,
   request: LLMRequest,
   headers: Record<string, string>,
-  options?: OpenAICompatibleOptions
-): Promise<LLMResponse> => {
+  options: OpenAICompatibleOptions | undefined,
+  stream: boolean
+): Promise<Response> {
   const base = normalizeOpenAIEndpoint(endpoint);
-  let body = buildRequestBody(request, config, undefined, options);
+  const streamParams = stream ? { stream: true, stream_options: { include_usage: true } } : {};
+  let body = { ...buildRequestBody(request, config, undefined, options), ...streamParams };
   let response = await fetch(`${base}/v1/chat/completions`, {
     method: "POST",
     headers: {
@@ -106,7 +164,7 @@ export const openAICompatibleChat = async (
       try {
         const err = JSON.parse(errorText) as { error?: { param?: string; code?: string } };
         if (err.error?.param === "temperature" && err.error?.code === "unsupported_value") {
-          body = buildRequestBody(request, config, 1, options);
+          body = { ...buildRequestBody(request, config, 1, options), ...streamParams };
           response = await fetch(`${base}/v1/chat/completions`, {
             method: "POST",
             headers: { "Content-Type": "application/json", ...headers },
@@ -124,11 +182,18 @@ export const openAICompatibleChat = async (
         hint =
           " For 404: check that the model name is supported by your provider and that the endpoint URL in Settings → LLM Providers is correct.";
       }
-      throw new Error(`LLM request failed (${response.status}): ${errorText}${hint}`);
+      throw new LLMRequestError(
+        `LLM request failed (${response.status}): ${errorText}${hint}`,
+        response.status,
+        parseRetryAfter(response.headers.get("retry-after"))
+      );
     }
   }
+  return response;
+}
 
-  const data = (await response.json()) as OpenAIChatResponse;
+/** Convert a chat completion (or one assembled from a stream) to an LLMResponse. */
+function toLLMResponse(data: OpenAIChatResponse): LLMResponse {
   const msg = data.choices?.[0]?.message;
   const content = normalizeContent(msg?.content);
 
@@ -143,6 +208,7 @@ export const openAICompatibleChat = async (
 
   const promptTokens = data.usage?.prompt_tokens ?? 0;
   const completionTokens = data.usage?.completion_tokens ?? 0;
+  const finishReason = data.choices?.[0]?.finish_reason;
 
   return {
     id: data.id ?? "unknown",
@@ -153,20 +219,192 @@ export const openAICompatibleChat = async (
       completionTokens,
       totalTokens: data.usage?.total_tokens ?? promptTokens + completionTokens,
     },
+    ...(finishReason && FINISH_REASONS.has(finishReason)
+      ? { finishReason: finishReason as LLMFinishReason }
+      : {}),
     raw: data,
   };
+}
+
+export const openAICompatibleChat = async (
+  endpoint: string,
+  config: ResolvedLLMConfig,
+  request: LLMRequest,
+  headers: Record<string, string>,
+  options?: OpenAICompatibleOptions
+): Promise<LLMResponse> => {
+  const response = await postChatCompletions(endpoint, config, request, headers, options, false);
+  return toLLMResponse((await response.json()) as OpenAIChatResponse);
+};
+
+type OpenAIStreamChunk = {
+  id?: string;
+  choices?: Array<{
+    finish_reason?: string | null;
+    delta?: {
+      content?: string | null;
+      tool_calls?: Array<{
+        index?: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }>;
+    };
+  }>;
+  usage?: OpenAIChatResponse["usage"] | null;
+  error?: { message?: string };
+};
+
+/**
+ * Streamed chat completion: yields content and tool call argument deltas as they arrive, then
+ * "done" with the response assembled from the chunks (usage comes from the final chunk when the
+ * server honours stream_options.include_usage).
+ */
+export async function* openAICompatibleChatStream(
+  endpoint: string,
+  config: ResolvedLLMConfig,
+  request: LLMRequest,
+  headers: Record<string, string>,
+  options?: OpenAICompatibleOptions
+): AsyncGenerator<LLMStreamEvent> {
+  const response = await postChatCompletions(endpoint, config, request, headers, options, true);
+  if (!response.body) throw new Error("LLM stream failed: response has no body");
+
+  let id = "unknown";
+  let content = "";
+  let finishReason: string | null = null;
+  let usage: OpenAIChatResponse["usage"];
+  const toolCalls: Array<{
+    id: string;
+    type: string;
+    function: { name: string; arguments: string };
+  }> = [];
+
+  for await (const data of readSseData(response.body)) {
+    if (data === "[DONE]") break;
+    const chunk = JSON.parse(data) as OpenAIStreamChunk;
+    if (chunk.error) throw new Error(`LLM stream failed: ${chunk.error.message ?? data}`);
+    if (chunk.id) id = chunk.id;
+    if (chunk.usage) usage = chunk.usage;
+    const choice = chunk.choices?.[0];
+    if (!choice) continue;
+    if (choice.finish_reason) finishReason = choice.finish_reason;
+    if (choice.delta?.content) {
+      content += choice.delta.content;
+      yield { type: "content", delta: choice.delta.content };
+    }
+    for (const tc of choice.delta?.tool_calls ?? []) {
+      const index = tc.index ?? toolCalls.length;
+      const call = (toolCalls[index] ??= {
+        id: "",
+        type: "function",
+        function: { name: "", arguments: "" },
+      });
+      if (tc.id) call.id = tc.id;
+      if (tc.function?.name) call.function.name += tc.function.name;
+      const argumentsDelta = tc.function?.arguments ?? "";
+      call.function.arguments += argumentsDelta;
+      yield {
+        type: "tool_call",
+        index,
+        ...(tc.id && { id: tc.id }),
+        ...(tc.function?.name && { name: tc.function.name }),
+        argumentsDelta,
+      };
+    }
+  }
+
+  yield {
+    type: "done",
+    response: toLLMResponse({
+      id,
+      choices: [
+        {
+          finish_reason: finishReason,
+          message: { content, tool_calls: toolCalls.filter(Boolean) },
+        },
+      ],
+      usage,
+    }),
+  };
+}
+
+type ApiContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } }
+  | { type: "file"; file: { filename: string; file_data: string } };
+
+type ApiMessage = {
+  role: string;
+  content: string | ApiContentPart[];
+  tool_call_id?: string;
+  tool_calls?: unknown[];
 };
 
-/** Map internal messages (tool/toolCalls) to OpenAI API format. */
+/** Map content parts to chat completion parts; files follow options.fileParts. */
+function mapContentToApi(
+  content: LLMMessage["content"],
+  options?: OpenAICompatibleOptions
+): string | ApiContentPart[] {
+  if (typeof content === "string") return content;
+  return content.map((part): ApiContentPart => {
+    if (part.type === "text") return part;
+    if (part.type === "image") {
+      // Ollama only takes inline (base64) images.
+      if (options?.inlineImagesOnly && part.data == null && !part.url?.startsWith("data:")) {
+        return { type: "text", text: partPlaceholder(part) };
+      }
+      return { type: "image_url", image_url: { url: partUrl(part) } };
+    }
+    if (options?.fileParts === "file" && part.data != null) {
+      return {
+        type: "file",
+        file: { filename: part.name ?? "file", file_data: partUrl(part) },
+      };
+    }
+    if (options?.fileParts === "image_url") {
+      return { type: "image_url", image_url: { url: partUrl(part) } };
+    }
+    return { type: "text", text: partPlaceholder(part) };
+  });
+}
+
+/**
+ * Map internal messages (tool/toolCalls, content parts) to OpenAI API format. Tool messages only
+ * take text, so images in the tool results of a turn are collected and sent in one user message
+ * after the turn's last tool result (a user message between tool results breaks the tool turn).
+ */
 function mapMessagesToApi(
-  messages: LLMRequest["messages"]
-): Array<{ role: string; content: string; tool_call_id?: string; tool_calls?: unknown[] }> {
-  return messages.map((m) => {
-    const base: { role: string; content: string; tool_call_id?: string; tool_calls?: unknown[] } = {
+  messages: LLMRequest["messages"],
+  options?: OpenAICompatibleOptions
+): ApiMessage[] {
+  const out: ApiMessage[] = [];
+  let toolImages: LLMContentPart[] = [];
+  const flushToolImages = () => {
+    if (toolImages.length === 0) return;
+    out.push({ role: "user", content: mapContentToApi(toolImages, options) });
+    toolImages = [];
+  };
+  for (const m of messages) {
+    if (m.role === "tool") {
+      out.push({
+        role: "tool",
+        content: contentText(m.content),
+        ...(m.toolCallId && { tool_call_id: m.toolCallId }),
+      });
+      const images =
+        typeof m.content === "string" ? [] : m.content.filter((p) => p.type !== "text");
+      if (images.length > 0) {
+        const label = m.toolCallId ? `tool call ${m.toolCallId}` : "a tool call";
+        toolImages.push({ type: "text", text: `Images from the result of ${label}:` }, ...images);
+      }
+      continue;
+    }
+    flushToolImages();
+    const base: ApiMessage = {
       role: m.role,
-      content: m.content ?? "",
+      // System and assistant messages are text-only in most implementations.
+      content: m.role === "user" ? mapContentToApi(m.content, options) : contentText(m.content),
     };
-    if (m.role === "tool" && m.toolCallId) base.tool_call_id = m.toolCallId;
     if (m.role === "assistant" && m.toolCalls && m.toolCalls.length > 0) {
       base.tool_calls = m.toolCalls.map((tc) => ({
         id: tc.id,
@@ -174,6 +412,8 @@ function mapMessagesToApi(
         function: { name: tc.name, arguments: tc.arguments },
       }));
     }
-    return base;
-  });
+    out.push(base);
+  }
+  flushToolImages();
+  return out;
 }
@@ -1,20 +1,33 @@
-import type { LLMProviderAdapter } from "../types";
-import { openAICompatibleChat } from "./openai-compatible";
+import type { LLMProviderAdapter, ResolvedLLMConfig } from "../types";
+import {
+  openAICompatibleChat,
+  openAICompatibleChatStream,
+  type OpenAICompatibleOptions,
+} from "./openai-compatible";
+
+const OPENAI_OPTIONS: OpenAICompatibleOptions = {
+  useMaxCompletionTokens: true,
+  fileParts: "file",
+  responseFormat: "response_format",
+};
+
+function openaiTarget(config: ResolvedLLMConfig) {
+  const endpoint = config.endpoint ?? "https://api.openai.com";
+  if (!config.apiKey) {
+    throw new Error("OpenAI API key is required.");
+  }
+  return { endpoint, headers: { Authorization: `Bearer ${config.apiKey}` } };
+}
 
 export const openaiProvider: LLMProviderAdapter = {
   provider: "openai",
+  structuredOutput: true,
   chat: async (config, request) => {
-    const endpoint = config.endpoint ?? "https://api.openai.com";
-    if (!config.apiKey) {
-      throw new Error("OpenAI API key is required.");
-    }
-
-    return openAICompatibleChat(
-      endpoint,
-      config,
-      request,
-      { Authorization: `Bearer ${config.apiKey}` },
-      { useMaxCompletionTokens: true }
-    );
+    const { endpoint, headers } = openaiTarget(config);
+    return openAICompatibleChat(endpoint, config, request, headers, OPENAI_OPTIONS);
+  },
+  chatStream: async function* (config, request) {
+    const { endpoint, headers } = openaiTarget(config);
+    yield* openAICompatibleChatStream(endpoint, config, request, headers, OPENAI_OPTIONS);
   },
 };
@@ -1,6 +1,14 @@
 import { OpenRouter } from "@openrouter/sdk";
+import { contentText } from "../content";
 import type { LLMProviderAdapter } from "../types";
-import type { LLMMessage, LLMRequest, LLMResponse, ResolvedLLMConfig } from "../types";
+import type {
+  LLMFinishReason,
+  LLMMessage,
+  LLMRequest,
+  LLMResponse,
+  LLMToolCall,
+  ResolvedLLMConfig,
+} from "../types";
 
 const SITE_URL = "https://agentos.studio";
 const SITE_NAME = "AgentOS Studio";
@@ -16,9 +24,9 @@ function toSDKMessages(
 > {
   return messages.map((m) => {
     if (m.role === "tool") {
-      return { role: "tool" as const, content: m.content, toolCallId: "call_0" };
+      return { role: "tool" as const, content: contentText(m.content), toolCallId: "call_0" };
     }
-    return { role: m.role, content: m.content };
+    return { role: m.role, content: contentText(m.content) };
   });
 }
 
@@ -30,29 +38,55 @@ function getOpenRouterApiKey(config: ResolvedLLMConfig): string | undefined {
   return undefined;
 }
 
+const FINISH_REASONS = new Set<string>(["stop", "length", "tool_calls", "content_filter"]);
+
+function createOpenRouterClient(config: ResolvedLLMConfig): OpenRouter {
+  const apiKey = getOpenRouterApiKey(config);
+  if (!apiKey) {
+    throw new Error(
+      "OpenRouter API key is required. Set it in Settings → LLM Providers (edit your OpenRouter provider and enter the key), or set the OPENROUTER_API_KEY environment variable."
+    );
+  }
+
+  return new OpenRouter({
+    apiKey,
+    httpReferer: SITE_URL,
+    xTitle: SITE_NAME,
+  });
+}
+
+function sendParams(config: ResolvedLLMConfig, request: LLMRequest) {
+  return {
+    model: config.model ?? "openrouter/free",
+    messages: toSDKMessages(request.messages),
+    temperature: request.temperature,
+    maxTokens: request.maxTokens,
+    topP: request.topP,
+    ...(request.responseFormat && {
+      responseFormat:
+        request.responseFormat.type === "json_schema"
+          ? {
+              type: "json_schema" as const,
+              jsonSchema: {
+                name: request.responseFormat.name,
+                schema: request.responseFormat.schema,
+                strict: request.responseFormat.strict ?? false,
+              },
+            }
+          : { type: "json_object" as const },
+    }),
+  };
+}
+
 export const openrouterProvider: LLMProviderAdapter = {
   provider: "openrouter",
+  structuredOutput: true,
   chat: async (config, request): Promise<LLMResponse> => {
-    const apiKey = getOpenRouterApiKey(config);
-    if (!apiKey) {
-      throw new Error(
-        "OpenRouter API key is required. Set it in Settings → LLM Providers (edit your OpenRouter provider and enter the key), or set the OPENROUTER_API_KEY environment variable."
-      );
-    }
-
-    const openRouter = new OpenRouter({
-      apiKey,
-      httpReferer: SITE_URL,
-      xTitle: SITE_NAME,
-    });
+    const openRouter = createOpenRouterClient(config);
 
     const completion = await openRouter.chat.send({
-      model: config.model ?? "openrouter/free",
-      messages: toSDKMessages(request.messages),
+      ...sendParams(config, request),
       stream: false,
-      temperature: request.temperature,
-      maxTokens: request.maxTokens,
-      topP: request.topP,
     });
 
     const choice = completion.choices?.[0];
@@ -84,4 +118,66 @@ export const openrouterProvider: LLMProviderAdapter = {
       raw: completion,
     };
   },
+  chatStream: async function* (config, request) {
+    const openRouter = createOpenRouterClient(config);
+    const stream = await openRouter.chat.send({
+      ...sendParams(config, request),
+      stream: true,
+    });
+
+    let id = "unknown";
+    let content = "";
+    let finishReason: string | null = null;
+    let usage: LLMResponse["usage"];
+    const toolCalls: LLMToolCall[] = [];
+    for await (const chunk of stream) {
+      if (chunk.error) throw new Error(`LLM stream failed: ${chunk.error.message}`);
+      if (chunk.id) id = chunk.id;
+      if (chunk.usage) {
+        const promptTokens = chunk.usage.promptTokens ?? 0;
+        const completionTokens = chunk.usage.completionTokens ?? 0;
+        usage = {
+          promptTokens,
+          completionTokens,
+          totalTokens: chunk.usage.totalTokens ?? promptTokens + completionTokens,
+        };
+      }
+      const choice = chunk.choices?.[0];
+      if (!choice) continue;
+      if (choice.finishReason) finishReason = choice.finishReason;
+      if (choice.delta?.content) {
+        content += choice.delta.content;
+        yield { type: "content", delta: choice.delta.content };
+      }
+      for (const tc of choice.delta?.toolCalls ?? []) {
+        const call = (toolCalls[tc.index] ??= { id: "", name: "", arguments: "" });
+        if (tc.id) call.id = tc.id;
+        if (tc.function?.name) call.name += tc.function.name;
+        const argumentsDelta = tc.function?.arguments ?? "";
+        call.arguments += argumentsDelta;
+        yield {
+          type: "tool_call",
+          index: tc.index,
+          ...(tc.id && { id: tc.id }),
+          ...(tc.function?.name && { name: tc.function.name }),
+          argumentsDelta,
+        };
+      }
+    }
+
+    const calls = toolCalls.filter((tc) => tc?.name);
+    yield {
+      type: "done",
+      response: {
+        id,
+        content,
+        ...(calls.length > 0 ? { toolCalls: calls } : {}),
+        usage,
+        ...(finishReason && FINISH_REASONS.has(finishReason)
+          ? { finishReason: finishReason as LLMFinishReason }
+          : {}),
+        raw: { id, content, finishReason, usage },
+      },
+    };
+  },
 };
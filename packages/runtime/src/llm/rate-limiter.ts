@@ -1,22 +1,219 @@
 import type { RateLimitConfig } from "./rate-limits";
 import type { LLMRequestContext } from "./types";
 
-const WINDOW_MS = 60_000;
+export const RATE_LIMIT_WINDOW_MS = 60_000;
 const RECENT_DELAYED_MAX = 200;
+const RECENT_REJECTED_MAX = 50;
 const MIN_WAIT_MS = 50;
+/** Poll interval while waiting for a concurrency slot (release time is unknown). */
+const CONCURRENCY_POLL_MS = 250;
+/** Longest single sleep while waiting; state is re-checked after each. */
+const MAX_SLEEP_MS = 5000;
 
 function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-interface TokenEntry {
-  ts: number;
-  tokens: number;
+export type QuotaPeriod = "day" | "month";
+
+/** Id of the UTC calendar day or month containing `now` (e.g. "day:2026-10-19", "month:2026-10"). */
+export function quotaPeriodId(period: QuotaPeriod, now: number): string {
+  const iso = new Date(now).toISOString();
+  return period === "day" ? `day:${iso.slice(0, 10)}` : `month:${iso.slice(0, 7)}`;
+}
+
+/** Start of the next UTC day or month after `now`, when a quota resets. */
+export function quotaResetAt(period: QuotaPeriod, now: number): number {
+  const d = new Date(now);
+  return period === "day"
+    ? Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() + 1)
+    : Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 1);
+}
+
+/** Limiter state of one key, as read by a store. Timestamps are oldest first. */
+export type RateLimitState = {
+  /** Request timestamps in the last minute. */
+  requestTs: number[];
+  /** Token records in the last minute. */
+  tokenEntries: { ts: number; tokens: number }[];
+  /** Requests in flight. */
+  activeRequests: number;
+  /** Tokens used in the current UTC day and month. */
+  tokensToday: number;
+  tokensThisMonth: number;
+};
+
+export type QuotaExceeded = {
+  period: QuotaPeriod;
+  used: number;
+  limit: number;
+  resetAt: number;
+};
+
+export type RateLimitDecision =
+  | { allowed: true }
+  | { allowed: false; waitMs: number; reason: string; quota?: QuotaExceeded };
+
+/**
+ * Whether a request may start now under the limits. Stores call this with the state they read
+ * (inside their own lock or transaction) and record the request only when it is allowed.
+ */
+export function checkRateLimits(
+  state: RateLimitState,
+  limits: RateLimitConfig,
+  now: number
+): RateLimitDecision {
+  for (const [period, limit, used] of [
+    ["day", limits.tokensPerDay, state.tokensToday],
+    ["month", limits.tokensPerMonth, state.tokensThisMonth],
+  ] as const) {
+    if (limit != null && limit > 0 && used >= limit) {
+      const resetAt = quotaResetAt(period, now);
+      return {
+        allowed: false,
+        waitMs: resetAt - now,
+        reason: period === "day" ? "daily token quota" : "monthly token quota",
+        quota: { period, used, limit, resetAt },
+      };
+    }
+  }
+  const { requestsPerMinute: rpm, tokensPerMinute: tpm, maxConcurrent } = limits;
+  if (state.requestTs.length >= rpm && state.requestTs.length > 0) {
+    return {
+      allowed: false,
+      waitMs: state.requestTs[0] + RATE_LIMIT_WINDOW_MS - now,
+      reason: "requests/min",
+    };
+  }
+  const tokenSum = state.tokenEntries.reduce((s, e) => s + e.tokens, 0);
+  if (tpm != null && tpm > 0 && tokenSum >= tpm && state.tokenEntries.length > 0) {
+    return {
+      allowed: false,
+      waitMs: state.tokenEntries[0].ts + RATE_LIMIT_WINDOW_MS - now,
+      reason: "tokens/min",
+    };
+  }
+  if (maxConcurrent != null && maxConcurrent > 0 && state.activeRequests >= maxConcurrent) {
+    return { allowed: false, waitMs: CONCURRENCY_POLL_MS, reason: "concurrency" };
+  }
+  return { allowed: true };
+}
+
+/**
+ * Where limiter state lives. The default keeps it in memory; a shared store (e.g. SQLite) keeps
+ * limits across restarts and applies them to every process using it.
+ */
+export interface RateLimitStore {
+  /**
+   * Atomically check the limits for key and, when allowed, record the request and hold a
+   * concurrency slot under leaseId until release().
+   */
+  tryAcquire(
+    key: string,
+    limits: RateLimitConfig,
+    leaseId: string,
+    now: number
+  ): Promise<RateLimitDecision>;
+  release(key: string, leaseId: string): Promise<void>;
+  /** Record tokens of a completed request (per-minute window and daily/monthly quotas). */
+  recordTokens(key: string, tokens: number, now: number): Promise<void>;
 }
 
 interface KeyState {
   requestTs: number[];
-  tokenEntries: TokenEntry[];
+  tokenEntries: { ts: number; tokens: number }[];
+  leases: Set<string>;
+  /** Tokens per quota period id. */
+  quotaTokens: Map<string, number>;
+}
+
+/** In-memory store: limits apply within this process and reset on restart. */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private state = new Map<string, KeyState>();
+
+  private getState(key: string): KeyState {
+    let s = this.state.get(key);
+    if (!s) {
+      s = { requestTs: [], tokenEntries: [], leases: new Set(), quotaTokens: new Map() };
+      this.state.set(key, s);
+    }
+    return s;
+  }
+
+  private trim(key: string, state: KeyState, now: number): void {
+    const cutoff = now - RATE_LIMIT_WINDOW_MS;
+    state.requestTs = state.requestTs.filter((ts) => ts > cutoff);
+    state.tokenEntries = state.tokenEntries.filter((e) => e.ts > cutoff);
+    const current = new Set([quotaPeriodId("day", now), quotaPeriodId("month", now)]);
+    for (const period of state.quotaTokens.keys()) {
+      if (!current.has(period)) state.quotaTokens.delete(period);
+    }
+    // Drop empty keys so the Map does not grow unbounded.
+    if (
+      state.requestTs.length === 0 &&
+      state.tokenEntries.length === 0 &&
+      state.leases.size === 0 &&
+      state.quotaTokens.size === 0
+    ) {
+      this.state.delete(key);
+    }
+  }
+
+  async tryAcquire(
+    key: string,
+    limits: RateLimitConfig,
+    leaseId: string,
+    now: number
+  ): Promise<RateLimitDecision> {
+    const existing = this.state.get(key);
+    if (existing) this.trim(key, existing, now);
+    const state = this.getState(key);
+    const decision = checkRateLimits(
+      {
+        requestTs: state.requestTs,
+        tokenEntries: state.tokenEntries,
+        activeRequests: state.leases.size,
+        tokensToday: state.quotaTokens.get(quotaPeriodId("day", now)) ?? 0,
+        tokensThisMonth: state.quotaTokens.get(quotaPeriodId("month", now)) ?? 0,
+      },
+      limits,
+      now
+    );
+    if (decision.allowed) {
+      state.requestTs.push(now);
+      state.leases.add(leaseId);
+    }
+    return decision;
+  }
+
+  async release(key: string, leaseId: string): Promise<void> {
+    this.state.get(key)?.leases.delete(leaseId);
+  }
+
+  async recordTokens(key: string, tokens: number, now: number): Promise<void> {
+    if (tokens <= 0) return;
+    const state = this.getState(key);
+    state.tokenEntries.push({ ts: now, tokens });
+    for (const period of [quotaPeriodId("day", now), quotaPeriodId("month", now)]) {
+      state.quotaTokens.set(period, (state.quotaTokens.get(period) ?? 0) + tokens);
+    }
+    this.trim(key, state, now);
+  }
+}
+
+/** Thrown when a request is over its daily or monthly token quota and the config says fail. */
+export class RateLimitQuotaError extends Error {
+  readonly key: string;
+  readonly quota: QuotaExceeded;
+
+  constructor(key: string, quota: QuotaExceeded) {
+    super(
+      `${quota.period === "day" ? "Daily" : "Monthly"} token quota exceeded for ${key}: ${quota.used.toLocaleString("en-US")} of ${quota.limit.toLocaleString("en-US")} tokens used; resets at ${new Date(quota.resetAt).toISOString()}.`
+    );
+    this.name = "RateLimitQuotaError";
+    this.key = key;
+    this.quota = quota;
+  }
 }
 
 export type PendingEntry = {
@@ -24,6 +221,8 @@ export type PendingEntry = {
   key: string;
   context: LLMRequestContext;
   addedAt: number;
+  /** Limit the request is waiting on (e.g. "requests/min", "concurrency", "daily token quota") */
+  reason?: string;
 };
 
 export type DelayedEntry = {
@@ -34,92 +233,140 @@ export type DelayedEntry = {
   waitedMs: number;
 };
 
-/** In-memory sliding-window rate limiter per key. Tracks pending (waiting) and recently delayed requests for UI. */
+export type RetryingEntry = {
+  id: string;
+  key: string;
+  context: LLMRequestContext;
+  /** 1 for the first retry */
+  attempt: number;
+  maxRetries: number;
+  /** HTTP status of the failed call, when there was one */
+  status?: number;
+  error: string;
+  addedAt: number;
+  retryAt: number;
+};
+
+export type RejectedEntry = {
+  key: string;
+  context: LLMRequestContext;
+  error: string;
+  quota: QuotaExceeded;
+  rejectedAt: number;
+};
+
+/** Held while a request runs; release frees its concurrency slot. */
+export type RateLimitLease = { release: () => Promise<void> };
+
+/**
+ * Rate limiter per key over a RateLimitStore (in memory unless setStore() installs a shared
+ * one). Tracks pending (waiting), recently delayed, retrying (backing off after a failed call)
+ * and recently rejected (over quota) requests of this process for UI.
+ */
 export class RateLimiter {
-  private state = new Map<string, KeyState>();
+  private store: RateLimitStore;
   private pending = new Map<string, PendingEntry>();
   private recentDelayed: DelayedEntry[] = [];
+  private retrying = new Map<string, RetryingEntry>();
+  private recentRejected: RejectedEntry[] = [];
   private nextId = 0;
+  /** Distinguishes this process's leases in a shared store. */
+  private readonly instanceId = Math.random().toString(36).slice(2, 10);
 
-  private getState(key: string): KeyState {
-    let s = this.state.get(key);
-    if (!s) {
-      s = { requestTs: [], tokenEntries: [] };
-      this.state.set(key, s);
-    }
-    return s;
+  constructor(store: RateLimitStore = new MemoryRateLimitStore()) {
+    this.store = store;
   }
 
-  private trim(state: KeyState, now: number): void {
-    const cutoff = now - WINDOW_MS;
-    state.requestTs = state.requestTs.filter((ts) => ts > cutoff);
-    state.tokenEntries = state.tokenEntries.filter((e) => e.ts > cutoff);
+  setStore(store: RateLimitStore): void {
+    this.store = store;
   }
 
-  /** Remove key from state if both arrays are empty so the Map does not grow unbounded. */
-  private pruneIfEmpty(key: string, state: KeyState): void {
-    if (state.requestTs.length === 0 && state.tokenEntries.length === 0) {
-      this.state.delete(key);
-    }
+  getStore(): RateLimitStore {
+    return this.store;
   }
 
   /**
-   * Wait until a request is allowed under the limits. Optional context is used for queue visibility (pending/delayed).
+   * Wait until a request is allowed under the limits and hold a slot for it; release the lease
+   * when the request completes. Over a daily/monthly quota this throws RateLimitQuotaError unless
+   * limits.onQuotaExceeded is "wait". Optional context is used for queue visibility.
    */
-  async acquire(key: string, limits: RateLimitConfig, context?: LLMRequestContext): Promise<void> {
+  async acquire(
+    key: string,
+    limits: RateLimitConfig,
+    context?: LLMRequestContext
+  ): Promise<RateLimitLease> {
     const ctx = context ?? { source: "chat" as const };
     const id = `pending-${++this.nextId}`;
+    const leaseId = `${this.instanceId}-${id}`;
     const addedAt = Date.now();
-    this.pending.set(id, { id, key, context: ctx, addedAt });
     try {
-      const { requestsPerMinute: rpm, tokensPerMinute: tpm } = limits;
-      let state = this.getState(key);
-
       while (true) {
-        const now = Date.now();
-        this.trim(state, now);
-        this.pruneIfEmpty(key, state);
-        state = this.getState(key);
-
-        const atRpmLimit = state.requestTs.length >= rpm;
-        const tokenSum = state.tokenEntries.reduce((s, e) => s + e.tokens, 0);
-        const atTpmLimit = tpm != null && tpm > 0 && tokenSum >= tpm;
-
-        if (!atRpmLimit && !atTpmLimit) {
-          state.requestTs.push(now);
-          return;
+        const decision = await this.store.tryAcquire(key, limits, leaseId, Date.now());
+        if (decision.allowed) {
+          return { release: () => this.store.release(key, leaseId) };
         }
-
-        const waitForRpm =
-          atRpmLimit && state.requestTs.length > 0
-            ? state.requestTs[0] + WINDOW_MS - now
-            : Infinity;
-        const waitForTpm =
-          atTpmLimit && state.tokenEntries.length > 0
-            ? state.tokenEntries[0].ts + WINDOW_MS - now
-            : Infinity;
-        const waitMs = Math.max(0, Math.ceil(Math.min(waitForRpm, waitForTpm)));
+        if (decision.quota && limits.onQuotaExceeded !== "wait") {
+          const err = new RateLimitQuotaError(key, decision.quota);
+          this.recentRejected.push({
+            key,
+            context: ctx,
+            error: err.message,
+            quota: decision.quota,
+            rejectedAt: Date.now(),
+          });
+          if (this.recentRejected.length > RECENT_REJECTED_MAX) this.recentRejected.shift();
+          throw err;
+        }
+        this.pending.set(id, { id, key, context: ctx, addedAt, reason: decision.reason });
+        const waitMs = Math.max(0, Math.ceil(decision.waitMs));
         if (waitMs <= 0) continue;
-        await sleep(Math.min(waitMs, 5000));
+        await sleep(Math.min(waitMs, MAX_SLEEP_MS));
       }
     } finally {
-      this.pending.delete(id);
-      const waitedMs = Date.now() - addedAt;
-      if (waitedMs >= MIN_WAIT_MS) {
-        this.recentDelayed.push({ key, context: ctx, addedAt, completedAt: Date.now(), waitedMs });
-        if (this.recentDelayed.length > RECENT_DELAYED_MAX) this.recentDelayed.shift();
+      if (this.pending.delete(id)) {
+        const waitedMs = Date.now() - addedAt;
+        if (waitedMs >= MIN_WAIT_MS) {
+          this.recentDelayed.push({
+            key,
+            context: ctx,
+            addedAt,
+            completedAt: Date.now(),
+            waitedMs,
+          });
+          if (this.recentDelayed.length > RECENT_DELAYED_MAX) this.recentDelayed.shift();
+        }
       }
     }
   }
 
-  /** Call after a request completes to record token usage for TPM limiting. */
-  recordTokens(key: string, tokens: number): void {
+  /** Call after a request completes to record token usage for TPM limits and quotas. */
+  async recordTokens(key: string, tokens: number): Promise<void> {
     if (tokens <= 0) return;
-    const state = this.getState(key);
-    state.tokenEntries.push({ ts: Date.now(), tokens });
-    const now = Date.now();
-    this.trim(state, now);
-    this.pruneIfEmpty(key, state);
+    await this.store.recordTokens(key, tokens, Date.now());
+  }
+
+  /** Wait before retrying a failed request; the request is listed by getRetrying() meanwhile. */
+  async waitForRetry(
+    key: string,
+    delayMs: number,
+    retry: Pick<RetryingEntry, "attempt" | "maxRetries" | "status" | "error">,
+    context?: LLMRequestContext
+  ): Promise<void> {
+    const id = `retry-${++this.nextId}`;
+    const addedAt = Date.now();
+    this.retrying.set(id, {
+      id,
+      key,
+      context: context ?? { source: "chat" },
+      ...retry,
+      addedAt,
+      retryAt: addedAt + delayMs,
+    });
+    try {
+      await sleep(delayMs);
+    } finally {
+      this.retrying.delete(id);
+    }
   }
 
   getPending(): PendingEntry[] {
@@ -129,6 +376,14 @@ export class RateLimiter {
   getRecentDelayed(): DelayedEntry[] {
     return [...this.recentDelayed];
   }
+
+  getRetrying(): RetryingEntry[] {
+    return Array.from(this.retrying.values());
+  }
+
+  getRecentRejected(): RejectedEntry[] {
+    return [...this.recentRejected];
+  }
 }
 
 let defaultLimiter: RateLimiter | null = null;
@@ -5,6 +5,14 @@ export interface RateLimitConfig {
   requestsPerMinute: number;
   /** Max tokens per minute (input + output, sliding window). Omit for no TPM cap. */
   tokensPerMinute?: number;
+  /** Max requests in flight at once. Omit for no cap. */
+  maxConcurrent?: number;
+  /** Max tokens per UTC calendar day. Omit for no quota. */
+  tokensPerDay?: number;
+  /** Max tokens per UTC calendar month. Omit for no quota. */
+  tokensPerMonth?: number;
+  /** Over a daily/monthly quota: fail the request (default) or wait until the quota resets. */
+  onQuotaExceeded?: "fail" | "wait";
 }
 
 /**
@@ -34,7 +42,7 @@ export interface LLMConfigWithId {
   model: string;
   apiKeyRef?: string;
   endpoint?: string;
-  extra?: { rateLimit?: RateLimitConfig } & Record<string, unknown>;
+  extra?: { rateLimit?: Partial<RateLimitConfig> } & Record<string, unknown>;
 }
 
 export function getRateLimitForConfig(config: LLMConfigWithId): RateLimitConfig {
@@ -43,5 +51,9 @@ export function getRateLimitForConfig(config: LLMConfigWithId): RateLimitConfig
   return {
     requestsPerMinute: custom?.requestsPerMinute ?? defaults.requestsPerMinute,
     tokensPerMinute: custom?.tokensPerMinute ?? defaults.tokensPerMinute,
+    ...(custom?.maxConcurrent != null && { maxConcurrent: custom.maxConcurrent }),
+    ...(custom?.tokensPerDay != null && { tokensPerDay: custom.tokensPerDay }),
+    ...(custom?.tokensPerMonth != null && { tokensPerMonth: custom.tokensPerMonth }),
+    ...(custom?.onQuotaExceeded && { onQuotaExceeded: custom.onQuotaExceeded }),
   };
 }
@@ -0,0 +1,101 @@
+import type { LLMConfigWithId } from "./rate-limits";
+
+/** Thrown by providers for a non-2xx response; status and Retry-After drive retries. */
+export class LLMRequestError extends Error {
+  readonly status: number;
+  /** Delay the provider asked for (Retry-After header), in ms. */
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, status: number, retryAfterMs?: number) {
+    super(message);
+    this.name = "LLMRequestError";
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export interface RetryPolicy {
+  /** Retries after the first attempt (0 disables retrying). */
+  maxRetries: number;
+  /** Delay before the first retry; doubled for each further retry. */
+  initialDelayMs: number;
+  /** Cap for a single delay. A longer Retry-After skips the remaining retries. */
+  maxDelayMs: number;
+  /** HTTP statuses worth retrying. Network errors (no status) are always retried. */
+  retryOn: number[];
+}
+
+/**
+ * Defaults: 408 timeout, 409 conflict, 425 too early, 429 rate limited, 5xx server errors and
+ * 529 (Anthropic overloaded). Users can override per LLM config (extra.retry).
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  initialDelayMs: 1000,
+  maxDelayMs: 30_000,
+  retryOn: [408, 409, 425, 429, 500, 502, 503, 504, 529],
+};
+
+export function getRetryPolicyForConfig(config: LLMConfigWithId): RetryPolicy {
+  const custom = config.extra?.retry as Partial<RetryPolicy> | undefined;
+  return {
+    maxRetries: custom?.maxRetries ?? DEFAULT_RETRY_POLICY.maxRetries,
+    initialDelayMs: custom?.initialDelayMs ?? DEFAULT_RETRY_POLICY.initialDelayMs,
+    maxDelayMs: custom?.maxDelayMs ?? DEFAULT_RETRY_POLICY.maxDelayMs,
+    retryOn: Array.isArray(custom?.retryOn) ? custom.retryOn : DEFAULT_RETRY_POLICY.retryOn,
+  };
+}
+
+/** Ordered LLM config ids to try when this config fails (extra.fallbackLlmConfigIds). */
+export function getFallbackConfigIds(config: LLMConfigWithId): string[] {
+  const ids = config.extra?.fallbackLlmConfigIds;
+  return Array.isArray(ids) ? ids.filter((id): id is string => typeof id === "string") : [];
+}
+
+/** Retry-After header (seconds or HTTP date) in ms; undefined when missing or invalid. */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * HTTP status of a provider error: LLMRequestError.status, or statusCode/status set by SDK
+ * errors. Undefined for network errors.
+ */
+export function errorStatus(err: unknown): number | undefined {
+  if (!err || typeof err !== "object") return undefined;
+  const e = err as { status?: unknown; statusCode?: unknown };
+  const status = e.status ?? e.statusCode;
+  return typeof status === "number" ? status : undefined;
+}
+
+function errorRetryAfterMs(err: unknown): number | undefined {
+  if (err instanceof LLMRequestError) return err.retryAfterMs;
+  const headers = (err as { headers?: unknown } | null)?.headers;
+  return headers instanceof Headers ? parseRetryAfter(headers.get("retry-after")) : undefined;
+}
+
+/**
+ * Errors with a status are retryable when the policy lists it; errors without one are network
+ * failures (fetch failed, connection reset) and retryable too. Configuration errors (missing API
+ * key or endpoint) are thrown before any request and carry no status, so they are excluded.
+ */
+export function isRetryableError(err: unknown, policy: RetryPolicy): boolean {
+  const status = errorStatus(err);
+  if (status != null) return policy.retryOn.includes(status);
+  return err instanceof TypeError || /fetch failed|ECONNRESET|ETIMEDOUT|socket/i.test(String(err));
+}
+
+/**
+ * Delay before retry number `retry` (0-based): Retry-After when the provider sent one, else
+ * exponential backoff with jitter. Undefined when Retry-After exceeds maxDelayMs.
+ */
+export function retryDelayMs(retry: number, policy: RetryPolicy, err: unknown): number | undefined {
+  const retryAfter = errorRetryAfterMs(err);
+  if (retryAfter != null) return retryAfter <= policy.maxDelayMs ? retryAfter : undefined;
+  const backoff = Math.min(policy.maxDelayMs, policy.initialDelayMs * 2 ** retry);
+  return Math.round(backoff / 2 + (Math.random() * backoff) / 2);
+}
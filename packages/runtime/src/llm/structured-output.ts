@@ -0,0 +1,141 @@
+import type { LLMResponseFormat } from "./types";
+
+/** JSON schema of a response format ({ type: "object" } for plain JSON mode). */
+export function responseFormatSchema(format: LLMResponseFormat): Record<string, unknown> {
+  return format.type === "json_schema" ? format.schema : { type: "object" };
+}
+
+/** Prompt instruction for providers that cannot enforce the format themselves. */
+export function structuredOutputInstruction(format: LLMResponseFormat): string {
+  if (format.type === "json_object") {
+    return "Respond with a single JSON object only: no prose, no code fences.";
+  }
+  return `Respond with a single JSON value only (no prose, no code fences) that matches this JSON schema:\n${JSON.stringify(format.schema)}`;
+}
+
+/**
+ * Parse model output as JSON: the whole text, the body of a ```json fence, or the outermost
+ * {...} / [...] span. Returns undefined when none of them parse.
+ */
+export function parseJsonOutput(text: string): { value: unknown } | undefined {
+  const trimmed = text.trim();
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/i)?.[1];
+  const candidates = [trimmed, fenced];
+  for (const [open, close] of [
+    ["{", "}"],
+    ["[", "]"],
+  ]) {
+    const start = trimmed.indexOf(open);
+    const end = trimmed.lastIndexOf(close);
+    if (start >= 0 && end > start) candidates.push(trimmed.slice(start, end + 1));
+  }
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    try {
+      return { value: JSON.parse(candidate) as unknown };
+    } catch {
+      // try the next candidate
+    }
+  }
+  return undefined;
+}
+
+function jsonType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value;
+}
+
+/**
+ * Validate a value against the common subset of JSON schema used for model output (type, enum,
+ * const, properties, required, additionalProperties: false, items, min/maxItems, min/maxLength,
+ * minimum/maximum, anyOf/oneOf).
+ * Returns one message per violation, prefixed with its path; empty when valid.
+ */
+export function validateJsonSchema(value: unknown, schema: unknown, path = "$"): string[] {
+  if (!schema || typeof schema !== "object") return [];
+  const s = schema as Record<string, unknown>;
+  const errors: string[] = [];
+  const actual = jsonType(value);
+
+  if (s.type !== undefined) {
+    const types = Array.isArray(s.type) ? (s.type as string[]) : [s.type as string];
+    const matches = types.some((t) => t === actual || (t === "number" && actual === "integer"));
+    if (!matches) return [`${path}: expected ${types.join(" or ")}, got ${actual}`];
+  }
+  if (Array.isArray(s.enum) && !s.enum.some((e) => JSON.stringify(e) === JSON.stringify(value))) {
+    errors.push(`${path}: must be one of ${JSON.stringify(s.enum)}`);
+  }
+  if ("const" in s && JSON.stringify(s.const) !== JSON.stringify(value)) {
+    errors.push(`${path}: must be ${JSON.stringify(s.const)}`);
+  }
+  for (const key of ["anyOf", "oneOf"] as const) {
+    const options = s[key];
+    if (Array.isArray(options) && !options.some((o) => validateJsonSchema(value, o).length === 0)) {
+      errors.push(`${path}: does not match any allowed schema`);
+    }
+  }
+
+  if (actual === "object") {
+    const obj = value as Record<string, unknown>;
+    const properties = (s.properties ?? {}) as Record<string, unknown>;
+    for (const key of Array.isArray(s.required) ? (s.required as string[]) : []) {
+      if (!(key in obj)) errors.push(`${path}.${key}: is required`);
+    }
+    for (const [key, v] of Object.entries(obj)) {
+      if (key in properties) {
+        errors.push(...validateJsonSchema(v, properties[key], `${path}.${key}`));
+      } else if (s.additionalProperties === false) {
+        errors.push(`${path}.${key}: is not allowed`);
+      } else if (s.additionalProperties && typeof s.additionalProperties === "object") {
+        errors.push(...validateJsonSchema(v, s.additionalProperties, `${path}.${key}`));
+      }
+    }
+  }
+
+  if (actual === "string") {
+    const str = value as string;
+    if (typeof s.minLength === "number" && str.length < s.minLength) {
+      errors.push(`${path}: must be at least ${s.minLength} characters`);
+    }
+    if (typeof s.maxLength === "number" && str.length > s.maxLength) {
+      errors.push(`${path}: must be at most ${s.maxLength} characters`);
+    }
+  }
+
+  if (actual === "number" || actual === "integer") {
+    const num = value as number;
+    if (typeof s.minimum === "number" && num < s.minimum) {
+      errors.push(`${path}: must be >= ${s.minimum}`);
+    }
+    if (typeof s.maximum === "number" && num > s.maximum) {
+      errors.push(`${path}: must be <= ${s.maximum}`);
+    }
+  }
+
+  if (actual === "array") {
+    const arr = value as unknown[];
+    if (typeof s.minItems === "number" && arr.length < s.minItems) {
+      errors.push(`${path}: must have at least ${s.minItems} items`);
+    }
+    if (typeof s.maxItems === "number" && arr.length > s.maxItems) {
+      errors.push(`${path}: must have at most ${s.maxItems} items`);
+    }
+    if (s.items && typeof s.items === "object") {
+      arr.forEach((item, i) => errors.push(...validateJsonSchema(item, s.items, `${path}[${i}]`)));
+    }
+  }
+  return errors;
+}
+
+/** Parse model output and validate it against the response format; errors explain what is wrong. */
+export function checkStructuredOutput(
+  text: string,
+  format: LLMResponseFormat
+): { value: unknown; errors: [] } | { value?: undefined; errors: string[] } {
+  const parsed = parseJsonOutput(text);
+  if (!parsed) return { errors: ["output is not valid JSON"] };
+  const errors = validateJsonSchema(parsed.value, responseFormatSchema(format));
+  return errors.length === 0 ? { value: parsed.value, errors: [] } : { errors };
+}
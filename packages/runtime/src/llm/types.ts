@@ -1,8 +1,18 @@
 import type { LLMConfig, LLMProvider } from "@agentron-studio/core";
 
+/**
+ * Part of a multimodal message. Images and files carry base64 data (with mimeType) or a URL;
+ * providers that cannot take a part type receive a short text placeholder instead.
+ */
+export type LLMContentPart =
+  | { type: "text"; text: string }
+  | { type: "image"; mimeType?: string; data?: string; url?: string }
+  | { type: "file"; mimeType: string; name?: string; data?: string; url?: string };
+
 export type LLMMessage = {
   role: "system" | "user" | "assistant" | "tool";
-  content: string;
+  /** Plain text, or text/image/file parts for models that accept them */
+  content: string | LLMContentPart[];
   /** For assistant messages with tool calls; tool messages must have toolCallId */
   toolCallId?: string;
   /** Assistant message that requested tool calls */
@@ -19,6 +29,14 @@ export type LLMToolDef = {
   };
 };
 
+/**
+ * Ask for JSON output: any JSON object, or one matching a JSON schema (name identifies the schema
+ * to the provider). Providers without native support get the schema as an instruction instead.
+ */
+export type LLMResponseFormat =
+  | { type: "json_object" }
+  | { type: "json_schema"; name: string; schema: Record<string, unknown>; strict?: boolean };
+
 export type LLMRequest = {
   messages: LLMMessage[];
   temperature?: number;
@@ -26,6 +44,8 @@ export type LLMRequest = {
   topP?: number;
   /** Tool definitions for function calling; when provided, the model may return tool_calls instead of content */
   tools?: LLMToolDef[];
+  /** Request JSON output; the parsed value is returned in LLMResponse.parsed */
+  responseFormat?: LLMResponseFormat;
 };
 
 export type LLMToolCall = {
@@ -46,17 +66,58 @@ export type LLMUsage = {
   promptTokens: number;
   completionTokens: number;
   totalTokens: number;
+  /** Prompt tokens served from the provider's prompt cache (included in promptTokens) */
+  cacheReadTokens?: number;
+  /** Prompt tokens written to the provider's prompt cache (included in promptTokens) */
+  cacheCreationTokens?: number;
 };
 
+/** Why the model stopped: natural end, token limit, to call tools, or refused/filtered. */
+export type LLMFinishReason = "stop" | "length" | "tool_calls" | "content_filter";
+
 export type LLMResponse = {
   id: string;
   content: string;
   /** When the model chose to call tools instead of or in addition to content */
   toolCalls?: LLMToolCall[];
   usage?: LLMUsage;
+  finishReason?: LLMFinishReason;
+  /** Content parsed as JSON (and valid against the schema) when the request had a responseFormat */
+  parsed?: unknown;
+  /** Config that produced the response, set by LLMManager (a fallback when the requested one failed) */
+  servedBy?: LLMServedBy;
+  /** Calls that failed before this response (retries and fallbacks), set by LLMManager */
+  failedAttempts?: LLMFailedAttempt[];
   raw: unknown;
 };
 
+export type LLMServedBy = {
+  provider: LLMProvider;
+  model: string;
+  llmConfigId?: string;
+  /** True when a fallback config answered instead of the requested one */
+  fallback: boolean;
+};
+
+export type LLMFailedAttempt = {
+  provider: LLMProvider;
+  model: string;
+  llmConfigId?: string;
+  /** HTTP status, when the provider returned one */
+  status?: number;
+  error: string;
+};
+
+/**
+ * Incremental output of a streamed chat call: text deltas, tool-call argument deltas (index is
+ * the tool call's position in the response; id and name arrive with its first delta), and a
+ * final "done" event carrying the complete response.
+ */
+export type LLMStreamEvent =
+  | { type: "content"; delta: string }
+  | { type: "tool_call"; index: number; id?: string; name?: string; argumentsDelta: string }
+  | { type: "done"; response: LLMResponse };
+
 export type ResolvedLLMConfig = LLMConfig & {
   apiKey?: string;
 };
@@ -64,5 +125,9 @@ export type ResolvedLLMConfig = LLMConfig & {
 export type LLMProviderAdapter = {
   provider: LLMProvider;
   chat: (config: ResolvedLLMConfig, request: LLMRequest) => Promise<LLMResponse>;
+  /** Streams the same call as chat; the last event is "done" with the full response. */
+  chatStream?: (config: ResolvedLLMConfig, request: LLMRequest) => AsyncIterable<LLMStreamEvent>;
+  /** The provider maps responseFormat to its own structured output; others get the schema in the prompt. */
+  structuredOutput?: boolean;
   validateConfig?: (config: ResolvedLLMConfig) => Promise<void>;
 };
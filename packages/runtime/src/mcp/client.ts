@@ -5,49 +5,386 @@ export type MCPToolCall = {
   input: unknown;
 };
 
+/**
+ * How to reach an MCP server: Streamable HTTP (default), legacy HTTP+SSE, or a local process
+ * spoken to over stdio (e.g. `npx -y @modelcontextprotocol/server-filesystem /data`).
+ */
+export type MCPServerConfig =
+  | { transport?: "streamable-http"; url: string; headers?: Record<string, string> }
+  | { transport: "sse"; url: string; headers?: Record<string, string> }
+  | {
+      transport: "stdio";
+      command: string;
+      args?: string[];
+      /** Added to the safe default environment (PATH, HOME, …) the process inherits. */
+      env?: Record<string, string>;
+      cwd?: string;
+    };
+
+/** A tool as listed by the server: name, description and JSON Schemas. */
+export type MCPToolInfo = {
+  name: string;
+  title?: string;
+  description?: string;
+  inputSchema: Record<string, unknown>;
+  outputSchema?: Record<string, unknown>;
+  annotations?: Record<string, unknown>;
+};
+
+/** A resource as listed by the server (a file, document, record, ...). */
+export type MCPResourceInfo = {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+};
+
+/** Contents of a resource: text, or binary data as base64 in blob. */
+export type MCPResourceContent = {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+};
+
+/** A prompt as listed by the server, with the arguments it takes. */
+export type MCPPromptInfo = {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments?: { name: string; description?: string; required?: boolean }[];
+};
+
+/** A rendered prompt message. Embedded text resources are inlined; images and audio are dropped. */
+export type MCPPromptMessage = {
+  role: "user" | "assistant";
+  text: string;
+};
+
 /** Transport interface compatible with MCP Client.connect() */
 type MCPTransport = {
   start(): Promise<void>;
   close(): Promise<void>;
   send(message: unknown): Promise<void>;
+  onclose?: () => void;
+  stderr?: NodeJS.ReadableStream | null;
 };
 
-async function createStreamableTransport(url: URL): Promise<MCPTransport> {
+/** Lines of stdio server stderr kept for error messages. */
+const STDERR_TAIL_LINES = 20;
+
+async function createStreamableTransport(
+  url: URL,
+  headers?: Record<string, string>
+): Promise<MCPTransport> {
   // SDK subpath has no bundled type declarations; use type assertion
   // eslint-disable-next-line @typescript-eslint/no-require-imports
   const mod = require("@modelcontextprotocol/sdk/client/streamableHttp") as {
-    StreamableHTTPClientTransport: new (url: URL) => MCPTransport;
+    StreamableHTTPClientTransport: new (
+      url: URL,
+      opts?: { requestInit?: { headers?: Record<string, string> } }
+    ) => MCPTransport;
   };
-  return new mod.StreamableHTTPClientTransport(url);
+  return new mod.StreamableHTTPClientTransport(url, headers ? { requestInit: { headers } } : {});
+}
+
+async function createSseTransport(
+  url: URL,
+  headers?: Record<string, string>
+): Promise<MCPTransport> {
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const mod = require("@modelcontextprotocol/sdk/client/sse") as {
+    SSEClientTransport: new (
+      url: URL,
+      opts?: { requestInit?: { headers?: Record<string, string> } }
+    ) => MCPTransport;
+  };
+  return new mod.SSEClientTransport(url, headers ? { requestInit: { headers } } : {});
+}
+
+async function createStdioTransport(
+  config: Extract<MCPServerConfig, { transport: "stdio" }>
+): Promise<MCPTransport> {
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const mod = require("@modelcontextprotocol/sdk/client/stdio") as {
+    StdioClientTransport: new (params: {
+      command: string;
+      args?: string[];
+      env?: Record<string, string>;
+      cwd?: string;
+      stderr?: "pipe";
+    }) => MCPTransport;
+  };
+  return new mod.StdioClientTransport({
+    command: config.command,
+    args: config.args ?? [],
+    env: config.env,
+    cwd: config.cwd,
+    stderr: "pipe",
+  });
+}
+
+/** Accepts a bare endpoint URL (Streamable HTTP) or a full server config. */
+export function normalizeMCPServerConfig(server: string | MCPServerConfig): MCPServerConfig {
+  return typeof server === "string" ? { transport: "streamable-http", url: server } : server;
+}
+
+/** Stable key of a server config (used to share one connection/process per server). */
+export function mcpServerKey(server: string | MCPServerConfig): string {
+  const config = normalizeMCPServerConfig(server);
+  if (config.transport === "stdio") {
+    return JSON.stringify([
+      "stdio",
+      config.command,
+      config.args ?? [],
+      config.cwd ?? "",
+      Object.entries(config.env ?? {}).sort(),
+    ]);
+  }
+  return JSON.stringify([config.transport ?? "streamable-http", config.url]);
 }
 
 export class MCPClient {
   private client?: Client;
   private transport?: MCPTransport;
+  private connecting?: Promise<void>;
+  private stderrTail: string[] = [];
+  private readonly config: MCPServerConfig;
+
+  constructor(server: string | MCPServerConfig) {
+    this.config = normalizeMCPServerConfig(server);
+  }
+
+  /** Whether a connection (and, for stdio, a server process) is open. */
+  get connected(): boolean {
+    return this.client != null;
+  }
 
-  constructor(private endpoint: string) {}
+  private async openTransport(): Promise<MCPTransport> {
+    const config = this.config;
+    if (config.transport === "stdio") return createStdioTransport(config);
+    if (config.transport === "sse") return createSseTransport(new URL(config.url), config.headers);
+    return createStreamableTransport(new URL(config.url), config.headers);
+  }
 
   private async connect() {
-    if (this.client) {
-      return;
+    if (this.client) return;
+    if (!this.connecting) {
+      this.connecting = (async () => {
+        const client = new Client({ name: "agentron-studio", version: "0.1.0" });
+        const transport = await this.openTransport();
+        transport.stderr?.on("data", (chunk: Buffer | string) => {
+          const lines = String(chunk).split("\n").filter(Boolean);
+          this.stderrTail = [...this.stderrTail, ...lines].slice(-STDERR_TAIL_LINES);
+        });
+        try {
+          await client.connect(transport);
+        } catch (err) {
+          await transport.close().catch(() => {});
+          throw this.withStderr(err);
+        }
+        // A crashed or exited server process is reconnected (respawned) on the next call.
+        const onclose = transport.onclose;
+        transport.onclose = () => {
+          onclose?.();
+          if (this.transport === transport) {
+            this.client = undefined;
+            this.transport = undefined;
+          }
+        };
+        this.client = client;
+        this.transport = transport;
+      })().finally(() => {
+        this.connecting = undefined;
+      });
+    }
+    await this.connecting;
+  }
+
+  /** Adds the stdio server's last stderr lines to an error (why a process failed to start). */
+  private withStderr(err: unknown): Error {
+    const message = err instanceof Error ? err.message : String(err);
+    if (this.config.transport !== "stdio" || this.stderrTail.length === 0) {
+      return err instanceof Error ? err : new Error(message);
     }
-    this.client = new Client({ name: "agentron-studio", version: "0.1.0" });
-    this.transport = await createStreamableTransport(new URL(this.endpoint));
-    await this.client.connect(this.transport);
+    return new Error(`${message}\n${this.stderrTail.join("\n")}`);
   }
 
-  async listTools(): Promise<string[]> {
+  /** All tools of the server (following pagination) with their descriptions and schemas. */
+  async listTools(): Promise<MCPToolInfo[]> {
     await this.connect();
-    const result = await this.client!.listTools();
-    return result.tools.map((tool) => tool.name);
+    const tools: MCPToolInfo[] = [];
+    let cursor: string | undefined;
+    do {
+      const result = await this.client!.listTools(cursor ? { cursor } : undefined);
+      for (const tool of result.tools) {
+        tools.push({
+          name: tool.name,
+          ...(tool.title && { title: tool.title }),
+          ...(tool.description && { description: tool.description }),
+          inputSchema: (tool.inputSchema ?? { type: "object" }) as Record<string, unknown>,
+          ...(tool.outputSchema && { outputSchema: tool.outputSchema as Record<string, unknown> }),
+          ...(tool.annotations && { annotations: tool.annotations as Record<string, unknown> }),
+        });
+      }
+      cursor = result.nextCursor;
+    } while (cursor);
+    return tools;
+  }
+
+  /** All resources of the server (following pagination); none when it has no resources. */
+  async listResources(): Promise<MCPResourceInfo[]> {
+    await this.connect();
+    if (!this.client!.getServerCapabilities()?.resources) return [];
+    const resources: MCPResourceInfo[] = [];
+    let cursor: string | undefined;
+    do {
+      const result = await this.client!.listResources(cursor ? { cursor } : undefined);
+      for (const resource of result.resources) {
+        resources.push({
+          uri: resource.uri,
+          name: resource.name,
+          ...(resource.title && { title: resource.title }),
+          ...(resource.description && { description: resource.description }),
+          ...(resource.mimeType && { mimeType: resource.mimeType }),
+        });
+      }
+      cursor = result.nextCursor;
+    } while (cursor);
+    return resources;
+  }
+
+  async readResource(uri: string): Promise<MCPResourceContent[]> {
+    await this.connect();
+    try {
+      const result = await this.client!.readResource({ uri });
+      return result.contents.map((content) => ({
+        uri: content.uri,
+        ...(content.mimeType && { mimeType: content.mimeType }),
+        ...("text" in content && { text: content.text }),
+        ...("blob" in content && { blob: content.blob }),
+      }));
+    } catch (err) {
+      throw this.withStderr(err);
+    }
+  }
+
+  /** All prompts of the server (following pagination); none when it has no prompts. */
+  async listPrompts(): Promise<MCPPromptInfo[]> {
+    await this.connect();
+    if (!this.client!.getServerCapabilities()?.prompts) return [];
+    const prompts: MCPPromptInfo[] = [];
+    let cursor: string | undefined;
+    do {
+      const result = await this.client!.listPrompts(cursor ? { cursor } : undefined);
+      for (const prompt of result.prompts) {
+        prompts.push({
+          name: prompt.name,
+          ...(prompt.title && { title: prompt.title }),
+          ...(prompt.description && { description: prompt.description }),
+          ...(prompt.arguments && {
+            arguments: prompt.arguments.map((arg) => ({
+              name: arg.name,
+              ...(arg.description && { description: arg.description }),
+              ...(arg.required != null && { required: arg.required }),
+            })),
+          }),
+        });
+      }
+      cursor = result.nextCursor;
+    } while (cursor);
+    return prompts;
+  }
+
+  /** Renders a prompt with the given arguments into its text messages. */
+  async getPrompt(
+    name: string,
+    args: Record<string, string> = {}
+  ): Promise<{ description?: string; messages: MCPPromptMessage[] }> {
+    await this.connect();
+    try {
+      const result = await this.client!.getPrompt({ name, arguments: args });
+      const messages: MCPPromptMessage[] = [];
+      for (const message of result.messages) {
+        const content = message.content;
+        const text =
+          content.type === "text"
+            ? content.text
+            : content.type === "resource" && "text" in content.resource
+              ? content.resource.text
+              : undefined;
+        if (typeof text === "string") messages.push({ role: message.role, text });
+      }
+      return { ...(result.description && { description: result.description }), messages };
+    } catch (err) {
+      throw this.withStderr(err);
+    }
   }
 
   async callTool(call: MCPToolCall): Promise<unknown> {
     await this.connect();
-    const result = await this.client!.callTool({
-      name: call.toolName,
-      arguments: (call.input ?? {}) as Record<string, unknown>,
+    try {
+      return await this.client!.callTool({
+        name: call.toolName,
+        arguments: (call.input ?? {}) as Record<string, unknown>,
+      });
+    } catch (err) {
+      throw this.withStderr(err);
+    }
+  }
+
+  /** Closes the connection; a stdio server process is terminated. */
+  async close(): Promise<void> {
+    const client = this.client;
+    this.client = undefined;
+    this.transport = undefined;
+    await client?.close();
+  }
+}
+
+/** Idle time after which a pooled stdio server process is stopped. */
+const POOL_IDLE_MS = 5 * 60 * 1000;
+
+const pool = new Map<string, { client: MCPClient; idleTimer?: ReturnType<typeof setTimeout> }>();
+let exitHookInstalled = false;
+
+/**
+ * Shared client for a server. Stdio servers are spawned once and reused across calls, stopped after
+ * POOL_IDLE_MS without use and when this process exits; a crashed process is respawned on the
+ * next call. HTTP/SSE servers are pooled the same way to keep their sessions.
+ */
+export function getMCPClient(server: string | MCPServerConfig): MCPClient {
+  const key = mcpServerKey(server);
+  let entry = pool.get(key);
+  if (!entry) {
+    entry = { client: new MCPClient(server) };
+    pool.set(key, entry);
+  }
+  if (entry.idleTimer) clearTimeout(entry.idleTimer);
+  const pooled = entry;
+  pooled.idleTimer = setTimeout(() => {
+    pool.delete(key);
+    void pooled.client.close().catch(() => {});
+  }, POOL_IDLE_MS);
+  pooled.idleTimer.unref?.();
+  if (!exitHookInstalled) {
+    exitHookInstalled = true;
+    process.once("exit", () => {
+      for (const { client } of pool.values()) void client.close().catch(() => {});
     });
-    return result;
   }
+  return pooled.client;
+}
+
+/** Closes every pooled client (stopping stdio server processes). */
+export async function closeAllMCPClients(): Promise<void> {
+  const entries = [...pool.values()];
+  pool.clear();
+  await Promise.all(
+    entries.map(({ client, idleTimer }) => {
+      if (idleTimer) clearTimeout(idleTimer);
+      return client.close().catch(() => {});
+    })
+  );
 }
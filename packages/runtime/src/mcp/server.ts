@@ -1,37 +1,213 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp";
+import { Server } from "@modelcontextprotocol/sdk/server";
+import { WebStandardStreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp";
 import { createMcpExpressApp } from "@modelcontextprotocol/sdk/server/express";
-import * as z from "zod/v4";
+import {
+  CallToolRequestSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import type {
+  MCPPromptInfo,
+  MCPPromptMessage,
+  MCPResourceContent,
+  MCPResourceInfo,
+} from "./client";
 
 export type MCPToolHandler = (input: unknown) => Promise<unknown>;
 
-export class MCPServer {
-  private server: McpServer;
+/** A tool published by the server; inputSchema/outputSchema are JSON Schemas. */
+export type MCPServerTool = {
+  name: string;
+  title?: string;
+  description?: string;
+  inputSchema?: Record<string, unknown>;
+  outputSchema?: Record<string, unknown>;
+  handler: MCPToolHandler;
+};
 
-  constructor() {
-    this.server = new McpServer({ name: "agentron-studio", version: "0.1.0" });
-  }
+/** A resource published by the server; read returns its text or full contents. */
+export type MCPServerResource = MCPResourceInfo & {
+  read: () => Promise<string | MCPResourceContent[]>;
+};
+
+/** A prompt published by the server; render returns its text or messages for the arguments. */
+export type MCPServerPrompt = MCPPromptInfo & {
+  render: (args: Record<string, string>) => Promise<string | MCPPromptMessage[]>;
+};
+
+/**
+ * Source of tools, resources and prompts listed on every request (e.g. read from a database), so
+ * the published catalog follows changes without re-registering.
+ */
+export type MCPServerCatalog = {
+  tools?: () => Promise<MCPServerTool[]>;
+  resources?: () => Promise<MCPServerResource[]>;
+  prompts?: () => Promise<MCPServerPrompt[]>;
+};
+
+const OBJECT_SCHEMA = { type: "object" } as const;
 
-  registerTool(name: string, handler: MCPToolHandler) {
-    this.server.registerTool(
-      name,
+function toolResult(output: unknown) {
+  const structured =
+    output != null && typeof output === "object" && !Array.isArray(output)
+      ? (output as Record<string, unknown>)
+      : undefined;
+  return {
+    content: [
       {
-        description: `AgentOS tool ${name}`,
-        inputSchema: z.any(),
+        type: "text" as const,
+        text: typeof output === "string" ? output : JSON.stringify(output ?? {}),
       },
-      async (input) => {
-        const output = await handler(input);
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(output ?? {}),
-            },
-          ],
-          structuredContent: output ?? {},
-        };
+    ],
+    ...(structured && { structuredContent: structured }),
+  };
+}
+
+/**
+ * MCP server publishing tools, resources and prompts, registered statically or provided by a
+ * catalog. Serves stateless Streamable HTTP: a fresh protocol server per request, either from a
+ * web Request (handleWebRequest, for route handlers) or from an Express app (createExpressApp).
+ */
+export class MCPServer {
+  private readonly tools = new Map<string, MCPServerTool>();
+  private readonly resources = new Map<string, MCPServerResource>();
+  private readonly prompts = new Map<string, MCPServerPrompt>();
+
+  constructor(
+    private readonly catalog: MCPServerCatalog = {},
+    private readonly info: { name: string; version: string } = {
+      name: "agentron-studio",
+      version: "0.1.0",
+    }
+  ) {}
+
+  registerTool(
+    name: string,
+    handler: MCPToolHandler,
+    options: Omit<MCPServerTool, "name" | "handler"> = {}
+  ) {
+    this.tools.set(name, { name, handler, ...options });
+  }
+
+  registerResource(resource: MCPServerResource) {
+    this.resources.set(resource.uri, resource);
+  }
+
+  registerPrompt(prompt: MCPServerPrompt) {
+    this.prompts.set(prompt.name, prompt);
+  }
+
+  private async listTools(): Promise<MCPServerTool[]> {
+    return [...this.tools.values(), ...((await this.catalog.tools?.()) ?? [])];
+  }
+
+  private async listResources(): Promise<MCPServerResource[]> {
+    return [...this.resources.values(), ...((await this.catalog.resources?.()) ?? [])];
+  }
+
+  private async listPrompts(): Promise<MCPServerPrompt[]> {
+    return [...this.prompts.values(), ...((await this.catalog.prompts?.()) ?? [])];
+  }
+
+  /** Protocol server answering from the registries and the catalog. */
+  private createProtocolServer(): Server {
+    const server = new Server(this.info, {
+      capabilities: { tools: {}, resources: {}, prompts: {} },
+    });
+
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: (await this.listTools()).map((tool) => ({
+        name: tool.name,
+        ...(tool.title && { title: tool.title }),
+        description: tool.description ?? `Agentron tool ${tool.name}`,
+        inputSchema: (tool.inputSchema ?? OBJECT_SCHEMA) as { type: "object" },
+        ...(tool.outputSchema && { outputSchema: tool.outputSchema as { type: "object" } }),
+      })),
+    }));
+
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const tool = (await this.listTools()).find((t) => t.name === request.params.name);
+      if (!tool) {
+        throw new McpError(ErrorCode.InvalidParams, `Tool not found: ${request.params.name}`);
+      }
+      try {
+        return toolResult(await tool.handler(request.params.arguments ?? {}));
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        return { content: [{ type: "text" as const, text: message }], isError: true };
+      }
+    });
+
+    server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+      resources: (await this.listResources()).map(({ read: _read, ...info }) => info),
+    }));
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+      const resource = (await this.listResources()).find((r) => r.uri === uri);
+      if (!resource) throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri}`);
+      const contents = await resource.read();
+      return {
+        contents:
+          typeof contents === "string"
+            ? [{ uri, mimeType: resource.mimeType ?? "text/plain", text: contents }]
+            : contents.map(({ blob, text, ...content }) =>
+                blob != null ? { ...content, blob } : { ...content, text: text ?? "" }
+              ),
+      };
+    });
+
+    server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: (await this.listPrompts()).map(({ render: _render, ...info }) => info),
+    }));
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name } = request.params;
+      const prompt = (await this.listPrompts()).find((p) => p.name === name);
+      if (!prompt) throw new McpError(ErrorCode.InvalidParams, `Prompt not found: ${name}`);
+      const args = request.params.arguments ?? {};
+      const missing = (prompt.arguments ?? []).filter((a) => a.required && args[a.name] == null);
+      if (missing.length > 0) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Missing required prompt arguments: ${missing.map((a) => a.name).join(", ")}`
+        );
       }
-    );
+      const rendered = await prompt.render(args);
+      const messages: MCPPromptMessage[] =
+        typeof rendered === "string" ? [{ role: "user", text: rendered }] : rendered;
+      return {
+        ...(prompt.description && { description: prompt.description }),
+        messages: messages.map((m) => ({
+          role: m.role,
+          content: { type: "text" as const, text: m.text },
+        })),
+      };
+    });
+
+    return server;
+  }
+
+  /** Answers one Streamable HTTP request (POST/GET/DELETE) with a web Response. */
+  async handleWebRequest(request: Request): Promise<Response> {
+    const server = this.createProtocolServer();
+    const transport = new WebStandardStreamableHTTPServerTransport({
+      sessionIdGenerator: undefined,
+      enableJsonResponse: true,
+    });
+    await server.connect(transport);
+    try {
+      return await transport.handleRequest(request);
+    } finally {
+      // JSON responses are complete when returned; the per-request server is not reused.
+      await server.close().catch(() => {});
+    }
   }
 
   createExpressApp() {
@@ -46,14 +222,15 @@ export class MCPServer {
       const reqTyped = req as Req;
       const resObj = res as Res;
       try {
+        const server = this.createProtocolServer();
         const transport = new StreamableHTTPServerTransport({
           sessionIdGenerator: undefined,
         });
-        await this.server.connect(transport);
+        await server.connect(transport);
         await transport.handleRequest(reqTyped, resObj, reqTyped.body);
         resObj.on("close", () => {
-          transport.close();
-          this.server.close();
+          void transport.close();
+          void server.close();
         });
       } catch (error) {
         if (!resObj.headersSent) {
@@ -1,21 +1,56 @@
 import type { ToolAdapter } from "../types";
-import { MCPClient } from "../../mcp/client";
+import { getMCPClient, type MCPServerConfig } from "../../mcp/client";
 
-type MCPToolConfig = {
-  endpoint: string;
+/**
+ * Config of an MCP tool: the server (endpoint URL for Streamable HTTP, or transport "sse" / "stdio"
+ * with url or command/args/env/cwd) and the tool's name on that server.
+ */
+export type MCPToolConfig = {
   toolName: string;
+  endpoint?: string;
+  transport?: "streamable-http" | "sse" | "stdio";
+  url?: string;
+  headers?: Record<string, string>;
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
 };
 
+/** Server config of an MCP tool config, or null when it names no endpoint/url/command. */
+export function mcpServerFromToolConfig(config: Partial<MCPToolConfig>): MCPServerConfig | null {
+  if (config.transport === "stdio") {
+    return config.command
+      ? {
+          transport: "stdio",
+          command: config.command,
+          ...(config.args && { args: config.args }),
+          ...(config.env && { env: config.env }),
+          ...(config.cwd && { cwd: config.cwd }),
+        }
+      : null;
+  }
+  const url = config.url ?? config.endpoint;
+  if (!url) return null;
+  return {
+    transport: config.transport === "sse" ? "sse" : "streamable-http",
+    url,
+    ...(config.headers && { headers: config.headers }),
+  };
+}
+
 export const mcpToolAdapter: ToolAdapter = {
   protocol: "mcp",
   execute: async (tool, input) => {
-    const config = tool.config as MCPToolConfig;
-    if (!config?.endpoint || !config?.toolName) {
-      throw new Error("MCP tool requires endpoint and toolName in config.");
+    const config = tool.config as Partial<MCPToolConfig>;
+    const server = config ? mcpServerFromToolConfig(config) : null;
+    if (!server || !config?.toolName) {
+      throw new Error(
+        "MCP tool requires toolName and an endpoint (or transport stdio with command) in config."
+      );
     }
 
-    const client = new MCPClient(config.endpoint);
-    return client.callTool({
+    return getMCPClient(server).callTool({
       toolName: config.toolName,
       input: input ?? {},
     });
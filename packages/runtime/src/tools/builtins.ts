@@ -23,6 +23,26 @@ function getBaseUrl(): string {
   return "http://127.0.0.1:3000";
 }
 
+/**
+ * Authorization for calls to the app's own API. The app keeps its internal token and the origin it
+ * may be sent to on globalThis rather than in process.env, so child processes never inherit it.
+ * No header when url is on another origin (e.g. AGENTOS_APP_URL points elsewhere).
+ */
+function getAppAuthHeaders(url: string): Record<string, string> {
+  const app = globalThis as {
+    __agentronInternalApiToken?: string;
+    __agentronInternalApiBaseUrl?: string;
+  };
+  const token = app.__agentronInternalApiToken;
+  if (!token || !app.__agentronInternalApiBaseUrl) return {};
+  try {
+    const sameOrigin = new URL(url).origin === new URL(app.__agentronInternalApiBaseUrl).origin;
+    return sameOrigin ? { Authorization: `Bearer ${token}` } : {};
+  } catch {
+    return {};
+  }
+}
+
 /**
  * Fetches a URL and returns the response body as text.
  * Input: { url: string }
@@ -69,10 +89,10 @@ export async function runCode(input: unknown): Promise<unknown> {
     return { error: "code is required" };
   }
   try {
-    const baseUrl = getBaseUrl();
-    const res = await fetch(`${baseUrl}/api/run-code`, {
+    const url = `${getBaseUrl()}/api/run-code`;
+    const res = await fetch(url, {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
+      headers: { "Content-Type": "application/json", ...getAppAuthHeaders(url) },
       body: JSON.stringify({ language, code, input: o.input }),
       signal: AbortSignal.timeout(60000),
     });
@@ -0,0 +1,305 @@
+import type { EdgeCondition, JsonPathConditionOp } from "@agentron-studio/core";
+import type { LLMRequest, LLMResponse } from "../llm/types";
+import { parseJsonLike, workflowValuesEqual } from "./expression";
+
+/**
+ * Edge conditions decide whether a conditional edge is followed after its source node ran.
+ * Evaluation is synchronous; llm_judge verdicts are resolved beforehand (resolveLlmJudgeVerdicts)
+ * and passed in, so the schedulers stay synchronous and a resumed run reuses the stored verdicts.
+ */
+
+const JSON_PATH_OPS: JsonPathConditionOp[] = [
+  "eq",
+  "neq",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "contains",
+  "exists",
+];
+const MAX_PATTERN_LENGTH = 500;
+const MAX_CONDITION_DEPTH = 8;
+const JUDGE_OUTPUT_MAX_CHARS = 8000;
+
+/** Verdicts of llm_judge conditions, keyed by llmJudgeKey. */
+export type LlmJudgeVerdicts = Record<string, boolean>;
+
+export type LlmJudgeCondition = Extract<EdgeCondition, { type: "llm_judge" }>;
+
+/** Stable key of an llm_judge condition (same config and question share one verdict). */
+export function llmJudgeKey(condition: LlmJudgeCondition): string {
+  return `${condition.llmConfigId}\u0000${condition.question}`;
+}
+
+/**
+ * Splits "$.a.b[0]['c d']" (leading "$" optional) into segments. Returns null when the path is
+ * malformed. "$" alone addresses the whole output.
+ */
+export function parseJsonPath(path: string): (string | number)[] | null {
+  let rest = path.trim();
+  if (rest.startsWith("$")) rest = rest.slice(1);
+  else if (rest && !rest.startsWith("[")) rest = `.${rest}`;
+  const segments: (string | number)[] = [];
+  const pattern = /^(?:\.([A-Za-z_$][\w$-]*)|\[(\d+)\]|\[(?:'([^']*)'|"([^"]*)")\])/;
+  while (rest.length > 0) {
+    const m = pattern.exec(rest);
+    if (!m) return null;
+    if (m[1] !== undefined) segments.push(m[1]);
+    else if (m[2] !== undefined) segments.push(Number(m[2]));
+    else segments.push(m[3] ?? m[4]);
+    rest = rest.slice(m[0].length);
+  }
+  return segments;
+}
+
+/** Reads a JSON path from an output; JSON text (also in a ```json fence) is parsed first. */
+export function readJsonPath(value: unknown, path: string): unknown {
+  const segments = parseJsonPath(path);
+  if (!segments) return undefined;
+  let current = parseJsonLike(value);
+  for (const seg of segments) {
+    current = parseJsonLike(current);
+    if (current == null || typeof current !== "object") return undefined;
+    if (!Object.prototype.hasOwnProperty.call(current, seg)) return undefined;
+    current = (current as Record<string | number, unknown>)[seg];
+  }
+  return current;
+}
+
+function outputText(lastOutput: unknown): string {
+  return typeof lastOutput === "string" ? lastOutput : JSON.stringify(lastOutput ?? "");
+}
+
+function compareJsonPath(actual: unknown, op: JsonPathConditionOp, expected: unknown): boolean {
+  switch (op) {
+    case "exists":
+      return actual !== undefined && actual !== null;
+    case "eq":
+      return workflowValuesEqual(actual, expected);
+    case "neq":
+      return !workflowValuesEqual(actual, expected);
+    case "contains":
+      if (Array.isArray(actual)) return actual.some((x) => workflowValuesEqual(x, expected));
+      return String(actual ?? "")
+        .toLowerCase()
+        .includes(String(expected ?? "").toLowerCase());
+  }
+  const a = typeof actual === "number" ? actual : Number(actual);
+  const b = typeof expected === "number" ? expected : Number(expected);
+  if (actual == null || Number.isNaN(a) || Number.isNaN(b)) return false;
+  if (op === "gt") return a > b;
+  if (op === "gte") return a >= b;
+  if (op === "lt") return a < b;
+  return a <= b;
+}
+
+/**
+ * Evaluates an edge condition against the source node's output. A missing condition is true, and
+ * so is one of an unknown type (saving rejects those; older stored workflows keep routing).
+ * llm_judge conditions read their verdict from `verdicts`; without one they evaluate to false.
+ */
+export function evaluateEdgeCondition(
+  condition: EdgeCondition | undefined,
+  lastOutput: unknown,
+  verdicts: LlmJudgeVerdicts = {}
+): boolean {
+  if (!condition) return true;
+  switch (condition.type) {
+    case "message_type":
+      return (
+        outputText(lastOutput) === condition.value ||
+        (lastOutput != null &&
+          typeof lastOutput === "object" &&
+          (lastOutput as Record<string, unknown>).type === condition.value)
+      );
+    case "content_contains":
+      return outputText(lastOutput).toLowerCase().includes(condition.value.toLowerCase());
+    case "regex":
+      return new RegExp(condition.pattern, condition.flags ?? "").test(outputText(lastOutput));
+    case "json_path":
+      return compareJsonPath(
+        readJsonPath(lastOutput, condition.path),
+        condition.op,
+        condition.value
+      );
+    case "and":
+      return condition.conditions.every((c) => evaluateEdgeCondition(c, lastOutput, verdicts));
+    case "or":
+      return condition.conditions.some((c) => evaluateEdgeCondition(c, lastOutput, verdicts));
+    case "not":
+      return !evaluateEdgeCondition(condition.condition, lastOutput, verdicts);
+    case "llm_judge":
+      return verdicts[llmJudgeKey(condition)] === true;
+  }
+  return true;
+}
+
+/** Context for save-time validation. */
+export type EdgeConditionValidationOptions = {
+  /** Ids of existing LLM configs; when given, llm_judge conditions must name one of them. */
+  llmConfigIds?: ReadonlySet<string>;
+};
+
+/**
+ * Returns validation errors for an edge condition (empty when valid). Used at save time so
+ * unknown types, bad regexes, malformed paths or unknown LLM configs are rejected instead of
+ * evaluating silently.
+ */
+export function validateEdgeCondition(
+  condition: unknown,
+  label = "condition",
+  options: EdgeConditionValidationOptions = {}
+): string[] {
+  return validateAt(condition, label, 0, options);
+}
+
+function validateAt(
+  condition: unknown,
+  label: string,
+  depth: number,
+  options: EdgeConditionValidationOptions
+): string[] {
+  if (condition == null || typeof condition !== "object" || Array.isArray(condition)) {
+    return [`${label} must be an object`];
+  }
+  if (depth > MAX_CONDITION_DEPTH) return [`${label} is nested too deeply`];
+  const c = condition as Record<string, unknown>;
+  const nonEmpty = (v: unknown) => typeof v === "string" && v.trim().length > 0;
+  switch (c.type) {
+    case "message_type":
+    case "content_contains":
+      return typeof c.value === "string" ? [] : [`${label}.value must be a string`];
+    case "regex": {
+      if (!nonEmpty(c.pattern)) return [`${label}.pattern is required`];
+      if ((c.pattern as string).length > MAX_PATTERN_LENGTH) {
+        return [`${label}.pattern is longer than ${MAX_PATTERN_LENGTH} characters`];
+      }
+      if (c.flags !== undefined && (typeof c.flags !== "string" || !/^[imsu]*$/.test(c.flags))) {
+        return [`${label}.flags may only contain i, m, s, u`];
+      }
+      try {
+        new RegExp(c.pattern as string, (c.flags as string | undefined) ?? "");
+        return [];
+      } catch (err) {
+        return [`${label}.pattern is not a valid regular expression: ${(err as Error).message}`];
+      }
+    }
+    case "json_path": {
+      const errors: string[] = [];
+      if (!nonEmpty(c.path) || parseJsonPath(c.path as string) == null) {
+        errors.push(`${label}.path must be a JSON path like $.review.score`);
+      }
+      if (!JSON_PATH_OPS.includes(c.op as JsonPathConditionOp)) {
+        errors.push(`${label}.op must be one of ${JSON_PATH_OPS.join(", ")}`);
+      } else if (c.op !== "exists" && c.value === undefined) {
+        errors.push(`${label}.value is required for op "${c.op as string}"`);
+      }
+      return errors;
+    }
+    case "and":
+    case "or":
+      if (!Array.isArray(c.conditions) || c.conditions.length === 0) {
+        return [`${label}.conditions must be a non-empty array`];
+      }
+      return c.conditions.flatMap((sub, i) =>
+        validateAt(sub, `${label}.conditions[${i}]`, depth + 1, options)
+      );
+    case "not":
+      return validateAt(c.condition, `${label}.condition`, depth + 1, options);
+    case "llm_judge": {
+      const errors: string[] = [];
+      if (!nonEmpty(c.llmConfigId)) errors.push(`${label}.llmConfigId is required`);
+      else if (options.llmConfigIds && !options.llmConfigIds.has(c.llmConfigId as string)) {
+        errors.push(`${label}.llmConfigId "${c.llmConfigId as string}" is not an LLM config`);
+      }
+      if (!nonEmpty(c.question)) errors.push(`${label}.question is required`);
+      return errors;
+    }
+    default:
+      return [`${label}.type "${String(c.type)}" is not a supported edge condition`];
+  }
+}
+
+/**
+ * Validates conditions of all edges of a workflow and of its branches. Returns messages naming
+ * the edge (id or source → target); empty when everything is valid.
+ */
+export function validateWorkflowEdgeConditions(
+  workflow: { edges?: unknown[]; branches?: unknown[] },
+  options: EdgeConditionValidationOptions = {}
+): string[] {
+  const check = (edges: unknown, prefix: string) =>
+    (Array.isArray(edges) ? edges : []).flatMap((e) => {
+      if (e == null || typeof e !== "object") return [];
+      const edge = e as { id?: unknown; source?: unknown; target?: unknown; condition?: unknown };
+      if (edge.condition == null) return [];
+      const name =
+        typeof edge.id === "string" && edge.id
+          ? edge.id
+          : `${String(edge.source ?? "?")} → ${String(edge.target ?? "?")}`;
+      return validateEdgeCondition(edge.condition, `${prefix}edge ${name} condition`, options);
+    });
+  const errors = check(workflow.edges, "");
+  for (const b of Array.isArray(workflow.branches) ? workflow.branches : []) {
+    if (b == null || typeof b !== "object") continue;
+    const branch = b as { id?: unknown; edges?: unknown };
+    errors.push(...check(branch.edges, `branch ${String(branch.id ?? "?")}: `));
+  }
+  return errors;
+}
+
+/** All llm_judge conditions inside a (possibly composite) condition. */
+export function collectLlmJudgeConditions(
+  condition: EdgeCondition | undefined
+): LlmJudgeCondition[] {
+  if (!condition) return [];
+  switch (condition.type) {
+    case "llm_judge":
+      return [condition];
+    case "and":
+    case "or":
+      return condition.conditions.flatMap(collectLlmJudgeConditions);
+    case "not":
+      return collectLlmJudgeConditions(condition.condition);
+    default:
+      return [];
+  }
+}
+
+/** Reads a yes/no verdict from a judge reply; anything that does not start with yes is false. */
+export function parseJudgeVerdict(reply: string): boolean {
+  return /^\W*(yes|true)\b/i.test(reply.trim());
+}
+
+/**
+ * Asks each distinct llm_judge question once about the output and returns the verdicts.
+ * LLM errors propagate so a run fails instead of silently taking or skipping an edge.
+ */
+export async function resolveLlmJudgeVerdicts(
+  conditions: LlmJudgeCondition[],
+  lastOutput: unknown,
+  callLLM: (req: LLMRequest & { llmConfigId: string }) => Promise<LLMResponse>
+): Promise<LlmJudgeVerdicts> {
+  const verdicts: LlmJudgeVerdicts = {};
+  const text = outputText(lastOutput).slice(0, JUDGE_OUTPUT_MAX_CHARS);
+  for (const condition of conditions) {
+    const key = llmJudgeKey(condition);
+    if (key in verdicts) continue;
+    const response = await callLLM({
+      llmConfigId: condition.llmConfigId,
+      temperature: 0,
+      maxTokens: 5,
+      messages: [
+        {
+          role: "system",
+          content:
+            "You decide whether a workflow step's output satisfies a condition. Answer with exactly one word: YES or NO.",
+        },
+        { role: "user", content: `Condition: ${condition.question}\n\nOutput:\n${text}` },
+      ],
+    });
+    verdicts[key] = parseJudgeVerdict(response.content ?? "");
+  }
+  return verdicts;
+}
@@ -1,5 +1,18 @@
 import type { Workflow, WorkflowExecutionStep } from "@agentron-studio/core";
 import { SharedContextManager } from "../agent/context";
+import { evaluateEdgeCondition } from "./edge-conditions";
+import {
+  buildWorkflowDAGFromEdges,
+  collectUpstreamOutputs,
+  findWorkflowCycle,
+  getSinkNodeIds,
+  isEdgeBranchTaken,
+  normalizeWorkflowEdges,
+  resolveReadyWorkflowNodes,
+  withFallbackEdge,
+  WorkflowCycleError,
+  type WorkflowGraphEdge,
+} from "./graph";
 
 export type WorkflowNodeHandler = (
   nodeId: string,
@@ -43,7 +56,8 @@ export function executionOrderToLevels(
 
 /**
  * Builds a leveled DAG from the workflow. When executionOrder is present and non-empty,
- * uses it (with parallel groupings); otherwise falls back to node array order (one node per level).
+ * uses it (with parallel groupings); otherwise derives levels from acyclic edges (topological
+ * order); without edges, or when they form a cycle, falls back to node array order (one node per level).
  */
 export function buildWorkflowDAGFromNodes(workflow: Workflow): WorkflowDAGLevels {
   const order = workflow.executionOrder;
@@ -51,13 +65,31 @@ export function buildWorkflowDAGFromNodes(workflow: Workflow): WorkflowDAGLevels
     return executionOrderToLevels(order, workflow);
   }
   const nodes = Array.isArray(workflow.nodes) ? workflow.nodes : [];
+  const edges = normalizeWorkflowEdges(workflow.edges);
+  if (
+    edges.length > 0 &&
+    !findWorkflowCycle(
+      nodes.map((n) => n.id),
+      edges
+    )
+  ) {
+    return buildWorkflowDAGFromEdges(workflow);
+  }
   return nodes.map((n) => [n.id]);
 }
 
+function getNodeConfig(node: Workflow["nodes"][number]): Record<string, unknown> {
+  const nodeParams = node as {
+    parameters?: Record<string, unknown>;
+    config?: Record<string, unknown>;
+  };
+  return nodeParams.parameters ?? nodeParams.config ?? {};
+}
+
 /**
  * Runs workflow nodes in leveled DAG form: all nodes in a level run in parallel,
- * levels run sequentially. For now buildWorkflowDAGFromNodes produces one node
- * per level, so behavior matches the previous linear execution.
+ * levels run sequentially. Prefer runWorkflowDAG for edge-based graphs: it starts each
+ * node as soon as its own dependencies finish instead of waiting for the whole level.
  */
 export async function runWorkflowDAGLevels(
   levels: WorkflowDAGLevels,
@@ -78,12 +110,7 @@ export async function runWorkflowDAGLevels(
         if (!node) return undefined;
         const handler = handlers[node.type];
         if (!handler) throw new Error(`No handler for workflow node type ${node.type}`);
-        const nodeParams = node as {
-          parameters?: Record<string, unknown>;
-          config?: Record<string, unknown>;
-        };
-        const config = nodeParams.parameters ?? nodeParams.config ?? {};
-        const output = await handler(node.id, config, sharedContext);
+        const output = await handler(node.id, getNodeConfig(node), sharedContext);
         sharedContext.set(`__output_${node.id}`, output);
         return output;
       })
@@ -100,6 +127,96 @@ export async function runWorkflowDAGLevels(
   return { output: lastOutput, context: sharedContext.snapshot() };
 }
 
+/**
+ * Dependency-driven execution of an acyclic edge graph. Each node starts as soon as all its
+ * upstream nodes have finished, so independent branches run concurrently (fan-out) and a node
+ * with several incoming edges waits for all of them (join). Before a node runs, outputs of its
+ * upstream nodes are stored under `__inputs_<nodeId>` (map of upstream node id to output).
+ * Edges with a branch are taken only when the source picked it; isEdgeActive decides conditional
+ * edges (default: evaluateEdgeCondition without llm_judge verdicts). As on the edge-following
+ * path, a node none of whose outgoing edges is active follows its first edge without a branch;
+ * a node whose incoming edges are all inactive is skipped.
+ * Like the edge-following path, the run starts at the first node; other nodes without incoming
+ * edges are skipped unless listed in options.roots. Throws WorkflowCycleError on cycles: this is
+ * the explicit DAG entry point, WorkflowEngine.execute only uses it for acyclic graphs.
+ * Returns the output of the last finished sink node (node without outgoing edges).
+ */
+export async function runWorkflowDAG(
+  workflow: Workflow,
+  handlers: Record<string, WorkflowNodeHandler>,
+  initialContext?: Record<string, unknown>,
+  options?: {
+    isEdgeActive?: (edge: WorkflowGraphEdge, sourceOutput: unknown) => boolean;
+    /** Nodes that start without waiting for an incoming edge (default: the first node). */
+    roots?: string[];
+  }
+): Promise<{ output: unknown; context: Record<string, unknown> }> {
+  const sharedContext = new SharedContextManager(initialContext);
+  const nodes = Array.isArray(workflow.nodes) ? workflow.nodes : [];
+  const nodeMap = new Map(nodes.map((n) => [n.id, n]));
+  const nodeIds = nodes.map((n) => n.id);
+  const edges = normalizeWorkflowEdges(workflow.edges).filter(
+    (e) => nodeMap.has(e.from) && nodeMap.has(e.to)
+  );
+  const cycle = findWorkflowCycle(nodeIds, edges);
+  if (cycle) throw new WorkflowCycleError(cycle);
+  const sinks = new Set(getSinkNodeIds(nodeIds, edges));
+  const roots = options?.roots ?? nodeIds.slice(0, 1);
+  const isEdgeActive = withFallbackEdge(
+    edges,
+    (edge) =>
+      isEdgeBranchTaken(edge, (k) => sharedContext.get(k)) &&
+      (options?.isEdgeActive ?? ((e, out) => evaluateEdgeCondition(e.condition, out)))(
+        edge,
+        sharedContext.get(`__output_${edge.from}`)
+      )
+  );
+
+  const progress = { started: [] as string[], completed: [] as string[], skipped: [] as string[] };
+  const inFlight = new Map<string, Promise<void>>();
+  let lastOutput: unknown = undefined;
+
+  const runNode = async (nodeId: string) => {
+    const node = nodeMap.get(nodeId)!;
+    const handler = handlers[node.type];
+    if (!handler) throw new Error(`No handler for workflow node type ${node.type}`);
+    const inputs = collectUpstreamOutputs(nodeId, edges, (k) => sharedContext.get(k));
+    if (Object.keys(inputs).length > 0) sharedContext.set(`__inputs_${nodeId}`, inputs);
+    const output = await handler(nodeId, getNodeConfig(node), sharedContext);
+    sharedContext.set(`__output_${nodeId}`, output);
+    if (sinks.has(nodeId) && output !== undefined) lastOutput = output;
+    progress.completed.push(nodeId);
+  };
+
+  while (true) {
+    const { ready, skipped } = resolveReadyWorkflowNodes(
+      nodeIds,
+      edges,
+      progress,
+      isEdgeActive,
+      roots
+    );
+    progress.skipped.push(...skipped);
+    for (const id of ready) {
+      progress.started.push(id);
+      const running = runNode(id).finally(() => inFlight.delete(id));
+      // Failures surface through Promise.race below; avoid an unhandled rejection meanwhile.
+      running.catch(() => {});
+      inFlight.set(id, running);
+    }
+    if (inFlight.size === 0) break;
+    try {
+      await Promise.race(inFlight.values());
+    } catch (err) {
+      // Let siblings settle so no handler keeps writing to the context after the run failed.
+      await Promise.allSettled(inFlight.values());
+      throw err;
+    }
+  }
+
+  return { output: lastOutput, context: sharedContext.snapshot() };
+}
+
 export class WorkflowEngine {
   async execute(
     workflow: Workflow,
@@ -113,6 +230,18 @@ export class WorkflowEngine {
       workflow.maxRounds != null && workflow.maxRounds > 0 ? workflow.maxRounds : null;
     const hasEdges = edges.length > 0;
 
+    if (
+      hasEdges &&
+      !(Array.isArray(workflow.executionOrder) && workflow.executionOrder.length > 0)
+    ) {
+      const cycle = findWorkflowCycle(
+        nodes.map((n) => n.id),
+        normalizeWorkflowEdges(edges)
+      );
+      // Acyclic graphs run dependency-driven; cycles keep the paths below (rounds or node order).
+      if (!cycle) return runWorkflowDAG(workflow, handlers, initialContext);
+    }
+
     if (hasEdges && maxRounds != null) {
       const sharedContext = new SharedContextManager(initialContext);
 
@@ -136,12 +265,7 @@ export class WorkflowEngine {
           if (!node) break;
           const handler = handlers[node.type];
           if (!handler) throw new Error(`No handler for workflow node type ${node.type}`);
-          const nodeParams = node as {
-            parameters?: Record<string, unknown>;
-            config?: Record<string, unknown>;
-          };
-          const config = nodeParams.parameters ?? nodeParams.config ?? {};
-          lastOutput = await handler(node.id, config, sharedContext);
+          lastOutput = await handler(node.id, getNodeConfig(node), sharedContext);
           sharedContext.set(`__output_${node.id}`, lastOutput);
           currentId = nextMap.get(node.id);
         } while (currentId && currentId !== startNodeId);
@@ -151,7 +275,7 @@ export class WorkflowEngine {
       return { output: lastOutput, context: sharedContext.snapshot() };
     }
 
-    // Linear execution: run nodes as a leveled DAG (one node per level for now).
+    // Linear execution: run nodes as a leveled DAG (executionOrder, or one node per level).
     const levels = buildWorkflowDAGFromNodes(workflow);
     return runWorkflowDAGLevels(levels, workflow, handlers, initialContext);
   }
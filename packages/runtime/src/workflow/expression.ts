@@ -0,0 +1,386 @@
+/**
+ * Small, side-effect free expression language for workflow control nodes (condition, switch,
+ * for_each, set_context). No eval: expressions are parsed into an AST and interpreted.
+ *
+ * Supported: literals (numbers, 'strings' / "strings", true, false, null), paths
+ * (`output.score`, `context.items[0].name`, `output.tags.length`), comparison
+ * (== != > >= < <=), `contains`, `matches` (regex), arithmetic (+ - * / %), `&&`, `||`, `!`,
+ * parentheses, and the functions len(x), lower(x), upper(x), trim(x), number(x), string(x), json(x).
+ */
+
+export class WorkflowExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WorkflowExpressionError";
+  }
+}
+
+type Token =
+  | { kind: "num"; value: number }
+  | { kind: "str"; value: string }
+  | { kind: "ident"; value: string }
+  | { kind: "op"; value: string };
+
+type Node =
+  | { type: "lit"; value: unknown }
+  | { type: "path"; root: string; segments: (string | Node)[] }
+  | { type: "unary"; op: string; arg: Node }
+  | { type: "binary"; op: string; left: Node; right: Node }
+  | { type: "call"; name: string; args: Node[] };
+
+const OPERATORS = ["==", "!=", ">=", "<=", "&&", "||", ">", "<", "!", "+", "-", "*", "/", "%"];
+const PUNCTUATION = ["(", ")", "[", "]", ".", ","];
+const MAX_EXPRESSION_LENGTH = 2000;
+
+function tokenize(src: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < src.length) {
+    const ch = src[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    if (/[0-9]/.test(ch)) {
+      const m = /^[0-9]+(\.[0-9]+)?/.exec(src.slice(i))!;
+      tokens.push({ kind: "num", value: Number(m[0]) });
+      i += m[0].length;
+      continue;
+    }
+    if (ch === "'" || ch === '"') {
+      let j = i + 1;
+      let value = "";
+      while (j < src.length && src[j] !== ch) {
+        if (src[j] === "\\" && j + 1 < src.length) {
+          value += src[j + 1];
+          j += 2;
+          continue;
+        }
+        value += src[j];
+        j++;
+      }
+      if (j >= src.length) throw new WorkflowExpressionError("Unterminated string literal");
+      tokens.push({ kind: "str", value });
+      i = j + 1;
+      continue;
+    }
+    if (/[A-Za-z_$]/.test(ch)) {
+      const m = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(src.slice(i))!;
+      tokens.push({ kind: "ident", value: m[0] });
+      i += m[0].length;
+      continue;
+    }
+    const op = OPERATORS.find((o) => src.startsWith(o, i));
+    if (op) {
+      tokens.push({ kind: "op", value: op });
+      i += op.length;
+      continue;
+    }
+    if (PUNCTUATION.includes(ch)) {
+      tokens.push({ kind: "op", value: ch });
+      i++;
+      continue;
+    }
+    throw new WorkflowExpressionError(`Unexpected character "${ch}" at position ${i}`);
+  }
+  return tokens;
+}
+
+class Parser {
+  private pos = 0;
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): Node {
+    const node = this.or();
+    if (this.pos < this.tokens.length) {
+      throw new WorkflowExpressionError(`Unexpected token "${this.tokens[this.pos].value}"`);
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.pos];
+  }
+
+  private isOp(value: string): boolean {
+    const t = this.peek();
+    return t?.kind === "op" && t.value === value;
+  }
+
+  private isWord(value: string): boolean {
+    const t = this.peek();
+    return t?.kind === "ident" && t.value === value;
+  }
+
+  private expect(value: string) {
+    if (!this.isOp(value)) throw new WorkflowExpressionError(`Expected "${value}"`);
+    this.pos++;
+  }
+
+  private or(): Node {
+    let left = this.and();
+    while (this.isOp("||")) {
+      this.pos++;
+      left = { type: "binary", op: "||", left, right: this.and() };
+    }
+    return left;
+  }
+
+  private and(): Node {
+    let left = this.comparison();
+    while (this.isOp("&&")) {
+      this.pos++;
+      left = { type: "binary", op: "&&", left, right: this.comparison() };
+    }
+    return left;
+  }
+
+  private comparison(): Node {
+    const left = this.additive();
+    for (const op of ["==", "!=", ">=", "<=", ">", "<"]) {
+      if (this.isOp(op)) {
+        this.pos++;
+        return { type: "binary", op, left, right: this.additive() };
+      }
+    }
+    for (const word of ["contains", "matches"]) {
+      if (this.isWord(word)) {
+        this.pos++;
+        return { type: "binary", op: word, left, right: this.additive() };
+      }
+    }
+    return left;
+  }
+
+  private additive(): Node {
+    let left = this.multiplicative();
+    while (this.isOp("+") || this.isOp("-")) {
+      const op = String(this.tokens[this.pos++].value);
+      left = { type: "binary", op, left, right: this.multiplicative() };
+    }
+    return left;
+  }
+
+  private multiplicative(): Node {
+    let left = this.unary();
+    while (this.isOp("*") || this.isOp("/") || this.isOp("%")) {
+      const op = String(this.tokens[this.pos++].value);
+      left = { type: "binary", op, left, right: this.unary() };
+    }
+    return left;
+  }
+
+  private unary(): Node {
+    if (this.isOp("!") || this.isOp("-")) {
+      const op = String(this.tokens[this.pos++].value);
+      return { type: "unary", op, arg: this.unary() };
+    }
+    return this.primary();
+  }
+
+  private primary(): Node {
+    const t = this.peek();
+    if (!t) throw new WorkflowExpressionError("Unexpected end of expression");
+    if (t.kind === "num" || t.kind === "str") {
+      this.pos++;
+      return { type: "lit", value: t.value };
+    }
+    if (t.kind === "op" && t.value === "(") {
+      this.pos++;
+      const inner = this.or();
+      this.expect(")");
+      return inner;
+    }
+    if (t.kind === "ident") {
+      this.pos++;
+      if (t.value === "true") return { type: "lit", value: true };
+      if (t.value === "false") return { type: "lit", value: false };
+      if (t.value === "null") return { type: "lit", value: null };
+      if (this.isOp("(")) {
+        this.pos++;
+        const args: Node[] = [];
+        if (!this.isOp(")")) {
+          args.push(this.or());
+          while (this.isOp(",")) {
+            this.pos++;
+            args.push(this.or());
+          }
+        }
+        this.expect(")");
+        return { type: "call", name: t.value, args };
+      }
+      const segments: (string | Node)[] = [];
+      while (this.isOp(".") || this.isOp("[")) {
+        if (this.isOp(".")) {
+          this.pos++;
+          const next = this.peek();
+          if (next?.kind !== "ident") throw new WorkflowExpressionError("Expected property name");
+          this.pos++;
+          segments.push(next.value);
+        } else {
+          this.pos++;
+          segments.push(this.or());
+          this.expect("]");
+        }
+      }
+      return { type: "path", root: t.value, segments };
+    }
+    throw new WorkflowExpressionError(`Unexpected token "${t.value}"`);
+  }
+}
+
+/** Reads one property, allowing only own properties (and length of arrays/strings). */
+function readProperty(target: unknown, key: string | number): unknown {
+  if (target == null) return undefined;
+  if (key === "length" && (typeof target === "string" || Array.isArray(target))) {
+    return target.length;
+  }
+  if (typeof target !== "object") return undefined;
+  return Object.prototype.hasOwnProperty.call(target, key)
+    ? (target as Record<string | number, unknown>)[key]
+    : undefined;
+}
+
+function toNumber(v: unknown): number {
+  return typeof v === "number" ? v : Number(v);
+}
+
+/** Equality used by expressions and edge conditions: structural for objects, text-based otherwise. */
+export function workflowValuesEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a == null || b == null) return a == b;
+  if (typeof a === "object" || typeof b === "object") {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  // "5" == 5 and "true" == true are common when outputs are text.
+  return String(a) === String(b);
+}
+
+const FUNCTIONS: Record<string, (...args: unknown[]) => unknown> = {
+  len: (v) => (typeof v === "string" || Array.isArray(v) ? v.length : 0),
+  lower: (v) => String(v ?? "").toLowerCase(),
+  upper: (v) => String(v ?? "").toUpperCase(),
+  trim: (v) => String(v ?? "").trim(),
+  number: (v) => toNumber(v),
+  string: (v) => (typeof v === "string" ? v : JSON.stringify(v ?? null)),
+  json: (v) => parseJsonLike(v),
+};
+
+function evaluate(node: Node, scope: Record<string, unknown>): unknown {
+  switch (node.type) {
+    case "lit":
+      return node.value;
+    case "path": {
+      let value: unknown = Object.prototype.hasOwnProperty.call(scope, node.root)
+        ? scope[node.root]
+        : undefined;
+      for (const seg of node.segments) {
+        const key = typeof seg === "string" ? seg : evaluate(seg, scope);
+        value = readProperty(parseJsonLike(value), key as string | number);
+      }
+      return value;
+    }
+    case "unary": {
+      const v = evaluate(node.arg, scope);
+      return node.op === "!" ? !v : -toNumber(v);
+    }
+    case "call": {
+      const fn = FUNCTIONS[node.name];
+      if (!fn) throw new WorkflowExpressionError(`Unknown function ${node.name}()`);
+      return fn(...node.args.map((a) => evaluate(a, scope)));
+    }
+    case "binary": {
+      if (node.op === "&&") return evaluate(node.left, scope) && evaluate(node.right, scope);
+      if (node.op === "||") return evaluate(node.left, scope) || evaluate(node.right, scope);
+      const l = evaluate(node.left, scope);
+      const r = evaluate(node.right, scope);
+      switch (node.op) {
+        case "==":
+          return workflowValuesEqual(l, r);
+        case "!=":
+          return !workflowValuesEqual(l, r);
+        case ">":
+          return toNumber(l) > toNumber(r);
+        case ">=":
+          return toNumber(l) >= toNumber(r);
+        case "<":
+          return toNumber(l) < toNumber(r);
+        case "<=":
+          return toNumber(l) <= toNumber(r);
+        case "contains":
+          if (Array.isArray(l)) return l.some((x) => workflowValuesEqual(x, r));
+          return String(l ?? "")
+            .toLowerCase()
+            .includes(String(r ?? "").toLowerCase());
+        case "matches":
+          try {
+            return new RegExp(String(r), "i").test(String(l ?? ""));
+          } catch {
+            throw new WorkflowExpressionError(`Invalid regular expression: ${String(r)}`);
+          }
+        case "+":
+          return typeof l === "number" && typeof r === "number"
+            ? l + r
+            : typeof l === "string" || typeof r === "string"
+              ? `${l ?? ""}${r ?? ""}`
+              : toNumber(l) + toNumber(r);
+        case "-":
+          return toNumber(l) - toNumber(r);
+        case "*":
+          return toNumber(l) * toNumber(r);
+        case "/":
+          return toNumber(l) / toNumber(r);
+        case "%":
+          return toNumber(l) % toNumber(r);
+      }
+      throw new WorkflowExpressionError(`Unknown operator ${node.op}`);
+    }
+  }
+}
+
+/**
+ * Parses a JSON object/array from agent text output (also inside a ```json fence) so paths
+ * like `output.score` work on structured replies. Other values are returned unchanged.
+ */
+export function parseJsonLike(value: unknown): unknown {
+  if (typeof value !== "string") return value;
+  const trimmed = value.trim();
+  const fenced = /^```(?:json)?\s*([\s\S]*?)\s*```$/i.exec(trimmed);
+  const body = fenced ? fenced[1] : trimmed;
+  if (!(body.startsWith("{") || body.startsWith("["))) return value;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return value;
+  }
+}
+
+const parsedCache = new Map<string, Node>();
+
+/** Parses an expression, throwing WorkflowExpressionError when it is invalid. */
+export function parseWorkflowExpression(expression: string): void {
+  compile(expression);
+}
+
+function compile(expression: string): Node {
+  if (expression.length > MAX_EXPRESSION_LENGTH) {
+    throw new WorkflowExpressionError(`Expression longer than ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+  const cached = parsedCache.get(expression);
+  if (cached) return cached;
+  const ast = new Parser(tokenize(expression)).parse();
+  if (parsedCache.size > 500) parsedCache.clear();
+  parsedCache.set(expression, ast);
+  return ast;
+}
+
+/**
+ * Evaluates an expression against a scope (e.g. { output, context, item }). Unknown variables
+ * and missing properties evaluate to undefined rather than throwing.
+ */
+export function evaluateWorkflowExpression(
+  expression: string,
+  scope: Record<string, unknown>
+): unknown {
+  return evaluate(compile(expression), scope);
+}
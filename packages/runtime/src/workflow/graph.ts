@@ -0,0 +1,266 @@
+import type { CanvasEdge, EdgeCondition, Workflow } from "@agentron-studio/core";
+
+/** Edge in engine form: canvas source/target (or from/to aliases) resolved to from/to. */
+export type WorkflowGraphEdge = {
+  from: string;
+  to: string;
+  condition?: EdgeCondition;
+  branch?: string;
+};
+
+/**
+ * Progress of a dependency-driven run. Persisted in shared context (see DAG_PROGRESS_KEY)
+ * so the UI event loop can resume scheduling after a pause.
+ */
+export type WorkflowDAGProgress = {
+  /** Nodes that were requested (in flight or finished). */
+  started: string[];
+  /** Nodes whose handler finished. */
+  completed: string[];
+  /** Nodes that will not run because none of their incoming edges became active. */
+  skipped: string[];
+};
+
+/** Shared context key holding WorkflowDAGProgress for edge-driven runs. */
+export const DAG_PROGRESS_KEY = "__dag";
+
+/** Thrown when a workflow graph has a cycle where a DAG is required. */
+export class WorkflowCycleError extends Error {
+  readonly cycle: string[];
+
+  constructor(cycle: string[]) {
+    super(
+      `Workflow graph contains a cycle (${cycle.join(" → ")}). Set maxRounds to run it as a loop, or remove an edge so the graph is acyclic.`
+    );
+    this.name = "WorkflowCycleError";
+    this.cycle = cycle;
+  }
+}
+
+/** Normalizes canvas edges (source/target or from/to) and drops edges missing an endpoint. */
+export function normalizeWorkflowEdges(edges: unknown[] | undefined): WorkflowGraphEdge[] {
+  if (!Array.isArray(edges)) return [];
+  const out: WorkflowGraphEdge[] = [];
+  for (const e of edges) {
+    if (e == null || typeof e !== "object") continue;
+    const edge = e as Partial<CanvasEdge>;
+    const from = edge.source ?? edge.from ?? "";
+    const to = edge.target ?? edge.to ?? "";
+    if (!from || !to) continue;
+    out.push({
+      from,
+      to,
+      ...(edge.condition && { condition: edge.condition }),
+      ...(edge.branch != null && { branch: String(edge.branch) }),
+    });
+  }
+  return out;
+}
+
+/**
+ * Returns one cycle as a node path (first node repeated at the end, e.g. ["a", "b", "a"]),
+ * or null when the graph is acyclic. Edges to unknown nodes are ignored.
+ */
+export function findWorkflowCycle(
+  nodeIds: string[],
+  edges: Pick<WorkflowGraphEdge, "from" | "to">[]
+): string[] | null {
+  const known = new Set(nodeIds);
+  const adjacency = new Map<string, string[]>();
+  for (const e of edges) {
+    if (!known.has(e.from) || !known.has(e.to)) continue;
+    const list = adjacency.get(e.from) ?? [];
+    list.push(e.to);
+    adjacency.set(e.from, list);
+  }
+  const state = new Map<string, "visiting" | "done">();
+  const stack: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    state.set(id, "visiting");
+    stack.push(id);
+    for (const next of adjacency.get(id) ?? []) {
+      const s = state.get(next);
+      if (s === "visiting") return [...stack.slice(stack.indexOf(next)), next];
+      if (s === undefined) {
+        const found = visit(next);
+        if (found) return found;
+      }
+    }
+    stack.pop();
+    state.set(id, "done");
+    return null;
+  };
+
+  for (const id of nodeIds) {
+    if (state.has(id)) continue;
+    const found = visit(id);
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * Builds leveled DAG form from workflow edges (Kahn's algorithm): each level holds nodes whose
+ * predecessors are all in earlier levels, so nodes in a level are independent of each other.
+ * Nodes without edges land in the first level. Throws WorkflowCycleError on cycles.
+ */
+export function buildWorkflowDAGFromEdges(workflow: Workflow): string[][] {
+  const nodes = Array.isArray(workflow.nodes) ? workflow.nodes : [];
+  const nodeIds = nodes.map((n) => n.id);
+  const known = new Set(nodeIds);
+  const edges = normalizeWorkflowEdges(workflow.edges).filter(
+    (e) => known.has(e.from) && known.has(e.to)
+  );
+  const cycle = findWorkflowCycle(nodeIds, edges);
+  if (cycle) throw new WorkflowCycleError(cycle);
+
+  const indegree = new Map(nodeIds.map((id) => [id, 0]));
+  for (const e of edges) indegree.set(e.to, (indegree.get(e.to) ?? 0) + 1);
+  const levels: string[][] = [];
+  let current = nodeIds.filter((id) => indegree.get(id) === 0);
+  while (current.length > 0) {
+    levels.push(current);
+    const next: string[] = [];
+    for (const id of current) {
+      for (const e of edges) {
+        if (e.from !== id) continue;
+        const d = (indegree.get(e.to) ?? 0) - 1;
+        indegree.set(e.to, d);
+        if (d === 0) next.push(e.to);
+      }
+    }
+    // Keep node array order within a level so runs are deterministic.
+    current = nodeIds.filter((nid) => next.includes(nid));
+  }
+  return levels;
+}
+
+/** Ids of nodes with an edge into nodeId, in edge order without duplicates. */
+export function getUpstreamNodeIds(
+  nodeId: string,
+  edges: Pick<WorkflowGraphEdge, "from" | "to">[]
+): string[] {
+  return [...new Set(edges.filter((e) => e.to === nodeId).map((e) => e.from))];
+}
+
+/** Nodes without outgoing edges; their outputs are the result of a DAG run. */
+export function getSinkNodeIds(
+  nodeIds: string[],
+  edges: Pick<WorkflowGraphEdge, "from" | "to">[]
+): string[] {
+  const sources = new Set(edges.map((e) => e.from));
+  return nodeIds.filter((id) => !sources.has(id));
+}
+
+/**
+ * Collects `__output_<id>` values of all upstream nodes that produced output, keyed by node id.
+ * Join nodes use this to receive every branch instead of only the first incoming edge.
+ */
+export function collectUpstreamOutputs(
+  nodeId: string,
+  edges: Pick<WorkflowGraphEdge, "from" | "to">[],
+  get: (key: string) => unknown
+): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const from of getUpstreamNodeIds(nodeId, edges)) {
+    const value = get(`__output_${from}`);
+    if (value !== undefined) out[from] = value;
+  }
+  return out;
+}
+
+/**
+ * True when the edge has no branch or its branch equals the branch the source node picked
+ * (stored by routing nodes under `__branch_<nodeId>`).
+ */
+export function isEdgeBranchTaken(
+  edge: { from: string; branch?: string },
+  get: (key: string) => unknown
+): boolean {
+  if (edge.branch == null) return true;
+  return get(`__branch_${edge.from}`) === edge.branch;
+}
+
+/**
+ * Adds the edge-following fallback to isEdgeActive: when none of a node's outgoing edges is
+ * active, its first edge without a branch is followed anyway, so an unmatched condition does not
+ * end the path. Branch edges of routing nodes never fall back.
+ */
+export function withFallbackEdge<E extends Pick<WorkflowGraphEdge, "from" | "branch">>(
+  edges: E[],
+  isEdgeActive: (edge: E) => boolean
+): (edge: E) => boolean {
+  return (edge) => {
+    if (isEdgeActive(edge)) return true;
+    const outgoing = edges.filter((e) => e.from === edge.from);
+    if (outgoing.some(isEdgeActive)) return false;
+    return outgoing.find((e) => e.branch == null) === edge;
+  };
+}
+
+/** Reads DAG progress from a shared context snapshot, tolerating missing or malformed values. */
+export function readDAGProgress(context: Record<string, unknown>): WorkflowDAGProgress {
+  const raw = context[DAG_PROGRESS_KEY] as Partial<WorkflowDAGProgress> | undefined;
+  const list = (v: unknown) => (Array.isArray(v) ? v.filter((x) => typeof x === "string") : []);
+  return {
+    started: list(raw?.started),
+    completed: list(raw?.completed),
+    skipped: list(raw?.skipped),
+  };
+}
+
+/**
+ * Dependency-driven scheduling step. Returns nodes that can start now and nodes that became
+ * unreachable. A node is ready when all its upstream nodes are completed or skipped and at least
+ * one incoming edge is active (source completed and isEdgeActive true); when every incoming edge
+ * is inactive the node is skipped, which propagates to its own successors. Without roots, nodes
+ * without incoming edges are ready immediately; with roots, only those nodes start on their own
+ * and other nodes without incoming edges are skipped. Does not mutate progress.
+ */
+export function resolveReadyWorkflowNodes<E extends Pick<WorkflowGraphEdge, "from" | "to">>(
+  nodeIds: string[],
+  edges: E[],
+  progress: WorkflowDAGProgress,
+  isEdgeActive: (edge: E) => boolean = () => true,
+  roots?: string[]
+): { ready: string[]; skipped: string[] } {
+  const known = new Set(nodeIds);
+  const started = new Set(progress.started);
+  const completed = new Set(progress.completed);
+  const skipped = new Set(progress.skipped);
+  const ready: string[] = [];
+  const newlySkipped: string[] = [];
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const id of nodeIds) {
+      if (started.has(id) || skipped.has(id) || ready.includes(id)) continue;
+      if (roots?.includes(id)) {
+        ready.push(id);
+        continue;
+      }
+      const incoming = edges.filter((e) => e.to === id && known.has(e.from));
+      if (incoming.length === 0) {
+        if (!roots) {
+          ready.push(id);
+          continue;
+        }
+        skipped.add(id);
+        newlySkipped.push(id);
+        changed = true;
+        continue;
+      }
+      const settled = incoming.every((e) => completed.has(e.from) || skipped.has(e.from));
+      if (!settled) continue;
+      if (incoming.some((e) => completed.has(e.from) && isEdgeActive(e))) {
+        ready.push(id);
+      } else {
+        skipped.add(id);
+        newlySkipped.push(id);
+        changed = true;
+      }
+    }
+  }
+  return { ready, skipped: newlySkipped };
+}
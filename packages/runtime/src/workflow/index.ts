@@ -1,2 +1,7 @@
 export * from "./engine";
 export * from "./scheduler";
+export * from "./schedule";
+export * from "./graph";
+export * from "./expression";
+export * from "./edge-conditions";
+export * from "./io";
@@ -0,0 +1,192 @@
+import type { WorkflowIOSchema } from "@agentron-studio/core";
+import { validateJsonSchema } from "../llm/structured-output";
+import {
+  WorkflowExpressionError,
+  evaluateWorkflowExpression,
+  parseJsonLike,
+  parseWorkflowExpression,
+} from "./expression";
+
+/**
+ * Typed workflow inputs and outputs. A workflow may declare an inputSchema (run inputs are
+ * validated and defaulted before a run starts) and an outputMapping (result field → expression
+ * over node outputs, e.g. "nodes.summarize.title") whose result is checked against outputSchema.
+ */
+
+const FIELD_TYPES = ["string", "number", "integer", "boolean", "object", "array", "null"];
+
+/** One invalid input or output field; field is "" when the value as a whole is wrong. */
+export type WorkflowFieldError = { field: string; message: string };
+
+/** Thrown when a run's inputs or mapped output do not match the declared schema. */
+export class WorkflowIOError extends Error {
+  readonly fields: WorkflowFieldError[];
+
+  constructor(message: string, fields: WorkflowFieldError[]) {
+    super(message);
+    this.name = "WorkflowIOError";
+    this.fields = fields;
+  }
+}
+
+function checkSchema(schema: unknown, label: string): string[] {
+  if (schema == null) return [];
+  if (typeof schema !== "object" || Array.isArray(schema)) {
+    return [`${label} must be an object`];
+  }
+  const s = schema as Record<string, unknown>;
+  const errors: string[] = [];
+  if (s.type !== undefined && s.type !== "object") {
+    errors.push(`${label}.type must be "object"`);
+  }
+  const properties = s.properties ?? {};
+  if (typeof properties !== "object" || Array.isArray(properties)) {
+    return [...errors, `${label}.properties must be an object`];
+  }
+  for (const [name, prop] of Object.entries(properties as Record<string, unknown>)) {
+    if (prop == null || typeof prop !== "object" || Array.isArray(prop)) {
+      errors.push(`${label}.properties.${name} must be an object`);
+      continue;
+    }
+    const type = (prop as { type?: unknown }).type;
+    const types = Array.isArray(type) ? type : type === undefined ? [] : [type];
+    for (const t of types) {
+      if (!FIELD_TYPES.includes(t as string)) {
+        errors.push(`${label}.properties.${name}.type "${String(t)}" is not supported`);
+      }
+    }
+  }
+  if (s.required !== undefined) {
+    if (!Array.isArray(s.required) || s.required.some((r) => typeof r !== "string")) {
+      errors.push(`${label}.required must be an array of property names`);
+    } else {
+      for (const name of s.required as string[]) {
+        if (!(name in (properties as object))) {
+          errors.push(`${label}.required names unknown property "${name}"`);
+        }
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * Validates a workflow's inputSchema, outputSchema and outputMapping. Returns one message per
+ * problem; empty when everything is valid.
+ */
+export function validateWorkflowIO(workflow: {
+  inputSchema?: unknown;
+  outputSchema?: unknown;
+  outputMapping?: unknown;
+}): string[] {
+  const errors = [
+    ...checkSchema(workflow.inputSchema, "inputSchema"),
+    ...checkSchema(workflow.outputSchema, "outputSchema"),
+  ];
+  const mapping = workflow.outputMapping;
+  if (mapping == null) return errors;
+  if (typeof mapping !== "object" || Array.isArray(mapping)) {
+    return [...errors, "outputMapping must be an object of field → expression"];
+  }
+  for (const [field, expression] of Object.entries(mapping as Record<string, unknown>)) {
+    if (typeof expression !== "string" || !expression.trim()) {
+      errors.push(`outputMapping.${field} must be a non-empty expression`);
+      continue;
+    }
+    try {
+      parseWorkflowExpression(expression);
+    } catch (err) {
+      const message = err instanceof WorkflowExpressionError ? err.message : String(err);
+      errors.push(`outputMapping.${field}: ${message}`);
+    }
+  }
+  return errors;
+}
+
+/** Splits validateJsonSchema messages ("$.field: message") into field errors. */
+function toFieldErrors(messages: string[]): WorkflowFieldError[] {
+  return messages.map((m) => {
+    const match = /^\$\.?([^:]*): (.*)$/.exec(m);
+    return match ? { field: match[1], message: match[2] } : { field: "", message: m };
+  });
+}
+
+/** "field: message; …" for error responses and failed runs. */
+export function formatWorkflowFieldErrors(errors: WorkflowFieldError[]): string {
+  return errors.map((e) => (e.field ? `${e.field}: ${e.message}` : e.message)).join("; ");
+}
+
+/** Inputs with each missing property that declares a default filled in. */
+export function applyWorkflowInputDefaults(
+  schema: WorkflowIOSchema | null | undefined,
+  inputs: Record<string, unknown> | undefined
+): Record<string, unknown> {
+  const result = { ...(inputs ?? {}) };
+  for (const [name, prop] of Object.entries(schema?.properties ?? {})) {
+    if (result[name] === undefined && prop && "default" in prop) result[name] = prop.default;
+  }
+  return result;
+}
+
+/**
+ * Validates run inputs against a workflow's inputSchema after applying defaults. Without a schema
+ * any object is accepted. Returns the inputs to run with and the invalid fields.
+ */
+export function validateWorkflowInputs(
+  schema: WorkflowIOSchema | null | undefined,
+  inputs: unknown
+): { inputs: Record<string, unknown>; errors: WorkflowFieldError[] } {
+  if (inputs != null && (typeof inputs !== "object" || Array.isArray(inputs))) {
+    return { inputs: {}, errors: [{ field: "", message: "inputs must be an object" }] };
+  }
+  const withDefaults = applyWorkflowInputDefaults(
+    schema,
+    inputs as Record<string, unknown> | undefined
+  );
+  if (!schema) return { inputs: withDefaults, errors: [] };
+  const errors = toFieldErrors(validateJsonSchema(withDefaults, { ...schema, type: "object" }));
+  return { inputs: withDefaults, errors };
+}
+
+/** Outputs of the nodes that ran, keyed by node id (from the engine's __output_<id> context keys). */
+export function workflowNodeOutputs(context: Record<string, unknown>): Record<string, unknown> {
+  const nodes: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(context)) {
+    if (key.startsWith("__output_")) nodes[key.slice("__output_".length)] = parseJsonLike(value);
+  }
+  return nodes;
+}
+
+/**
+ * Builds a run result from an output mapping. Each expression is evaluated against
+ * { nodes, output, context, input }: nodes holds each node's output by id, output is the last
+ * node's output. Throws WorkflowIOError when outputSchema is set and the result does not match.
+ */
+export function mapWorkflowOutput(
+  workflow: {
+    outputMapping?: Record<string, string> | null;
+    outputSchema?: WorkflowIOSchema | null;
+  },
+  run: { output: unknown; context: Record<string, unknown>; input?: Record<string, unknown> }
+): Record<string, unknown> {
+  const scope = {
+    nodes: workflowNodeOutputs(run.context),
+    output: parseJsonLike(run.output),
+    context: run.context,
+    input: run.input ?? {},
+  };
+  const result: Record<string, unknown> = {};
+  for (const [field, expression] of Object.entries(workflow.outputMapping ?? {})) {
+    const value = evaluateWorkflowExpression(expression, scope);
+    if (value !== undefined) result[field] = value;
+  }
+  if (workflow.outputSchema) {
+    const errors = toFieldErrors(
+      validateJsonSchema(result, { ...workflow.outputSchema, type: "object" })
+    );
+    if (errors.length > 0) {
+      throw new WorkflowIOError(`Invalid output: ${formatWorkflowFieldErrors(errors)}`, errors);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,387 @@
+/**
+ * Workflow schedules, shared by WorkflowScheduler and WorkflowBranch.schedule:
+ *
+ * - interval seconds: "60"
+ * - cron, 5 fields (minute hour day-of-month month day-of-week) or 6 fields (second first):
+ *   "0 9 * * 1-5", "0 30 8 1 * *". Fields take *, ?, lists, ranges, steps (star/15, 1-10/2) and
+ *   names (JAN-DEC, SUN-SAT; 7 is also Sunday). @yearly, @monthly, @weekly, @daily and @hourly
+ *   are accepted. As in cron, a day matches when day-of-month OR day-of-week matches if both are
+ *   restricted.
+ * - legacy daily@HH:mm and weekly@0,1,2 (midnight on those days, Sunday=0), run as cron.
+ *
+ * Cron times are evaluated in an IANA timezone. Wall-clock times skipped by a DST change do not
+ * fire; times repeated by a DST change fire once.
+ */
+
+export class WorkflowScheduleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WorkflowScheduleError";
+  }
+}
+
+export type CronSchedule = {
+  type: "cron";
+  /** The schedule as written (cron expression, macro or legacy daily@/weekly@). */
+  expression: string;
+  seconds: Set<number>;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  /** 0-6, Sunday=0 */
+  daysOfWeek: Set<number>;
+  /** Whether day-of-month / day-of-week were * or ? (unrestricted). */
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+};
+
+export type ParsedSchedule = { type: "interval"; seconds: number } | CronSchedule;
+
+const MONTH_NAMES = [
+  "JAN",
+  "FEB",
+  "MAR",
+  "APR",
+  "MAY",
+  "JUN",
+  "JUL",
+  "AUG",
+  "SEP",
+  "OCT",
+  "NOV",
+  "DEC",
+];
+const DAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+const CRON_MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+type FieldSpec = { name: string; min: number; max: number; names?: string[]; namesFrom?: number };
+
+const FIELDS: Record<"second" | "minute" | "hour" | "dom" | "month" | "dow", FieldSpec> = {
+  second: { name: "second", min: 0, max: 59 },
+  minute: { name: "minute", min: 0, max: 59 },
+  hour: { name: "hour", min: 0, max: 23 },
+  dom: { name: "day of month", min: 1, max: 31 },
+  month: { name: "month", min: 1, max: 12, names: MONTH_NAMES, namesFrom: 1 },
+  dow: { name: "day of week", min: 0, max: 7, names: DAY_NAMES, namesFrom: 0 },
+};
+
+/** Cron fires are searched this far ahead; expressions that never match (e.g. Feb 30) give null. */
+const MAX_SEARCH_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+/** Parse interval seconds ("60"). Exported for tests. */
+export function parseScheduleSeconds(schedule: string): number | null {
+  const s = schedule.trim();
+  if (!/^\d+$/.test(s)) return null;
+  const n = parseInt(s, 10);
+  return n > 0 ? n : null;
+}
+
+/** Parse daily@HH:mm -> { hour, minute }. Exported for tests. */
+export function parseDaily(schedule: string): { hour: number; minute: number } | null {
+  const s = schedule.trim();
+  if (!s.startsWith("daily@")) return null;
+  const time = s.slice(6).trim();
+  const match = time.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  const hour = Math.min(23, Math.max(0, parseInt(match[1], 10)));
+  const minute = Math.min(59, Math.max(0, parseInt(match[2], 10)));
+  return { hour, minute };
+}
+
+/** Parse weekly@d1,d2,... (0-6, Sunday=0) -> days. Exported for tests. */
+export function parseWeekly(schedule: string): number[] | null {
+  const s = schedule.trim();
+  if (!s.startsWith("weekly@")) return null;
+  const part = s.slice(7).trim();
+  if (!part) return null;
+  const days = part.split(",").map((d) => Math.min(6, Math.max(0, parseInt(d.trim(), 10) || 0)));
+  return days.length > 0 ? days : null;
+}
+
+function parseFieldValue(raw: string, spec: FieldSpec): number {
+  const upper = raw.toUpperCase();
+  const named = spec.names?.indexOf(upper) ?? -1;
+  if (named >= 0) return named + (spec.namesFrom ?? 0);
+  if (!/^\d+$/.test(raw)) {
+    throw new WorkflowScheduleError(`Invalid ${spec.name} value "${raw}"`);
+  }
+  const n = parseInt(raw, 10);
+  if (n < spec.min || n > spec.max) {
+    throw new WorkflowScheduleError(
+      `${spec.name} value ${n} is out of range (${spec.min}-${spec.max})`
+    );
+  }
+  return n;
+}
+
+function parseField(raw: string, spec: FieldSpec): { values: Set<number>; any: boolean } {
+  if (raw === "*" || raw === "?") {
+    const values = new Set<number>();
+    for (let i = spec.min; i <= spec.max; i++) values.add(i);
+    return { values, any: true };
+  }
+  const values = new Set<number>();
+  for (const item of raw.split(",")) {
+    const [range, stepRaw] = item.split("/");
+    let step = 1;
+    if (stepRaw !== undefined) {
+      if (!/^\d+$/.test(stepRaw) || parseInt(stepRaw, 10) === 0) {
+        throw new WorkflowScheduleError(`Invalid ${spec.name} step "${item}"`);
+      }
+      step = parseInt(stepRaw, 10);
+    }
+    let from: number;
+    let to: number;
+    if (range === "*") {
+      from = spec.min;
+      to = spec.max;
+    } else if (range.includes("-")) {
+      const [a, b] = range.split("-");
+      from = parseFieldValue(a, spec);
+      to = parseFieldValue(b, spec);
+      if (from > to) {
+        throw new WorkflowScheduleError(`Invalid ${spec.name} range "${range}"`);
+      }
+    } else {
+      from = parseFieldValue(range, spec);
+      to = stepRaw !== undefined ? spec.max : from;
+    }
+    for (let i = from; i <= to; i += step) values.add(i);
+  }
+  return { values, any: false };
+}
+
+/** Parse a 5- or 6-field cron expression or a @macro. Throws WorkflowScheduleError when invalid. */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const source = CRON_MACROS[trimmed.toLowerCase()] ?? trimmed;
+  const parts = source.split(/\s+/).filter(Boolean);
+  if (parts.length !== 5 && parts.length !== 6) {
+    throw new WorkflowScheduleError(
+      `Cron expression must have 5 or 6 fields, got ${parts.length}: "${trimmed}"`
+    );
+  }
+  const [second, minute, hour, dom, month, dow] = parts.length === 6 ? parts : ["0", ...parts];
+  const daysOfMonth = parseField(dom, FIELDS.dom);
+  const daysOfWeek = parseField(dow, FIELDS.dow);
+  if (daysOfWeek.values.delete(7)) daysOfWeek.values.add(0);
+  return {
+    type: "cron",
+    expression: trimmed,
+    seconds: parseField(second, FIELDS.second).values,
+    minutes: parseField(minute, FIELDS.minute).values,
+    hours: parseField(hour, FIELDS.hour).values,
+    daysOfMonth: daysOfMonth.values,
+    months: parseField(month, FIELDS.month).values,
+    daysOfWeek: daysOfWeek.values,
+    anyDayOfMonth: daysOfMonth.any,
+    anyDayOfWeek: daysOfWeek.any,
+  };
+}
+
+/**
+ * Parse any supported schedule: interval seconds, cron (or @macro), daily@HH:mm or weekly@days.
+ * Throws WorkflowScheduleError when the schedule is not one of these.
+ */
+export function parseSchedule(schedule: string): ParsedSchedule {
+  const s = schedule.trim();
+  const seconds = parseScheduleSeconds(s);
+  if (seconds != null) return { type: "interval", seconds };
+  if (s.startsWith("daily@")) {
+    const daily = parseDaily(s);
+    if (!daily) throw new WorkflowScheduleError(`Invalid daily schedule "${s}" (use daily@HH:mm)`);
+    return { ...parseCron(`0 ${daily.minute} ${daily.hour} * * *`), expression: s };
+  }
+  if (s.startsWith("weekly@")) {
+    const days = parseWeekly(s);
+    if (!days) throw new WorkflowScheduleError(`Invalid weekly schedule "${s}" (use weekly@0,1,2)`);
+    return { ...parseCron(`0 0 0 * * ${days.join(",")}`), expression: s };
+  }
+  if (/^-?\d+$/.test(s)) {
+    throw new WorkflowScheduleError(`Interval must be a positive number of seconds, got "${s}"`);
+  }
+  return parseCron(s);
+}
+
+/** The server's timezone; schedules without a timezone use it. */
+export function defaultTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(timeZone: string): Intl.DateTimeFormat {
+  let f = formatters.get(timeZone);
+  if (!f) {
+    f = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timeZone, f);
+  }
+  return f;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Wall-clock time of an instant in a timezone, as a UTC timestamp with the same fields (whole seconds). */
+function wallClock(ms: number, timeZone: string): number {
+  const parts: Record<string, number> = {};
+  for (const p of formatter(timeZone).formatToParts(ms)) {
+    if (p.type !== "literal") parts[p.type] = parseInt(p.value, 10);
+  }
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+}
+
+/** Instant at which a timezone shows the wall-clock time, or null when DST skips it. */
+function fromWallClock(wall: number, timeZone: string): number | null {
+  const offset = wallClock(wall, timeZone) - wall;
+  let ms = wall - offset;
+  const actual = wallClock(ms, timeZone) - ms;
+  if (actual !== offset) ms = wall - actual;
+  return wallClock(ms, timeZone) === wall ? ms : null;
+}
+
+function dayMatches(cron: CronSchedule, day: Date): boolean {
+  const dom = cron.daysOfMonth.has(day.getUTCDate());
+  const dow = cron.daysOfWeek.has(day.getUTCDay());
+  if (cron.anyDayOfMonth || cron.anyDayOfWeek) return dom && dow;
+  return dom || dow;
+}
+
+function nextCronTime(cron: CronSchedule, after: number, timeZone: string): number | null {
+  let wall = wallClock(after, timeZone) + 1000;
+  const limit = wall + MAX_SEARCH_MS;
+  while (wall <= limit) {
+    const d = new Date(wall);
+    const [y, mo, day, h, mi] = [
+      d.getUTCFullYear(),
+      d.getUTCMonth(),
+      d.getUTCDate(),
+      d.getUTCHours(),
+      d.getUTCMinutes(),
+    ];
+    if (!cron.months.has(mo + 1)) {
+      wall = Date.UTC(y, mo + 1, 1);
+    } else if (!dayMatches(cron, d)) {
+      wall = Date.UTC(y, mo, day + 1);
+    } else if (!cron.hours.has(h)) {
+      wall = Date.UTC(y, mo, day, h + 1);
+    } else if (!cron.minutes.has(mi)) {
+      wall = Date.UTC(y, mo, day, h, mi + 1);
+    } else if (!cron.seconds.has(d.getUTCSeconds())) {
+      wall += 1000;
+    } else {
+      const ms = fromWallClock(wall, timeZone);
+      if (ms != null && ms > after) return ms;
+      wall += 1000;
+    }
+  }
+  return null;
+}
+
+/**
+ * Next fire time strictly after `after` (ms). Intervals count from `after`; cron times are
+ * evaluated in timeZone (server timezone by default). Null when a cron expression never matches.
+ */
+export function nextScheduleTime(
+  schedule: ParsedSchedule,
+  after: number,
+  timeZone: string = defaultTimeZone()
+): number | null {
+  if (schedule.type === "interval") return after + schedule.seconds * 1000;
+  return nextCronTime(schedule, after, timeZone);
+}
+
+/** The next `count` fire times after `after` (e.g. to preview a schedule). */
+export function upcomingScheduleTimes(
+  schedule: ParsedSchedule,
+  count: number,
+  after: number = Date.now(),
+  timeZone: string = defaultTimeZone()
+): number[] {
+  const times: number[] = [];
+  let t = after;
+  while (times.length < count) {
+    const next = nextScheduleTime(schedule, t, timeZone);
+    if (next == null) break;
+    times.push(next);
+    t = next;
+  }
+  return times;
+}
+
+const CATCH_UP_VALUES = ["skip", "run_once", "run_all"];
+
+/**
+ * Validates schedules, timezones and catch-up settings of a workflow and its branches. Schedules
+ * are checked where they are fire times (interval mode); continuous mode keeps its delay seconds.
+ * Returns messages naming the branch; empty when everything is valid.
+ */
+export function validateWorkflowSchedules(workflow: {
+  executionMode?: unknown;
+  schedule?: unknown;
+  timezone?: unknown;
+  catchUp?: unknown;
+  branches?: unknown;
+}): string[] {
+  const check = (
+    target: { executionMode?: unknown; schedule?: unknown; timezone?: unknown; catchUp?: unknown },
+    mode: unknown,
+    prefix: string
+  ): string[] => {
+    const errors: string[] = [];
+    if (mode === "interval" && typeof target.schedule === "string" && target.schedule.trim()) {
+      try {
+        parseSchedule(target.schedule);
+      } catch (err) {
+        errors.push(`${prefix}${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+    if (target.timezone != null && target.timezone !== "") {
+      if (typeof target.timezone !== "string" || !isValidTimeZone(target.timezone)) {
+        errors.push(`${prefix}unknown timezone "${String(target.timezone)}"`);
+      }
+    }
+    if (target.catchUp != null && !CATCH_UP_VALUES.includes(target.catchUp as string)) {
+      errors.push(`${prefix}catchUp must be one of ${CATCH_UP_VALUES.join(", ")}`);
+    }
+    return errors;
+  };
+  const errors = check(workflow, workflow.executionMode, "");
+  for (const b of Array.isArray(workflow.branches) ? workflow.branches : []) {
+    if (b == null || typeof b !== "object") continue;
+    const branch = b as { id?: unknown; executionMode?: unknown };
+    errors.push(
+      ...check(
+        branch,
+        branch.executionMode ?? workflow.executionMode,
+        `branch ${String(branch.id ?? "?")}: `
+      )
+    );
+  }
+  return errors;
+}
@@ -1,10 +1,16 @@
 import type { Workflow } from "@agentron-studio/core";
+import { nextScheduleTime, type ParsedSchedule } from "./schedule";
 
 type ScheduledJob = {
   workflowId: string;
-  intervalId: NodeJS.Timeout;
+  intervalId?: NodeJS.Timeout;
+  timeoutId?: NodeJS.Timeout;
+  cancelled?: boolean;
 };
 
+/** Longest delay setTimeout accepts; later fire times re-arm after this. */
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
 export class WorkflowScheduler {
   private jobs = new Map<string, ScheduledJob>();
 
@@ -16,18 +22,62 @@ export class WorkflowScheduler {
     this.jobs.set(workflow.id, { workflowId: workflow.id, intervalId });
   }
 
+  /**
+   * Run at each fire time of a parsed schedule (interval or cron, see parseSchedule) under key.
+   * The first run is at options.firstRunAt (default: next fire time from now). onNext receives
+   * each next fire time before its run starts, with the time that just fired (e.g. to persist
+   * them); runs never overlap, fire times passed during a long run are skipped.
+   */
+  scheduleRecurring(
+    key: string,
+    schedule: ParsedSchedule,
+    options: {
+      timeZone?: string;
+      firstRunAt?: number | null;
+      onNext?: (nextRunAt: number | null, firedAt: number) => void | Promise<void>;
+    },
+    run: (firedAt: number) => Promise<void>
+  ) {
+    this.clear(key);
+    const job: ScheduledJob = { workflowId: key };
+    this.jobs.set(key, job);
+    const next = (after: number) => nextScheduleTime(schedule, after, options.timeZone);
+    const arm = (at: number | null) => {
+      if (at == null || job.cancelled) return;
+      const delay = Math.max(0, at - Date.now());
+      job.timeoutId =
+        delay > MAX_TIMEOUT_MS
+          ? setTimeout(() => arm(at), MAX_TIMEOUT_MS)
+          : setTimeout(() => void fire(at), delay);
+    };
+    const fire = async (firedAt: number) => {
+      let nextRunAt = next(Math.max(firedAt, Date.now()));
+      try {
+        await options.onNext?.(nextRunAt, firedAt);
+        await run(firedAt);
+      } catch {
+        // keep the schedule running
+      }
+      if (nextRunAt != null && nextRunAt <= Date.now()) {
+        nextRunAt = next(Date.now());
+        await Promise.resolve(options.onNext?.(nextRunAt, firedAt)).catch(() => {});
+      }
+      arm(nextRunAt);
+    };
+    arm(options.firstRunAt !== undefined ? options.firstRunAt : next(Date.now()));
+  }
+
   clear(workflowId: string) {
     const job = this.jobs.get(workflowId);
     if (job) {
-      clearInterval(job.intervalId);
+      job.cancelled = true;
+      if (job.intervalId) clearInterval(job.intervalId);
+      if (job.timeoutId) clearTimeout(job.timeoutId);
       this.jobs.delete(workflowId);
     }
   }
 
   clearAll() {
-    for (const job of this.jobs.values()) {
-      clearInterval(job.intervalId);
-    }
-    this.jobs.clear();
+    for (const key of [...this.jobs.keys()]) this.clear(key);
   }
 }
@@ -0,0 +1,168 @@
+import { describe, it, expect } from "vitest";
+import { eq } from "drizzle-orm";
+import {
+  budgets,
+  db,
+  executions,
+  fromExecutionRow,
+  runLogs,
+  tokenUsage,
+  toBudgetRow,
+  toExecutionRow,
+  toTokenUsageRow,
+  workflowQueue,
+} from "../../../app/api/_lib/db";
+import type { Budget } from "../../../app/api/_lib/db";
+import {
+  budgetPeriodStart,
+  checkBudgets,
+  describeBudgetExceeded,
+  stopRunForBudget,
+} from "../../../app/api/_lib/budgets";
+import { getExecutionRunState, setExecutionRunState } from "../../../app/api/_lib/execution-events";
+import { listNotifications } from "../../../app/api/_lib/notifications-store";
+import { POST as resumePost } from "../../../app/api/runs/[id]/resume/route";
+
+async function insertBudget(fields: Partial<Budget>): Promise<Budget> {
+  const budget: Budget = {
+    id: crypto.randomUUID(),
+    scope: "workflow",
+    scopeId: crypto.randomUUID(),
+    action: "pause",
+    enabled: true,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    ...fields,
+  };
+  await db.insert(budgets).values(toBudgetRow(budget)).run();
+  return budget;
+}
+
+async function insertUsage(fields: { workflowId?: string; executionId?: string; cost: number }) {
+  await db
+    .insert(tokenUsage)
+    .values({
+      ...toTokenUsageRow({
+        id: crypto.randomUUID(),
+        executionId: fields.executionId,
+        workflowId: fields.workflowId,
+        provider: "openai",
+        model: "gpt-4o-mini",
+        promptTokens: 100,
+        completionTokens: 50,
+        estimatedCost: String(fields.cost),
+      }),
+      createdAt: Date.now(),
+    })
+    .run();
+}
+
+describe("budgets", () => {
+  it("budgetPeriodStart uses UTC days and months", () => {
+    const now = Date.UTC(2026, 2, 15, 23, 30);
+    expect(budgetPeriodStart("day", now)).toBe(Date.UTC(2026, 2, 15));
+    expect(budgetPeriodStart("month", now)).toBe(Date.UTC(2026, 2, 1));
+  });
+
+  it("checkBudgets adds pending cost to recorded spend and ignores other scopes", async () => {
+    const budget = await insertBudget({ name: "Daily cap", dailyLimit: 1 });
+    await insertUsage({ workflowId: budget.scopeId, cost: 0.6 });
+    const target = { workflowId: budget.scopeId };
+
+    expect(await checkBudgets(target, [{ cost: 0.3 }])).toBeNull();
+    expect(await checkBudgets({ workflowId: "other-workflow" }, [{ cost: 5 }])).toBeNull();
+
+    const exceeded = await checkBudgets(target, [{ cost: 0.5 }]);
+    expect(exceeded).toMatchObject({
+      budgetId: budget.id,
+      budgetName: "Daily cap",
+      scope: "workflow",
+      period: "day",
+      limit: 1,
+      action: "pause",
+    });
+    expect(exceeded!.spent).toBeCloseTo(1.1);
+    expect(describeBudgetExceeded(exceeded!)).toBe(
+      'Budget "Daily cap" reached: $1.1000 of $1 spent today (UTC).'
+    );
+
+    await db.update(budgets).set({ enabled: 0 }).where(eq(budgets.id, budget.id)).run();
+    expect(await checkBudgets(target, [{ cost: 0.5 }])).toBeNull();
+  });
+
+  it("per-run limits count only the run's usage", async () => {
+    const budget = await insertBudget({ perRunLimit: 0.5, action: "cancel" });
+    const runId = crypto.randomUUID();
+    await insertUsage({ workflowId: budget.scopeId, cost: 10 });
+    await insertUsage({ workflowId: budget.scopeId, executionId: runId, cost: 0.2 });
+
+    const target = { workflowId: budget.scopeId, runId };
+    expect(await checkBudgets(target, [])).toBeNull();
+    expect(await checkBudgets(target, [{ cost: 0.3 }])).toMatchObject({
+      period: "run",
+      action: "cancel",
+    });
+  });
+
+  it("stopRunForBudget pauses the run once, logs and notifies; resume restarts it", async () => {
+    const workflowId = crypto.randomUUID();
+    const runId = crypto.randomUUID();
+    await db
+      .insert(executions)
+      .values(
+        toExecutionRow({
+          id: runId,
+          targetType: "workflow",
+          targetId: workflowId,
+          status: "running",
+        })
+      )
+      .run();
+    await setExecutionRunState(runId, {
+      workflowId,
+      round: 0,
+      sharedContext: {},
+      status: "running",
+    });
+    const exceeded = {
+      budgetId: "b1",
+      scope: "workflow" as const,
+      scopeId: workflowId,
+      period: "run" as const,
+      spent: 0.52,
+      limit: 0.5,
+      action: "pause" as const,
+    };
+    const metadata = { targetType: "workflow", targetId: workflowId };
+
+    await stopRunForBudget(runId, exceeded, [], metadata);
+    await stopRunForBudget(runId, exceeded, [], metadata);
+
+    const [row] = await db.select().from(executions).where(eq(executions.id, runId));
+    const run = fromExecutionRow(row);
+    expect(run.status).toBe("paused");
+    expect((run.output as { budgetExceeded: unknown }).budgetExceeded).toEqual(exceeded);
+    expect((await getExecutionRunState(runId))?.status).toBe("paused");
+
+    const logs = await db.select().from(runLogs).where(eq(runLogs.executionId, runId));
+    expect(logs).toHaveLength(1);
+    expect(logs[0].message).toContain("Run paused.");
+
+    const { items } = await listNotifications({ types: ["run"] });
+    const notes = items.filter((n) => n.sourceId === runId);
+    expect(notes).toHaveLength(1);
+    expect(notes[0].title).toBe("Run paused: budget reached");
+    expect(notes[0].severity).toBe("warning");
+
+    const params = { params: Promise.resolve({ id: runId }) };
+    const res = await resumePost(new Request("http://localhost", { method: "POST" }), params);
+    expect(res.status).toBe(200);
+    expect((await res.json()).status).toBe("running");
+    expect((await getExecutionRunState(runId))?.status).toBe("running");
+    const [job] = await db.select().from(workflowQueue).where(eq(workflowQueue.runId, runId));
+    expect(job.type).toBe("workflow_resume");
+
+    const again = await resumePost(new Request("http://localhost", { method: "POST" }), params);
+    expect(again.status).toBe(400);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { POST as filesPost } from "../../../app/api/files/route";
+import {
+  loadChatAttachments,
+  parseChatAttachmentIds,
+} from "../../../app/api/_lib/chat-attachments";
+
+async function upload(content: BlobPart, name: string, type: string): Promise<string> {
+  const form = new FormData();
+  form.append("file", new Blob([content], { type }), name);
+  const res = await filesPost(
+    new Request("http://localhost/api/files", { method: "POST", body: form })
+  );
+  return ((await res.json()) as { id: string }).id;
+}
+
+describe("chat-attachments", () => {
+  it("parseChatAttachmentIds accepts { fileId } entries and ids, dropping duplicates and blanks", () => {
+    expect(
+      parseChatAttachmentIds([{ fileId: "a" }, "b", { fileId: " a " }, { fileId: "" }, 3])
+    ).toEqual(["a", "b"]);
+    expect(parseChatAttachmentIds(undefined)).toEqual([]);
+  });
+
+  it("loadChatAttachments sends images as image parts only to vision models", async () => {
+    const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47]) as Uint8Array<ArrayBuffer>;
+    const imageId = await upload(png, "shot.png", "image/png");
+    const textId = await upload("meeting notes", "notes.txt", "text/plain");
+
+    const withVision = await loadChatAttachments([imageId, textId, "missing"], true);
+    expect(withVision.names).toEqual(["shot.png", "notes.txt"]);
+    expect(withVision.parts).toEqual([
+      { type: "image", mimeType: "image/png", data: Buffer.from(png).toString("base64") },
+      { type: "text", text: "--- Attached file notes.txt ---\nmeeting notes" },
+    ]);
+
+    const withoutVision = await loadChatAttachments([imageId], false);
+    expect(withoutVision.parts).toEqual([
+      {
+        type: "text",
+        text: "[Attached image shot.png: the selected model cannot view images]",
+      },
+    ]);
+  });
+});
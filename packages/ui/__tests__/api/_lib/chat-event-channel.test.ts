@@ -7,6 +7,7 @@ import {
   setPendingJob,
   takePendingJob,
   hasPendingJob,
+  hasSubscribers,
 } from "../../../app/api/_lib/chat-event-channel";
 
 describe("chat-event-channel", () => {
@@ -32,6 +33,15 @@ describe("chat-event-channel", () => {
     expect(onEvent.mock.calls[1][0]).toEqual({ type: "done", content: "Done" });
   });
 
+  it("hasSubscribers reflects subscribe and unsubscribe", () => {
+    const turnId = "turn-subscribers-" + Date.now();
+    expect(hasSubscribers(turnId)).toBe(false);
+    const unsub = subscribe(turnId, vi.fn());
+    expect(hasSubscribers(turnId)).toBe(true);
+    unsub();
+    expect(hasSubscribers(turnId)).toBe(false);
+  });
+
   it("unsubscribe stops delivery", () => {
     const turnId = "turn-unsub-" + Date.now();
     const onEvent = vi.fn();
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  compareEvalRuns,
+  parseJudgeScore,
+  scoreEvalOutput,
+  summarizeEvalResults,
+  validateEvalScorer,
+} from "@agentron-studio/runtime";
+
+describe("scoreEvalOutput", () => {
+  it("scores exact, regex and json_schema cases", async () => {
+    expect(
+      await scoreEvalOutput(" Paris ", { expected: "paris", scorer: { type: "exact" } })
+    ).toEqual({ score: 1, passed: true });
+    expect(
+      (
+        await scoreEvalOutput("Paris", {
+          expected: "paris",
+          scorer: { type: "exact", caseSensitive: true },
+        })
+      ).passed
+    ).toBe(false);
+    expect(
+      await scoreEvalOutput("Order #123 shipped", {
+        scorer: { type: "regex", pattern: "#\\d+ shipped" },
+      })
+    ).toEqual({ score: 1, passed: true });
+    const schema = { type: "object", required: ["city"] };
+    expect(
+      await scoreEvalOutput('Here: {"city": "Paris"}', { scorer: { type: "json_schema", schema } })
+    ).toEqual({ score: 1, passed: true });
+    expect(
+      await scoreEvalOutput({ town: "Paris" }, { scorer: { type: "json_schema", schema } })
+    ).toEqual({ score: 0, passed: false, detail: "$.city: is required" });
+  });
+
+  it("scores similarity with the embedding dependency", async () => {
+    const embed = vi.fn().mockResolvedValue([
+      [1, 0],
+      [0.6, 0.8],
+    ]);
+    const result = await scoreEvalOutput(
+      "a",
+      { expected: "b", scorer: { type: "similarity", threshold: 0.5, encodingConfigId: "enc" } },
+      { embed }
+    );
+    expect(result.score).toBeCloseTo(0.6);
+    expect(result.passed).toBe(true);
+    expect(embed).toHaveBeenCalledWith(["a", "b"], "enc");
+    await expect(
+      scoreEvalOutput("a", { expected: "b", scorer: { type: "similarity" } })
+    ).rejects.toThrow("embedding model");
+  });
+
+  it("asks the judge for a score and reason", async () => {
+    const callLLM = vi
+      .fn()
+      .mockResolvedValue({ content: '{"score": 0.4, "reason": "misses the date"}' });
+    const result = await scoreEvalOutput(
+      "The meeting is on Monday",
+      { expected: "Monday 3 June", scorer: { type: "llm_judge", rubric: "Mentions the date" } },
+      { callLLM }
+    );
+    expect(result).toEqual({ score: 0.4, passed: false, detail: "misses the date" });
+    expect(callLLM.mock.calls[0][0].messages[1].content).toContain("Rubric: Mentions the date");
+  });
+});
+
+describe("parseJudgeScore", () => {
+  it("reads JSON scores, 0-10 scales and YES/NO replies", () => {
+    expect(parseJudgeScore('{"score": 8}')).toEqual({ score: 0.8, reason: undefined });
+    expect(parseJudgeScore("YES")).toEqual({ score: 1 });
+    expect(parseJudgeScore("not sure")).toEqual({ score: 0 });
+  });
+});
+
+describe("validateEvalScorer", () => {
+  it("reports unknown types, bad patterns and thresholds", () => {
+    expect(validateEvalScorer({ type: "bleu" })[0]).toContain("scorer.type must be one of");
+    expect(validateEvalScorer({ type: "regex", pattern: "(" })[0]).toContain(
+      "not a valid regular expression"
+    );
+    expect(validateEvalScorer({ type: "llm_judge", threshold: 2 })).toEqual([
+      "scorer.threshold must be a number between 0 and 1",
+    ]);
+    expect(validateEvalScorer({ type: "json_schema" })).toEqual([
+      "scorer.schema must be an object",
+    ]);
+  });
+});
+
+describe("compareEvalRuns", () => {
+  const baseline = [
+    { caseId: "a", score: 1, passed: true },
+    { caseId: "b", score: 0, passed: false },
+    { caseId: "c", score: 0.9, passed: true },
+  ];
+
+  it("flags cases that lose a pass as regressions", () => {
+    const report = compareEvalRuns(baseline, [
+      { caseId: "a", score: 0, passed: false },
+      { caseId: "b", score: 1, passed: true },
+      { caseId: "c", score: 0.9, passed: true },
+    ]);
+    expect(report.cases.map((c) => c.change)).toEqual(["regressed", "improved", "unchanged"]);
+    expect(report).toMatchObject({ regressions: 1, improvements: 1, regressed: true });
+  });
+
+  it("counts errored cases as failed with score 0", () => {
+    const candidate = baseline.map((r) => (r.caseId === "c" ? { ...r, error: "timeout" } : r));
+    expect(summarizeEvalResults(candidate)).toEqual({
+      caseCount: 3,
+      passedCount: 1,
+      meanScore: 1 / 3,
+    });
+    expect(compareEvalRuns(baseline, candidate).regressed).toBe(true);
+    expect(compareEvalRuns(baseline, baseline).regressed).toBe(false);
+  });
+});
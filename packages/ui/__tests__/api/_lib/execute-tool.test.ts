@@ -15,12 +15,15 @@ import {
   toExecutionRow,
   improvementJobs,
   guardrails,
+  executionLog,
   sandboxes,
+  evalResults,
 } from "../../../app/api/_lib/db";
 import { eq } from "drizzle-orm";
 import { AGENT_SPECIALIST_IMPROVEMENT_CLARIFICATION } from "../../../app/api/chat/route";
 import { resolveTemplateVars, executeTool } from "../../../app/api/chat/_lib/execute-tool";
 import { runWorkflow } from "../../../app/api/_lib/run-workflow";
+import { saveEvalSuite } from "../../../app/api/_lib/evals";
 import { getAppSettings } from "../../../app/api/_lib/app-settings";
 import { getContainerManager } from "../../../app/api/_lib/container-manager";
 import {
@@ -2743,20 +2746,77 @@ describe("execute-tool helpers", () => {
       expect(result).toEqual(expect.objectContaining({ error: "Job not found" }));
     });
 
-    it("evaluate_model persists result and returns evalId and metrics", async () => {
+    it("evaluate_model returns an error when the job has no eval suite", async () => {
       const createRes = await executeTool(
         "create_improvement_job",
-        { name: "Eval persist test job" },
+        { name: "Eval no suite job" },
         undefined
       );
       const jobId = (createRes as { id?: string }).id;
-      expect(typeof jobId).toBe("string");
       const result = await executeTool("evaluate_model", { jobId }, undefined);
-      expect(result).not.toEqual(expect.objectContaining({ error: expect.any(String) }));
-      expect((result as { evalId?: string }).evalId).toBeDefined();
-      expect((result as { metrics?: unknown }).metrics).toEqual(
-        expect.objectContaining({ accuracy: 0, loss: null })
+      expect(result).toEqual(
+        expect.objectContaining({ error: expect.stringContaining("No eval suite for this job") })
+      );
+    });
+
+    it("evaluate_model runs the job's eval suite and persists per-case results", async () => {
+      const agentRes = await executeTool(
+        "create_agent",
+        { name: "Eval student agent", kind: "node", protocol: "native" },
+        undefined
       );
+      const agentId = (agentRes as { id?: string }).id!;
+      const createRes = await executeTool(
+        "create_improvement_job",
+        { name: "Eval persist test job", scopeType: "agent", scopeId: agentId },
+        undefined
+      );
+      const jobId = (createRes as { id?: string }).id!;
+      const suite = {
+        id: crypto.randomUUID(),
+        name: "Capitals",
+        targetType: "improvement_job" as const,
+        targetId: jobId,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      };
+      await saveEvalSuite(suite, [
+        {
+          id: crypto.randomUUID(),
+          suiteId: suite.id,
+          name: "France",
+          input: "Capital of France?",
+          expected: "Paris",
+          scorer: { type: "exact" },
+          createdAt: 1,
+        },
+        {
+          id: crypto.randomUUID(),
+          suiteId: suite.id,
+          name: "Spain",
+          input: "Capital of Spain?",
+          expected: "Madrid",
+          scorer: { type: "exact" },
+          createdAt: 2,
+        },
+      ]);
+      vi.mocked(runWorkflow)
+        .mockResolvedValueOnce({ output: "Paris", context: {}, trail: [] })
+        .mockResolvedValueOnce({ output: "Barcelona", context: {}, trail: [] });
+
+      const result = (await executeTool("evaluate_model", { jobId }, undefined)) as {
+        evalRunId?: string;
+        metrics?: Record<string, unknown>;
+        failures?: { caseId: string }[];
+      };
+      expect(result.metrics).toEqual({ accuracy: 0.5, meanScore: 0.5, passed: 1, cases: 2 });
+      expect(result.failures).toHaveLength(1);
+      const rows = await db
+        .select()
+        .from(evalResults)
+        .where(eq(evalResults.evalRunId, result.evalRunId!));
+      expect(rows).toHaveLength(2);
+      expect(rows.every((r) => r.jobId === jobId && r.evalSetRef === suite.id)).toBe(true);
     });
   });
 
@@ -4964,6 +5024,122 @@ describe("execute-tool helpers", () => {
       const result = await executeTool("delete_guardrail", { id }, undefined);
       expect(result).toEqual(expect.objectContaining({ message: "Guardrail deleted." }));
     });
+
+    it("create_guardrail rejects invalid command patterns", async () => {
+      const result = await executeTool(
+        "create_guardrail",
+        { scope: "deployment", config: { deniedCommandPatterns: ["(rm"] } },
+        undefined
+      );
+      expect((result as { error: string }).error).toMatch(/Invalid guardrail config/);
+    });
+
+    it("create_guardrail and update_guardrail validate JSON text configs and the scope", async () => {
+      const bad = await executeTool(
+        "create_guardrail",
+        { scope: "deployment", config: '{"deniedPatterns":["[a-"]}' },
+        undefined
+      );
+      expect((bad as { error: string }).error).toMatch(/invalid regular expression \[a-/);
+      expect(
+        await executeTool("create_guardrail", { scope: "agent", config: {} }, undefined)
+      ).toEqual({ error: "scopeId required for agent" });
+      expect(
+        await executeTool("create_guardrail", { scope: "team", config: {} }, undefined)
+      ).toEqual({ error: "scope must be one of deployment, agent, workflow" });
+
+      const created = await executeTool(
+        "create_guardrail",
+        { scope: "deployment", config: '{"deniedDomains":["a.example"]}' },
+        undefined
+      );
+      const id = (created as { id: string }).id;
+      try {
+        const updated = await executeTool(
+          "update_guardrail",
+          { id, config: { allowedCommandPatterns: ["^ls", "*"] } },
+          undefined
+        );
+        expect((updated as { error: string }).error).toMatch(/allowedCommandPatterns/);
+        const stored = await executeTool("get_guardrail", { id }, undefined);
+        expect((stored as { config: unknown }).config).toEqual({ deniedDomains: ["a.example"] });
+      } finally {
+        await db.delete(guardrails).where(eq(guardrails.id, id)).run();
+      }
+    });
+
+    it("applies agent and workflow guardrails to workflow tool calls and logs under the run", async () => {
+      const agentId = "guardrail-agent-" + Date.now();
+      const created = await executeTool(
+        "create_guardrail",
+        { scope: "agent", scopeId: agentId, config: { deniedDomains: ["agent.example"] } },
+        undefined
+      );
+      const id = (created as { id: string }).id;
+      const runId = "guardrail-run-" + Date.now();
+      try {
+        const result = await executeTool(
+          "fetch_url",
+          { url: "https://agent.example/" },
+          { agentId, workflowId: "wf-guardrail", runId }
+        );
+        expect(result).toEqual(
+          expect.objectContaining({
+            blocked: true,
+            guardrail: { id, scope: "agent", rule: "domain_denied" },
+          })
+        );
+        const logs = await db
+          .select()
+          .from(executionLog)
+          .where(eq(executionLog.executionId, runId));
+        expect(JSON.parse(logs[0]?.payload ?? "{}")).toMatchObject({
+          guardrailId: id,
+          agentId,
+          workflowId: "wf-guardrail",
+        });
+      } finally {
+        await db.delete(guardrails).where(eq(guardrails.id, id)).run();
+      }
+    });
+
+    it("blocks fetch_url to a denied domain and logs the block", async () => {
+      const createRes = await executeTool(
+        "create_guardrail",
+        { scope: "deployment", config: { deniedDomains: ["blocked.example"] } },
+        undefined
+      );
+      const id = (createRes as { id: string }).id;
+      const conversationId = "guardrail-conv-" + Date.now();
+      try {
+        const result = await executeTool(
+          "fetch_url",
+          { url: "https://api.blocked.example/data" },
+          { conversationId }
+        );
+        expect(result).toEqual(
+          expect.objectContaining({
+            blocked: true,
+            toolName: "fetch_url",
+            guardrail: { id, scope: "deployment", rule: "domain_denied" },
+            error: expect.stringContaining("Blocked by guardrail"),
+          })
+        );
+        const logs = await db
+          .select()
+          .from(executionLog)
+          .where(eq(executionLog.executionId, conversationId));
+        expect(logs).toHaveLength(1);
+        expect(logs[0].phase).toBe("guardrail_block");
+        expect(JSON.parse(logs[0].payload ?? "{}")).toMatchObject({
+          guardrailId: id,
+          rule: "domain_denied",
+          url: "https://api.blocked.example/data",
+        });
+      } finally {
+        await db.delete(guardrails).where(eq(guardrails.id, id)).run();
+      }
+    });
   });
 
   describe("connector tools", () => {
@@ -0,0 +1,233 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { LLMConfig } from "@agentron-studio/core";
+import { LLMManager, type LLMRequest } from "@agentron-studio/runtime";
+
+const config: LLMConfig = { provider: "anthropic", model: "claude-test", extra: { apiKey: "k" } };
+
+const PNG = "iVBORw0KGgo=";
+
+type Payload = {
+  system?: Array<Record<string, unknown>>;
+  messages: Array<{ role: string; content: Array<Record<string, unknown>> }>;
+  tools?: Array<Record<string, unknown>>;
+};
+
+describe("Anthropic provider", () => {
+  const originalFetch = globalThis.fetch;
+  let payloads: Payload[];
+  let reply: Record<string, unknown>;
+
+  beforeEach(() => {
+    payloads = [];
+    reply = {
+      id: "msg_1",
+      content: [{ type: "text", text: "ok" }],
+      stop_reason: "end_turn",
+      usage: { input_tokens: 10, output_tokens: 2 },
+    };
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (_url: string, init: RequestInit) => {
+        payloads.push(JSON.parse(String(init.body)) as Payload);
+        return new Response(JSON.stringify(reply), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        });
+      })
+    );
+  });
+
+  afterEach(() => {
+    vi.stubGlobal("fetch", originalFetch);
+  });
+
+  async function chat(request: LLMRequest, llmConfig: LLMConfig = config) {
+    const manager = new LLMManager();
+    manager.registerDefaults();
+    return manager.chat(llmConfig, request);
+  }
+
+  it("maps system messages to the system prompt and tool calls to tool_use and tool_result blocks", async () => {
+    await chat({
+      messages: [
+        { role: "system", content: "Be brief." },
+        { role: "user", content: "Weather in Paris?" },
+        {
+          role: "assistant",
+          content: "Checking.",
+          toolCalls: [{ id: "call_1", name: "weather", arguments: '{"city":"Paris"}' }],
+        },
+        { role: "tool", toolCallId: "call_1", content: '{"temp":21}' },
+        { role: "user", content: "And tomorrow?" },
+      ],
+    });
+
+    const { system, messages } = payloads[0];
+    expect(system).toEqual([
+      { type: "text", text: "Be brief.", cache_control: { type: "ephemeral" } },
+    ]);
+    expect(messages.map((m) => m.role)).toEqual(["user", "assistant", "user"]);
+    expect(messages[1].content).toEqual([
+      { type: "text", text: "Checking." },
+      { type: "tool_use", id: "call_1", name: "weather", input: { city: "Paris" } },
+    ]);
+    // The tool result and the next user message share one user turn.
+    expect(messages[2].content[0]).toEqual({
+      type: "tool_result",
+      tool_use_id: "call_1",
+      content: '{"temp":21}',
+    });
+    expect(messages[2].content[1]).toMatchObject({ type: "text", text: "And tomorrow?" });
+  });
+
+  it("keeps images in tool results and replaces documents there with text", async () => {
+    await chat({
+      messages: [
+        { role: "user", content: "Screenshot it" },
+        {
+          role: "assistant",
+          content: "",
+          toolCalls: [{ id: "call_1", name: "screenshot", arguments: "not json" }],
+        },
+        {
+          role: "tool",
+          toolCallId: "call_1",
+          content: [
+            { type: "text", text: "[image 1]" },
+            { type: "image", mimeType: "image/png", data: PNG },
+            { type: "file", mimeType: "application/pdf", data: "JVBERi0=" },
+          ],
+        },
+      ],
+    });
+
+    const { messages } = payloads[0];
+    expect(messages[1].content).toEqual([
+      { type: "tool_use", id: "call_1", name: "screenshot", input: {} },
+    ]);
+    expect(messages[2].content[0]).toMatchObject({
+      type: "tool_result",
+      content: [
+        { type: "text", text: "[image 1]" },
+        { type: "image", source: { type: "base64", media_type: "image/png", data: PNG } },
+        { type: "text", text: "[document omitted from tool result]" },
+      ],
+    });
+  });
+
+  it("sets cache breakpoints on the last tool, the system prompt and the last block", async () => {
+    await chat({
+      messages: [
+        { role: "system", content: "First." },
+        { role: "system", content: "Second." },
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "a" },
+            { type: "text", text: "b" },
+          ],
+        },
+      ],
+      tools: [
+        { type: "function", function: { name: "one", description: "1", parameters: {} } },
+        { type: "function", function: { name: "two", description: "2", parameters: {} } },
+      ],
+    });
+
+    const { system, messages, tools } = payloads[0];
+    expect(system?.map((b) => b.cache_control)).toEqual([undefined, { type: "ephemeral" }]);
+    expect(tools?.map((t) => t.cache_control)).toEqual([undefined, { type: "ephemeral" }]);
+    expect(messages[0].content.map((b) => b.cache_control)).toEqual([
+      undefined,
+      { type: "ephemeral" },
+    ]);
+  });
+
+  it("sets no cache breakpoints when prompt caching is off", async () => {
+    await chat(
+      {
+        messages: [
+          { role: "system", content: "S" },
+          { role: "user", content: "Hi" },
+        ],
+      },
+      { ...config, extra: { apiKey: "k", promptCaching: false } }
+    );
+
+    expect(JSON.stringify(payloads[0])).not.toContain("cache_control");
+  });
+
+  it("maps stop reasons, tool calls and usage including cached prompt tokens", async () => {
+    reply = {
+      id: "msg_2",
+      content: [
+        { type: "text", text: "Let me look." },
+        { type: "tool_use", id: "toolu_1", name: "search", input: { q: "x" } },
+      ],
+      stop_reason: "tool_use",
+      usage: {
+        input_tokens: 5,
+        output_tokens: 7,
+        cache_read_input_tokens: 100,
+        cache_creation_input_tokens: 20,
+      },
+    };
+    const res = await chat({ messages: [{ role: "user", content: "Search x" }] });
+
+    expect(res.content).toBe("Let me look.");
+    expect(res.finishReason).toBe("tool_calls");
+    expect(res.toolCalls).toEqual([{ id: "toolu_1", name: "search", arguments: '{"q":"x"}' }]);
+    expect(res.usage).toEqual({
+      promptTokens: 125,
+      completionTokens: 7,
+      totalTokens: 132,
+      cacheReadTokens: 100,
+      cacheCreationTokens: 20,
+    });
+
+    for (const [stopReason, finishReason] of [
+      ["end_turn", "stop"],
+      ["max_tokens", "length"],
+      ["refusal", "content_filter"],
+    ]) {
+      reply = { id: "msg_3", content: [], stop_reason: stopReason, usage: {} };
+      expect((await chat({ messages: [{ role: "user", content: "Hi" }] })).finishReason).toBe(
+        finishReason
+      );
+    }
+  });
+
+  it("sends supported image types as base64 sources and other URLs as url sources", async () => {
+    await chat({
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "image", mimeType: "image/webp", data: PNG },
+            { type: "image", url: `data:image/jpeg;base64,${PNG}` },
+            { type: "image", url: "https://example.com/cat.gif" },
+          ],
+        },
+      ],
+    });
+
+    expect(payloads[0].messages[0].content.map((b) => b.source)).toEqual([
+      { type: "base64", media_type: "image/webp", data: PNG },
+      { type: "base64", media_type: "image/jpeg", data: PNG },
+      { type: "url", url: "https://example.com/cat.gif" },
+    ]);
+  });
+
+  it("rejects image types the API does not accept without sending the request", async () => {
+    for (const image of [
+      { type: "image" as const, mimeType: "image/bmp", data: PNG },
+      { type: "image" as const, url: `data:image/svg+xml;base64,${PNG}` },
+      { type: "image" as const, data: PNG },
+    ]) {
+      await expect(chat({ messages: [{ role: "user", content: [image] }] })).rejects.toThrow(
+        /Anthropic does not support images of type/
+      );
+    }
+    expect(payloads).toHaveLength(0);
+  });
+});
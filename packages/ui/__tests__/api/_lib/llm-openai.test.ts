@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { LLMConfig } from "@agentron-studio/core";
+import { LLMManager, type LLMRequest } from "@agentron-studio/runtime";
+
+const config: LLMConfig = { provider: "openai", model: "gpt-test", extra: { apiKey: "k" } };
+
+const PNG = "iVBORw0KGgo=";
+
+type Payload = { messages: Array<{ role: string; content: unknown; tool_call_id?: string }> };
+
+describe("OpenAI provider", () => {
+  const originalFetch = globalThis.fetch;
+  let payloads: Payload[];
+
+  beforeEach(() => {
+    payloads = [];
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (_url: string, init: RequestInit) => {
+        payloads.push(JSON.parse(String(init.body)) as Payload);
+        return new Response(
+          JSON.stringify({
+            id: "c1",
+            choices: [{ finish_reason: "stop", message: { content: "ok" } }],
+            usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+          }),
+          { status: 200, headers: { "Content-Type": "application/json" } }
+        );
+      })
+    );
+  });
+
+  afterEach(() => {
+    vi.stubGlobal("fetch", originalFetch);
+  });
+
+  async function chat(request: LLMRequest) {
+    const manager = new LLMManager();
+    manager.registerDefaults();
+    return manager.chat(config, request);
+  }
+
+  it("sends the images of a turn's tool results in one user message after the last result", async () => {
+    await chat({
+      messages: [
+        { role: "user", content: "Compare both pages" },
+        {
+          role: "assistant",
+          content: "",
+          toolCalls: [
+            { id: "call_a", name: "screenshot", arguments: '{"url":"a"}' },
+            { id: "call_b", name: "screenshot", arguments: '{"url":"b"}' },
+            { id: "call_c", name: "title", arguments: '{"url":"a"}' },
+          ],
+        },
+        {
+          role: "tool",
+          toolCallId: "call_a",
+          content: [
+            { type: "text", text: '{"image":"[image 1]"}' },
+            { type: "image", mimeType: "image/png", data: PNG },
+          ],
+        },
+        {
+          role: "tool",
+          toolCallId: "call_b",
+          content: [
+            { type: "text", text: '{"image":"[image 1]"}' },
+            { type: "image", mimeType: "image/png", data: PNG },
+          ],
+        },
+        { role: "tool", toolCallId: "call_c", content: "Page A" },
+      ],
+    });
+
+    const { messages } = payloads[0];
+    expect(messages.map((m) => [m.role, m.tool_call_id])).toEqual([
+      ["user", undefined],
+      ["assistant", undefined],
+      ["tool", "call_a"],
+      ["tool", "call_b"],
+      ["tool", "call_c"],
+      ["user", undefined],
+    ]);
+    expect(messages[2].content).toBe('{"image":"[image 1]"}');
+    expect(messages[5].content).toEqual([
+      { type: "text", text: "Images from the result of tool call call_a:" },
+      { type: "image_url", image_url: { url: `data:image/png;base64,${PNG}` } },
+      { type: "text", text: "Images from the result of tool call call_b:" },
+      { type: "image_url", image_url: { url: `data:image/png;base64,${PNG}` } },
+    ]);
+  });
+
+  it("adds no user message for tool results without images", async () => {
+    await chat({
+      messages: [
+        { role: "user", content: "Title?" },
+        {
+          role: "assistant",
+          content: "",
+          toolCalls: [{ id: "call_a", name: "title", arguments: "{}" }],
+        },
+        { role: "tool", toolCallId: "call_a", content: "Page A" },
+        { role: "assistant", content: "It is Page A." },
+      ],
+    });
+
+    expect(payloads[0].messages.map((m) => m.role)).toEqual([
+      "user",
+      "assistant",
+      "tool",
+      "assistant",
+    ]);
+  });
+});
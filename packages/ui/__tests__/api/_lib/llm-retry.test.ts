@@ -0,0 +1,130 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_RETRY_POLICY,
+  LLMManager,
+  LLMRequestError,
+  isRetryableError,
+  parseRetryAfter,
+  retryDelayMs,
+  type LLMProviderAdapter,
+} from "@agentron-studio/runtime";
+import { servedModelFields } from "../../../app/api/_lib/db";
+
+/** custom_http adapter that throws the queued errors in order, then answers with its model. */
+function flakyProvider(
+  errors: Record<string, unknown[]>
+): LLMProviderAdapter & { calls: string[] } {
+  const calls: string[] = [];
+  return {
+    provider: "custom_http",
+    calls,
+    chat: async (config) => {
+      calls.push(config.model);
+      const err = errors[config.model]?.shift();
+      if (err) throw err;
+      return { id: "r", content: `from ${config.model}`, raw: null };
+    },
+  };
+}
+
+const noWait = { maxRetries: 2, initialDelayMs: 1, maxDelayMs: 10 };
+
+describe("LLM retries and fallbacks", () => {
+  it("parseRetryAfter reads seconds and HTTP dates", () => {
+    expect(parseRetryAfter("2")).toBe(2000);
+    expect(parseRetryAfter(new Date(Date.now() + 5000).toUTCString())).toBeGreaterThan(3000);
+    expect(parseRetryAfter("soon")).toBeUndefined();
+    expect(parseRetryAfter(null)).toBeUndefined();
+  });
+
+  it("isRetryableError retries listed statuses and network errors only", () => {
+    expect(isRetryableError(new LLMRequestError("x", 429), DEFAULT_RETRY_POLICY)).toBe(true);
+    expect(isRetryableError(new LLMRequestError("x", 529), DEFAULT_RETRY_POLICY)).toBe(true);
+    expect(isRetryableError({ statusCode: 503 }, DEFAULT_RETRY_POLICY)).toBe(true);
+    expect(isRetryableError(new LLMRequestError("x", 401), DEFAULT_RETRY_POLICY)).toBe(false);
+    expect(isRetryableError(new TypeError("fetch failed"), DEFAULT_RETRY_POLICY)).toBe(true);
+    expect(isRetryableError(new Error("API key is required."), DEFAULT_RETRY_POLICY)).toBe(false);
+  });
+
+  it("retryDelayMs honors Retry-After up to maxDelayMs and backs off otherwise", () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, initialDelayMs: 100, maxDelayMs: 1000 };
+    expect(retryDelayMs(0, policy, new LLMRequestError("x", 429, 300))).toBe(300);
+    expect(retryDelayMs(0, policy, new LLMRequestError("x", 429, 5000))).toBeUndefined();
+    const third = retryDelayMs(2, policy, new LLMRequestError("x", 503)) ?? 0;
+    expect(third).toBeGreaterThanOrEqual(200);
+    expect(third).toBeLessThanOrEqual(400);
+  });
+
+  it("retries a rate-limited call and reports the failed attempts", async () => {
+    const provider = flakyProvider({ primary: [new LLMRequestError("busy", 429, 0)] });
+    const manager = new LLMManager();
+    manager.register(provider);
+    const res = await manager.chat(
+      { id: "p1", provider: "custom_http", model: "primary", extra: { retry: noWait } },
+      { messages: [{ role: "user", content: "hi" }] }
+    );
+    expect(res.content).toBe("from primary");
+    expect(provider.calls).toEqual(["primary", "primary"]);
+    expect(res.servedBy).toEqual({
+      provider: "custom_http",
+      model: "primary",
+      llmConfigId: "p1",
+      fallback: false,
+    });
+    expect(res.failedAttempts).toEqual([
+      { provider: "custom_http", model: "primary", llmConfigId: "p1", status: 429, error: "busy" },
+    ]);
+  });
+
+  it("falls back in order when a config fails, skipping unknown fallbacks", async () => {
+    const provider = flakyProvider({
+      primary: [new LLMRequestError("bad key", 401)],
+      second: [
+        new LLMRequestError("down", 503),
+        new LLMRequestError("down", 503),
+        new LLMRequestError("down", 503),
+      ],
+    });
+    const fallbacks: Record<
+      string,
+      { provider: "custom_http"; model: string; extra: Record<string, unknown> }
+    > = {
+      f2: { provider: "custom_http", model: "second", extra: { retry: noWait } },
+      f3: { provider: "custom_http", model: "third", extra: {} },
+    };
+    const manager = new LLMManager(undefined, async (id) => fallbacks[id]);
+    manager.register(provider);
+    const res = await manager.chat(
+      {
+        id: "p1",
+        provider: "custom_http",
+        model: "primary",
+        extra: { retry: noWait, fallbackLlmConfigIds: ["missing", "f2", "p1", "f3"] },
+      },
+      { messages: [{ role: "user", content: "hi" }] }
+    );
+    expect(res.content).toBe("from third");
+    expect(provider.calls).toEqual(["primary", "second", "second", "second", "third"]);
+    expect(res.servedBy).toMatchObject({ model: "third", llmConfigId: "f3", fallback: true });
+    expect(res.failedAttempts?.map((a) => a.status)).toEqual([401, 503, 503, 503]);
+    expect(servedModelFields(res, { provider: "custom_http", model: "primary" })).toEqual({
+      provider: "custom_http",
+      model: "third",
+      fallbackFrom: "custom_http/primary",
+      failedAttempts: 4,
+    });
+  });
+
+  it("throws the last error when every config fails", async () => {
+    const provider = flakyProvider({ primary: [new LLMRequestError("bad request", 400)] });
+    const manager = new LLMManager();
+    manager.register(provider);
+    await expect(
+      manager.chat(
+        { provider: "custom_http", model: "primary" },
+        { messages: [{ role: "user", content: "hi" }] }
+      )
+    ).rejects.toThrow("bad request");
+    expect(provider.calls).toEqual(["primary"]);
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { LLMConfig } from "@agentron-studio/core";
+import { LLMManager, type LLMStreamEvent } from "@agentron-studio/runtime";
+
+/** Event stream response whose body arrives in the given pieces (one read each). */
+function streamResponse(pieces: Array<string | Uint8Array>): Response {
+  const encoder = new TextEncoder();
+  return new Response(
+    new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const piece of pieces) {
+          controller.enqueue(typeof piece === "string" ? encoder.encode(piece) : piece);
+        }
+        controller.close();
+      },
+    }),
+    { status: 200, headers: { "Content-Type": "text/event-stream" } }
+  );
+}
+
+/** Cut text into pieces of `size` bytes, so events, lines and characters break across reads. */
+function splitBytes(text: string, size: number): Uint8Array[] {
+  const bytes = new TextEncoder().encode(text);
+  const out: Uint8Array[] = [];
+  for (let i = 0; i < bytes.length; i += size) out.push(bytes.slice(i, i + size));
+  return out;
+}
+
+async function stream(config: LLMConfig, response: Response) {
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async () => response)
+  );
+  const manager = new LLMManager();
+  manager.registerDefaults();
+  const events: LLMStreamEvent[] = [];
+  const result = await manager.chat(
+    config,
+    { messages: [{ role: "user", content: "Hi" }] },
+    undefined,
+    { onStream: (event) => events.push(event) }
+  );
+  return { events, result };
+}
+
+const openai: LLMConfig = { provider: "openai", model: "gpt-test", extra: { apiKey: "k" } };
+const anthropic: LLMConfig = {
+  provider: "anthropic",
+  model: "claude-test",
+  extra: { apiKey: "k" },
+};
+
+describe("LLM stream parsing", () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    vi.stubGlobal("fetch", originalFetch);
+  });
+
+  it("reads events split across reads, including inside a multi-byte character", async () => {
+    const body =
+      'data: {"id":"c1","choices":[{"delta":{"content":"Grüße "}}]}\n\n' +
+      'data: {"id":"c1","choices":[{"delta":{"content":"👋"},"finish_reason":"stop"}]}\n\n' +
+      "data: [DONE]\n\n";
+    for (const size of [1, 3, 7, 64]) {
+      const { events, result } = await stream(openai, streamResponse(splitBytes(body, size)));
+      expect(events).toEqual([
+        { type: "content", delta: "Grüße " },
+        { type: "content", delta: "👋" },
+      ]);
+      expect(result.content).toBe("Grüße 👋");
+      expect(result.finishReason).toBe("stop");
+    }
+  });
+
+  it("joins multi-line data, accepts CRLF and ignores comments and other fields", async () => {
+    const { events, result } = await stream(
+      openai,
+      streamResponse([
+        ": keep-alive\r\n\r\n",
+        'event: chunk\r\nid: 1\r\ndata: {"id":"c2",\r\ndata:"choices":[{"delta":{"content":"a"}}]}\r\n\r\n',
+        'data:{"id":"c2","choices":[{"delta":{"content":"b"}}]}\n\n',
+        "data: [DONE]\n\n",
+      ])
+    );
+    expect(events).toEqual([
+      { type: "content", delta: "a" },
+      { type: "content", delta: "b" },
+    ]);
+    expect(result.id).toBe("c2");
+  });
+
+  it("stops at [DONE] and reads a last event without a trailing blank line", async () => {
+    const done = await stream(
+      openai,
+      streamResponse([
+        'data: {"id":"c3","choices":[{"delta":{"content":"x"}}]}\n\n',
+        "data: [DONE]\n\n",
+        "data: not json\n\n",
+      ])
+    );
+    expect(done.result.content).toBe("x");
+
+    const unterminated = await stream(
+      openai,
+      streamResponse(['data: {"id":"c4","choices":[{"delta":{"content":"y"}}]}'])
+    );
+    expect(unterminated.result.content).toBe("y");
+  });
+
+  it("assembles streamed OpenAI tool call deltas per index with usage from the last chunk", async () => {
+    const chunk = (delta: unknown, extra: Record<string, unknown> = {}) =>
+      `data: ${JSON.stringify({ id: "c5", choices: [{ delta, ...extra }] })}\n\n`;
+    const { events, result } = await stream(
+      openai,
+      streamResponse([
+        chunk({
+          tool_calls: [{ index: 0, id: "call_a", function: { name: "search", arguments: "" } }],
+        }),
+        chunk({ tool_calls: [{ index: 0, function: { arguments: '{"q":' } }] }),
+        chunk({
+          tool_calls: [{ index: 1, id: "call_b", function: { name: "fetch", arguments: "{}" } }],
+        }),
+        chunk(
+          { tool_calls: [{ index: 0, function: { arguments: '"x"}' } }] },
+          { finish_reason: "tool_calls" }
+        ),
+        `data: ${JSON.stringify({
+          id: "c5",
+          choices: [],
+          usage: { prompt_tokens: 4, completion_tokens: 6, total_tokens: 10 },
+        })}\n\n`,
+        "data: [DONE]\n\n",
+      ])
+    );
+
+    expect(events).toEqual([
+      { type: "tool_call", index: 0, id: "call_a", name: "search", argumentsDelta: "" },
+      { type: "tool_call", index: 0, argumentsDelta: '{"q":' },
+      { type: "tool_call", index: 1, id: "call_b", name: "fetch", argumentsDelta: "{}" },
+      { type: "tool_call", index: 0, argumentsDelta: '"x"}' },
+    ]);
+    expect(result.toolCalls).toEqual([
+      { id: "call_a", name: "search", arguments: '{"q":"x"}' },
+      { id: "call_b", name: "fetch", arguments: "{}" },
+    ]);
+    expect(result.finishReason).toBe("tool_calls");
+    expect(result.usage).toMatchObject({ promptTokens: 4, completionTokens: 6, totalTokens: 10 });
+  });
+
+  it("reports an error chunk in an OpenAI stream", async () => {
+    await expect(
+      stream(openai, streamResponse(['data: {"error":{"message":"overloaded"}}\n\n']))
+    ).rejects.toThrow("LLM stream failed: overloaded");
+  });
+
+  it("assembles an Anthropic stream with text and tool input deltas", async () => {
+    const event = (type: string, data: Record<string, unknown>) =>
+      `event: ${type}\ndata: ${JSON.stringify({ type, ...data })}\n\n`;
+    const body = [
+      event("message_start", {
+        message: { id: "msg_1", usage: { input_tokens: 12, output_tokens: 1 } },
+      }),
+      event("content_block_start", { index: 0, content_block: { type: "text", text: "" } }),
+      event("content_block_delta", { index: 0, delta: { type: "text_delta", text: "Let me " } }),
+      event("ping", {}),
+      event("content_block_delta", { index: 0, delta: { type: "text_delta", text: "check." } }),
+      event("content_block_stop", { index: 0 }),
+      event("content_block_start", {
+        index: 1,
+        content_block: { type: "tool_use", id: "toolu_1", name: "search", input: {} },
+      }),
+      event("content_block_delta", {
+        index: 1,
+        delta: { type: "input_json_delta", partial_json: '{"q": "a' },
+      }),
+      event("content_block_delta", {
+        index: 1,
+        delta: { type: "input_json_delta", partial_json: 'b"}' },
+      }),
+      event("content_block_stop", { index: 1 }),
+      event("message_delta", { delta: { stop_reason: "tool_use" }, usage: { output_tokens: 9 } }),
+      event("message_stop", {}),
+    ].join("");
+    const { events, result } = await stream(anthropic, streamResponse(splitBytes(body, 5)));
+
+    expect(events).toEqual([
+      { type: "content", delta: "Let me " },
+      { type: "content", delta: "check." },
+      { type: "tool_call", index: 0, id: "toolu_1", name: "search", argumentsDelta: "" },
+      { type: "tool_call", index: 0, argumentsDelta: '{"q": "a' },
+      { type: "tool_call", index: 0, argumentsDelta: 'b"}' },
+    ]);
+    expect(result.content).toBe("Let me check.");
+    expect(result.toolCalls).toEqual([{ id: "toolu_1", name: "search", arguments: '{"q":"ab"}' }]);
+    expect(result.finishReason).toBe("tool_calls");
+    expect(result.usage).toMatchObject({ promptTokens: 12, completionTokens: 9 });
+  });
+
+  it("reports an error event in an Anthropic stream", async () => {
+    await expect(
+      stream(
+        anthropic,
+        streamResponse([
+          'event: error\ndata: {"type":"error","error":{"type":"overloaded_error","message":"Overloaded"}}\n\n',
+        ])
+      )
+    ).rejects.toThrow("LLM stream failed: overloaded_error: Overloaded");
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  buildMcpResourceContext,
+  mcpResourceText,
+  parseMcpResourceRefs,
+} from "../../../app/api/_lib/mcp-resources";
+
+const readResource = vi.fn();
+
+vi.mock("@agentron-studio/runtime", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@agentron-studio/runtime")>()),
+  getMCPClient: () => ({ readResource }),
+}));
+
+describe("mcp-resources", () => {
+  it("parseMcpResourceRefs keeps entries with a valid server and uri", () => {
+    expect(
+      parseMcpResourceRefs([
+        { server: "http://localhost:3001/mcp", uri: " notes://today " },
+        { server: { transport: "stdio", command: "uvx", args: ["mcp-notes"] }, uri: "notes://x" },
+        { server: { transport: "stdio" }, uri: "notes://y" },
+        { server: "http://localhost:3001/mcp" },
+        "notes://z",
+      ])
+    ).toEqual([
+      {
+        server: { transport: "streamable-http", url: "http://localhost:3001/mcp" },
+        uri: "notes://today",
+      },
+      { server: { transport: "stdio", command: "uvx", args: ["mcp-notes"] }, uri: "notes://x" },
+    ]);
+    expect(parseMcpResourceRefs(undefined)).toEqual([]);
+  });
+
+  it("mcpResourceText joins text parts and names binary parts", () => {
+    expect(
+      mcpResourceText([
+        { uri: "a", text: "first" },
+        { uri: "b", mimeType: "image/png", blob: "iVBORw0KGgo=" },
+      ])
+    ).toBe("first\n\n[binary image/png b]");
+  });
+
+  it("buildMcpResourceContext reads each resource, truncates long ones and reports failures", async () => {
+    readResource.mockImplementation(async (uri: string) => {
+      if (uri === "notes://gone") throw new Error("Resource not found");
+      return [{ uri, text: uri === "notes://long" ? "x".repeat(9000) : "Standup at 10:00" }];
+    });
+    const server = { url: "http://localhost:3001/mcp" };
+    const block = await buildMcpResourceContext([
+      { server, uri: "notes://today" },
+      { server, uri: "notes://long" },
+      { server, uri: "notes://gone" },
+    ]);
+    expect(block.startsWith("Attached resources:\n--- notes://today ---\nStandup at 10:00")).toBe(
+      true
+    );
+    expect(block).toContain(`${"x".repeat(8000)}\n[truncated]`);
+    expect(block).toContain("--- notes://gone ---\n[unavailable: Resource not found]");
+    expect(await buildMcpResourceContext([])).toBe("");
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect } from "vitest";
+import {
+  chunkDocument,
+  createTokenCounter,
+  parseChunkingConfig,
+  splitSentences,
+  validateChunkingConfig,
+} from "../../../app/api/_lib/rag-chunking";
+
+describe("chunkDocument", () => {
+  it("fixed: windows break at spaces and offsets point into the text", () => {
+    const text = Array.from({ length: 60 }, (_, i) => `word${i}`).join(" ");
+    const chunks = chunkDocument(text, { strategy: "fixed", size: 100, overlap: 10 });
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const c of chunks) {
+      expect(c.text).toBe(text.slice(c.start, c.end));
+      expect(c.text.length).toBeLessThanOrEqual(100);
+      expect(c.text).not.toMatch(/^\s|\s$/);
+    }
+    expect(chunks[0].start).toBe(0);
+    expect(chunks[chunks.length - 1].end).toBe(text.length);
+  });
+
+  it("defaults to 500-character fixed windows", () => {
+    const text = "a ".repeat(600);
+    const chunks = chunkDocument(text);
+    expect(chunks[0].text.length).toBeLessThanOrEqual(500);
+    expect(chunks.length).toBe(3);
+  });
+
+  it("token: windows stay within the token budget", () => {
+    const counter = createTokenCounter("text-embedding-3-small");
+    const text = "The quick brown fox jumps over the lazy dog. ".repeat(40);
+    const chunks = chunkDocument(
+      text,
+      { strategy: "token", size: 50, overlap: 5 },
+      "text-embedding-3-small"
+    );
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const c of chunks) {
+      expect(counter.count(c.text)).toBeLessThanOrEqual(50);
+      expect(c.text).toBe(text.slice(c.start, c.end));
+    }
+  });
+
+  it("markdown: splits at headings, prefixes the heading path and keeps code blocks whole", () => {
+    const text = [
+      "# Install",
+      "",
+      "Intro paragraph.",
+      "",
+      "## Linux",
+      "",
+      "Run the installer.",
+      "",
+      "```sh",
+      "# not a heading",
+      "curl -sSL https://example.com/install.sh | sh",
+      "```",
+      "",
+      "## macOS",
+      "",
+      "| Arch | Package |",
+      "| ---- | ------- |",
+      "| arm64 | pkg-arm |",
+    ].join("\n");
+    const chunks = chunkDocument(text, { strategy: "markdown", size: 200 });
+    expect(chunks.map((c) => c.headingPath)).toEqual([
+      ["Install"],
+      ["Install", "Linux"],
+      ["Install", "macOS"],
+    ]);
+    const linux = chunks[1];
+    expect(linux.text.startsWith("Install > Linux\n\n")).toBe(true);
+    expect(linux.text).toContain("# not a heading\ncurl");
+    expect(text.slice(linux.start, linux.end)).toBe(linux.text.slice("Install > Linux\n\n".length));
+    expect(chunks[2].text).toContain("| arm64 | pkg-arm |");
+  });
+
+  it("markdown: oversized blocks fall back to windows inside their section", () => {
+    const text = `# Big\n\n${"lorem ipsum ".repeat(50)}`;
+    const chunks = chunkDocument(text, { strategy: "markdown", size: 120, overlap: 0 });
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every((c) => c.headingPath[0] === "Big" && c.text.startsWith("Big\n\n"))).toBe(
+      true
+    );
+  });
+
+  it("code: splits at top-level definitions and names them", () => {
+    const text = [
+      "import fs from 'node:fs';",
+      "",
+      "// Reads a file.",
+      "export function readConfig(path: string) {",
+      "  return JSON.parse(fs.readFileSync(path, 'utf-8'));",
+      "}",
+      "",
+      "export class Store {",
+      "  get(key: string) {",
+      "    return this.data[key];",
+      "  }",
+      "}",
+    ].join("\n");
+    const chunks = chunkDocument(text, { strategy: "code", size: 80 });
+    const fn = chunks.find((c) => c.headingPath.includes("readConfig"));
+    expect(fn?.text.startsWith("// Reads a file.")).toBe(true);
+    expect(chunks.some((c) => c.headingPath[0] === "Store")).toBe(true);
+  });
+
+  it("code: splits an oversized class at its methods", () => {
+    const body = "    return 1;\n".repeat(5);
+    const text = `class Big:\n    def first(self):\n${body}    def second(self):\n${body}`;
+    const chunks = chunkDocument(text, { strategy: "code", size: 100 });
+    expect(chunks.map((c) => c.headingPath)).toContainEqual(["Big", "second"]);
+  });
+
+  it("sentence: groups sentences with overlap", () => {
+    const text = "One. Two is here. Three! Four? Five. Six.";
+    const chunks = chunkDocument(text, { strategy: "sentence", sentences: 3, sentenceOverlap: 1 });
+    expect(chunks.map((c) => c.text)).toEqual([
+      "One. Two is here. Three!",
+      "Three! Four? Five.",
+      "Five. Six.",
+    ]);
+  });
+
+  it("returns no chunks for blank text", () => {
+    expect(chunkDocument("   \n ")).toEqual([]);
+  });
+});
+
+describe("splitSentences", () => {
+  it("does not split on abbreviations", () => {
+    const text = "See e.g. the docs. Dr. Smith agrees.";
+    expect(splitSentences(text).map((s) => text.slice(s.start, s.end).trim())).toEqual([
+      "See e.g. the docs.",
+      "Dr. Smith agrees.",
+    ]);
+  });
+});
+
+describe("createTokenCounter", () => {
+  it("counts OpenAI models exactly with their tiktoken encoding", () => {
+    const counter = createTokenCounter("text-embedding-3-small");
+    expect(counter.count("hello world")).toBe(2);
+    expect(counter.count("tiktoken is great!")).toBe(6);
+    expect(counter.count("internationalization")).toBe(2);
+    expect(counter.count("<|endoftext|>")).toBeGreaterThan(1);
+    expect(counter.split("tiktoken is great!").reduce((n, p) => n + p.tokens, 0)).toBe(6);
+    expect(createTokenCounter("gpt-4o").count("hello world")).toBe(2);
+  });
+
+  it("falls back to an estimate for other models", () => {
+    expect(createTokenCounter("nomic-embed-text").count("hello, world")).toBe(3);
+    expect(createTokenCounter("mistral-embed").count("internationalization")).toBe(3);
+  });
+});
+
+describe("validateChunkingConfig", () => {
+  it("accepts unset and valid configs", () => {
+    expect(validateChunkingConfig(undefined)).toEqual([]);
+    expect(validateChunkingConfig({ strategy: "markdown", size: 800, unit: "tokens" })).toEqual([]);
+  });
+
+  it("rejects unknown strategies and bad sizes", () => {
+    expect(validateChunkingConfig({ strategy: "pages" })[0]).toContain("chunking.strategy");
+    expect(validateChunkingConfig({ strategy: "fixed", size: 0 })[0]).toContain("chunking.size");
+    expect(validateChunkingConfig({ strategy: "fixed", size: 100, overlap: 100 })).toContain(
+      "chunking.overlap must be smaller than chunking.size"
+    );
+    expect(validateChunkingConfig("fixed")).toEqual(["chunking must be an object"]);
+  });
+
+  it("parseChunkingConfig returns null for invalid stored values", () => {
+    expect(parseChunkingConfig('{"strategy":"sentence","sentences":4}')).toEqual({
+      strategy: "sentence",
+      sentences: 4,
+    });
+    expect(parseChunkingConfig("not json")).toBeNull();
+    expect(parseChunkingConfig(null)).toBeNull();
+  });
+});
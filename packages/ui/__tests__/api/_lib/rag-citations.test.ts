@@ -0,0 +1,151 @@
+import { describe, it, expect } from "vitest";
+import { ragDocuments, ragVectors } from "@agentron-studio/core";
+import { db } from "../../../app/api/_lib/db";
+import {
+  attachChunkSources,
+  buildCitedContext,
+  citationsUsedIn,
+  documentSource,
+  documentUrl,
+} from "../../../app/api/_lib/rag-citations";
+
+describe("documentUrl", () => {
+  it("prefers the url stored at sync", () => {
+    expect(
+      documentUrl({
+        id: "d1",
+        externalId: "123",
+        metadata: {
+          source: "confluence",
+          url: "https://wiki.example.com/pages/viewpage.action?pageId=123",
+        },
+      })
+    ).toBe("https://wiki.example.com/pages/viewpage.action?pageId=123");
+  });
+
+  it("derives connector links from the item id", () => {
+    expect(documentUrl({ id: "d1", externalId: "abc", metadata: { source: "google_drive" } })).toBe(
+      "https://drive.google.com/file/d/abc/view"
+    );
+    expect(documentUrl({ id: "d1", externalId: "1234-abcd", metadata: { source: "notion" } })).toBe(
+      "https://www.notion.so/1234abcd"
+    );
+  });
+
+  it("falls back to the stored file", () => {
+    expect(documentUrl({ id: "d 1", externalId: null, metadata: {} })).toBe(
+      "/api/rag/documents/d%201/content"
+    );
+  });
+});
+
+describe("documentSource", () => {
+  it("uses the original name, else the stored file name without the id prefix", () => {
+    const base = { collectionId: "c", externalId: null, mimeType: null, createdAt: 0 };
+    expect(
+      documentSource({
+        ...base,
+        id: "d1",
+        storePath: "uploads/x.md",
+        metadata: JSON.stringify({ originalName: "Handbook.pdf" }),
+      }).filename
+    ).toBe("Handbook.pdf");
+    expect(
+      documentSource({
+        ...base,
+        id: "d2",
+        storePath: "uploads/0b6c1f7e-1b2a-4c3d-8e9f-0a1b2c3d4e5f_setup.md",
+        metadata: null,
+      })
+    ).toEqual({ filename: "setup.md", url: "/api/rag/documents/d2/content" });
+  });
+});
+
+describe("buildCitedContext", () => {
+  it("numbers passages with their source and returns matching citations", () => {
+    const { context, citations } = buildCitedContext([
+      {
+        text: "Run the installer.",
+        documentId: "d1",
+        filename: "install.md",
+        headingPath: ["Install", "Linux"],
+        chunkIndex: 2,
+        start: 10,
+        end: 28,
+        url: "/api/rag/documents/d1/content",
+      },
+      { text: "x".repeat(300) },
+    ]);
+    expect(context).toBe(
+      `[1] install.md › Install > Linux\nRun the installer.\n\n[2]\n${"x".repeat(300)}`
+    );
+    expect(citations[0]).toEqual({
+      index: 1,
+      documentId: "d1",
+      filename: "install.md",
+      url: "/api/rag/documents/d1/content",
+      chunkIndex: 2,
+      start: 10,
+      end: 28,
+      headingPath: ["Install", "Linux"],
+      snippet: "Run the installer.",
+    });
+    expect(citations[1].snippet).toHaveLength(201);
+  });
+});
+
+describe("citationsUsedIn", () => {
+  it("keeps only citations referenced in the answer", () => {
+    const citations = [1, 2, 3].map((index) => ({ index }));
+    expect(citationsUsedIn("See [3] and [1][3].", citations)).toEqual([{ index: 1 }, { index: 3 }]);
+    expect(citationsUsedIn("No sources used.", citations)).toEqual([]);
+  });
+});
+
+describe("attachChunkSources", () => {
+  it("adds document sources and matches chunks without a document id by text", async () => {
+    const collectionId = `cite-${crypto.randomUUID()}`;
+    const documentId = crypto.randomUUID();
+    await db
+      .insert(ragDocuments)
+      .values({
+        id: documentId,
+        collectionId,
+        externalId: "page-1",
+        storePath: `uploads/${documentId}_faq.md`,
+        metadata: JSON.stringify({ source: "gitbook", name: "FAQ" }),
+        createdAt: Date.now(),
+      })
+      .run();
+    await db
+      .insert(ragVectors)
+      .values({
+        id: crypto.randomUUID(),
+        collectionId,
+        documentId,
+        chunkIndex: 4,
+        text: "Resetting a password",
+        embedding: "[]",
+        startOffset: 100,
+        endOffset: 120,
+        createdAt: Date.now(),
+      })
+      .run();
+
+    const [fromQdrant, unknown] = await attachChunkSources(collectionId, [
+      { text: "Resetting a password", score: 0.9 },
+      { text: "not stored" },
+    ]);
+    expect(fromQdrant).toMatchObject({
+      documentId,
+      chunkIndex: 4,
+      start: 100,
+      end: 120,
+      filename: "FAQ",
+      source: "FAQ",
+      connectorItemId: "page-1",
+      url: "https://app.gitbook.com/s/page-1",
+    });
+    expect(unknown).toEqual({ text: "not stored" });
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  buildKeywordQuery,
+  reciprocalRankFusion,
+  parseRerankScores,
+  rerankChunks,
+  validateRerankConfig,
+  parseRetrievalMode,
+  RRF_K,
+} from "../../../app/api/_lib/rag-retrieval";
+
+describe("buildKeywordQuery", () => {
+  it("quotes each term as a phrase and ORs them", () => {
+    expect(buildKeywordQuery("ERR-4012 license")).toBe('"ERR 4012" OR "license"');
+    expect(buildKeywordQuery('say "hi" AND *')).toBe('"say" OR "hi" OR "AND"');
+    expect(buildKeywordQuery("  -- ")).toBeNull();
+  });
+});
+
+describe("reciprocalRankFusion", () => {
+  it("sums 1/(k+rank) across lists and keeps per-stage scores", () => {
+    const fused = reciprocalRankFusion({
+      vector: [
+        { text: "a", score: 0.9 },
+        { text: "b", score: 0.8 },
+      ],
+      keyword: [
+        { text: "b", score: 4.2 },
+        { text: "c", score: 1.1 },
+      ],
+    });
+    expect(fused.map((c) => c.text)).toEqual(["b", "a", "c"]);
+    expect(fused[0].scores).toEqual({
+      vector: 0.8,
+      keyword: 4.2,
+      fused: 1 / (RRF_K + 2) + 1 / (RRF_K + 1),
+    });
+    expect(fused[2].scores.vector).toBeUndefined();
+  });
+});
+
+describe("rerank", () => {
+  it("parses one score per passage", () => {
+    expect(parseRerankScores("Scores: [3, 9.5, 0]", 3)).toEqual([3, 9.5, 0]);
+    expect(parseRerankScores("[1, 2]", 3)).toBeNull();
+    expect(parseRerankScores("none", 1)).toBeNull();
+  });
+
+  it("reorders the top candidates with LLM scores and keeps the rest", async () => {
+    const chunks = ["a", "b", "c"].map((text) => ({ text, score: 1, scores: { fused: 1 } }));
+    const chat = vi.fn().mockResolvedValue({ id: "r", content: "[2, 8]", raw: null });
+    const out = await rerankChunks("q", chunks, { type: "llm", llmConfigId: "c1", topN: 2 }, chat);
+    expect(out.map((c) => c.text)).toEqual(["b", "a", "c"]);
+    expect(out[0].scores).toEqual({ fused: 1, rerank: 8 });
+    expect(chat.mock.calls[0][0].llmConfigId).toBe("c1");
+  });
+
+  it("validates rerank configs and retrieval modes", () => {
+    expect(validateRerankConfig(null)).toEqual([]);
+    expect(validateRerankConfig({ type: "llm", llmConfigId: "x" })).toEqual([]);
+    expect(validateRerankConfig({ type: "endpoint", url: "ftp://x" })[0]).toMatch(/http/);
+    expect(validateRerankConfig({ type: "cohere" })[0]).toMatch(/type/);
+    expect(parseRetrievalMode("hybrid")).toBe("hybrid");
+    expect(parseRetrievalMode(null)).toBe("vector");
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import { eq } from "drizzle-orm";
+import { ragVectors } from "@agentron-studio/core";
+import { db } from "../../../app/api/_lib/db";
+import {
+  IVF_MIN_VECTORS,
+  buildVectorIndex,
+  decodeVector,
+  encodeVector,
+  loadVectorIndex,
+  maintainVectorIndex,
+  nearestList,
+  rowVector,
+  searchVectorIndex,
+} from "../../../app/api/_lib/rag-vector-index";
+
+const DIMENSIONS = 8;
+
+/** Unit vector along axis `axis` with a little deterministic noise, so vectors form 8 clusters. */
+function clusteredVector(axis: number, seed: number): number[] {
+  return Array.from({ length: DIMENSIONS }, (_, d) =>
+    d === axis ? 1 : (((seed * 31 + d * 17) % 13) - 6) / 100
+  );
+}
+
+async function insertVectors(collectionId: string, count: number, offset = 0) {
+  const rows = Array.from({ length: count }, (_, i) => ({
+    id: crypto.randomUUID(),
+    collectionId,
+    documentId: "doc",
+    chunkIndex: offset + i,
+    text: `chunk ${offset + i}`,
+    embedding: "",
+    embeddingBlob: encodeVector(clusteredVector((offset + i) % DIMENSIONS, offset + i)),
+    createdAt: Date.now(),
+  }));
+  for (let i = 0; i < rows.length; i += 500) {
+    await db
+      .insert(ragVectors)
+      .values(rows.slice(i, i + 500))
+      .run();
+  }
+}
+
+describe("rag-vector-index", () => {
+  it("round-trips Float32 blobs and reads legacy JSON rows", () => {
+    const blob = encodeVector([0.5, -1.25, 3]);
+    expect(blob.length).toBe(12);
+    expect(Array.from(decodeVector(blob))).toEqual([0.5, -1.25, 3]);
+    expect(Array.from(rowVector({ embedding: "[1,2]", embeddingBlob: null }) ?? [])).toEqual([
+      1, 2,
+    ]);
+    expect(rowVector({ embedding: "not json", embeddingBlob: null })).toBeNull();
+  });
+
+  it("scans small collections exactly without building an index", async () => {
+    const collectionId = `ivf-small-${crypto.randomUUID()}`;
+    await insertVectors(collectionId, 40);
+    await maintainVectorIndex(collectionId);
+    expect(await loadVectorIndex(collectionId)).toBeNull();
+
+    const top = await searchVectorIndex(collectionId, clusteredVector(3, 0), 5);
+    expect(top).toHaveLength(5);
+    expect(top[0].score).toBeGreaterThan(0.95);
+  });
+
+  it("builds an IVF index past the threshold and finds neighbours by probing lists", async () => {
+    const collectionId = `ivf-large-${crypto.randomUUID()}`;
+    await insertVectors(collectionId, IVF_MIN_VECTORS + 100);
+    await maintainVectorIndex(collectionId);
+
+    const index = await loadVectorIndex(collectionId);
+    expect(index?.dimensions).toBe(DIMENSIONS);
+    expect(index?.lists).toBeGreaterThanOrEqual(16);
+    const unassigned = (
+      await db.select().from(ragVectors).where(eq(ragVectors.collectionId, collectionId))
+    ).filter((r) => r.listId == null);
+    expect(unassigned).toHaveLength(0);
+
+    const top = await searchVectorIndex(collectionId, clusteredVector(5, 1), 10);
+    expect(top).toHaveLength(10);
+    expect(top.every((t) => t.score > 0.95)).toBe(true);
+  });
+
+  it("keeps the trained centroids until the collection grows 4x", async () => {
+    const collectionId = `ivf-grow-${crypto.randomUUID()}`;
+    await insertVectors(collectionId, IVF_MIN_VECTORS);
+    const built = await buildVectorIndex(collectionId);
+    expect(built).not.toBeNull();
+    expect(nearestList(built!, clusteredVector(2, 0))).not.toBeNull();
+    expect(nearestList(built!, [1, 0, 0])).toBeNull();
+
+    await insertVectors(collectionId, 100, IVF_MIN_VECTORS);
+    await maintainVectorIndex(collectionId);
+    expect((await loadVectorIndex(collectionId))?.trainedCount).toBe(IVF_MIN_VECTORS);
+  });
+
+  it("converts JSON embeddings to blobs when building", async () => {
+    const collectionId = `ivf-json-${crypto.randomUUID()}`;
+    await db
+      .insert(ragVectors)
+      .values({
+        id: crypto.randomUUID(),
+        collectionId,
+        documentId: "doc",
+        chunkIndex: 0,
+        text: "legacy",
+        embedding: JSON.stringify([0.1, 0.2]),
+        createdAt: Date.now(),
+      })
+      .run();
+    await buildVectorIndex(collectionId);
+    const [row] = await db
+      .select()
+      .from(ragVectors)
+      .where(eq(ragVectors.collectionId, collectionId));
+    expect(row.embedding).toBe("");
+    expect(Array.from(decodeVector(row.embeddingBlob!))).toEqual([
+      Math.fround(0.1),
+      Math.fround(0.2),
+    ]);
+    expect(row.listId).toBe(0);
+  });
+});
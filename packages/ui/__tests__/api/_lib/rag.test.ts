@@ -10,6 +10,7 @@ import { POST as vectorStorePost } from "../../../app/api/rag/vector-store/route
 import { embed } from "../../../app/api/_lib/embeddings";
 import * as vectorStoreQuery from "../../../app/api/_lib/vector-store-query";
 import * as apiLogger from "../../../app/api/_lib/api-logger";
+import { encodeVector } from "../../../app/api/_lib/rag-vector-index";
 
 vi.mock("../../../app/api/_lib/embeddings", () => ({
   embed: vi.fn().mockResolvedValue([[0.1, 0.1, 0.1]]),
@@ -211,47 +212,24 @@ describe("rag", () => {
       expect(chunks.length).toBeGreaterThanOrEqual(2);
     });
 
-    it("logs bundledCap when bundled vectors count reaches limit (5000)", async () => {
-      const BUNDLED_RAG_MAX_VECTORS = 5_000;
-      let selectCallCount = 0;
-      const origSelect = db.select.bind(db);
-      const selectSpy = vi.spyOn(db, "select").mockImplementation(((...args: unknown[]) => {
-        selectCallCount++;
-        if (selectCallCount === 2) {
-          return {
-            from: () => ({
-              where: () => ({
-                orderBy: () => ({
-                  limit: () =>
-                    Promise.resolve(
-                      Array(BUNDLED_RAG_MAX_VECTORS)
-                        .fill(null)
-                        .map((_, i) => ({
-                          id: `v-${i}`,
-                          collectionId,
-                          documentId: "d",
-                          chunkIndex: 0,
-                          text: "t",
-                          embedding: "[0.1,0.1,0.1]",
-                          createdAt: 0,
-                        }))
-                    ),
-                }),
-              }),
-            }),
-          } as unknown as ReturnType<typeof db.select>;
-        }
-        return origSelect(...(args as Parameters<typeof db.select>));
-      }) as typeof db.select);
-      const logSpy = vi.spyOn(apiLogger, "logApiError").mockImplementation(() => {});
-      try {
-        const chunks = await retrieveChunks(collectionId, "query", 5);
-        expect(chunks.length).toBe(5);
-        expect(logSpy).toHaveBeenCalledWith("rag", "bundledCap", expect.any(Error));
-      } finally {
-        selectSpy.mockRestore();
-        logSpy.mockRestore();
-      }
+    it("searches Float32 blob embeddings alongside JSON rows", async () => {
+      await db
+        .insert(ragVectors)
+        .values({
+          id: crypto.randomUUID(),
+          collectionId,
+          documentId: "doc-blob",
+          chunkIndex: 0,
+          text: "blob chunk",
+          embedding: "",
+          embeddingBlob: encodeVector([0.2, 0.2, 0.2]),
+          createdAt: Date.now(),
+        })
+        .run();
+      const chunks = await retrieveChunks(collectionId, "query", 10);
+      const blob = chunks.find((c) => c.text === "blob chunk");
+      expect(blob?.score).toBeCloseTo(1, 5);
+      expect(blob?.documentId).toBe("doc-blob");
     });
 
     it("uses empty config when collection has Qdrant store with null config", async () => {
@@ -601,4 +579,135 @@ describe("rag", () => {
       expect(chunks.some((c) => c.text === "bundled fallback chunk")).toBe(true);
     });
   });
+
+  describe("retrieval modes", () => {
+    async function createCollection(extra: Record<string, unknown>): Promise<string> {
+      const encRes = await encPost(
+        new Request("http://localhost/api/rag/encoding-config", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            name: "Enc modes",
+            provider: "openai",
+            modelOrEndpoint: "text-embedding-3-small",
+            dimensions: 3,
+          }),
+        })
+      );
+      const storeRes = await storePost(
+        new Request("http://localhost/api/rag/document-store", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            name: "Store modes",
+            type: "minio",
+            bucket: "b",
+            endpoint: "http://localhost:9000",
+          }),
+        })
+      );
+      const collRes = await collPost(
+        new Request("http://localhost/api/rag/collections", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            name: "Coll modes",
+            scope: "agent",
+            encodingConfigId: (await encRes.json()).id,
+            documentStoreId: (await storeRes.json()).id,
+            ...extra,
+          }),
+        })
+      );
+      expect(collRes.status).toBe(201);
+      const collectionId = (await collRes.json()).id as string;
+      const rows = [
+        { text: "General troubleshooting guide for the sync service", embedding: [0.1, 0.1, 0.1] },
+        { text: "Error ERR-4012 means the license key expired", embedding: [0.5, 0, 0] },
+        { text: "Release notes for the desktop app", embedding: [0.1, 0.1, 0.09] },
+      ];
+      await db
+        .insert(ragVectors)
+        .values(
+          rows.map((r, i) => ({
+            id: crypto.randomUUID(),
+            collectionId,
+            documentId: "doc-modes",
+            chunkIndex: i,
+            text: r.text,
+            embedding: JSON.stringify(r.embedding),
+            createdAt: Date.now(),
+          }))
+        )
+        .run();
+      return collectionId;
+    }
+
+    it("rejects an unknown retrieval mode", async () => {
+      const res = await collPost(
+        new Request("http://localhost/api/rag/collections", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            name: "Bad mode",
+            scope: "agent",
+            encodingConfigId: "e",
+            documentStoreId: "s",
+            retrievalMode: "fuzzy",
+          }),
+        })
+      );
+      expect(res.status).toBe(400);
+    });
+
+    it("keyword mode finds exact identifiers with BM25 scores and no embedding", async () => {
+      const collectionId = await createCollection({ retrievalMode: "keyword" });
+      vi.mocked(embed).mockClear();
+      const chunks = await retrieveChunks(collectionId, "ERR-4012", 5);
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0].text).toContain("ERR-4012");
+      expect(chunks[0].scores?.keyword).toBeGreaterThan(0);
+      expect(embed).not.toHaveBeenCalled();
+    });
+
+    it("hybrid mode fuses vector and keyword ranks and reports both scores", async () => {
+      const collectionId = await createCollection({ retrievalMode: "hybrid" });
+      const chunks = await retrieveChunks(collectionId, "what is ERR-4012", 3);
+      expect(chunks[0].text).toContain("ERR-4012");
+      expect(chunks[0].scores).toMatchObject({
+        vector: expect.any(Number),
+        keyword: expect.any(Number),
+        fused: expect.any(Number),
+      });
+      const vectorOnly = chunks.find((c) => c.text.startsWith("Release notes"));
+      expect(vectorOnly?.scores?.keyword).toBeUndefined();
+      expect(vectorOnly?.scores?.fused).toBeLessThan(chunks[0].scores?.fused ?? 0);
+    });
+
+    it("reranks with a cross-encoder endpoint and keeps fused order when it fails", async () => {
+      const collectionId = await createCollection({
+        retrievalMode: "hybrid",
+        rerank: { type: "endpoint", url: "http://rerank.local/rerank" },
+      });
+      const fetchSpy = vi.spyOn(globalThis, "fetch").mockImplementationOnce(async (_url, init) => {
+        const body = JSON.parse(String(init?.body)) as { documents: string[] };
+        const results = body.documents.map((d, index) => ({
+          index,
+          relevance_score: d.startsWith("Release notes") ? 0.9 : 0.1,
+        }));
+        return new Response(JSON.stringify({ results }), { status: 200 });
+      });
+      const reranked = await retrieveChunks(collectionId, "ERR-4012", 3);
+      expect(reranked[0].text).toMatch(/^Release notes/);
+      expect(reranked[0].scores?.rerank).toBe(0.9);
+
+      fetchSpy.mockResolvedValueOnce(new Response("down", { status: 503 }));
+      const logSpy = vi.spyOn(apiLogger, "logApiError").mockImplementation(() => {});
+      const fallback = await retrieveChunks(collectionId, "ERR-4012", 3);
+      expect(fallback[0].text).toContain("ERR-4012");
+      expect(fallback[0].scores?.rerank).toBeUndefined();
+      expect(logSpy).toHaveBeenCalledWith("rag", "rerank", expect.any(Error));
+      vi.restoreAllMocks();
+    });
+  });
 });
@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import { eq } from "drizzle-orm";
+import {
+  RateLimiter,
+  RateLimitQuotaError,
+  checkRateLimits,
+  quotaPeriodId,
+} from "@agentron-studio/runtime";
+import { db, llmConfigs } from "../../../app/api/_lib/db";
+import { SqliteRateLimitStore, getQuotaUsage } from "../../../app/api/_lib/rate-limit-store";
+import { GET } from "../../../app/api/rate-limit/queue/route";
+
+const emptyState = {
+  requestTs: [],
+  tokenEntries: [],
+  activeRequests: 0,
+  tokensToday: 0,
+  tokensThisMonth: 0,
+};
+
+function uniqueKey(name: string) {
+  return `test-${name}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+describe("LLM rate limit store", () => {
+  it("quotaPeriodId uses UTC days and months", () => {
+    const ts = Date.UTC(2026, 0, 31, 23, 59);
+    expect(quotaPeriodId("day", ts)).toBe("day:2026-01-31");
+    expect(quotaPeriodId("month", ts)).toBe("month:2026-01");
+  });
+
+  it("checkRateLimits reports quotas before request and concurrency limits", () => {
+    const now = Date.UTC(2026, 4, 10, 12);
+    expect(checkRateLimits(emptyState, { requestsPerMinute: 10 }, now)).toMatchObject({
+      allowed: true,
+    });
+    const busy = checkRateLimits(
+      { ...emptyState, activeRequests: 2 },
+      { requestsPerMinute: 10, maxConcurrent: 2 },
+      now
+    );
+    expect(busy).toEqual({ allowed: false, waitMs: expect.any(Number), reason: "concurrency" });
+    const over = checkRateLimits(
+      { ...emptyState, activeRequests: 2, tokensToday: 500 },
+      { requestsPerMinute: 10, maxConcurrent: 2, tokensPerDay: 500 },
+      now
+    );
+    expect(over).toMatchObject({
+      allowed: false,
+      waitMs: Date.UTC(2026, 4, 11) - now,
+      quota: { period: "day", used: 500, limit: 500 },
+    });
+  });
+
+  it("holds concurrency slots in SQLite until released, across limiter instances", async () => {
+    const key = uniqueKey("concurrency");
+    const limits = { requestsPerMinute: 100, maxConcurrent: 1 };
+    const first = new RateLimiter(new SqliteRateLimitStore());
+    const second = new RateLimiter(new SqliteRateLimitStore());
+    const lease = await first.acquire(key, limits);
+    let acquired = false;
+    const waiting = second.acquire(key, limits).then((l) => {
+      acquired = true;
+      return l;
+    });
+    await new Promise((r) => setTimeout(r, 100));
+    expect(acquired).toBe(false);
+    expect(second.getPending()).toHaveLength(1);
+    expect(second.getPending()[0].reason).toBe("concurrency");
+    await lease.release();
+    const next = await waiting;
+    expect(acquired).toBe(true);
+    await next.release();
+  });
+
+  it("persists token quota usage and rejects requests over the quota", async () => {
+    const key = uniqueKey("quota");
+    const limits = { requestsPerMinute: 100, tokensPerDay: 1000 };
+    const limiter = new RateLimiter(new SqliteRateLimitStore());
+    const lease = await limiter.acquire(key, limits);
+    await limiter.recordTokens(key, 600);
+    await lease.release();
+    const lease2 = await limiter.acquire(key, limits);
+    await limiter.recordTokens(key, 600);
+    await lease2.release();
+
+    // A fresh limiter (e.g. after a restart) sees the usage stored in SQLite.
+    const restarted = new RateLimiter(new SqliteRateLimitStore());
+    await expect(restarted.acquire(key, limits, { source: "workflow" })).rejects.toBeInstanceOf(
+      RateLimitQuotaError
+    );
+    const [rejected] = restarted.getRecentRejected();
+    expect(rejected.key).toBe(key);
+    expect(rejected.error).toContain("Daily token quota exceeded");
+    expect(rejected.error).toContain("1,200 of 1,000");
+
+    const usage = await getQuotaUsage([key]);
+    expect(usage[key]).toEqual({ tokensToday: 1200, tokensThisMonth: 1200 });
+  });
+
+  it("GET /api/rate-limit/queue lists quota usage of configs with a quota", async () => {
+    const id = uniqueKey("queue-quota");
+    await db
+      .insert(llmConfigs)
+      .values({
+        id,
+        provider: "openai",
+        model: "gpt-4o-mini",
+        endpoint: null,
+        apiKeyRef: null,
+        extra: JSON.stringify({ rateLimit: { tokensPerMonth: 5000 } }),
+      })
+      .run();
+    try {
+      await new SqliteRateLimitStore().recordTokens(id, 250, Date.now());
+      const res = await GET();
+      const data = await res.json();
+      expect(Array.isArray(data.recentRejected)).toBe(true);
+      expect(data.quotas).toContainEqual({
+        llmConfigId: id,
+        provider: "openai",
+        model: "gpt-4o-mini",
+        tokensToday: 250,
+        tokensThisMonth: 250,
+        tokensPerMonth: 5000,
+      });
+    } finally {
+      await db.delete(llmConfigs).where(eq(llmConfigs.id, id)).run();
+    }
+  });
+});
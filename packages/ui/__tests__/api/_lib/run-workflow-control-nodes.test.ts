@@ -0,0 +1,217 @@
+import { describe, it, expect } from "vitest";
+import { SharedContextManager } from "@agentron-studio/runtime";
+import {
+  createControlNodeHandlers,
+  getPreviousOutput,
+  buildExpressionScope,
+  MAX_DELAY_MS,
+  type ControlNodeStep,
+} from "../../../app/api/_lib/run-workflow-control-nodes";
+import { RUN_CANCELLED_MESSAGE } from "../../../app/api/_lib/run-workflow-constants";
+
+type Edge = { from: string; to: string; branch?: string };
+
+function setup(
+  edges: Edge[],
+  extra: Partial<Parameters<typeof createControlNodeHandlers>[0]> = {}
+) {
+  const steps: ControlNodeStep[] = [];
+  const handlers = createControlNodeHandlers({
+    getUpstreamNodeIds: (id) => [...new Set(edges.filter((e) => e.to === id).map((e) => e.from))],
+    getOutgoingBranches: (id) =>
+      edges.filter((e) => e.from === id && e.branch != null).map((e) => e.branch as string),
+    onStep: (s) => {
+      steps.push(s);
+    },
+    ...extra,
+  });
+  return { handlers, steps };
+}
+
+describe("getPreviousOutput", () => {
+  it("prefers joined inputs, then the last node, then upstream outputs", () => {
+    const ctx = new SharedContextManager({
+      __inputs_c: { a: "A", b: "B" },
+      __output_a: "A",
+      __last_node_id: "a",
+    });
+    expect(getPreviousOutput("c", ctx, ["a", "b"])).toEqual({ a: "A", b: "B" });
+    expect(getPreviousOutput("d", ctx, ["b"])).toBe("A");
+    const noLast = new SharedContextManager({ __output_b: "B" });
+    expect(getPreviousOutput("d", noLast, ["a", "b"])).toBe("B");
+  });
+});
+
+describe("buildExpressionScope", () => {
+  it("exposes parsed output, user context and node outputs without internals", () => {
+    const ctx = new SharedContextManager({
+      topic: "ai",
+      __summary: "hidden",
+      __output_a: '{"score": 3}',
+    });
+    const scope = buildExpressionScope('{"ok": true}', ctx, { url: "x" });
+    expect(scope.output).toEqual({ ok: true });
+    expect(scope.context).toEqual({ topic: "ai" });
+    expect(scope.outputs).toEqual({ a: { score: 3 } });
+    expect(scope.input).toEqual({ url: "x" });
+  });
+});
+
+describe("control node handlers", () => {
+  it("condition stores the true/false branch and passes the input through", async () => {
+    const { handlers, steps } = setup([{ from: "a", to: "cond" }]);
+    const ctx = new SharedContextManager({ __output_a: '{"score": 0.9}', __last_node_id: "a" });
+    const out = await handlers.condition("cond", { expression: "output.score >= 0.8" }, ctx);
+    expect(out).toBe('{"score": 0.9}');
+    expect(ctx.get("__branch_cond")).toBe("true");
+    expect(steps[0]).toMatchObject({ nodeId: "cond", nodeType: "condition", branch: "true" });
+
+    ctx.set("__output_a", '{"score": 0.2}');
+    await handlers.condition("cond", { expression: "output.score >= 0.8" }, ctx);
+    expect(ctx.get("__branch_cond")).toBe("false");
+  });
+
+  it("condition without expression throws", async () => {
+    const { handlers } = setup([]);
+    await expect(handlers.condition("cond", {}, new SharedContextManager({}))).rejects.toThrow(
+      /missing expression/
+    );
+  });
+
+  it("switch picks the matching branch or default", async () => {
+    const edges = [
+      { from: "a", to: "sw" },
+      { from: "sw", to: "x", branch: "billing" },
+      { from: "sw", to: "y", branch: "default" },
+    ];
+    const { handlers } = setup(edges);
+    const ctx = new SharedContextManager({ __output_a: "Billing", __last_node_id: "a" });
+    await handlers.switch("sw", { expression: "lower(output)" }, ctx);
+    expect(ctx.get("__branch_sw")).toBe("billing");
+    ctx.set("__output_a", "shipping");
+    await handlers.switch("sw", { expression: "lower(output)" }, ctx);
+    expect(ctx.get("__branch_sw")).toBe("default");
+  });
+
+  it("for_each emits each item on branch item, then collected results on done", async () => {
+    const { handlers } = setup([
+      { from: "a", to: "loop" },
+      { from: "loop", to: "body", branch: "item" },
+      { from: "body", to: "loop" },
+    ]);
+    const ctx = new SharedContextManager({ __output_a: '["x", "y"]', __last_node_id: "a" });
+
+    expect(await handlers.for_each("loop", {}, ctx)).toBe("x");
+    expect(ctx.get("__branch_loop")).toBe("item");
+    expect(ctx.get("item")).toBe("x");
+    expect(ctx.get("item_index")).toBe(0);
+
+    ctx.set("__output_body", "X!");
+    ctx.set("__last_node_id", "body");
+    expect(await handlers.for_each("loop", {}, ctx)).toBe("y");
+    expect(ctx.get("item_index")).toBe(1);
+
+    ctx.set("__output_body", "Y!");
+    expect(await handlers.for_each("loop", {}, ctx)).toEqual(["X!", "Y!"]);
+    expect(ctx.get("__branch_loop")).toBe("done");
+    expect(ctx.get("__loop_loop")).toBeNull();
+  });
+
+  it("for_each evaluates items expression and respects maxIterations", async () => {
+    const { handlers } = setup([]);
+    const ctx = new SharedContextManager({ urls: ["a", "b", "c"] });
+    await handlers.for_each(
+      "loop",
+      { items: "context.urls", itemKey: "url", maxIterations: 1 },
+      ctx
+    );
+    expect(ctx.get("url")).toBe("a");
+    const state = ctx.get("__loop_loop") as { items: unknown[] };
+    expect(state.items).toEqual(["a"]);
+  });
+
+  it("for_each rejects non-array items", async () => {
+    const { handlers } = setup([]);
+    await expect(
+      handlers.for_each("loop", { items: "'text'" }, new SharedContextManager({}))
+    ).rejects.toThrow(/did not evaluate to an array/);
+  });
+
+  it("merge combines upstream outputs by mode", async () => {
+    const edges = [
+      { from: "a", to: "m" },
+      { from: "b", to: "m" },
+    ];
+    const { handlers } = setup(edges);
+    const ctx = new SharedContextManager({ __output_a: "A", __output_b: { v: 1 } });
+    expect(await handlers.merge("m", {}, ctx)).toEqual({ a: "A", b: { v: 1 } });
+    expect(await handlers.merge("m", { mode: "array" }, ctx)).toEqual(["A", { v: 1 }]);
+    expect(await handlers.merge("m", { mode: "text" }, ctx)).toBe('A\n\n{"v":1}');
+  });
+
+  it("delay sleeps in slices, caps the duration and stops when cancelled", async () => {
+    const slept: number[] = [];
+    const { handlers } = setup([], {
+      sleep: async (ms) => {
+        slept.push(ms);
+      },
+    });
+    await handlers.delay("d", { seconds: 2.5 }, new SharedContextManager({}));
+    expect(slept).toEqual([1000, 1000, 500]);
+
+    slept.length = 0;
+    let calls = 0;
+    const cancelling = setup([], {
+      sleep: async (ms) => {
+        slept.push(ms);
+      },
+      isCancelled: async () => ++calls > 1,
+    });
+    await expect(
+      cancelling.handlers.delay("d", { ms: MAX_DELAY_MS * 10 }, new SharedContextManager({}))
+    ).rejects.toThrow(RUN_CANCELLED_MESSAGE);
+    expect(slept).toHaveLength(1);
+  });
+
+  it("delay persists its wake-up time and waits only for the rest after a resume", async () => {
+    const slept: number[] = [];
+    const persisted: [string, number | null][] = [];
+    const { handlers } = setup([], {
+      sleep: async (ms) => {
+        slept.push(ms);
+      },
+      now: () => 10_000,
+      persistWakeUp: async (nodeId, wakeAt) => {
+        persisted.push([nodeId, wakeAt]);
+      },
+    });
+    const ctx = new SharedContextManager({ __delay_until_d: 11_500 });
+    await handlers.delay("d", { seconds: 60 }, ctx);
+    expect(slept).toEqual([1000, 500]);
+    expect(persisted).toEqual([
+      ["d", 11_500],
+      ["d", null],
+    ]);
+    expect(ctx.get("__delay_until_d")).toBeNull();
+
+    slept.length = 0;
+    await handlers.delay("d", { ms: 1500 }, new SharedContextManager({}));
+    expect(persisted[2]).toEqual(["d", 11_500]);
+    expect(slept).toEqual([1000, 500]);
+  });
+
+  it("set_context assigns values and expressions and rejects reserved keys", async () => {
+    const { handlers } = setup([]);
+    const ctx = new SharedContextManager({ __output_a: '{"n": 2}', __last_node_id: "a" });
+    await handlers.set_context(
+      "s",
+      { values: { lang: "en" }, expressions: { doubled: "output.n * 2" } },
+      ctx
+    );
+    expect(ctx.get("lang")).toBe("en");
+    expect(ctx.get("doubled")).toBe(4);
+    await expect(handlers.set_context("s", { values: { __output_a: "x" } }, ctx)).rejects.toThrow(
+      /reserved/
+    );
+  });
+});
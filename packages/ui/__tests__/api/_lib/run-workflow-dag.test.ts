@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import {
+  mergeSharedContextDelta,
+  createSerialQueue,
+  formatJoinedUpstreamOutputs,
+  findLoopBackEdges,
+  getLoopRegions,
+} from "../../../app/api/_lib/run-workflow-dag";
+
+describe("mergeSharedContextDelta", () => {
+  it("keeps keys written by other nodes and applies only changed keys", () => {
+    const before = { __summary: "", __output_a: "A" };
+    const after = { __summary: "", __output_a: "A", __output_b: "B" };
+    const latest = { __summary: "", __output_a: "A", __output_c: "C" };
+    expect(mergeSharedContextDelta(latest, before, after)).toEqual({
+      __summary: "",
+      __output_a: "A",
+      __output_b: "B",
+      __output_c: "C",
+    });
+  });
+
+  it("appends new recent turns instead of replacing them", () => {
+    const before = { __recent_turns: [{ speaker: "x", text: "1" }] };
+    const after = {
+      __recent_turns: [
+        { speaker: "x", text: "1" },
+        { speaker: "b", text: "from b" },
+      ],
+    };
+    const latest = {
+      __recent_turns: [
+        { speaker: "x", text: "1" },
+        { speaker: "c", text: "from c" },
+      ],
+    };
+    expect(mergeSharedContextDelta(latest, before, after).__recent_turns).toEqual([
+      { speaker: "x", text: "1" },
+      { speaker: "c", text: "from c" },
+      { speaker: "b", text: "from b" },
+    ]);
+  });
+
+  it("removes keys the node deleted", () => {
+    expect(mergeSharedContextDelta({ a: 1, b: 2 }, { a: 1, b: 2 }, { a: 1 })).toEqual({ a: 1 });
+  });
+});
+
+describe("createSerialQueue", () => {
+  it("runs functions one at a time in call order, even after a failure", async () => {
+    const run = createSerialQueue();
+    const order: string[] = [];
+    const first = run(async () => {
+      await new Promise((r) => setTimeout(r, 10));
+      order.push("first");
+    });
+    const second = run(async () => {
+      order.push("second");
+      throw new Error("boom");
+    });
+    const third = run(async () => {
+      order.push("third");
+      return 3;
+    });
+    await first;
+    await expect(second).rejects.toThrow("boom");
+    expect(await third).toBe(3);
+    expect(order).toEqual(["first", "second", "third"]);
+  });
+});
+
+describe("formatJoinedUpstreamOutputs", () => {
+  it("labels each upstream output with the agent name or node id", () => {
+    const text = formatJoinedUpstreamOutputs({ n1: "hello", n2: { ok: true } }, (id) =>
+      id === "n1" ? "Researcher" : undefined
+    );
+    expect(text).toBe('[Researcher]\nhello\n\n[n2]\n{"ok":true}');
+  });
+});
+
+describe("loop regions", () => {
+  it("finds edges back into loop nodes and splits the body from the nodes after the loop", () => {
+    const edges = [
+      { from: "start", to: "loop" },
+      { from: "loop", to: "a" },
+      { from: "a", to: "b" },
+      { from: "b", to: "loop" },
+      { from: "loop", to: "after" },
+      { from: "a", to: "side" },
+    ];
+    const back = findLoopBackEdges(edges, new Set(["loop"]));
+    expect(back).toEqual([{ from: "b", to: "loop" }]);
+    const forward = edges.filter((e) => !back.includes(e));
+    const { body, after } = getLoopRegions("loop", forward, back);
+    expect(body.sort()).toEqual(["a", "b"]);
+    expect(after.sort()).toEqual(["after", "side"]);
+  });
+});
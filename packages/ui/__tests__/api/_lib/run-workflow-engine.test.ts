@@ -1,5 +1,23 @@
-import { describe, it, expect } from "vitest";
-import { mergeNodeConfigWithRunInputs } from "../../../app/api/_lib/run-workflow-engine";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { eq } from "drizzle-orm";
+import type { Workflow } from "@agentron-studio/core";
+import { WorkflowIOError } from "@agentron-studio/runtime";
+import {
+  mergeNodeConfigWithRunInputs,
+  runWorkflow,
+} from "../../../app/api/_lib/run-workflow-engine";
+import {
+  db,
+  budgets,
+  executions,
+  fromExecutionRow,
+  llmConfigs,
+  tokenUsage,
+  toBudgetRow,
+  toExecutionRow,
+  toLlmConfigRow,
+} from "../../../app/api/_lib/db";
+import { BudgetExceededError } from "../../../app/api/_lib/budgets";
 
 describe("mergeNodeConfigWithRunInputs", () => {
   it("returns node parameters when runInputs is undefined", () => {
@@ -47,3 +65,253 @@ describe("mergeNodeConfigWithRunInputs", () => {
     expect(mergeNodeConfigWithRunInputs({}, {})).toEqual({});
   });
 });
+
+describe("runWorkflow with a for_each node", () => {
+  it("keeps joins working: the loop body runs per item and the merge waits for both branches", async () => {
+    const llmId = "run-workflow-engine-test-llm";
+    await db.delete(llmConfigs).where(eq(llmConfigs.id, llmId)).run();
+    await db
+      .insert(llmConfigs)
+      .values(
+        toLlmConfigRow({ id: llmId, provider: "openai", model: "gpt-4" } as Parameters<
+          typeof toLlmConfigRow
+        >[0])
+      )
+      .run();
+    const runId = crypto.randomUUID();
+    await db
+      .insert(executions)
+      .values(
+        toExecutionRow({ id: runId, targetType: "workflow", targetId: "wf", status: "running" })
+      )
+      .run();
+    const node = (id: string, type: string, parameters: Record<string, unknown>) => ({
+      id,
+      type,
+      position: [0, 0] as [number, number],
+      parameters,
+    });
+    const workflow = {
+      id: "wf",
+      name: "Loop and join",
+      executionMode: "one_time",
+      nodes: [
+        node("start", "set_context", { values: { list: [1, 2, 3] } }),
+        node("loop", "for_each", { items: "context.list" }),
+        node("body", "set_context", { expressions: { doubled: "context.item * 2" } }),
+        node("side", "set_context", { values: { side: "done" } }),
+        node("join", "merge", { mode: "object" }),
+      ],
+      edges: [
+        { id: "e1", source: "start", target: "loop" },
+        { id: "e2", source: "loop", target: "body", branch: "item" },
+        { id: "e3", source: "body", target: "loop" },
+        { id: "e4", source: "loop", target: "join", branch: "done" },
+        { id: "e5", source: "start", target: "side" },
+        { id: "e6", source: "side", target: "join" },
+      ],
+    } as unknown as Workflow;
+
+    const result = await runWorkflow({ workflowId: "wf", runId, workflow });
+
+    const order = result.trail.map((s) => s.nodeId);
+    expect(order.filter((id) => id === "body")).toHaveLength(3);
+    expect(order.filter((id) => id === "join")).toHaveLength(1);
+    expect(order.indexOf("join")).toBeGreaterThan(order.indexOf("side"));
+    expect(order.indexOf("join")).toBeGreaterThan(order.lastIndexOf("loop"));
+    expect(result.context.doubled).toBe(6);
+    expect(result.context.side).toBe("done");
+    expect(result.output).toHaveProperty("loop", [1, 2, 3]);
+    await db.delete(llmConfigs).where(eq(llmConfigs.id, llmId)).run();
+  });
+});
+
+describe("runWorkflow with a failing node", () => {
+  it("fails the run when a node fails, also before the scheduler waits for it", async () => {
+    const llmId = "run-workflow-engine-failing-llm";
+    await db.delete(llmConfigs).where(eq(llmConfigs.id, llmId)).run();
+    await db
+      .insert(llmConfigs)
+      .values(
+        toLlmConfigRow({ id: llmId, provider: "openai", model: "gpt-4" } as Parameters<
+          typeof toLlmConfigRow
+        >[0])
+      )
+      .run();
+    const runId = crypto.randomUUID();
+    await db
+      .insert(executions)
+      .values(
+        toExecutionRow({ id: runId, targetType: "workflow", targetId: "wf", status: "running" })
+      )
+      .run();
+    const node = (id: string, parameters: Record<string, unknown>) => ({
+      id,
+      type: "set_context",
+      position: [0, 0] as [number, number],
+      parameters,
+    });
+    const workflow = {
+      id: "wf",
+      name: "Failing",
+      executionMode: "one_time",
+      nodes: [
+        node("first", { values: { status: "ok" } }),
+        node("second", { expressions: { x: "nope()" } }),
+      ],
+      edges: [{ id: "e1", source: "first", target: "second" }],
+    } as unknown as Workflow;
+
+    await expect(runWorkflow({ workflowId: "wf", runId, workflow })).rejects.toThrow(
+      /Unknown function nope/
+    );
+    await db.delete(llmConfigs).where(eq(llmConfigs.id, llmId)).run();
+  });
+});
+
+describe("runWorkflow token usage", () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    vi.stubGlobal("fetch", originalFetch);
+  });
+
+  /** An LLM config whose calls all answer YES with 1000 prompt and 1000 completion tokens. */
+  async function insertJudgeConfig(id: string) {
+    await db.delete(llmConfigs).where(eq(llmConfigs.id, id)).run();
+    await db
+      .insert(llmConfigs)
+      .values(
+        toLlmConfigRow({
+          id,
+          provider: "openai",
+          model: "gpt-4o-mini",
+          extra: { apiKey: "k" },
+        } as Parameters<typeof toLlmConfigRow>[0])
+      )
+      .run();
+    const fetchMock = vi.fn(
+      async () =>
+        new Response(
+          JSON.stringify({
+            id: "c1",
+            model: "gpt-4o-mini",
+            choices: [{ finish_reason: "stop", message: { content: "YES" } }],
+            usage: { prompt_tokens: 1000, completion_tokens: 1000, total_tokens: 2000 },
+          }),
+          { status: 200, headers: { "Content-Type": "application/json" } }
+        )
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    return fetchMock;
+  }
+
+  async function insertRun(workflowId: string) {
+    const runId = crypto.randomUUID();
+    await db
+      .insert(executions)
+      .values(
+        toExecutionRow({
+          id: runId,
+          targetType: "workflow",
+          targetId: workflowId,
+          status: "running",
+        })
+      )
+      .run();
+    return runId;
+  }
+
+  /** Two nodes joined by an llm_judge edge: the judge is an LLM call made before `second` runs. */
+  function judgedWorkflow(
+    workflowId: string,
+    llmConfigId: string,
+    second: Record<string, unknown>,
+    extra: Record<string, unknown> = {}
+  ): Workflow {
+    const node = (id: string, parameters: Record<string, unknown>) => ({
+      id,
+      type: "set_context",
+      position: [0, 0] as [number, number],
+      parameters,
+    });
+    return {
+      id: workflowId,
+      name: "Judged",
+      executionMode: "one_time",
+      nodes: [node("first", { values: { status: "ok" } }), node("second", second)],
+      edges: [
+        {
+          id: "e1",
+          source: "first",
+          target: "second",
+          condition: { type: "llm_judge", llmConfigId, question: "Is it ok?" },
+        },
+      ],
+      ...extra,
+    } as unknown as Workflow;
+  }
+
+  it("records the usage of a failed run, so the next run is stopped by a daily budget", async () => {
+    const llmId = "run-workflow-engine-usage-llm";
+    const fetchMock = await insertJudgeConfig(llmId);
+    const workflowId = crypto.randomUUID();
+    await db
+      .insert(budgets)
+      .values(
+        toBudgetRow({
+          id: crypto.randomUUID(),
+          scope: "workflow",
+          scopeId: workflowId,
+          dailyLimit: 0.0001,
+          action: "cancel",
+          enabled: true,
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+        })
+      )
+      .run();
+    const workflow = judgedWorkflow(workflowId, llmId, { expressions: { x: "nope()" } });
+
+    const failedRunId = await insertRun(workflowId);
+    await expect(runWorkflow({ workflowId, runId: failedRunId, workflow })).rejects.toThrow(
+      /Unknown function nope/
+    );
+    const rows = await db.select().from(tokenUsage).where(eq(tokenUsage.executionId, failedRunId));
+    expect(rows).toHaveLength(1);
+    expect(rows[0].workflowId).toBe(workflowId);
+
+    const nextRunId = await insertRun(workflowId);
+    await expect(runWorkflow({ workflowId, runId: nextRunId, workflow })).rejects.toBeInstanceOf(
+      BudgetExceededError
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [run] = await db.select().from(executions).where(eq(executions.id, nextRunId));
+    expect(fromExecutionRow(run).status).toBe("cancelled");
+    await db.delete(llmConfigs).where(eq(llmConfigs.id, llmId)).run();
+  });
+
+  it("records the usage of a run whose output fails the output schema", async () => {
+    const llmId = "run-workflow-engine-output-llm";
+    await insertJudgeConfig(llmId);
+    const workflowId = crypto.randomUUID();
+    const workflow = judgedWorkflow(
+      workflowId,
+      llmId,
+      { values: { other: 1 } },
+      {
+        outputMapping: { status: "context.status" },
+        outputSchema: { properties: { status: { type: "number" } }, required: ["status"] },
+      }
+    );
+
+    const runId = await insertRun(workflowId);
+    await expect(runWorkflow({ workflowId, runId, workflow })).rejects.toBeInstanceOf(
+      WorkflowIOError
+    );
+    const rows = await db.select().from(tokenUsage).where(eq(tokenUsage.executionId, runId));
+    expect(rows).toHaveLength(1);
+    expect(rows[0].promptTokens).toBe(1000);
+    await db.delete(llmConfigs).where(eq(llmConfigs.id, llmId)).run();
+  });
+});
@@ -16,6 +16,7 @@ vi.mock("../../../app/api/_lib/app-settings", async (importOriginal) => {
       maxFileUploadBytes: 50 * 1024 * 1024,
       containerEngine: "podman",
       shellCommandAllowlist: [],
+      mcpStdioServers: [],
       workflowMaxSelfFixRetries: 3,
       webSearchProvider: "duckduckgo",
       braveSearchApiKey: undefined,
@@ -45,6 +46,7 @@ describe("run-workflow-tool-execution std-web-search", () => {
       maxFileUploadBytes: 50 * 1024 * 1024,
       containerEngine: "podman",
       shellCommandAllowlist: [],
+      mcpStdioServers: [],
       workflowMaxSelfFixRetries: 3,
       webSearchProvider: "duckduckgo",
       braveSearchApiKey: undefined,
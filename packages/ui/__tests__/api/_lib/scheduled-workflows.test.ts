@@ -1,11 +1,21 @@
 import { describe, it, expect } from "vitest";
+import { eq } from "drizzle-orm";
 import {
+  WorkflowScheduleError,
+  nextScheduleTime,
+  parseSchedule,
+  upcomingScheduleTimes,
+  validateWorkflowSchedules,
+} from "@agentron-studio/runtime";
+import {
+  MAX_CATCH_UP_RUNS,
+  missedRunTimes,
   parseScheduleSeconds,
   parseDaily,
   parseWeekly,
-  nextDailyMs,
-  nextWeeklyMs,
+  prepareSchedule,
 } from "../../../app/api/_lib/scheduled-workflows";
+import { db, workflowSchedules } from "../../../app/api/_lib/db";
 
 describe("scheduled-workflows", () => {
   describe("parseScheduleSeconds", () => {
@@ -60,34 +70,167 @@ describe("scheduled-workflows", () => {
     });
   });
 
-  describe("nextDailyMs", () => {
-    it("returns positive ms until next run today or tomorrow", () => {
-      const ms = nextDailyMs(23, 59);
-      expect(ms).toBeGreaterThan(0);
-      expect(Number.isFinite(ms)).toBe(true);
+  describe("parseSchedule", () => {
+    it("parses intervals, cron expressions, macros and legacy daily@/weekly@", () => {
+      expect(parseSchedule("60")).toEqual({ type: "interval", seconds: 60 });
+      const cron = parseSchedule("*/15 9-17 * * MON-FRI");
+      expect(cron.type).toBe("cron");
+      if (cron.type !== "cron") return;
+      expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+      expect([...cron.hours]).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+      expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+      expect([...cron.seconds]).toEqual([0]);
+      const sixField = parseSchedule("30 0 12 1 JAN,jul 7");
+      expect(sixField.type === "cron" && [...sixField.seconds]).toEqual([30]);
+      expect(sixField.type === "cron" && [...sixField.months]).toEqual([1, 7]);
+      expect(sixField.type === "cron" && [...sixField.daysOfWeek]).toEqual([0]);
+      expect(parseSchedule("@hourly").type).toBe("cron");
+      expect(parseSchedule("daily@9:30")).toMatchObject({ type: "cron", expression: "daily@9:30" });
+    });
+
+    it("throws WorkflowScheduleError for invalid schedules", () => {
+      for (const bad of ["0", "-5", "* * *", "60 * * * *", "0 25 * * *", "*/0 * * * *", "daily@"]) {
+        expect(() => parseSchedule(bad), bad).toThrow(WorkflowScheduleError);
+      }
+    });
+  });
+
+  describe("nextScheduleTime", () => {
+    it("counts intervals from the given time", () => {
+      expect(nextScheduleTime({ type: "interval", seconds: 60 }, 1_000)).toBe(61_000);
+    });
+
+    it("evaluates cron in the given timezone", () => {
+      const weekdays9 = parseSchedule("0 9 * * 1-5");
+      // Friday 2026-05-15 10:00 UTC = 12:00 in Berlin; next is Monday 09:00 Berlin (07:00 UTC).
+      const friday = Date.UTC(2026, 4, 15, 10);
+      expect(nextScheduleTime(weekdays9, friday, "Europe/Berlin")).toBe(Date.UTC(2026, 4, 18, 7));
+      expect(nextScheduleTime(weekdays9, friday, "America/New_York")).toBe(
+        Date.UTC(2026, 4, 15, 13)
+      );
+      expect(nextScheduleTime(weekdays9, friday, "UTC")).toBe(Date.UTC(2026, 4, 18, 9));
+    });
+
+    it("matches day of month or day of week when both are restricted", () => {
+      const s = parseSchedule("0 0 13 * 5");
+      // Wednesday 2026-01-07: Friday the 9th comes before the 13th.
+      expect(nextScheduleTime(s, Date.UTC(2026, 0, 7), "UTC")).toBe(Date.UTC(2026, 0, 9));
+      expect(nextScheduleTime(s, Date.UTC(2026, 0, 10), "UTC")).toBe(Date.UTC(2026, 0, 13));
     });
 
-    it("returns ms until tomorrow when given time today has already passed", () => {
-      const ms = nextDailyMs(0, 0);
-      expect(ms).toBeGreaterThan(0);
-      expect(Number.isFinite(ms)).toBe(true);
-      expect(ms).toBeLessThanOrEqual(25 * 60 * 60 * 1000);
+    it("skips wall-clock times that DST skips and returns null when a date never exists", () => {
+      const s = parseSchedule("30 2 * * *");
+      // 2026-03-29 02:30 does not exist in Berlin; next fire is 2026-03-30 02:30 CEST (00:30 UTC).
+      expect(nextScheduleTime(s, Date.UTC(2026, 2, 28, 12), "Europe/Berlin")).toBe(
+        Date.UTC(2026, 2, 30, 0, 30)
+      );
+      expect(nextScheduleTime(parseSchedule("0 0 30 2 *"), Date.UTC(2026, 0, 1), "UTC")).toBeNull();
+    });
+
+    it("runs legacy daily@ and weekly@ schedules at the same wall-clock times", () => {
+      const after = Date.UTC(2026, 4, 13, 12); // Wednesday
+      expect(nextScheduleTime(parseSchedule("daily@09:30"), after, "UTC")).toBe(
+        Date.UTC(2026, 4, 14, 9, 30)
+      );
+      expect(nextScheduleTime(parseSchedule("weekly@1,5"), after, "UTC")).toBe(
+        Date.UTC(2026, 4, 15)
+      );
+    });
+
+    it("upcomingScheduleTimes lists consecutive fire times", () => {
+      const times = upcomingScheduleTimes(
+        parseSchedule("0 */6 * * *"),
+        3,
+        Date.UTC(2026, 0, 1, 1),
+        "UTC"
+      );
+      expect(times).toEqual([
+        Date.UTC(2026, 0, 1, 6),
+        Date.UTC(2026, 0, 1, 12),
+        Date.UTC(2026, 0, 1, 18),
+      ]);
+    });
+  });
+
+  describe("validateWorkflowSchedules", () => {
+    it("reports invalid schedules, timezones and catch-up settings per branch", () => {
+      expect(
+        validateWorkflowSchedules({
+          executionMode: "interval",
+          schedule: "0 9 * * 1-5",
+          timezone: "Europe/Berlin",
+          catchUp: "run_once",
+        })
+      ).toEqual([]);
+      expect(validateWorkflowSchedules({ executionMode: "continuous", schedule: "soon" })).toEqual(
+        []
+      );
+      const errors = validateWorkflowSchedules({
+        executionMode: "one_time",
+        timezone: "Mars/Olympus",
+        branches: [{ id: "b1", executionMode: "interval", schedule: "61 * * * *", catchUp: "x" }],
+      });
+      expect(errors).toHaveLength(3);
+      expect(errors[0]).toContain("Mars/Olympus");
+      expect(errors[1]).toMatch(/^branch b1: minute value 61/);
+      expect(errors[2]).toContain("branch b1: catchUp");
     });
   });
 
-  describe("nextWeeklyMs", () => {
-    it("returns positive ms until next run on one of the days", () => {
-      const ms = nextWeeklyMs([0, 1, 2, 3, 4, 5, 6]);
-      expect(ms).toBeGreaterThan(0);
-      expect(Number.isFinite(ms)).toBe(true);
+  describe("catch-up", () => {
+    const hourly = parseSchedule("0 * * * *");
+
+    it("missedRunTimes lists fire times up to now, capped", () => {
+      const start = Date.UTC(2026, 0, 1, 1);
+      expect(missedRunTimes(hourly, start, start + 150 * 60_000, "UTC")).toEqual([
+        start,
+        start + 3_600_000,
+        start + 7_200_000,
+      ]);
+      expect(missedRunTimes(hourly, start, start + 1000 * 3_600_000, "UTC")).toHaveLength(
+        MAX_CATCH_UP_RUNS
+      );
     });
 
-    it("returns ms for next occurrence when current day is not in list", () => {
-      const today = new Date().getDay();
-      const nextDay = (today + 1) % 7;
-      const ms = nextWeeklyMs([nextDay]);
-      expect(ms).toBeGreaterThan(0);
-      expect(ms).toBeLessThanOrEqual(7 * 24 * 60 * 60 * 1000 + 1000);
+    it("prepareSchedule stores the next run and catches up missed runs per catchUp", async () => {
+      const workflowId = `wf-${crypto.randomUUID()}`;
+      const entry = {
+        key: workflowId,
+        workflowId,
+        schedule: "0 * * * *",
+        timezone: "UTC",
+        catchUp: "run_once" as const,
+        parsed: hourly,
+      };
+      const t0 = Date.UTC(2026, 0, 1, 0, 30);
+      expect(await prepareSchedule(entry, t0)).toEqual({
+        nextRunAt: Date.UTC(2026, 0, 1, 1),
+        catchUpRuns: [],
+      });
+
+      // The app was closed from 00:30 to 03:30: 01:00, 02:00 and 03:00 were missed.
+      const t1 = Date.UTC(2026, 0, 1, 3, 30);
+      expect(await prepareSchedule({ ...entry, catchUp: "run_all" }, t1)).toEqual({
+        nextRunAt: Date.UTC(2026, 0, 1, 4),
+        catchUpRuns: [Date.UTC(2026, 0, 1, 1), Date.UTC(2026, 0, 1, 2), Date.UTC(2026, 0, 1, 3)],
+      });
+      const t2 = Date.UTC(2026, 0, 1, 5, 30);
+      expect((await prepareSchedule(entry, t2)).catchUpRuns).toEqual([Date.UTC(2026, 0, 1, 5)]);
+      const t3 = Date.UTC(2026, 0, 1, 7, 30);
+      expect((await prepareSchedule({ ...entry, catchUp: "skip" }, t3)).catchUpRuns).toEqual([]);
+
+      // A changed schedule starts over without catch-up.
+      const t4 = Date.UTC(2026, 0, 2);
+      const changed = { ...entry, schedule: "@daily", parsed: parseSchedule("@daily") };
+      expect(await prepareSchedule(changed, t4)).toEqual({
+        nextRunAt: Date.UTC(2026, 0, 3),
+        catchUpRuns: [],
+      });
+      const [state] = await db
+        .select()
+        .from(workflowSchedules)
+        .where(eq(workflowSchedules.id, workflowId));
+      expect(state).toMatchObject({ schedule: "@daily", nextRunAt: Date.UTC(2026, 0, 3) });
     });
   });
 });
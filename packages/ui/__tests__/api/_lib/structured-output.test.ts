@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import {
+  LLMManager,
+  checkStructuredOutput,
+  parseJsonOutput,
+  validateJsonSchema,
+  type LLMRequest,
+  type LLMResponseFormat,
+} from "@agentron-studio/runtime";
+
+const format: LLMResponseFormat = {
+  type: "json_schema",
+  name: "answer",
+  schema: {
+    type: "object",
+    properties: {
+      label: { type: "string", enum: ["yes", "no"] },
+      score: { type: "number" },
+      tags: { type: "array", items: { type: "string" }, maxItems: 2 },
+    },
+    required: ["label"],
+    additionalProperties: false,
+  },
+};
+
+describe("structured output", () => {
+  it("parseJsonOutput reads plain JSON, fenced JSON and JSON surrounded by prose", () => {
+    expect(parseJsonOutput('{"a":1}')).toEqual({ value: { a: 1 } });
+    expect(parseJsonOutput('```json\n{"a":2}\n```')).toEqual({ value: { a: 2 } });
+    expect(parseJsonOutput('Here you go: {"a":3}. Done.')).toEqual({ value: { a: 3 } });
+    expect(parseJsonOutput("[1, 2]")).toEqual({ value: [1, 2] });
+    expect(parseJsonOutput("no json here")).toBeUndefined();
+  });
+
+  it("validateJsonSchema reports each violation with its path", () => {
+    expect(validateJsonSchema({ label: "yes", score: 3, tags: ["a"] }, format.schema)).toEqual([]);
+    expect(
+      validateJsonSchema(
+        { label: "maybe", score: "high", tags: ["a", "b", 3], extra: 1 },
+        format.schema
+      )
+    ).toEqual([
+      '$.label: must be one of ["yes","no"]',
+      "$.score: expected number, got string",
+      "$.tags: must have at most 2 items",
+      "$.tags[2]: expected string, got integer",
+      "$.extra: is not allowed",
+    ]);
+    expect(validateJsonSchema({}, format.schema)).toEqual(["$.label: is required"]);
+  });
+
+  it("checkStructuredOutput returns the parsed value or the errors", () => {
+    expect(checkStructuredOutput('{"label":"no"}', format)).toEqual({
+      value: { label: "no" },
+      errors: [],
+    });
+    expect(checkStructuredOutput("sure!", format).errors).toEqual(["output is not valid JSON"]);
+    expect(checkStructuredOutput('{"ok":true}', { type: "json_object" }).value).toEqual({
+      ok: true,
+    });
+  });
+
+  it("LLMManager instructs providers without native support and repairs invalid output once", async () => {
+    const requests: LLMRequest[] = [];
+    const replies = ['{"label":"maybe"}', '{"label":"yes"}'];
+    const manager = new LLMManager();
+    manager.register({
+      provider: "custom_http",
+      chat: async (_config, request) => {
+        requests.push(request);
+        return {
+          id: String(requests.length),
+          content: replies[requests.length - 1] ?? "",
+          usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+          raw: null,
+        };
+      },
+    });
+
+    const res = await manager.chat(
+      { provider: "custom_http", model: "m", endpoint: "http://localhost:1" },
+      { messages: [{ role: "user", content: "Is it?" }], responseFormat: format }
+    );
+
+    expect(res.parsed).toEqual({ label: "yes" });
+    expect(res.usage).toEqual({ promptTokens: 20, completionTokens: 10, totalTokens: 30 });
+    expect(requests).toHaveLength(2);
+    expect(requests[0].messages.at(-1)).toMatchObject({ role: "system" });
+    expect(String(requests[1].messages.at(-2)?.content)).toContain("$.label: must be one of");
+  });
+});
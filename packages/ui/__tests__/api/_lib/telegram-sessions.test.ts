@@ -1,29 +1,42 @@
 import fs from "node:fs";
 import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
-import { getConversationId, setConversationId } from "../../../app/api/_lib/telegram-sessions";
+import {
+  getConversationId,
+  setConversationId,
+  saveTelegramButtons,
+  takeTelegramButton,
+} from "../../../app/api/_lib/telegram-sessions";
 
 describe("telegram-sessions", () => {
   beforeEach(() => {
-    setConversationId("123", "conv-a");
+    setConversationId(123, 123, "conv-a");
   });
 
   it("getConversationId returns undefined for unknown chat", () => {
-    expect(getConversationId("999")).toBeUndefined();
+    expect(getConversationId(999, 999)).toBeUndefined();
   });
 
   it("getConversationId returns set value", () => {
-    expect(getConversationId("123")).toBe("conv-a");
+    expect(getConversationId(123, 123)).toBe("conv-a");
   });
 
   it("setConversationId overwrites", () => {
-    setConversationId("123", "conv-b");
-    expect(getConversationId("123")).toBe("conv-b");
+    setConversationId(123, 123, "conv-b");
+    expect(getConversationId(123, 123)).toBe("conv-b");
+  });
+
+  it("keeps a separate conversation per sender in a group chat", () => {
+    setConversationId(-100, 1, "conv-user-1");
+    setConversationId(-100, 2, "conv-user-2");
+    expect(getConversationId(-100, 1)).toBe("conv-user-1");
+    expect(getConversationId(-100, 2)).toBe("conv-user-2");
+    expect(getConversationId(-100, 3)).toBeUndefined();
   });
 
   it("getConversationId returns undefined when sessions file does not exist", () => {
     const existsSpy = vi.spyOn(fs, "existsSync").mockReturnValue(false);
     try {
-      expect(getConversationId("123")).toBeUndefined();
+      expect(getConversationId(123, 123)).toBeUndefined();
     } finally {
       existsSpy.mockRestore();
     }
@@ -33,10 +46,22 @@ describe("telegram-sessions", () => {
     const readSpy = vi.spyOn(fs, "readFileSync").mockReturnValue("not valid json");
     const existsSpy = vi.spyOn(fs, "existsSync").mockReturnValue(true);
     try {
-      expect(getConversationId("123")).toBeUndefined();
+      expect(getConversationId(123, 123)).toBeUndefined();
     } finally {
       readSpy.mockRestore();
       existsSpy.mockRestore();
     }
   });
+
+  it("resolves a pressed button once, only for its sender and chat", () => {
+    const [first, second] = saveTelegramButtons(123, 7, [
+      { type: "reply", text: "Yes" },
+      { type: "reply", text: "No" },
+    ]);
+    expect(takeTelegramButton(second, 123, 8)).toBeUndefined();
+    expect(takeTelegramButton(second, 456, 7)).toBeUndefined();
+    expect(takeTelegramButton(second, 123, 7)).toEqual({ type: "reply", text: "No" });
+    expect(takeTelegramButton(first, 123, 7)).toBeUndefined();
+    expect(takeTelegramButton("unknown:0", 123, 7)).toBeUndefined();
+  });
 });
@@ -102,4 +102,42 @@ describe("telegram-settings", () => {
       mod.updateTelegramSettings({ botTokenEnvVar: "", enabled: false });
     });
   });
+
+  describe("allowlist and pairing", () => {
+    it("allows only listed user ids and pairs a sender once with the current code", async () => {
+      const mod = await import("../../../app/api/_lib/telegram-settings");
+      mod.updateTelegramSettings({ allowedUserIds: ["111"] });
+      expect(mod.isTelegramUserAllowed(111)).toBe(true);
+      expect(mod.isTelegramUserAllowed(222)).toBe(false);
+      expect(mod.isTelegramUserAllowed(undefined)).toBe(false);
+
+      const { pairingCode } = mod.updateTelegramSettings({ newPairingCode: true });
+      expect(pairingCode).toMatch(/^[A-HJKMNP-Z2-9]{10}$/);
+      expect(mod.pairTelegramUser(222, "000000x")).toBe(false);
+      expect(mod.pairTelegramUser(222, pairingCode!.toLowerCase())).toBe(true);
+      expect(mod.isTelegramUserAllowed(222)).toBe(true);
+      expect(mod.pairTelegramUser(333, pairingCode!)).toBe(false);
+      expect(mod.getTelegramSettings()).toMatchObject({ allowedUserIds: ["111", "222"] });
+      expect(mod.getTelegramSettings()).not.toHaveProperty("pairingCode");
+      mod.updateTelegramSettings({ allowedUserIds: [] });
+    });
+
+    it("invalidates the pairing code after too many wrong codes from one chat or in total", async () => {
+      const mod = await import("../../../app/api/_lib/telegram-settings");
+      let { pairingCode } = mod.updateTelegramSettings({ newPairingCode: true });
+      for (let i = 0; i < mod.TELEGRAM_PAIRING_MAX_FAILURES_PER_CHAT; i++) {
+        expect(mod.pairTelegramUser(444, "WRONGCODE1")).toBe(false);
+      }
+      expect(mod.getTelegramSettings()).not.toHaveProperty("pairingCode");
+      expect(mod.pairTelegramUser(444, pairingCode!)).toBe(false);
+
+      ({ pairingCode } = mod.updateTelegramSettings({ newPairingCode: true }));
+      for (let chat = 0; chat < mod.TELEGRAM_PAIRING_MAX_FAILURES; chat++) {
+        mod.pairTelegramUser(1000 + chat, "WRONGCODE1");
+      }
+      expect(mod.pairTelegramUser(555, pairingCode!)).toBe(false);
+      expect(mod.isTelegramUserAllowed(555)).toBe(false);
+      mod.updateTelegramSettings({ allowedUserIds: [] });
+    });
+  });
 });
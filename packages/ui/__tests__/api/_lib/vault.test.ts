@@ -12,7 +12,9 @@ import {
 import crypto from "node:crypto";
 import fs from "node:fs";
 import path from "node:path";
-import { getDataDir } from "../../../app/api/_lib/db";
+import { eq } from "drizzle-orm";
+import { db, getDataDir, vaultMeta } from "../../../app/api/_lib/db";
+import { createVault } from "../../../app/api/_lib/vault-keys";
 
 describe("vault", () => {
   const salt = crypto.randomBytes(16).toString("base64url");
@@ -86,8 +88,9 @@ describe("vault", () => {
     expect(getVaultKeyFromRequest(req)).toBeNull();
   });
 
-  it("getVaultKeyFromRequest returns key when valid cookie present", () => {
-    const key = deriveVaultKey("test", salt);
+  it("getVaultKeyFromRequest returns key when valid cookie present", async () => {
+    await db.delete(vaultMeta).where(eq(vaultMeta.id, "default")).run();
+    const { key } = (await createVault("test", false))!;
     const header = buildVaultCookieHeader(key);
     const match = header.match(/agentron_vault=([^;]+)/);
     const value = match?.[1] ?? "";
@@ -100,6 +103,12 @@ describe("vault", () => {
     expect(extracted!.equals(key)).toBe(true);
   });
 
+  it("getVaultKeyFromRequest returns null for a key that is not the current vault key", () => {
+    const stale = buildVaultCookieHeader(deriveVaultKey("old-password", salt));
+    const req = new Request("http://localhost", { headers: { cookie: stale.split(";")[0]! } });
+    expect(getVaultKeyFromRequest(req)).toBeNull();
+  });
+
   it("decryptFromCookie returns null for empty or invalid value", () => {
     expect(decryptFromCookie("")).toBeNull();
     expect(decryptFromCookie("  ")).toBeNull();
@@ -183,4 +192,32 @@ describe("vault", () => {
       if (prev !== undefined) process.env.AGENTRON_VAULT_COOKIE_SECRET = prev;
     }
   });
+
+  it("createGrantKey throws instead of using a constant when there is no machine secret", async () => {
+    const prev = process.env.AGENTRON_VAULT_MACHINE_SECRET;
+    delete process.env.AGENTRON_VAULT_MACHINE_SECRET;
+    vi.resetModules();
+    const vault2 = await import("../../../app/api/_lib/vault");
+    const readSpy = vi.spyOn(fs, "readFileSync").mockImplementation(() => {
+      throw new Error("read failed");
+    });
+    const writeSpy = vi.spyOn(fs, "writeFileSync").mockImplementation(() => {
+      throw new Error("write failed");
+    });
+    try {
+      expect(() => vault2.createGrantKey()).toThrow(vault2.MachineSecretUnavailableError);
+      expect(() => vault2.createGrantKey()).toThrow(/AGENTRON_VAULT_MACHINE_SECRET/);
+    } finally {
+      readSpy.mockRestore();
+      writeSpy.mockRestore();
+    }
+    try {
+      process.env.AGENTRON_VAULT_MACHINE_SECRET = "m".repeat(32);
+      const { key, wrapped } = vault2.createGrantKey();
+      expect(vault2.unwrapGrantKey(wrapped)?.equals(key)).toBe(true);
+    } finally {
+      if (prev !== undefined) process.env.AGENTRON_VAULT_MACHINE_SECRET = prev;
+      else delete process.env.AGENTRON_VAULT_MACHINE_SECRET;
+    }
+  });
 });
@@ -1,5 +1,9 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { queryQdrant, queryPgvector } from "../../../app/api/_lib/vector-store-query";
+import {
+  queryQdrant,
+  queryPgvector,
+  locationFromRecord,
+} from "../../../app/api/_lib/vector-store-query";
 
 describe("vector-store-query", () => {
   beforeEach(() => {
@@ -45,6 +49,40 @@ describe("vector-store-query", () => {
       );
     });
 
+    it("returns chunk locations from the point payload", async () => {
+      vi.mocked(fetch).mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            result: [
+              {
+                payload: {
+                  text: "located",
+                  document_id: "doc-1",
+                  chunk_index: 3,
+                  heading_path: ["Guide", "Setup"],
+                  start_offset: 40,
+                  end_offset: 90,
+                },
+                score: 0.7,
+              },
+            ],
+          }),
+      } as Response);
+
+      const result = await queryQdrant("coll-1", [0.1], 1, { endpoint: "http://qdrant:6333" });
+
+      expect(result[0]).toEqual({
+        text: "located",
+        score: 0.7,
+        documentId: "doc-1",
+        chunkIndex: 3,
+        headingPath: ["Guide", "Setup"],
+        start: 40,
+        end: 90,
+      });
+    });
+
     it("strips trailing slash from endpoint", async () => {
       const mockFetch = vi.mocked(fetch);
       mockFetch.mockResolvedValueOnce({
@@ -208,4 +246,13 @@ describe("vector-store-query", () => {
       else delete process.env[ref];
     });
   });
+
+  describe("locationFromRecord", () => {
+    it("reads camelCase keys and JSON heading paths", () => {
+      expect(
+        locationFromRecord({ documentId: "d", start: 1, end: 5, heading_path: '["A","B"]' })
+      ).toEqual({ documentId: "d", start: 1, end: 5, headingPath: ["A", "B"] });
+      expect(locationFromRecord({ text: "no location" })).toEqual({});
+    });
+  });
 });
@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeAll } from "vitest";
+import { getPendingDelays, wakeDelayedRun } from "../../../app/api/_lib/workflow-delay-scheduler";
+import {
+  getExecutionEventsForRun,
+  setExecutionRunState,
+} from "../../../app/api/_lib/execution-events";
+import { db, executions, toExecutionRow, workflowQueue } from "../../../app/api/_lib/db";
+import { enqueueWorkflowResume } from "../../../app/api/_lib/workflow-queue";
+import { eq } from "drizzle-orm";
+
+vi.mock("../../../app/api/_lib/workflow-queue", () => ({
+  enqueueWorkflowResume: vi.fn().mockResolvedValue("job"),
+  processOneWorkflowJob: vi.fn().mockResolvedValue(false),
+}));
+
+describe("workflow-delay-scheduler", () => {
+  const runId = crypto.randomUUID();
+
+  beforeAll(async () => {
+    await db
+      .insert(executions)
+      .values(
+        toExecutionRow({
+          id: runId,
+          targetType: "workflow",
+          targetId: crypto.randomUUID(),
+          status: "running",
+        })
+      )
+      .run();
+  });
+
+  it("getPendingDelays lists delay nodes that are still waiting", () => {
+    expect(
+      getPendingDelays({ __delay_until_d1: 5, __delay_until_d2: null, __output_d1: 3 })
+    ).toEqual([{ nodeId: "d1", wakeAt: 5 }]);
+  });
+
+  it("wakeDelayedRun requests the delay node again, frees the stale job and resumes the run", async () => {
+    await setExecutionRunState(runId, {
+      workflowId: "wf",
+      currentNodeId: "d",
+      round: 0,
+      sharedContext: { __delay_until_d: Date.now() - 1 },
+      status: "running",
+    });
+    const now = Date.now();
+    await db
+      .insert(workflowQueue)
+      .values({
+        id: `stale-${runId}`,
+        type: "workflow_start",
+        payload: "{}",
+        status: "running",
+        runId,
+        enqueuedAt: now,
+        startedAt: now,
+        finishedAt: null,
+        error: null,
+        createdAt: now,
+      })
+      .run();
+
+    await wakeDelayedRun(runId);
+    await wakeDelayedRun(runId);
+
+    const requested = (await getExecutionEventsForRun(runId)).filter(
+      (e) => e.type === "NodeRequested"
+    );
+    expect(requested).toHaveLength(1);
+    expect(requested[0].payload).toEqual({ nodeId: "d" });
+    const job = await db
+      .select()
+      .from(workflowQueue)
+      .where(eq(workflowQueue.id, `stale-${runId}`));
+    expect(job[0].status).toBe("failed");
+    expect(enqueueWorkflowResume).toHaveBeenCalledWith({ runId });
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect, vi } from "vitest";
+import type { EdgeCondition } from "@agentron-studio/core";
+import {
+  evaluateEdgeCondition,
+  validateEdgeCondition,
+  validateWorkflowEdgeConditions,
+  readJsonPath,
+  parseJsonPath,
+  collectLlmJudgeConditions,
+  resolveLlmJudgeVerdicts,
+  parseJudgeVerdict,
+  llmJudgeKey,
+  runWorkflowDAG,
+} from "@agentron-studio/runtime";
+
+describe("readJsonPath", () => {
+  it("reads dotted, indexed and quoted segments from JSON text", () => {
+    const output = '```json\n{"review": {"score": 9, "notes": ["ok"]}, "a b": 1}\n```';
+    expect(readJsonPath(output, "$.review.score")).toBe(9);
+    expect(readJsonPath(output, "review.notes[0]")).toBe("ok");
+    expect(readJsonPath(output, "$['a b']")).toBe(1);
+    expect(readJsonPath(output, "$.missing.x")).toBeUndefined();
+    expect(readJsonPath({ a: 1 }, "$")).toEqual({ a: 1 });
+  });
+
+  it("rejects malformed paths", () => {
+    expect(parseJsonPath("$..a")).toBeNull();
+    expect(parseJsonPath("$.a[")).toBeNull();
+  });
+});
+
+describe("evaluateEdgeCondition", () => {
+  const output = '{"score": 7, "status": "approved", "tags": ["a"]}';
+
+  it("keeps message_type and content_contains behavior", () => {
+    expect(evaluateEdgeCondition({ type: "content_contains", value: "APPROVED" }, output)).toBe(
+      true
+    );
+    expect(evaluateEdgeCondition({ type: "message_type", value: "x" }, { type: "x" })).toBe(true);
+    expect(evaluateEdgeCondition(undefined, output)).toBe(true);
+  });
+
+  it("evaluates regex and json_path comparisons", () => {
+    expect(evaluateEdgeCondition({ type: "regex", pattern: 'status":\\s*"appr' }, output)).toBe(
+      true
+    );
+    expect(evaluateEdgeCondition({ type: "regex", pattern: "APPROVED" }, output)).toBe(false);
+    expect(evaluateEdgeCondition({ type: "regex", pattern: "APPROVED", flags: "i" }, output)).toBe(
+      true
+    );
+    const jp = (op: string, path: string, value?: unknown) =>
+      evaluateEdgeCondition({ type: "json_path", path, op, value } as EdgeCondition, output);
+    expect(jp("gte", "$.score", 7)).toBe(true);
+    expect(jp("gt", "$.score", "7")).toBe(false);
+    expect(jp("lt", "$.missing", 10)).toBe(false);
+    expect(jp("eq", "$.status", "approved")).toBe(true);
+    expect(jp("neq", "$.status", "approved")).toBe(false);
+    expect(jp("contains", "$.tags", "a")).toBe(true);
+    expect(jp("exists", "$.score")).toBe(true);
+    expect(jp("exists", "$.nope")).toBe(false);
+  });
+
+  it("composes and/or/not", () => {
+    const approved: EdgeCondition = {
+      type: "json_path",
+      path: "$.status",
+      op: "eq",
+      value: "approved",
+    };
+    const high: EdgeCondition = { type: "json_path", path: "$.score", op: "gte", value: 8 };
+    expect(evaluateEdgeCondition({ type: "and", conditions: [approved, high] }, output)).toBe(
+      false
+    );
+    expect(evaluateEdgeCondition({ type: "or", conditions: [approved, high] }, output)).toBe(true);
+    expect(evaluateEdgeCondition({ type: "not", condition: high }, output)).toBe(true);
+  });
+
+  it("uses stored llm_judge verdicts and is false without one", () => {
+    const judge = { type: "llm_judge" as const, llmConfigId: "c1", question: "Good?" };
+    expect(evaluateEdgeCondition(judge, output)).toBe(false);
+    expect(evaluateEdgeCondition(judge, output, { [llmJudgeKey(judge)]: true })).toBe(true);
+  });
+
+  it("treats conditions of an unknown type as true", () => {
+    const unknown = { type: "sometimes", value: "x" } as unknown as EdgeCondition;
+    expect(evaluateEdgeCondition(unknown, output)).toBe(true);
+    expect(evaluateEdgeCondition({ type: "not", condition: unknown }, output)).toBe(false);
+  });
+});
+
+describe("validateEdgeCondition", () => {
+  it("accepts valid conditions", () => {
+    expect(validateEdgeCondition({ type: "regex", pattern: "^ok", flags: "i" })).toEqual([]);
+    expect(
+      validateEdgeCondition({
+        type: "not",
+        condition: { type: "json_path", path: "$.a[0]", op: "exists" },
+      })
+    ).toEqual([]);
+  });
+
+  it("reports unknown types, bad regexes, paths, ops and missing fields", () => {
+    expect(validateEdgeCondition({ type: "maybe" })[0]).toMatch(/not a supported/);
+    expect(validateEdgeCondition({ type: "regex", pattern: "(" })[0]).toMatch(/not a valid/);
+    expect(validateEdgeCondition({ type: "regex", pattern: "a", flags: "g" })[0]).toMatch(/flags/);
+    expect(
+      validateEdgeCondition({ type: "json_path", path: "$..x", op: "between", value: 1 })
+    ).toHaveLength(2);
+    expect(validateEdgeCondition({ type: "json_path", path: "$.x", op: "eq" })[0]).toMatch(
+      /value is required/
+    );
+    expect(validateEdgeCondition({ type: "and", conditions: [] })[0]).toMatch(/non-empty/);
+    expect(validateEdgeCondition({ type: "llm_judge", question: "" })).toHaveLength(2);
+    expect(validateEdgeCondition("content_contains")[0]).toMatch(/must be an object/);
+  });
+
+  it("checks llm_judge config ids against the given configs", () => {
+    const judge = { type: "llm_judge", llmConfigId: "gone", question: "Ok?" };
+    const llmConfigIds = new Set(["c1"]);
+    expect(validateEdgeCondition(judge)).toEqual([]);
+    expect(
+      validateEdgeCondition({ type: "not", condition: judge }, "condition", { llmConfigIds })
+    ).toEqual(['condition.condition.llmConfigId "gone" is not an LLM config']);
+    expect(
+      validateWorkflowEdgeConditions(
+        { edges: [{ id: "e1", condition: { ...judge, llmConfigId: "c1" } }] },
+        { llmConfigIds }
+      )
+    ).toEqual([]);
+  });
+
+  it("validates edges of the workflow and its branches", () => {
+    const errors = validateWorkflowEdgeConditions({
+      edges: [
+        { id: "e1", source: "a", target: "b", condition: { type: "content_contains", value: "x" } },
+      ],
+      branches: [{ id: "b1", edges: [{ source: "c", target: "d", condition: { type: "nope" } }] }],
+    });
+    expect(errors).toEqual([
+      'branch b1: edge c → d condition.type "nope" is not a supported edge condition',
+    ]);
+  });
+});
+
+describe("llm_judge", () => {
+  it("collects nested judge conditions and asks each question once", async () => {
+    const judge = { type: "llm_judge" as const, llmConfigId: "c1", question: "Approved?" };
+    const condition: EdgeCondition = {
+      type: "or",
+      conditions: [judge, { type: "not", condition: judge }],
+    };
+    const judges = collectLlmJudgeConditions(condition);
+    expect(judges).toHaveLength(2);
+    const callLLM = vi.fn().mockResolvedValue({ id: "r", content: "Yes.", raw: null });
+    const verdicts = await resolveLlmJudgeVerdicts(judges, "LGTM", callLLM);
+    expect(callLLM).toHaveBeenCalledTimes(1);
+    expect(callLLM.mock.calls[0][0].llmConfigId).toBe("c1");
+    expect(callLLM.mock.calls[0][0].messages[1].content).toContain("LGTM");
+    expect(verdicts).toEqual({ [llmJudgeKey(judge)]: true });
+  });
+
+  it("parses yes/no replies", () => {
+    expect(parseJudgeVerdict("YES")).toBe(true);
+    expect(parseJudgeVerdict("**Yes**, it is")).toBe(true);
+    expect(parseJudgeVerdict("No")).toBe(false);
+    expect(parseJudgeVerdict("I think yes")).toBe(false);
+  });
+});
+
+describe("runWorkflowDAG with edge conditions", () => {
+  it("evaluates edge conditions by default", async () => {
+    const ran: string[] = [];
+    const handler = async (nodeId: string) => {
+      ran.push(nodeId);
+      return nodeId === "a" ? '{"score": 3}' : nodeId;
+    };
+    await runWorkflowDAG(
+      {
+        id: "w",
+        name: "w",
+        executionMode: "one_time",
+        nodes: [
+          { id: "a", type: "t", position: [0, 0] },
+          { id: "b", type: "t", position: [0, 0] },
+          { id: "c", type: "t", position: [0, 0] },
+        ],
+        edges: [
+          {
+            id: "e1",
+            source: "a",
+            target: "b",
+            condition: { type: "json_path", path: "$.score", op: "gt", value: 5 },
+          },
+          {
+            id: "e2",
+            source: "a",
+            target: "c",
+            condition: { type: "json_path", path: "$.score", op: "lte", value: 5 },
+          },
+        ],
+      },
+      { t: handler }
+    );
+    expect(ran).toEqual(["a", "c"]);
+  });
+});
@@ -5,6 +5,12 @@ import {
   runWorkflowDAGLevels,
   executionOrderToLevels,
   SharedContextManager,
+  buildWorkflowDAGFromEdges,
+  findWorkflowCycle,
+  resolveReadyWorkflowNodes,
+  runWorkflowDAG,
+  withFallbackEdge,
+  WorkflowCycleError,
 } from "@agentron-studio/runtime";
 
 describe("workflow DAG helpers", () => {
@@ -203,3 +209,288 @@ describe("WorkflowEngine execute", () => {
     expect(result.output).toBe("Example Domain");
   });
 });
+
+describe("workflow edge graph helpers", () => {
+  const diamond: any = {
+    nodes: [
+      { id: "a", type: "mock", parameters: {} },
+      { id: "b", type: "mock", parameters: {} },
+      { id: "c", type: "mock", parameters: {} },
+      { id: "d", type: "mock", parameters: {} },
+    ],
+    edges: [
+      { id: "e1", source: "a", target: "b" },
+      { id: "e2", source: "a", target: "c" },
+      { id: "e3", source: "b", target: "d" },
+      { id: "e4", source: "c", target: "d" },
+    ],
+  };
+
+  it("buildWorkflowDAGFromEdges derives topological levels with fan-out and join", () => {
+    expect(buildWorkflowDAGFromEdges(diamond)).toEqual([["a"], ["b", "c"], ["d"]]);
+  });
+
+  it("buildWorkflowDAGFromNodes uses edges when executionOrder is missing", () => {
+    expect(buildWorkflowDAGFromNodes(diamond)).toEqual([["a"], ["b", "c"], ["d"]]);
+  });
+
+  it("findWorkflowCycle returns the cycle path or null", () => {
+    const edges = [
+      { from: "a", to: "b" },
+      { from: "b", to: "c" },
+      { from: "c", to: "b" },
+    ];
+    expect(findWorkflowCycle(["a", "b", "c"], edges)).toEqual(["b", "c", "b"]);
+    expect(findWorkflowCycle(["a", "b"], [{ from: "a", to: "b" }])).toBeNull();
+  });
+
+  it("buildWorkflowDAGFromEdges throws WorkflowCycleError naming the cycle", () => {
+    const workflow: any = {
+      nodes: [
+        { id: "x", type: "mock" },
+        { id: "y", type: "mock" },
+      ],
+      edges: [
+        { id: "e1", source: "x", target: "y" },
+        { id: "e2", source: "y", target: "x" },
+      ],
+    };
+    expect(() => buildWorkflowDAGFromEdges(workflow)).toThrow(WorkflowCycleError);
+    expect(() => buildWorkflowDAGFromEdges(workflow)).toThrow(/x → y → x/);
+  });
+
+  it("resolveReadyWorkflowNodes waits for all upstream nodes before a join", () => {
+    const edges = [
+      { from: "a", to: "c" },
+      { from: "b", to: "c" },
+    ];
+    const ids = ["a", "b", "c"];
+    expect(
+      resolveReadyWorkflowNodes(ids, edges, { started: [], completed: [], skipped: [] }).ready
+    ).toEqual(["a", "b"]);
+    expect(
+      resolveReadyWorkflowNodes(ids, edges, { started: ["a", "b"], completed: ["a"], skipped: [] })
+        .ready
+    ).toEqual([]);
+    expect(
+      resolveReadyWorkflowNodes(ids, edges, {
+        started: ["a", "b"],
+        completed: ["a", "b"],
+        skipped: [],
+      }).ready
+    ).toEqual(["c"]);
+  });
+
+  it("resolveReadyWorkflowNodes skips nodes whose incoming edges are all inactive", () => {
+    const edges = [
+      { from: "a", to: "b" },
+      { from: "b", to: "c" },
+    ];
+    const result = resolveReadyWorkflowNodes(
+      ["a", "b", "c"],
+      edges,
+      { started: ["a"], completed: ["a"], skipped: [] },
+      () => false
+    );
+    expect(result).toEqual({ ready: [], skipped: ["b", "c"] });
+  });
+
+  it("resolveReadyWorkflowNodes starts only the roots when given and skips other sources", () => {
+    const edges = [
+      { from: "a", to: "c" },
+      { from: "b", to: "c" },
+    ];
+    const none = { started: [], completed: [], skipped: [] };
+    expect(resolveReadyWorkflowNodes(["a", "b", "c"], edges, none, undefined, ["a"])).toEqual({
+      ready: ["a"],
+      skipped: ["b"],
+    });
+    expect(
+      resolveReadyWorkflowNodes(
+        ["a", "b", "c"],
+        edges,
+        { started: ["a"], completed: ["a"], skipped: ["b"] },
+        undefined,
+        ["a"]
+      ).ready
+    ).toEqual(["c"]);
+  });
+
+  it("withFallbackEdge follows the first unbranched edge when no outgoing edge matches", () => {
+    const edges = [
+      { from: "a", to: "b", condition: "x" },
+      { from: "a", to: "c", condition: "y" },
+      { from: "r", to: "d", branch: "true" },
+    ];
+    const isActive = withFallbackEdge(edges, () => false);
+    expect(edges.map(isActive)).toEqual([true, false, false]);
+    const matched = withFallbackEdge(edges, (e) => e.condition === "y");
+    expect(edges.map(matched)).toEqual([false, true, false]);
+  });
+});
+
+describe("runWorkflowDAG", () => {
+  it("runs independent branches concurrently and gives join nodes all upstream outputs", async () => {
+    const workflow: any = {
+      nodes: [
+        { id: "start", type: "mock", parameters: { v: "s" } },
+        { id: "slow", type: "mock", parameters: { v: "slow", delay: 30 } },
+        { id: "fast", type: "mock", parameters: { v: "fast", delay: 1 } },
+        { id: "join", type: "join" },
+      ],
+      edges: [
+        { id: "e1", source: "start", target: "slow" },
+        { id: "e2", source: "start", target: "fast" },
+        { id: "e3", source: "slow", target: "join" },
+        { id: "e4", source: "fast", target: "join" },
+      ],
+    };
+    const events: string[] = [];
+    const handlers: any = {
+      mock: async (nodeId: string, config: any) => {
+        events.push(`start:${nodeId}`);
+        await new Promise((r) => setTimeout(r, config?.delay ?? 0));
+        events.push(`end:${nodeId}`);
+        return config?.v;
+      },
+      join: async (nodeId: string, _config: any, ctx: SharedContextManager) => {
+        events.push(`start:${nodeId}`);
+        return ctx.get(`__inputs_${nodeId}`);
+      },
+    };
+
+    const result = await runWorkflowDAG(workflow, handlers);
+
+    expect(events.indexOf("start:fast")).toBeLessThan(events.indexOf("end:slow"));
+    expect(events.indexOf("start:join")).toBeGreaterThan(events.indexOf("end:slow"));
+    expect(result.output).toEqual({ slow: "slow", fast: "fast" });
+  });
+
+  it("skips nodes behind inactive conditional edges", async () => {
+    const workflow: any = {
+      nodes: [
+        { id: "a", type: "mock", parameters: { v: "no" } },
+        { id: "yes", type: "mock", parameters: { v: "took yes" } },
+        { id: "no", type: "mock", parameters: { v: "took no" } },
+      ],
+      edges: [
+        {
+          id: "e1",
+          source: "a",
+          target: "yes",
+          condition: { type: "content_contains", value: "yes" },
+        },
+        {
+          id: "e2",
+          source: "a",
+          target: "no",
+          condition: { type: "content_contains", value: "no" },
+        },
+      ],
+    };
+    const ran: string[] = [];
+    const handlers: any = {
+      mock: async (nodeId: string, config: any) => {
+        ran.push(nodeId);
+        return config?.v;
+      },
+    };
+
+    const result = await runWorkflowDAG(workflow, handlers, undefined, {
+      isEdgeActive: (edge, out) =>
+        edge.condition?.type !== "content_contains" || String(out).includes(edge.condition.value),
+    });
+
+    expect(ran).toEqual(["a", "no"]);
+    expect(result.output).toBe("took no");
+  });
+
+  it("follows the first edge when no condition matches and starts only at the first node", async () => {
+    const workflow: any = {
+      nodes: [
+        { id: "a", type: "mock", parameters: { v: "neither" } },
+        { id: "yes", type: "mock", parameters: { v: "took yes" } },
+        { id: "no", type: "mock", parameters: { v: "took no" } },
+        { id: "orphan", type: "mock", parameters: { v: "orphan" } },
+      ],
+      edges: [
+        {
+          id: "e1",
+          source: "a",
+          target: "yes",
+          condition: { type: "content_contains", value: "yes" },
+        },
+        {
+          id: "e2",
+          source: "a",
+          target: "no",
+          condition: { type: "content_contains", value: "nope" },
+        },
+      ],
+    };
+    const ran: string[] = [];
+    const handlers: any = {
+      mock: async (nodeId: string, config: any) => {
+        ran.push(nodeId);
+        return config?.v;
+      },
+    };
+
+    const result = await runWorkflowDAG(workflow, handlers);
+
+    expect(ran).toEqual(["a", "yes"]);
+    expect(result.output).toBe("took yes");
+    const both = await runWorkflowDAG(workflow, handlers, undefined, { roots: ["a", "orphan"] });
+    expect(both.context.__output_orphan).toBe("orphan");
+  });
+});
+
+describe("WorkflowEngine execute with edges", () => {
+  it("runs acyclic edge graphs dependency-driven without maxRounds", async () => {
+    const workflow: any = {
+      nodes: [
+        { id: "a", type: "mock", parameters: { v: 1 } },
+        { id: "orphan", type: "mock", parameters: { v: 3 } },
+        { id: "b", type: "mock", parameters: { v: 2 } },
+      ],
+      edges: [{ id: "e1", source: "a", target: "b" }],
+    };
+    const calls: string[] = [];
+    const handlers: any = {
+      mock: async (nodeId: string, config: any) => {
+        calls.push(nodeId);
+        return config?.v;
+      },
+    };
+
+    const result = await new WorkflowEngine().execute(workflow, handlers);
+
+    expect(calls).toEqual(["a", "b"]);
+    expect(result.output).toBe(2);
+  });
+
+  it("runs a loop without maxRounds in node order instead of rejecting it", async () => {
+    const workflow: any = {
+      nodes: [
+        { id: "a", type: "mock" },
+        { id: "b", type: "mock" },
+      ],
+      edges: [
+        { id: "e1", source: "a", target: "b" },
+        { id: "e2", source: "b", target: "a" },
+      ],
+    };
+    const calls: string[] = [];
+    const handlers: any = {
+      mock: async (nodeId: string) => {
+        calls.push(nodeId);
+        return nodeId;
+      },
+    };
+
+    const result = await new WorkflowEngine().execute(workflow, handlers);
+
+    expect(calls).toEqual(["a", "b"]);
+    expect(result.output).toBe("b");
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import {
+  evaluateWorkflowExpression,
+  parseWorkflowExpression,
+  parseJsonLike,
+  WorkflowExpressionError,
+} from "@agentron-studio/runtime";
+
+describe("evaluateWorkflowExpression", () => {
+  const scope = {
+    output: { score: 0.9, tags: ["urgent", "billing"], text: "Hello World" },
+    context: { lang: "en", items: [{ name: "a" }, { name: "b" }] },
+  };
+
+  it("reads paths, indexes and length", () => {
+    expect(evaluateWorkflowExpression("output.score", scope)).toBe(0.9);
+    expect(evaluateWorkflowExpression("context.items[1].name", scope)).toBe("b");
+    expect(evaluateWorkflowExpression("output.tags.length", scope)).toBe(2);
+    expect(evaluateWorkflowExpression("output.missing.deep", scope)).toBeUndefined();
+  });
+
+  it("evaluates comparisons and boolean operators", () => {
+    expect(evaluateWorkflowExpression("output.score >= 0.8 && context.lang == 'en'", scope)).toBe(
+      true
+    );
+    expect(evaluateWorkflowExpression("!(output.score > 1) || false", scope)).toBe(true);
+    expect(evaluateWorkflowExpression("'5' == 5", {})).toBe(true);
+  });
+
+  it("supports contains, matches, arithmetic and functions", () => {
+    expect(evaluateWorkflowExpression("output.tags contains 'billing'", scope)).toBe(true);
+    expect(evaluateWorkflowExpression("output.text contains 'world'", scope)).toBe(true);
+    expect(evaluateWorkflowExpression("output.text matches '^hello'", scope)).toBe(true);
+    expect(evaluateWorkflowExpression("(1 + 2) * 3 % 4", {})).toBe(1);
+    expect(evaluateWorkflowExpression("upper(trim('  hi '))", {})).toBe("HI");
+    expect(evaluateWorkflowExpression("len(output.tags) + number('2')", scope)).toBe(4);
+  });
+
+  it("parses JSON text outputs when reading paths", () => {
+    expect(evaluateWorkflowExpression("output.ok", { output: '```json\n{"ok": true}\n```' })).toBe(
+      true
+    );
+  });
+
+  it("does not expose inherited properties", () => {
+    expect(evaluateWorkflowExpression("output.constructor", { output: {} })).toBeUndefined();
+    expect(evaluateWorkflowExpression("toString", {})).toBeUndefined();
+  });
+
+  it("throws WorkflowExpressionError for invalid expressions", () => {
+    expect(() => parseWorkflowExpression("output.score >")).toThrow(WorkflowExpressionError);
+    expect(() => parseWorkflowExpression("'open")).toThrow(/Unterminated/);
+    expect(() => evaluateWorkflowExpression("eval('1')", {})).toThrow(/Unknown function/);
+  });
+});
+
+describe("parseJsonLike", () => {
+  it("parses objects and arrays and leaves other text unchanged", () => {
+    expect(parseJsonLike('{"a": 1}')).toEqual({ a: 1 });
+    expect(parseJsonLike(" [1, 2] ")).toEqual([1, 2]);
+    expect(parseJsonLike("plain")).toBe("plain");
+    expect(parseJsonLike("{broken")).toBe("{broken");
+    expect(parseJsonLike(3)).toBe(3);
+  });
+});
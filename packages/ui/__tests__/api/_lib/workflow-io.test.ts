@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import {
+  mapWorkflowOutput,
+  validateWorkflowInputs,
+  validateWorkflowIO,
+  WorkflowIOError,
+} from "@agentron-studio/runtime";
+import type { WorkflowIOSchema } from "@agentron-studio/core";
+
+describe("validateWorkflowInputs", () => {
+  const schema: WorkflowIOSchema = {
+    type: "object",
+    properties: {
+      topic: { type: "string", minLength: 3 },
+      tone: { type: "string", enum: ["formal", "casual"], default: "formal" },
+      tags: { type: "array", items: { type: "string" } },
+    },
+    required: ["topic"],
+  };
+
+  it("applies defaults and accepts valid inputs", () => {
+    expect(validateWorkflowInputs(schema, { topic: "rust" })).toEqual({
+      inputs: { topic: "rust", tone: "formal" },
+      errors: [],
+    });
+  });
+
+  it("names each invalid field", () => {
+    const { errors } = validateWorkflowInputs(schema, { topic: "ab", tone: "rude", tags: [1] });
+    expect(errors).toEqual([
+      { field: "topic", message: "must be at least 3 characters" },
+      { field: "tone", message: 'must be one of ["formal","casual"]' },
+      { field: "tags[0]", message: "expected string, got integer" },
+    ]);
+    expect(validateWorkflowInputs(schema, "text").errors).toEqual([
+      { field: "", message: "inputs must be an object" },
+    ]);
+  });
+
+  it("accepts any object without a schema", () => {
+    expect(validateWorkflowInputs(undefined, { any: 1 }).errors).toEqual([]);
+  });
+});
+
+describe("validateWorkflowIO", () => {
+  it("reports bad schemas and unparsable mapping expressions", () => {
+    expect(
+      validateWorkflowIO({
+        inputSchema: { type: "array" },
+        outputSchema: { properties: { n: { type: "decimal" } } },
+        outputMapping: { n: "", m: "nodes.(" },
+      })
+    ).toEqual([
+      'inputSchema.type must be "object"',
+      'outputSchema.properties.n.type "decimal" is not supported',
+      "outputMapping.n must be a non-empty expression",
+      expect.stringContaining("outputMapping.m:"),
+    ]);
+    expect(validateWorkflowIO({ outputMapping: { title: "nodes.n1.title" } })).toEqual([]);
+  });
+});
+
+describe("mapWorkflowOutput", () => {
+  const run = {
+    output: "done",
+    context: {
+      __output_n1: '```json\n{"title": "Weekly report", "score": "7"}\n```',
+      __output_n2: "done",
+      lang: "en",
+    },
+    input: { topic: "rust" },
+  };
+
+  it("evaluates each field over node outputs, context and inputs", () => {
+    expect(
+      mapWorkflowOutput(
+        {
+          outputMapping: {
+            title: "nodes.n1.title",
+            score: "number(nodes.n1.score)",
+            lang: "context.lang",
+            topic: "input.topic",
+            missing: "nodes.n3",
+          },
+        },
+        run
+      )
+    ).toEqual({ title: "Weekly report", score: 7, lang: "en", topic: "rust" });
+  });
+
+  it("throws WorkflowIOError when the result does not match the output schema", () => {
+    const workflow = {
+      outputMapping: { title: "nodes.n1.title" },
+      outputSchema: {
+        type: "object" as const,
+        properties: { title: { type: "string" }, score: { type: "number" } },
+        required: ["title", "score"],
+      },
+    };
+    expect(() => mapWorkflowOutput(workflow, run)).toThrow(WorkflowIOError);
+    try {
+      mapWorkflowOutput(workflow, run);
+    } catch (err) {
+      expect((err as WorkflowIOError).fields).toEqual([{ field: "score", message: "is required" }]);
+      expect((err as Error).message).toBe("Invalid output: score: is required");
+    }
+  });
+});
@@ -0,0 +1,137 @@
+import { createHmac } from "node:crypto";
+import { describe, it, expect, vi } from "vitest";
+import {
+  db,
+  executions,
+  toExecutionRow,
+  toWorkflowTriggerRow,
+  workflowTriggers,
+  type WorkflowTrigger,
+} from "../../../app/api/_lib/db";
+import {
+  fireRagConnectorTriggers,
+  fireRunFinishedTriggers,
+  fireTelegramTriggers,
+  listWorkflowTriggerEvents,
+  mapTriggerInputs,
+  verifyWebhookSignature,
+} from "../../../app/api/_lib/workflow-triggers";
+
+vi.mock("../../../app/api/_lib/workflow-queue", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../../../app/api/_lib/workflow-queue")>();
+  return { ...actual, waitForJob: vi.fn().mockResolvedValue(undefined) };
+});
+
+async function insertTrigger(fields: Partial<WorkflowTrigger>): Promise<WorkflowTrigger> {
+  const trigger: WorkflowTrigger = {
+    id: crypto.randomUUID(),
+    workflowId: crypto.randomUUID(),
+    name: "Test trigger",
+    type: "webhook",
+    config: {},
+    inputMapping: {},
+    enabled: true,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    ...fields,
+  };
+  await db.insert(workflowTriggers).values(toWorkflowTriggerRow(trigger)).run();
+  return trigger;
+}
+
+describe("workflow-triggers", () => {
+  it("verifyWebhookSignature accepts hex HMAC-SHA256 with or without the sha256= prefix", () => {
+    const hex = createHmac("sha256", "key").update("body").digest("hex");
+    expect(verifyWebhookSignature("key", "body", hex)).toBe(true);
+    expect(verifyWebhookSignature("key", "body", `sha256=${hex.toUpperCase()}`)).toBe(true);
+    expect(verifyWebhookSignature("key", "body!", `sha256=${hex}`)).toBe(false);
+    expect(verifyWebhookSignature("other", "body", hex)).toBe(false);
+    expect(verifyWebhookSignature("key", "body", "sha256=zz")).toBe(false);
+    expect(verifyWebhookSignature("key", "body", null)).toBe(false);
+  });
+
+  it("mapTriggerInputs passes the payload through or evaluates the mapping", () => {
+    const base = {
+      id: "t1",
+      workflowId: "w1",
+      name: "Inbox",
+      type: "file" as const,
+      config: {},
+      enabled: true,
+      createdAt: 0,
+      updatedAt: 0,
+    };
+    const payload = { path: "/in/a.csv", name: "a.csv", size: 12 };
+    expect(mapTriggerInputs({ ...base, inputMapping: {} }, { source: "x", payload })).toEqual({
+      payload,
+    });
+    expect(
+      mapTriggerInputs(
+        {
+          ...base,
+          inputMapping: { file: "payload.path", big: "payload.size > 10", via: "trigger.name" },
+        },
+        { source: "x", payload }
+      )
+    ).toEqual({ file: "/in/a.csv", big: true, via: "Inbox" });
+  });
+
+  it("fires workflow_run triggers once per finished run of the watched workflow", async () => {
+    const sourceWorkflowId = crypto.randomUUID();
+    const trigger = await insertTrigger({
+      type: "workflow_run",
+      config: { workflowId: sourceWorkflowId, statuses: ["completed"] },
+      inputMapping: { summary: "payload.output.summary" },
+    });
+    const runId = crypto.randomUUID();
+    await db
+      .insert(executions)
+      .values(
+        toExecutionRow({
+          id: runId,
+          targetType: "workflow",
+          targetId: sourceWorkflowId,
+          status: "completed",
+          output: { output: { summary: "all good" } },
+        })
+      )
+      .run();
+
+    await fireRunFinishedTriggers(runId, "failed");
+    expect(await listWorkflowTriggerEvents({ triggerId: trigger.id })).toHaveLength(0);
+
+    await fireRunFinishedTriggers(runId, "completed");
+    await fireRunFinishedTriggers(runId, "completed");
+    const events = await listWorkflowTriggerEvents({ triggerId: trigger.id });
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ status: "queued", sourceRef: runId });
+    expect(events[0].payload).toMatchObject({
+      status: "completed",
+      output: { summary: "all good" },
+    });
+  });
+
+  it("fires telegram triggers on matching messages and connector triggers per new item", async () => {
+    const telegram = await insertTrigger({
+      type: "telegram",
+      config: { pattern: `^/deploy-${Date.now()} (\\w+)$` },
+      inputMapping: { env: "payload.match[1]" },
+    });
+    const pattern = telegram.config.pattern as string;
+    const text = pattern.slice(1, pattern.indexOf(" ")) + " staging";
+    expect(await fireTelegramTriggers({ text: "hello", chatId: 1, messageId: 1 })).toBe(0);
+    expect(await fireTelegramTriggers({ text, chatId: 1, messageId: 2 })).toBe(1);
+    const [event] = await listWorkflowTriggerEvents({ triggerId: telegram.id });
+    expect(event).toMatchObject({ status: "queued", sourceRef: "1:2" });
+
+    const connectorId = crypto.randomUUID();
+    const rag = await insertTrigger({ type: "rag_connector", config: { connectorId } });
+    await fireRagConnectorTriggers(connectorId, [
+      { documentId: "d1", externalId: "/notes/a.md", name: "a.md" },
+      { documentId: "d2", externalId: "/notes/b.md", name: "b.md" },
+    ]);
+    await fireRagConnectorTriggers(connectorId, [{ documentId: "d3", externalId: "/notes/a.md" }]);
+    const ragEvents = await listWorkflowTriggerEvents({ triggerId: rag.id });
+    expect(ragEvents.map((e) => e.sourceRef).sort()).toEqual(["/notes/a.md", "/notes/b.md"]);
+  });
+});
@@ -0,0 +1,242 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { NextRequest } from "next/server";
+import { db, authAdmin, authSessions, apiTokens } from "../../app/api/_lib/db";
+import { proxy, config } from "../../proxy";
+import { GET as statusGet } from "../../app/api/auth/status/route";
+import { POST as setupPost } from "../../app/api/auth/setup/route";
+import { POST as loginPost } from "../../app/api/auth/login/route";
+import { POST as logoutPost } from "../../app/api/auth/logout/route";
+import { PATCH as adminPatch, DELETE as adminDelete } from "../../app/api/auth/admin/route";
+import { GET as tokensGet, POST as tokensPost } from "../../app/api/auth/tokens/route";
+import { DELETE as tokenDelete } from "../../app/api/auth/tokens/[id]/route";
+import { runCode } from "@agentron-studio/runtime";
+import { getInternalApiBaseUrl, internalApiHeaders } from "../../app/api/_lib/api-auth";
+
+function jsonRequest(url: string, method: string, body: unknown) {
+  return new Request(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+/** Runs the proxy for a request; null means it was let through. */
+async function proxied(
+  path: string,
+  init: { method?: string; headers?: Record<string, string>; body?: string }
+) {
+  const res = await proxy(new NextRequest(`http://localhost${path}`, init));
+  return res.headers.get("x-middleware-next") === "1" ? null : res;
+}
+
+const cookieOf = (res: Response) => (res.headers.get("Set-Cookie") ?? "").split(";")[0];
+
+async function createToken(scope: string): Promise<{ token: string; id: string }> {
+  const res = await tokensPost(
+    jsonRequest("http://localhost/api/auth/tokens", "POST", { name: scope, scope })
+  );
+  return res.json();
+}
+
+describe("API auth", () => {
+  let session: string;
+
+  beforeAll(async () => {
+    await db.delete(authSessions).run();
+    await db.delete(authAdmin).run();
+    await db.delete(apiTokens).run();
+  });
+
+  afterAll(async () => {
+    await db.delete(authSessions).run();
+    await db.delete(authAdmin).run();
+  });
+
+  it("leaves the API open until the admin login is set up", async () => {
+    expect(await proxied("/api/shell-command/execute", { method: "POST" })).toBeNull();
+    const status = await (await statusGet(new Request("http://localhost/api/auth/status"))).json();
+    expect(status).toEqual({ enabled: false, authenticated: true });
+
+    const short = await setupPost(
+      jsonRequest("http://localhost/api/auth/setup", "POST", { password: "short" })
+    );
+    expect(short.status).toBe(400);
+    const res = await setupPost(
+      jsonRequest("http://localhost/api/auth/setup", "POST", { password: "admin-password" })
+    );
+    expect(res.status).toBe(201);
+    session = cookieOf(res);
+    expect(session).toMatch(/^agentron_session=/);
+    const again = await setupPost(
+      jsonRequest("http://localhost/api/auth/setup", "POST", { password: "admin-password" })
+    );
+    expect(again.status).toBe(400);
+  });
+
+  it("requires a session, token or internal call once enabled, but not for webhooks", async () => {
+    const anonymous = await proxied("/api/workflows", { method: "GET" });
+    expect(anonymous?.status).toBe(401);
+    const page = await proxied("/workflows?tab=1", { method: "GET" });
+    expect(page?.status).toBe(307);
+    expect(page?.headers.get("location")).toContain("/login?next=%2Fworkflows%3Ftab%3D1");
+
+    expect(await proxied("/api/hooks/some-token", { method: "POST" })).toBeNull();
+    expect(await proxied("/api/telegram/webhook", { method: "POST" })).toBeNull();
+    expect(await proxied("/api/auth/login", { method: "POST" })).toBeNull();
+    expect(await proxied("/login", { method: "GET" })).toBeNull();
+
+    const headers = { Cookie: session };
+    expect(await proxied("/api/shell-command/execute", { method: "POST", headers })).toBeNull();
+    expect(await proxied("/workflows", { method: "GET", headers })).toBeNull();
+    expect(
+      await proxied("/api/run-code", { method: "POST", headers: internalApiHeaders() })
+    ).toBeNull();
+    expect(process.env.AGENTRON_INTERNAL_API_TOKEN).toBeUndefined();
+  });
+
+  it("sends the internal token from the run-code tool only to the app's own origin", async () => {
+    const fetchMock = vi.fn<(url: string, init?: RequestInit) => Promise<Response>>(async () =>
+      Response.json({ stdout: "" })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    const prev = process.env.AGENTOS_APP_URL;
+    const sentAuth = () => fetchMock.mock.calls.at(-1)?.[1]?.headers as Record<string, string>;
+    try {
+      internalApiHeaders();
+      process.env.AGENTOS_APP_URL = getInternalApiBaseUrl();
+      await runCode({ code: "1" });
+      expect(sentAuth().Authorization).toBe(internalApiHeaders().Authorization);
+
+      process.env.AGENTOS_APP_URL = "https://elsewhere.example";
+      await runCode({ code: "1" });
+      expect(fetchMock.mock.calls.at(-1)?.[0]).toBe("https://elsewhere.example/api/run-code");
+      expect(sentAuth()).not.toHaveProperty("Authorization");
+    } finally {
+      vi.unstubAllGlobals();
+      if (prev !== undefined) process.env.AGENTOS_APP_URL = prev;
+      else delete process.env.AGENTOS_APP_URL;
+    }
+  });
+
+  it("checks every API path, including ones that look like static assets", async () => {
+    // The Next matcher helper expects the AsyncLocalStorage global the server normally provides.
+    (globalThis as Record<string, unknown>).AsyncLocalStorage ??= AsyncLocalStorage;
+    const { unstable_doesMiddlewareMatch } = await import("next/experimental/testing/server");
+    const matches = (url: string) => unstable_doesMiddlewareMatch({ config, url });
+    expect(matches("/api/sandbox-proxy/x.js")).toBe(true);
+    expect(matches("/api/files/photo.png")).toBe(true);
+    expect(matches("/workflows")).toBe(true);
+    expect(matches("/logo.png")).toBe(false);
+    expect(matches("/_next/static/chunks/app.js")).toBe(false);
+    expect((await proxied("/api/sandbox-proxy/x.js", {}))?.status).toBe(401);
+  });
+
+  it("limits access tokens to their scope and stops revoked tokens", async () => {
+    const invalid = await tokensPost(
+      jsonRequest("http://localhost/api/auth/tokens", "POST", { name: "x", scope: "owner" })
+    );
+    expect(invalid.status).toBe(400);
+
+    const read = await createToken("read");
+    const run = await createToken("run");
+    const admin = await createToken("admin");
+    expect(read.token).toMatch(/^agt_/);
+    const bearer = (token: string) => ({ Authorization: `Bearer ${token}` });
+
+    expect(await proxied("/api/workflows", { headers: bearer(read.token) })).toBeNull();
+    expect(
+      (
+        await proxied("/api/workflows/wf-1/execute", {
+          method: "POST",
+          headers: bearer(read.token),
+        })
+      )?.status
+    ).toBe(403);
+    expect((await proxied("/api/vault/credentials", { headers: bearer(read.token) }))?.status).toBe(
+      403
+    );
+    expect(
+      await proxied("/api/workflows/wf-1/execute", { method: "POST", headers: bearer(run.token) })
+    ).toBeNull();
+    expect(
+      (await proxied("/api/shell-command/execute", { method: "POST", headers: bearer(run.token) }))
+        ?.status
+    ).toBe(403);
+    expect(
+      await proxied("/api/backup/reset", { method: "POST", headers: bearer(admin.token) })
+    ).toBeNull();
+
+    const mcp = (token: string, method: string) =>
+      proxied("/api/mcp/server", {
+        method: "POST",
+        headers: { ...bearer(token), "Content-Type": "application/json" },
+        body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, params: {} }),
+      });
+    expect(await mcp(read.token, "tools/list")).toBeNull();
+    expect(await mcp(read.token, "resources/read")).toBeNull();
+    expect((await mcp(read.token, "tools/call"))?.status).toBe(403);
+    expect(await mcp(run.token, "tools/call")).toBeNull();
+    expect((await mcp(run.token, "tasks/cancel"))?.status).toBe(403);
+
+    const { tokens } = await (
+      await tokensGet(new Request("http://localhost/api/auth/tokens"))
+    ).json();
+    expect(tokens).toHaveLength(3);
+    expect(tokens.find((t: { id: string }) => t.id === read.id).lastUsedAt).toEqual(
+      expect.any(Number)
+    );
+    expect(JSON.stringify(tokens)).not.toContain(read.token);
+
+    const revoke = await tokenDelete(new Request("http://localhost/api/auth/tokens/x"), {
+      params: Promise.resolve({ id: read.id }),
+    });
+    expect(revoke.status).toBe(200);
+    expect((await proxied("/api/workflows", { headers: bearer(read.token) }))?.status).toBe(401);
+    const again = await tokenDelete(new Request("http://localhost/api/auth/tokens/x"), {
+      params: Promise.resolve({ id: read.id }),
+    });
+    expect(again.status).toBe(404);
+  });
+
+  it("logs in, changes the password, logs out and turns auth off", async () => {
+    const wrong = await loginPost(
+      jsonRequest("http://localhost/api/auth/login", "POST", { password: "nope-nope" })
+    );
+    expect(wrong.status).toBe(401);
+    const login = await loginPost(
+      jsonRequest("http://localhost/api/auth/login", "POST", { password: "admin-password" })
+    );
+    expect(login.status).toBe(200);
+    const other = cookieOf(login);
+
+    const changed = await adminPatch(
+      jsonRequest("http://localhost/api/auth/admin", "PATCH", {
+        currentPassword: "admin-password",
+        newPassword: "new-admin-password",
+      })
+    );
+    expect(changed.status).toBe(200);
+    expect((await proxied("/api/workflows", { headers: { Cookie: other } }))?.status).toBe(401);
+    const current = cookieOf(changed);
+    expect(await proxied("/api/workflows", { headers: { Cookie: current } })).toBeNull();
+
+    await logoutPost(
+      new Request("http://localhost/api/auth/logout", { headers: { Cookie: current } })
+    );
+    expect((await proxied("/api/workflows", { headers: { Cookie: current } }))?.status).toBe(401);
+
+    expect(
+      (
+        await adminDelete(
+          jsonRequest("http://localhost/api/auth/admin", "DELETE", { password: "admin-password" })
+        )
+      ).status
+    ).toBe(401);
+    const off = await adminDelete(
+      jsonRequest("http://localhost/api/auth/admin", "DELETE", { password: "new-admin-password" })
+    );
+    expect(off.status).toBe(200);
+    expect(await proxied("/api/workflows", { method: "GET" })).toBeNull();
+  });
+});
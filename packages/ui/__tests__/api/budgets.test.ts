@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import { GET as listGet, POST as listPost } from "../../app/api/budgets/route";
+import { GET, PATCH, DELETE } from "../../app/api/budgets/[id]/route";
+import { db, tokenUsage, toTokenUsageRow } from "../../app/api/_lib/db";
+
+function post(body: unknown) {
+  return listPost(
+    new Request("http://localhost/api/budgets", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    })
+  );
+}
+
+describe("Budgets API", () => {
+  it("POST validates scope, target and limits", async () => {
+    const noTarget = await post({ scope: "workflow", dailyLimit: 5 });
+    expect(noTarget.status).toBe(400);
+    expect((await noTarget.json()).error).toContain("scopeId");
+
+    const noLimit = await post({ scope: "workflow", scopeId: "wf-1" });
+    expect(noLimit.status).toBe(400);
+
+    const negative = await post({ scope: "workflow", scopeId: "wf-1", monthlyLimit: -2 });
+    expect(negative.status).toBe(400);
+    expect((await negative.json()).error).toContain("monthlyLimit");
+
+    const badAction = await post({
+      scope: "workflow",
+      scopeId: "wf-1",
+      dailyLimit: 1,
+      action: "x",
+    });
+    expect(badAction.status).toBe(400);
+  });
+
+  it("creates, lists with spend, updates and deletes a budget", async () => {
+    const agentId = `agent-${crypto.randomUUID()}`;
+    await db
+      .insert(tokenUsage)
+      .values({
+        ...toTokenUsageRow({
+          id: crypto.randomUUID(),
+          agentId,
+          provider: "openai",
+          model: "gpt-4o-mini",
+          promptTokens: 10,
+          completionTokens: 5,
+          estimatedCost: "0.25",
+        }),
+        createdAt: Date.now(),
+      })
+      .run();
+
+    const res = await post({
+      name: "Agent cap",
+      scope: "agent",
+      scopeId: agentId,
+      dailyLimit: "2",
+    });
+    expect(res.status).toBe(200);
+    const created = await res.json();
+    expect(created).toMatchObject({
+      name: "Agent cap",
+      scope: "agent",
+      scopeId: agentId,
+      dailyLimit: 2,
+      action: "pause",
+      enabled: true,
+      spend: { today: 0.25, thisMonth: 0.25 },
+    });
+
+    const list = await (await listGet()).json();
+    expect(list.budgets.map((b: { id: string }) => b.id)).toContain(created.id);
+
+    const params = { params: Promise.resolve({ id: created.id }) };
+    const patched = await PATCH(
+      new Request("http://localhost", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          enabled: false,
+          dailyLimit: null,
+          monthlyLimit: 20,
+          action: "cancel",
+        }),
+      }),
+      params
+    );
+    expect(patched.status).toBe(200);
+    const updated = await patched.json();
+    expect(updated).toMatchObject({ enabled: false, monthlyLimit: 20, action: "cancel" });
+    expect(updated.dailyLimit).toBeUndefined();
+
+    expect((await DELETE(new Request("http://localhost"), params)).status).toBe(200);
+    expect((await GET(new Request("http://localhost"), params)).status).toBe(404);
+  });
+});
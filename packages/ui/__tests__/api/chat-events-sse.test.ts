@@ -13,12 +13,22 @@ vi.mock("@agentron-studio/runtime", async (importOriginal) => {
   return {
     ...orig,
     createDefaultLLMManager: () => ({
-      chat: async () => ({
-        id: "mock",
-        content: "Fixture reply from mock LLM",
-        usage: undefined,
-        raw: { choices: [{ message: { content: "Fixture reply from mock LLM" } }] },
-      }),
+      chat: async (
+        _config: unknown,
+        _req: unknown,
+        _context: unknown,
+        options?: { onStream?: (event: { type: "content"; delta: string }) => void }
+      ) => {
+        options?.onStream?.({ type: "content", delta: "Fixture reply " });
+        options?.onStream?.({ type: "content", delta: '<tool_call>{"name": "x"}</tool_' });
+        options?.onStream?.({ type: "content", delta: "call>from mock LLM" });
+        return {
+          id: "mock",
+          content: "Fixture reply from mock LLM",
+          usage: undefined,
+          raw: { choices: [{ message: { content: "Fixture reply from mock LLM" } }] },
+        };
+      },
     }),
   };
 });
@@ -124,6 +134,13 @@ describe("Chat events SSE", () => {
     const doneOrError = events.find((e) => e?.type === "done" || e?.type === "error");
     expect(events.length).toBeGreaterThan(0);
     expect(doneOrError?.type).toBe("done");
+
+    // Streamed text reaches the client as content_delta, without tool call markup
+    const streamed = (events as { type?: string; delta?: string }[])
+      .filter((e) => e.type === "content_delta")
+      .map((e) => e.delta)
+      .join("");
+    expect(streamed).toBe("Fixture reply from mock LLM");
   }, 45_000);
 
   it("fallback runs job when no GET /api/chat/events connects (e.g. after Retry)", async () => {
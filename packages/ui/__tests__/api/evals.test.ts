@@ -0,0 +1,256 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { eq } from "drizzle-orm";
+import type { Agent } from "@agentron-studio/core";
+import { GET as listGet, POST as listPost } from "../../app/api/evals/route";
+import { GET, PATCH, DELETE } from "../../app/api/evals/[id]/route";
+import { POST as runPost } from "../../app/api/evals/[id]/run/route";
+import { POST as comparePost } from "../../app/api/evals/[id]/compare/route";
+import { GET as runGet } from "../../app/api/evals/runs/[runId]/route";
+import { db, agents, agentVersions, executions, evalResults } from "../../app/api/_lib/db";
+import { runWorkflow } from "../../app/api/_lib/run-workflow";
+
+vi.mock("../../app/api/_lib/run-workflow", async (importOriginal) => {
+  const mod = await importOriginal<typeof import("../../app/api/_lib/run-workflow")>();
+  return { ...mod, runWorkflow: vi.fn() };
+});
+
+/** Answers like an agent whose system prompt decides whether it knows capitals. */
+function answer(options: Parameters<typeof runWorkflow>[0]) {
+  const agent = Object.values(options.agentOverrides ?? {})[0] as
+    | (Agent & { definition?: { systemPrompt?: string } })
+    | undefined;
+  const prompt = agent?.definition?.systemPrompt ?? "";
+  const question = String(options.runInputs?.input ?? "");
+  if (question.includes("Spain")) return prompt.includes("capitals") ? "Madrid" : "Barcelona";
+  if (question.includes("JSON")) return '```json\n{"city": "Paris"}\n```';
+  return "Paris";
+}
+
+async function createAgent(systemPrompt: string): Promise<string> {
+  const id = crypto.randomUUID();
+  await db
+    .insert(agents)
+    .values({
+      id,
+      name: "Eval agent",
+      kind: "node",
+      type: "internal",
+      protocol: "native",
+      capabilities: "[]",
+      scopes: "[]",
+      llmConfig: null,
+      definition: JSON.stringify({ systemPrompt }),
+      createdAt: Date.now(),
+    })
+    .run();
+  return id;
+}
+
+function post(body: unknown) {
+  return listPost(
+    new Request("http://localhost/api/evals", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    })
+  );
+}
+
+function withId<T>(
+  handler: (req: Request, ctx: { params: Promise<{ id: string }> }) => Promise<T>,
+  id: string,
+  body?: unknown
+) {
+  return handler(
+    new Request(`http://localhost/api/evals/${id}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body ?? {}),
+    }),
+    { params: Promise.resolve({ id }) }
+  );
+}
+
+const cases = [
+  { name: "France", input: "Capital of France?", expected: "paris", scorer: { type: "exact" } },
+  { name: "Spain", input: "Capital of Spain?", expected: "Madrid", scorer: { type: "exact" } },
+  {
+    name: "JSON",
+    input: "France as JSON",
+    scorer: {
+      type: "json_schema",
+      schema: { type: "object", properties: { city: { type: "string" } }, required: ["city"] },
+    },
+  },
+];
+
+describe("Eval suites API", () => {
+  beforeEach(() => {
+    vi.mocked(runWorkflow).mockReset();
+    vi.mocked(runWorkflow).mockImplementation(async (options) => ({
+      output: answer(options),
+      context: {},
+      trail: [],
+    }));
+  });
+
+  it("POST validates the target and cases", async () => {
+    const badType = await post({ name: "x", targetType: "tool", targetId: "t" });
+    expect(badType.status).toBe(400);
+
+    const noExpected = await post({
+      name: "x",
+      targetType: "agent",
+      targetId: "a",
+      cases: [{ input: "hi", scorer: { type: "exact" } }],
+    });
+    expect(noExpected.status).toBe(400);
+    expect((await noExpected.json()).error).toContain("cases[0].expected");
+
+    const badRegex = await post({
+      name: "x",
+      targetType: "agent",
+      targetId: "a",
+      cases: [{ input: "hi", scorer: { type: "regex", pattern: "(" } }],
+    });
+    expect(badRegex.status).toBe(400);
+    expect((await badRegex.json()).error).toContain("cases[0].scorer.pattern");
+  });
+
+  it("creates, lists, updates and deletes a suite", async () => {
+    const agentId = await createAgent("You answer questions.");
+    const res = await post({ name: "Capitals", targetType: "agent", targetId: agentId, cases });
+    expect(res.status).toBe(201);
+    const suite = await res.json();
+    expect(suite.cases.map((c: { name: string }) => c.name)).toEqual(["France", "Spain", "JSON"]);
+
+    const list = await listGet(
+      new Request(`http://localhost/api/evals?targetType=agent&targetId=${agentId}`)
+    );
+    expect((await list.json()).suites.map((s: { id: string }) => s.id)).toEqual([suite.id]);
+
+    const patched = await PATCH(
+      new Request(`http://localhost/api/evals/${suite.id}`, {
+        method: "PATCH",
+        body: JSON.stringify({ name: "Capitals v2", cases: cases.slice(0, 1) }),
+      }),
+      { params: Promise.resolve({ id: suite.id }) }
+    );
+    expect((await patched.json()).cases).toHaveLength(1);
+
+    const got = await GET(new Request("http://localhost"), {
+      params: Promise.resolve({ id: suite.id }),
+    });
+    const body = await got.json();
+    expect(body.name).toBe("Capitals v2");
+    expect(body.runs).toEqual([]);
+
+    await DELETE(new Request("http://localhost"), { params: Promise.resolve({ id: suite.id }) });
+    const gone = await GET(new Request("http://localhost"), {
+      params: Promise.resolve({ id: suite.id }),
+    });
+    expect(gone.status).toBe(404);
+  });
+
+  it("runs each case through the engine and stores per-case results", async () => {
+    const agentId = await createAgent("You answer questions.");
+    const suite = await (
+      await post({ name: "Capitals", targetType: "agent", targetId: agentId, cases })
+    ).json();
+
+    const res = await withId(runPost, suite.id, { label: "nightly" });
+    expect(res.status).toBe(201);
+    const run = await res.json();
+    expect(run).toMatchObject({ status: "completed", caseCount: 3, passedCount: 2 });
+    expect(run.meanScore).toBeCloseTo(2 / 3);
+    expect(run.results.map((r: { passed: boolean }) => r.passed)).toEqual([true, false, true]);
+
+    const options = vi.mocked(runWorkflow).mock.calls[0][0];
+    expect(options.workflow?.nodes).toEqual([
+      expect.objectContaining({ type: "agent", parameters: { agentId } }),
+    ]);
+    expect(options.runInputs).toEqual({ input: "Capital of France?" });
+    const execRows = await db
+      .select()
+      .from(executions)
+      .where(eq(executions.id, run.results[0].executionId));
+    expect(execRows[0]).toMatchObject({
+      targetType: "agent",
+      targetId: agentId,
+      status: "completed",
+    });
+    const stored = await db.select().from(evalResults).where(eq(evalResults.evalRunId, run.id));
+    expect(stored).toHaveLength(3);
+    expect(stored.every((r) => r.evalSetRef === suite.id)).toBe(true);
+
+    const fetched = await runGet(new Request("http://localhost"), {
+      params: Promise.resolve({ runId: run.id }),
+    });
+    expect((await fetched.json()).label).toBe("nightly");
+  });
+
+  it("records a failed case run as an error with score 0", async () => {
+    const agentId = await createAgent("You answer questions.");
+    const suite = await (
+      await post({ name: "Capitals", targetType: "agent", targetId: agentId, cases })
+    ).json();
+    vi.mocked(runWorkflow).mockRejectedValueOnce(new Error("No LLM provider configured"));
+
+    const run = await (await withId(runPost, suite.id)).json();
+    expect(run.results[0]).toMatchObject({
+      score: 0,
+      passed: false,
+      error: "No LLM provider configured",
+    });
+    expect(run.passedCount).toBe(1);
+  });
+
+  it("compares two agent versions side by side", async () => {
+    const agentId = await createAgent("You know capitals well.");
+    const [current] = await db.select().from(agents).where(eq(agents.id, agentId));
+    await db
+      .insert(agentVersions)
+      .values({
+        id: crypto.randomUUID(),
+        agentId,
+        version: 1,
+        snapshot: JSON.stringify({
+          ...current,
+          definition: JSON.stringify({ systemPrompt: "You answer questions." }),
+        }),
+        createdAt: Date.now(),
+        conversationId: null,
+      })
+      .run();
+    const suite = await (
+      await post({ name: "Capitals", targetType: "agent", targetId: agentId, cases })
+    ).json();
+
+    const forward = await (
+      await withId(comparePost, suite.id, { baseline: { agentVersion: 1 }, candidate: {} })
+    ).json();
+    expect(forward.regressed).toBe(false);
+    expect(forward.improvements).toBe(1);
+    expect(forward.cases.find((c: { name: string }) => c.name === "Spain")).toMatchObject({
+      baseline: { passed: false },
+      candidate: { passed: true },
+      change: "improved",
+    });
+
+    const backward = await (
+      await withId(comparePost, suite.id, {
+        baselineRunId: forward.candidateRun.id,
+        candidateRunId: forward.baselineRun.id,
+      })
+    ).json();
+    expect(backward.regressed).toBe(true);
+    expect(backward.regressions).toBe(1);
+
+    const missing = await withId(comparePost, suite.id, {
+      baseline: { agentVersion: 9 },
+      candidate: {},
+    });
+    expect(missing.status).toBe(400);
+    expect((await missing.json()).error).toContain("has no version 9");
+  });
+});
@@ -35,6 +35,25 @@ describe("LLM Providers API", () => {
     expect(Array.isArray(data)).toBe(true);
   });
 
+  it("GET /api/llm/providers flags whether each model accepts images", async () => {
+    const create = (model: string, extra?: Record<string, unknown>) =>
+      createPost(
+        new Request("http://localhost/api/llm/providers", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ provider: "local", model, extra }),
+        })
+      ).then((r) => r.json() as Promise<{ id: string }>);
+    const llava = await create("llava:13b");
+    const llama = await create("llama3.1:8b");
+    const overridden = await create("my-finetune", { vision: true });
+    const data = (await (await listGet()).json()) as { id: string; vision: boolean }[];
+    const vision = (id: string) => data.find((p) => p.id === id)?.vision;
+    expect(vision(llava.id)).toBe(true);
+    expect(vision(llama.id)).toBe(false);
+    expect(vision(overridden.id)).toBe(true);
+  });
+
   it("POST /api/llm/providers does not persist apiKey (only apiKeyRef)", async () => {
     const res = await createPost(
       new Request("http://localhost/api/llm/providers", {
@@ -0,0 +1,219 @@
+import { describe, it, expect, vi, beforeAll } from "vitest";
+import { POST } from "../../app/api/mcp/server/route";
+import {
+  db,
+  agents,
+  workflows,
+  prompts,
+  toAgentRow,
+  toWorkflowRow,
+  toPromptRow,
+} from "../../app/api/_lib/db";
+import { executeTool } from "../../app/api/chat/_lib/execute-tool";
+
+vi.mock("../../app/api/chat/_lib/execute-tool", () => ({
+  executeTool: vi.fn(),
+}));
+
+const suffix = Date.now().toString(36);
+const workflowId = `wf-mcp-${suffix}`;
+const declaredWorkflowId = `wf-mcp-declared-${suffix}`;
+const agentId = `agent-mcp-${suffix}`;
+const promptId = `prompt-mcp-${suffix}`;
+
+let requestId = 0;
+
+async function rpc(method: string, params: Record<string, unknown> = {}) {
+  const res = await POST(
+    new Request("http://localhost/api/mcp/server", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: ++requestId, method, params }),
+    })
+  );
+  expect(res.status).toBe(200);
+  return (await res.json()) as {
+    result?: Record<string, unknown>;
+    error?: { code: number; message: string };
+  };
+}
+
+describe("Agentron MCP server", () => {
+  beforeAll(async () => {
+    await db
+      .insert(workflows)
+      .values(
+        toWorkflowRow({
+          id: workflowId,
+          name: `Scan site ${suffix}`,
+          description: "Scans a website for broken links",
+          executionMode: "one_time",
+          nodes: [
+            {
+              id: "n1",
+              type: "agent",
+              position: [0, 0],
+              parameters: { agentId, targetUrl: "https://example.com", depth: 2 },
+            },
+          ],
+          edges: [],
+        })
+      )
+      .run();
+    await db
+      .insert(workflows)
+      .values(
+        toWorkflowRow({
+          id: declaredWorkflowId,
+          name: `Translate ${suffix}`,
+          executionMode: "one_time",
+          nodes: [
+            {
+              id: "n1",
+              type: "agent",
+              position: [0, 0],
+              parameters: { agentId, language: "de" },
+            },
+          ],
+          edges: [],
+          inputSchema: {
+            type: "object",
+            properties: { text: { type: "string", description: "Text to translate" } },
+            required: ["text"],
+            additionalProperties: false,
+          },
+        })
+      )
+      .run();
+    await db
+      .insert(agents)
+      .values(
+        toAgentRow({
+          id: agentId,
+          name: `Link checker ${suffix}`,
+          description: "Checks links",
+          kind: "node",
+          type: "internal",
+          protocol: "native",
+          agentKey: "secret-key",
+          capabilities: [],
+          scopes: [],
+        })
+      )
+      .run();
+    await db
+      .insert(prompts)
+      .values(
+        toPromptRow({
+          id: promptId,
+          name: `Summarize ${suffix}`,
+          description: "Summarize a text",
+          arguments: [{ name: "text", required: true }],
+          template: "Summarize in one line: {{text}}",
+        })
+      )
+      .run();
+  });
+
+  it("initializes with tools, resources and prompts capabilities", async () => {
+    const { result } = await rpc("initialize", {
+      protocolVersion: "2025-06-18",
+      capabilities: {},
+      clientInfo: { name: "test", version: "1.0.0" },
+    });
+    expect(result?.capabilities).toMatchObject({ tools: {}, resources: {}, prompts: {} });
+  });
+
+  it("lists workflows as tools with input schemas from their agent node parameters", async () => {
+    const { result } = await rpc("tools/list");
+    const tool = (result?.tools as Array<Record<string, unknown>>).find(
+      (t) => t.title === `Scan site ${suffix}`
+    );
+    expect(tool?.name).toBe(`workflow_scan_site_${suffix}`);
+    expect(tool?.description).toBe("Scans a website for broken links");
+    expect(tool?.inputSchema).toEqual({
+      type: "object",
+      properties: {
+        targetUrl: { type: "string", default: "https://example.com" },
+        depth: { type: "number", default: 2 },
+      },
+      additionalProperties: true,
+    });
+  });
+
+  it("publishes a workflow's declared input schema instead of its node parameters", async () => {
+    const { result } = await rpc("tools/list");
+    const tool = (result?.tools as Array<Record<string, unknown>>).find(
+      (t) => t.title === `Translate ${suffix}`
+    );
+    expect(tool?.inputSchema).toEqual({
+      type: "object",
+      properties: { text: { type: "string", description: "Text to translate" } },
+      required: ["text"],
+      additionalProperties: false,
+    });
+  });
+
+  it("runs the workflow on tools/call and reports run errors as tool errors", async () => {
+    vi.mocked(executeTool).mockResolvedValueOnce({
+      id: "run-1",
+      status: "completed",
+      output: { output: "3 broken links" },
+    });
+    const { result } = await rpc("tools/call", {
+      name: `workflow_scan_site_${suffix}`,
+      arguments: { targetUrl: "https://agentron.dev" },
+    });
+    expect(executeTool).toHaveBeenCalledWith("execute_workflow", {
+      workflowId,
+      inputs: { targetUrl: "https://agentron.dev" },
+    });
+    expect(result?.structuredContent).toMatchObject({ id: "run-1", status: "completed" });
+
+    vi.mocked(executeTool).mockResolvedValueOnce({ error: "Workflow not found" });
+    const failed = await rpc("tools/call", { name: `workflow_scan_site_${suffix}` });
+    expect(failed.result?.isError).toBe(true);
+    expect(failed.result?.content).toEqual([{ type: "text", text: "Workflow not found" }]);
+  });
+
+  it("publishes agents as resources without their keys", async () => {
+    const { result } = await rpc("resources/list");
+    const uri = `agentron://agents/${agentId}`;
+    expect((result?.resources as Array<{ uri: string }>).some((r) => r.uri === uri)).toBe(true);
+
+    const read = await rpc("resources/read", { uri });
+    const contents = read.result?.contents as Array<{ text: string; mimeType: string }>;
+    expect(contents[0].mimeType).toBe("application/json");
+    const agent = JSON.parse(contents[0].text);
+    expect(agent.name).toBe(`Link checker ${suffix}`);
+    expect(agent.agentKey).toBeUndefined();
+
+    const missing = await rpc("resources/read", { uri: "agentron://agents/none" });
+    expect(missing.error?.message).toContain("Resource not found");
+  });
+
+  it("publishes prompt templates as prompts rendered with their arguments", async () => {
+    const { result } = await rpc("prompts/list");
+    const prompt = (result?.prompts as Array<Record<string, unknown>>).find(
+      (p) => p.title === `Summarize ${suffix}`
+    );
+    expect(prompt?.arguments).toEqual([{ name: "text", required: true }]);
+
+    const got = await rpc("prompts/get", {
+      name: prompt?.name,
+      arguments: { text: "MCP adds resources and prompts." },
+    });
+    expect(got.result?.messages).toEqual([
+      {
+        role: "user",
+        content: { type: "text", text: "Summarize in one line: MCP adds resources and prompts." },
+      },
+    ]);
+
+    const missingArg = await rpc("prompts/get", { name: prompt?.name });
+    expect(missingArg.error?.message).toContain("Missing required prompt arguments: text");
+  });
+});
@@ -1,7 +1,57 @@
-import { describe, it, expect } from "vitest";
-import { GET } from "../../app/api/mcp/route";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { eq } from "drizzle-orm";
+import { GET, POST } from "../../app/api/mcp/route";
+import {
+  db,
+  tools as toolsTable,
+  prompts as promptsTable,
+  fromToolRow,
+  fromPromptRow,
+} from "../../app/api/_lib/db";
+import { defaultMcpServerName, mcpToolId, mcpToolIds } from "../../app/api/_lib/mcp-tools";
+import { updateAppSettings } from "../../app/api/_lib/app-settings";
+
+const listTools = vi.fn();
+const listResources = vi.fn();
+const listPrompts = vi.fn();
+const getPrompt = vi.fn();
+
+vi.mock("@agentron-studio/runtime", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@agentron-studio/runtime")>()),
+  getMCPClient: () => ({ listTools, listResources, listPrompts, getPrompt }),
+}));
+
+const SERVER_TOOLS = [
+  {
+    name: "read_file",
+    description: "Read a file from the allowed directories",
+    inputSchema: {
+      type: "object",
+      properties: { path: { type: "string" } },
+      required: ["path"],
+    },
+  },
+  { name: "list.directory", title: "List directory", inputSchema: { type: "object" } },
+];
+
+function post(body: unknown) {
+  return POST(
+    new Request("http://localhost/api/mcp", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    })
+  );
+}
 
 describe("MCP API", () => {
+  beforeEach(() => {
+    listTools.mockReset();
+    listTools.mockResolvedValue(SERVER_TOOLS);
+    listResources.mockResolvedValue([]);
+    listPrompts.mockResolvedValue([]);
+  });
+
   it("GET /api/mcp returns tools array", async () => {
     const res = await GET();
     expect(res.status).toBe(200);
@@ -9,4 +59,162 @@ describe("MCP API", () => {
     expect(data).toHaveProperty("tools");
     expect(Array.isArray(data.tools)).toBe(true);
   });
+
+  it("POST /api/mcp lists a stdio server's tools with their schemas", async () => {
+    updateAppSettings({
+      mcpStdioServers: ["npx -y  @modelcontextprotocol/server-filesystem@1.0.0 /data"],
+    });
+    const res = await post({
+      server: {
+        transport: "stdio",
+        command: "npx",
+        args: ["-y", "@modelcontextprotocol/server-filesystem@1.0.0", "/data"],
+      },
+    });
+    expect(res.status).toBe(200);
+    const data = await res.json();
+    expect(data.name).toBe("server-filesystem");
+    expect(data.tools[0].inputSchema.required).toEqual(["path"]);
+    expect(data.imported).toBeUndefined();
+  });
+
+  it("POST /api/mcp with import registers every tool and updates them on re-import", async () => {
+    const server = { transport: "sse", url: "http://localhost:3001/sse" };
+    const res = await post({ server, name: "Files", import: true });
+    expect(res.status).toBe(200);
+    const data = await res.json();
+    expect(data.imported.map((t: { id: string }) => t.id)).toEqual([
+      "mcp-files-read_file",
+      "mcp-files-list-directory",
+    ]);
+
+    const rows = await db.select().from(toolsTable).where(eq(toolsTable.id, "mcp-files-read_file"));
+    const tool = fromToolRow(rows[0]);
+    expect(tool.protocol).toBe("mcp");
+    expect(tool.config).toMatchObject({
+      transport: "sse",
+      url: "http://localhost:3001/sse",
+      toolName: "read_file",
+      description: "Read a file from the allowed directories",
+    });
+    expect(tool.inputSchema).toEqual(SERVER_TOOLS[0].inputSchema);
+
+    listTools.mockResolvedValue([{ ...SERVER_TOOLS[0], description: "Read a text file" }]);
+    await post({ server, name: "Files", import: true });
+    const updated = await db
+      .select()
+      .from(toolsTable)
+      .where(eq(toolsTable.id, "mcp-files-read_file"));
+    expect(fromToolRow(updated[0]).config.description).toBe("Read a text file");
+
+    const list = await (await GET()).json();
+    expect(list.tools.some((t: { id: string }) => t.id === "mcp-files-list-directory")).toBe(true);
+  });
+
+  it("POST /api/mcp lists resources and imports prompts as templates with their arguments", async () => {
+    listResources.mockResolvedValue([
+      { uri: "file:///docs/guide.md", name: "guide.md", mimeType: "text/markdown" },
+    ]);
+    listPrompts.mockResolvedValue([
+      {
+        name: "review_code",
+        title: "Review code",
+        description: "Review a diff",
+        arguments: [
+          { name: "diff", required: true },
+          { name: "focus", description: "What to look at" },
+        ],
+      },
+      { name: "broken" },
+    ]);
+    getPrompt.mockImplementation(async (name: string, args: Record<string, string>) => {
+      if (name === "broken") throw new Error("Prompt rendering failed");
+      return {
+        messages: [
+          { role: "user", text: `Review this diff:\n${args.diff}` },
+          { role: "user", text: `Focus on ${args.focus}.` },
+        ],
+      };
+    });
+
+    const res = await post({ server: "http://localhost:3002/mcp", name: "Git", import: true });
+    expect(res.status).toBe(200);
+    const data = await res.json();
+    expect(data.resources[0].uri).toBe("file:///docs/guide.md");
+    expect(data.importedPrompts.map((p: { id: string }) => p.id)).toEqual(["mcp-git-review_code"]);
+    expect(data.skippedPrompts).toEqual([{ name: "broken", error: "Prompt rendering failed" }]);
+
+    const rows = await db
+      .select()
+      .from(promptsTable)
+      .where(eq(promptsTable.id, "mcp-git-review_code"));
+    const template = fromPromptRow(rows[0]);
+    expect(template).toMatchObject({
+      name: "Git: Review code",
+      description: "Review a diff",
+      template: "Review this diff:\n{{diff}}\n\nFocus on {{focus}}.",
+    });
+    expect(template.arguments?.[0]).toEqual({ name: "diff", required: true });
+
+    const list = await (await GET()).json();
+    expect(list.prompts.some((p: { id: string }) => p.id === "mcp-git-review_code")).toBe(true);
+  });
+
+  it("POST /api/mcp refuses stdio servers that are not configured", async () => {
+    updateAppSettings({ mcpStdioServers: ["uvx mcp-server-git"] });
+    listTools.mockClear();
+
+    const res = await post({ server: { transport: "stdio", command: "sh", args: ["-c", "id"] } });
+    expect(res.status).toBe(403);
+    expect((await res.json()).error).toContain('"sh -c id" is not configured');
+    const env = await post({
+      server: {
+        transport: "stdio",
+        command: "uvx",
+        args: ["mcp-server-git"],
+        env: { NODE_OPTIONS: "-r x" },
+      },
+    });
+    expect(env.status).toBe(403);
+    expect(listTools).not.toHaveBeenCalled();
+
+    const allowed = await post({
+      server: { transport: "stdio", command: "uvx", args: ["mcp-server-git"], env: { TOKEN: "t" } },
+    });
+    expect(allowed.status).toBe(200);
+  });
+
+  it("POST /api/mcp returns 400 without a server and 502 when the server fails", async () => {
+    expect((await post({ server: { transport: "stdio" } })).status).toBe(400);
+    expect((await post({ server: { transport: "stdio", command: "x", args: "a" } })).status).toBe(
+      400
+    );
+    listTools.mockRejectedValueOnce(new Error("spawn uvx ENOENT"));
+    const res = await post({ server: "http://localhost:9/mcp" });
+    expect(res.status).toBe(502);
+    expect((await res.json()).error).toContain("ENOENT");
+  });
+
+  it("names servers after their package or host and keeps ids valid function names", () => {
+    expect(
+      defaultMcpServerName({
+        transport: "stdio",
+        command: "uvx",
+        args: ["mcp-server-git", "--repository", "/repo"],
+      })
+    ).toBe("mcp-server-git");
+    expect(
+      defaultMcpServerName({ transport: "stdio", command: "npx", args: ["-y", "@acme/mcp@2"] })
+    ).toBe("mcp");
+    expect(defaultMcpServerName({ url: "https://mcp.example.com/mcp" })).toBe("mcp.example.com");
+    expect(mcpToolId("My Server", "x".repeat(80))).toMatch(/^mcp-my-server-x+-[0-9a-f]{8}$/);
+    expect(mcpToolId("My Server", "x".repeat(80))).toHaveLength(64);
+    expect(mcpToolId("My Server", "x".repeat(80))).not.toBe(mcpToolId("My Server", "x".repeat(81)));
+    expect(mcpToolId("My Server", "read_file")).toBe("mcp-my-server-read_file");
+    expect(mcpToolIds("Files", ["a.b", "a-b", "c"])).toEqual([
+      "mcp-files-a-b",
+      expect.stringMatching(/^mcp-files-a-b-[0-9a-f]{8}$/),
+      "mcp-files-c",
+    ]);
+  });
 });
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi } from "vitest";
+import { POST } from "../../app/api/rag/connectors/[id]/sync/route";
+import { POST as listPost } from "../../app/api/rag/connectors/route";
+import { POST as collPost } from "../../app/api/rag/collections/route";
+import { POST as encPost } from "../../app/api/rag/encoding-config/route";
+import { POST as storePost } from "../../app/api/rag/document-store/route";
+import { eq } from "drizzle-orm";
+import { ragDocuments } from "@agentron-studio/core";
+import { db } from "../../app/api/_lib/db";
+
+vi.mock("../../app/api/rag/ingest/route", () => ({
+  ingestOneDocument: vi.fn().mockResolvedValue({ chunks: 1 }),
+}));
+
+const listResources = vi.fn();
+const readResource = vi.fn();
+
+vi.mock("@agentron-studio/runtime", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@agentron-studio/runtime")>()),
+  getMCPClient: () => ({ listResources, readResource }),
+}));
+
+describe("RAG connectors [id] sync API (mcp)", () => {
+  it("POST sync for an mcp connector stores its resources and updates them on re-sync", async () => {
+    listResources.mockResolvedValue([
+      { uri: "docs://guide", name: "guide", mimeType: "text/markdown" },
+      { uri: "docs://draft", name: "draft.md" },
+    ]);
+    readResource.mockImplementation(async (uri: string) => [
+      { uri, mimeType: "text/markdown", text: `# ${uri}` },
+    ]);
+    const enc = await (
+      await encPost(
+        new Request("http://localhost/api/rag/encoding-config", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            name: "Enc mcp",
+            provider: "openai",
+            modelOrEndpoint: "text-embedding-3-small",
+            dimensions: 1536,
+          }),
+        })
+      )
+    ).json();
+    const store = await (
+      await storePost(
+        new Request("http://localhost/api/rag/document-store", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ name: "Store mcp", type: "local", bucket: "default" }),
+        })
+      )
+    ).json();
+    const coll = await (
+      await collPost(
+        new Request("http://localhost/api/rag/collections", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            name: "Coll mcp",
+            scope: "agent",
+            encodingConfigId: enc.id,
+            documentStoreId: store.id,
+          }),
+        })
+      )
+    ).json();
+    const { id } = await (
+      await listPost(
+        new Request("http://localhost/api/rag/connectors", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            type: "mcp",
+            collectionId: coll.id,
+            config: { server: "http://localhost:3003/mcp", excludePatterns: ["*/draft"] },
+          }),
+        })
+      )
+    ).json();
+    const sync = () =>
+      POST(new Request(`http://localhost/api/rag/connectors/${id}/sync`, { method: "POST" }), {
+        params: Promise.resolve({ id }),
+      });
+
+    const res = await sync();
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ ok: true, synced: 1, total: 1 });
+    const docs = await db.select().from(ragDocuments).where(eq(ragDocuments.collectionId, coll.id));
+    expect(docs).toHaveLength(1);
+    expect(docs[0].externalId).toBe("docs://guide");
+    expect(docs[0].storePath).toMatch(/_guide\.md$/);
+    expect(JSON.parse(docs[0].metadata ?? "{}")).toMatchObject({ source: "mcp", name: "guide" });
+
+    expect((await sync()).status).toBe(200);
+    const resynced = await db
+      .select()
+      .from(ragDocuments)
+      .where(eq(ragDocuments.collectionId, coll.id));
+    expect(resynced.map((d) => d.id)).toEqual([docs[0].id]);
+  });
+});
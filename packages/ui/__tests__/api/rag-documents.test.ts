@@ -1,7 +1,10 @@
 import { describe, it, expect } from "vitest";
+import fs from "node:fs";
+import path from "node:path";
 import { GET } from "../../app/api/rag/documents/route";
-import { db } from "../../app/api/_lib/db";
-import { ragDocuments } from "@agentron-studio/core";
+import { GET as contentGet } from "../../app/api/rag/documents/[id]/content/route";
+import { db, getRagUploadsDir } from "../../app/api/_lib/db";
+import { ragCollections, ragDocuments } from "@agentron-studio/core";
 import { eq } from "drizzle-orm";
 
 describe("RAG documents API", () => {
@@ -114,4 +117,53 @@ describe("RAG documents API", () => {
       await db.delete(ragDocuments).where(eq(ragDocuments.id, docId)).run();
     }
   });
+
+  it("GET /api/rag/documents/:id/content opens only safe types inline", async () => {
+    const collId = "docs-content-" + Date.now();
+    await db
+      .insert(ragCollections)
+      .values({
+        id: collId,
+        name: "Content",
+        scope: "agent",
+        encodingConfigId: "enc",
+        documentStoreId: "local",
+        createdAt: Date.now(),
+      })
+      .run();
+    const dir = path.join(getRagUploadsDir(), collId);
+    fs.mkdirSync(dir, { recursive: true });
+    const docs = [
+      { id: crypto.randomUUID(), name: "page.html", mimeType: "text/html" },
+      { id: crypto.randomUUID(), name: "notes.txt", mimeType: "text/plain; charset=utf-8" },
+    ];
+    for (const doc of docs) {
+      fs.writeFileSync(path.join(dir, doc.name), "<script>alert(1)</script>");
+      await db
+        .insert(ragDocuments)
+        .values({
+          id: doc.id,
+          collectionId: collId,
+          storePath: `uploads/${doc.name}`,
+          mimeType: doc.mimeType,
+          createdAt: Date.now(),
+        })
+        .run();
+    }
+    try {
+      const content = (id: string) =>
+        contentGet(new Request("http://localhost"), { params: Promise.resolve({ id }) });
+      const html = await content(docs[0].id);
+      expect(html.status).toBe(200);
+      expect(html.headers.get("Content-Disposition")).toMatch(/^attachment;/);
+      expect(html.headers.get("X-Content-Type-Options")).toBe("nosniff");
+      const text = await content(docs[1].id);
+      expect(text.headers.get("Content-Disposition")).toMatch(/^inline;/);
+      expect(text.headers.get("X-Content-Type-Options")).toBe("nosniff");
+    } finally {
+      await db.delete(ragDocuments).where(eq(ragDocuments.collectionId, collId)).run();
+      await db.delete(ragCollections).where(eq(ragCollections.id, collId)).run();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
 });
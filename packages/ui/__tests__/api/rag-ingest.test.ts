@@ -4,7 +4,7 @@ import { POST as encPost } from "../../app/api/rag/encoding-config/route";
 import { POST as storePost } from "../../app/api/rag/document-store/route";
 import { POST as collPost } from "../../app/api/rag/collections/route";
 import { db } from "../../app/api/_lib/db";
-import { ragDocuments, ragCollections, ragDocumentStores } from "@agentron-studio/core";
+import { ragDocuments, ragCollections, ragDocumentStores, ragVectors } from "@agentron-studio/core";
 import { eq } from "drizzle-orm";
 import path from "node:path";
 import fs from "node:fs";
@@ -134,6 +134,60 @@ describe("RAG ingest API", () => {
     expect(data.chunks).toBeGreaterThan(0);
   });
 
+  it("POST /api/rag/ingest stores heading path and offsets with the collection's chunking", async () => {
+    const markdown = "# Guide\n\n## Setup\n\nRun the installer.";
+    await db
+      .update(ragCollections)
+      .set({ chunking: JSON.stringify({ strategy: "markdown", size: 200 }) })
+      .where(eq(ragCollections.id, collectionId))
+      .run();
+    const s3 = await import("../../app/api/_lib/s3");
+    vi.mocked(s3.getObject).mockResolvedValueOnce(Buffer.from(markdown, "utf-8"));
+    try {
+      const res = await ingestPost(
+        new Request("http://localhost/api/rag/ingest", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ documentId }),
+        })
+      );
+      expect(res.status).toBe(200);
+      const rows = await db.select().from(ragVectors).where(eq(ragVectors.documentId, documentId));
+      expect(rows).toHaveLength(1);
+      expect(rows[0].text).toBe("Guide > Setup\n\nRun the installer.");
+      expect(JSON.parse(rows[0].headingPath ?? "[]")).toEqual(["Guide", "Setup"]);
+      expect(rows[0].embedding).toBe("");
+      expect(rows[0].embeddingBlob?.length).toBeGreaterThan(0);
+      expect(markdown.slice(rows[0].startOffset ?? 0, rows[0].endOffset ?? 0)).toBe(
+        "Run the installer."
+      );
+    } finally {
+      await db
+        .update(ragCollections)
+        .set({ chunking: null })
+        .where(eq(ragCollections.id, collectionId))
+        .run();
+    }
+  });
+
+  it("POST /api/rag/collections returns 400 for an invalid chunking config", async () => {
+    const res = await collPost(
+      new Request("http://localhost/api/rag/collections", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: "Bad chunking",
+          scope: "agent",
+          encodingConfigId: "enc",
+          documentStoreId: "store",
+          chunking: { strategy: "pages" },
+        }),
+      })
+    );
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toContain("chunking.strategy");
+  });
+
   it("POST /api/rag/ingest with collectionId returns 200 and body with documents and chunks", async () => {
     const res = await ingestPost(
       new Request("http://localhost/api/rag/ingest", {
@@ -15,6 +15,7 @@ import { POST as convPost } from "../../app/api/chat/conversations/route";
 import { eq } from "drizzle-orm";
 import { db, executions, workflows, runLogs, toExecutionRow } from "../../app/api/_lib/db";
 import { setExecutionRunState } from "../../app/api/_lib/execution-events";
+import { hasSubscribers, publish } from "../../app/api/_lib/chat-event-channel";
 import * as notificationsStore from "../../app/api/_lib/notifications-store";
 import * as runFailureSideEffects from "../../app/api/_lib/run-failure-side-effects";
 
@@ -755,6 +756,31 @@ describe("Runs API", () => {
     expect(data).toHaveProperty("copyForDiagnosis");
   });
 
+  it("GET /api/runs/:id/events with Accept text/event-stream streams published LLM deltas", async () => {
+    const controller = new AbortController();
+    const res = await eventsGet(
+      new Request("http://localhost/api/runs/x/events", {
+        headers: { Accept: "text/event-stream" },
+        signal: controller.signal,
+      }),
+      { params: Promise.resolve({ id: runId }) }
+    );
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toBe("text/event-stream");
+    expect(hasSubscribers(runId)).toBe(true);
+
+    publish(runId, { type: "content_delta", delta: "Scanning", agentId: "a1" });
+    const reader = res.body!.getReader();
+    const { value } = await reader.read();
+    expect(new TextDecoder().decode(value)).toBe(
+      `data: ${JSON.stringify({ type: "content_delta", delta: "Scanning", agentId: "a1" })}\n\n`
+    );
+
+    controller.abort();
+    expect(hasSubscribers(runId)).toBe(false);
+    expect((await reader.read()).done).toBe(true);
+  });
+
   it("GET /api/runs/:id/events returns runState with truncated sharedContext and trailSnapshotLength", async () => {
     const runIdWithState = crypto.randomUUID();
     await db
@@ -1,18 +1,44 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import { POST } from "../../app/api/telegram/webhook/route";
 import { PATCH } from "../../app/api/settings/telegram/route";
+import { db, authAdmin } from "../../app/api/_lib/db";
+import { createAdmin } from "../../app/api/_lib/api-auth";
 
 describe("Telegram webhook API", () => {
   let mockFetch: ReturnType<typeof vi.fn>;
+  let chatResponse: Record<string, unknown>;
+
+  /** JSON bodies of fetch calls whose URL contains fragment, in call order. */
+  function bodiesFor(fragment: string): Record<string, unknown>[] {
+    return mockFetch.mock.calls
+      .filter((c: unknown[]) => typeof c[0] === "string" && (c[0] as string).includes(fragment))
+      .map((c: unknown[]) => {
+        const body = (c[1] as RequestInit | undefined)?.body;
+        return typeof body === "string" ? JSON.parse(body) : {};
+      });
+  }
+
+  function webhook(update: Record<string, unknown>) {
+    return POST(
+      new Request("http://localhost:3000/api/telegram/webhook", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(update),
+      })
+    );
+  }
 
   beforeEach(async () => {
     await PATCH(
       new Request("http://localhost/api/settings/telegram", {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ botToken: "webhook-test-token" }),
+        body: JSON.stringify({ botToken: "webhook-test-token", allowedUserIds: ["123", "456"] }),
       })
     );
+    chatResponse = { assistantContent: "Agentron reply" };
+    // The secret tests restore an unset secret as the string "undefined".
+    delete process.env.TELEGRAM_WEBHOOK_SECRET;
     mockFetch = vi.fn(async (input: string | URL | Request) => {
       const url =
         typeof input === "string"
@@ -27,12 +53,23 @@ describe("Telegram webhook API", () => {
         });
       }
       if (url.includes("/api/chat")) {
-        return new Response(JSON.stringify({ assistantContent: "Agentron reply" }), {
+        return new Response(JSON.stringify(chatResponse), {
           status: 200,
           headers: { "Content-Type": "application/json" },
         });
       }
-      if (url.includes("api.telegram.org") && url.includes("sendMessage")) {
+      if (url.includes("/getFile")) {
+        return new Response(JSON.stringify({ ok: true, result: { file_path: "photos/p.jpg" } }), {
+          status: 200,
+        });
+      }
+      if (url.includes("api.telegram.org/file/")) {
+        return new Response(new Uint8Array([1, 2, 3]), { status: 200 });
+      }
+      if (url.includes("/api/files")) {
+        return new Response(JSON.stringify({ id: "file-1" }), { status: 201 });
+      }
+      if (url.includes("api.telegram.org")) {
         return new Response(JSON.stringify({ ok: true }), {
           status: 200,
           headers: { "Content-Type": "application/json" },
@@ -55,7 +92,7 @@ describe("Telegram webhook API", () => {
       new Request("http://localhost:3000/api/telegram/webhook", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ message: { chat: { id: 123 }, text: "Hi" } }),
+        body: JSON.stringify({ message: { chat: { id: 123 }, from: { id: 123 }, text: "Hi" } }),
       })
     );
     expect(res.status).toBe(503);
@@ -68,7 +105,7 @@ describe("Telegram webhook API", () => {
       new Request("http://localhost:3000/api/telegram/webhook", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ message: { chat: { id: 123 }, text: "Hello" } }),
+        body: JSON.stringify({ message: { chat: { id: 123 }, from: { id: 123 }, text: "Hello" } }),
       })
     );
     expect(res.status).toBe(200);
@@ -94,7 +131,7 @@ describe("Telegram webhook API", () => {
       new Request("http://localhost:3000/api/telegram/webhook", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ message: { chat: { id: 456 } } }),
+        body: JSON.stringify({ message: { chat: { id: 456 }, from: { id: 456 } } }),
       })
     );
     expect(res.status).toBe(200);
@@ -145,7 +182,7 @@ describe("Telegram webhook API", () => {
         new Request("http://localhost:3000/api/telegram/webhook?secret=wrong", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ message: { chat: { id: 123 }, text: "Hi" } }),
+          body: JSON.stringify({ message: { chat: { id: 123 }, from: { id: 123 }, text: "Hi" } }),
         })
       );
       expect(res.status).toBe(401);
@@ -162,7 +199,7 @@ describe("Telegram webhook API", () => {
         new Request("http://localhost:3000/api/telegram/webhook?secret=correct-secret", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ message: { chat: { id: 123 }, text: "Hi" } }),
+          body: JSON.stringify({ message: { chat: { id: 123 }, from: { id: 123 }, text: "Hi" } }),
         })
       );
       expect(res.status).toBe(200);
@@ -177,7 +214,7 @@ describe("Telegram webhook API", () => {
     const req = new Request("http://localhost:3000/api/telegram/webhook", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ message: { chat: { id: 123 }, text: "hi" } }),
+      body: JSON.stringify({ message: { chat: { id: 123 }, from: { id: 123 }, text: "hi" } }),
     });
     Object.defineProperty(req, "url", { value: "relative", configurable: true });
     const res = await POST(req);
@@ -194,7 +231,7 @@ describe("Telegram webhook API", () => {
       const req = new Request("http://localhost:3000/api/telegram/webhook", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ message: { chat: { id: 123 }, text: "hi" } }),
+        body: JSON.stringify({ message: { chat: { id: 123 }, from: { id: 123 }, text: "hi" } }),
       });
       Object.defineProperty(req, "url", { value: "relative", configurable: true });
       const res = await POST(req);
@@ -205,4 +242,128 @@ describe("Telegram webhook API", () => {
       if (origSecret !== undefined) process.env.TELEGRAM_WEBHOOK_SECRET = origSecret;
     }
   });
+
+  it("refuses senders that are not allowed and pairs them with the pairing code", async () => {
+    const settingsRes = await PATCH(
+      new Request("http://localhost/api/settings/telegram", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ newPairingCode: true }),
+      })
+    );
+    const { pairingCode } = await settingsRes.json();
+
+    await webhook({ message: { chat: { id: 789 }, from: { id: 789 }, text: "Hello" } });
+    expect(bodiesFor("sendMessage").pop()?.text).toContain("Your Telegram user id is 789");
+    expect(bodiesFor("/api/chat")).toHaveLength(0);
+
+    await webhook({
+      message: { chat: { id: 789 }, from: { id: 789 }, text: `/pair ${pairingCode}` },
+    });
+    expect(bodiesFor("sendMessage").pop()?.text).toContain("Paired");
+
+    await webhook({ message: { chat: { id: 789 }, from: { id: 789 }, text: "Hello" } });
+    expect(bodiesFor("/api/chat")).toHaveLength(1);
+  });
+
+  it("shows ask_user options as buttons and sends a pressed option to the assistant", async () => {
+    chatResponse = {
+      content: "",
+      toolResults: [
+        {
+          name: "ask_user",
+          args: {},
+          result: { waitingForUser: true, question: "Which one?", options: ["Small", "Large"] },
+        },
+      ],
+    };
+    await webhook({ message: { chat: { id: 123 }, from: { id: 123 }, text: "Make a logo" } });
+    const sent = bodiesFor("sendMessage").pop() as {
+      text: string;
+      reply_markup: { inline_keyboard: { text: string; callback_data: string }[][] };
+    };
+    expect(sent.text).toBe("Which one?");
+    const buttons = sent.reply_markup.inline_keyboard.map((row) => row[0]);
+    expect(buttons.map((b) => b.text)).toEqual(["Small", "Large"]);
+
+    chatResponse = { assistantContent: "Making a large logo" };
+    await webhook({
+      callback_query: {
+        id: "cb-1",
+        from: { id: 123 },
+        message: { message_id: 5, chat: { id: 123 } },
+        data: buttons[1].callback_data,
+      },
+    });
+    expect(bodiesFor("answerCallbackQuery").pop()).toEqual({ callback_query_id: "cb-1" });
+    const chatBodies = bodiesFor("/api/chat");
+    expect(chatBodies[chatBodies.length - 1].message).toBe("Large");
+    expect(chatBodies[chatBodies.length - 1].conversationId).toBe(chatBodies[0].conversationId);
+    expect(bodiesFor("sendMessage").pop()?.text).toBe("Making a large logo");
+
+    await webhook({
+      callback_query: {
+        id: "cb-2",
+        from: { id: 123 },
+        message: { chat: { id: 123 } },
+        data: buttons[0].callback_data,
+      },
+    });
+    expect(bodiesFor("answerCallbackQuery").pop()?.text).toContain("no longer active");
+  });
+
+  it("stores a photo through /api/files and attaches it to the chat message", async () => {
+    await webhook({
+      message: {
+        message_id: 9,
+        chat: { id: 123 },
+        from: { id: 123 },
+        caption: "What is this?",
+        photo: [{ file_id: "small" }, { file_id: "large" }],
+      },
+    });
+    const getFileCall = mockFetch.mock.calls.find(
+      (c: unknown[]) => typeof c[0] === "string" && (c[0] as string).includes("/getFile")
+    );
+    expect(getFileCall?.[0]).toContain("file_id=large");
+    const upload = mockFetch.mock.calls.find(
+      (c: unknown[]) => typeof c[0] === "string" && (c[0] as string).endsWith("/api/files")
+    );
+    const form = (upload?.[1] as RequestInit).body as FormData;
+    expect((form.get("file") as File).name).toBe("photo-9.jpg");
+    const chatBody = bodiesFor("/api/chat").pop();
+    expect(chatBody).toMatchObject({
+      message: "What is this?",
+      attachments: [{ fileId: "file-1" }],
+    });
+  });
+
+  it("requires the secret header once the admin login is on and calls the app at its own origin", async () => {
+    const update = { message: { chat: { id: 123 }, from: { id: 123 }, text: "Hi" } };
+    const forged = (headers: Record<string, string>) =>
+      POST(
+        new Request("http://evil.example/api/telegram/webhook", {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...headers },
+          body: JSON.stringify(update),
+        })
+      );
+    await createAdmin("admin-password");
+    try {
+      expect((await forged({})).status).toBe(403);
+      process.env.TELEGRAM_WEBHOOK_SECRET = "header-secret";
+      expect((await forged({ "X-Telegram-Bot-Api-Secret-Token": "wrong" })).status).toBe(401);
+      expect((await forged({ "X-Telegram-Bot-Api-Secret-Token": "header-secret" })).status).toBe(
+        200
+      );
+      const internalUrls = mockFetch.mock.calls
+        .map((c: unknown[]) => String(c[0]))
+        .filter((url: string) => url.includes("/api/"));
+      expect(internalUrls.length).toBeGreaterThan(0);
+      expect(internalUrls.every((url: string) => !url.includes("evil.example"))).toBe(true);
+    } finally {
+      delete process.env.TELEGRAM_WEBHOOK_SECRET;
+      await db.delete(authAdmin).run();
+    }
+  });
 });
@@ -0,0 +1,246 @@
+import { randomBytes } from "node:crypto";
+import fs from "node:fs";
+import { describe, it, expect, beforeAll, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { db, vaultMeta, workflows, executionLog, savedCredentials } from "../../app/api/_lib/db";
+import { POST as createPost } from "../../app/api/vault/create/route";
+import { POST as unlockPost } from "../../app/api/vault/unlock/route";
+import { PATCH as credentialPatch } from "../../app/api/vault/credentials/[key]/route";
+import { GET as grantsGet, POST as grantsPost } from "../../app/api/vault/grants/route";
+import { DELETE as grantDelete } from "../../app/api/vault/grants/[id]/route";
+import { executeStudioTool } from "../../app/api/_lib/run-workflow-tool-execution";
+import { executeTool } from "../../app/api/chat/_lib/execute-tool";
+import { encryptWithVaultKey } from "../../app/api/_lib/vault";
+
+describe("Vault credential grants API", () => {
+  let cookieHeader: string;
+  const workflowId = `wf-grant-${Date.now()}`;
+
+  const setCredential = (key: string, value: string) =>
+    credentialPatch(
+      new Request(`http://localhost/api/vault/credentials/${key}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json", Cookie: cookieHeader },
+        body: JSON.stringify({ value }),
+      }),
+      { params: Promise.resolve({ key }) }
+    );
+
+  const grant = (body: Record<string, unknown>, cookie = cookieHeader) =>
+    grantsPost(
+      new Request("http://localhost/api/vault/grants", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Cookie: cookie },
+        body: JSON.stringify(body),
+      })
+    );
+
+  /** Reads a credential the way a scheduled run does: no vault key, only the workflow scope. */
+  const readInRun = (credentialKey: string, runId: string) =>
+    executeStudioTool(
+      "std-get-vault-credential",
+      { credentialKey },
+      undefined,
+      null,
+      undefined,
+      runId,
+      { workflowId, agentId: "some-agent" }
+    ) as Promise<{ value?: string; error?: string }>;
+
+  beforeAll(async () => {
+    await db.delete(vaultMeta).where(eq(vaultMeta.id, "default")).run();
+    await createPost(
+      new Request("http://localhost/api/vault/create", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ masterPassword: "test-grants-password" }),
+      })
+    );
+    const unlockRes = await unlockPost(
+      new Request("http://localhost/api/vault/unlock", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ masterPassword: "test-grants-password" }),
+      })
+    );
+    cookieHeader = unlockRes.headers.get("Set-Cookie") ?? "";
+    await db
+      .insert(workflows)
+      .values({
+        id: workflowId,
+        name: "Daily report",
+        executionMode: "one_time",
+        nodes: "[]",
+        edges: "[]",
+        createdAt: Date.now(),
+      })
+      .run();
+    await setCredential("report_api", "token-v1");
+    await setCredential("other_api", "other-secret");
+  });
+
+  it("POST requires an unlocked vault, a valid body and an existing target and credential", async () => {
+    expect(
+      (
+        await grant(
+          { credentialKey: "report_api", targetType: "workflow", targetId: workflowId },
+          ""
+        )
+      ).status
+    ).toBe(403);
+    expect((await grant({ credentialKey: "report_api", targetType: "tool" })).status).toBe(400);
+    const missingTarget = await grant({
+      credentialKey: "report_api",
+      targetType: "workflow",
+      targetId: "no-such-workflow",
+    });
+    expect(missingTarget.status).toBe(404);
+    const missingCredential = await grant({
+      credentialKey: "no_such_key",
+      targetType: "workflow",
+      targetId: workflowId,
+    });
+    expect(missingCredential.status).toBe(404);
+    expect((await missingCredential.json()).error).toBe("Credential not found");
+  });
+
+  it("POST answers 423 when the vault key does not decrypt the credential", async () => {
+    await db
+      .insert(savedCredentials)
+      .values({
+        key: "foreign_api",
+        value: encryptWithVaultKey("secret", randomBytes(32)),
+        createdAt: Date.now(),
+      })
+      .onConflictDoNothing()
+      .run();
+    const res = await grant({
+      credentialKey: "foreign_api",
+      targetType: "workflow",
+      targetId: workflowId,
+    });
+    expect(res.status).toBe(423);
+    expect((await res.json()).error).toMatch(/vault key is stale/);
+  });
+
+  it("POST answers 503 when there is no machine secret to seal the grant with", async () => {
+    await setCredential("machine_api", "secret");
+    const prev = process.env.AGENTRON_VAULT_MACHINE_SECRET;
+    delete process.env.AGENTRON_VAULT_MACHINE_SECRET;
+    const isMachineSecret = (p: unknown) => String(p).endsWith("vault-machine.secret");
+    const realRead = fs.readFileSync;
+    const realWrite = fs.writeFileSync;
+    const readSpy = vi.spyOn(fs, "readFileSync").mockImplementation(((
+      p: fs.PathOrFileDescriptor,
+      o?: unknown
+    ) => {
+      if (isMachineSecret(p)) throw new Error("read failed");
+      return realRead(p, o as BufferEncoding);
+    }) as typeof fs.readFileSync);
+    const writeSpy = vi.spyOn(fs, "writeFileSync").mockImplementation(((
+      p: fs.PathOrFileDescriptor,
+      d: string,
+      o?: fs.WriteFileOptions
+    ) => {
+      if (isMachineSecret(p)) throw new Error("write failed");
+      realWrite(p, d, o);
+    }) as typeof fs.writeFileSync);
+    try {
+      vi.resetModules();
+      const route = await import("../../app/api/vault/grants/route");
+      const res = await route.POST(
+        new Request("http://localhost/api/vault/grants", {
+          method: "POST",
+          headers: { "Content-Type": "application/json", Cookie: cookieHeader },
+          body: JSON.stringify({
+            credentialKey: "machine_api",
+            targetType: "workflow",
+            targetId: workflowId,
+          }),
+        })
+      );
+      expect(res.status).toBe(503);
+      expect((await res.json()).error).toMatch(/set AGENTRON_VAULT_MACHINE_SECRET/);
+    } finally {
+      readSpy.mockRestore();
+      writeSpy.mockRestore();
+      if (prev !== undefined) process.env.AGENTRON_VAULT_MACHINE_SECRET = prev;
+    }
+  });
+
+  it("lets a run without an unlocked vault read only granted credentials and logs each read", async () => {
+    const res = await grant({
+      credentialKey: "report_api",
+      targetType: "workflow",
+      targetId: workflowId,
+    });
+    expect(res.status).toBe(201);
+    const created = await res.json();
+    expect(created).toMatchObject({ credentialKey: "report_api", targetType: "workflow" });
+    expect(created).not.toHaveProperty("value");
+
+    const runId = `run-grant-${Date.now()}`;
+    expect(await readInRun("report_api", runId)).toEqual({ value: "token-v1" });
+    expect((await readInRun("other_api", runId)).error).toContain("not granted");
+
+    const log = await db.select().from(executionLog).where(eq(executionLog.executionId, runId));
+    expect(log).toHaveLength(1);
+    expect(log[0]).toMatchObject({ phase: "credential_access", label: "report_api" });
+    expect(JSON.parse(log[0].payload ?? "{}")).toMatchObject({
+      grantId: created.id,
+      targetId: workflowId,
+    });
+
+    const listed = await (
+      await grantsGet(new Request(`http://localhost/api/vault/grants?targetId=${workflowId}`))
+    ).json();
+    expect(listed.grants).toHaveLength(1);
+    expect(listed.grants[0].lastUsedAt).toEqual(expect.any(Number));
+  });
+
+  it("answers an agent's ask_credentials in a run through its grants, but not a chat turn", async () => {
+    const runId = `run-ask-${Date.now()}`;
+    expect(
+      await executeTool(
+        "ask_credentials",
+        { credentialKey: "report_api" },
+        { vaultKey: null, workflowId, agentId: "some-agent", runId }
+      )
+    ).toEqual({ credentialProvided: true, value: "token-v1" });
+    const log = await db.select().from(executionLog).where(eq(executionLog.executionId, runId));
+    expect(log).toMatchObject([{ phase: "credential_access", label: "report_api" }]);
+
+    expect(
+      await executeTool("ask_credentials", { credentialKey: "report_api" }, { vaultKey: null })
+    ).toMatchObject({ waitingForUser: true, credentialKey: "report_api" });
+  });
+
+  it("follows credential updates and stops working once revoked", async () => {
+    await setCredential("report_api", "token-v2");
+    expect(await readInRun("report_api", "run-after-update")).toEqual({ value: "token-v2" });
+
+    const { grants } = await (
+      await grantsGet(new Request("http://localhost/api/vault/grants?credentialKey=report_api"))
+    ).json();
+    const revoke = await grantDelete(new Request("http://localhost/api/vault/grants/x"), {
+      params: Promise.resolve({ id: grants[0].id }),
+    });
+    expect(revoke.status).toBe(200);
+    expect((await readInRun("report_api", "run-after-revoke")).error).toContain(
+      "Vault not approved"
+    );
+
+    const again = await grantDelete(new Request("http://localhost/api/vault/grants/x"), {
+      params: Promise.resolve({ id: grants[0].id }),
+    });
+    expect(again.status).toBe(404);
+    const audit = await (
+      await grantsGet(
+        new Request(
+          "http://localhost/api/vault/grants?credentialKey=report_api&includeRevoked=true"
+        )
+      )
+    ).json();
+    expect(audit.grants[0].revokedAt).toEqual(expect.any(Number));
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import { eq } from "drizzle-orm";
+import { db, savedCredentials, vaultMeta } from "../../app/api/_lib/db";
+import { POST as createPost } from "../../app/api/vault/create/route";
+import { POST as unlockPost } from "../../app/api/vault/unlock/route";
+import { GET as statusGet } from "../../app/api/vault/status/route";
+import { POST as rotatePost } from "../../app/api/vault/rotate/route";
+import { POST as exportPost } from "../../app/api/vault/export/route";
+import { POST as importPost } from "../../app/api/vault/import/route";
+import { POST as clearPost } from "../../app/api/vault/credentials/clear/route";
+import { POST as recoveryKeyPost } from "../../app/api/vault/recovery-key/route";
+import { getVaultKeyFromRequest } from "../../app/api/_lib/vault";
+import { getStoredCredential, setStoredCredential } from "../../app/api/_lib/credential-store";
+
+function post(url: string, body: unknown, cookie = "") {
+  return new Request(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Cookie: cookie },
+    body: JSON.stringify(body),
+  });
+}
+
+const cookieOf = (res: Response) => res.headers.get("Set-Cookie") ?? "";
+
+/** Reads a credential with the vault key held in a session cookie. */
+const readWith = (cookie: string, key: string) =>
+  getStoredCredential(
+    key,
+    getVaultKeyFromRequest(new Request("http://localhost", { headers: { Cookie: cookie } }))
+  );
+
+const rotate = (body: Record<string, unknown>) =>
+  rotatePost(post("http://localhost/api/vault/rotate", body));
+
+describe("Vault key management API", () => {
+  let cookie: string;
+  let recoveryKey: string;
+
+  beforeAll(async () => {
+    await db.delete(vaultMeta).where(eq(vaultMeta.id, "default")).run();
+    // Credentials left by other files were encrypted with another vault's key.
+    await db.delete(savedCredentials).run();
+    const res = await createPost(
+      post("http://localhost/api/vault/create", {
+        masterPassword: "first-password",
+        recoveryKey: true,
+      })
+    );
+    const data = await res.json();
+    recoveryKey = data.recoveryKey;
+    cookie = cookieOf(res);
+    const vaultKey = getVaultKeyFromRequest(
+      new Request("http://localhost", { headers: { Cookie: cookie } })
+    );
+    await setStoredCredential("mail_api", "mail-secret", true, vaultKey);
+    await setStoredCredential("crm_api", "crm-secret", true, vaultKey);
+  });
+
+  it("POST /api/vault/create returns the recovery key once when requested", async () => {
+    expect(recoveryKey).toMatch(/^([0-9A-F]{4}-){7}[0-9A-F]{4}$/);
+    const status = await (
+      await statusGet(new Request("http://localhost", { headers: { Cookie: cookie } }))
+    ).json();
+    expect(status).toEqual({ locked: false, vaultExists: true, hasRecoveryKey: true });
+  });
+
+  it("POST /api/vault/rotate re-encrypts credentials with the new password", async () => {
+    expect((await rotate({ newPassword: "x" })).status).toBe(400);
+    expect(
+      (await rotate({ currentPassword: "wrong", newPassword: "second-password" })).status
+    ).toBe(401);
+
+    const res = await rotate({ currentPassword: "first-password", newPassword: "second-password" });
+    expect(res.status).toBe(200);
+    const newCookie = cookieOf(res);
+    expect(await readWith(newCookie, "mail_api")).toBe("mail-secret");
+    expect(await readWith(cookie, "mail_api")).toBeNull();
+
+    const staleStatus = await (
+      await statusGet(new Request("http://localhost", { headers: { Cookie: cookie } }))
+    ).json();
+    expect(staleStatus.locked).toBe(true);
+    // The old key would write rows and recovery keys the vault can no longer open.
+    expect(
+      (await recoveryKeyPost(post("http://localhost/api/vault/recovery-key", {}, cookie))).status
+    ).toBe(403);
+    expect(
+      (await importPost(post("http://localhost/api/vault/import", { passphrase: "p" }, cookie)))
+        .status
+    ).toBe(403);
+    const oldUnlock = await unlockPost(
+      post("http://localhost/api/vault/unlock", { masterPassword: "first-password" })
+    );
+    expect(oldUnlock.status).toBe(401);
+    const newUnlock = await unlockPost(
+      post("http://localhost/api/vault/unlock", { masterPassword: "second-password" })
+    );
+    expect(newUnlock.status).toBe(200);
+    cookie = newCookie;
+  });
+
+  it("the recovery key still resets the password after a rotation", async () => {
+    expect((await rotate({ recoveryKey: "0000-0000", newPassword: "third" })).status).toBe(401);
+    const res = await rotate({
+      recoveryKey: recoveryKey.toLowerCase().replace(/-/g, " "),
+      newPassword: "third-password",
+    });
+    expect(res.status).toBe(200);
+    cookie = cookieOf(res);
+    expect(await readWith(cookie, "crm_api")).toBe("crm-secret");
+  });
+
+  it("exports credentials encrypted with a passphrase and imports them back", async () => {
+    expect(
+      (await exportPost(post("http://localhost/api/vault/export", { passphrase: "p" }))).status
+    ).toBe(403);
+    const exported = await exportPost(
+      post("http://localhost/api/vault/export", { passphrase: "move-it" }, cookie)
+    );
+    expect(exported.status).toBe(200);
+    expect(exported.headers.get("Content-Disposition")).toContain("agentron-vault-");
+    const file = await exported.json();
+    expect(file).toMatchObject({ format: "agentron-vault-export", version: 1, count: 2 });
+    expect(JSON.stringify(file)).not.toContain("mail-secret");
+
+    await clearPost(post("http://localhost/api/vault/credentials/clear", {}, cookie));
+    expect(await readWith(cookie, "mail_api")).toBeNull();
+
+    const wrong = await importPost(
+      post("http://localhost/api/vault/import", { passphrase: "nope", file }, cookie)
+    );
+    expect(wrong.status).toBe(400);
+    expect((await wrong.json()).error).toContain("Wrong passphrase");
+
+    const res = await importPost(
+      post(
+        "http://localhost/api/vault/import",
+        { passphrase: "move-it", file: JSON.stringify(file) },
+        cookie
+      )
+    );
+    expect(await res.json()).toEqual({ ok: true, imported: 2 });
+    expect(await readWith(cookie, "mail_api")).toBe("mail-secret");
+    expect(await readWith(cookie, "crm_api")).toBe("crm-secret");
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi } from "vitest";
+import { POST as listPost } from "../../app/api/workflows/route";
+import { GET as getOne, DELETE as deleteOne } from "../../app/api/workflows/[id]/route";
+import { POST as executePost } from "../../app/api/workflows/[id]/execute/route";
+import * as workflowQueue from "../../app/api/_lib/workflow-queue";
+
+vi.mock("../../app/api/_lib/workflow-queue", () => ({
+  enqueueWorkflowStart: vi.fn().mockResolvedValue("job-1"),
+  waitForJob: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock("../../app/api/_lib/vault", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../../app/api/_lib/vault")>();
+  return {
+    ...actual,
+    getVaultKeyFromRequest: vi.fn().mockReturnValue(Buffer.from("test-vault-key")),
+  };
+});
+
+describe("Workflow inputs and outputs API", () => {
+  const inputSchema = {
+    type: "object",
+    properties: {
+      url: { type: "string" },
+      depth: { type: "integer", minimum: 1, default: 2 },
+    },
+    required: ["url"],
+  };
+
+  it("POST /api/workflows rejects an unknown required input or a bad output mapping", async () => {
+    const res = await listPost(
+      new Request("http://localhost/api/workflows", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: "Bad IO",
+          nodes: [],
+          edges: [],
+          executionMode: "one_time",
+          inputSchema: { type: "object", properties: {}, required: ["url"] },
+          outputMapping: { title: "nodes.(" },
+        }),
+      })
+    );
+    expect(res.status).toBe(400);
+    const { error } = await res.json();
+    expect(error).toContain('unknown property "url"');
+    expect(error).toContain("outputMapping.title");
+  });
+
+  it("POST /api/workflows/:id/execute returns 400 naming invalid inputs and queues valid ones with defaults", async () => {
+    const created = await listPost(
+      new Request("http://localhost/api/workflows", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: "Typed workflow",
+          nodes: [],
+          edges: [],
+          executionMode: "one_time",
+          inputSchema,
+          outputMapping: { summary: "nodes.n1" },
+        }),
+      })
+    );
+    expect(created.status).toBe(201);
+    const { id } = await created.json();
+    const params = { params: Promise.resolve({ id }) };
+    const saved = await (await getOne(new Request("http://localhost"), params)).json();
+    expect(saved.inputSchema).toEqual(inputSchema);
+    expect(saved.outputMapping).toEqual({ summary: "nodes.n1" });
+
+    const enqueue = vi.mocked(workflowQueue.enqueueWorkflowStart);
+    enqueue.mockClear();
+    const bad = await executePost(
+      new Request("http://localhost/api/workflows/x/execute", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ inputs: { depth: 0 } }),
+      }),
+      params
+    );
+    expect(bad.status).toBe(400);
+    const badData = await bad.json();
+    expect(badData.fields).toEqual(
+      expect.arrayContaining([
+        { field: "url", message: "is required" },
+        { field: "depth", message: "must be >= 1" },
+      ])
+    );
+    expect(enqueue).not.toHaveBeenCalled();
+
+    const ok = await executePost(
+      new Request("http://localhost/api/workflows/x/execute", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ inputs: { url: "https://example.com" } }),
+      }),
+      params
+    );
+    expect(ok.status).toBe(200);
+    expect(enqueue).toHaveBeenCalledWith(
+      expect.objectContaining({
+        workflowId: id,
+        runInputs: { url: "https://example.com", depth: 2 },
+      })
+    );
+    await deleteOne(new Request("http://localhost"), params);
+  });
+});
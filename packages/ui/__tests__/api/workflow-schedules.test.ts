@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { POST as listPost } from "../../app/api/workflows/route";
+import {
+  GET as getOne,
+  PUT as putOne,
+  DELETE as deleteOne,
+} from "../../app/api/workflows/[id]/route";
+import { GET as scheduleGet } from "../../app/api/workflows/[id]/schedule/route";
+
+describe("Workflow schedules API", () => {
+  let createdId: string;
+
+  beforeAll(async () => {
+    const res = await listPost(
+      new Request("http://localhost/api/workflows", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: "Schedule test",
+          nodes: [],
+          edges: [],
+          executionMode: "manual",
+        }),
+      })
+    );
+    createdId = (await res.json()).id;
+  });
+
+  afterAll(async () => {
+    await deleteOne(new Request("http://localhost"), {
+      params: Promise.resolve({ id: createdId }),
+    });
+  });
+
+  it("POST /api/workflows rejects an invalid cron expression or timezone", async () => {
+    const badCron = await listPost(
+      new Request("http://localhost/api/workflows", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: "Bad cron",
+          nodes: [],
+          edges: [],
+          executionMode: "interval",
+          schedule: "0 9 * *",
+        }),
+      })
+    );
+    expect(badCron.status).toBe(400);
+    expect((await badCron.json()).error).toContain("5 or 6 fields");
+
+    const badZone = await putOne(
+      new Request("http://localhost", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: "Bad zone",
+          nodes: [],
+          edges: [],
+          executionMode: "interval",
+          schedule: "0 9 * * *",
+          timezone: "Nowhere/City",
+        }),
+      }),
+      { params: Promise.resolve({ id: createdId }) }
+    );
+    expect(badZone.status).toBe(400);
+  });
+
+  it("GET /api/workflows/:id/schedule previews upcoming fire times", async () => {
+    const res = await listPost(
+      new Request("http://localhost/api/workflows", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: "Cron workflow",
+          nodes: [],
+          edges: [],
+          executionMode: "interval",
+          schedule: "0 9 * * 1-5",
+          timezone: "Asia/Tokyo",
+          catchUp: "run_once",
+        }),
+      })
+    );
+    expect(res.status).toBe(201);
+    const { id } = await res.json();
+    const params = { params: Promise.resolve({ id }) };
+
+    const saved = await (await getOne(new Request("http://localhost"), params)).json();
+    expect(saved).toMatchObject({ timezone: "Asia/Tokyo", catchUp: "run_once" });
+
+    const info = await (
+      await scheduleGet(
+        new Request(`http://localhost/api/workflows/${id}/schedule?count=3`),
+        params
+      )
+    ).json();
+    expect(info.schedules).toHaveLength(1);
+    expect(info.schedules[0]).toMatchObject({
+      schedule: "0 9 * * 1-5",
+      type: "cron",
+      timezone: "Asia/Tokyo",
+      catchUp: "run_once",
+    });
+    expect(info.schedules[0].upcoming).toHaveLength(3);
+    for (const t of info.schedules[0].upcoming) {
+      // 09:00 in Tokyo is 00:00 UTC.
+      expect(new Date(t).getUTCHours()).toBe(0);
+      expect(new Date(t).getUTCMinutes()).toBe(0);
+    }
+
+    const preview = await scheduleGet(
+      new Request(
+        `http://localhost/api/workflows/${id}/schedule?schedule=${encodeURIComponent("@hourly")}&timezone=UTC&count=2`
+      ),
+      params
+    );
+    const previewData = await preview.json();
+    expect(previewData.upcoming).toHaveLength(2);
+    expect(previewData.upcoming[1] - previewData.upcoming[0]).toBe(3_600_000);
+
+    const invalid = await scheduleGet(
+      new Request(`http://localhost/api/workflows/${id}/schedule?schedule=nope`),
+      params
+    );
+    expect(invalid.status).toBe(400);
+    await deleteOne(new Request("http://localhost"), params);
+  });
+});
@@ -0,0 +1,135 @@
+import { createHmac } from "node:crypto";
+import { describe, it, expect, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { GET as listGet, POST as listPost } from "../../app/api/triggers/route";
+import { GET, PATCH, DELETE } from "../../app/api/triggers/[id]/route";
+import { POST as hookPost } from "../../app/api/hooks/[token]/route";
+import { db, executions, workflowQueue } from "../../app/api/_lib/db";
+
+vi.mock("../../app/api/_lib/workflow-queue", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../../app/api/_lib/workflow-queue")>();
+  return { ...actual, waitForJob: vi.fn().mockResolvedValue(undefined) };
+});
+
+function post(body: unknown) {
+  return listPost(
+    new Request("http://localhost/api/triggers", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    })
+  );
+}
+
+function hook(token: string, body: string, headers: Record<string, string> = {}) {
+  return hookPost(
+    new Request(`http://localhost/api/hooks/${token}?source=ci`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body,
+    }),
+    { params: Promise.resolve({ token }) }
+  );
+}
+
+describe("Workflow triggers API", () => {
+  it("POST validates type, settings and input mapping", async () => {
+    const workflowId = crypto.randomUUID();
+    const badType = await post({ workflowId, name: "x", type: "email" });
+    expect(badType.status).toBe(400);
+
+    const relative = await post({ workflowId, name: "x", type: "file", config: { path: "in" } });
+    expect(relative.status).toBe(400);
+    expect((await relative.json()).error).toContain("config.path");
+
+    const self = await post({
+      workflowId,
+      name: "x",
+      type: "workflow_run",
+      config: { workflowId },
+    });
+    expect(self.status).toBe(400);
+
+    const badMapping = await post({
+      workflowId,
+      name: "x",
+      type: "webhook",
+      inputMapping: { title: "payload.title ==" },
+    });
+    expect(badMapping.status).toBe(400);
+    expect((await badMapping.json()).error).toContain("inputMapping.title");
+  });
+
+  it("webhook checks the signature, queues a run with mapped inputs and records events", async () => {
+    const workflowId = crypto.randomUUID();
+    const res = await post({
+      workflowId,
+      name: "GitHub issues",
+      type: "webhook",
+      secret: "s3cret",
+      inputMapping: { title: "upper(payload.issue.title)", source: "query.source" },
+    });
+    expect(res.status).toBe(201);
+    const trigger = await res.json();
+    expect(trigger.token).toEqual(expect.any(String));
+
+    const body = JSON.stringify({ issue: { title: "crash on save" } });
+    const unsigned = await hook(trigger.token, body);
+    expect(unsigned.status).toBe(401);
+
+    const signature = "sha256=" + createHmac("sha256", "s3cret").update(body).digest("hex");
+    const signed = await hook(trigger.token, body, { "X-Hub-Signature-256": signature });
+    expect(signed.status).toBe(202);
+    const { runId, jobId } = await signed.json();
+
+    const jobs = await db.select().from(workflowQueue).where(eq(workflowQueue.id, jobId));
+    expect(jobs[0].runId).toBe(runId);
+    expect(JSON.parse(jobs[0].payload)).toMatchObject({
+      workflowId,
+      triggerId: trigger.id,
+      runInputs: { title: "CRASH ON SAVE", source: "ci" },
+    });
+    const runs = await db.select().from(executions).where(eq(executions.id, runId));
+    expect(runs[0].targetId).toBe(workflowId);
+
+    const list = await (
+      await listGet(new Request(`http://localhost/api/triggers?workflowId=${workflowId}`))
+    ).json();
+    expect(list.triggers).toHaveLength(1);
+    expect(list.triggers[0].lastFiredAt).toEqual(expect.any(Number));
+    expect(list.events.map((e: { status: string }) => e.status).sort()).toEqual([
+      "queued",
+      "rejected",
+    ]);
+
+    expect((await hook("no-such-token", body)).status).toBe(404);
+  });
+
+  it("updates, disables and deletes a trigger", async () => {
+    const created = await (
+      await post({ workflowId: crypto.randomUUID(), name: "Hook", type: "webhook" })
+    ).json();
+    const params = { params: Promise.resolve({ id: created.id }) };
+
+    const patched = await PATCH(
+      new Request("http://localhost", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ regenerateToken: true, enabled: false }),
+      }),
+      params
+    );
+    expect(patched.status).toBe(200);
+    const updated = await patched.json();
+    expect(updated.token).not.toBe(created.token);
+    expect(updated.enabled).toBe(false);
+    expect((await hook(created.token, "{}")).status).toBe(404);
+    expect((await hook(updated.token, "{}")).status).toBe(403);
+
+    const detail = await (await GET(new Request("http://localhost"), params)).json();
+    expect(detail.events[0]).toMatchObject({ status: "rejected", error: "Trigger is disabled" });
+
+    expect((await DELETE(new Request("http://localhost"), params)).status).toBe(200);
+    expect((await GET(new Request("http://localhost"), params)).status).toBe(404);
+  });
+});
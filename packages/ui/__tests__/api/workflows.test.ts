@@ -8,7 +8,14 @@ import {
 import { POST as executePost } from "../../app/api/workflows/[id]/execute/route";
 import { GET as versionsGet } from "../../app/api/workflows/[id]/versions/route";
 import { POST as rollbackPost } from "../../app/api/workflows/[id]/rollback/route";
-import { db, workflows, workflowVersions, executions } from "../../app/api/_lib/db";
+import {
+  db,
+  workflows,
+  workflowVersions,
+  executions,
+  llmConfigs,
+  toLlmConfigRow,
+} from "../../app/api/_lib/db";
 import { eq } from "drizzle-orm";
 import * as workflowQueue from "../../app/api/_lib/workflow-queue";
 import {
@@ -30,6 +37,9 @@ vi.mock("../../app/api/_lib/vault", async (importOriginal) => {
   };
 });
 
+/** db.select before any test spies on it. */
+const realSelect = db.select.bind(db);
+
 describe("Workflows API", () => {
   let createdId: string;
 
@@ -120,6 +130,98 @@ describe("Workflows API", () => {
     expect(data.name).toBe("Updated Workflow");
   });
 
+  it("PUT /api/workflows/:id rejects invalid edge conditions", async () => {
+    if (!createdId) return;
+    const res = await putOne(
+      new Request("http://localhost/api/workflows/x", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: "Updated Workflow",
+          nodes: [],
+          edges: [
+            {
+              id: "e1",
+              source: "a",
+              target: "b",
+              condition: { type: "and", conditions: [{ type: "regex", pattern: "(" }] },
+            },
+            { id: "e2", source: "b", target: "c", condition: { type: "sometimes" } },
+          ],
+        }),
+      }),
+      { params: Promise.resolve({ id: createdId }) }
+    );
+    expect(res.status).toBe(400);
+    const data = await res.json();
+    expect(data.error).toContain("edge e1 condition.conditions[0].pattern");
+    expect(data.error).toContain('edge e2 condition.type "sometimes"');
+    const rows = await db.select().from(workflows).where(eq(workflows.id, createdId));
+    expect(rows[0].name).toBe("Updated Workflow");
+  });
+
+  it("POST /api/workflows accepts valid json_path and llm_judge conditions", async () => {
+    await db.delete(llmConfigs).where(eq(llmConfigs.id, "cfg-1")).run();
+    await db
+      .insert(llmConfigs)
+      .values(
+        toLlmConfigRow({ id: "cfg-1", provider: "openai", model: "gpt-4" } as Parameters<
+          typeof toLlmConfigRow
+        >[0])
+      )
+      .run();
+    const res = await listPost(
+      new Request("http://localhost/api/workflows", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: "Conditional Workflow",
+          executionMode: "manual",
+          nodes: [],
+          edges: [
+            {
+              id: "e1",
+              source: "a",
+              target: "b",
+              condition: {
+                type: "or",
+                conditions: [
+                  { type: "json_path", path: "$.review.score", op: "gte", value: 8 },
+                  { type: "llm_judge", llmConfigId: "cfg-1", question: "Is it approved?" },
+                ],
+              },
+            },
+          ],
+        }),
+      })
+    );
+    expect(res.status).toBe(201);
+  });
+
+  it("POST /api/workflows rejects llm_judge conditions naming an unknown LLM config", async () => {
+    const res = await listPost(
+      new Request("http://localhost/api/workflows", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: "Judged Workflow",
+          nodes: [],
+          edges: [
+            {
+              id: "e1",
+              source: "a",
+              target: "b",
+              condition: { type: "llm_judge", llmConfigId: "no-such-config", question: "Ok?" },
+            },
+          ],
+        }),
+      })
+    );
+    expect(res.status).toBe(400);
+    const data = await res.json();
+    expect(data.error).toContain('edge e1 condition.llmConfigId "no-such-config"');
+  });
+
   it("POST /api/workflows/:id/execute returns run with status", async () => {
     if (!createdId) return;
     const res = await executePost(
@@ -395,14 +497,18 @@ describe("Workflows API", () => {
     (workflowQueue.waitForJob as ReturnType<typeof vi.fn>).mockRejectedValueOnce(
       new WaitingForUserError(WAITING_FOR_USER_MESSAGE, trail)
     );
-    vi.spyOn(db, "select").mockImplementationOnce(
-      () =>
-        ({
-          from: () => ({
-            where: () => Promise.resolve([{ output: '{"question":"existing"}' }]),
-          }),
-        }) as unknown as ReturnType<typeof db.select>
-    );
+    vi.spyOn(db, "select")
+      // The route reads the workflow (input schema) before it creates the run.
+      .mockImplementationOnce(((...args: Parameters<typeof db.select>) =>
+        realSelect(...args)) as typeof db.select)
+      .mockImplementationOnce(
+        () =>
+          ({
+            from: () => ({
+              where: () => Promise.resolve([{ output: '{"question":"existing"}' }]),
+            }),
+          }) as unknown as ReturnType<typeof db.select>
+      );
     const res = await executePost(
       new Request("http://localhost/api/workflows/x/execute", { method: "POST" }),
       { params: Promise.resolve({ id: createdId }) }
@@ -421,14 +527,18 @@ describe("Workflows API", () => {
     (workflowQueue.waitForJob as ReturnType<typeof vi.fn>).mockRejectedValueOnce(
       new WaitingForUserError(WAITING_FOR_USER_MESSAGE, trail)
     );
-    vi.spyOn(db, "select").mockImplementationOnce(
-      () =>
-        ({
-          from: () => ({
-            where: () => Promise.resolve([{ output: { question: "from-object", step: 1 } }]),
-          }),
-        }) as unknown as ReturnType<typeof db.select>
-    );
+    vi.spyOn(db, "select")
+      // The route reads the workflow (input schema) before it creates the run.
+      .mockImplementationOnce(((...args: Parameters<typeof db.select>) =>
+        realSelect(...args)) as typeof db.select)
+      .mockImplementationOnce(
+        () =>
+          ({
+            from: () => ({
+              where: () => Promise.resolve([{ output: { question: "from-object", step: 1 } }]),
+            }),
+          }) as unknown as ReturnType<typeof db.select>
+      );
     const res = await executePost(
       new Request("http://localhost/api/workflows/x/execute", { method: "POST" }),
       { params: Promise.resolve({ id: createdId }) }
@@ -110,6 +110,31 @@ function LLMNode({ id, data, selected }: NodeProps<Node<FlowNodeData>>) {
     typeof data.config?.temperature === "number" ? data.config.temperature : undefined;
   const llmConfigs = data.llmConfigs ?? [];
   const connectedTools = data.connectedTools ?? [];
+  const outputSchema = data.config?.outputSchema;
+  const [outputSchemaDraft, setOutputSchemaDraft] = useState(
+    outputSchema ? JSON.stringify(outputSchema, null, 2) : ""
+  );
+  const [outputSchemaError, setOutputSchemaError] = useState<string | null>(null);
+  /** Store the output schema when the draft is a JSON object (empty clears it). */
+  const commitOutputSchema = () => {
+    const text = outputSchemaDraft.trim();
+    if (!text) {
+      setOutputSchemaError(null);
+      data.onConfigChange?.(id, { ...data.config, outputSchema: undefined });
+      return;
+    }
+    try {
+      const parsed = JSON.parse(text) as unknown;
+      if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+        setOutputSchemaError("Schema must be a JSON object");
+        return;
+      }
+      setOutputSchemaError(null);
+      data.onConfigChange?.(id, { ...data.config, outputSchema: parsed });
+    } catch {
+      setOutputSchemaError("Invalid JSON");
+    }
+  };
   return (
     <CanvasNodeCard
       icon={<Brain size={14} style={{ color: "var(--primary)" }} />}
@@ -192,6 +217,37 @@ function LLMNode({ id, data, selected }: NodeProps<Node<FlowNodeData>>) {
           overflowY: "auto",
         }}
       />
+      <label
+        style={{
+          fontSize: "0.7rem",
+          color: "var(--text-muted)",
+          display: "block",
+          margin: "0.35rem 0 0.2rem",
+        }}
+        title="JSON schema for the node's output. The node then outputs a JSON object that later nodes and edge conditions can read."
+      >
+        Output schema (optional)
+      </label>
+      <textarea
+        className="nodrag nopan nowheel textarea"
+        value={outputSchemaDraft}
+        onChange={(e) => setOutputSchemaDraft(e.target.value)}
+        onBlur={commitOutputSchema}
+        placeholder='{"type": "object", "properties": {...}}'
+        rows={2}
+        style={{
+          fontSize: "0.75rem",
+          fontFamily: "var(--font-mono, monospace)",
+          resize: "vertical",
+          width: "100%",
+          minHeight: 40,
+          maxHeight: 160,
+          overflowY: "auto",
+        }}
+      />
+      {outputSchemaError && (
+        <div style={{ fontSize: "0.7rem", color: "var(--resource-red)" }}>{outputSchemaError}</div>
+      )}
     </CanvasNodeCard>
   );
 }
@@ -0,0 +1,410 @@
+/**
+ * API authentication: a local admin login (browser sessions) and scoped personal access tokens.
+ * Auth is off until the admin login is set up; from then on proxy.ts checks every request.
+ *
+ * Tokens are sent as "Authorization: Bearer agt_…" and have one scope: read (GET only), run (read
+ * plus starting and answering workflow runs) or admin (everything). Admin sessions have full access.
+ * Server code that calls the app's own API (Telegram bridge, run-code tool) authenticates with the
+ * per-process internal token from internalApiHeaders(), sent only to getInternalApiBaseUrl().
+ */
+import crypto from "node:crypto";
+import { and, desc, eq, isNull } from "drizzle-orm";
+import { db, apiTokens, authAdmin, authSessions } from "./db";
+
+const ADMIN_ID = "default";
+const KEY_LENGTH = 32;
+const TOKEN_PREFIX = "agt_";
+const SESSION_COOKIE = "agentron_session";
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const MCP_SERVER_PATH = "/api/mcp/server";
+export const ADMIN_PASSWORD_MIN_LENGTH = 8;
+
+export const API_TOKEN_SCOPES = ["read", "run", "admin"] as const;
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number];
+
+/** A token as returned by the API: never includes the token itself, only its first characters. */
+export type ApiToken = {
+  id: string;
+  name: string;
+  scope: ApiTokenScope;
+  tokenPrefix: string;
+  createdAt: number;
+  expiresAt?: number;
+  lastUsedAt?: number;
+  revokedAt?: number;
+};
+
+/** Who is calling: the admin (session or internal call) or a personal access token. */
+export type ApiPrincipal =
+  | { kind: "session" }
+  | { kind: "internal" }
+  | { kind: "token"; tokenId: string; scope: ApiTokenScope };
+
+type TokenRow = typeof apiTokens.$inferSelect;
+
+function fromTokenRow(row: TokenRow): ApiToken {
+  return {
+    id: row.id,
+    name: row.name,
+    scope: row.scope as ApiTokenScope,
+    tokenPrefix: row.tokenPrefix,
+    createdAt: row.createdAt,
+    ...(row.expiresAt != null && { expiresAt: row.expiresAt }),
+    ...(row.lastUsedAt != null && { lastUsedAt: row.lastUsedAt }),
+    ...(row.revokedAt != null && { revokedAt: row.revokedAt }),
+  };
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function hashPassword(password: string, salt: string): string {
+  return crypto
+    .scryptSync(password, Buffer.from(salt, "base64url"), KEY_LENGTH)
+    .toString("base64url");
+}
+
+function randomToken(bytes = 32): string {
+  return crypto.randomBytes(bytes).toString("base64url");
+}
+
+/** Compares a presented secret with the expected one in constant time. */
+export function secretsEqual(given: string, expected: string): boolean {
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * Secret for server-side calls to the app's own API, created at startup. Kept on globalThis (not
+ * in process.env, which shell commands and sandboxes inherit) so the runtime's run-code tool and
+ * separately bundled server code (proxy, routes) in this process share it.
+ */
+export function getInternalApiToken(): string {
+  const globalAny = globalThis as typeof globalThis & {
+    __agentronInternalApiToken?: string;
+    __agentronInternalApiBaseUrl?: string;
+  };
+  if (!globalAny.__agentronInternalApiToken) globalAny.__agentronInternalApiToken = randomToken();
+  // The run-code tool sends the token only to this origin.
+  globalAny.__agentronInternalApiBaseUrl = getInternalApiBaseUrl();
+  return globalAny.__agentronInternalApiToken;
+}
+
+/**
+ * Origin the internal token may be sent to: AGENTRON_PUBLIC_URL or this server on loopback. Never
+ * derive it from an incoming request, whose Host header the caller controls.
+ */
+export function getInternalApiBaseUrl(): string {
+  const configured = process.env.AGENTRON_PUBLIC_URL?.replace(/\/$/, "");
+  return configured || `http://127.0.0.1:${process.env.PORT ?? 3000}`;
+}
+
+/** Headers for fetches from server code to the app's own API at getInternalApiBaseUrl(). */
+export function internalApiHeaders(): Record<string, string> {
+  return { Authorization: `Bearer ${getInternalApiToken()}` };
+}
+
+/** Fetches an app API path (e.g. "/api/chat") from server code with the internal token. */
+export function internalApiFetch(
+  path: string,
+  init: RequestInit & { headers?: Record<string, string> } = {}
+): Promise<Response> {
+  return fetch(`${getInternalApiBaseUrl()}${path}`, {
+    ...init,
+    headers: { ...init.headers, ...internalApiHeaders() },
+  });
+}
+
+/** True once the admin login is set up; until then the API is open. */
+export async function isAuthEnabled(): Promise<boolean> {
+  const rows = await db
+    .select({ id: authAdmin.id })
+    .from(authAdmin)
+    .where(eq(authAdmin.id, ADMIN_ID));
+  return rows.length > 0;
+}
+
+/** Checks a new admin password. Returns an error message or null. */
+export function validateAdminPassword(password: string): string | null {
+  if (password.length < ADMIN_PASSWORD_MIN_LENGTH) {
+    return `Password must be at least ${ADMIN_PASSWORD_MIN_LENGTH} characters`;
+  }
+  return null;
+}
+
+/** Sets up the admin login. Returns false if it already exists. */
+export async function createAdmin(password: string): Promise<boolean> {
+  if (await isAuthEnabled()) return false;
+  const salt = randomToken(16);
+  const now = Date.now();
+  await db
+    .insert(authAdmin)
+    .values({
+      id: ADMIN_ID,
+      passwordHash: hashPassword(password, salt),
+      salt,
+      createdAt: now,
+      updatedAt: now,
+    })
+    .run();
+  return true;
+}
+
+export async function verifyAdminPassword(password: string): Promise<boolean> {
+  const rows = await db.select().from(authAdmin).where(eq(authAdmin.id, ADMIN_ID));
+  const row = rows[0];
+  if (!row) return false;
+  const expected = Buffer.from(row.passwordHash, "base64url");
+  const actual = Buffer.from(hashPassword(password, row.salt), "base64url");
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/** Changes the admin password and ends every session, so other browsers must log in again. */
+export async function changeAdminPassword(password: string): Promise<void> {
+  const salt = randomToken(16);
+  await db
+    .update(authAdmin)
+    .set({ passwordHash: hashPassword(password, salt), salt, updatedAt: Date.now() })
+    .where(eq(authAdmin.id, ADMIN_ID))
+    .run();
+  await db.delete(authSessions).run();
+}
+
+/** Removes the admin login and its sessions, which turns API auth off. Tokens are kept. */
+export async function removeAdmin(): Promise<void> {
+  await db.delete(authSessions).run();
+  await db.delete(authAdmin).where(eq(authAdmin.id, ADMIN_ID)).run();
+}
+
+/** Starts an admin session. Returns the Set-Cookie header value. */
+export async function createSession(): Promise<string> {
+  const token = randomToken();
+  const now = Date.now();
+  await db
+    .insert(authSessions)
+    .values({
+      id: crypto.randomUUID(),
+      tokenHash: hashToken(token),
+      createdAt: now,
+      expiresAt: now + SESSION_TTL_MS,
+    })
+    .run();
+  return `${SESSION_COOKIE}=${token}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${SESSION_TTL_MS / 1000}`;
+}
+
+function getSessionToken(request: Request): string | null {
+  const cookieHeader = request.headers.get("cookie");
+  const match = cookieHeader?.match(new RegExp(`(?:^|;)\\s*${SESSION_COOKIE}=([^;]+)`));
+  return match?.[1] ?? null;
+}
+
+/** Ends the request's session. Returns the Set-Cookie header value that clears the cookie. */
+export async function endSession(request: Request): Promise<string> {
+  const token = getSessionToken(request);
+  if (token) {
+    await db
+      .delete(authSessions)
+      .where(eq(authSessions.tokenHash, hashToken(token)))
+      .run();
+  }
+  return `${SESSION_COOKIE}=; Path=/; HttpOnly; SameSite=Lax; Max-Age=0`;
+}
+
+async function resolveSession(token: string): Promise<boolean> {
+  const rows = await db
+    .select()
+    .from(authSessions)
+    .where(eq(authSessions.tokenHash, hashToken(token)));
+  const row = rows[0];
+  if (!row) return false;
+  if (row.expiresAt <= Date.now()) {
+    await db.delete(authSessions).where(eq(authSessions.id, row.id)).run();
+    return false;
+  }
+  return true;
+}
+
+async function resolveApiToken(token: string): Promise<ApiPrincipal | null> {
+  const rows = await db
+    .select()
+    .from(apiTokens)
+    .where(and(eq(apiTokens.tokenHash, hashToken(token)), isNull(apiTokens.revokedAt)));
+  const row = rows[0];
+  if (!row || (row.expiresAt != null && row.expiresAt <= Date.now())) return null;
+  await db.update(apiTokens).set({ lastUsedAt: Date.now() }).where(eq(apiTokens.id, row.id)).run();
+  return { kind: "token", tokenId: row.id, scope: row.scope as ApiTokenScope };
+}
+
+/**
+ * Identifies the caller from the Authorization header (access token or internal token) or the
+ * session cookie. Returns null for anonymous or invalid credentials.
+ */
+export async function resolveApiPrincipal(request: Request): Promise<ApiPrincipal | null> {
+  const authorization = request.headers.get("authorization");
+  const bearer = authorization?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim();
+  if (bearer) {
+    if (secretsEqual(bearer, getInternalApiToken())) return { kind: "internal" };
+    return bearer.startsWith(TOKEN_PREFIX) ? resolveApiToken(bearer) : null;
+  }
+  const session = getSessionToken(request);
+  return session && (await resolveSession(session)) ? { kind: "session" } : null;
+}
+
+/**
+ * API paths reachable without credentials: login itself and webhooks that verify their own secret
+ * (the Telegram webhook requires TELEGRAM_WEBHOOK_SECRET once auth is on).
+ */
+const PUBLIC_API_PATHS = [
+  /^\/api\/auth\/(status|login|logout|setup)$/,
+  /^\/api\/hooks\/[^/]+$/,
+  /^\/api\/telegram\/webhook$/,
+];
+
+/** Paths only the admin (session, internal call or admin token) may use, for any method. */
+const ADMIN_API_PATHS = [
+  /^\/api\/auth(\/|$)/,
+  /^\/api\/backup(\/|$)/,
+  /^\/api\/debug(\/|$)/,
+  /^\/api\/run-code(\/|$)/,
+  /^\/api\/sandbox-shell(\/|$)/,
+  /^\/api\/sandbox\/[^/]+\/exec$/,
+  /^\/api\/settings(\/|$)/,
+  /^\/api\/shell-command(\/|$)/,
+  /^\/api\/vault(\/|$)/,
+];
+
+/** Requests beyond reading that the run scope allows: starting, answering and resuming runs. */
+const RUN_API_REQUESTS: { method: string; path: RegExp }[] = [
+  { method: "POST", path: /^\/api\/workflows\/[^/]+\/execute$/ },
+  { method: "POST", path: /^\/api\/runs\/[^/]+\/(respond|resume)$/ },
+  { method: "PATCH", path: /^\/api\/runs\/[^/]+$/ },
+  { method: "POST", path: /^\/api\/evals\/[^/]+\/run$/ },
+];
+
+const READ_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+/** MCP server JSON-RPC methods a read token may call, besides any method ending in /list or /read. */
+const MCP_READ_METHODS = ["initialize", "ping", "prompts/get", "completion/complete"];
+
+const SCOPE_RANK: Record<ApiTokenScope, number> = { read: 0, run: 1, admin: 2 };
+
+export function isPublicApiPath(pathname: string): boolean {
+  return PUBLIC_API_PATHS.some((p) => p.test(pathname));
+}
+
+/** Whether a token scope allows a request. Sessions and internal calls are allowed everything. */
+export function isScopeAllowed(scope: ApiTokenScope, method: string, pathname: string): boolean {
+  if (scope === "admin") return true;
+  if (ADMIN_API_PATHS.some((p) => p.test(pathname))) return false;
+  const m = method.toUpperCase();
+  if (READ_METHODS.includes(m)) return true;
+  return scope === "run" && RUN_API_REQUESTS.some((r) => r.method === m && r.path.test(pathname));
+}
+
+/** Scope an MCP server JSON-RPC message (or batch) needs: tools/call runs, listing and reading read. */
+export function mcpMessageScope(message: unknown): ApiTokenScope {
+  if (Array.isArray(message)) {
+    return message.reduce<ApiTokenScope>((needed, m) => {
+      const scope = mcpMessageScope(m);
+      return SCOPE_RANK[scope] > SCOPE_RANK[needed] ? scope : needed;
+    }, "read");
+  }
+  const method =
+    message && typeof message === "object" ? (message as { method?: unknown }).method : undefined;
+  // Responses to server requests carry no method; they are harmless for a stateless server.
+  if (method === undefined && message && typeof message === "object") return "read";
+  if (typeof method !== "string") return "admin";
+  if (method === "tools/call") return "run";
+  if (
+    MCP_READ_METHODS.includes(method) ||
+    method.startsWith("notifications/") ||
+    /\/(list|read)$/.test(method)
+  ) {
+    return "read";
+  }
+  return "admin";
+}
+
+/**
+ * Whether a token scope allows a request. Like isScopeAllowed, but POSTs to the MCP server are
+ * judged by their JSON-RPC method, so read and run tokens can list, read and call tools.
+ */
+export async function isRequestInScope(scope: ApiTokenScope, request: Request): Promise<boolean> {
+  const { pathname } = new URL(request.url);
+  if (
+    scope !== "admin" &&
+    request.method.toUpperCase() === "POST" &&
+    pathname === MCP_SERVER_PATH
+  ) {
+    const message = await request
+      .clone()
+      .json()
+      .catch(() => null);
+    return SCOPE_RANK[scope] >= SCOPE_RANK[mcpMessageScope(message)];
+  }
+  return isScopeAllowed(scope, request.method, pathname);
+}
+
+/** Parses a token body: { name, scope, expiresInDays? }. */
+export function parseApiTokenInput(
+  body: unknown
+): { name: string; scope: ApiTokenScope; expiresInDays?: number } | { error: string } {
+  const b = body && typeof body === "object" ? (body as Record<string, unknown>) : {};
+  const name = typeof b.name === "string" ? b.name.trim() : "";
+  if (!name) return { error: "name is required" };
+  if (!API_TOKEN_SCOPES.includes(b.scope as ApiTokenScope)) {
+    return { error: `scope must be one of ${API_TOKEN_SCOPES.join(", ")}` };
+  }
+  if (b.expiresInDays !== undefined && b.expiresInDays !== null) {
+    const days = b.expiresInDays;
+    if (typeof days !== "number" || !Number.isInteger(days) || days < 1) {
+      return { error: "expiresInDays must be a positive integer" };
+    }
+    return { name, scope: b.scope as ApiTokenScope, expiresInDays: days };
+  }
+  return { name, scope: b.scope as ApiTokenScope };
+}
+
+/** Creates an access token. The token is returned only here; the database keeps its hash. */
+export async function createApiToken(input: {
+  name: string;
+  scope: ApiTokenScope;
+  expiresInDays?: number;
+}): Promise<{ token: string; apiToken: ApiToken }> {
+  const token = `${TOKEN_PREFIX}${randomToken()}`;
+  const now = Date.now();
+  const row: TokenRow = {
+    id: crypto.randomUUID(),
+    name: input.name,
+    scope: input.scope,
+    tokenHash: hashToken(token),
+    tokenPrefix: token.slice(0, TOKEN_PREFIX.length + 6),
+    createdAt: now,
+    expiresAt: input.expiresInDays ? now + input.expiresInDays * 24 * 60 * 60 * 1000 : null,
+    lastUsedAt: null,
+    revokedAt: null,
+  };
+  await db.insert(apiTokens).values(row).run();
+  return { token, apiToken: fromTokenRow(row) };
+}
+
+/** Lists tokens, newest first. Revoked tokens are included only with includeRevoked. */
+export async function listApiTokens(includeRevoked = false): Promise<ApiToken[]> {
+  const rows = await db
+    .select()
+    .from(apiTokens)
+    .where(includeRevoked ? undefined : isNull(apiTokens.revokedAt))
+    .orderBy(desc(apiTokens.createdAt));
+  return rows.map(fromTokenRow);
+}
+
+export async function revokeApiToken(id: string): Promise<boolean> {
+  const result = await db
+    .update(apiTokens)
+    .set({ revokedAt: Date.now() })
+    .where(and(eq(apiTokens.id, id), isNull(apiTokens.revokedAt)))
+    .run();
+  return (result.changes ?? 0) > 0;
+}
@@ -19,6 +19,11 @@ export type AppSettings = {
   containerEngine: ContainerEngine;
   /** Allowed shell commands (exact match). When the assistant runs run_shell_command, if the command is in this list, it executes without user approval. */
   shellCommandAllowlist: string[];
+  /**
+   * Stdio MCP servers that POST /api/mcp may start, as command lines (command and args separated
+   * by spaces, e.g. "npx -y @modelcontextprotocol/server-filesystem /data"); matched exactly.
+   */
+  mcpStdioServers: string[];
   /** Max automatic retries per workflow agent step when a tool fails and the agent would request_user_help. 0 = disabled. */
   workflowMaxSelfFixRetries: number;
   /** Web search provider for std-web-search. Default duckduckgo. */
@@ -91,6 +96,14 @@ export function getShellCommandAllowlist(): string[] {
   return normalizeShellCommandAllowlist(loadRaw().shellCommandAllowlist);
 }
 
+function normalizeMcpStdioServers(v: unknown): string[] {
+  return normalizeShellCommandAllowlist(v).map((s) => s.replace(/\s+/g, " "));
+}
+
+export function getMcpStdioServers(): string[] {
+  return normalizeMcpStdioServers(loadRaw().mcpStdioServers);
+}
+
 function normalizeWorkflowMaxSelfFixRetries(v: unknown): number {
   const n =
     typeof v === "number" && !Number.isNaN(v)
@@ -123,6 +136,7 @@ export function getAppSettings(): AppSettings {
       : DEFAULT_MAX_FILE_UPLOAD_BYTES;
   const containerEngine = normalizeContainerEngine(raw.containerEngine);
   const shellCommandAllowlist = normalizeShellCommandAllowlist(raw.shellCommandAllowlist);
+  const mcpStdioServers = normalizeMcpStdioServers(raw.mcpStdioServers);
   const workflowMaxSelfFixRetries = normalizeWorkflowMaxSelfFixRetries(
     raw.workflowMaxSelfFixRetries
   );
@@ -135,6 +149,7 @@ export function getAppSettings(): AppSettings {
     maxFileUploadBytes,
     containerEngine,
     shellCommandAllowlist,
+    mcpStdioServers,
     workflowMaxSelfFixRetries,
     webSearchProvider,
     braveSearchApiKey,
@@ -165,6 +180,10 @@ export function updateAppSettings(updates: Partial<AppSettings>): AppSettings {
     updates.shellCommandAllowlist !== undefined
       ? normalizeShellCommandAllowlist(updates.shellCommandAllowlist)
       : current.shellCommandAllowlist;
+  const mcpStdioServers =
+    updates.mcpStdioServers !== undefined
+      ? normalizeMcpStdioServers(updates.mcpStdioServers)
+      : current.mcpStdioServers;
   const workflowMaxSelfFixRetries =
     updates.workflowMaxSelfFixRetries !== undefined
       ? normalizeWorkflowMaxSelfFixRetries(updates.workflowMaxSelfFixRetries)
@@ -193,6 +212,7 @@ export function updateAppSettings(updates: Partial<AppSettings>): AppSettings {
     maxFileUploadBytes,
     containerEngine,
     shellCommandAllowlist,
+    mcpStdioServers,
     workflowMaxSelfFixRetries,
     webSearchProvider,
     braveSearchApiKey,
@@ -0,0 +1,365 @@
+/**
+ * Spend budgets per workflow, agent, conversation or the whole deployment. Before each LLM call the
+ * workflow engine and the chat turn executor check the budgets that apply against recorded
+ * token_usage costs plus the calls of the current run or turn that are not recorded yet. A run
+ * over budget is paused or cancelled, a chat turn fails; both record why and raise a notification.
+ */
+import { and, eq, gte, sql, type SQL } from "drizzle-orm";
+import { calculateCost, resolveModelPricing, type LLMResponse } from "@agentron-studio/runtime";
+import {
+  db,
+  budgets,
+  tokenUsage,
+  executions,
+  runLogs,
+  fromBudgetRow,
+  toTokenUsageRow,
+  servedModelFields,
+  type Budget,
+} from "./db";
+import { updateExecutionRunState } from "./execution-events";
+import { createNotification } from "./notifications-store";
+import type { ExecutionTraceStep } from "./run-workflow-constants";
+
+export type BudgetPeriod = "run" | "day" | "month";
+
+/** What an LLM call is made for; a budget applies when its scope matches. */
+export type BudgetTarget = {
+  workflowId?: string;
+  agentId?: string;
+  conversationId?: string;
+  /** Workflow run id; recorded usage of the run counts towards per-run limits. */
+  runId?: string;
+};
+
+export type BudgetExceeded = {
+  budgetId: string;
+  budgetName?: string;
+  scope: Budget["scope"];
+  scopeId?: string;
+  period: BudgetPeriod;
+  /** USD spent in the period, including calls not recorded yet. */
+  spent: number;
+  limit: number;
+  action: Budget["action"];
+};
+
+/** Thrown before an LLM call when a budget is used up. */
+export class BudgetExceededError extends Error {
+  constructor(readonly exceeded: BudgetExceeded) {
+    super(describeBudgetExceeded(exceeded));
+    this.name = "BudgetExceededError";
+  }
+}
+
+export type CustomPricing = Record<string, { input: number; output: number }>;
+
+/** An LLM response of the current run or turn, not yet written to token_usage. */
+export type UsageEntry = {
+  response: LLMResponse;
+  config: { provider: string; model: string };
+  agentId?: string;
+};
+
+/** Estimated USD cost of one LLM response (0 when the model has no known pricing). */
+export function usageCost(entry: UsageEntry, customPricing: CustomPricing): number {
+  const usage = entry.response.usage;
+  if (!usage) return 0;
+  const served = servedModelFields(entry.response, entry.config);
+  const pricing = resolveModelPricing(served.model, customPricing);
+  return calculateCost(usage.promptTokens, usage.completionTokens, pricing);
+}
+
+/** Write token_usage rows for the entries that used tokens. */
+export async function recordTokenUsage(
+  entries: UsageEntry[],
+  fields: { executionId?: string; workflowId?: string; conversationId?: string },
+  customPricing: CustomPricing
+): Promise<void> {
+  for (const entry of entries) {
+    const usage = entry.response.usage;
+    if (!usage || (usage.promptTokens <= 0 && usage.completionTokens <= 0)) continue;
+    const served = servedModelFields(entry.response, entry.config);
+    const pricing = resolveModelPricing(served.model, customPricing);
+    const cost = calculateCost(usage.promptTokens, usage.completionTokens, pricing);
+    await db
+      .insert(tokenUsage)
+      .values(
+        toTokenUsageRow({
+          id: crypto.randomUUID(),
+          executionId: fields.executionId ?? null,
+          agentId: entry.agentId ?? null,
+          workflowId: fields.workflowId ?? null,
+          conversationId: fields.conversationId ?? null,
+          ...served,
+          promptTokens: usage.promptTokens,
+          completionTokens: usage.completionTokens,
+          estimatedCost: cost != null ? String(cost) : null,
+        })
+      )
+      .run();
+  }
+}
+
+const BUDGET_SCOPES: Budget["scope"][] = ["global", "workflow", "agent", "conversation"];
+
+function parseLimit(value: unknown, field: string): number | undefined | Error {
+  if (value == null || value === "") return undefined;
+  const n = typeof value === "number" ? value : Number(value);
+  if (!Number.isFinite(n) || n <= 0) return new Error(`${field} must be a positive number of USD`);
+  return n;
+}
+
+/**
+ * Budget from a POST/PUT body, applied over an existing budget for updates. Returns an error
+ * message when the body is invalid.
+ */
+export function parseBudgetInput(
+  body: Record<string, unknown>,
+  existing?: Budget
+): Budget | { error: string } {
+  const scope = (body.scope ?? existing?.scope ?? "global") as Budget["scope"];
+  if (!BUDGET_SCOPES.includes(scope)) {
+    return { error: `scope must be one of ${BUDGET_SCOPES.join(", ")}` };
+  }
+  const scopeId =
+    scope === "global"
+      ? undefined
+      : typeof body.scopeId === "string" && body.scopeId.trim()
+        ? body.scopeId.trim()
+        : existing?.scope === scope
+          ? existing.scopeId
+          : undefined;
+  if (scope !== "global" && !scopeId) return { error: `scopeId is required for ${scope} budgets` };
+  const limits: Record<"perRunLimit" | "dailyLimit" | "monthlyLimit", number | undefined> = {
+    perRunLimit: existing?.perRunLimit,
+    dailyLimit: existing?.dailyLimit,
+    monthlyLimit: existing?.monthlyLimit,
+  };
+  for (const field of Object.keys(limits) as (keyof typeof limits)[]) {
+    if (!(field in body)) continue;
+    const parsed = parseLimit(body[field], field);
+    if (parsed instanceof Error) return { error: parsed.message };
+    limits[field] = parsed;
+  }
+  if (Object.values(limits).every((v) => v == null)) {
+    return { error: "Set at least one of perRunLimit, dailyLimit or monthlyLimit" };
+  }
+  const action = body.action ?? existing?.action ?? "pause";
+  if (action !== "pause" && action !== "cancel") {
+    return { error: "action must be pause or cancel" };
+  }
+  const name =
+    typeof body.name === "string" ? body.name.trim() || undefined : (existing?.name ?? undefined);
+  const now = Date.now();
+  return {
+    id: existing?.id ?? crypto.randomUUID(),
+    ...(name && { name }),
+    scope,
+    ...(scopeId && { scopeId }),
+    ...limits,
+    action,
+    enabled: typeof body.enabled === "boolean" ? body.enabled : (existing?.enabled ?? true),
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+}
+
+/** A budget with what its scope spent today and this month (UTC). */
+export async function withBudgetSpend(budget: Budget, now = Date.now()) {
+  const [today, thisMonth] = await Promise.all([
+    recordedSpend(budget, { from: budgetPeriodStart("day", now) }),
+    recordedSpend(budget, { from: budgetPeriodStart("month", now) }),
+  ]);
+  return { ...budget, spend: { today, thisMonth } };
+}
+
+/** Start of the current UTC day or month. */
+export function budgetPeriodStart(period: "day" | "month", now: number): number {
+  const d = new Date(now);
+  return period === "day"
+    ? Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate())
+    : Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), 1);
+}
+
+function budgetApplies(budget: Budget, target: BudgetTarget): boolean {
+  switch (budget.scope) {
+    case "global":
+      return true;
+    case "workflow":
+      return target.workflowId != null && budget.scopeId === target.workflowId;
+    case "agent":
+      return target.agentId != null && budget.scopeId === target.agentId;
+    case "conversation":
+      return target.conversationId != null && budget.scopeId === target.conversationId;
+  }
+}
+
+function scopeCondition(budget: Pick<Budget, "scope" | "scopeId">): SQL | undefined {
+  const id = budget.scopeId ?? "";
+  switch (budget.scope) {
+    case "workflow":
+      return eq(tokenUsage.workflowId, id);
+    case "agent":
+      return eq(tokenUsage.agentId, id);
+    case "conversation":
+      return eq(tokenUsage.conversationId, id);
+    default:
+      return undefined;
+  }
+}
+
+/** USD recorded in token_usage for a budget's scope since a time (or within one run). */
+export async function recordedSpend(
+  budget: Pick<Budget, "scope" | "scopeId">,
+  since: { from: number } | { runId: string }
+): Promise<number> {
+  const period =
+    "runId" in since
+      ? eq(tokenUsage.executionId, since.runId)
+      : gte(tokenUsage.createdAt, since.from);
+  const scope = scopeCondition(budget);
+  const [row] = await db
+    .select({
+      total: sql<number>`coalesce(sum(cast(${tokenUsage.estimatedCost} as real)), 0)`,
+    })
+    .from(tokenUsage)
+    .where(scope ? and(scope, period) : period);
+  return Number(row?.total ?? 0);
+}
+
+/**
+ * First budget that is used up for the target, or null. pending holds the cost of calls made in
+ * this run or turn that are not in token_usage yet.
+ */
+export async function checkBudgets(
+  target: BudgetTarget,
+  pending: { agentId?: string; cost: number }[],
+  now = Date.now()
+): Promise<BudgetExceeded | null> {
+  const rows = await db.select().from(budgets).where(eq(budgets.enabled, 1));
+  for (const budget of rows.map(fromBudgetRow)) {
+    if (!budgetApplies(budget, target)) continue;
+    const pendingCost = pending
+      .filter((p) => budget.scope !== "agent" || p.agentId === budget.scopeId)
+      .reduce((s, p) => s + p.cost, 0);
+    const limits: [BudgetPeriod, number | undefined][] = [
+      ["run", budget.perRunLimit],
+      ["day", budget.dailyLimit],
+      ["month", budget.monthlyLimit],
+    ];
+    for (const [period, limit] of limits) {
+      if (limit == null) continue;
+      const recorded =
+        period === "run"
+          ? target.runId
+            ? await recordedSpend(budget, { runId: target.runId })
+            : 0
+          : await recordedSpend(budget, { from: budgetPeriodStart(period, now) });
+      const spent = recorded + pendingCost;
+      if (spent >= limit) {
+        return {
+          budgetId: budget.id,
+          ...(budget.name && { budgetName: budget.name }),
+          scope: budget.scope,
+          ...(budget.scopeId && { scopeId: budget.scopeId }),
+          period,
+          spent,
+          limit,
+          action: budget.action,
+        };
+      }
+    }
+  }
+  return null;
+}
+
+export function describeBudgetExceeded(e: BudgetExceeded): string {
+  const name = e.budgetName
+    ? `"${e.budgetName}"`
+    : `for ${e.scope}${e.scopeId ? ` ${e.scopeId}` : ""}`;
+  const when =
+    e.period === "day"
+      ? "today (UTC)"
+      : e.period === "month"
+        ? "this month (UTC)"
+        : e.scope === "conversation"
+          ? "in this chat turn"
+          : "in this run";
+  return `Budget ${name} reached: $${e.spent.toFixed(4)} of $${e.limit} spent ${when}.`;
+}
+
+/**
+ * Pause or cancel a run that reached a budget: sets the run status ("paused" runs continue via
+ * POST /api/runs/:id/resume), records the budget in the run output and logs, and notifies.
+ * Concurrent nodes hitting the same budget only stop the run once.
+ */
+export async function stopRunForBudget(
+  runId: string,
+  exceeded: BudgetExceeded,
+  trail: ExecutionTraceStep[],
+  metadata: { targetType: string; targetId: string }
+): Promise<void> {
+  const rows = await db
+    .select({ status: executions.status, output: executions.output })
+    .from(executions)
+    .where(eq(executions.id, runId));
+  if (rows.length === 0 || rows[0].status === "paused" || rows[0].status === "cancelled") return;
+  let output: Record<string, unknown> = {};
+  try {
+    const parsed = rows[0].output ? JSON.parse(rows[0].output) : {};
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) output = parsed;
+  } catch {
+    // keep the budget record even if the stored output is not JSON
+  }
+  const pause = exceeded.action === "pause";
+  const message = describeBudgetExceeded(exceeded);
+  await db
+    .update(executions)
+    .set({
+      status: pause ? "paused" : "cancelled",
+      finishedAt: pause ? null : Date.now(),
+      output: JSON.stringify({
+        ...output,
+        budgetExceeded: exceeded,
+        ...(trail.length > 0 && { trail }),
+      }),
+    })
+    .where(eq(executions.id, runId))
+    .run();
+  if (pause) await updateExecutionRunState(runId, { status: "paused", trailSnapshot: trail });
+  await db
+    .insert(runLogs)
+    .values({
+      id: crypto.randomUUID(),
+      executionId: runId,
+      level: "stderr",
+      message: `${message} Run ${pause ? "paused" : "cancelled"}.`,
+      payload: JSON.stringify({ source: "budget", ...exceeded }),
+      createdAt: Date.now(),
+    })
+    .run();
+  await createNotification({
+    type: "run",
+    sourceId: runId,
+    title: pause ? "Run paused: budget reached" : "Run cancelled: budget reached",
+    message,
+    severity: "warning",
+    metadata: { ...metadata, budgetId: exceeded.budgetId, period: exceeded.period },
+  });
+}
+
+/** Notify that a chat turn stopped because a budget was reached. */
+export async function notifyChatBudgetExceeded(
+  conversationId: string,
+  exceeded: BudgetExceeded
+): Promise<void> {
+  await createNotification({
+    type: "chat",
+    sourceId: conversationId,
+    title: "Chat stopped: budget reached",
+    message: describeBudgetExceeded(exceeded),
+    severity: "warning",
+    metadata: { conversationId, budgetId: exceeded.budgetId, period: exceeded.period },
+  });
+}
@@ -0,0 +1,86 @@
+/**
+ * Chat attachments: files uploaded through /api/files and referenced by id in a chat message
+ * ({ attachments: [{ fileId }] }). Images go to vision-capable models as image parts; other files
+ * are sent as extracted text (scanned PDFs without a text layer as file parts when the model can
+ * view them).
+ */
+import fs from "node:fs";
+import path from "node:path";
+import { inArray } from "drizzle-orm";
+import type { LLMContentPart } from "@agentron-studio/runtime";
+import { db, files, fromFileRow, ensureFilesDir } from "./db";
+import { extractText } from "./rag-extract";
+
+export type ChatAttachments = {
+  /** Parts appended to the user message for the LLM. */
+  parts: LLMContentPart[];
+  /** File names, stored with the user message. */
+  names: string[];
+};
+
+/** Attachments per message. */
+const MAX_ATTACHMENTS = 10;
+/** Characters of extracted text kept per file. */
+const ATTACHMENT_TEXT_MAX_CHARS = 20000;
+
+/** File ids from a chat payload's attachments ([{ fileId }] or plain id strings). */
+export function parseChatAttachmentIds(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  const ids = value
+    .map((entry) =>
+      typeof entry === "string"
+        ? entry
+        : entry && typeof entry === "object"
+          ? (entry as { fileId?: unknown }).fileId
+          : undefined
+    )
+    .filter((id): id is string => typeof id === "string" && id.trim() !== "")
+    .map((id) => id.trim());
+  return [...new Set(ids)].slice(0, MAX_ATTACHMENTS);
+}
+
+/** Load attached files and turn them into content parts for a model with or without vision. */
+export async function loadChatAttachments(
+  fileIds: string[],
+  vision: boolean
+): Promise<ChatAttachments> {
+  if (fileIds.length === 0) return { parts: [], names: [] };
+  const rows = (await db.select().from(files).where(inArray(files.id, fileIds))).map(fromFileRow);
+  const filesDir = ensureFilesDir();
+  const parts: LLMContentPart[] = [];
+  const names: string[] = [];
+  for (const id of fileIds) {
+    const file = rows.find((r) => r.id === id);
+    if (!file) continue;
+    const filePath = path.join(filesDir, file.path);
+    if (!fs.existsSync(filePath)) continue;
+    names.push(file.name);
+    const buffer = fs.readFileSync(filePath);
+    const data = buffer.toString("base64");
+    if (file.mimeType.startsWith("image/")) {
+      parts.push(
+        vision
+          ? { type: "image", mimeType: file.mimeType, data }
+          : {
+              type: "text",
+              text: `[Attached image ${file.name}: the selected model cannot view images]`,
+            }
+      );
+      continue;
+    }
+    const text = (await extractText(buffer, file.mimeType)).trim();
+    if (!text && vision && file.mimeType === "application/pdf") {
+      parts.push({ type: "file", mimeType: file.mimeType, name: file.name, data });
+      continue;
+    }
+    const truncated =
+      text.length > ATTACHMENT_TEXT_MAX_CHARS
+        ? `${text.slice(0, ATTACHMENT_TEXT_MAX_CHARS)}\n[truncated]`
+        : text;
+    parts.push({
+      type: "text",
+      text: `--- Attached file ${file.name} ---\n${truncated || "[no text could be extracted]"}`,
+    });
+  }
+  return { parts, names };
+}
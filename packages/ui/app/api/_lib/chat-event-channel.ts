@@ -2,6 +2,8 @@
  * In-memory pub/sub channel for decoupled chat: events are published by turnId
  * and delivered to all subscribers (e.g. SSE endpoint). Used so POST can return
  * 202 immediately and the client subscribes via GET /api/chat/events?turnId=xxx.
+ * Workflow runs publish their LLM output deltas under the run id, for
+ * GET /api/runs/:id/events with Accept: text/event-stream.
  */
 
 export type ChatChannelEvent = Record<string, unknown> & { type: string };
@@ -27,6 +29,10 @@ export function subscribe(turnId: string, onEvent: Subscriber): () => void {
   };
 }
 
+export function hasSubscribers(turnId: string): boolean {
+  return (subscribersByTurnId.get(turnId)?.size ?? 0) > 0;
+}
+
 /** Publish one event to all subscribers for this turnId. */
 export function publish(turnId: string, event: ChatChannelEvent): void {
   const set = subscribersByTurnId.get(turnId);
@@ -0,0 +1,254 @@
+/**
+ * Credential grants: unattended access to specific vault credentials for a workflow or an agent.
+ * Scheduled and triggered runs have no browser session and so no unlocked vault; a grant lets them
+ * read the credentials the user authorized, and nothing else. Each grant holds its own copy of the
+ * credential encrypted with a random key, wrapped with the machine secret. Grants are created while
+ * the vault is unlocked, refreshed when the credential changes, revocable, and every read is written
+ * to the run's execution log.
+ */
+import { and, desc, eq, isNull } from "drizzle-orm";
+import { db, credentialGrants, savedCredentials } from "./db";
+import { appendExecutionLogStep } from "./execution-log";
+import { createGrantKey, decryptWithVaultKey, encryptWithVaultKey, unwrapGrantKey } from "./vault";
+
+export const CREDENTIAL_GRANT_TARGET_TYPES = ["workflow", "agent"] as const;
+export type CredentialGrantTargetType = (typeof CREDENTIAL_GRANT_TARGET_TYPES)[number];
+
+/** A grant as returned by the API: never includes the credential or its key. */
+export type CredentialGrant = {
+  id: string;
+  credentialKey: string;
+  targetType: CredentialGrantTargetType;
+  targetId: string;
+  createdAt: number;
+  revokedAt?: number;
+  lastUsedAt?: number;
+};
+
+/** Thrown when the unlocked vault key cannot decrypt a stored credential (stale or wrong key). */
+export class VaultKeyStaleError extends Error {
+  constructor() {
+    super("Vault is locked or the vault key is stale. Unlock the vault again.");
+    this.name = "VaultKeyStaleError";
+  }
+}
+
+/** Who is reading a credential in a run: the workflow and the agent node calling the tool. */
+export type CredentialGrantScope = { workflowId?: string; agentId?: string; runId?: string };
+
+type GrantRow = typeof credentialGrants.$inferSelect;
+
+function fromGrantRow(row: GrantRow): CredentialGrant {
+  return {
+    id: row.id,
+    credentialKey: row.credentialKey,
+    targetType: row.targetType as CredentialGrantTargetType,
+    targetId: row.targetId,
+    createdAt: row.createdAt,
+    ...(row.revokedAt != null && { revokedAt: row.revokedAt }),
+    ...(row.lastUsedAt != null && { lastUsedAt: row.lastUsedAt }),
+  };
+}
+
+function normalizeKey(credentialKey: string): string {
+  return credentialKey.trim().toLowerCase().replace(/\s+/g, "_");
+}
+
+function sealValue(plaintext: string): { wrappedKey: string; value: string } {
+  const { key, wrapped } = createGrantKey();
+  return { wrappedKey: wrapped, value: encryptWithVaultKey(plaintext, key) };
+}
+
+/** Parses a grant body: { credentialKey, targetType, targetId }. */
+export function parseCredentialGrantInput(
+  body: unknown
+):
+  | { credentialKey: string; targetType: CredentialGrantTargetType; targetId: string }
+  | { error: string } {
+  const b = body && typeof body === "object" ? (body as Record<string, unknown>) : {};
+  const credentialKey = typeof b.credentialKey === "string" ? normalizeKey(b.credentialKey) : "";
+  if (!credentialKey) return { error: "credentialKey is required" };
+  if (!CREDENTIAL_GRANT_TARGET_TYPES.includes(b.targetType as CredentialGrantTargetType)) {
+    return { error: `targetType must be one of ${CREDENTIAL_GRANT_TARGET_TYPES.join(", ")}` };
+  }
+  const targetId = typeof b.targetId === "string" ? b.targetId.trim() : "";
+  if (!targetId) return { error: "targetId is required" };
+  return { credentialKey, targetType: b.targetType as CredentialGrantTargetType, targetId };
+}
+
+/**
+ * Grants a workflow or agent unattended access to one credential. Requires the unlocked vault key
+ * to read the credential; throws VaultKeyStaleError when that key no longer decrypts it. An active
+ * grant for the same credential and target is refreshed instead of duplicated. Returns null when
+ * the credential is not in the vault.
+ */
+export async function createCredentialGrant(
+  input: { credentialKey: string; targetType: CredentialGrantTargetType; targetId: string },
+  vaultKey: Buffer
+): Promise<CredentialGrant | null> {
+  const credentialKey = normalizeKey(input.credentialKey);
+  const rows = await db
+    .select()
+    .from(savedCredentials)
+    .where(eq(savedCredentials.key, credentialKey));
+  if (rows.length === 0) return null;
+  let plaintext: string;
+  try {
+    plaintext = decryptWithVaultKey(rows[0].value, vaultKey);
+  } catch {
+    throw new VaultKeyStaleError();
+  }
+  const sealed = sealValue(plaintext);
+
+  const existing = await db
+    .select()
+    .from(credentialGrants)
+    .where(
+      and(
+        eq(credentialGrants.credentialKey, credentialKey),
+        eq(credentialGrants.targetType, input.targetType),
+        eq(credentialGrants.targetId, input.targetId),
+        isNull(credentialGrants.revokedAt)
+      )
+    );
+  if (existing.length > 0) {
+    await db
+      .update(credentialGrants)
+      .set(sealed)
+      .where(eq(credentialGrants.id, existing[0].id))
+      .run();
+    return fromGrantRow({ ...existing[0], ...sealed });
+  }
+  const row: GrantRow = {
+    id: crypto.randomUUID(),
+    credentialKey,
+    targetType: input.targetType,
+    targetId: input.targetId,
+    ...sealed,
+    createdAt: Date.now(),
+    revokedAt: null,
+    lastUsedAt: null,
+  };
+  await db.insert(credentialGrants).values(row).run();
+  return fromGrantRow(row);
+}
+
+/** Lists grants, newest first. Revoked grants are included only with includeRevoked. */
+export async function listCredentialGrants(filter?: {
+  credentialKey?: string;
+  targetType?: CredentialGrantTargetType;
+  targetId?: string;
+  includeRevoked?: boolean;
+}): Promise<CredentialGrant[]> {
+  const conditions = [];
+  if (filter?.credentialKey) {
+    conditions.push(eq(credentialGrants.credentialKey, normalizeKey(filter.credentialKey)));
+  }
+  if (filter?.targetType) conditions.push(eq(credentialGrants.targetType, filter.targetType));
+  if (filter?.targetId) conditions.push(eq(credentialGrants.targetId, filter.targetId));
+  if (!filter?.includeRevoked) conditions.push(isNull(credentialGrants.revokedAt));
+  const rows = await db
+    .select()
+    .from(credentialGrants)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(credentialGrants.createdAt));
+  return rows.map(fromGrantRow);
+}
+
+/** Revokes a grant: drops its credential copy and key, keeping the row for the audit trail. */
+export async function revokeCredentialGrant(id: string): Promise<boolean> {
+  const result = await db
+    .update(credentialGrants)
+    .set({ revokedAt: Date.now(), wrappedKey: null, value: null })
+    .where(and(eq(credentialGrants.id, id), isNull(credentialGrants.revokedAt)))
+    .run();
+  return (result.changes ?? 0) > 0;
+}
+
+/** Revokes every active grant for a credential (or all grants), e.g. when it is deleted. */
+export async function revokeCredentialGrantsForKey(credentialKey?: string): Promise<number> {
+  const active = isNull(credentialGrants.revokedAt);
+  const result = await db
+    .update(credentialGrants)
+    .set({ revokedAt: Date.now(), wrappedKey: null, value: null })
+    .where(
+      credentialKey
+        ? and(eq(credentialGrants.credentialKey, normalizeKey(credentialKey)), active)
+        : active
+    )
+    .run();
+  return result.changes ?? 0;
+}
+
+/** Re-seals the active grants of a credential after its value changed in the vault. */
+export async function refreshCredentialGrants(
+  credentialKey: string,
+  plaintext: string
+): Promise<void> {
+  const rows = await db
+    .select({ id: credentialGrants.id })
+    .from(credentialGrants)
+    .where(
+      and(
+        eq(credentialGrants.credentialKey, normalizeKey(credentialKey)),
+        isNull(credentialGrants.revokedAt)
+      )
+    );
+  for (const row of rows) {
+    await db
+      .update(credentialGrants)
+      .set(sealValue(plaintext))
+      .where(eq(credentialGrants.id, row.id))
+      .run();
+  }
+}
+
+async function activeGrantsForScope(scope: CredentialGrantScope): Promise<GrantRow[]> {
+  const rows = await db.select().from(credentialGrants).where(isNull(credentialGrants.revokedAt));
+  return rows.filter(
+    (r) =>
+      (r.targetType === "workflow" && !!scope.workflowId && r.targetId === scope.workflowId) ||
+      (r.targetType === "agent" && !!scope.agentId && r.targetId === scope.agentId)
+  );
+}
+
+/** Credential keys the workflow or agent has been granted. */
+export async function listGrantedCredentialKeys(scope: CredentialGrantScope): Promise<string[]> {
+  const rows = await activeGrantsForScope(scope);
+  return [...new Set(rows.map((r) => r.credentialKey))].sort();
+}
+
+/**
+ * Reads a credential through a grant for the workflow or agent. Logs the access to the run's
+ * execution log and records lastUsedAt. Returns null when there is no usable grant.
+ */
+export async function getGrantedCredential(
+  credentialKey: string,
+  scope: CredentialGrantScope
+): Promise<string | null> {
+  const key = normalizeKey(credentialKey);
+  const grant = (await activeGrantsForScope(scope)).find((r) => r.credentialKey === key);
+  if (!grant?.wrappedKey || !grant.value) return null;
+  const grantKey = unwrapGrantKey(grant.wrappedKey);
+  if (!grantKey) return null;
+  let value: string;
+  try {
+    value = decryptWithVaultKey(grant.value, grantKey);
+  } catch {
+    return null;
+  }
+  await db
+    .update(credentialGrants)
+    .set({ lastUsedAt: Date.now() })
+    .where(eq(credentialGrants.id, grant.id))
+    .run();
+  if (scope.runId) {
+    await appendExecutionLogStep(scope.runId, "credential_access", key, {
+      credentialKey: key,
+      grantId: grant.id,
+      targetType: grant.targetType,
+      targetId: grant.targetId,
+    });
+  }
+  return value;
+}
@@ -1,12 +1,14 @@
 /**
  * Credential storage: internal vault only. Credentials are encrypted with the key
  * derived from the user's master password. The agent can only read or save credentials
- * when the vault is unlocked (vault key provided). No keychain, no fallbacks.
+ * when the vault is unlocked (vault key provided), or through credential grants for background
+ * runs. No keychain, no fallbacks.
  */
 
 import { db, savedCredentials } from "./db";
 import { eq, asc } from "drizzle-orm";
 import { encryptWithVaultKey, decryptWithVaultKey } from "./vault";
+import { refreshCredentialGrants, revokeCredentialGrantsForKey } from "./credential-grants";
 
 /**
  * Retrieves a stored credential. Requires the vault to be unlocked (vaultKey from cookie).
@@ -31,6 +33,7 @@ export async function getStoredCredential(
 
 /**
  * Saves a credential. Requires the vault to be unlocked. If vault is locked, does nothing.
+ * Grants for the key get the new value.
  */
 export async function setStoredCredential(
   credentialKey: string,
@@ -50,6 +53,7 @@ export async function setStoredCredential(
       set: { value: encrypted, createdAt: Date.now() },
     })
     .run();
+  await refreshCredentialGrants(key, plaintext);
 }
 
 /** Normalize credential key for storage (lowercase, spaces to underscores). */
@@ -72,7 +76,7 @@ export async function listStoredCredentialKeys(
 }
 
 /**
- * Update a credential value. Requires vault unlocked.
+ * Update a credential value. Requires vault unlocked. Grants for the key get the new value.
  */
 export async function updateStoredCredential(
   credentialKey: string,
@@ -87,11 +91,13 @@ export async function updateStoredCredential(
     .set({ value: encrypted, createdAt: Date.now() })
     .where(eq(savedCredentials.key, key))
     .run();
-  return (result.changes ?? 0) > 0;
+  if ((result.changes ?? 0) === 0) return false;
+  await refreshCredentialGrants(key, value.trim());
+  return true;
 }
 
 /**
- * Delete one stored credential by key. Requires vault unlocked.
+ * Delete one stored credential by key. Requires vault unlocked. Revokes its grants.
  */
 export async function deleteStoredCredential(
   credentialKey: string,
@@ -100,14 +106,16 @@ export async function deleteStoredCredential(
   if (!vaultKey) return false;
   const key = normalizeCredentialKey(credentialKey);
   const result = await db.delete(savedCredentials).where(eq(savedCredentials.key, key)).run();
+  await revokeCredentialGrantsForKey(key);
   return (result.changes ?? 0) > 0;
 }
 
 /**
- * Delete all stored credentials. Requires vault unlocked. Does not remove vault_meta.
+ * Delete all stored credentials and revoke all grants. Requires vault unlocked. Does not remove vault_meta.
  */
 export async function clearAllStoredCredentials(vaultKey: Buffer | null): Promise<number> {
   if (!vaultKey) return 0;
   const result = await db.delete(savedCredentials).run();
+  await revokeCredentialGrantsForKey();
   return result.changes ?? 0;
 }
@@ -7,6 +7,7 @@ import {
   workflows,
   llmConfigs,
   tools,
+  prompts,
   executions,
   tasks,
   conversations,
@@ -18,6 +19,13 @@ import {
   files,
   feedback,
   modelPricing,
+  budgets,
+  workflowTriggers,
+  workflowTriggerEvents,
+  evalSuites,
+  evalCases,
+  evalRuns,
+  evalResults,
   remoteServers,
   customFunctions,
   reminders,
@@ -27,7 +35,9 @@ import type {
   Workflow,
   LLMConfig,
   ToolDefinition,
+  PromptTemplate,
   ChatMessage,
+  ChatCitation,
   Conversation,
   ChatAssistantSettings,
   AssistantMemoryEntry,
@@ -35,6 +45,10 @@ import type {
   FileEntry,
   Sandbox,
   CustomFunction,
+  EvalSuite,
+  EvalCase,
+  EvalScorer,
+  EvalTargetType,
 } from "@agentron-studio/core";
 
 export const parseJson = <T>(value?: string | null, fallback?: T): T | undefined => {
@@ -137,6 +151,14 @@ export const toWorkflowRow = (workflow: Workflow) => ({
     workflow.executionOrder != null && workflow.executionOrder.length > 0
       ? JSON.stringify(workflow.executionOrder)
       : null,
+  timezone: workflow.timezone ?? null,
+  catchUp: workflow.catchUp ?? null,
+  inputSchema: workflow.inputSchema != null ? JSON.stringify(workflow.inputSchema) : null,
+  outputSchema: workflow.outputSchema != null ? JSON.stringify(workflow.outputSchema) : null,
+  outputMapping:
+    workflow.outputMapping != null && Object.keys(workflow.outputMapping).length > 0
+      ? JSON.stringify(workflow.outputMapping)
+      : null,
   createdAt: Date.now(),
 });
 
@@ -154,6 +176,11 @@ export const fromWorkflowRow = (row: typeof workflows.$inferSelect): Workflow =>
     branches: parseJson((row as { branches?: string | null }).branches) ?? undefined,
     executionOrder:
       parseJson((row as { executionOrder?: string | null }).executionOrder) ?? undefined,
+    timezone: row.timezone ?? undefined,
+    catchUp: (row.catchUp as Workflow["catchUp"]) ?? undefined,
+    inputSchema: parseJson<Workflow["inputSchema"]>(row.inputSchema) ?? undefined,
+    outputSchema: parseJson<Workflow["outputSchema"]>(row.outputSchema) ?? undefined,
+    outputMapping: parseJson<Record<string, string>>(row.outputMapping) ?? undefined,
   }) as Workflow;
 
 export const toToolRow = (tool: ToolDefinition) => ({
@@ -174,6 +201,22 @@ export const fromToolRow = (row: typeof tools.$inferSelect): ToolDefinition => (
   outputSchema: parseJson(row.outputSchema),
 });
 
+export const toPromptRow = (prompt: PromptTemplate) => ({
+  id: prompt.id,
+  name: prompt.name,
+  description: prompt.description ?? null,
+  arguments: prompt.arguments?.length ? JSON.stringify(prompt.arguments) : null,
+  template: prompt.template,
+});
+
+export const fromPromptRow = (row: typeof prompts.$inferSelect): PromptTemplate => ({
+  id: row.id,
+  name: row.name,
+  ...(row.description && { description: row.description }),
+  ...(row.arguments && { arguments: parseJson(row.arguments, []) }),
+  template: row.template,
+});
+
 export const toLlmConfigRow = (config: LLMConfig & { id: string }) => ({
   id: config.id,
   provider: config.provider,
@@ -315,6 +358,7 @@ export const toChatMessageRow = (m: ChatMessage) => ({
   toolCalls: m.toolCalls ? JSON.stringify(m.toolCalls) : null,
   llmTrace: m.llmTrace ? JSON.stringify(m.llmTrace) : null,
   rephrasedPrompt: m.rephrasedPrompt ?? null,
+  citations: m.citations && m.citations.length > 0 ? JSON.stringify(m.citations) : null,
   createdAt: m.createdAt,
 });
 
@@ -358,6 +402,7 @@ export const fromChatMessageRow = (row: typeof chatMessages.$inferSelect): ChatM
       typeof r.rephrasedPrompt === "string" && r.rephrasedPrompt.trim()
         ? r.rephrasedPrompt
         : undefined,
+    citations: parseJson<ChatCitation[]>(row.citations),
     createdAt: row.createdAt,
     conversationId: row.conversationId ?? undefined,
   };
@@ -536,6 +581,250 @@ export const fromModelPricingRow = (row: typeof modelPricing.$inferSelect): Mode
   updatedAt: row.updatedAt,
 });
 
+export type BudgetScope = "global" | "workflow" | "agent" | "conversation";
+export type BudgetAction = "pause" | "cancel";
+
+export type Budget = {
+  id: string;
+  name?: string;
+  scope: BudgetScope;
+  /** Workflow, agent or conversation id; unset for the global budget. */
+  scopeId?: string;
+  /** USD limits; unset means no limit for that period. */
+  perRunLimit?: number;
+  dailyLimit?: number;
+  monthlyLimit?: number;
+  action: BudgetAction;
+  enabled: boolean;
+  createdAt: number;
+  updatedAt: number;
+};
+
+const limitToText = (n?: number) => (n != null ? String(n) : null);
+const limitFromText = (t: string | null) => (t != null && t !== "" ? Number(t) : undefined);
+
+export const toBudgetRow = (b: Budget) => ({
+  id: b.id,
+  name: b.name ?? null,
+  scope: b.scope,
+  scopeId: b.scopeId ?? null,
+  perRunLimit: limitToText(b.perRunLimit),
+  dailyLimit: limitToText(b.dailyLimit),
+  monthlyLimit: limitToText(b.monthlyLimit),
+  action: b.action,
+  enabled: b.enabled ? 1 : 0,
+  createdAt: b.createdAt,
+  updatedAt: b.updatedAt,
+});
+
+export const fromBudgetRow = (row: typeof budgets.$inferSelect): Budget => ({
+  id: row.id,
+  name: row.name ?? undefined,
+  scope: row.scope as BudgetScope,
+  scopeId: row.scopeId ?? undefined,
+  perRunLimit: limitFromText(row.perRunLimit),
+  dailyLimit: limitFromText(row.dailyLimit),
+  monthlyLimit: limitFromText(row.monthlyLimit),
+  action: row.action as BudgetAction,
+  enabled: row.enabled === 1,
+  createdAt: row.createdAt,
+  updatedAt: row.updatedAt,
+});
+
+export type WorkflowTriggerType =
+  | "webhook"
+  | "file"
+  | "rag_connector"
+  | "workflow_run"
+  | "telegram";
+
+export type WorkflowTrigger = {
+  id: string;
+  workflowId: string;
+  branchId?: string;
+  name: string;
+  type: WorkflowTriggerType;
+  /** Webhook only: the :token of /api/hooks/:token. */
+  token?: string;
+  /** Webhook only: when set, requests must be signed with HMAC-SHA256 of the raw body. */
+  secret?: string;
+  /** Type settings, e.g. { path } for file, { connectorId } for rag_connector. */
+  config: Record<string, unknown>;
+  /** Run input name -> expression over the event; empty passes the event as { payload }. */
+  inputMapping: Record<string, string>;
+  enabled: boolean;
+  lastFiredAt?: number;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type WorkflowTriggerEvent = {
+  id: string;
+  triggerId: string;
+  workflowId: string;
+  source: string;
+  sourceRef?: string;
+  status: "queued" | "rejected" | "failed";
+  jobId?: string;
+  runId?: string;
+  payload?: unknown;
+  error?: string;
+  createdAt: number;
+};
+
+export const toWorkflowTriggerRow = (t: WorkflowTrigger) => ({
+  id: t.id,
+  workflowId: t.workflowId,
+  branchId: t.branchId ?? null,
+  name: t.name,
+  type: t.type,
+  token: t.token ?? null,
+  secret: t.secret ?? null,
+  config: JSON.stringify(t.config),
+  inputMapping: JSON.stringify(t.inputMapping),
+  enabled: t.enabled ? 1 : 0,
+  lastFiredAt: t.lastFiredAt ?? null,
+  createdAt: t.createdAt,
+  updatedAt: t.updatedAt,
+});
+
+export const fromWorkflowTriggerRow = (
+  row: typeof workflowTriggers.$inferSelect
+): WorkflowTrigger => ({
+  id: row.id,
+  workflowId: row.workflowId,
+  branchId: row.branchId ?? undefined,
+  name: row.name,
+  type: row.type as WorkflowTriggerType,
+  token: row.token ?? undefined,
+  secret: row.secret ?? undefined,
+  config: parseJson<Record<string, unknown>>(row.config, {}) ?? {},
+  inputMapping: parseJson<Record<string, string>>(row.inputMapping, {}) ?? {},
+  enabled: row.enabled === 1,
+  lastFiredAt: row.lastFiredAt ?? undefined,
+  createdAt: row.createdAt,
+  updatedAt: row.updatedAt,
+});
+
+export const fromWorkflowTriggerEventRow = (
+  row: typeof workflowTriggerEvents.$inferSelect
+): WorkflowTriggerEvent => ({
+  id: row.id,
+  triggerId: row.triggerId,
+  workflowId: row.workflowId,
+  source: row.source,
+  sourceRef: row.sourceRef ?? undefined,
+  status: row.status as WorkflowTriggerEvent["status"],
+  jobId: row.jobId ?? undefined,
+  runId: row.runId ?? undefined,
+  payload: parseJson<unknown>(row.payload, undefined) ?? row.payload ?? undefined,
+  error: row.error ?? undefined,
+  createdAt: row.createdAt,
+});
+
+export type EvalRunStatus = "running" | "completed" | "failed";
+
+export type EvalRun = {
+  id: string;
+  suiteId: string;
+  targetType: EvalTargetType;
+  targetId: string;
+  agentVersion?: number;
+  instanceRef?: string;
+  label?: string;
+  status: EvalRunStatus;
+  caseCount: number;
+  passedCount: number;
+  meanScore?: number;
+  error?: string;
+  createdAt: number;
+  finishedAt?: number;
+};
+
+/** One scored case of an eval run (an eval_results row written by an eval suite run). */
+export type EvalCaseResultRow = {
+  id: string;
+  evalRunId: string;
+  caseId: string;
+  executionId?: string;
+  score: number;
+  passed: boolean;
+  output?: unknown;
+  error?: string;
+  metrics: Record<string, unknown>;
+  createdAt: number;
+};
+
+export const toEvalSuiteRow = (s: EvalSuite) => ({
+  id: s.id,
+  name: s.name,
+  description: s.description ?? null,
+  targetType: s.targetType,
+  targetId: s.targetId,
+  createdAt: s.createdAt,
+  updatedAt: s.updatedAt,
+});
+
+export const fromEvalSuiteRow = (row: typeof evalSuites.$inferSelect): EvalSuite => ({
+  id: row.id,
+  name: row.name,
+  description: row.description ?? undefined,
+  targetType: row.targetType as EvalTargetType,
+  targetId: row.targetId,
+  createdAt: row.createdAt,
+  updatedAt: row.updatedAt,
+});
+
+export const toEvalCaseRow = (c: EvalCase) => ({
+  id: c.id,
+  suiteId: c.suiteId,
+  name: c.name,
+  input: JSON.stringify(c.input ?? null),
+  expected: c.expected ?? null,
+  scorer: JSON.stringify(c.scorer),
+  createdAt: c.createdAt,
+});
+
+export const fromEvalCaseRow = (row: typeof evalCases.$inferSelect): EvalCase => ({
+  id: row.id,
+  suiteId: row.suiteId,
+  name: row.name,
+  input: parseJson<unknown>(row.input, row.input),
+  expected: row.expected ?? undefined,
+  scorer: parseJson<EvalScorer>(row.scorer, { type: "exact" }) ?? { type: "exact" },
+  createdAt: row.createdAt,
+});
+
+export const fromEvalRunRow = (row: typeof evalRuns.$inferSelect): EvalRun => ({
+  id: row.id,
+  suiteId: row.suiteId,
+  targetType: row.targetType as EvalTargetType,
+  targetId: row.targetId,
+  agentVersion: row.agentVersion ?? undefined,
+  instanceRef: row.instanceRef ?? undefined,
+  label: row.label ?? undefined,
+  status: row.status as EvalRunStatus,
+  caseCount: row.caseCount,
+  passedCount: row.passedCount,
+  meanScore: row.meanScore != null ? Number(row.meanScore) : undefined,
+  error: row.error ?? undefined,
+  createdAt: row.createdAt,
+  finishedAt: row.finishedAt ?? undefined,
+});
+
+export const fromEvalResultRow = (row: typeof evalResults.$inferSelect): EvalCaseResultRow => ({
+  id: row.id,
+  evalRunId: row.evalRunId ?? "",
+  caseId: row.caseId ?? "",
+  executionId: row.executionId ?? undefined,
+  score: row.score != null ? Number(row.score) : 0,
+  passed: row.passed === 1,
+  output: parseJson<unknown>(row.output, row.output ?? undefined),
+  error: row.error ?? undefined,
+  metrics: parseJson<Record<string, unknown>>(row.metrics, {}) ?? {},
+  createdAt: row.createdAt,
+});
+
 export const toTokenUsageRow = (u: {
   id: string;
   executionId?: string | null;
@@ -546,6 +835,9 @@ export const toTokenUsageRow = (u: {
   promptTokens: number;
   completionTokens: number;
   estimatedCost?: string | null;
+  fallbackFrom?: string | null;
+  failedAttempts?: number | null;
+  conversationId?: string | null;
 }) => ({
   id: u.id,
   executionId: u.executionId ?? null,
@@ -556,9 +848,29 @@ export const toTokenUsageRow = (u: {
   promptTokens: u.promptTokens,
   completionTokens: u.completionTokens,
   estimatedCost: u.estimatedCost ?? null,
+  fallbackFrom: u.fallbackFrom ?? null,
+  failedAttempts: u.failedAttempts ?? null,
+  conversationId: u.conversationId ?? null,
   createdAt: Date.now(),
 });
 
+/**
+ * Provider and model that answered an LLM call (a fallback when the requested config failed) and
+ * how the call got there, for token_usage rows.
+ */
+export const servedModelFields = (
+  response: {
+    servedBy?: { provider: string; model: string; fallback: boolean };
+    failedAttempts?: unknown[];
+  },
+  requested: { provider: string; model: string }
+) => ({
+  provider: response.servedBy?.provider ?? requested.provider,
+  model: response.servedBy?.model ?? requested.model,
+  fallbackFrom: response.servedBy?.fallback ? `${requested.provider}/${requested.model}` : null,
+  failedAttempts: response.failedAttempts?.length ?? null,
+});
+
 export type RemoteServer = {
   id: string;
   label: string;
@@ -10,15 +10,23 @@ import {
   workflowVersions,
   llmConfigs,
   tools,
+  prompts,
   executions,
   contexts,
   tokenUsage,
+  rateLimitRequests,
+  rateLimitTokens,
+  rateLimitQuotas,
   tasks,
   conversations,
   chatMessages,
   chatAssistantSettings,
   assistantMemory,
   savedCredentials,
+  credentialGrants,
+  authAdmin,
+  authSessions,
+  apiTokens,
   vaultMeta,
   files,
   sandboxes,
@@ -26,6 +34,7 @@ import {
   customFunctions,
   feedback,
   modelPricing,
+  budgets,
   remoteServers,
   improvementJobs,
   techniqueInsights,
@@ -39,11 +48,17 @@ import {
   executionEvents,
   executionRunState,
   workflowQueue,
+  workflowSchedules,
+  workflowTriggers,
+  workflowTriggerEvents,
   conversationLocks,
   messageQueueLog,
   executionLog,
   notifications as notificationsTable,
   evalResults,
+  evalSuites,
+  evalCases,
+  evalRuns,
 } from "@agentron-studio/core";
 import type { WorkflowMessageRow } from "./db-mappers";
 export type {
@@ -53,6 +68,15 @@ export type {
   TaskRow,
   SandboxSiteBinding,
   ModelPricingRow,
+  Budget,
+  BudgetScope,
+  BudgetAction,
+  WorkflowTrigger,
+  WorkflowTriggerType,
+  WorkflowTriggerEvent,
+  EvalRun,
+  EvalRunStatus,
+  EvalCaseResultRow,
   RemoteServer,
 } from "./db-mappers";
 export {
@@ -62,6 +86,8 @@ export {
   fromWorkflowRow,
   toToolRow,
   fromToolRow,
+  toPromptRow,
+  fromPromptRow,
   toLlmConfigRow,
   fromLlmConfigRow,
   fromLlmConfigRowWithSecret,
@@ -87,7 +113,19 @@ export {
   fromFeedbackRow,
   toModelPricingRow,
   fromModelPricingRow,
+  toBudgetRow,
+  fromBudgetRow,
+  toWorkflowTriggerRow,
+  fromWorkflowTriggerRow,
+  fromWorkflowTriggerEventRow,
+  toEvalSuiteRow,
+  fromEvalSuiteRow,
+  toEvalCaseRow,
+  fromEvalCaseRow,
+  fromEvalRunRow,
+  fromEvalResultRow,
   toTokenUsageRow,
+  servedModelFields,
   toRemoteServerRow,
   fromRemoteServerRow,
   toCustomFunctionRow,
@@ -155,14 +193,22 @@ export {
   workflowVersions,
   llmConfigs,
   tools,
+  prompts,
   executions,
   tokenUsage,
+  rateLimitRequests,
+  rateLimitTokens,
+  rateLimitQuotas,
   tasks,
   conversations,
   chatMessages,
   chatAssistantSettings,
   assistantMemory,
   savedCredentials,
+  credentialGrants,
+  authAdmin,
+  authSessions,
+  apiTokens,
   vaultMeta,
   files,
   sandboxes,
@@ -170,6 +216,7 @@ export {
   customFunctions,
   feedback,
   modelPricing,
+  budgets,
   remoteServers,
   improvementJobs,
   techniqueInsights,
@@ -178,12 +225,18 @@ export {
   agentStoreEntries,
   trainingRuns,
   evalResults,
+  evalSuites,
+  evalCases,
+  evalRuns,
   runLogs,
   reminders,
   workflowMessages,
   executionEvents,
   executionRunState,
   workflowQueue,
+  workflowSchedules,
+  workflowTriggers,
+  workflowTriggerEvents,
   conversationLocks,
   messageQueueLog,
   executionLog,
@@ -393,7 +446,7 @@ export const STANDARD_TOOLS: { id: string; name: string; description?: string }[
     id: "apply_agent_prompt_improvement",
     name: "Apply agent prompt improvement",
     description:
-      "Apply suggested prompt changes to an agent (agentId, improvement, optional autoApply).",
+      "Apply suggested prompt changes to an agent (agentId, improvement, optional autoApply; optional evalSuiteId gates it on not regressing).",
   },
   {
     id: "list_agent_versions",
@@ -470,7 +523,7 @@ export const STANDARD_TOOLS: { id: string; name: string; description?: string }[
     id: "evaluate_model",
     name: "Evaluate model",
     description:
-      "Run evaluation for a job (jobId). Returns metrics stub; plug in eval set for real metrics.",
+      "Run the job's eval suite (jobId, optional instanceRef, evalSetRef) and return accuracy and failing cases.",
   },
   {
     id: "decide_optimization_target",
@@ -0,0 +1,647 @@
+/**
+ * Eval suites: golden test sets (input, expected output or rubric, scorer) attached to an agent,
+ * a workflow or an improvement job. Running a suite executes every case through the workflow
+ * engine as a normal run (an executions row per case), scores the output with the runtime scorers
+ * and stores one eval_results row per case under an eval_runs row. An agent is run as a one-node
+ * workflow; an older agent version (agent_versions snapshot), a candidate agent or an improvement
+ * job's student model (instanceRef, an LLM config id) replace the stored agent for that run only.
+ */
+import { and, desc, eq, inArray, type SQL } from "drizzle-orm";
+import {
+  compareEvalRuns,
+  formatWorkflowFieldErrors,
+  scoreEvalOutput,
+  summarizeEvalResults,
+  validateEvalScorer,
+  validateWorkflowInputs,
+  type EvalCaseResult,
+  type EvalComparison,
+  type EvalScore,
+  type EvalScoringDeps,
+} from "@agentron-studio/runtime";
+import type {
+  Agent,
+  EvalCase,
+  EvalScorer,
+  EvalSuite,
+  EvalTargetType,
+  Workflow,
+} from "@agentron-studio/core";
+import { ragCollections, ragEncodingConfigs } from "@agentron-studio/core";
+import {
+  db,
+  agents,
+  agentVersions,
+  workflows,
+  improvementJobs,
+  llmConfigs,
+  executions,
+  evalSuites,
+  evalCases,
+  evalRuns,
+  evalResults,
+  executionOutputSuccess,
+  executionOutputFailure,
+  toExecutionRow,
+  fromAgentRow,
+  fromWorkflowRow,
+  fromLlmConfigRowWithSecret,
+  toEvalSuiteRow,
+  fromEvalSuiteRow,
+  toEvalCaseRow,
+  fromEvalCaseRow,
+  fromEvalRunRow,
+  fromEvalResultRow,
+  type EvalRun,
+  type EvalCaseResultRow,
+} from "./db";
+import { runWorkflow, RUN_CANCELLED_MESSAGE } from "./run-workflow";
+import { createLLMManager } from "./llm-manager";
+import { embed } from "./embeddings";
+import { getDeploymentCollectionId } from "./rag";
+
+export const EVAL_TARGET_TYPES: EvalTargetType[] = ["agent", "workflow", "improvement_job"];
+
+/** Which variant of the target a run evaluates; all unset = the target as stored. */
+export type EvalVariant = {
+  /** Agent version (agent_versions.version) to run instead of the current agent. */
+  agentVersion?: number;
+  /** LLM config id every agent of the run uses instead of its own (a student model). */
+  instanceRef?: string;
+  /** Unsaved agent to run instead of the stored one (e.g. a suggested prompt). */
+  agentOverride?: Agent;
+  label?: string;
+};
+
+export type EvalRunReport = EvalRun & { results: EvalCaseResultRow[] };
+
+export type EvalComparisonReport = EvalComparison & {
+  baselineRun: EvalRun;
+  candidateRun: EvalRun;
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value != null && typeof value === "object" && !Array.isArray(value);
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+/** Builds a suite from a create/update body; existing is the stored suite on update. */
+export function parseEvalSuiteInput(
+  body: Record<string, unknown>,
+  existing?: EvalSuite
+): EvalSuite | { error: string } {
+  const name = body.name !== undefined ? optionalString(body.name) : existing?.name;
+  if (!name) return { error: "name is required" };
+  const targetType = (body.targetType ?? existing?.targetType) as EvalTargetType;
+  if (!EVAL_TARGET_TYPES.includes(targetType)) {
+    return { error: `targetType must be one of: ${EVAL_TARGET_TYPES.join(", ")}` };
+  }
+  const targetId = body.targetId !== undefined ? optionalString(body.targetId) : existing?.targetId;
+  if (!targetId) return { error: "targetId is required" };
+  const description =
+    body.description !== undefined ? optionalString(body.description) : existing?.description;
+  const now = Date.now();
+  return {
+    id: existing?.id ?? crypto.randomUUID(),
+    name,
+    ...(description && { description }),
+    targetType,
+    targetId,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+}
+
+/** Builds the cases of a suite from a request body (cases: [{ name?, input, expected?, scorer }]). */
+export function parseEvalCasesInput(
+  suiteId: string,
+  cases: unknown
+): EvalCase[] | { error: string } {
+  if (!Array.isArray(cases)) return { error: "cases must be an array" };
+  const result: EvalCase[] = [];
+  const now = Date.now();
+  for (const [i, raw] of cases.entries()) {
+    const label = `cases[${i}]`;
+    if (!isRecord(raw)) return { error: `${label} must be an object` };
+    if (raw.input === undefined || raw.input === null || raw.input === "") {
+      return { error: `${label}.input is required` };
+    }
+    if (typeof raw.input !== "string" && !isRecord(raw.input)) {
+      return { error: `${label}.input must be a string or an object` };
+    }
+    if (raw.expected != null && typeof raw.expected !== "string") {
+      return { error: `${label}.expected must be a string` };
+    }
+    const scorer = raw.scorer ?? { type: "exact" };
+    const errors = validateEvalScorer(scorer, `${label}.scorer`);
+    if (errors.length > 0) return { error: errors.join("; ") };
+    const type = (scorer as EvalScorer).type;
+    if ((type === "exact" || type === "similarity") && !optionalString(raw.expected)) {
+      return { error: `${label}.expected is required for the ${type} scorer` };
+    }
+    if (type === "regex" && !(scorer as { pattern?: string }).pattern && !raw.expected) {
+      return { error: `${label} needs scorer.pattern or expected for the regex scorer` };
+    }
+    result.push({
+      id: typeof raw.id === "string" && raw.id ? raw.id : crypto.randomUUID(),
+      suiteId,
+      name: optionalString(raw.name) ?? `Case ${i + 1}`,
+      input: raw.input,
+      ...(typeof raw.expected === "string" && { expected: raw.expected }),
+      scorer: scorer as EvalScorer,
+      // Keeps the given order (cases are listed by createdAt).
+      createdAt: now + i,
+    });
+  }
+  return result;
+}
+
+/** Reads a variant ({ agentVersion?, instanceRef?, label? }) from a request body. */
+export function parseEvalVariant(body: unknown): EvalVariant | { error: string } {
+  if (body == null) return {};
+  if (!isRecord(body)) return { error: "variant must be an object" };
+  const variant: EvalVariant = {};
+  if (body.agentVersion != null) {
+    if (!Number.isInteger(body.agentVersion) || (body.agentVersion as number) < 1) {
+      return { error: "agentVersion must be a positive integer" };
+    }
+    variant.agentVersion = body.agentVersion as number;
+  }
+  const instanceRef = optionalString(body.instanceRef);
+  if (instanceRef) variant.instanceRef = instanceRef;
+  const label = optionalString(body.label);
+  if (label) variant.label = label;
+  return variant;
+}
+
+export async function listEvalSuites(filter?: {
+  targetType?: string;
+  targetId?: string;
+}): Promise<EvalSuite[]> {
+  const conditions: SQL[] = [];
+  if (filter?.targetType) conditions.push(eq(evalSuites.targetType, filter.targetType));
+  if (filter?.targetId) conditions.push(eq(evalSuites.targetId, filter.targetId));
+  const rows = await db
+    .select()
+    .from(evalSuites)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(evalSuites.updatedAt));
+  return rows.map(fromEvalSuiteRow);
+}
+
+export async function getEvalSuite(
+  id: string
+): Promise<{ suite: EvalSuite; cases: EvalCase[] } | null> {
+  const rows = await db.select().from(evalSuites).where(eq(evalSuites.id, id));
+  if (rows.length === 0) return null;
+  const caseRows = await db
+    .select()
+    .from(evalCases)
+    .where(eq(evalCases.suiteId, id))
+    .orderBy(evalCases.createdAt);
+  return { suite: fromEvalSuiteRow(rows[0]), cases: caseRows.map(fromEvalCaseRow) };
+}
+
+/** Inserts or updates a suite; when cases is given it replaces the suite's cases. */
+export async function saveEvalSuite(suite: EvalSuite, cases?: EvalCase[]): Promise<void> {
+  const row = toEvalSuiteRow(suite);
+  await db
+    .insert(evalSuites)
+    .values(row)
+    .onConflictDoUpdate({ target: evalSuites.id, set: row })
+    .run();
+  if (cases) {
+    await db.delete(evalCases).where(eq(evalCases.suiteId, suite.id)).run();
+    for (const c of cases) await db.insert(evalCases).values(toEvalCaseRow(c)).run();
+  }
+}
+
+/** Deletes a suite with its cases, runs and per-case results. */
+export async function deleteEvalSuite(id: string): Promise<void> {
+  const runIds = (
+    await db.select({ id: evalRuns.id }).from(evalRuns).where(eq(evalRuns.suiteId, id))
+  ).map((r) => r.id);
+  if (runIds.length > 0) {
+    await db.delete(evalResults).where(inArray(evalResults.evalRunId, runIds)).run();
+  }
+  await db.delete(evalRuns).where(eq(evalRuns.suiteId, id)).run();
+  await db.delete(evalCases).where(eq(evalCases.suiteId, id)).run();
+  await db.delete(evalSuites).where(eq(evalSuites.id, id)).run();
+}
+
+export async function listEvalRuns(suiteId: string): Promise<EvalRun[]> {
+  const rows = await db
+    .select()
+    .from(evalRuns)
+    .where(eq(evalRuns.suiteId, suiteId))
+    .orderBy(desc(evalRuns.createdAt));
+  return rows.map(fromEvalRunRow);
+}
+
+export async function getEvalRun(runId: string): Promise<EvalRunReport | null> {
+  const rows = await db.select().from(evalRuns).where(eq(evalRuns.id, runId));
+  if (rows.length === 0) return null;
+  const resultRows = await db
+    .select()
+    .from(evalResults)
+    .where(eq(evalResults.evalRunId, runId))
+    .orderBy(evalResults.createdAt);
+  return { ...fromEvalRunRow(rows[0]), results: resultRows.map(fromEvalResultRow) };
+}
+
+/** Agent with every LLM reference pointed at llmConfigId (default config and graph nodes). */
+function withLlmConfig(agent: Agent, llmConfigId: string): Agent {
+  const definition = (agent as Agent & { definition?: Record<string, unknown> }).definition ?? {};
+  const graph = isRecord(definition.graph) ? definition.graph : {};
+  const nodes = Array.isArray(graph.nodes)
+    ? (graph.nodes as { parameters?: Record<string, unknown> }[]).map((n) =>
+        n.parameters?.llmConfigId ? { ...n, parameters: { ...n.parameters, llmConfigId } } : n
+      )
+    : graph.nodes;
+  return {
+    ...agent,
+    definition: {
+      ...definition,
+      defaultLlmConfigId: llmConfigId,
+      ...(definition.graph !== undefined && { graph: { ...graph, nodes } }),
+    },
+  } as Agent;
+}
+
+async function loadAgent(agentId: string, version?: number): Promise<Agent> {
+  if (version == null) {
+    const rows = await db.select().from(agents).where(eq(agents.id, agentId));
+    if (rows.length === 0) throw new Error(`Agent not found: ${agentId}`);
+    return fromAgentRow(rows[0]) as Agent;
+  }
+  const rows = await db
+    .select()
+    .from(agentVersions)
+    .where(and(eq(agentVersions.agentId, agentId), eq(agentVersions.version, version)));
+  if (rows.length === 0) throw new Error(`Agent ${agentId} has no version ${version}`);
+  try {
+    return fromAgentRow(JSON.parse(rows[0].snapshot) as typeof agents.$inferSelect) as Agent;
+  } catch {
+    throw new Error(`Agent ${agentId} version ${version} has an invalid snapshot`);
+  }
+}
+
+type EvalTarget = {
+  workflowId: string;
+  workflow?: Workflow;
+  agentOverrides: Record<string, Agent>;
+  execution: { targetType: "agent" | "workflow"; targetId: string };
+};
+
+/** Resolves what a run executes: a one-node workflow for an agent, or the stored workflow. */
+async function resolveEvalTarget(
+  suite: EvalSuite,
+  variant: EvalVariant
+): Promise<EvalTarget & { instanceRef?: string }> {
+  let targetType: "agent" | "workflow";
+  let targetId: string;
+  let instanceRef = variant.instanceRef;
+  if (suite.targetType === "improvement_job") {
+    const rows = await db
+      .select()
+      .from(improvementJobs)
+      .where(eq(improvementJobs.id, suite.targetId));
+    if (rows.length === 0) throw new Error("Improvement job not found");
+    const job = rows[0];
+    if ((job.scopeType !== "agent" && job.scopeType !== "workflow") || !job.scopeId) {
+      throw new Error("Improvement job has no agent or workflow scope to evaluate");
+    }
+    targetType = job.scopeType;
+    targetId = job.scopeId;
+    instanceRef ??= job.currentModelRef ?? job.studentLlmConfigId ?? undefined;
+  } else {
+    targetType = suite.targetType;
+    targetId = suite.targetId;
+  }
+  if (instanceRef) {
+    const configRows = await db
+      .select({ id: llmConfigs.id })
+      .from(llmConfigs)
+      .where(eq(llmConfigs.id, instanceRef));
+    if (configRows.length === 0) throw new Error(`LLM config not found: ${instanceRef}`);
+  }
+
+  const agentOverrides: Record<string, Agent> = {};
+  if (targetType === "agent") {
+    let agent = variant.agentOverride ?? (await loadAgent(targetId, variant.agentVersion));
+    if (instanceRef) agent = withLlmConfig(agent, instanceRef);
+    agentOverrides[targetId] = agent;
+    const workflow: Workflow = {
+      id: `eval-${suite.id}`,
+      name: `Eval: ${suite.name}`,
+      executionMode: "one_time",
+      nodes: [{ id: "agent", type: "agent", position: [0, 0], parameters: { agentId: targetId } }],
+      edges: [],
+    };
+    return {
+      workflowId: workflow.id,
+      workflow,
+      agentOverrides,
+      execution: { targetType: "agent", targetId },
+      instanceRef,
+    };
+  }
+
+  if (variant.agentVersion != null || variant.agentOverride) {
+    throw new Error("agentVersion and agentOverride only apply to agent suites");
+  }
+  const rows = await db.select().from(workflows).where(eq(workflows.id, targetId));
+  if (rows.length === 0) throw new Error("Workflow not found");
+  const workflow = fromWorkflowRow(rows[0]) as Workflow;
+  if (instanceRef) {
+    const agentIds = new Set(
+      (workflow.nodes ?? [])
+        .filter((n) => n.type === "agent" && typeof n.parameters?.agentId === "string")
+        .map((n) => n.parameters!.agentId as string)
+    );
+    for (const agentId of agentIds) {
+      agentOverrides[agentId] = withLlmConfig(await loadAgent(agentId), instanceRef);
+    }
+  }
+  return {
+    workflowId: targetId,
+    agentOverrides,
+    execution: { targetType: "workflow", targetId },
+    instanceRef,
+  };
+}
+
+/** Embedding and judge calls for the similarity and llm_judge scorers. */
+function scoringDeps(executionId: string): EvalScoringDeps {
+  const manager = createLLMManager();
+  return {
+    embed: async (texts, encodingConfigId) => {
+      let id = encodingConfigId;
+      if (!id) {
+        const collectionId = await getDeploymentCollectionId();
+        const collections = collectionId
+          ? await db
+              .select({ encodingConfigId: ragCollections.encodingConfigId })
+              .from(ragCollections)
+              .where(eq(ragCollections.id, collectionId))
+          : [];
+        id = collections[0]?.encodingConfigId;
+      }
+      if (!id) {
+        const configs = await db.select({ id: ragEncodingConfigs.id }).from(ragEncodingConfigs);
+        id = configs[0]?.id;
+      }
+      if (!id) throw new Error("No encoding config for similarity scoring");
+      return embed(id, texts);
+    },
+    callLLM: async ({ llmConfigId, ...req }) => {
+      const rows = llmConfigId
+        ? await db.select().from(llmConfigs).where(eq(llmConfigs.id, llmConfigId))
+        : await db.select().from(llmConfigs).limit(1);
+      if (rows.length === 0) {
+        throw new Error(
+          llmConfigId ? `LLM config not found: ${llmConfigId}` : "No LLM provider configured"
+        );
+      }
+      return manager.chat(fromLlmConfigRowWithSecret(rows[0]), req, {
+        source: "workflow",
+        executionId,
+      });
+    },
+  };
+}
+
+/** Run inputs of a case: objects as-is, a string as { input }. */
+function caseRunInputs(input: unknown): Record<string, unknown> {
+  return isRecord(input) ? input : { input: String(input ?? "") };
+}
+
+/** Runs one case as a normal run and returns its output (throws when the run fails). */
+async function runEvalCase(
+  target: EvalTarget,
+  evalCase: EvalCase,
+  executionId: string,
+  vaultKey?: Buffer | null
+): Promise<unknown> {
+  let runInputs = caseRunInputs(evalCase.input);
+  if (target.workflow === undefined) {
+    const rows = await db.select().from(workflows).where(eq(workflows.id, target.workflowId));
+    const schema = rows.length > 0 ? fromWorkflowRow(rows[0]).inputSchema : undefined;
+    const checked = validateWorkflowInputs(schema, runInputs);
+    if (checked.errors.length > 0) {
+      throw new Error(`Invalid inputs: ${formatWorkflowFieldErrors(checked.errors)}`);
+    }
+    runInputs = checked.inputs;
+  }
+  await db
+    .insert(executions)
+    .values(toExecutionRow({ id: executionId, ...target.execution, status: "running" }))
+    .run();
+  try {
+    const { output, context, trail } = await runWorkflow({
+      workflowId: target.workflowId,
+      runId: executionId,
+      runInputs,
+      vaultKey: vaultKey ?? undefined,
+      ...(target.workflow && { workflow: target.workflow }),
+      ...(Object.keys(target.agentOverrides).length > 0 && {
+        agentOverrides: target.agentOverrides,
+      }),
+      isCancelled: async () => {
+        const rows = await db
+          .select({ status: executions.status })
+          .from(executions)
+          .where(eq(executions.id, executionId));
+        return rows[0]?.status === "cancelled";
+      },
+    });
+    await db
+      .update(executions)
+      .set({
+        status: "completed",
+        finishedAt: Date.now(),
+        output: JSON.stringify(executionOutputSuccess(output ?? context, trail)),
+      })
+      .where(eq(executions.id, executionId))
+      .run();
+    return output;
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    await db
+      .update(executions)
+      .set({
+        status: message === RUN_CANCELLED_MESSAGE ? "cancelled" : "failed",
+        finishedAt: Date.now(),
+        output: JSON.stringify(executionOutputFailure(message)),
+      })
+      .where(eq(executions.id, executionId))
+      .run();
+    throw err;
+  }
+}
+
+/**
+ * Runs every case of a suite against a variant of its target and stores the run with one
+ * eval_results row per case. A case whose run or scoring fails is recorded with its error and
+ * scores 0; the run itself only fails when the target cannot be resolved.
+ */
+export async function runEvalSuite(
+  suiteId: string,
+  variant: EvalVariant = {},
+  opts?: { jobId?: string; vaultKey?: Buffer | null }
+): Promise<EvalRunReport> {
+  const loaded = await getEvalSuite(suiteId);
+  if (!loaded) throw new Error("Eval suite not found");
+  const { suite, cases } = loaded;
+  const runId = crypto.randomUUID();
+  await db
+    .insert(evalRuns)
+    .values({
+      id: runId,
+      suiteId,
+      targetType: suite.targetType,
+      targetId: suite.targetId,
+      agentVersion: variant.agentVersion ?? null,
+      instanceRef: variant.instanceRef ?? null,
+      label: variant.label ?? null,
+      status: "running",
+      caseCount: cases.length,
+      passedCount: 0,
+      meanScore: null,
+      error: null,
+      createdAt: Date.now(),
+      finishedAt: null,
+    })
+    .run();
+
+  let target: EvalTarget & { instanceRef?: string };
+  try {
+    target = await resolveEvalTarget(suite, variant);
+  } catch (err) {
+    await db
+      .update(evalRuns)
+      .set({
+        status: "failed",
+        error: err instanceof Error ? err.message : String(err),
+        finishedAt: Date.now(),
+      })
+      .where(eq(evalRuns.id, runId))
+      .run();
+    return (await getEvalRun(runId))!;
+  }
+  if (target.instanceRef && !variant.instanceRef) {
+    await db
+      .update(evalRuns)
+      .set({ instanceRef: target.instanceRef })
+      .where(eq(evalRuns.id, runId))
+      .run();
+  }
+
+  const scored: EvalCaseResult[] = [];
+  for (const evalCase of cases) {
+    const executionId = crypto.randomUUID();
+    let output: unknown;
+    let result: EvalScore | undefined;
+    let error: string | undefined;
+    try {
+      output = await runEvalCase(target, evalCase, executionId, opts?.vaultKey);
+      result = await scoreEvalOutput(output, evalCase, scoringDeps(executionId));
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+    const score = result?.score ?? 0;
+    const passed = result?.passed === true;
+    scored.push({ caseId: evalCase.id, name: evalCase.name, score, passed, error });
+    await db
+      .insert(evalResults)
+      .values({
+        id: crypto.randomUUID(),
+        jobId: opts?.jobId ?? (suite.targetType === "improvement_job" ? suite.targetId : ""),
+        trainingRunId: null,
+        instanceRef: target.instanceRef ?? null,
+        evalSetRef: suiteId,
+        metrics: JSON.stringify({
+          scorer: evalCase.scorer.type,
+          score,
+          passed,
+          ...(result?.detail && { detail: result.detail }),
+        }),
+        evalRunId: runId,
+        caseId: evalCase.id,
+        executionId,
+        score: String(score),
+        passed: passed ? 1 : 0,
+        output: output === undefined ? null : JSON.stringify(output),
+        error: error ?? null,
+        createdAt: Date.now(),
+      })
+      .run();
+  }
+
+  const summary = summarizeEvalResults(scored);
+  await db
+    .update(evalRuns)
+    .set({
+      status: "completed",
+      passedCount: summary.passedCount,
+      meanScore: String(summary.meanScore),
+      finishedAt: Date.now(),
+    })
+    .where(eq(evalRuns.id, runId))
+    .run();
+  return (await getEvalRun(runId))!;
+}
+
+function caseResults(run: EvalRunReport, cases?: EvalCase[]): EvalCaseResult[] {
+  const names = new Map(cases?.map((c) => [c.id, c.name]));
+  return run.results.map((r) => ({
+    caseId: r.caseId,
+    ...(names.get(r.caseId) && { name: names.get(r.caseId) }),
+    score: r.score,
+    passed: r.passed,
+    error: r.error,
+  }));
+}
+
+/** Side-by-side report of two stored runs of the same suite. */
+export async function compareEvalRunReports(
+  baseline: EvalRunReport,
+  candidate: EvalRunReport
+): Promise<EvalComparisonReport> {
+  if (baseline.suiteId !== candidate.suiteId) {
+    throw new Error("Runs belong to different eval suites");
+  }
+  for (const run of [baseline, candidate]) {
+    if (run.status !== "completed") {
+      throw new Error(
+        `Eval run ${run.label ?? run.id} ${run.status}: ${run.error ?? "no results"}`
+      );
+    }
+  }
+  const cases = (await getEvalSuite(baseline.suiteId))?.cases;
+  const { results: _b, ...baselineRun } = baseline;
+  const { results: _c, ...candidateRun } = candidate;
+  return {
+    ...compareEvalRuns(caseResults(baseline, cases), caseResults(candidate, cases)),
+    baselineRun,
+    candidateRun,
+  };
+}
+
+/**
+ * Runs a suite for two variants (e.g. two agent versions, or the current agent and a candidate
+ * prompt) and compares them case by case. regressed is true when the candidate is worse.
+ */
+export async function compareEvalVariants(
+  suiteId: string,
+  baseline: EvalVariant,
+  candidate: EvalVariant,
+  opts?: { jobId?: string; vaultKey?: Buffer | null }
+): Promise<EvalComparisonReport> {
+  const baselineRun = await runEvalSuite(suiteId, { label: "baseline", ...baseline }, opts);
+  const candidateRun = await runEvalSuite(suiteId, { label: "candidate", ...candidate }, opts);
+  return compareEvalRunReports(baselineRun, candidateRun);
+}
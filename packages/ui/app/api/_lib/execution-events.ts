@@ -212,7 +212,7 @@ export async function updateExecutionRunState(
     currentNodeId: string | null;
     round: number;
     sharedContext: Record<string, unknown> | string;
-    status: "running" | "waiting_for_user" | "completed" | "failed";
+    status: "running" | "waiting_for_user" | "completed" | "failed" | "paused";
     waitingAtNodeId: string | null;
     trailSnapshot: unknown[] | string | null;
   }>
@@ -0,0 +1,353 @@
+/**
+ * Guardrail engine: checks tool calls against the guardrails stored in the `guardrails` table
+ * (deployment scope plus the agent and workflow the call runs for) before the tool executes.
+ * Blocked calls get a structured refusal instead of a result and are written to execution_log
+ * (phase "guardrail_block") so stopped calls can be audited.
+ */
+import { db, guardrails } from "./db";
+import { appendExecutionLogStep } from "./execution-log";
+
+export type GuardrailScope = "deployment" | "agent" | "workflow";
+
+export const GUARDRAIL_SCOPES: GuardrailScope[] = ["deployment", "agent", "workflow"];
+
+/** Guardrail config as stored in guardrails.config (JSON). All rules are optional. */
+export type GuardrailConfig = {
+  /** When non-empty, URLs must be on one of these hosts (subdomains match; "*.x.com" accepted). */
+  allowedDomains?: string[];
+  deniedDomains?: string[];
+  /** When non-empty, commands and code must match one of these regexes. */
+  allowedCommandPatterns?: string[];
+  /** Commands or code matching any of these regexes are blocked. */
+  deniedCommandPatterns?: string[];
+  /** Max size of the serialized tool arguments in bytes. */
+  maxPayloadBytes?: number;
+  /** Block arguments containing emails, card numbers, SSNs or IBANs. */
+  blockPii?: boolean;
+  /** Block arguments containing API keys, tokens or private keys. */
+  blockSecrets?: boolean;
+  /** Extra regexes; arguments matching any of them are blocked. */
+  deniedPatterns?: string[];
+  /** Tool names the guardrail applies to (chat names or std-* ids); default all checked tools. */
+  tools?: string[];
+  /** Stored for prompt-injection handling of fetched content; not enforced on calls. */
+  sanitize?: boolean;
+  segment?: boolean;
+  maxRequests?: number;
+};
+
+export type GuardrailRecord = {
+  id: string;
+  scope: GuardrailScope;
+  scopeId: string | null;
+  config: GuardrailConfig;
+};
+
+export type GuardrailRule =
+  | "domain_denied"
+  | "domain_not_allowed"
+  | "command_denied"
+  | "command_not_allowed"
+  | "payload_too_large"
+  | "pii"
+  | "secret"
+  | "pattern_denied";
+
+export type GuardrailViolation = {
+  guardrailId: string;
+  scope: GuardrailScope;
+  rule: GuardrailRule;
+  reason: string;
+};
+
+/** What a blocked tool call returns instead of the tool result. */
+export type GuardrailRefusal = {
+  error: string;
+  blocked: true;
+  toolName: string;
+  guardrail: { id: string; scope: GuardrailScope; rule: GuardrailRule };
+  reason: string;
+};
+
+/** Tools guardrails are enforced on, by kind (chat assistant names and workflow std-* ids). */
+const URL_TOOLS = new Set([
+  "fetch_url",
+  "std-fetch-url",
+  "std-browser",
+  "std-browser-automation",
+  "std-http-request",
+  "std-webhook",
+  "http_request",
+]);
+const COMMAND_TOOLS = new Set([
+  "run_shell_command",
+  "execute_code",
+  "run_container_command",
+  "std-execute-code",
+  "std-run-code",
+  "std-container-run",
+  "std-container-session",
+]);
+const SEARCH_TOOLS = new Set(["web_search", "std-web-search"]);
+
+const PII_PATTERNS: { name: string; re: RegExp }[] = [
+  { name: "email address", re: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/ },
+  { name: "US social security number", re: /\b\d{3}-\d{2}-\d{4}\b/ },
+  { name: "payment card number", re: /\b(?:\d[ -]?){13,19}\b/ },
+  { name: "IBAN", re: /\b[A-Z]{2}\d{2}[A-Z0-9]{11,30}\b/ },
+];
+
+const SECRET_PATTERNS: { name: string; re: RegExp }[] = [
+  { name: "private key", re: /-----BEGIN [A-Z ]*PRIVATE KEY-----/ },
+  { name: "AWS access key", re: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/ },
+  { name: "GitHub token", re: /\bgh[pousr]_[A-Za-z0-9]{30,}\b/ },
+  { name: "Slack token", re: /\bxox[abposr]-[A-Za-z0-9-]{10,}/ },
+  { name: "API key", re: /\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}/ },
+  { name: "bearer token", re: /\bBearer\s+[A-Za-z0-9._~+/-]{20,}=*/ },
+];
+
+function parseConfig(raw: unknown): GuardrailConfig {
+  if (raw != null && typeof raw === "object") return raw as GuardrailConfig;
+  if (typeof raw !== "string") return {};
+  try {
+    const parsed = JSON.parse(raw || "{}");
+    return parsed != null && typeof parsed === "object" ? (parsed as GuardrailConfig) : {};
+  } catch {
+    return {};
+  }
+}
+
+function stringList(v: unknown): string[] {
+  return Array.isArray(v)
+    ? v.filter((x): x is string => typeof x === "string" && x.trim() !== "").map((x) => x.trim())
+    : [];
+}
+
+/** Returns config errors (bad regexes, wrong types) so invalid guardrails are not stored. */
+export function validateGuardrailConfig(config: unknown): string[] {
+  if (config == null || typeof config !== "object" || Array.isArray(config)) {
+    return ["config must be an object"];
+  }
+  const c = config as Record<string, unknown>;
+  const errors: string[] = [];
+  for (const key of [
+    "allowedDomains",
+    "deniedDomains",
+    "allowedCommandPatterns",
+    "deniedCommandPatterns",
+    "deniedPatterns",
+    "tools",
+  ]) {
+    const value = c[key];
+    if (value === undefined) continue;
+    if (!Array.isArray(value)) errors.push(`${key} must be an array`);
+    else if (value.some((v) => typeof v !== "string" || v.trim() === "")) {
+      errors.push(`${key} must contain only non-empty strings`);
+    }
+  }
+  for (const key of ["allowedCommandPatterns", "deniedCommandPatterns", "deniedPatterns"]) {
+    for (const pattern of stringList(c[key])) {
+      try {
+        new RegExp(pattern);
+      } catch {
+        errors.push(`${key}: invalid regular expression ${pattern}`);
+      }
+    }
+  }
+  if (
+    c.maxPayloadBytes !== undefined &&
+    (typeof c.maxPayloadBytes !== "number" || c.maxPayloadBytes <= 0)
+  ) {
+    errors.push("maxPayloadBytes must be a positive number");
+  }
+  return errors;
+}
+
+function hostMatches(host: string, entry: string): boolean {
+  const domain = entry.toLowerCase().replace(/^\*\./, "").replace(/^\./, "");
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+/** URLs in tool arguments: url, urls[] and baseUrl. */
+function collectUrls(args: Record<string, unknown>): string[] {
+  const urls = [...stringList(args.urls)];
+  for (const key of ["url", "baseUrl"]) {
+    if (typeof args[key] === "string" && args[key]) urls.push((args[key] as string).trim());
+  }
+  return urls;
+}
+
+/** Command or code text in tool arguments. */
+function collectCommands(args: Record<string, unknown>): string[] {
+  const out: string[] = [];
+  for (const key of ["command", "code", "script"]) {
+    const v = args[key];
+    if (typeof v === "string" && v.trim()) out.push(v);
+    else if (Array.isArray(v)) out.push(v.map(String).join(" "));
+  }
+  return out;
+}
+
+/** True when the tool is one the guardrail engine checks. */
+export function isGuardedTool(toolName: string): boolean {
+  return URL_TOOLS.has(toolName) || COMMAND_TOOLS.has(toolName) || SEARCH_TOOLS.has(toolName);
+}
+
+/** Checks one guardrail against a tool call; returns the first violation or null. */
+function checkGuardrail(
+  guardrail: GuardrailRecord,
+  toolName: string,
+  args: Record<string, unknown>,
+  payload: string
+): GuardrailViolation | null {
+  const c = guardrail.config;
+  const tools = stringList(c.tools);
+  if (tools.length > 0 && !tools.includes(toolName)) return null;
+  const violation = (rule: GuardrailRule, reason: string): GuardrailViolation => ({
+    guardrailId: guardrail.id,
+    scope: guardrail.scope,
+    rule,
+    reason,
+  });
+
+  if (URL_TOOLS.has(toolName) || collectUrls(args).length > 0) {
+    const allowed = stringList(c.allowedDomains);
+    const denied = stringList(c.deniedDomains);
+    for (const url of collectUrls(args)) {
+      let host: string;
+      try {
+        host = new URL(url).hostname.toLowerCase();
+      } catch {
+        if (allowed.length > 0) return violation("domain_not_allowed", `Invalid URL: ${url}`);
+        continue;
+      }
+      const deniedEntry = denied.find((d) => hostMatches(host, d));
+      if (deniedEntry) return violation("domain_denied", `Domain ${host} is denied`);
+      if (allowed.length > 0 && !allowed.some((d) => hostMatches(host, d))) {
+        return violation("domain_not_allowed", `Domain ${host} is not in the allowed domains`);
+      }
+    }
+  }
+
+  if (COMMAND_TOOLS.has(toolName)) {
+    const allowedPatterns = stringList(c.allowedCommandPatterns);
+    const deniedPatterns = stringList(c.deniedCommandPatterns);
+    for (const command of collectCommands(args)) {
+      const denied = deniedPatterns.find((p) => new RegExp(p).test(command));
+      if (denied) return violation("command_denied", `Command matches denied pattern ${denied}`);
+      if (allowedPatterns.length > 0 && !allowedPatterns.some((p) => new RegExp(p).test(command))) {
+        return violation("command_not_allowed", "Command does not match any allowed pattern");
+      }
+    }
+  }
+
+  if (typeof c.maxPayloadBytes === "number" && c.maxPayloadBytes > 0) {
+    const size = Buffer.byteLength(payload, "utf8");
+    if (size > c.maxPayloadBytes) {
+      return violation(
+        "payload_too_large",
+        `Tool arguments are ${size} bytes; the limit is ${c.maxPayloadBytes}`
+      );
+    }
+  }
+  if (c.blockSecrets) {
+    const hit = SECRET_PATTERNS.find((p) => p.re.test(payload));
+    if (hit) return violation("secret", `Tool arguments contain a secret (${hit.name})`);
+  }
+  if (c.blockPii) {
+    const hit = PII_PATTERNS.find((p) => p.re.test(payload));
+    if (hit) return violation("pii", `Tool arguments contain personal data (${hit.name})`);
+  }
+  const deniedPattern = stringList(c.deniedPatterns).find((p) => new RegExp(p).test(payload));
+  if (deniedPattern) {
+    return violation("pattern_denied", `Tool arguments match denied pattern ${deniedPattern}`);
+  }
+  return null;
+}
+
+/**
+ * Evaluates a tool call against guardrails (most specific scope first: agent, workflow,
+ * deployment). Returns the first violation, or null when the call is allowed. Tools that are
+ * not guarded (e.g. list or CRUD tools) are always allowed.
+ */
+export function evaluateGuardrails(
+  toolName: string,
+  args: unknown,
+  records: GuardrailRecord[]
+): GuardrailViolation | null {
+  if (!isGuardedTool(toolName) || records.length === 0) return null;
+  const a =
+    args != null && typeof args === "object" && !Array.isArray(args)
+      ? (args as Record<string, unknown>)
+      : {};
+  const { _workflowContext: _ctx, ...callArgs } = a;
+  const payload = JSON.stringify(callArgs);
+  const order: Record<GuardrailScope, number> = { agent: 0, workflow: 1, deployment: 2 };
+  const sorted = [...records].sort((x, y) => order[x.scope] - order[y.scope]);
+  for (const g of sorted) {
+    const v = checkGuardrail(g, toolName, callArgs, payload);
+    if (v) return v;
+  }
+  return null;
+}
+
+/** Loads guardrails that apply to a call: deployment-wide plus the given agent and workflow. */
+export async function loadGuardrails(target: {
+  agentId?: string;
+  workflowId?: string;
+}): Promise<GuardrailRecord[]> {
+  const rows = await db.select().from(guardrails);
+  return rows
+    .filter(
+      (r) =>
+        r.scope === "deployment" ||
+        (r.scope === "agent" && !!target.agentId && r.scopeId === target.agentId) ||
+        (r.scope === "workflow" && !!target.workflowId && r.scopeId === target.workflowId)
+    )
+    .map((r) => ({
+      id: r.id,
+      scope: r.scope as GuardrailScope,
+      scopeId: r.scopeId ?? null,
+      config: parseConfig(r.config),
+    }));
+}
+
+/**
+ * Checks a tool call before it runs. Returns null when allowed; otherwise a refusal to return as
+ * the tool result. Blocked calls are logged to execution_log under `executionId` (the workflow
+ * run id, or the conversation id for chat).
+ */
+export async function enforceToolGuardrails(
+  toolName: string,
+  args: unknown,
+  target: { agentId?: string; workflowId?: string; executionId?: string }
+): Promise<GuardrailRefusal | null> {
+  if (!isGuardedTool(toolName)) return null;
+  const violation = evaluateGuardrails(toolName, args, await loadGuardrails(target));
+  if (!violation) return null;
+  if (target.executionId) {
+    const a = args != null && typeof args === "object" ? (args as Record<string, unknown>) : {};
+    // Do not copy PII or secrets into the audit log; URL and command are enough to review.
+    const revealsTarget = violation.rule !== "pii" && violation.rule !== "secret";
+    await appendExecutionLogStep(target.executionId, "guardrail_block", toolName, {
+      toolName,
+      guardrailId: violation.guardrailId,
+      scope: violation.scope,
+      rule: violation.rule,
+      reason: violation.reason,
+      agentId: target.agentId,
+      workflowId: target.workflowId,
+      ...(revealsTarget && {
+        url: collectUrls(a)[0]?.slice(0, 500),
+        command: collectCommands(a)[0]?.slice(0, 500),
+      }),
+    }).catch(() => {});
+  }
+  return {
+    error: `Blocked by guardrail: ${violation.reason}`,
+    blocked: true,
+    toolName,
+    guardrail: { id: violation.guardrailId, scope: violation.scope, rule: violation.rule },
+    reason: violation.reason,
+  };
+}
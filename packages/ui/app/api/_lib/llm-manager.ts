@@ -0,0 +1,28 @@
+/**
+ * LLM manager for API routes: API key refs resolve to environment variables, fallback configs
+ * (extra.fallbackLlmConfigIds) load from the llm_configs table and rate limits are kept in SQLite.
+ */
+import { eq } from "drizzle-orm";
+import { createDefaultLLMManager } from "@agentron-studio/runtime";
+import { db, llmConfigs, fromLlmConfigRowWithSecret } from "./db";
+import { sqliteRateLimitStore } from "./rate-limit-store";
+
+/** LLM config with its stored API key, or undefined when the id is unknown. */
+export async function loadLlmConfigWithSecret(id: string) {
+  const rows = await db.select().from(llmConfigs).where(eq(llmConfigs.id, id));
+  return rows.length > 0 ? fromLlmConfigRowWithSecret(rows[0]) : undefined;
+}
+
+/** Ids of all LLM configs (save-time checks of references such as llm_judge edge conditions). */
+export async function loadLlmConfigIds(): Promise<Set<string>> {
+  const rows = await db.select({ id: llmConfigs.id }).from(llmConfigs);
+  return new Set(rows.map((r) => r.id));
+}
+
+export function createLLMManager() {
+  return createDefaultLLMManager(
+    async (ref) => (ref ? process.env[ref] : undefined),
+    loadLlmConfigWithSecret,
+    sqliteRateLimitStore
+  );
+}
@@ -0,0 +1,85 @@
+/**
+ * Importing the prompts of an MCP server as prompt templates. A remote prompt is rendered once
+ * with "{{arg}}" placeholders as its arguments, so the stored template fills in the same
+ * arguments when a prompt node renders it.
+ */
+import { eq, inArray } from "drizzle-orm";
+import type { PromptTemplate } from "@agentron-studio/core";
+import { getMCPClient, type MCPPromptInfo, type MCPServerConfig } from "@agentron-studio/runtime";
+import { db, prompts as promptsTable, toPromptRow } from "./db";
+import { mcpToolId, mcpToolIds } from "./mcp-tools";
+
+/** Lists the server's prompts with their arguments (none when the server has no prompts). */
+export async function discoverMcpPrompts(server: MCPServerConfig): Promise<MCPPromptInfo[]> {
+  return getMCPClient(server).listPrompts();
+}
+
+/** Prompt template of a remote prompt; id mcp-<server>-<prompt> like imported tools. */
+export async function mcpPromptTemplate(
+  serverName: string,
+  server: MCPServerConfig,
+  prompt: MCPPromptInfo,
+  id = mcpToolId(serverName, prompt.name)
+): Promise<PromptTemplate> {
+  const placeholders = Object.fromEntries(
+    (prompt.arguments ?? []).map((arg) => [arg.name, `{{${arg.name}}}`])
+  );
+  const rendered = await getMCPClient(server).getPrompt(prompt.name, placeholders);
+  return {
+    id,
+    name: `${serverName}: ${prompt.title ?? prompt.name}`,
+    ...((prompt.description ?? rendered.description) && {
+      description: prompt.description ?? rendered.description,
+    }),
+    ...(prompt.arguments?.length && { arguments: prompt.arguments }),
+    template: rendered.messages.map((m) => m.text).join("\n\n"),
+  };
+}
+
+/**
+ * Stores every prompt of the server as a prompt template. Re-importing updates them in place.
+ * A prompt the server fails to render (e.g. it rejects the placeholder arguments) is skipped.
+ */
+export async function importMcpPrompts(
+  serverName: string,
+  server: MCPServerConfig,
+  prompts: MCPPromptInfo[]
+): Promise<{ imported: PromptTemplate[]; skipped: { name: string; error: string }[] }> {
+  const imported: PromptTemplate[] = [];
+  const skipped: { name: string; error: string }[] = [];
+  const ids = mcpToolIds(
+    serverName,
+    prompts.map((p) => p.name)
+  );
+  for (const [i, prompt] of prompts.entries()) {
+    try {
+      imported.push(await mcpPromptTemplate(serverName, server, prompt, ids[i]));
+    } catch (err) {
+      skipped.push({ name: prompt.name, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+  if (imported.length === 0) return { imported, skipped };
+  const existing = new Set(
+    (
+      await db
+        .select({ id: promptsTable.id })
+        .from(promptsTable)
+        .where(
+          inArray(
+            promptsTable.id,
+            imported.map((p) => p.id)
+          )
+        )
+    ).map((r) => r.id)
+  );
+  for (const template of imported) {
+    const row = toPromptRow(template);
+    if (existing.has(template.id)) {
+      const { id: _id, ...rest } = row;
+      await db.update(promptsTable).set(rest).where(eq(promptsTable.id, template.id)).run();
+    } else {
+      await db.insert(promptsTable).values(row).run();
+    }
+  }
+  return { imported, skipped };
+}
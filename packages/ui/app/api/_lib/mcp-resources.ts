@@ -0,0 +1,62 @@
+/**
+ * Remote MCP resources as agent context: an agent's definition.mcpResources lists resources
+ * ({ server, uri }) that are read at each turn and put in the prompt before the partner message.
+ */
+import {
+  getMCPClient,
+  type MCPResourceContent,
+  type MCPServerConfig,
+} from "@agentron-studio/runtime";
+import { parseMcpServer } from "./mcp-tools";
+
+export type McpResourceRef = { server: MCPServerConfig; uri: string };
+
+/** Characters of one resource kept in the prompt. */
+const RESOURCE_CONTEXT_MAX_CHARS = 8000;
+
+/** Text of a resource's contents; binary parts are named by their MIME type. */
+export function mcpResourceText(contents: MCPResourceContent[]): string {
+  return contents
+    .map((c) =>
+      c.text != null ? c.text : `[binary ${c.mimeType ?? "application/octet-stream"} ${c.uri}]`
+    )
+    .join("\n\n");
+}
+
+/** Valid resource references of an agent definition (entries without a server or uri are dropped). */
+export function parseMcpResourceRefs(value: unknown): McpResourceRef[] {
+  if (!Array.isArray(value)) return [];
+  const refs: McpResourceRef[] = [];
+  for (const entry of value) {
+    if (!entry || typeof entry !== "object") continue;
+    const { server, uri } = entry as { server?: unknown; uri?: unknown };
+    const parsed = parseMcpServer(server);
+    if ("server" in parsed && typeof uri === "string" && uri.trim()) {
+      refs.push({ server: parsed.server, uri: uri.trim() });
+    }
+  }
+  return refs;
+}
+
+/**
+ * Prompt block with the current contents of the resources. A resource that cannot be read is
+ * listed with its error so the agent knows it is missing.
+ */
+export async function buildMcpResourceContext(refs: McpResourceRef[]): Promise<string> {
+  if (refs.length === 0) return "";
+  const sections = await Promise.all(
+    refs.map(async ({ server, uri }) => {
+      try {
+        const text = mcpResourceText(await getMCPClient(server).readResource(uri));
+        const clipped =
+          text.length > RESOURCE_CONTEXT_MAX_CHARS
+            ? `${text.slice(0, RESOURCE_CONTEXT_MAX_CHARS)}\n[truncated]`
+            : text;
+        return `--- ${uri} ---\n${clipped}`;
+      } catch (err) {
+        return `--- ${uri} ---\n[unavailable: ${err instanceof Error ? err.message : String(err)}]`;
+      }
+    })
+  );
+  return `Attached resources:\n${sections.join("\n\n")}`;
+}
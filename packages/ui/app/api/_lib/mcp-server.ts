@@ -0,0 +1,172 @@
+/**
+ * What the Agentron MCP server (/api/mcp/server) publishes to external MCP clients such as IDEs:
+ * workflows as callable tools, agents and RAG collections/documents as resources, and prompt
+ * templates as prompts. Everything is read from the database on each request.
+ */
+import { ragCollections, ragDocuments, type Workflow } from "@agentron-studio/core";
+import {
+  renderPromptTemplate,
+  type MCPServerCatalog,
+  type MCPServerPrompt,
+  type MCPServerResource,
+  type MCPServerTool,
+} from "@agentron-studio/runtime";
+import {
+  db,
+  agents,
+  workflows,
+  prompts as promptsTable,
+  fromAgentRow,
+  fromWorkflowRow,
+  fromPromptRow,
+} from "./db";
+import { documentSource } from "./rag-citations";
+import { extractText } from "./rag-extract";
+import { readDocumentFile } from "../rag/ingest/route";
+import { executeTool } from "../chat/_lib/execute-tool";
+
+/** Agent node parameters that select the agent rather than feed it. */
+const NODE_SELECTOR_PARAMETERS = new Set(["agentId", "agentName", "autoUseVault"]);
+
+const JSON_SCHEMA_TYPES = new Set(["string", "number", "boolean", "array", "object"]);
+
+function slug(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9_]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+/** MCP names from display names; a name taken by an earlier item gets its id appended. */
+function uniqueNames<T extends { id: string; name: string }>(
+  items: T[],
+  prefix: string
+): Array<T & { mcpName: string }> {
+  const taken = new Set<string>();
+  return items.map((item) => {
+    let mcpName = `${prefix}${slug(item.name) || "unnamed"}`;
+    if (taken.has(mcpName)) mcpName = `${mcpName}_${slug(item.id).slice(0, 8)}`;
+    taken.add(mcpName);
+    return { ...item, mcpName };
+  });
+}
+
+/**
+ * Input schema of a workflow tool: the workflow's declared inputSchema when it has one (runs are
+ * validated against it). Otherwise run inputs are merged into every node's parameters, so the
+ * parameters its agent nodes are configured with (e.g. url, targetUrl) are the inputs a caller
+ * can set; their configured values are the defaults. Other keys are passed through as well.
+ */
+export function workflowInputSchema(workflow: Workflow): Record<string, unknown> {
+  if (workflow.inputSchema) return { ...workflow.inputSchema, type: "object" };
+  const properties: Record<string, Record<string, unknown>> = {};
+  for (const node of workflow.nodes ?? []) {
+    if (node.type !== "agent") continue;
+    for (const [key, value] of Object.entries(node.parameters ?? {})) {
+      if (NODE_SELECTOR_PARAMETERS.has(key) || key in properties || value == null) continue;
+      const type = Array.isArray(value) ? "array" : typeof value;
+      if (!JSON_SCHEMA_TYPES.has(type)) continue;
+      properties[key] = { type, default: value };
+    }
+  }
+  return { type: "object", properties, additionalProperties: true };
+}
+
+async function workflowTools(): Promise<MCPServerTool[]> {
+  const rows = await db.select().from(workflows);
+  const list = uniqueNames(
+    rows.map((row) => fromWorkflowRow(row) as Workflow),
+    "workflow_"
+  );
+  return list.map((workflow) => ({
+    name: workflow.mcpName,
+    title: workflow.name,
+    description:
+      workflow.description ||
+      `Runs the Agentron workflow "${workflow.name}" and returns its output.`,
+    inputSchema: workflowInputSchema(workflow),
+    handler: async (input) => {
+      const inputs =
+        input && typeof input === "object" && Object.keys(input).length > 0 ? input : undefined;
+      const result = (await executeTool("execute_workflow", {
+        workflowId: workflow.id,
+        ...(inputs && { inputs }),
+      })) as { error?: string };
+      if (result && typeof result.error === "string") throw new Error(result.error);
+      return result;
+    },
+  }));
+}
+
+async function agentResources(): Promise<MCPServerResource[]> {
+  const rows = await db.select().from(agents);
+  return rows.map((row) => {
+    const { agentKey: _agentKey, llmConfig: _llmConfig, ...agent } = fromAgentRow(row);
+    return {
+      uri: `agentron://agents/${row.id}`,
+      name: row.name,
+      ...(row.description && { description: row.description }),
+      mimeType: "application/json",
+      read: async () =>
+        JSON.stringify({ ...agent, ragCollectionId: row.ragCollectionId ?? null }, null, 2),
+    };
+  });
+}
+
+async function ragResources(): Promise<MCPServerResource[]> {
+  const collections = await db.select().from(ragCollections);
+  const documents = await db.select().from(ragDocuments);
+  const resources: MCPServerResource[] = [];
+  for (const collection of collections) {
+    const docs = documents.filter((d) => d.collectionId === collection.id);
+    resources.push({
+      uri: `agentron://rag/collections/${collection.id}`,
+      name: collection.name,
+      description: `RAG collection with ${docs.length} document(s)`,
+      mimeType: "application/json",
+      read: async () =>
+        JSON.stringify(
+          {
+            id: collection.id,
+            name: collection.name,
+            documents: docs.map((d) => ({
+              uri: `agentron://rag/documents/${d.id}`,
+              name: documentSource(d).filename,
+            })),
+          },
+          null,
+          2
+        ),
+    });
+    for (const doc of docs) {
+      resources.push({
+        uri: `agentron://rag/documents/${doc.id}`,
+        name: documentSource(doc).filename,
+        description: `Document in the ${collection.name} collection`,
+        mimeType: "text/plain",
+        read: async () => {
+          const buffer = await readDocumentFile(doc, collection.documentStoreId);
+          return doc.mimeType ? extractText(buffer, doc.mimeType) : buffer.toString("utf-8");
+        },
+      });
+    }
+  }
+  return resources;
+}
+
+async function promptTemplates(): Promise<MCPServerPrompt[]> {
+  const rows = await db.select().from(promptsTable);
+  return uniqueNames(rows.map(fromPromptRow), "").map((prompt) => ({
+    name: prompt.mcpName,
+    title: prompt.name,
+    ...(prompt.description && { description: prompt.description }),
+    ...(prompt.arguments?.length && { arguments: prompt.arguments }),
+    render: async (args) => renderPromptTemplate(prompt, { args }),
+  }));
+}
+
+export const agentronMcpCatalog: MCPServerCatalog = {
+  tools: workflowTools,
+  resources: async () => [...(await agentResources()), ...(await ragResources())],
+  prompts: promptTemplates,
+};
@@ -0,0 +1,197 @@
+/**
+ * Registering the tools of an MCP server as studio tools (protocol "mcp"). Each tool keeps the
+ * server config and its name on the server in config, its description in config.description and
+ * its JSON Schemas in inputSchema/outputSchema, so agents see the server's own tool contract.
+ */
+import { createHash } from "node:crypto";
+import { eq, inArray } from "drizzle-orm";
+import type { ToolDefinition } from "@agentron-studio/core";
+import {
+  getMCPClient,
+  mcpServerFromToolConfig,
+  type MCPServerConfig,
+  type MCPToolConfig,
+  type MCPToolInfo,
+} from "@agentron-studio/runtime";
+import { db, tools as toolsTable, fromToolRow, toToolRow } from "./db";
+import { getMcpStdioServers } from "./app-settings";
+
+/** LLM function names allow [a-zA-Z0-9_-] up to 64 characters; tool ids are used as those names. */
+const TOOL_ID_MAX_LENGTH = 64;
+
+function slug(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Server config from a request or stored config: an endpoint URL (Streamable HTTP),
+ * { transport?: "streamable-http" | "sse", url, headers? } or { transport: "stdio", command, args?, env?, cwd? }.
+ */
+export function parseMcpServer(value: unknown): { server: MCPServerConfig } | { error: string } {
+  const raw =
+    typeof value === "string"
+      ? { endpoint: value }
+      : value && typeof value === "object"
+        ? (value as Partial<MCPToolConfig>)
+        : {};
+  const server = mcpServerFromToolConfig(raw);
+  if (!server) {
+    return { error: 'server must be an endpoint URL, { url } or { transport: "stdio", command }' };
+  }
+  if (
+    raw.args !== undefined &&
+    (!Array.isArray(raw.args) || raw.args.some((a) => typeof a !== "string"))
+  ) {
+    return { error: "server.args must be an array of strings" };
+  }
+  return { server };
+}
+
+/** Variables that change which code a process loads; a request may not set them for a server. */
+const LOADER_ENV = /^(LD_|DYLD_)|^(NODE_OPTIONS|NODE_PATH|PYTHONPATH|PYTHONSTARTUP|PATH)$/i;
+
+/** Command line of a stdio server (command and args), as listed in the mcpStdioServers setting. */
+export function mcpCommandLine(server: { command: string; args?: string[] }): string {
+  return [server.command, ...(server.args ?? [])].join(" ").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Null when the server may be started for an API request, else the reason it may not. A stdio
+ * server must be listed in the mcpStdioServers app setting or already be imported as tools, so a
+ * request cannot run an arbitrary command. HTTP servers are not restricted.
+ */
+export async function checkMcpServerAllowed(server: MCPServerConfig): Promise<string | null> {
+  if (server.transport !== "stdio") return null;
+  const loaderEnv = Object.keys(server.env ?? {}).filter((key) => LOADER_ENV.test(key));
+  if (loaderEnv.length > 0) return `server.env may not set ${loaderEnv.join(", ")}`;
+  const commandLine = mcpCommandLine(server);
+  if (getMcpStdioServers().includes(commandLine)) return null;
+  const rows = await db.select().from(toolsTable).where(eq(toolsTable.protocol, "mcp"));
+  const imported = rows.some((row) => {
+    const known = mcpServerFromToolConfig(fromToolRow(row).config as Partial<MCPToolConfig>);
+    return known?.transport === "stdio" && mcpCommandLine(known) === commandLine;
+  });
+  if (imported) return null;
+  return `stdio MCP server "${commandLine}" is not configured; add it to mcpStdioServers in the app settings`;
+}
+
+/** Short name of a server: the package or script it runs (stdio), else the URL host. */
+export function defaultMcpServerName(server: MCPServerConfig): string {
+  if (server.transport === "stdio") {
+    const target = (server.args ?? []).find((a) => !a.startsWith("-"));
+    // "@scope/server-github@1.2" -> "server-github"; "/opt/mcp/server.py" -> "server"
+    const base = (target ?? server.command).split(/[\\/]/).pop() ?? server.command;
+    return base.replace(/@[^@]*$/, "").replace(/\.[a-z]+$/i, "") || server.command;
+  }
+  try {
+    return new URL(server.url).hostname;
+  } catch {
+    return "mcp";
+  }
+}
+
+/** Short stable hash that tells apart ids whose readable part is the same. */
+function idHash(value: string): string {
+  return createHash("sha256").update(value).digest("hex").slice(0, 8);
+}
+
+/**
+ * Studio tool id of an MCP server's tool: mcp-<server>-<tool>, a valid LLM function name. Ids
+ * longer than 64 characters are cut and end in a hash of the server and tool name, so long names
+ * that share a prefix get different ids.
+ */
+export function mcpToolId(serverName: string, toolName: string): string {
+  const id = `mcp-${slug(serverName) || "server"}-${slug(toolName) || "tool"}`;
+  if (id.length <= TOOL_ID_MAX_LENGTH) return id;
+  const hash = idHash(`${serverName}\n${toolName}`);
+  return `${id.slice(0, TOOL_ID_MAX_LENGTH - hash.length - 1)}-${hash}`;
+}
+
+/**
+ * Ids for the tools (or prompts) of one server. Names that map to the same id (e.g. "a.b" and
+ * "a-b") get a hash of their own name appended, so no tool overwrites another on import.
+ */
+export function mcpToolIds(serverName: string, toolNames: string[]): string[] {
+  const taken = new Set<string>();
+  return toolNames.map((name) => {
+    let id = mcpToolId(serverName, name);
+    if (taken.has(id)) {
+      const hash = idHash(`${serverName}\n${name}`);
+      id = `${id.slice(0, TOOL_ID_MAX_LENGTH - hash.length - 1)}-${hash}`;
+    }
+    taken.add(id);
+    return id;
+  });
+}
+
+/** Tool definitions for the listed tools of a server. */
+export function mcpToolDefinitions(
+  serverName: string,
+  server: MCPServerConfig,
+  tools: MCPToolInfo[]
+): ToolDefinition[] {
+  const ids = mcpToolIds(
+    serverName,
+    tools.map((t) => t.name)
+  );
+  return tools.map((tool, i) => {
+    const config: MCPToolConfig & { description?: string; server: string } = {
+      ...server,
+      toolName: tool.name,
+      server: serverName,
+      ...(tool.description && { description: tool.description }),
+    };
+    return {
+      id: ids[i],
+      name: `${serverName}: ${tool.title ?? tool.name}`,
+      protocol: "mcp",
+      config,
+      inputSchema: tool.inputSchema,
+      ...(tool.outputSchema && { outputSchema: tool.outputSchema }),
+    };
+  });
+}
+
+/** Lists the server's tools (spawning it when it is a stdio server). */
+export async function discoverMcpTools(server: MCPServerConfig): Promise<MCPToolInfo[]> {
+  return getMCPClient(server).listTools();
+}
+
+/**
+ * Registers every tool of the server. Re-importing the same server updates its tools in place
+ * (same ids), so schema changes on the server are picked up.
+ */
+export async function importMcpTools(
+  serverName: string,
+  server: MCPServerConfig,
+  tools: MCPToolInfo[]
+): Promise<ToolDefinition[]> {
+  const definitions = mcpToolDefinitions(serverName, server, tools);
+  if (definitions.length === 0) return [];
+  const existing = new Set(
+    (
+      await db
+        .select({ id: toolsTable.id })
+        .from(toolsTable)
+        .where(
+          inArray(
+            toolsTable.id,
+            definitions.map((d) => d.id)
+          )
+        )
+    ).map((r) => r.id)
+  );
+  for (const definition of definitions) {
+    const row = toToolRow(definition);
+    if (existing.has(definition.id)) {
+      const { id: _id, ...rest } = row;
+      await db.update(toolsTable).set(rest).where(eq(toolsTable.id, definition.id)).run();
+    } else {
+      await db.insert(toolsTable).values(row).run();
+    }
+  }
+  return definitions;
+}
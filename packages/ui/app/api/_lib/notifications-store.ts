@@ -205,12 +205,24 @@ export async function createNotification(entry: {
   };
 }
 
-/** Create a run notification when status becomes completed, failed, or waiting_for_user. */
+/**
+ * Create a run notification when status becomes completed, failed, or waiting_for_user.
+ * Completed and failed runs also fire the workflow_run triggers that watch their workflow; runs
+ * waiting for input are sent to the Telegram notification chat when one is set.
+ */
 export async function createRunNotification(
   runId: string,
   status: "completed" | "failed" | "waiting_for_user",
   metadata?: { targetType?: string; targetId?: string }
 ): Promise<Notification> {
+  if (status !== "waiting_for_user") {
+    // Imported lazily: workflow triggers enqueue runs, and the run modules import this store.
+    void import("./workflow-triggers")
+      .then((m) => m.fireRunFinishedTriggers(runId, status))
+      .catch(() => {});
+  } else {
+    void import("./telegram-update").then((m) => m.notifyTelegramRunWaiting(runId)).catch(() => {});
+  }
   const titles: Record<string, string> = {
     completed: "Run completed",
     failed: "Run failed",
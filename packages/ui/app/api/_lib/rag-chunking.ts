@@ -0,0 +1,536 @@
+/**
+ * Chunking strategies for RAG ingest. Every chunk records its character offsets in the extracted
+ * document text and, for markdown and code, the heading path (section titles or symbol name) so
+ * retrieved chunks can be cited precisely.
+ *
+ * Strategies:
+ * - fixed: character windows that break at spaces (the original ingest behavior);
+ * - token: windows measured with the embedding model's tokenizer;
+ * - markdown: heading-aware sections; code blocks and tables are kept whole where they fit, and
+ *   the heading path is prefixed to the chunk text;
+ * - code: split at top-level functions, classes and methods;
+ * - sentence: windows of N sentences with overlap.
+ */
+import { Tiktoken } from "js-tiktoken/lite";
+import cl100kBase from "js-tiktoken/ranks/cl100k_base";
+import o200kBase from "js-tiktoken/ranks/o200k_base";
+
+export type ChunkingStrategy = "fixed" | "token" | "markdown" | "code" | "sentence";
+
+export const CHUNKING_STRATEGIES: ChunkingStrategy[] = [
+  "fixed",
+  "token",
+  "markdown",
+  "code",
+  "sentence",
+];
+
+export type ChunkingConfig = {
+  strategy: ChunkingStrategy;
+  /** Max chunk size: characters, or tokens for "token" (and when unit is "tokens"). */
+  size?: number;
+  /** Overlap between consecutive windows (fixed, token). */
+  overlap?: number;
+  /** Unit of size for markdown and code. Default chars. */
+  unit?: "chars" | "tokens";
+  /** Sentences per chunk and overlap in sentences (sentence). */
+  sentences?: number;
+  sentenceOverlap?: number;
+};
+
+export type TextChunk = {
+  /** Text to embed and store (markdown chunks start with their heading path). */
+  text: string;
+  /** Offsets of the chunk's source span in the document text (end exclusive). */
+  start: number;
+  end: number;
+  headingPath: string[];
+};
+
+/** Counts tokens the way the embedding model does (exact for OpenAI models; see createTokenCounter). */
+export type TokenCounter = {
+  count(text: string): number;
+  /** Pre-tokens with offsets, used to cut token windows at token boundaries. */
+  split(text: string): { start: number; end: number; tokens: number }[];
+};
+
+export const DEFAULT_CHUNKING: ChunkingConfig = { strategy: "fixed", size: 500, overlap: 50 };
+const DEFAULT_TOKEN_SIZE = 256;
+const DEFAULT_TOKEN_OVERLAP = 32;
+const DEFAULT_SENTENCES = 5;
+const MAX_CHUNK_SIZE = 20_000;
+
+type TiktokenEncoding = "cl100k_base" | "o200k_base";
+
+/** cl100k-style pre-tokenizer (contractions, letter runs, 1–3 digit groups, punctuation). */
+const BPE_PRETOKEN =
+  /'(?:[sdmt]|ll|ve|re)|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+(?!\S)|\s+/giu;
+/** WordPiece-style pre-tokenizer (BERT family: nomic, bge, e5, minilm). */
+const WORDPIECE_PRETOKEN = /[\p{L}\p{N}]+|[^\s\p{L}\p{N}]/gu;
+
+const encoders = new Map<TiktokenEncoding, Tiktoken>();
+
+/** tiktoken encoding of an OpenAI model; null for other providers' models. */
+function getTiktokenEncoding(model: string): TiktokenEncoding | null {
+  const name = model.toLowerCase().replace(/^openai\//, "");
+  if (/^(gpt-4o|gpt-4\.[1-9]|gpt-5|o[1-9]|chatgpt-)/.test(name)) return "o200k_base";
+  if (/^(text-embedding-|gpt-4|gpt-3\.5)/.test(name)) return "cl100k_base";
+  return null;
+}
+
+function getTiktoken(encoding: TiktokenEncoding): Tiktoken {
+  let encoder = encoders.get(encoding);
+  if (!encoder) {
+    encoder = new Tiktoken(encoding === "o200k_base" ? o200kBase : cl100kBase);
+    encoders.set(encoding, encoder);
+  }
+  return encoder;
+}
+
+/**
+ * Token counter for an embedding model. OpenAI models are counted exactly with their tiktoken
+ * encoding; special-token text is counted as plain text. Other models fall back to an estimate
+ * from the model family's pre-tokenizer: common words are single tokens, longer words split every
+ * few characters (~7 for BPE, ~6 for WordPiece) and punctuation runs cost about a token per two
+ * characters. Close enough to keep chunks below the model's limit.
+ */
+export function createTokenCounter(model: string): TokenCounter {
+  const encoding = getTiktokenEncoding(model);
+  const wordPiece = !encoding && /bert|nomic|bge|e5|minilm|mxbai|gte|snowflake/i.test(model);
+  const pattern = wordPiece ? WORDPIECE_PRETOKEN : BPE_PRETOKEN;
+  const charsPerWordToken = wordPiece ? 6 : 7;
+  const estimate = (piece: string) => {
+    const core = piece.trim();
+    if (core === "") return 1;
+    if (/^[\p{L}\p{N}']+$/u.test(core)) return Math.ceil(core.length / charsPerWordToken);
+    return Math.ceil(core.length / 2);
+  };
+  const encoder = encoding ? getTiktoken(encoding) : null;
+  const countPiece = encoder ? (piece: string) => encoder.encode(piece, [], []).length : estimate;
+  const split = (text: string) => {
+    const out: { start: number; end: number; tokens: number }[] = [];
+    for (const m of text.matchAll(new RegExp(pattern.source, pattern.flags))) {
+      const piece = m[0];
+      if (!piece) continue;
+      out.push({
+        start: m.index ?? 0,
+        end: (m.index ?? 0) + piece.length,
+        tokens: countPiece(piece),
+      });
+    }
+    return out;
+  };
+  return {
+    split,
+    count: encoder
+      ? (text) => encoder.encode(text, [], []).length
+      : (text) => split(text).reduce((n, p) => n + p.tokens, 0),
+  };
+}
+
+/** Parses a stored chunking config (JSON text or object); null when unset or invalid. */
+export function parseChunkingConfig(raw: unknown): ChunkingConfig | null {
+  let value = raw;
+  if (typeof raw === "string") {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      return null;
+    }
+  }
+  return value != null && validateChunkingConfig(value).length === 0
+    ? (value as ChunkingConfig)
+    : null;
+}
+
+/** Validation errors of a chunking config (empty when valid); null/undefined means default. */
+export function validateChunkingConfig(value: unknown): string[] {
+  if (value == null) return [];
+  if (typeof value !== "object" || Array.isArray(value)) return ["chunking must be an object"];
+  const c = value as Record<string, unknown>;
+  const errors: string[] = [];
+  if (!CHUNKING_STRATEGIES.includes(c.strategy as ChunkingStrategy)) {
+    errors.push(`chunking.strategy must be one of ${CHUNKING_STRATEGIES.join(", ")}`);
+  }
+  const positive = (key: string, max = MAX_CHUNK_SIZE) => {
+    const v = c[key];
+    if (v !== undefined && (typeof v !== "number" || !Number.isInteger(v) || v < 1 || v > max)) {
+      errors.push(`chunking.${key} must be an integer from 1 to ${max}`);
+    }
+  };
+  positive("size");
+  positive("sentences", 100);
+  for (const key of ["overlap", "sentenceOverlap"]) {
+    const v = c[key];
+    if (v !== undefined && (typeof v !== "number" || !Number.isInteger(v) || v < 0)) {
+      errors.push(`chunking.${key} must be a non-negative integer`);
+    }
+  }
+  if (typeof c.size === "number" && typeof c.overlap === "number" && c.overlap >= c.size) {
+    errors.push("chunking.overlap must be smaller than chunking.size");
+  }
+  if (
+    typeof c.sentenceOverlap === "number" &&
+    c.sentenceOverlap >= ((c.sentences as number | undefined) ?? DEFAULT_SENTENCES)
+  ) {
+    errors.push("chunking.sentenceOverlap must be smaller than chunking.sentences");
+  }
+  if (c.unit !== undefined && c.unit !== "chars" && c.unit !== "tokens") {
+    errors.push('chunking.unit must be "chars" or "tokens"');
+  }
+  return errors;
+}
+
+/** Trims whitespace off a span and returns the chunk, or null when it is empty. */
+function span(
+  text: string,
+  start: number,
+  end: number,
+  headingPath: string[] = [],
+  prefix = ""
+): TextChunk | null {
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  if (start >= end) return null;
+  return { text: prefix + text.slice(start, end), start, end, headingPath };
+}
+
+function pushSpan(out: TextChunk[], chunk: TextChunk | null) {
+  if (chunk) out.push(chunk);
+}
+
+/** Character windows that end at a space when possible (original ingest behavior). */
+function chunkFixed(
+  text: string,
+  from: number,
+  to: number,
+  size: number,
+  overlap: number,
+  headingPath: string[] = [],
+  prefix = ""
+): TextChunk[] {
+  const out: TextChunk[] = [];
+  let start = from;
+  while (start < to) {
+    let end = Math.min(start + size, to);
+    if (end < to) {
+      const lastSpace = text.lastIndexOf(" ", end);
+      if (lastSpace > start) end = lastSpace + 1;
+    }
+    pushSpan(out, span(text, start, end, headingPath, prefix));
+    if (end >= to) break;
+    start = Math.max(end - overlap, start + 1);
+  }
+  return out;
+}
+
+/** Windows of `size` tokens with `overlap` tokens, cut at pre-token boundaries. */
+function chunkTokens(
+  text: string,
+  from: number,
+  to: number,
+  size: number,
+  overlap: number,
+  counter: TokenCounter,
+  headingPath: string[] = [],
+  prefix = ""
+): TextChunk[] {
+  const pieces = counter.split(text.slice(from, to)).map((p) => ({
+    ...p,
+    start: p.start + from,
+    end: p.end + from,
+  }));
+  const out: TextChunk[] = [];
+  let i = 0;
+  while (i < pieces.length) {
+    let tokens = 0;
+    let j = i;
+    while (j < pieces.length && (j === i || tokens + pieces[j].tokens <= size)) {
+      tokens += pieces[j].tokens;
+      j++;
+    }
+    pushSpan(out, span(text, pieces[i].start, pieces[j - 1].end, headingPath, prefix));
+    if (j >= pieces.length) break;
+    // Step back `overlap` tokens for the next window, always moving forward.
+    let back = j;
+    let backTokens = 0;
+    while (back - 1 > i && backTokens + pieces[back - 1].tokens <= overlap) {
+      back--;
+      backTokens += pieces[back].tokens;
+    }
+    i = back;
+  }
+  return out;
+}
+
+/** Blocks of a markdown section: fenced code blocks and tables are atomic, others are paragraphs. */
+function markdownBlocks(text: string, from: number, to: number): { start: number; end: number }[] {
+  const blocks: { start: number; end: number }[] = [];
+  const lines: { start: number; end: number; line: string }[] = [];
+  let pos = from;
+  while (pos < to) {
+    const nl = text.indexOf("\n", pos);
+    const end = nl === -1 || nl >= to ? to : nl + 1;
+    lines.push({ start: pos, end, line: text.slice(pos, end).replace(/\r?\n$/, "") });
+    pos = end;
+  }
+  let i = 0;
+  while (i < lines.length) {
+    const { line } = lines[i];
+    if (line.trim() === "") {
+      i++;
+      continue;
+    }
+    const start = lines[i].start;
+    const fence = line.match(/^\s*(```|~~~)/);
+    if (fence) {
+      let j = i + 1;
+      while (j < lines.length && !lines[j].line.trimStart().startsWith(fence[1])) j++;
+      const last = Math.min(j, lines.length - 1);
+      blocks.push({ start, end: lines[last].end });
+      i = last + 1;
+      continue;
+    }
+    const isTable = (l: string) => /^\s*\|/.test(l);
+    let j = i + 1;
+    if (isTable(line)) {
+      while (j < lines.length && isTable(lines[j].line)) j++;
+    } else {
+      while (
+        j < lines.length &&
+        lines[j].line.trim() !== "" &&
+        !/^\s*(```|~~~)/.test(lines[j].line) &&
+        !isTable(lines[j].line)
+      ) {
+        j++;
+      }
+    }
+    blocks.push({ start, end: lines[j - 1].end });
+    i = j;
+  }
+  return blocks;
+}
+
+/** Markdown sections by heading (ignoring "#" lines inside fenced code). */
+function markdownSections(text: string): { headingPath: string[]; start: number; end: number }[] {
+  const sections: { headingPath: string[]; start: number; end: number }[] = [];
+  const stack: { level: number; title: string }[] = [];
+  let sectionStart = 0;
+  let inFence = false;
+  const headingRe = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+  let pos = 0;
+  const close = (end: number) => {
+    sections.push({ headingPath: stack.map((h) => h.title), start: sectionStart, end });
+  };
+  while (pos < text.length) {
+    const nl = text.indexOf("\n", pos);
+    const end = nl === -1 ? text.length : nl + 1;
+    const line = text.slice(pos, end).replace(/\r?\n$/, "");
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    const m = inFence ? null : line.match(headingRe);
+    if (m) {
+      close(pos);
+      const level = m[1].length;
+      while (stack.length > 0 && stack[stack.length - 1].level >= level) stack.pop();
+      stack.push({ level, title: m[2] });
+      sectionStart = end;
+    }
+    pos = end;
+  }
+  close(text.length);
+  return sections;
+}
+
+function chunkMarkdown(
+  text: string,
+  size: number,
+  measure: (s: string) => number,
+  splitLarge: (from: number, to: number, headingPath: string[], prefix: string) => TextChunk[]
+): TextChunk[] {
+  const out: TextChunk[] = [];
+  for (const section of markdownSections(text)) {
+    const prefix = section.headingPath.length > 0 ? `${section.headingPath.join(" > ")}\n\n` : "";
+    let current: { start: number; end: number } | null = null;
+    const flush = () => {
+      if (current)
+        pushSpan(out, span(text, current.start, current.end, section.headingPath, prefix));
+      current = null;
+    };
+    for (const block of markdownBlocks(text, section.start, section.end)) {
+      if (measure(text.slice(block.start, block.end)) > size) {
+        flush();
+        out.push(...splitLarge(block.start, block.end, section.headingPath, prefix));
+        continue;
+      }
+      if (current && measure(text.slice(current.start, block.end)) > size) flush();
+      current = current ? { start: current.start, end: block.end } : { ...block };
+    }
+    flush();
+  }
+  return out;
+}
+
+/** Lines that start a top-level definition (JS/TS, Python, Go, Rust, Java/C#, Ruby, PHP). */
+const CODE_DEFINITION =
+  /^(?:export\s+(?:default\s+)?)?(?:(?:async\s+)?function\*?\s+([\w$]+)|(?:abstract\s+)?class\s+([\w$]+)|interface\s+([\w$]+)|type\s+([\w$]+)\s*=|(?:const|let|var)\s+([\w$]+)\s*=\s*(?:async\s*)?(?:\([^)]*\)|[\w$]+)\s*=>|def\s+(\w+)|class\s+(\w+)|func\s+(?:\([^)]*\)\s*)?(\w+)|(?:pub(?:\([^)]*\))?\s+)?(?:async\s+)?fn\s+(\w+)|(?:pub(?:\([^)]*\))?\s+)?(?:struct|enum|trait|impl)\s+(\w+)|(?:(?:public|private|protected|internal|static|final|abstract)\s+)+[\w<>[\],\s]+?\s+(\w+)\s*\()/;
+/** Indented method definitions inside classes (one level). */
+const CODE_METHOD =
+  /^\s{2,4}(?:(?:public|private|protected|static|async|override)\s+)*(?:def\s+(\w+)|([\w$]+)\s*\([^)]*\)\s*(?::\s*[^{]+)?\{)/;
+
+function chunkCode(
+  text: string,
+  size: number,
+  measure: (s: string) => number,
+  splitLarge: (from: number, to: number, headingPath: string[], prefix: string) => TextChunk[]
+): TextChunk[] {
+  // Segment starts: each top-level definition, with decorators/comments directly above it.
+  const lines: { start: number; line: string }[] = [];
+  let pos = 0;
+  while (pos < text.length) {
+    const nl = text.indexOf("\n", pos);
+    const end = nl === -1 ? text.length : nl + 1;
+    lines.push({ start: pos, line: text.slice(pos, end).replace(/\r?\n$/, "") });
+    pos = end;
+  }
+  const segments: { start: number; name: string | null }[] = [{ start: 0, name: null }];
+  lines.forEach((l, i) => {
+    const m = l.line.match(CODE_DEFINITION);
+    if (!m) return;
+    let first = i;
+    while (first > 0 && /^\s*(@|\/\/|#(?!include)|\/\*|\*|--)/.test(lines[first - 1].line)) first--;
+    const name = m.slice(1).find((g) => g !== undefined) ?? null;
+    if (lines[first].start === segments[segments.length - 1].start) {
+      segments[segments.length - 1].name = name;
+    } else {
+      segments.push({ start: lines[first].start, name });
+    }
+  });
+  const out: TextChunk[] = [];
+  let current: { start: number; end: number; names: string[] } | null = null;
+  const flush = () => {
+    if (current) pushSpan(out, span(text, current.start, current.end, current.names));
+    current = null;
+  };
+  segments.forEach((seg, i) => {
+    const end = i + 1 < segments.length ? segments[i + 1].start : text.length;
+    const names = seg.name ? [seg.name] : [];
+    if (measure(text.slice(seg.start, end)) > size) {
+      flush();
+      out.push(...splitCodeByMethods(text, seg.start, end, names, size, measure, splitLarge));
+      return;
+    }
+    // Small neighbouring definitions share a chunk; the heading path lists them all.
+    if (current && measure(text.slice(current.start, end)) > size) flush();
+    current = current
+      ? { start: current.start, end, names: [...current.names, ...names] }
+      : { start: seg.start, end, names };
+  });
+  flush();
+  return out;
+}
+
+/** Splits an oversized definition (e.g. a class) at its methods, then by lines. */
+function splitCodeByMethods(
+  text: string,
+  from: number,
+  to: number,
+  parent: string[],
+  size: number,
+  measure: (s: string) => number,
+  splitLarge: (from: number, to: number, headingPath: string[], prefix: string) => TextChunk[]
+): TextChunk[] {
+  const starts: { start: number; name: string | null }[] = [{ start: from, name: null }];
+  let pos = from;
+  while (pos < to) {
+    const nl = text.indexOf("\n", pos);
+    const end = nl === -1 || nl >= to ? to : nl + 1;
+    const m = pos > from ? text.slice(pos, end).match(CODE_METHOD) : null;
+    if (m) starts.push({ start: pos, name: m[1] ?? m[2] ?? null });
+    pos = end;
+  }
+  const out: TextChunk[] = [];
+  starts.forEach((s, i) => {
+    const end = i + 1 < starts.length ? starts[i + 1].start : to;
+    const path = s.name ? [...parent, s.name] : parent;
+    if (measure(text.slice(s.start, end)) > size) out.push(...splitLarge(s.start, end, path, ""));
+    else pushSpan(out, span(text, s.start, end, path));
+  });
+  return out;
+}
+
+/** Sentence spans: ends at . ! ? (followed by space/newline) or at blank lines. */
+export function splitSentences(text: string): { start: number; end: number }[] {
+  const out: { start: number; end: number }[] = [];
+  const re = /[.!?]+["')\]]*(?=\s)|\n\s*\n/g;
+  let start = 0;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(text)) !== null) {
+    const end = m.index + m[0].length;
+    // Skip common abbreviations and initials ("e.g.", "Dr.", "U.S.").
+    const before = text.slice(Math.max(start, m.index - 4), m.index + 1);
+    if (/(?:\b[A-Z]|\be\.g|\bi\.e|\bDr|\bMr|\bMs|\bvs|\betc)\.$/.test(before)) continue;
+    if (text.slice(start, end).trim()) out.push({ start, end });
+    start = end;
+  }
+  if (text.slice(start).trim()) out.push({ start, end: text.length });
+  return out;
+}
+
+function chunkSentences(text: string, perChunk: number, overlap: number): TextChunk[] {
+  const sentences = splitSentences(text);
+  const out: TextChunk[] = [];
+  const step = Math.max(1, perChunk - overlap);
+  for (let i = 0; i < sentences.length; i += step) {
+    const window = sentences.slice(i, i + perChunk);
+    pushSpan(out, span(text, window[0].start, window[window.length - 1].end));
+    if (i + perChunk >= sentences.length) break;
+  }
+  return out;
+}
+
+/**
+ * Splits document text into chunks with the given config. `model` selects the tokenizer for
+ * token sizes (the encoding config's modelOrEndpoint).
+ */
+export function chunkDocument(
+  text: string,
+  config: ChunkingConfig = DEFAULT_CHUNKING,
+  model = ""
+): TextChunk[] {
+  const counter = createTokenCounter(model);
+  const tokens = config.strategy === "token" || config.unit === "tokens";
+  const size = config.size ?? (tokens ? DEFAULT_TOKEN_SIZE : (DEFAULT_CHUNKING.size as number));
+  const overlap = Math.min(
+    config.overlap ?? (tokens ? DEFAULT_TOKEN_OVERLAP : (DEFAULT_CHUNKING.overlap as number)),
+    size - 1
+  );
+  const measure = tokens ? (s: string) => counter.count(s) : (s: string) => s.length;
+  const splitLarge = (from: number, to: number, headingPath: string[], prefix: string) =>
+    tokens
+      ? chunkTokens(text, from, to, size, overlap, counter, headingPath, prefix)
+      : chunkFixed(text, from, to, size, overlap, headingPath, prefix);
+
+  let chunks: TextChunk[];
+  switch (config.strategy) {
+    case "token":
+      chunks = chunkTokens(text, 0, text.length, size, overlap, counter);
+      break;
+    case "markdown":
+      chunks = chunkMarkdown(text, size, measure, splitLarge);
+      break;
+    case "code":
+      chunks = chunkCode(text, size, measure, splitLarge);
+      break;
+    case "sentence": {
+      const perChunk = config.sentences ?? DEFAULT_SENTENCES;
+      chunks = chunkSentences(text, perChunk, Math.min(config.sentenceOverlap ?? 1, perChunk - 1));
+      break;
+    }
+    default:
+      chunks = chunkFixed(text, 0, text.length, size, overlap);
+  }
+  if (chunks.length === 0 && text.trim()) {
+    return [{ text, start: 0, end: text.length, headingPath: [] }];
+  }
+  return chunks;
+}
@@ -0,0 +1,169 @@
+/**
+ * Source metadata and numbered citations for retrieved RAG chunks. retrieveChunks attaches the
+ * document (file name, connector item id, link) to every chunk; chat and agents put the chunks in
+ * the prompt as numbered passages and return the matching citations so answers can be checked.
+ */
+import { and, eq, inArray } from "drizzle-orm";
+import path from "node:path";
+import { ragDocuments, ragVectors, type ChatCitation } from "@agentron-studio/core";
+import { db } from "./db";
+import type { ChunkLocation } from "./rag-retrieval";
+
+/** Source fields retrieveChunks adds to each chunk (when its document is known). */
+export type ChunkSource = ChunkLocation & {
+  filename?: string;
+  connectorItemId?: string;
+  url?: string;
+};
+
+const SNIPPET_MAX_CHARS = 200;
+/** Upload and connector sync prefix stored file names with the document id ("<uuid>_name.md"). */
+const STORED_NAME_PREFIX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}_/i;
+
+type DocumentMetadata = {
+  source?: string;
+  originalName?: string;
+  name?: string;
+  title?: string;
+  url?: string;
+};
+
+/** In-app link to a document's stored file. */
+export function documentContentUrl(documentId: string): string {
+  return `/api/rag/documents/${encodeURIComponent(documentId)}/content`;
+}
+
+/**
+ * Link to the document at its source: the connector item when its URL is known (stored at sync
+ * or derived from the item id), else the stored file.
+ */
+export function documentUrl(doc: {
+  id: string;
+  externalId: string | null;
+  metadata: DocumentMetadata;
+}): string {
+  const { metadata, externalId } = doc;
+  if (typeof metadata.url === "string" && metadata.url) return metadata.url;
+  if (externalId) {
+    switch (metadata.source) {
+      case "google_drive":
+        return `https://drive.google.com/file/d/${encodeURIComponent(externalId)}/view`;
+      case "notion":
+        return `https://www.notion.so/${externalId.replace(/-/g, "")}`;
+      case "gitbook":
+        return `https://app.gitbook.com/s/${encodeURIComponent(externalId)}`;
+    }
+  }
+  return documentContentUrl(doc.id);
+}
+
+function parseMetadata(raw: string | null): DocumentMetadata {
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return parsed && typeof parsed === "object" ? (parsed as DocumentMetadata) : {};
+  } catch {
+    return {};
+  }
+}
+
+/** File name, connector item id and link of a rag_documents row. */
+export function documentSource(
+  doc: typeof ragDocuments.$inferSelect
+): Pick<ChunkSource, "filename" | "connectorItemId" | "url"> & { filename: string } {
+  const metadata = parseMetadata(doc.metadata);
+  const named = metadata.originalName ?? metadata.name ?? metadata.title;
+  const filename =
+    typeof named === "string" && named
+      ? named
+      : path.basename(doc.storePath).replace(STORED_NAME_PREFIX, "");
+  return {
+    filename,
+    ...(doc.externalId && { connectorItemId: doc.externalId }),
+    url: documentUrl({ id: doc.id, externalId: doc.externalId, metadata }),
+  };
+}
+
+/**
+ * Adds document id, file name, connector item id and link to retrieved chunks. Chunks from an
+ * external store without a document id in their payload are matched to rag_vectors by text
+ * (ingest always writes rag_vectors).
+ */
+export async function attachChunkSources<T extends ChunkLocation & { text: string }>(
+  collectionId: string,
+  chunks: T[]
+): Promise<(T & ChunkSource & { source?: string })[]> {
+  if (chunks.length === 0) return [];
+  const unlocated = [...new Set(chunks.filter((c) => !c.documentId).map((c) => c.text))];
+  const byText = new Map<string, typeof ragVectors.$inferSelect>();
+  if (unlocated.length > 0) {
+    const rows = await db
+      .select()
+      .from(ragVectors)
+      .where(and(eq(ragVectors.collectionId, collectionId), inArray(ragVectors.text, unlocated)));
+    for (const row of rows) if (!byText.has(row.text)) byText.set(row.text, row);
+  }
+  const located = chunks.map((chunk) => {
+    const row = chunk.documentId ? undefined : byText.get(chunk.text);
+    if (!row) return chunk;
+    return {
+      ...chunk,
+      documentId: row.documentId,
+      chunkIndex: chunk.chunkIndex ?? row.chunkIndex,
+      start: chunk.start ?? row.startOffset ?? undefined,
+      end: chunk.end ?? row.endOffset ?? undefined,
+    };
+  });
+
+  const documentIds = [
+    ...new Set(located.map((c) => c.documentId).filter((id): id is string => !!id)),
+  ];
+  const docs =
+    documentIds.length > 0
+      ? await db.select().from(ragDocuments).where(inArray(ragDocuments.id, documentIds))
+      : [];
+  const sources = new Map(docs.map((doc) => [doc.id, documentSource(doc)]));
+  return located.map((chunk) => {
+    const source = chunk.documentId ? sources.get(chunk.documentId) : undefined;
+    return source ? { ...chunk, ...source, source: source.filename } : chunk;
+  });
+}
+
+/**
+ * Numbered prompt context for retrieved chunks ("[1] handbook.pdf › Setup\n<text>") and the
+ * citations the answer can refer to.
+ */
+export function buildCitedContext(chunks: (ChunkSource & { text: string })[]): {
+  context: string;
+  citations: ChatCitation[];
+} {
+  const citations: ChatCitation[] = chunks.map((chunk, i) => ({
+    index: i + 1,
+    ...(chunk.documentId && { documentId: chunk.documentId }),
+    ...(chunk.filename && { filename: chunk.filename }),
+    ...(chunk.connectorItemId && { connectorItemId: chunk.connectorItemId }),
+    ...(chunk.url && { url: chunk.url }),
+    ...(chunk.chunkIndex != null && { chunkIndex: chunk.chunkIndex }),
+    ...(chunk.start != null && { start: chunk.start }),
+    ...(chunk.end != null && { end: chunk.end }),
+    ...(chunk.headingPath && chunk.headingPath.length > 0 && { headingPath: chunk.headingPath }),
+    snippet:
+      chunk.text.length > SNIPPET_MAX_CHARS
+        ? `${chunk.text.slice(0, SNIPPET_MAX_CHARS)}…`
+        : chunk.text,
+  }));
+  const context = chunks
+    .map((chunk, i) => {
+      const label = [chunk.filename, chunk.headingPath?.join(" > ")].filter(Boolean).join(" › ");
+      return `[${i + 1}]${label ? ` ${label}` : ""}\n${chunk.text}`;
+    })
+    .join("\n\n");
+  return { context, citations };
+}
+
+/** Citations whose number appears as [n] in the answer (chat retrieves for every message). */
+export function citationsUsedIn(content: string, citations: ChatCitation[]): ChatCitation[] {
+  const used = new Set<number>();
+  for (const m of content.matchAll(/\[(\d{1,3})\]/g)) used.add(Number(m[1]));
+  return citations.filter((c) => used.has(c.index));
+}
@@ -0,0 +1,292 @@
+/**
+ * Retrieval stages for RAG collections beyond vector search: FTS5/BM25 keyword search over
+ * rag_vectors.text, reciprocal-rank fusion of ranked lists, and an optional rerank stage
+ * (configured LLM or a cross-encoder /rerank endpoint). Orchestrated by retrieveChunks in rag.ts.
+ */
+import { eq, sql } from "drizzle-orm";
+import type { LLMConfig } from "@agentron-studio/core";
+import type { LLMRequest, LLMResponse } from "@agentron-studio/runtime";
+import { db, llmConfigs, fromLlmConfigRowWithSecret } from "./db";
+import { createLLMManager } from "./llm-manager";
+
+export type RetrievalMode = "vector" | "keyword" | "hybrid";
+
+export const RETRIEVAL_MODES: RetrievalMode[] = ["vector", "keyword", "hybrid"];
+
+/** Rerank stage of a collection (rag_collections.rerank_config). */
+export type RerankConfig =
+  | { type: "llm"; llmConfigId: string; topN?: number }
+  | { type: "endpoint"; url: string; apiKeyRef?: string; model?: string; topN?: number };
+
+/** Scores a chunk got from each stage that ran (rank fusion and rerank only when they ran). */
+export type RetrievalScores = {
+  vector?: number;
+  keyword?: number;
+  fused?: number;
+  rerank?: number;
+};
+
+/** Where a chunk comes from: rag_vectors columns, or the point payload / row of an external store. */
+export type ChunkLocation = {
+  documentId?: string;
+  chunkIndex?: number;
+  headingPath?: string[];
+  start?: number;
+  end?: number;
+};
+
+export type ScoredChunk = ChunkLocation & {
+  text: string;
+  score?: number;
+  scores: RetrievalScores;
+};
+
+/** Location fields of a rag_vectors row. */
+export function chunkLocation(row: {
+  documentId: string;
+  chunkIndex?: number | null;
+  headingPath: string | null;
+  startOffset: number | null;
+  endOffset: number | null;
+}): ChunkLocation {
+  let headingPath: string[] | undefined;
+  try {
+    const parsed = row.headingPath ? (JSON.parse(row.headingPath) as unknown) : undefined;
+    if (Array.isArray(parsed)) headingPath = parsed.map(String);
+  } catch {
+    // Invalid heading path; keep the chunk without it
+  }
+  return {
+    documentId: row.documentId,
+    ...(row.chunkIndex != null && { chunkIndex: row.chunkIndex }),
+    ...(headingPath && { headingPath }),
+    ...(row.startOffset != null && { start: row.startOffset }),
+    ...(row.endOffset != null && { end: row.endOffset }),
+  };
+}
+
+/** Constant of reciprocal-rank fusion; 60 is the usual value from the RRF paper. */
+export const RRF_K = 60;
+/** Default number of fused candidates passed to the rerank stage. */
+const RERANK_TOP_N_DEFAULT = 20;
+const RERANK_TEXT_MAX_CHARS = 1000;
+
+export function parseRetrievalMode(value: unknown): RetrievalMode {
+  return RETRIEVAL_MODES.includes(value as RetrievalMode) ? (value as RetrievalMode) : "vector";
+}
+
+/** Parses rag_collections.rerank_config; null when unset or invalid. */
+export function parseRerankConfig(raw: unknown): RerankConfig | null {
+  let value = raw;
+  if (typeof raw === "string") {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      return null;
+    }
+  }
+  return validateRerankConfig(value).length === 0 && value != null ? (value as RerankConfig) : null;
+}
+
+/** Validation errors of a rerank config (empty when valid); null/undefined means no rerank. */
+export function validateRerankConfig(value: unknown): string[] {
+  if (value == null) return [];
+  if (typeof value !== "object" || Array.isArray(value)) return ["rerank must be an object"];
+  const c = value as Record<string, unknown>;
+  const errors: string[] = [];
+  if (c.type === "llm") {
+    if (typeof c.llmConfigId !== "string" || !c.llmConfigId.trim()) {
+      errors.push("rerank.llmConfigId is required");
+    }
+  } else if (c.type === "endpoint") {
+    if (typeof c.url !== "string" || !/^https?:\/\//.test(c.url)) {
+      errors.push("rerank.url must be an http(s) URL");
+    }
+  } else {
+    errors.push('rerank.type must be "llm" or "endpoint"');
+  }
+  if (c.topN !== undefined && (typeof c.topN !== "number" || c.topN < 1)) {
+    errors.push("rerank.topN must be a positive number");
+  }
+  return errors;
+}
+
+/**
+ * Builds an FTS5 MATCH expression from free text. Each whitespace-separated term becomes a
+ * quoted phrase (so "ERR-4012" matches the tokens err 4012 in order) and terms are OR-ed;
+ * BM25 ranks chunks matching more terms higher. Returns null when the query has no tokens.
+ */
+export function buildKeywordQuery(query: string): string | null {
+  const phrases: string[] = [];
+  for (const term of query.split(/\s+/)) {
+    const tokens = term.match(/[\p{L}\p{N}_]+/gu);
+    if (tokens && tokens.length > 0) phrases.push(`"${tokens.join(" ")}"`);
+  }
+  return phrases.length > 0 ? [...new Set(phrases)].join(" OR ") : null;
+}
+
+/** BM25 keyword search over the collection's chunks. Scores are positive; higher is better. */
+export async function searchKeyword(
+  collectionId: string,
+  query: string,
+  limit: number
+): Promise<(ChunkLocation & { text: string; score: number })[]> {
+  const match = buildKeywordQuery(query);
+  if (!match) return [];
+  const rows = db.all<{
+    text: string;
+    rank: number;
+    documentId: string;
+    chunkIndex: number;
+    headingPath: string | null;
+    startOffset: number | null;
+    endOffset: number | null;
+  }>(sql`
+    select rag_vectors.text as text, bm25(rag_vectors_fts) as rank,
+      rag_vectors.document_id as documentId, rag_vectors.chunk_index as chunkIndex,
+      rag_vectors.heading_path as headingPath,
+      rag_vectors.start_offset as startOffset, rag_vectors.end_offset as endOffset
+    from rag_vectors_fts
+    join rag_vectors on rag_vectors.rowid = rag_vectors_fts.rowid
+    where rag_vectors_fts match ${match} and rag_vectors.collection_id = ${collectionId}
+    order by rank
+    limit ${limit}
+  `);
+  // FTS5 bm25() is negative with better matches lower.
+  return rows.map((r) => ({ ...chunkLocation(r), text: r.text, score: -r.rank }));
+}
+
+/**
+ * Reciprocal-rank fusion: each list contributes 1 / (RRF_K + rank) per chunk (keyed by text).
+ * Returns chunks ordered by fused score with the per-list scores kept.
+ */
+export function reciprocalRankFusion(lists: {
+  vector?: (ChunkLocation & { text: string; score?: number })[];
+  keyword?: (ChunkLocation & { text: string; score?: number })[];
+}): ScoredChunk[] {
+  const byText = new Map<string, ScoredChunk>();
+  for (const stage of ["vector", "keyword"] as const) {
+    (lists[stage] ?? []).forEach((chunk, index) => {
+      const { text, score: _score, ...location } = chunk;
+      const entry = byText.get(text) ?? { ...location, text, scores: { fused: 0 } };
+      if (entry.scores[stage] === undefined) {
+        entry.scores[stage] = chunk.score;
+        entry.scores.fused = (entry.scores.fused ?? 0) + 1 / (RRF_K + index + 1);
+      }
+      byText.set(chunk.text, entry);
+    });
+  }
+  return [...byText.values()]
+    .map((c) => ({ ...c, score: c.scores.fused }))
+    .sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+}
+
+/** Parses per-passage scores from a rerank LLM reply (a JSON array of numbers). */
+export function parseRerankScores(reply: string, count: number): number[] | null {
+  const match = reply.match(/\[[\s\S]*?\]/);
+  if (!match) return null;
+  try {
+    const parsed = JSON.parse(match[0]) as unknown;
+    if (!Array.isArray(parsed) || parsed.length !== count) return null;
+    const scores = parsed.map((x) => Number(x));
+    return scores.some((x) => Number.isNaN(x)) ? null : scores;
+  } catch {
+    return null;
+  }
+}
+
+async function rerankWithLlm(
+  query: string,
+  texts: string[],
+  llmConfigId: string,
+  chat: (req: LLMRequest & { llmConfigId: string }) => Promise<LLMResponse>
+): Promise<number[]> {
+  const passages = texts
+    .map((t, i) => `[${i}] ${t.slice(0, RERANK_TEXT_MAX_CHARS).replace(/\s+/g, " ")}`)
+    .join("\n");
+  const response = await chat({
+    llmConfigId,
+    temperature: 0,
+    messages: [
+      {
+        role: "system",
+        content:
+          "You rate how relevant each passage is to a search query. Reply with only a JSON array of numbers from 0 (irrelevant) to 10 (answers the query), one per passage, in passage order.",
+      },
+      { role: "user", content: `Query: ${query}\n\nPassages:\n${passages}` },
+    ],
+  });
+  const scores = parseRerankScores(response.content ?? "", texts.length);
+  if (!scores) throw new Error("Rerank LLM did not return one score per passage");
+  return scores;
+}
+
+/**
+ * Cross-encoder endpoint. Accepts Cohere/Jina-style responses ({ results: [{ index,
+ * relevance_score }] }) and text-embeddings-inference style ([{ index, score }]).
+ */
+async function rerankWithEndpoint(
+  query: string,
+  texts: string[],
+  config: Extract<RerankConfig, { type: "endpoint" }>
+): Promise<number[]> {
+  const apiKey = config.apiKeyRef ? process.env[config.apiKeyRef] : undefined;
+  const res = await fetch(config.url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+    },
+    body: JSON.stringify({
+      ...(config.model ? { model: config.model } : {}),
+      query,
+      documents: texts,
+      texts,
+      top_n: texts.length,
+    }),
+  });
+  if (!res.ok) throw new Error(`Rerank endpoint failed: ${res.status} ${await res.text()}`);
+  const data = (await res.json()) as
+    | { results?: { index: number; relevance_score?: number; score?: number }[] }
+    | { index: number; score?: number; relevance_score?: number }[];
+  const results = Array.isArray(data) ? data : (data.results ?? []);
+  const scores: number[] = texts.map(() => Number.NEGATIVE_INFINITY);
+  for (const r of results) {
+    const score = r.relevance_score ?? r.score;
+    if (typeof r.index === "number" && typeof score === "number") scores[r.index] = score;
+  }
+  return scores;
+}
+
+async function chatWithConfig(req: LLMRequest & { llmConfigId: string }): Promise<LLMResponse> {
+  const rows = await db.select().from(llmConfigs).where(eq(llmConfigs.id, req.llmConfigId));
+  if (rows.length === 0) throw new Error(`LLM config not found: ${req.llmConfigId}`);
+  const config = fromLlmConfigRowWithSecret(rows[0]);
+  const manager = createLLMManager();
+  const { llmConfigId: _id, ...chatReq } = req;
+  return manager.chat(config as LLMConfig, chatReq, { source: "chat" });
+}
+
+/**
+ * Reranks the top candidates (config.topN, default 20) and returns them by rerank score,
+ * followed by the remaining candidates in their previous order. Errors propagate; the caller
+ * decides whether to fall back to the un-reranked order.
+ */
+export async function rerankChunks(
+  query: string,
+  chunks: ScoredChunk[],
+  config: RerankConfig,
+  chat: (req: LLMRequest & { llmConfigId: string }) => Promise<LLMResponse> = chatWithConfig
+): Promise<ScoredChunk[]> {
+  const head = chunks.slice(0, config.topN ?? RERANK_TOP_N_DEFAULT);
+  if (head.length === 0) return chunks;
+  const texts = head.map((c) => c.text);
+  const scores =
+    config.type === "llm"
+      ? await rerankWithLlm(query, texts, config.llmConfigId, chat)
+      : await rerankWithEndpoint(query, texts, config);
+  const reranked = head
+    .map((c, i) => ({ ...c, score: scores[i], scores: { ...c.scores, rerank: scores[i] } }))
+    .sort((a, b) => b.score - a.score);
+  return [...reranked, ...chunks.slice(head.length)];
+}
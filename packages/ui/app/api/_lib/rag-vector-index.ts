@@ -0,0 +1,327 @@
+/**
+ * Bundled vector store: Float32 embeddings in rag_vectors.embedding_blob and an IVF (inverted file)
+ * approximate nearest neighbour index per collection. Centroids live in rag_vector_indexes; each
+ * vector row carries the list of its nearest centroid (rag_vectors.list_id, indexed with
+ * collection_id). A query scans only the lists whose centroids are closest to it, so search reads a
+ * small share of the collection from disk instead of loading every vector into memory.
+ *
+ * Ingest assigns new vectors to their nearest list; deleted rows simply leave their list. The
+ * centroids are retrained when the collection has grown to REBUILD_GROWTH_FACTOR times the size
+ * they were trained on. Collections below IVF_MIN_VECTORS are searched exactly.
+ */
+import { eq, sql } from "drizzle-orm";
+import { ragVectorIndexes } from "@agentron-studio/core";
+import { db } from "./db";
+import { logApiError } from "./api-logger";
+
+/** Below this many vectors, search is an exact scan and no index is built. */
+export const IVF_MIN_VECTORS = 2_000;
+/** Retrain the centroids once the collection reaches this multiple of their training size. */
+const REBUILD_GROWTH_FACTOR = 4;
+const MIN_LISTS = 16;
+const MAX_LISTS = 4_096;
+/** k-means trains on a sample of this many vectors per list (capped by TRAIN_SAMPLE_MAX). */
+const TRAIN_SAMPLE_PER_LIST = 30;
+const TRAIN_SAMPLE_MAX = 10_000;
+const TRAIN_ITERATIONS = 10;
+/** Share of the lists probed per query (at least MIN_PROBES). */
+const PROBE_FRACTION = 0.1;
+const MIN_PROBES = 8;
+/** Rows read from SQLite per batch while scanning or reassigning. */
+const SCAN_BATCH = 1_000;
+
+export type VectorIndex = {
+  collectionId: string;
+  dimensions: number;
+  lists: number;
+  centroids: Float32Array;
+  trainedCount: number;
+};
+
+type VectorRow = {
+  rowid: number;
+  embedding: string;
+  embeddingBlob: Buffer | null;
+  listId: number | null;
+};
+
+/** Float32 little-endian blob of a vector (4 bytes per dimension). */
+export function encodeVector(vector: ArrayLike<number>): Buffer {
+  const buf = Buffer.alloc(vector.length * 4);
+  for (let i = 0; i < vector.length; i++) buf.writeFloatLE(vector[i], i * 4);
+  return buf;
+}
+
+export function decodeVector(buf: Buffer): Float32Array {
+  const out = new Float32Array(buf.length / 4);
+  for (let i = 0; i < out.length; i++) out[i] = buf.readFloatLE(i * 4);
+  return out;
+}
+
+/** Vector of a rag_vectors row: the Float32 blob, else the JSON of rows stored before blobs. */
+export function rowVector(row: {
+  embedding: string;
+  embeddingBlob: Buffer | null;
+}): Float32Array | null {
+  if (row.embeddingBlob && row.embeddingBlob.length > 0) return decodeVector(row.embeddingBlob);
+  try {
+    const parsed = JSON.parse(row.embedding) as unknown;
+    return Array.isArray(parsed) ? Float32Array.from(parsed, Number) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  const denom = Math.sqrt(normA) * Math.sqrt(normB);
+  return denom === 0 ? 0 : dot / denom;
+}
+
+/** Centroid lists ordered by cosine similarity to the vector (best first). */
+function rankLists(index: VectorIndex, vector: ArrayLike<number>): number[] {
+  const { dimensions, lists, centroids } = index;
+  const scores: { list: number; score: number }[] = [];
+  for (let l = 0; l < lists; l++) {
+    const centroid = centroids.subarray(l * dimensions, (l + 1) * dimensions);
+    scores.push({ list: l, score: cosineSimilarity(vector, centroid) });
+  }
+  return scores.sort((a, b) => b.score - a.score).map((s) => s.list);
+}
+
+function closestList(index: VectorIndex, vector: ArrayLike<number>): number {
+  const { dimensions, lists, centroids } = index;
+  let best = 0;
+  let bestScore = Number.NEGATIVE_INFINITY;
+  for (let l = 0; l < lists; l++) {
+    const score = cosineSimilarity(
+      vector,
+      centroids.subarray(l * dimensions, (l + 1) * dimensions)
+    );
+    if (score > bestScore) {
+      best = l;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/** IVF list of a vector, or null when its dimensions do not match the index. */
+export function nearestList(index: VectorIndex, vector: ArrayLike<number>): number | null {
+  if (vector.length !== index.dimensions || index.lists === 0) return null;
+  return closestList(index, vector);
+}
+
+export async function loadVectorIndex(collectionId: string): Promise<VectorIndex | null> {
+  const rows = await db
+    .select()
+    .from(ragVectorIndexes)
+    .where(eq(ragVectorIndexes.collectionId, collectionId));
+  const row = rows[0];
+  if (!row) return null;
+  return {
+    collectionId,
+    dimensions: row.dimensions,
+    lists: row.lists,
+    centroids: decodeVector(row.centroids),
+    trainedCount: row.trainedCount,
+  };
+}
+
+function countVectors(collectionId: string): number {
+  const row = db.get<{ n: number }>(
+    sql`select count(*) as n from rag_vectors where collection_id = ${collectionId}`
+  );
+  return row?.n ?? 0;
+}
+
+/** Reads the collection's vector rows in rowid order, SCAN_BATCH at a time. */
+function* scanRows(collectionId: string, lists?: number[]): Generator<VectorRow[]> {
+  const listFilter =
+    lists === undefined
+      ? sql``
+      : sql` and (list_id is null or list_id in (${sql.join(
+          lists.map((l) => sql`${l}`),
+          sql`, `
+        )}))`;
+  let after = -1;
+  for (;;) {
+    const batch = db.all<VectorRow>(sql`
+      select rowid, embedding, embedding_blob as embeddingBlob, list_id as listId
+      from rag_vectors
+      where collection_id = ${collectionId} and rowid > ${after}${listFilter}
+      order by rowid
+      limit ${SCAN_BATCH}
+    `);
+    if (batch.length === 0) return;
+    yield batch;
+    after = batch[batch.length - 1].rowid;
+  }
+}
+
+/** Spherical k-means over a sample of the collection; returns lists × dimensions centroids. */
+function trainCentroids(sample: Float32Array[], lists: number, dimensions: number): Float32Array {
+  const centroids = new Float32Array(lists * dimensions);
+  // Seed with evenly spaced sample vectors.
+  for (let l = 0; l < lists; l++) {
+    centroids.set(sample[Math.floor((l * sample.length) / lists)], l * dimensions);
+  }
+  const index: VectorIndex = {
+    collectionId: "",
+    dimensions,
+    lists,
+    centroids,
+    trainedCount: sample.length,
+  };
+  for (let iter = 0; iter < TRAIN_ITERATIONS; iter++) {
+    const sums = new Float64Array(lists * dimensions);
+    const counts = new Uint32Array(lists);
+    for (const v of sample) {
+      const l = closestList(index, v);
+      counts[l]++;
+      let norm = 0;
+      for (let d = 0; d < dimensions; d++) norm += v[d] * v[d];
+      norm = Math.sqrt(norm) || 1;
+      for (let d = 0; d < dimensions; d++) sums[l * dimensions + d] += v[d] / norm;
+    }
+    for (let l = 0; l < lists; l++) {
+      // Empty lists keep their previous centroid.
+      if (counts[l] === 0) continue;
+      for (let d = 0; d < dimensions; d++) {
+        centroids[l * dimensions + d] = sums[l * dimensions + d] / counts[l];
+      }
+    }
+  }
+  return centroids;
+}
+
+/**
+ * Trains the collection's centroids and assigns every vector to its list. Rows still holding
+ * JSON embeddings are converted to Float32 blobs on the way. Returns null when the collection has
+ * no usable vectors.
+ */
+export async function buildVectorIndex(collectionId: string): Promise<VectorIndex | null> {
+  const total = countVectors(collectionId);
+  const lists = Math.min(MAX_LISTS, Math.max(MIN_LISTS, Math.round(Math.sqrt(total))));
+  const sampleSize = Math.min(TRAIN_SAMPLE_MAX, lists * TRAIN_SAMPLE_PER_LIST);
+  const step = Math.max(1, Math.floor(total / sampleSize));
+  const sample: Float32Array[] = [];
+  let dimensions = 0;
+  let seen = 0;
+  for (const batch of scanRows(collectionId)) {
+    for (const row of batch) {
+      if (seen++ % step !== 0 || sample.length >= sampleSize) continue;
+      const vector = rowVector(row);
+      if (!vector || vector.length === 0) continue;
+      // The first vector fixes the dimensions; rows of another size are left unindexed.
+      if (dimensions === 0) dimensions = vector.length;
+      if (vector.length === dimensions) sample.push(vector);
+    }
+  }
+  if (sample.length === 0) return null;
+
+  const index: VectorIndex = {
+    collectionId,
+    dimensions,
+    lists: Math.min(lists, sample.length),
+    centroids: new Float32Array(0),
+    trainedCount: total,
+  };
+  index.centroids = trainCentroids(sample, index.lists, dimensions);
+
+  for (const batch of scanRows(collectionId)) {
+    // One transaction per batch: a commit per row would make large rebuilds crawl.
+    db.transaction((tx) => {
+      for (const row of batch) {
+        const vector = rowVector(row);
+        const listId = vector ? nearestList(index, vector) : null;
+        const blob = row.embeddingBlob ? undefined : vector ? encodeVector(vector) : undefined;
+        tx.run(sql`
+          update rag_vectors set list_id = ${listId}
+          ${blob ? sql`, embedding_blob = ${blob}, embedding = ''` : sql``}
+          where rowid = ${row.rowid}
+        `);
+      }
+    });
+  }
+
+  const values = {
+    dimensions,
+    lists: index.lists,
+    centroids: encodeVector(index.centroids),
+    trainedCount: total,
+    builtAt: Date.now(),
+  };
+  await db
+    .insert(ragVectorIndexes)
+    .values({ collectionId, ...values })
+    .onConflictDoUpdate({ target: ragVectorIndexes.collectionId, set: values })
+    .run();
+  return index;
+}
+
+/**
+ * Builds or retrains the collection's index when it is missing and the collection has reached
+ * IVF_MIN_VECTORS, or when it has grown REBUILD_GROWTH_FACTOR times past its training size.
+ * Called after ingest; failures are logged and search falls back to scanning unassigned rows.
+ */
+export async function maintainVectorIndex(collectionId: string): Promise<void> {
+  try {
+    const total = countVectors(collectionId);
+    const index = await loadVectorIndex(collectionId);
+    const needsBuild = index
+      ? total >= index.trainedCount * REBUILD_GROWTH_FACTOR
+      : total >= IVF_MIN_VECTORS;
+    if (needsBuild) await buildVectorIndex(collectionId);
+  } catch (err) {
+    logApiError("rag", "vectorIndex", err);
+  }
+}
+
+/** Removes the collection's index (its vectors keep their stale list ids until deleted). */
+export async function dropVectorIndex(collectionId: string): Promise<void> {
+  await db.delete(ragVectorIndexes).where(eq(ragVectorIndexes.collectionId, collectionId)).run();
+}
+
+/**
+ * Top-k vectors of a bundled collection by cosine similarity. With an index, only the nearest
+ * lists (and rows not yet assigned to a list) are scanned; otherwise every row is.
+ */
+export async function searchVectorIndex(
+  collectionId: string,
+  query: ArrayLike<number>,
+  limit: number
+): Promise<{ rowid: number; score: number }[]> {
+  const index = await loadVectorIndex(collectionId);
+  const probes =
+    index && query.length === index.dimensions
+      ? rankLists(index, query).slice(
+          0,
+          Math.max(MIN_PROBES, Math.ceil(index.lists * PROBE_FRACTION))
+        )
+      : undefined;
+  const top: { rowid: number; score: number }[] = [];
+  for (const batch of scanRows(collectionId, probes)) {
+    for (const row of batch) {
+      const vector = rowVector(row);
+      if (!vector) continue;
+      const score = cosineSimilarity(query, vector);
+      if (top.length < limit) {
+        top.push({ rowid: row.rowid, score });
+        top.sort((a, b) => b.score - a.score);
+      } else if (score > top[top.length - 1].score) {
+        top[top.length - 1] = { rowid: row.rowid, score };
+        top.sort((a, b) => b.score - a.score);
+      }
+    }
+  }
+  return top;
+}
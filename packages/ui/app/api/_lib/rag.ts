@@ -1,14 +1,32 @@
 import { db } from "./db";
 import { ragCollections, ragVectors, ragVectorStores } from "@agentron-studio/core";
-import { eq, asc } from "drizzle-orm";
+import { eq, inArray, sql } from "drizzle-orm";
 import { embed } from "./embeddings";
 import { queryQdrant, queryPgvector } from "./vector-store-query";
 import { logApiError } from "./api-logger";
+import { attachChunkSources, type ChunkSource } from "./rag-citations";
+import { searchVectorIndex } from "./rag-vector-index";
+import {
+  chunkLocation,
+  parseRerankConfig,
+  parseRetrievalMode,
+  reciprocalRankFusion,
+  rerankChunks,
+  searchKeyword,
+  type ChunkLocation,
+  type RetrievalScores,
+  type ScoredChunk,
+} from "./rag-retrieval";
 
-/** Max vectors loaded for bundled (in-memory) search. For larger collections use Qdrant or pgvector (disk-backed). */
-const BUNDLED_RAG_MAX_VECTORS = 5_000;
+/** Candidates fetched per stage, as a multiple of the limit, when fusing or reranking. */
+const HYBRID_CANDIDATE_FACTOR = 3;
 
-export type RagChunk = { text: string; score?: number; source?: string };
+export type RagChunk = ChunkSource & {
+  text: string;
+  score?: number;
+  source?: string;
+  scores?: RetrievalScores;
+};
 
 /**
  * Returns the deployment (studio) RAG collection id, or null if none.
@@ -22,38 +40,14 @@ export async function getDeploymentCollectionId(): Promise<string | null> {
   return rows[0]?.id ?? null;
 }
 
-function cosineSimilarity(a: number[], b: number[]): number {
-  if (a.length !== b.length) return 0;
-  let dot = 0;
-  let normA = 0;
-  let normB = 0;
-  for (let i = 0; i < a.length; i++) {
-    dot += a[i] * b[i];
-    normA += a[i] * a[i];
-    normB += b[i] * b[i];
-  }
-  const denom = Math.sqrt(normA) * Math.sqrt(normB);
-  return denom === 0 ? 0 : dot / denom;
-}
-
-/**
- * Retrieve relevant chunks for a query. Uses collection's encoding config to embed the query,
- * then searches the vector store: bundled (rag_vectors), Qdrant, or pgvector.
- */
-export async function retrieveChunks(
-  collectionId: string,
+/** Vector search over the collection's store: bundled (rag_vectors), Qdrant, or pgvector. */
+async function searchVector(
+  collection: typeof ragCollections.$inferSelect,
   query: string,
   limit: number
 ): Promise<RagChunk[]> {
-  const collRows = await db
-    .select()
-    .from(ragCollections)
-    .where(eq(ragCollections.id, collectionId));
-  if (collRows.length === 0) return [];
-  const collection = collRows[0];
-  const encodingConfigId = collection.encodingConfigId;
-
-  const [queryVector] = await embed(encodingConfigId, [query]);
+  const collectionId = collection.id;
+  const [queryVector] = await embed(collection.encodingConfigId, [query]);
   if (!queryVector) return [];
 
   const vectorStoreId = collection.vectorStoreId;
@@ -85,34 +79,79 @@ export async function retrieveChunks(
     }
   }
 
-  // Bundled: search rag_vectors table (capped to avoid loading all vectors into memory).
-  // For larger collections, attach a Qdrant or pgvector vector store to the collection (disk-backed).
+  // Bundled: rag_vectors through the collection's IVF index (exact scan for small collections).
+  const top = await searchVectorIndex(collectionId, queryVector, limit);
+  if (top.length === 0) return [];
   const rows = await db
-    .select()
+    .select({
+      rowid: sql<number>`rowid`,
+      text: ragVectors.text,
+      documentId: ragVectors.documentId,
+      chunkIndex: ragVectors.chunkIndex,
+      headingPath: ragVectors.headingPath,
+      startOffset: ragVectors.startOffset,
+      endOffset: ragVectors.endOffset,
+    })
     .from(ragVectors)
-    .where(eq(ragVectors.collectionId, collectionId))
-    .orderBy(asc(ragVectors.id))
-    .limit(BUNDLED_RAG_MAX_VECTORS);
-  if (rows.length >= BUNDLED_RAG_MAX_VECTORS) {
-    logApiError(
-      "rag",
-      "bundledCap",
-      new Error(
-        `Bundled RAG collection has at least ${BUNDLED_RAG_MAX_VECTORS} vectors; only this many were searched. For full results use a Qdrant or pgvector vector store (Settings → RAG).`
+    .where(
+      inArray(
+        sql`rowid`,
+        top.map((t) => t.rowid)
       )
     );
+  const byRowid = new Map(rows.map((r) => [r.rowid, r]));
+  const withScore: (ChunkLocation & { text: string; score: number })[] = [];
+  for (const { rowid, score } of top) {
+    const r = byRowid.get(rowid);
+    if (r) withScore.push({ ...chunkLocation(r), text: r.text, score });
   }
-  const withScore: { text: string; score: number }[] = [];
-  for (const r of rows) {
-    let vec: number[];
+  return withScore;
+}
+
+/**
+ * Retrieve relevant chunks for a query using the collection's retrieval mode:
+ * - vector: embed the query and search the vector store (bundled with its ANN index, Qdrant, or
+ *   pgvector);
+ * - keyword: BM25 over the FTS5 index of rag_vectors.text (exact identifiers, error codes);
+ * - hybrid: both, merged with reciprocal-rank fusion.
+ * When the collection has a rerank config, the top candidates are reranked; a failing rerank
+ * stage is logged and the fused order kept. Each chunk carries the scores of every stage in `scores`
+ * and its source (document id, file name, connector item, link, chunk index and offsets).
+ */
+export async function retrieveChunks(
+  collectionId: string,
+  query: string,
+  limit: number
+): Promise<RagChunk[]> {
+  const collRows = await db
+    .select()
+    .from(ragCollections)
+    .where(eq(ragCollections.id, collectionId));
+  if (collRows.length === 0) return [];
+  const collection = collRows[0];
+  const mode = parseRetrievalMode(collection.retrievalMode);
+  const rerank = parseRerankConfig(collection.rerankConfig);
+  // Fusion and rerank need a deeper candidate pool than the final limit.
+  const candidates =
+    mode === "hybrid" || rerank ? Math.max(limit * HYBRID_CANDIDATE_FACTOR, 20) : limit;
+
+  const vector = mode === "keyword" ? undefined : await searchVector(collection, query, candidates);
+  const keyword =
+    mode === "vector" ? undefined : await searchKeyword(collectionId, query, candidates);
+
+  let ranked: ScoredChunk[] =
+    mode === "hybrid"
+      ? reciprocalRankFusion({ vector, keyword })
+      : (mode === "keyword" ? (keyword ?? []) : (vector ?? [])).map((c) => ({
+          ...c,
+          scores: { [mode]: c.score },
+        }));
+  if (rerank && ranked.length > 0) {
     try {
-      vec = JSON.parse(r.embedding) as number[];
-    } catch {
-      continue;
+      ranked = await rerankChunks(query, ranked, rerank);
+    } catch (err) {
+      logApiError("rag", "rerank", err);
     }
-    const score = cosineSimilarity(queryVector, vec);
-    withScore.push({ text: r.text, score });
   }
-  withScore.sort((a, b) => b.score - a.score);
-  return withScore.slice(0, limit).map(({ text, score }) => ({ text, score }));
+  return attachChunkSources(collectionId, ranked.slice(0, limit));
 }
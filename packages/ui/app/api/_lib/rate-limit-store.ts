@@ -0,0 +1,152 @@
+/**
+ * SQLite-backed LLM rate limiter state: limits, concurrency slots and daily/monthly token quotas
+ * survive restarts and are shared by every process using the database (Next.js server, scheduled
+ * workflows, desktop app). Checks run in an immediate transaction so two processes cannot both
+ * take the last slot.
+ */
+import { and, asc, eq, gt, inArray, isNotNull, isNull, lt, or, sql } from "drizzle-orm";
+import {
+  RATE_LIMIT_WINDOW_MS,
+  checkRateLimits,
+  getDefaultRateLimiter,
+  quotaPeriodId,
+  type RateLimitConfig,
+  type RateLimitDecision,
+  type RateLimitStore,
+} from "@agentron-studio/runtime";
+import { db, rateLimitRequests, rateLimitTokens, rateLimitQuotas } from "./db";
+
+/** A request not released within this time (e.g. its process crashed) frees its slot. */
+const LEASE_TTL_MS = 10 * 60_000;
+
+export class SqliteRateLimitStore implements RateLimitStore {
+  async tryAcquire(
+    key: string,
+    limits: RateLimitConfig,
+    leaseId: string,
+    now: number
+  ): Promise<RateLimitDecision> {
+    const cutoff = now - RATE_LIMIT_WINDOW_MS;
+    const day = quotaPeriodId("day", now);
+    const month = quotaPeriodId("month", now);
+    return db.transaction(
+      (tx) => {
+        tx.delete(rateLimitRequests)
+          .where(
+            and(
+              eq(rateLimitRequests.key, key),
+              lt(rateLimitRequests.startedAt, cutoff),
+              or(isNotNull(rateLimitRequests.finishedAt), lt(rateLimitRequests.expiresAt, now))
+            )
+          )
+          .run();
+        tx.delete(rateLimitTokens)
+          .where(and(eq(rateLimitTokens.key, key), lt(rateLimitTokens.createdAt, cutoff)))
+          .run();
+        const requests = tx
+          .select()
+          .from(rateLimitRequests)
+          .where(eq(rateLimitRequests.key, key))
+          .orderBy(asc(rateLimitRequests.startedAt))
+          .all();
+        const tokenEntries = tx
+          .select({ ts: rateLimitTokens.createdAt, tokens: rateLimitTokens.tokens })
+          .from(rateLimitTokens)
+          .where(and(eq(rateLimitTokens.key, key), gt(rateLimitTokens.createdAt, cutoff)))
+          .orderBy(asc(rateLimitTokens.createdAt))
+          .all();
+        const quotas = tx
+          .select()
+          .from(rateLimitQuotas)
+          .where(and(eq(rateLimitQuotas.key, key), inArray(rateLimitQuotas.period, [day, month])))
+          .all();
+        const decision = checkRateLimits(
+          {
+            requestTs: requests.filter((r) => r.startedAt > cutoff).map((r) => r.startedAt),
+            tokenEntries,
+            activeRequests: requests.filter((r) => r.finishedAt == null && r.expiresAt > now)
+              .length,
+            tokensToday: quotas.find((q) => q.period === day)?.tokens ?? 0,
+            tokensThisMonth: quotas.find((q) => q.period === month)?.tokens ?? 0,
+          },
+          limits,
+          now
+        );
+        if (decision.allowed) {
+          tx.insert(rateLimitRequests)
+            .values({ id: leaseId, key, startedAt: now, expiresAt: now + LEASE_TTL_MS })
+            .run();
+        }
+        return decision;
+      },
+      { behavior: "immediate" }
+    );
+  }
+
+  async release(key: string, leaseId: string): Promise<void> {
+    await db
+      .update(rateLimitRequests)
+      .set({ finishedAt: Date.now() })
+      .where(
+        and(
+          eq(rateLimitRequests.id, leaseId),
+          eq(rateLimitRequests.key, key),
+          isNull(rateLimitRequests.finishedAt)
+        )
+      )
+      .run();
+  }
+
+  async recordTokens(key: string, tokens: number, now: number): Promise<void> {
+    if (tokens <= 0) return;
+    db.transaction(
+      (tx) => {
+        tx.insert(rateLimitTokens)
+          .values({ id: crypto.randomUUID(), key, tokens, createdAt: now })
+          .run();
+        for (const period of [quotaPeriodId("day", now), quotaPeriodId("month", now)]) {
+          tx.insert(rateLimitQuotas)
+            .values({ key, period, tokens })
+            .onConflictDoUpdate({
+              target: [rateLimitQuotas.key, rateLimitQuotas.period],
+              set: { tokens: sql`${rateLimitQuotas.tokens} + ${tokens}` },
+            })
+            .run();
+        }
+      },
+      { behavior: "immediate" }
+    );
+  }
+}
+
+export type QuotaUsage = { tokensToday: number; tokensThisMonth: number };
+
+/** Tokens used in the current UTC day and month per key (LLM config id). */
+export async function getQuotaUsage(
+  keys: string[],
+  now = Date.now()
+): Promise<Record<string, QuotaUsage>> {
+  if (keys.length === 0) return {};
+  const day = quotaPeriodId("day", now);
+  const month = quotaPeriodId("month", now);
+  const rows = await db
+    .select()
+    .from(rateLimitQuotas)
+    .where(and(inArray(rateLimitQuotas.key, keys), inArray(rateLimitQuotas.period, [day, month])));
+  const out: Record<string, QuotaUsage> = {};
+  for (const key of keys) out[key] = { tokensToday: 0, tokensThisMonth: 0 };
+  for (const row of rows) {
+    if (row.period === day) out[row.key].tokensToday = row.tokens;
+    else out[row.key].tokensThisMonth = row.tokens;
+  }
+  return out;
+}
+
+/** The store every LLM manager in this process shares. */
+export const sqliteRateLimitStore = new SqliteRateLimitStore();
+
+/** Back the default rate limiter with SQLite (e.g. before reading its queue). */
+export function installSqliteRateLimitStore(): void {
+  const limiter = getDefaultRateLimiter();
+  if (limiter.getStore() !== sqliteRateLimitStore) limiter.setStore(sqliteRateLimitStore);
+}
@@ -16,6 +16,7 @@ import { createRunNotification } from "./notifications-store";
 import { ensureRunFailureSideEffects } from "./run-failure-side-effects";
 import { withContainerInstallHint } from "./container-manager";
 import { RUN_CANCELLED_MESSAGE, WAITING_FOR_USER_MESSAGE } from "./run-workflow";
+import { BudgetExceededError } from "./budgets";
 
 export async function runOneScheduledWorkflow(
   workflowId: string,
@@ -109,6 +110,8 @@ export async function runOneScheduledWorkflow(
       // ignore
     }
   } catch (err) {
+    // A budget stop already paused or cancelled the run and recorded why.
+    if (err instanceof BudgetExceededError) return;
     const rawMessage = err instanceof Error ? err.message : String(err);
     if (rawMessage === WAITING_FOR_USER_MESSAGE) return;
     if (rawMessage === RUN_CANCELLED_MESSAGE) {
@@ -2,6 +2,7 @@
  * Shared constants and error class for workflow run. Split out to avoid circular imports
  * between run-workflow.ts and run-workflow-engine.ts.
  */
+import type { ChatCitation } from "@agentron-studio/core";
 
 export const WAITING_FOR_USER_MESSAGE = "WAITING_FOR_USER";
 export const RUN_CANCELLED_MESSAGE = "Run cancelled by user";
@@ -20,6 +21,8 @@ export type ExecutionTraceStep = {
   sentToNodeId?: string;
   sentToAgentName?: string;
   llmSummary?: string;
+  /** Knowledge passages given to the agent from its RAG collection, numbered as in its prompt. */
+  citations?: ChatCitation[];
 };
 
 /** Thrown when request_user_help runs; carries the execution trail so the run output can preserve it. */
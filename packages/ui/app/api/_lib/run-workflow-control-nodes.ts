@@ -0,0 +1,303 @@
+/**
+ * Deterministic control-flow nodes for workflow runs: condition, switch, for_each/loop, merge,
+ * delay and set_context. Their state lives in the run's shared context (persisted to
+ * execution_run_state by the event loop), so pause/resume keeps working; delay nodes also persist
+ * their wake-up time up front (see workflow-delay-scheduler.ts). Routing nodes store the
+ * branch they picked under `__branch_<nodeId>`; only edges with that `branch` are followed.
+ */
+import { evaluateWorkflowExpression, parseJsonLike } from "@agentron-studio/runtime";
+import { RUN_CANCELLED_MESSAGE } from "./run-workflow-constants";
+
+/** Node types whose body edges lead back to them; the body runs once per item. */
+export const LOOP_NODE_TYPES = ["for_each", "loop"];
+
+export const CONTROL_NODE_TYPES = [
+  "condition",
+  "switch",
+  ...LOOP_NODE_TYPES,
+  "merge",
+  "delay",
+  "set_context",
+];
+
+/** Upper bound for delay nodes so a typo cannot park a run for days. */
+export const MAX_DELAY_MS = 60 * 60 * 1000;
+/** Shared context key prefix for the wake-up time (epoch ms) of a delay node that is waiting. */
+export const DELAY_UNTIL_KEY_PREFIX = "__delay_until_";
+const DEFAULT_MAX_ITERATIONS = 1000;
+
+type ContextLike = {
+  get: (k: string) => unknown;
+  set: (k: string, v: unknown) => void;
+  snapshot?: () => Record<string, unknown>;
+};
+
+type ControlNodeHandler = (
+  nodeId: string,
+  config: Record<string, unknown> | undefined,
+  sharedContext: unknown
+) => Promise<unknown>;
+
+export type ControlNodeStep = {
+  nodeId: string;
+  nodeType: string;
+  input: unknown;
+  output: unknown;
+  branch?: string;
+};
+
+export type ControlNodeDeps = {
+  /** Ids of nodes with an edge into nodeId. */
+  getUpstreamNodeIds: (nodeId: string) => string[];
+  /** Branch names on edges leaving nodeId (used by switch to fall back to "default"). */
+  getOutgoingBranches: (nodeId: string) => string[];
+  runInputs?: Record<string, unknown>;
+  isCancelled?: () => Promise<boolean>;
+  /** Called after each control node ran so the caller can record a trail step. */
+  onStep?: (step: ControlNodeStep) => void | Promise<void>;
+  /**
+   * Writes a delay node's wake-up time to the run state before it waits (null once it woke up),
+   * so a run resumed after a restart only waits for the rest of the delay.
+   */
+  persistWakeUp?: (nodeId: string, wakeAt: number | null) => Promise<void>;
+  /** Injectable for tests. */
+  sleep?: (ms: number) => Promise<void>;
+  now?: () => number;
+};
+
+/**
+ * Output a node receives as its input: the joined upstream outputs when the DAG scheduler set
+ * `__inputs_<nodeId>`, else the output of the node that ran last, else the first upstream output.
+ */
+export function getPreviousOutput(
+  nodeId: string,
+  ctx: ContextLike,
+  upstreamNodeIds: string[]
+): unknown {
+  const inputs = ctx.get(`__inputs_${nodeId}`);
+  if (inputs != null && typeof inputs === "object" && !Array.isArray(inputs)) {
+    const values = Object.values(inputs as Record<string, unknown>);
+    if (values.length === 1) return values[0];
+    if (values.length > 1) return inputs;
+  }
+  const lastNodeId = ctx.get("__last_node_id");
+  if (typeof lastNodeId === "string" && lastNodeId !== nodeId) {
+    const last = ctx.get(`__output_${lastNodeId}`);
+    if (last !== undefined) return last;
+  }
+  for (const id of upstreamNodeIds) {
+    const value = ctx.get(`__output_${id}`);
+    if (value !== undefined) return value;
+  }
+  return undefined;
+}
+
+/**
+ * Variables available to expressions: output (previous output, JSON parsed when possible),
+ * context (user keys of the shared context, without `__` internals), outputs (node id → output),
+ * input (run inputs), user_response and round.
+ */
+export function buildExpressionScope(
+  previousOutput: unknown,
+  ctx: ContextLike,
+  runInputs?: Record<string, unknown>
+): Record<string, unknown> {
+  const snapshot = typeof ctx.snapshot === "function" ? ctx.snapshot() : {};
+  const context: Record<string, unknown> = {};
+  const outputs: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(snapshot)) {
+    if (key.startsWith("__output_")) outputs[key.slice("__output_".length)] = parseJsonLike(value);
+    else if (!key.startsWith("__")) context[key] = value;
+  }
+  return {
+    output: parseJsonLike(previousOutput),
+    context,
+    outputs,
+    input: runInputs ?? {},
+    user_response: snapshot.__user_response,
+    round: snapshot.__round,
+  };
+}
+
+function requireExpression(nodeType: string, nodeId: string, config?: Record<string, unknown>) {
+  const expression = typeof config?.expression === "string" ? config.expression.trim() : "";
+  if (!expression) throw new Error(`Workflow node ${nodeId} (${nodeType}): missing expression`);
+  return expression;
+}
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Builds handlers for all control node types, keyed by node type. */
+export function createControlNodeHandlers(
+  deps: ControlNodeDeps
+): Record<string, ControlNodeHandler> {
+  const sleep = deps.sleep ?? defaultSleep;
+  const now = deps.now ?? Date.now;
+
+  const withContext =
+    (
+      nodeType: string,
+      run: (
+        nodeId: string,
+        config: Record<string, unknown> | undefined,
+        ctx: ContextLike,
+        previous: unknown
+      ) => Promise<{ output: unknown; branch?: string }>
+    ): ControlNodeHandler =>
+    async (nodeId, config, sharedContext) => {
+      if (deps.isCancelled && (await deps.isCancelled())) throw new Error(RUN_CANCELLED_MESSAGE);
+      const ctx = sharedContext as ContextLike;
+      const previous = getPreviousOutput(nodeId, ctx, deps.getUpstreamNodeIds(nodeId));
+      const { output, branch } = await run(nodeId, config, ctx, previous);
+      if (branch !== undefined) ctx.set(`__branch_${nodeId}`, branch);
+      await deps.onStep?.({ nodeId, nodeType, input: previous, output, branch });
+      return output;
+    };
+
+  const condition = withContext("condition", async (nodeId, config, ctx, previous) => {
+    const expression = requireExpression("condition", nodeId, config);
+    const result = evaluateWorkflowExpression(
+      expression,
+      buildExpressionScope(previous, ctx, deps.runInputs)
+    );
+    return { output: previous, branch: result ? "true" : "false" };
+  });
+
+  const switchNode = withContext("switch", async (nodeId, config, ctx, previous) => {
+    const expression = requireExpression("switch", nodeId, config);
+    const value = evaluateWorkflowExpression(
+      expression,
+      buildExpressionScope(previous, ctx, deps.runInputs)
+    );
+    const key = typeof value === "string" ? value : JSON.stringify(value ?? null);
+    const branches = deps.getOutgoingBranches(nodeId);
+    return { output: previous, branch: branches.includes(key) ? key : "default" };
+  });
+
+  const forEach = withContext("for_each", async (nodeId, config, ctx, previous) => {
+    const stateKey = `__loop_${nodeId}`;
+    const itemKey =
+      typeof config?.itemKey === "string" &&
+      config.itemKey.trim() &&
+      !config.itemKey.startsWith("__")
+        ? config.itemKey.trim()
+        : "item";
+    const maxIterations =
+      typeof config?.maxIterations === "number" && config.maxIterations > 0
+        ? Math.floor(config.maxIterations)
+        : DEFAULT_MAX_ITERATIONS;
+    let state = ctx.get(stateKey) as
+      | { items: unknown[]; index: number; results: unknown[] }
+      | null
+      | undefined;
+    if (!state) {
+      const expression = typeof config?.items === "string" ? config.items.trim() : "";
+      const raw = expression
+        ? evaluateWorkflowExpression(
+            expression,
+            buildExpressionScope(previous, ctx, deps.runInputs)
+          )
+        : parseJsonLike(previous);
+      const items = parseJsonLike(raw);
+      if (!Array.isArray(items)) {
+        throw new Error(`Workflow node ${nodeId} (for_each): items did not evaluate to an array`);
+      }
+      state = { items: items.slice(0, maxIterations), index: 0, results: [] };
+    } else {
+      // Back from the loop body: collect what the body produced for the previous item.
+      state = { ...state, results: [...state.results, previous] };
+    }
+    if (state.index < state.items.length) {
+      const item = state.items[state.index];
+      ctx.set(itemKey, item);
+      ctx.set(`${itemKey}_index`, state.index);
+      ctx.set(stateKey, { ...state, index: state.index + 1 });
+      return { output: item, branch: "item" };
+    }
+    ctx.set(stateKey, null);
+    return { output: state.results, branch: "done" };
+  });
+
+  const merge = withContext("merge", async (nodeId, config, ctx) => {
+    const mode = typeof config?.mode === "string" ? config.mode : "object";
+    const collected: Record<string, unknown> = {};
+    for (const id of deps.getUpstreamNodeIds(nodeId)) {
+      const value = ctx.get(`__output_${id}`);
+      if (value !== undefined) collected[id] = value;
+    }
+    if (mode === "array") return { output: Object.values(collected) };
+    if (mode === "text") {
+      return {
+        output: Object.values(collected)
+          .map((v) => (typeof v === "string" ? v : JSON.stringify(v)))
+          .join("\n\n"),
+      };
+    }
+    return { output: collected };
+  });
+
+  const delay = withContext("delay", async (nodeId, config, ctx, previous) => {
+    const ms =
+      typeof config?.ms === "number"
+        ? config.ms
+        : typeof config?.seconds === "number"
+          ? config.seconds * 1000
+          : 0;
+    const wakeKey = `${DELAY_UNTIL_KEY_PREFIX}${nodeId}`;
+    const stored = ctx.get(wakeKey);
+    // A resumed run keeps the wake-up time persisted before it stopped.
+    const wakeAt =
+      typeof stored === "number" ? stored : now() + Math.max(0, Math.min(MAX_DELAY_MS, ms));
+    ctx.set(wakeKey, wakeAt);
+    await deps.persistWakeUp?.(nodeId, wakeAt);
+    let remaining = Math.min(MAX_DELAY_MS, wakeAt - now());
+    // Sleep in slices so cancelling the run does not wait for the full delay.
+    while (remaining > 0) {
+      const slice = Math.min(remaining, 1000);
+      await sleep(slice);
+      remaining -= slice;
+      if (deps.isCancelled && (await deps.isCancelled())) throw new Error(RUN_CANCELLED_MESSAGE);
+    }
+    ctx.set(wakeKey, null);
+    await deps.persistWakeUp?.(nodeId, null);
+    return { output: previous };
+  });
+
+  const setContext = withContext("set_context", async (nodeId, config, ctx, previous) => {
+    const assigned: Record<string, unknown> = {};
+    const values =
+      config?.values && typeof config.values === "object"
+        ? (config.values as Record<string, unknown>)
+        : {};
+    const expressions =
+      config?.expressions && typeof config.expressions === "object"
+        ? (config.expressions as Record<string, unknown>)
+        : {};
+    for (const [key, value] of Object.entries(values)) assigned[key] = value;
+    for (const [key, expr] of Object.entries(expressions)) {
+      if (typeof expr !== "string") continue;
+      assigned[key] = evaluateWorkflowExpression(
+        expr,
+        buildExpressionScope(previous, ctx, deps.runInputs)
+      );
+    }
+    const reserved = Object.keys(assigned).find((key) => key.startsWith("__"));
+    if (reserved) {
+      throw new Error(`Workflow node ${nodeId} (set_context): key "${reserved}" is reserved`);
+    }
+    for (const [key, value] of Object.entries(assigned)) ctx.set(key, value);
+    return { output: previous };
+  });
+
+  return {
+    condition,
+    switch: switchNode,
+    for_each: forEach,
+    loop: forEach,
+    merge,
+    delay,
+    set_context: setContext,
+  };
+}
@@ -0,0 +1,120 @@
+/**
+ * Helpers for dependency-driven (DAG) workflow runs: several nodes of one run can be in flight,
+ * so run state writes are serialized and each node merges only the context keys it changed;
+ * for_each/loop bodies are split from the rest of the graph so they can run once per item.
+ * Used by the event loop in run-workflow-engine.ts.
+ */
+
+const RECENT_TURNS_KEY = "__recent_turns";
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  try {
+    return JSON.stringify(a) === JSON.stringify(b);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Applies the changes a node made to its context copy (before → after) onto the latest persisted
+ * context. Keys the node did not touch keep their latest value, so parallel nodes do not overwrite
+ * each other. `__recent_turns` is appended to instead of replaced. Exported for unit tests.
+ */
+export function mergeSharedContextDelta(
+  latest: Record<string, unknown>,
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...latest };
+  for (const key of Object.keys(after)) {
+    if (sameValue(before[key], after[key])) continue;
+    if (key === RECENT_TURNS_KEY && Array.isArray(after[key])) {
+      const prevLen = Array.isArray(before[key]) ? (before[key] as unknown[]).length : 0;
+      const added = (after[key] as unknown[]).slice(prevLen);
+      const base = Array.isArray(latest[key]) ? (latest[key] as unknown[]) : [];
+      merged[key] = [...base, ...added];
+      continue;
+    }
+    merged[key] = after[key];
+  }
+  for (const key of Object.keys(before)) {
+    if (!(key in after)) delete merged[key];
+  }
+  return merged;
+}
+
+/** Returns a runner that executes async functions one at a time in call order. */
+export function createSerialQueue(): <T>(fn: () => Promise<T>) => Promise<T> {
+  let tail: Promise<unknown> = Promise.resolve();
+  return <T>(fn: () => Promise<T>) => {
+    const next = tail.then(fn, fn);
+    tail = next.catch(() => {});
+    return next;
+  };
+}
+
+/**
+ * Formats outputs of several upstream nodes as one partner message for a join node,
+ * one labelled block per upstream node (agent name when known, else node id).
+ */
+export function formatJoinedUpstreamOutputs(
+  inputs: Record<string, unknown>,
+  labelOf: (nodeId: string) => string | undefined
+): string {
+  return Object.entries(inputs)
+    .map(([nodeId, value]) => {
+      const text = typeof value === "string" ? value : JSON.stringify(value);
+      return `[${labelOf(nodeId)?.trim() || nodeId}]\n${text}`;
+    })
+    .join("\n\n");
+}
+
+type GraphEdge = { from: string; to: string };
+
+/** Nodes reachable from start along edges, without entering `blocked`. */
+function reachableFrom(start: string, edges: GraphEdge[], blocked?: string): Set<string> {
+  const seen = new Set<string>();
+  const stack = [start];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    for (const e of edges) {
+      if (e.from !== id || e.to === blocked || seen.has(e.to)) continue;
+      seen.add(e.to);
+      stack.push(e.to);
+    }
+  }
+  return seen;
+}
+
+/**
+ * Edges that lead from a for_each/loop body back into the loop node (edges into a loop node whose
+ * source the loop node reaches). The scheduler leaves them out so the remaining graph stays acyclic.
+ */
+export function findLoopBackEdges<E extends GraphEdge>(edges: E[], loopNodeIds: Set<string>): E[] {
+  return edges.filter(
+    (e) =>
+      loopNodeIds.has(e.to) && (e.from === e.to || reachableFrom(e.to, edges, e.to).has(e.from))
+  );
+}
+
+/**
+ * Splits the nodes after a loop node: `body` leads back to it through a back edge and runs once
+ * per item; `after` is everything else the loop node reaches, which waits until the loop is done.
+ */
+export function getLoopRegions(
+  loopNodeId: string,
+  forwardEdges: GraphEdge[],
+  backEdges: GraphEdge[]
+): { body: string[]; after: string[] } {
+  const tails = backEdges.filter((e) => e.to === loopNodeId).map((e) => e.from);
+  const body: string[] = [];
+  const after: string[] = [];
+  for (const id of reachableFrom(loopNodeId, forwardEdges)) {
+    if (id === loopNodeId) continue;
+    const leadsBack =
+      tails.includes(id) || tails.some((t) => reachableFrom(id, forwardEdges).has(t));
+    (leadsBack ? body : after).push(id);
+  }
+  return { body, after };
+}
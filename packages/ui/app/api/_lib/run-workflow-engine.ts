@@ -1,51 +1,51 @@
 /**
- * Workflow execution engine: runs a workflow graph and returns output/trail.
- * Extracted from run-workflow.ts to keep it under 1000 lines.
+ * Workflow execution engine: runs a workflow graph and returns output/trail. Node handlers (agent,
+ * wait_for_user, control nodes) live here; the event-driven scheduler is in
+ * run-workflow-scheduler.ts and token usage/budget tracking in run-workflow-usage.ts.
  */
-import { eq } from "drizzle-orm";
+import { eq, inArray } from "drizzle-orm";
 import {
   WorkflowEngine,
-  SharedContextManager,
   NodeAgentExecutor,
   CodeAgentExecutor,
-  createDefaultLLMManager,
-  resolveModelPricing,
-  calculateCost,
+  applyWorkflowInputDefaults,
+  mapWorkflowOutput,
+  RAG_CITATION_INSTRUCTIONS,
 } from "@agentron-studio/runtime";
-import type { Workflow, Agent, LLMConfig, Canvas } from "@agentron-studio/core";
+import type { Workflow, Agent, Canvas } from "@agentron-studio/core";
 import type { PromptTemplate } from "@agentron-studio/core";
-import type { LLMResponse } from "@agentron-studio/runtime";
 import {
-  enqueueExecutionEvent,
-  getNextPendingEvent,
-  markEventProcessed,
   getExecutionRunState,
-  setExecutionRunState,
   updateExecutionRunState,
   parseRunStateSharedContext,
 } from "./execution-events";
 import { appendExecutionLogStep } from "./execution-log";
+import { logApiError } from "./api-logger";
+import { retrieveChunks } from "./rag";
+import { buildCitedContext } from "./rag-citations";
+import { getEffectiveRagRetrieveLimit } from "./rag-limits";
+import { buildMcpResourceContext, parseMcpResourceRefs } from "./mcp-resources";
+import { enforceToolGuardrails } from "./guardrails";
 import {
   db,
   agents,
   workflows,
   tools as toolsTable,
+  prompts as promptsTable,
   llmConfigs,
-  tokenUsage,
-  modelPricing,
   executions,
   runLogs,
   fromAgentRow,
   fromWorkflowRow,
   fromToolRow,
+  fromPromptRow,
   fromLlmConfigRowWithSecret,
-  fromModelPricingRow,
-  toTokenUsageRow,
   ensureStandardTools,
   insertWorkflowMessage,
   getWorkflowMessages,
 } from "./db";
 import { createRunNotification } from "./notifications-store";
+import { BudgetExceededError } from "./budgets";
 import {
   runContainer,
   runContainerSession,
@@ -64,6 +64,7 @@ import {
   buildFirstTurnPartnerMessageFromConfig,
   buildAvailableTools,
   executeStudioTool,
+  resolveGuardedToolCall,
   getLogSourceTag,
   GET_WORKFLOW_CONTEXT_TOOL_ID,
   FIRST_TURN_DEFAULT,
@@ -71,6 +72,24 @@ import {
   WORKFLOW_MEMORY_MAX_RECENT_TURNS,
   type ToolOverride,
 } from "./run-workflow-tool-execution";
+import { createSerialQueue, formatJoinedUpstreamOutputs } from "./run-workflow-dag";
+import { createControlNodeHandlers, DELAY_UNTIL_KEY_PREFIX } from "./run-workflow-control-nodes";
+import {
+  createWorkflowGraph,
+  runWorkflowEvents,
+  type WorkflowNodeHandler,
+} from "./run-workflow-scheduler";
+import { createRunUsageTracker, type RunLLMRequest } from "./run-workflow-usage";
+
+/** Trail labels for control nodes without a name. */
+const CONTROL_NODE_LABELS: Record<string, string> = {
+  condition: "Condition",
+  switch: "Switch",
+  for_each: "For each",
+  merge: "Merge",
+  delay: "Delay",
+  set_context: "Set context",
+};
 
 export type RunWorkflowOptions = {
   workflowId: string;
@@ -90,36 +109,35 @@ export type RunWorkflowOptions = {
   maxSelfFixRetries?: number;
   /** When true, each node only sees its own prior turns (no shared context from other nodes). Used e.g. for red-vs-blue. */
   noSharedOutput?: boolean;
+  /** Definition to run instead of loading workflowId (e.g. an eval's one-node agent workflow). */
+  workflow?: Workflow;
+  /** Agents used by agent nodes instead of their stored rows, keyed by agent id (e.g. a candidate prompt under eval). */
+  agentOverrides?: Record<string, Agent>;
 };
 
-/** Merges run-level inputs into node parameters so the agent handler receives them (e.g. url for first turn). Exported for unit tests. */
-export function mergeNodeConfigWithRunInputs(
-  nodeParams: { parameters?: Record<string, unknown>; config?: Record<string, unknown> },
-  runInputs?: Record<string, unknown>
-): Record<string, unknown> {
-  const base = nodeParams.parameters ?? nodeParams.config ?? {};
-  if (!runInputs || Object.keys(runInputs).length === 0) return { ...base };
-  return { ...base, ...runInputs };
-}
+export { mergeNodeConfigWithRunInputs } from "./run-workflow-scheduler";
 
 export async function runWorkflow(options: RunWorkflowOptions): Promise<{
   output: unknown;
   context: Record<string, unknown>;
   trail: ExecutionTraceStep[];
 }> {
-  const {
-    workflowId,
-    runId,
-    branchId,
-    runInputs,
-    maxSelfFixRetries: maxSelfFixRetriesOption = 0,
-  } = options;
+  const { workflowId, runId, branchId, maxSelfFixRetries: maxSelfFixRetriesOption = 0 } = options;
   const trail: ExecutionTraceStep[] = [];
   let stepOrder = 0;
 
-  const wfRows = await db.select().from(workflows).where(eq(workflows.id, workflowId));
-  if (wfRows.length === 0) throw new Error("Workflow not found");
-  const workflow = fromWorkflowRow(wfRows[0]) as Workflow;
+  let workflow: Workflow;
+  if (options.workflow) {
+    workflow = options.workflow;
+  } else {
+    const wfRows = await db.select().from(workflows).where(eq(workflows.id, workflowId));
+    if (wfRows.length === 0) throw new Error("Workflow not found");
+    workflow = fromWorkflowRow(wfRows[0]) as Workflow;
+  }
+  // Declared input defaults also reach scheduled and triggered runs that omit those inputs.
+  const runInputs = workflow.inputSchema
+    ? applyWorkflowInputDefaults(workflow.inputSchema, options.runInputs)
+    : options.runInputs;
 
   // Resolve graph: when branchId is set and workflow has that branch, run the branch's graph; else run main graph.
   const branch =
@@ -154,119 +172,18 @@ export async function runWorkflow(options: RunWorkflowOptions): Promise<{
           (c as { apiKeyRef?: string }).apiKeyRef!.length > 0)
     ) ?? configsWithSecret[0];
 
-  const pricingRows = await db.select().from(modelPricing);
-  const customPricing: Record<string, { input: number; output: number }> = {};
-  for (const r of pricingRows) {
-    const p = fromModelPricingRow(r);
-    customPricing[p.modelPattern] = {
-      input: Number(p.inputCostPerM),
-      output: Number(p.outputCostPerM),
-    };
-  }
-
-  const manager = createDefaultLLMManager(async (ref) => (ref ? process.env[ref] : undefined));
-
   const resolveLlmConfig = (id?: string) => {
     if (!id) return llmConfig;
     const c = configsWithSecret.find((x) => (x as { id?: string }).id === id);
     return c ? (c as { id: string; provider: string; model: string }) : llmConfig;
   };
 
-  let currentAgentId: string | undefined;
-  const usageEntries: {
-    response: LLMResponse;
-    agentId?: string;
-    config: { provider: string; model: string };
-  }[] = [];
-  const trackingCallLLM = async (
-    req: Parameters<typeof manager.chat>[1] & { llmConfigId?: string }
-  ) => {
-    const cfg = resolveLlmConfig(req.llmConfigId);
-    const { llmConfigId: _drop, ...chatReq } = req as Record<string, unknown>;
-    const response = await manager.chat(
-      cfg as LLMConfig,
-      chatReq as Parameters<typeof manager.chat>[1],
-      { source: "workflow" }
-    );
-    usageEntries.push({
-      response,
-      agentId: currentAgentId,
-      config: { provider: cfg.provider, model: cfg.model },
-    });
-    return response;
-  };
+  const usage = await createRunUsageTracker({ runId, workflowId, trail, resolveLlmConfig });
 
-  // Normalize edges: canvas uses source/target, engine/handler use from/to; preserve condition for conditional edges
-  const edges = (workflowForEngine.edges ?? []).map(
-    (e: {
-      source?: string;
-      target?: string;
-      from?: string;
-      to?: string;
-      condition?: { type: string; value: string };
-    }) => ({
-      from: e.source ?? e.from ?? "",
-      to: e.target ?? e.to ?? "",
-      condition: e.condition,
-    })
+  const graph = createWorkflowGraph(workflowForEngine, effectiveMaxRounds, (req) =>
+    usage.callLLM(req)
   );
-
-  /** Evaluate edge condition against last output/message (for conditional edges). */
-  function evaluateEdgeCondition(
-    condition: { type: string; value: string } | undefined,
-    lastOutput: unknown
-  ): boolean {
-    if (!condition) return true;
-    const content = typeof lastOutput === "string" ? lastOutput : JSON.stringify(lastOutput ?? "");
-    if (condition.type === "message_type") {
-      return (
-        content === condition.value ||
-        (lastOutput != null &&
-          typeof lastOutput === "object" &&
-          (lastOutput as Record<string, unknown>).type === condition.value)
-      );
-    }
-    if (condition.type === "content_contains") {
-      return content.toLowerCase().includes(condition.value.toLowerCase());
-    }
-    return true;
-  }
-
-  /** Compute next node from workflow graph (with conditional edges and rounds). */
-  function computeNextNodeId(
-    currentNodeId: string,
-    lastOutput: unknown,
-    round: number
-  ): { nextNodeId: string | null; nextRound: number; completed: boolean } {
-    const nodes = workflowForEngine.nodes ?? [];
-    const maxRounds =
-      effectiveMaxRounds != null && effectiveMaxRounds > 0 ? effectiveMaxRounds : null;
-    const startNodeId = nodes[0]?.id ?? null;
-    const hasEdges = edges.length > 0;
-
-    if (hasEdges && startNodeId) {
-      const outgoing = edges.filter((e: { from: string }) => e.from === currentNodeId);
-      const matching = outgoing.filter((e: { condition?: { type: string; value: string } }) =>
-        evaluateEdgeCondition(e.condition, lastOutput)
-      );
-      const edge = matching[0] ?? outgoing[0];
-      const nextId = edge?.to ?? null;
-      if (nextId && nextId !== startNodeId)
-        return { nextNodeId: nextId, nextRound: round, completed: false };
-      if (nextId === startNodeId) {
-        const nextRound = round + 1;
-        if (maxRounds != null && nextRound >= maxRounds)
-          return { nextNodeId: null, nextRound, completed: true };
-        return { nextNodeId: startNodeId, nextRound, completed: false };
-      }
-      return { nextNodeId: null, nextRound: round, completed: true };
-    }
-
-    const idx = nodes.findIndex((n) => n.id === currentNodeId);
-    if (idx < 0 || idx >= nodes.length - 1)
-      return { nextNodeId: null, nextRound: round, completed: true };
-    return { nextNodeId: nodes[idx + 1].id, nextRound: round, completed: false };
-  }
+  const { edges, dagMode } = graph;
 
   const USE_EVENT_DRIVEN_ENGINE = true;
 
@@ -309,20 +226,36 @@ export async function runWorkflow(options: RunWorkflowOptions): Promise<{
     }
     if (!agentId) throw new Error(`Workflow node ${nodeId}: missing agentId in config`);
 
-    const agentRows = await db.select().from(agents).where(eq(agents.id, agentId));
-    if (agentRows.length === 0) throw new Error(`Agent not found: ${agentId}`);
-    const agent = fromAgentRow(agentRows[0]) as Agent;
-    const agentDef = (agent as Agent & { definition?: { toolIds?: string[] } }).definition ?? {};
+    let agent = options?.agentOverrides?.[agentId];
+    if (!agent) {
+      const agentRows = await db.select().from(agents).where(eq(agents.id, agentId));
+      if (agentRows.length === 0) throw new Error(`Agent not found: ${agentId}`);
+      agent = fromAgentRow(agentRows[0]) as Agent;
+    }
+    const agentDef =
+      (agent as Agent & { definition?: { toolIds?: string[]; mcpResources?: unknown } })
+        .definition ?? {};
     const agentToolIds = (agentDef.toolIds ?? []) as string[];
 
     const incoming = edges.filter((e) => e.to === nodeId);
-    const fromId = incoming[0]?.from;
+    // With several incoming edges (e.g. a loop body entered from a for_each node), read from the one that ran last.
+    const lastNodeId = sharedContext.get("__last_node_id");
+    const fromId = (incoming.find((e) => e.from === lastNodeId) ?? incoming[0])?.from;
     const skipSharedOutput = options?.noSharedOutput === true;
+    const joinedInputs = sharedContext.get(`__inputs_${nodeId}`) as
+      | Record<string, unknown>
+      | undefined;
+    const isJoin = joinedInputs != null && Object.keys(joinedInputs).length > 1;
     let partnerOutput: unknown = skipSharedOutput
       ? undefined
-      : fromId
-        ? sharedContext.get(`__output_${fromId}`)
-        : undefined;
+      : isJoin
+        ? formatJoinedUpstreamOutputs(
+            joinedInputs,
+            (id) => sharedContext.get(`__agentName_${id}`) as string | undefined
+          )
+        : fromId
+          ? sharedContext.get(`__output_${fromId}`)
+          : undefined;
     let sourceNodeId: string | undefined = fromId;
     if (!skipSharedOutput && partnerOutput === undefined && !fromId) {
       const prevNodeIndex = (workflowForEngine.nodes ?? []).findIndex((n) => n.id === nodeId) - 1;
@@ -333,7 +266,7 @@ export async function runWorkflow(options: RunWorkflowOptions): Promise<{
     }
     // Prefer partner message from persisted workflow_messages when available (message-based communication)
     const runMsgs = await getWorkflowMessages(runId, 500);
-    if (runMsgs.length > 0 && fromId) {
+    if (runMsgs.length > 0 && fromId && !isJoin) {
       const lastFromNode = [...runMsgs]
         .reverse()
         .find((m) => m.nodeId === fromId && m.role === "agent");
@@ -392,7 +325,6 @@ export async function runWorkflow(options: RunWorkflowOptions): Promise<{
       precedingAgentName:
         precedingAgentName && String(precedingAgentName).trim() ? precedingAgentName : undefined,
     });
-    currentAgentId = agentId;
 
     const round = sharedContext.get("__round") as number | undefined;
     const inputIsUserReply =
@@ -406,6 +338,43 @@ export async function runWorkflow(options: RunWorkflowOptions): Promise<{
       input,
       ...(inputIsUserReply && { inputIsUserReply: true }),
     };
+    // Agent knowledge base: numbered passages in the prompt, citations on the trail step.
+    let ragBlock = "";
+    if (agent.ragCollectionId) {
+      try {
+        const limit = await getEffectiveRagRetrieveLimit({ type: "agent", agentId });
+        const chunks = await retrieveChunks(
+          agent.ragCollectionId,
+          partnerMessage.slice(0, 2000),
+          limit
+        );
+        if (chunks.length > 0) {
+          const cited = buildCitedContext(chunks);
+          ragBlock = `Knowledge base:\n${RAG_CITATION_INSTRUCTIONS}\n\n${cited.context}`;
+          step.citations = cited.citations;
+          await appendExecutionLogStep(
+            runId,
+            "rag_retrieve",
+            `Retrieved ${chunks.length} passage(s)`,
+            { citations: cited.citations }
+          );
+        }
+      } catch (err) {
+        logApiError("run-workflow", "rag_retrieve", err);
+      }
+    }
+    // Remote MCP resources attached to the agent, read fresh at each turn.
+    const resourceRefs = parseMcpResourceRefs(agentDef.mcpResources);
+    if (resourceRefs.length > 0) {
+      const resourceBlock = await buildMcpResourceContext(resourceRefs);
+      ragBlock = ragBlock ? `${ragBlock}\n\n${resourceBlock}` : resourceBlock;
+      await appendExecutionLogStep(
+        runId,
+        "mcp_resources",
+        `Read ${resourceRefs.length} MCP resource(s)`,
+        { uris: resourceRefs.map((r) => r.uri) }
+      );
+    }
     const toolCallsForStep: Array<{ name: string; argsSummary?: string; resultSummary?: string }> =
       [];
     let lastToolId: string | null = null;
@@ -629,24 +598,42 @@ export async function runWorkflow(options: RunWorkflowOptions): Promise<{
           },
         ];
       },
-      ragBlock: "",
+      ragBlock,
       toolInstructionsBlock: toolInstructionsBlock
         ? `Tool instructions:\n${toolInstructionsBlock}`
         : "",
       callLLM: async (input: unknown) => {
         const req =
           input && typeof input === "object" && "messages" in (input as object)
-            ? (input as { llmConfigId?: string; messages: unknown[]; tools?: unknown[] })
+            ? (input as {
+                llmConfigId?: string;
+                messages: unknown[];
+                tools?: unknown[];
+                responseFormat?: unknown;
+              })
             : { messages: [{ role: "user" as const, content: String(input ?? "") }] };
         await appendExecutionLogStep(runId, "llm_request", "Calling LLM…", {
           messages: req.messages,
         });
-        const res = await trackingCallLLM(req as Parameters<typeof trackingCallLLM>[0]);
-        await appendExecutionLogStep(runId, "llm_response", "Response", {
-          content: typeof res.content === "string" ? res.content : undefined,
-          usage: res.usage,
-        });
-        return req.tools && Array.isArray(req.tools) && req.tools.length > 0 ? res : res.content;
+        const res = await usage.callLLM(req as RunLLMRequest, agentId);
+        // servedBy shows which model answered when retries or a fallback were needed.
+        await appendExecutionLogStep(
+          runId,
+          "llm_response",
+          res.servedBy?.fallback
+            ? `Response (fallback ${res.servedBy.provider}/${res.servedBy.model})`
+            : "Response",
+          {
+            content: typeof res.content === "string" ? res.content : undefined,
+            usage: res.usage,
+            ...(res.servedBy && { servedBy: res.servedBy }),
+            ...(res.failedAttempts && { failedAttempts: res.failedAttempts }),
+          }
+        );
+        // Full response for tool calls and structured output (parsed); plain content otherwise.
+        return (req.tools && Array.isArray(req.tools) && req.tools.length > 0) || req.responseFormat
+          ? res
+          : res.content;
       },
       callTool: async (toolId: string, input: unknown, override?: ToolOverride) => {
         if (toolId === GET_WORKFLOW_CONTEXT_TOOL_ID) {
@@ -765,7 +752,15 @@ export async function runWorkflow(options: RunWorkflowOptions): Promise<{
             ? { ...(input as Record<string, unknown>), _workflowContext: toolContext }
             : { _workflowContext: toolContext, message: input };
         let result: unknown;
-        if (toolId === "std-container-session") {
+        const guarded = await resolveGuardedToolCall(toolId, input, override);
+        const refusal = await enforceToolGuardrails(guarded.toolName, guarded.args, {
+          agentId,
+          workflowId,
+          executionId: runId,
+        });
+        if (refusal) {
+          result = refusal;
+        } else if (toolId === "std-container-session") {
           const onChunk = options.onContainerStream
             ? (chunk: ContainerStreamChunk) => options.onContainerStream!(runId, chunk)
             : undefined;
@@ -812,7 +807,8 @@ export async function runWorkflow(options: RunWorkflowOptions): Promise<{
               override,
               options.vaultKey ?? null,
               options.isCancelled,
-              runId
+              runId,
+              { workflowId, agentId }
             );
           } catch (toolErr) {
             const errMsg = toolErr instanceof Error ? toolErr.message : String(toolErr);
@@ -997,11 +993,23 @@ export async function runWorkflow(options: RunWorkflowOptions): Promise<{
           }),
           edges: rawEdges,
         };
+        // Prompt nodes reference stored prompt templates (including ones imported from MCP servers).
+        const promptIds = graph.nodes
+          .filter((n) => n.type === "prompt" && typeof n.parameters?.promptId === "string")
+          .map((n) => n.parameters!.promptId as string);
+        const prompts: Record<string, PromptTemplate> = {};
+        if (promptIds.length > 0) {
+          const promptRows = await db
+            .select()
+            .from(promptsTable)
+            .where(inArray(promptsTable.id, promptIds));
+          for (const row of promptRows) prompts[row.id] = fromPromptRow(row);
+        }
         const nodeExecutor = new NodeAgentExecutor();
         output = await nodeExecutor.execute(
           { graph: graph as Canvas, sharedContextKeys: [], toolIds, defaultLlmConfigId },
           input,
-          { ...context, prompts: {} as Record<string, PromptTemplate> }
+          { ...context, prompts }
         );
       }
       const turns =
@@ -1032,8 +1040,10 @@ export async function runWorkflow(options: RunWorkflowOptions): Promise<{
       step.error = errMsg;
       if (toolCallsForStep.length > 0) step.toolCalls = [...toolCallsForStep];
       trail.push(step);
+      // The budget stop already recorded run output and logs.
+      const budgetStop = err instanceof BudgetExceededError;
       // Persist agent/code execution errors to run_logs for any workflow run (debugging, iterative improvement)
-      if (errMsg !== WAITING_FOR_USER_MESSAGE) {
+      if (errMsg !== WAITING_FOR_USER_MESSAGE && !budgetStop) {
         const kind = agent.kind ?? "llm";
         const sourceTag = kind === "code" ? "[Code agent]" : "[Agent]";
         const payloadObj: Record<string, unknown> = {
@@ -1058,7 +1068,7 @@ export async function runWorkflow(options: RunWorkflowOptions): Promise<{
           .run();
       }
       // Do not overwrite run output when request_user_help just wrote the waiting payload
-      if (err instanceof Error && err.message !== WAITING_FOR_USER_MESSAGE) {
+      if (err instanceof Error && err.message !== WAITING_FOR_USER_MESSAGE && !budgetStop) {
         await options.onStepComplete?.(trail, undefined);
       }
       if (err instanceof Error && err.message === WAITING_FOR_USER_MESSAGE) {
@@ -1068,14 +1078,25 @@ export async function runWorkflow(options: RunWorkflowOptions): Promise<{
     }
   };
 
-  const handlers: Record<
-    string,
-    (
-      nodeId: string,
-      config: Record<string, unknown> | undefined,
-      sharedContext: unknown
-    ) => Promise<unknown>
-  > = {
+  // Serializes run state reads/writes and event enqueues while DAG nodes run concurrently.
+  const withStateLock = createSerialQueue();
+
+  /**
+   * Writes a delay node's wake-up time to the run state right away. Sequential runs already hold
+   * the lock while a node runs; DAG nodes run outside it.
+   */
+  async function persistDelayWakeUp(nodeId: string, wakeAt: number | null): Promise<void> {
+    const write = async () => {
+      const latest = await getExecutionRunState(runId);
+      if (!latest) return;
+      const ctx = parseRunStateSharedContext(latest);
+      ctx[`${DELAY_UNTIL_KEY_PREFIX}${nodeId}`] = wakeAt;
+      await updateExecutionRunState(runId, { sharedContext: ctx });
+    };
+    await (dagMode ? withStateLock(write) : write());
+  }
+
+  const handlers: Record<string, WorkflowNodeHandler> = {
     agent: (nodeId, config, sharedContext) =>
       agentHandler(
         nodeId,
@@ -1100,6 +1121,28 @@ export async function runWorkflow(options: RunWorkflowOptions): Promise<{
       await options.onStepComplete?.(trail, undefined);
       throw new WaitingForUserError(WAITING_FOR_USER_MESSAGE, trail);
     },
+    ...createControlNodeHandlers({
+      getUpstreamNodeIds: (nodeId) => [
+        ...new Set(edges.filter((e) => e.to === nodeId).map((e) => e.from)),
+      ],
+      getOutgoingBranches: (nodeId) =>
+        edges.filter((e) => e.from === nodeId && e.branch != null).map((e) => e.branch as string),
+      runInputs,
+      isCancelled: options.isCancelled,
+      persistWakeUp: persistDelayWakeUp,
+      onStep: async ({ nodeId, nodeType, input, output, branch }) => {
+        const node = (workflowForEngine.nodes ?? []).find((n) => n.id === nodeId);
+        trail.push({
+          nodeId,
+          agentId: "",
+          agentName: node?.name?.trim() || CONTROL_NODE_LABELS[nodeType] || nodeType,
+          order: stepOrder++,
+          input,
+          output: branch !== undefined ? { branch, value: output } : output,
+        });
+        await options.onStepComplete?.(trail, output);
+      },
+    }),
   };
 
   await ensureStandardTools();
@@ -1108,215 +1151,39 @@ export async function runWorkflow(options: RunWorkflowOptions): Promise<{
   await options.onProgress?.({ message: "Starting workflow…" }, trail);
 
   let result: { output: unknown; context: Record<string, unknown> };
-
-  if (USE_EVENT_DRIVEN_ENGINE) {
-    const startNodeId = (workflowForEngine.nodes ?? [])[0]?.id;
-    if (!startNodeId) {
-      result = { output: undefined, context: initialContext };
+  // Runs that fail, wait for the user or are cancelled also write their usage, so budgets see it.
+  try {
+    if (USE_EVENT_DRIVEN_ENGINE) {
+      result = await runWorkflowEvents({
+        runId,
+        workflowId,
+        branchId,
+        workflow: workflowForEngine,
+        graph,
+        handlers,
+        runInputs,
+        resumeUserResponse: options.resumeUserResponse,
+        isCancelled: options.isCancelled,
+        trail,
+        restoreStepOrder: (order) => {
+          stepOrder = order;
+        },
+        initialContext,
+        withStateLock,
+      });
     } else {
-      let state = await getExecutionRunState(runId);
-      if (state?.trailSnapshot) {
-        const snap =
-          typeof state.trailSnapshot === "string"
-            ? (JSON.parse(state.trailSnapshot) as ExecutionTraceStep[])
-            : (state.trailSnapshot as ExecutionTraceStep[]);
-        if (Array.isArray(snap)) {
-          trail.length = 0;
-          trail.push(...snap);
-          stepOrder = snap.reduce((m, s) => Math.max(m, (s.order ?? 0) + 1), 0);
-        }
-      }
-      if (options.resumeUserResponse?.trim() && state) {
-        await enqueueExecutionEvent(runId, "UserResponded", {
-          content: options.resumeUserResponse.trim(),
-        });
-      }
-      if (!state) {
-        await setExecutionRunState(runId, {
-          workflowId,
-          targetBranchId: branchId ?? null,
-          currentNodeId: startNodeId,
-          round: 0,
-          sharedContext: initialContext,
-          status: "running",
-        });
-        if (!options.resumeUserResponse?.trim()) {
-          await enqueueExecutionEvent(runId, "RunStarted");
-          await enqueueExecutionEvent(runId, "NodeRequested", { nodeId: startNodeId });
-        }
-      }
-
-      async function processOneEvent(event: {
-        id: string;
-        type: string;
-        payload: Record<string, unknown> | null;
-      }): Promise<"continue" | "waiting" | "completed"> {
-        if (event.type === "RunStarted") {
-          await markEventProcessed(event.id);
-          return "continue";
-        }
-        if (event.type === "NodeRequested") {
-          const nodeId = (event.payload?.nodeId as string) ?? "";
-          const node = (workflowForEngine.nodes ?? []).find((n) => n.id === nodeId);
-          if (!node) {
-            await markEventProcessed(event.id);
-            return "continue";
-          }
-          state = await getExecutionRunState(runId);
-          if (!state || state.status !== "running") {
-            await markEventProcessed(event.id);
-            return "completed";
-          }
-          const ctx = new SharedContextManager(
-            parseRunStateSharedContext(state) as Record<string, unknown>
-          );
-          const nodeParams = node as {
-            parameters?: Record<string, unknown>;
-            config?: Record<string, unknown>;
-          };
-          const config = mergeNodeConfigWithRunInputs(nodeParams, runInputs);
-          const handler = handlers[node.type];
-          if (!handler) {
-            await markEventProcessed(event.id);
-            return "continue";
-          }
-          try {
-            const output = await handler(nodeId, config, ctx);
-            const snapshot = ctx.snapshot();
-            snapshot[`__output_${nodeId}`] = output;
-            await setExecutionRunState(runId, {
-              workflowId: state.workflowId,
-              targetBranchId: state.targetBranchId,
-              currentNodeId: nodeId,
-              round: state.round,
-              sharedContext: snapshot,
-              status: "running",
-              trailSnapshot: trail,
-            });
-            await enqueueExecutionEvent(runId, "NodeCompleted", { nodeId, output });
-            await markEventProcessed(event.id);
-            return "continue";
-          } catch (err) {
-            if (err instanceof WaitingForUserError) {
-              await updateExecutionRunState(runId, {
-                status: "waiting_for_user",
-                waitingAtNodeId: nodeId,
-                trailSnapshot: trail,
-              });
-              await markEventProcessed(event.id);
-              return "waiting";
-            }
-            throw err;
-          }
-        }
-        if (event.type === "NodeCompleted") {
-          const nodeId = (event.payload?.nodeId as string) ?? "";
-          const output = event.payload?.output;
-          state = await getExecutionRunState(runId);
-          if (!state) {
-            await markEventProcessed(event.id);
-            return "completed";
-          }
-          const { nextNodeId, nextRound, completed } = computeNextNodeId(
-            nodeId,
-            output,
-            state.round
-          );
-          if (completed) {
-            await updateExecutionRunState(runId, { status: "completed", round: nextRound });
-            await markEventProcessed(event.id);
-            return "completed";
-          }
-          if (nextNodeId) {
-            if (trail.length > 0) {
-              const lastStep = trail[trail.length - 1] as ExecutionTraceStep;
-              lastStep.sentToNodeId = nextNodeId;
-            }
-            await updateExecutionRunState(runId, { currentNodeId: nextNodeId, round: nextRound });
-            await enqueueExecutionEvent(runId, "NodeRequested", { nodeId: nextNodeId });
-          }
-          await markEventProcessed(event.id);
-          return "continue";
-        }
-        if (event.type === "UserResponded") {
-          const content = (event.payload?.content as string) ?? "";
-          state = await getExecutionRunState(runId);
-          if (!state || !state.waitingAtNodeId) {
-            await markEventProcessed(event.id);
-            return "completed";
-          }
-          const waitingNodeId = state.waitingAtNodeId;
-          const ctx = parseRunStateSharedContext(state) as Record<string, unknown>;
-          ctx.__user_response = content;
-          const { nextNodeId } = computeNextNodeId(waitingNodeId, content, state.round);
-          await setExecutionRunState(runId, {
-            workflowId: state.workflowId,
-            targetBranchId: state.targetBranchId,
-            currentNodeId: state.currentNodeId,
-            round: state.round,
-            sharedContext: ctx,
-            status: "running",
-            waitingAtNodeId: null,
-          });
-          if (nextNodeId)
-            await enqueueExecutionEvent(runId, "NodeRequested", { nodeId: nextNodeId });
-          await markEventProcessed(event.id);
-          return "continue";
-        }
-        await markEventProcessed(event.id);
-        return "continue";
-      }
-
-      while (true) {
-        const event = await getNextPendingEvent(runId);
-        if (!event) {
-          const s = await getExecutionRunState(runId);
-          if (s?.status === "running")
-            await updateExecutionRunState(runId, { status: "completed" });
-          break;
-        }
-        if (options.isCancelled && (await options.isCancelled()))
-          throw new Error(RUN_CANCELLED_MESSAGE);
-        const outcome = await processOneEvent(event);
-        if (outcome === "waiting") {
-          throw new WaitingForUserError(WAITING_FOR_USER_MESSAGE, trail);
-        }
-        if (outcome === "completed") break;
-      }
-
-      state = await getExecutionRunState(runId);
-      const ctx = state ? parseRunStateSharedContext(state) : initialContext;
-      const nodes = workflowForEngine.nodes ?? [];
-      const lastNodeId = state?.currentNodeId ?? nodes[nodes.length - 1]?.id;
-      const output = lastNodeId && ctx ? (ctx[`__output_${lastNodeId}`] as unknown) : undefined;
-      result = { output: output ?? ctx?.output, context: ctx ?? initialContext };
+      result = await engine.execute(workflowForEngine, handlers, initialContext);
     }
-  } else {
-    result = await engine.execute(workflowForEngine, handlers, initialContext);
-  }
 
-  for (const entry of usageEntries) {
-    const usage = entry.response.usage;
-    if (usage && (usage.promptTokens > 0 || usage.completionTokens > 0)) {
-      const pricing = resolveModelPricing(entry.config.model, customPricing);
-      const cost = calculateCost(usage.promptTokens, usage.completionTokens, pricing);
-      await db
-        .insert(tokenUsage)
-        .values(
-          toTokenUsageRow({
-            id: crypto.randomUUID(),
-            executionId: runId,
-            agentId: entry.agentId ?? null,
-            workflowId,
-            provider: entry.config.provider,
-            model: entry.config.model,
-            promptTokens: usage.promptTokens,
-            completionTokens: usage.completionTokens,
-            estimatedCost: cost != null ? String(cost) : null,
-          })
-        )
-        .run();
+    // Branch runs keep their raw output; the output mapping describes the main graph's result.
+    if (!branch && workflow.outputMapping && Object.keys(workflow.outputMapping).length > 0) {
+      result = {
+        ...result,
+        output: mapWorkflowOutput(workflow, { ...result, input: runInputs }),
+      };
     }
+  } finally {
+    await usage.recordUsage();
   }
 
   return { ...result, trail };
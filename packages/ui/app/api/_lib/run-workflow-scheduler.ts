@@ -0,0 +1,612 @@
+/**
+ * Event-driven scheduler for workflow runs. Nodes are requested, completed and answered through
+ * execution events; run state (shared context, DAG progress, trail) is persisted after each step,
+ * so a run can pause for the user or a budget and resume later. Acyclic graphs run
+ * dependency-driven with several nodes in flight; other graphs follow one edge per step.
+ */
+import {
+  SharedContextManager,
+  findWorkflowCycle,
+  resolveReadyWorkflowNodes,
+  readDAGProgress,
+  getSinkNodeIds,
+  collectUpstreamOutputs,
+  DAG_PROGRESS_KEY,
+  withFallbackEdge,
+  isEdgeBranchTaken,
+  evaluateEdgeCondition,
+  collectLlmJudgeConditions,
+  resolveLlmJudgeVerdicts,
+  type LlmJudgeVerdicts,
+} from "@agentron-studio/runtime";
+import type { Workflow, EdgeCondition } from "@agentron-studio/core";
+import {
+  enqueueExecutionEvent,
+  getNextPendingEvent,
+  markEventProcessed,
+  getExecutionRunState,
+  setExecutionRunState,
+  updateExecutionRunState,
+  parseRunStateSharedContext,
+} from "./execution-events";
+import { BudgetExceededError } from "./budgets";
+import {
+  WAITING_FOR_USER_MESSAGE,
+  RUN_CANCELLED_MESSAGE,
+  WaitingForUserError,
+  type ExecutionTraceStep,
+} from "./run-workflow-constants";
+import { mergeSharedContextDelta, findLoopBackEdges, getLoopRegions } from "./run-workflow-dag";
+import { LOOP_NODE_TYPES } from "./run-workflow-control-nodes";
+
+/** Edge of the run's graph; canvas edges use source/target, the scheduler from/to. */
+export type WorkflowGraphEdge = {
+  from: string;
+  to: string;
+  condition?: EdgeCondition;
+  branch?: string;
+};
+
+export type WorkflowNodeHandler = (
+  nodeId: string,
+  config: Record<string, unknown> | undefined,
+  sharedContext: unknown
+) => Promise<unknown>;
+
+export type WorkflowGraph = ReturnType<typeof createWorkflowGraph>;
+
+/** Merges run-level inputs into node parameters so the agent handler receives them (e.g. url for first turn). Exported for unit tests. */
+export function mergeNodeConfigWithRunInputs(
+  nodeParams: { parameters?: Record<string, unknown>; config?: Record<string, unknown> },
+  runInputs?: Record<string, unknown>
+): Record<string, unknown> {
+  const base = nodeParams.parameters ?? nodeParams.config ?? {};
+  if (!runInputs || Object.keys(runInputs).length === 0) return { ...base };
+  return { ...base, ...runInputs };
+}
+
+/**
+ * Routing for a run's graph: which edges are taken, which nodes are ready and where a sequential
+ * run goes next. callLLM answers the llm_judge conditions on edges.
+ */
+export function createWorkflowGraph(
+  workflow: Workflow,
+  maxRounds: number | undefined,
+  callLLM: Parameters<typeof resolveLlmJudgeVerdicts>[2]
+) {
+  // Normalize edges: canvas uses source/target, engine/handler use from/to; preserve condition for conditional edges
+  const edges: WorkflowGraphEdge[] = (workflow.edges ?? []).map(
+    (e: {
+      source?: string;
+      target?: string;
+      from?: string;
+      to?: string;
+      condition?: EdgeCondition;
+      branch?: string;
+    }) => ({
+      from: e.source ?? e.from ?? "",
+      to: e.target ?? e.to ?? "",
+      condition: e.condition,
+      branch: e.branch,
+    })
+  );
+
+  /** Edge is taken when the source picked its branch (routing nodes) and its condition holds. */
+  function isEdgeActive(
+    edge: WorkflowGraphEdge,
+    lastOutput: unknown,
+    ctx: Record<string, unknown> | undefined
+  ): boolean {
+    if (!isEdgeBranchTaken(edge, (k) => ctx?.[k])) return false;
+    const verdicts = ctx?.[`__judge_${edge.from}`] as LlmJudgeVerdicts | undefined;
+    return evaluateEdgeCondition(edge.condition, lastOutput, verdicts ?? {});
+  }
+
+  /**
+   * Asks the llm_judge conditions on edges leaving nodeId about its output. The verdicts are
+   * stored under `__judge_<nodeId>` so routing stays synchronous and a resumed run reuses them.
+   */
+  async function judgeOutgoingEdges(
+    nodeId: string,
+    output: unknown
+  ): Promise<LlmJudgeVerdicts | undefined> {
+    const judges = edges
+      .filter((e) => e.from === nodeId)
+      .flatMap((e) => collectLlmJudgeConditions(e.condition));
+    if (judges.length === 0) return undefined;
+    return resolveLlmJudgeVerdicts(judges, output, callLLM);
+  }
+
+  // Acyclic edge graphs run dependency-driven (fan-out/join, several nodes in flight), also when
+  // they contain for_each/loop nodes; other cyclic graphs keep the path that follows one edge per
+  // step, which ends on maxRounds or when a condition leaves the loop.
+  const graphNodeIds = (workflow.nodes ?? []).map((n) => n.id);
+  const graphEdges = edges.filter(
+    (e) => graphNodeIds.includes(e.from) && graphNodeIds.includes(e.to)
+  );
+  const loopNodeIds = new Set(
+    (workflow.nodes ?? []).filter((n) => LOOP_NODE_TYPES.includes(n.type)).map((n) => n.id)
+  );
+  // Edges back into a for_each/loop node are bounded by its item count, not by maxRounds.
+  const loopBackEdges = findLoopBackEdges(graphEdges, loopNodeIds);
+  const dagEdges = graphEdges.filter((e) => !loopBackEdges.includes(e));
+  const loopRegions = new Map(
+    [...loopNodeIds].map((id) => [id, getLoopRegions(id, dagEdges, loopBackEdges)])
+  );
+  const graphCycle = findWorkflowCycle(graphNodeIds, dagEdges);
+  const dagMode = dagEdges.length > 0 && graphCycle == null;
+
+  /** Loop nodes between two items: they picked an item and their body has not finished yet. */
+  function getIteratingLoopNodeIds(ctx: Record<string, unknown>): string[] {
+    return [...loopNodeIds].filter((id) => ctx[`__loop_${id}`] != null);
+  }
+
+  /**
+   * Schedule nodes whose dependencies are settled; returns ids to request and updates progress in ctx.
+   * Like computeNextNodeId, the run starts at the first node and an unmatched condition falls back
+   * to the first edge without a branch. While a loop node iterates, nodes after the loop wait; once
+   * every body node has finished or was skipped, the body is reset and the loop node runs again.
+   */
+  function scheduleReadyNodes(ctx: Record<string, unknown>): string[] {
+    const progress = readDAGProgress(ctx);
+    const iterating = getIteratingLoopNodeIds(ctx);
+    const waiting = new Set(iterating.flatMap((id) => loopRegions.get(id)?.after ?? []));
+    const { ready, skipped } = resolveReadyWorkflowNodes(
+      graphNodeIds.filter((id) => !waiting.has(id)),
+      dagEdges,
+      progress,
+      withFallbackEdge(graphEdges, (e) => isEdgeActive(e, ctx[`__output_${e.from}`], ctx)),
+      graphNodeIds.slice(0, 1)
+    );
+    progress.skipped.push(...skipped);
+    progress.started.push(...ready);
+    for (const loopId of iterating) {
+      const body = loopRegions.get(loopId)?.body ?? [];
+      const settled = (id: string) =>
+        progress.completed.includes(id) || progress.skipped.includes(id);
+      if (!settled(loopId) || !body.every(settled)) continue;
+      const reset = new Set([loopId, ...body]);
+      progress.completed = progress.completed.filter((id) => !reset.has(id));
+      progress.skipped = progress.skipped.filter((id) => !reset.has(id));
+      progress.started = progress.started.filter((id) => !body.includes(id));
+      ready.push(loopId);
+    }
+    ctx[DAG_PROGRESS_KEY] = progress;
+    return ready;
+  }
+
+  /** Compute next node from workflow graph (with conditional edges and rounds). */
+  function computeNextNodeId(
+    currentNodeId: string,
+    lastOutput: unknown,
+    round: number,
+    ctx?: Record<string, unknown>
+  ): { nextNodeId: string | null; nextRound: number; completed: boolean } {
+    const nodes = workflow.nodes ?? [];
+    const roundLimit = maxRounds != null && maxRounds > 0 ? maxRounds : null;
+    const startNodeId = nodes[0]?.id ?? null;
+    const hasEdges = edges.length > 0;
+
+    if (hasEdges && startNodeId) {
+      const outgoing = edges.filter((e: { from: string }) => e.from === currentNodeId);
+      const matching = outgoing.filter((e) => isEdgeActive(e, lastOutput, ctx));
+      // Fallback keeps unmatched conditional edges working as before; branch edges never fall back.
+      const edge = matching[0] ?? outgoing.find((e) => e.branch == null);
+      const nextId = edge?.to ?? null;
+      if (nextId && nextId !== startNodeId)
+        return { nextNodeId: nextId, nextRound: round, completed: false };
+      if (nextId === startNodeId) {
+        const nextRound = round + 1;
+        if (roundLimit != null && nextRound >= roundLimit)
+          return { nextNodeId: null, nextRound, completed: true };
+        return { nextNodeId: startNodeId, nextRound, completed: false };
+      }
+      return { nextNodeId: null, nextRound: round, completed: true };
+    }
+
+    const idx = nodes.findIndex((n) => n.id === currentNodeId);
+    if (idx < 0 || idx >= nodes.length - 1)
+      return { nextNodeId: null, nextRound: round, completed: true };
+    return { nextNodeId: nodes[idx + 1].id, nextRound: round, completed: false };
+  }
+
+  return {
+    edges,
+    graphNodeIds,
+    graphEdges,
+    dagEdges,
+    loopBackEdges,
+    dagMode,
+    judgeOutgoingEdges,
+    getIteratingLoopNodeIds,
+    scheduleReadyNodes,
+    computeNextNodeId,
+  };
+}
+
+export type WorkflowEventLoopDeps = {
+  runId: string;
+  workflowId: string;
+  branchId?: string;
+  /** Graph the run executes (the main graph or a branch). */
+  workflow: Workflow;
+  graph: WorkflowGraph;
+  handlers: Record<string, WorkflowNodeHandler>;
+  runInputs?: Record<string, unknown>;
+  resumeUserResponse?: string;
+  isCancelled?: () => Promise<boolean>;
+  trail: ExecutionTraceStep[];
+  /** Called with the next step order after the trail was restored from run state. */
+  restoreStepOrder: (order: number) => void;
+  initialContext: Record<string, unknown>;
+  /** Serializes run state reads/writes and event enqueues while DAG nodes run concurrently. */
+  withStateLock: <T>(fn: () => Promise<T>) => Promise<T>;
+};
+
+/**
+ * Runs the workflow's events until it completes, waits for the user (throws WaitingForUserError)
+ * or fails. Returns the last sink node's output and the final shared context.
+ */
+export async function runWorkflowEvents(
+  deps: WorkflowEventLoopDeps
+): Promise<{ output: unknown; context: Record<string, unknown> }> {
+  const {
+    runId,
+    workflowId,
+    branchId,
+    workflow,
+    handlers,
+    runInputs,
+    resumeUserResponse,
+    isCancelled,
+    trail,
+    restoreStepOrder,
+    initialContext,
+    withStateLock,
+  } = deps;
+  const {
+    graphNodeIds,
+    graphEdges,
+    dagEdges,
+    loopBackEdges,
+    dagMode,
+    judgeOutgoingEdges,
+    getIteratingLoopNodeIds,
+    scheduleReadyNodes,
+    computeNextNodeId,
+  } = deps.graph;
+  const startNodeId = (workflow.nodes ?? [])[0]?.id;
+  if (!startNodeId) return { output: undefined, context: initialContext };
+
+  let state = await getExecutionRunState(runId);
+  if (state?.trailSnapshot) {
+    const snap =
+      typeof state.trailSnapshot === "string"
+        ? (JSON.parse(state.trailSnapshot) as ExecutionTraceStep[])
+        : (state.trailSnapshot as ExecutionTraceStep[]);
+    if (Array.isArray(snap)) {
+      trail.length = 0;
+      trail.push(...snap);
+      restoreStepOrder(snap.reduce((m, s) => Math.max(m, (s.order ?? 0) + 1), 0));
+    }
+  }
+  if (resumeUserResponse?.trim() && state) {
+    await enqueueExecutionEvent(runId, "UserResponded", {
+      content: resumeUserResponse.trim(),
+    });
+  }
+  if (!state) {
+    const startContext = { ...initialContext };
+    const startNodeIds = dagMode ? scheduleReadyNodes(startContext) : [startNodeId];
+    await setExecutionRunState(runId, {
+      workflowId,
+      targetBranchId: branchId ?? null,
+      currentNodeId: startNodeIds[0] ?? startNodeId,
+      round: 0,
+      sharedContext: startContext,
+      status: "running",
+    });
+    if (!resumeUserResponse?.trim()) {
+      await enqueueExecutionEvent(runId, "RunStarted");
+      for (const nodeId of startNodeIds)
+        await enqueueExecutionEvent(runId, "NodeRequested", { nodeId });
+    }
+  }
+
+  /** Runs one requested node in DAG mode; several of these can be in flight at once. */
+  async function runDagNode(nodeId: string): Promise<"continue" | "waiting"> {
+    const node = (workflow.nodes ?? []).find((n) => n.id === nodeId);
+    const startState = await withStateLock(() => getExecutionRunState(runId));
+    if (!node || !startState) return "continue";
+    if (startState.status !== "running") {
+      // Run paused meanwhile: release the node so it is requested again after resume.
+      await withStateLock(async () => {
+        const latest = await getExecutionRunState(runId);
+        if (!latest) return;
+        const ctx = parseRunStateSharedContext(latest);
+        const progress = readDAGProgress(ctx);
+        progress.started = progress.started.filter((id) => id !== nodeId);
+        ctx[DAG_PROGRESS_KEY] = progress;
+        await updateExecutionRunState(runId, { sharedContext: ctx });
+      });
+      return "continue";
+    }
+    const before = parseRunStateSharedContext(startState);
+    // A loop node coming back from its body receives what the body produced.
+    const inputEdges = getIteratingLoopNodeIds(before).includes(nodeId) ? loopBackEdges : dagEdges;
+    const inputs = collectUpstreamOutputs(nodeId, inputEdges, (k) => before[k]);
+    if (Object.keys(inputs).length > 0) before[`__inputs_${nodeId}`] = inputs;
+    else delete before[`__inputs_${nodeId}`];
+    const ctx = new SharedContextManager(structuredClone(before));
+    const handler = handlers[node.type];
+    let output: unknown = undefined;
+    if (handler) {
+      try {
+        output = await handler(
+          nodeId,
+          mergeNodeConfigWithRunInputs(
+            node as {
+              parameters?: Record<string, unknown>;
+              config?: Record<string, unknown>;
+            },
+            runInputs
+          ),
+          ctx
+        );
+      } catch (err) {
+        if (err instanceof WaitingForUserError) {
+          await withStateLock(() =>
+            updateExecutionRunState(runId, {
+              status: "waiting_for_user",
+              waitingAtNodeId: nodeId,
+              trailSnapshot: trail,
+            })
+          );
+          return "waiting";
+        }
+        if (err instanceof BudgetExceededError && err.exceeded.action === "pause") {
+          // Request the node again so it runs when the paused run is resumed.
+          await withStateLock(() => enqueueExecutionEvent(runId, "NodeRequested", { nodeId }));
+        }
+        throw err;
+      }
+    }
+    const after = ctx.snapshot();
+    after[`__output_${nodeId}`] = output;
+    after.__last_node_id = nodeId;
+    const verdicts = await judgeOutgoingEdges(nodeId, output);
+    if (verdicts) after[`__judge_${nodeId}`] = verdicts;
+    await withStateLock(async () => {
+      const latest = await getExecutionRunState(runId);
+      const merged = mergeSharedContextDelta(
+        latest ? parseRunStateSharedContext(latest) : {},
+        { ...parseRunStateSharedContext(startState), [`__inputs_${nodeId}`]: undefined },
+        after
+      );
+      await updateExecutionRunState(runId, { sharedContext: merged, trailSnapshot: trail });
+      await enqueueExecutionEvent(runId, "NodeCompleted", { nodeId, output });
+    });
+    return "continue";
+  }
+
+  async function processOneEvent(event: {
+    id: string;
+    type: string;
+    payload: Record<string, unknown> | null;
+  }): Promise<"continue" | "waiting" | "completed"> {
+    if (event.type === "RunStarted") {
+      await markEventProcessed(event.id);
+      return "continue";
+    }
+    if (event.type === "NodeRequested") {
+      const nodeId = (event.payload?.nodeId as string) ?? "";
+      const node = (workflow.nodes ?? []).find((n) => n.id === nodeId);
+      if (!node) {
+        await markEventProcessed(event.id);
+        return "continue";
+      }
+      state = await getExecutionRunState(runId);
+      if (!state || state.status !== "running") {
+        await markEventProcessed(event.id);
+        return "completed";
+      }
+      const ctx = new SharedContextManager(
+        parseRunStateSharedContext(state) as Record<string, unknown>
+      );
+      const nodeParams = node as {
+        parameters?: Record<string, unknown>;
+        config?: Record<string, unknown>;
+      };
+      const config = mergeNodeConfigWithRunInputs(nodeParams, runInputs);
+      const handler = handlers[node.type];
+      if (!handler) {
+        await markEventProcessed(event.id);
+        return "continue";
+      }
+      try {
+        const output = await handler(nodeId, config, ctx);
+        const snapshot = ctx.snapshot();
+        snapshot[`__output_${nodeId}`] = output;
+        snapshot.__last_node_id = nodeId;
+        const verdicts = await judgeOutgoingEdges(nodeId, output);
+        if (verdicts) snapshot[`__judge_${nodeId}`] = verdicts;
+        await setExecutionRunState(runId, {
+          workflowId: state.workflowId,
+          targetBranchId: state.targetBranchId,
+          currentNodeId: nodeId,
+          round: state.round,
+          sharedContext: snapshot,
+          status: "running",
+          trailSnapshot: trail,
+        });
+        await enqueueExecutionEvent(runId, "NodeCompleted", { nodeId, output });
+        await markEventProcessed(event.id);
+        return "continue";
+      } catch (err) {
+        if (err instanceof WaitingForUserError) {
+          await updateExecutionRunState(runId, {
+            status: "waiting_for_user",
+            waitingAtNodeId: nodeId,
+            trailSnapshot: trail,
+          });
+          await markEventProcessed(event.id);
+          return "waiting";
+        }
+        throw err;
+      }
+    }
+    if (event.type === "NodeCompleted") {
+      const nodeId = (event.payload?.nodeId as string) ?? "";
+      const output = event.payload?.output;
+      state = await getExecutionRunState(runId);
+      if (!state) {
+        await markEventProcessed(event.id);
+        return "completed";
+      }
+      if (dagMode) {
+        const ctx = parseRunStateSharedContext(state);
+        const progress = readDAGProgress(ctx);
+        if (!progress.completed.includes(nodeId)) progress.completed.push(nodeId);
+        ctx[DAG_PROGRESS_KEY] = progress;
+        // While waiting for the user, only record completion; scheduling resumes on UserResponded.
+        const requested = state.status === "running" ? scheduleReadyNodes(ctx) : [];
+        const step = [...trail].reverse().find((s) => s.nodeId === nodeId);
+        if (step && requested.length > 0) step.sentToNodeId = requested[0];
+        await updateExecutionRunState(runId, { currentNodeId: nodeId, sharedContext: ctx });
+        for (const id of requested)
+          await enqueueExecutionEvent(runId, "NodeRequested", { nodeId: id });
+        await markEventProcessed(event.id);
+        return "continue";
+      }
+      const { nextNodeId, nextRound, completed } = computeNextNodeId(
+        nodeId,
+        output,
+        state.round,
+        parseRunStateSharedContext(state)
+      );
+      if (completed) {
+        await updateExecutionRunState(runId, { status: "completed", round: nextRound });
+        await markEventProcessed(event.id);
+        return "completed";
+      }
+      if (nextNodeId) {
+        if (trail.length > 0) {
+          const lastStep = trail[trail.length - 1] as ExecutionTraceStep;
+          lastStep.sentToNodeId = nextNodeId;
+        }
+        await updateExecutionRunState(runId, { currentNodeId: nextNodeId, round: nextRound });
+        await enqueueExecutionEvent(runId, "NodeRequested", { nodeId: nextNodeId });
+      }
+      await markEventProcessed(event.id);
+      return "continue";
+    }
+    if (event.type === "UserResponded") {
+      const content = (event.payload?.content as string) ?? "";
+      state = await getExecutionRunState(runId);
+      if (!state || !state.waitingAtNodeId) {
+        await markEventProcessed(event.id);
+        return "completed";
+      }
+      const waitingNodeId = state.waitingAtNodeId;
+      const ctx = parseRunStateSharedContext(state) as Record<string, unknown>;
+      ctx.__user_response = content;
+      const verdicts = await judgeOutgoingEdges(waitingNodeId, content);
+      if (verdicts) ctx[`__judge_${waitingNodeId}`] = verdicts;
+      if (dagMode) {
+        const progress = readDAGProgress(ctx);
+        if (!progress.completed.includes(waitingNodeId)) progress.completed.push(waitingNodeId);
+        ctx[DAG_PROGRESS_KEY] = progress;
+        const requested = scheduleReadyNodes(ctx);
+        await updateExecutionRunState(runId, {
+          sharedContext: ctx,
+          status: "running",
+          waitingAtNodeId: null,
+        });
+        for (const id of requested)
+          await enqueueExecutionEvent(runId, "NodeRequested", { nodeId: id });
+        await markEventProcessed(event.id);
+        return "continue";
+      }
+      const { nextNodeId } = computeNextNodeId(waitingNodeId, content, state.round, ctx);
+      await setExecutionRunState(runId, {
+        workflowId: state.workflowId,
+        targetBranchId: state.targetBranchId,
+        currentNodeId: state.currentNodeId,
+        round: state.round,
+        sharedContext: ctx,
+        status: "running",
+        waitingAtNodeId: null,
+      });
+      if (nextNodeId) await enqueueExecutionEvent(runId, "NodeRequested", { nodeId: nextNodeId });
+      await markEventProcessed(event.id);
+      return "continue";
+    }
+    await markEventProcessed(event.id);
+    return "continue";
+  }
+
+  const inFlight = new Map<string, Promise<"continue" | "waiting">>();
+  // Errors of dispatched nodes, kept even when a node fails before the loop awaits it.
+  const nodeErrors: unknown[] = [];
+  let waitingForUser = false;
+  try {
+    while (true) {
+      const event = await withStateLock(() => getNextPendingEvent(runId));
+      if (nodeErrors.length > 0) throw nodeErrors[0];
+      if (!event) {
+        if (inFlight.size > 0) {
+          await Promise.race(inFlight.values());
+          continue;
+        }
+        if (waitingForUser) throw new WaitingForUserError(WAITING_FOR_USER_MESSAGE, trail);
+        const s = await getExecutionRunState(runId);
+        if (s?.status === "running") await updateExecutionRunState(runId, { status: "completed" });
+        break;
+      }
+      if (isCancelled && (await isCancelled())) throw new Error(RUN_CANCELLED_MESSAGE);
+      if (dagMode && event.type === "NodeRequested") {
+        // Dispatch without awaiting so independent nodes run concurrently; progress.started
+        // in run state records the request, so the event is marked processed right away.
+        const nodeId = (event.payload?.nodeId as string) ?? "";
+        await withStateLock(() => markEventProcessed(event.id));
+        // The outcome is noted before the node leaves inFlight, so none is lost.
+        const running = runDagNode(nodeId)
+          .then(
+            (outcome) => {
+              if (outcome === "waiting") waitingForUser = true;
+              return outcome;
+            },
+            (err) => {
+              nodeErrors.push(err);
+              throw err;
+            }
+          )
+          .finally(() => inFlight.delete(nodeId));
+        // Failures surface through nodeErrors; avoid an unhandled rejection meanwhile.
+        running.catch(() => {});
+        inFlight.set(nodeId, running);
+        continue;
+      }
+      const outcome = await withStateLock(() => processOneEvent(event));
+      if (outcome === "waiting") {
+        throw new WaitingForUserError(WAITING_FOR_USER_MESSAGE, trail);
+      }
+      if (outcome === "completed") break;
+    }
+  } catch (err) {
+    // Let in-flight nodes settle so none keeps writing run state after the loop exits.
+    await Promise.allSettled(inFlight.values());
+    throw err;
+  }
+
+  state = await getExecutionRunState(runId);
+  const ctx = state ? parseRunStateSharedContext(state) : initialContext;
+  const nodes = workflow.nodes ?? [];
+  const sinkIds = dagMode ? getSinkNodeIds(graphNodeIds, graphEdges) : [];
+  const lastSinkId = dagMode
+    ? [...readDAGProgress(ctx).completed].reverse().find((id) => sinkIds.includes(id))
+    : undefined;
+  const lastNodeId = lastSinkId ?? state?.currentNodeId ?? nodes[nodes.length - 1]?.id;
+  const output = lastNodeId && ctx ? (ctx[`__output_${lastNodeId}`] as unknown) : undefined;
+  return { output: output ?? ctx?.output, context: ctx ?? initialContext };
+}
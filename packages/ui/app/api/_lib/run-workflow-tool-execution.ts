@@ -8,6 +8,7 @@ import {
   runCode,
   httpRequest,
   httpToolAdapter,
+  mcpToolAdapter,
   webhook,
   weather,
   searchWeb,
@@ -24,6 +25,11 @@ import {
 import { fromToolRow, fromCustomFunctionRow, fromSandboxRow } from "./db";
 import { getContainerManager } from "./container-manager";
 import { getStoredCredential, listStoredCredentialKeys } from "./credential-store";
+import {
+  getGrantedCredential,
+  listGrantedCredentialKeys,
+  type CredentialGrantScope,
+} from "./credential-grants";
 import { getRunForImprovement } from "./run-for-improvement";
 import { getFeedbackForScope } from "./feedback-for-scope";
 import { runContainer, runContainerBuild } from "./run-workflow-containers";
@@ -230,14 +236,44 @@ export async function buildAvailableTools(toolIds: string[]): Promise<LLMToolDef
   return out;
 }
 
+/**
+ * Name and arguments a workflow tool call is checked against guardrails with. Custom HTTP tools
+ * are checked as "http_request" with the URL from their config (or the input).
+ */
+export async function resolveGuardedToolCall(
+  toolId: string,
+  input: unknown,
+  override?: ToolOverride
+): Promise<{ toolName: string; args: Record<string, unknown> }> {
+  const args =
+    input != null && typeof input === "object" && !Array.isArray(input)
+      ? (input as Record<string, unknown>)
+      : {};
+  if (toolId.startsWith("std-") || STD_IDS[toolId]) return { toolName: toolId, args };
+  const rows = await db.select().from(toolsTable).where(eq(toolsTable.id, toolId));
+  if (rows.length === 0) return { toolName: toolId, args };
+  const tool = fromToolRow(rows[0]);
+  if (tool.protocol !== "http") return { toolName: toolId, args };
+  const config = { ...(tool.config ?? {}), ...(override?.config ?? {}) } as { url?: unknown };
+  const url = typeof config.url === "string" && config.url ? config.url : args.url;
+  return { toolName: "http_request", args: { ...args, url } };
+}
+
 export async function executeStudioTool(
   toolId: string,
   input: unknown,
   override?: ToolOverride,
   vaultKey?: Buffer | null,
   isCancelled?: () => Promise<boolean>,
-  runId?: string
+  runId?: string,
+  grantScope?: CredentialGrantScope
 ): Promise<unknown> {
+  const toolContext = {
+    vaultKey: vaultKey ?? null,
+    agentId: grantScope?.agentId,
+    workflowId: grantScope?.workflowId,
+    runId,
+  };
   if (toolId === "get_run_for_improvement") {
     const arg = input && typeof input === "object" ? (input as Record<string, unknown>) : {};
     const runIdArg = typeof arg.runId === "string" ? arg.runId.trim() : "";
@@ -278,7 +314,7 @@ export async function executeStudioTool(
     return executeTool(
       toolId,
       (typeof input === "object" && input !== null ? input : {}) as Record<string, unknown>,
-      { conversationId: undefined, vaultKey: vaultKey ?? null }
+      toolContext
     );
   }
   if (
@@ -290,7 +326,7 @@ export async function executeStudioTool(
     return executeTool(
       toolId,
       (typeof input === "object" && input !== null ? input : {}) as Record<string, unknown>,
-      { conversationId: undefined, vaultKey: vaultKey ?? null }
+      toolContext
     );
   }
   const sandboxToolNames: Record<string, string> = {
@@ -305,14 +341,17 @@ export async function executeStudioTool(
     return executeTool(
       sandboxToolName,
       (typeof input === "object" && input !== null ? input : {}) as Record<string, unknown>,
-      { conversationId: undefined, vaultKey: vaultKey ?? null }
+      toolContext
     );
   }
   if (toolId === "std-list-vault-credentials") {
+    // Without an unlocked vault (scheduled or triggered runs), only granted credentials are usable.
+    const grantedKeys = !vaultKey && grantScope ? await listGrantedCredentialKeys(grantScope) : [];
+    if (grantedKeys.length > 0) return { keys: grantedKeys };
     if (!vaultKey)
       return {
         error:
-          "Vault not approved for this run. Tell the user: To grant vault access, unlock the vault first (open Vault in the Studio and enter your master password), then reply again here (e.g. 'Proceed' or 'Approve vault'). The run will then have access to list and use credentials.",
+          "Vault not approved for this run. Tell the user: To grant vault access, unlock the vault first (open Vault in the Studio and enter your master password), then reply again here (e.g. 'Proceed' or 'Approve vault'). The run will then have access to list and use credentials. For scheduled or triggered runs, the user can instead grant credentials to this workflow in Settings → Vault.",
       };
     const list = await listStoredCredentialKeys(vaultKey);
     return { keys: list.map((r) => r.key) };
@@ -321,10 +360,20 @@ export async function executeStudioTool(
     const arg = input && typeof input === "object" ? (input as Record<string, unknown>) : {};
     const credentialKey = typeof arg.credentialKey === "string" ? arg.credentialKey.trim() : "";
     if (!credentialKey) return { error: "credentialKey is required" };
+    if (!vaultKey && grantScope) {
+      const granted = await getGrantedCredential(credentialKey, { ...grantScope, runId });
+      if (granted !== null) return { value: granted };
+      const grantedKeys = await listGrantedCredentialKeys(grantScope);
+      if (grantedKeys.length > 0) {
+        return {
+          error: `Credential ${credentialKey} is not granted to this workflow or agent. Granted keys: ${grantedKeys.join(", ")}. Tell the user they can grant it in Settings → Vault.`,
+        };
+      }
+    }
     if (!vaultKey) {
       return {
         error:
-          "Vault not approved for this run. Tell the user: Unlock the vault first (open Vault in the Studio, enter your master password), then reply again to this run (e.g. 'Proceed' or 'Approve vault'). The run will then be able to read credentials.",
+          "Vault not approved for this run. Tell the user: Unlock the vault first (open Vault in the Studio, enter your master password), then reply again to this run (e.g. 'Proceed' or 'Approve vault'). The run will then be able to read credentials. For scheduled or triggered runs, the user can instead grant the credential to this workflow in Settings → Vault.",
       };
     }
     const value = await getStoredCredential(credentialKey, vaultKey);
@@ -398,6 +447,12 @@ export async function executeStudioTool(
         url: fallbackUrl,
       });
   }
+  if (tool.protocol === "mcp") {
+    return mcpToolAdapter.execute(
+      { ...tool, config: mergedConfig },
+      typeof input === "object" && input !== null ? input : {}
+    );
+  }
   const baseToolId =
     (mergedConfig as { baseToolId?: string })?.baseToolId ??
     (tool.config as { baseToolId?: string })?.baseToolId ??
@@ -0,0 +1,112 @@
+/**
+ * Token usage and budgets of one workflow run. Every LLM call of the run goes through callLLM,
+ * which first pauses or cancels the run when a budget that applies is used up; recordUsage writes
+ * the calls made since the last write to token_usage.
+ */
+import type { LLMConfig } from "@agentron-studio/core";
+import { db, modelPricing, fromModelPricingRow } from "./db";
+import {
+  BudgetExceededError,
+  checkBudgets,
+  recordTokenUsage,
+  stopRunForBudget,
+  usageCost,
+  type UsageEntry,
+} from "./budgets";
+import type { ExecutionTraceStep } from "./run-workflow-constants";
+import { hasSubscribers, publish } from "./chat-event-channel";
+import { createLLMManager } from "./llm-manager";
+
+type LLMManager = ReturnType<typeof createLLMManager>;
+
+/** A chat request of the run; llmConfigId picks another LLM config than the run's default. */
+export type RunLLMRequest = Parameters<LLMManager["chat"]>[1] & { llmConfigId?: string };
+
+export type RunUsageDeps = {
+  runId: string;
+  workflowId: string;
+  /** Written to the run when a budget stops it. */
+  trail: ExecutionTraceStep[];
+  /** LLM config for an llmConfigId; the run's default when the id is missing or unknown. */
+  resolveLlmConfig: (id?: string) => { provider: string; model: string };
+};
+
+/** Custom per-model prices from model_pricing, keyed by model pattern (cost per million tokens). */
+async function loadCustomPricing(): Promise<Record<string, { input: number; output: number }>> {
+  const pricingRows = await db.select().from(modelPricing);
+  const customPricing: Record<string, { input: number; output: number }> = {};
+  for (const r of pricingRows) {
+    const p = fromModelPricingRow(r);
+    customPricing[p.modelPattern] = {
+      input: Number(p.inputCostPerM),
+      output: Number(p.outputCostPerM),
+    };
+  }
+  return customPricing;
+}
+
+export async function createRunUsageTracker(deps: RunUsageDeps) {
+  const { runId, workflowId, trail, resolveLlmConfig } = deps;
+  const customPricing = await loadCustomPricing();
+  const manager = createLLMManager();
+
+  // LLM calls of this run not yet written to token_usage.
+  const usageEntries: UsageEntry[] = [];
+  const recordUsage = () =>
+    recordTokenUsage(usageEntries.splice(0), { executionId: runId, workflowId }, customPricing);
+
+  /** Before an LLM call: pause or cancel the run when a budget that applies is used up. */
+  const enforceBudgets = async (agentId?: string) => {
+    const exceeded = await checkBudgets(
+      { workflowId, agentId, runId },
+      usageEntries.map((e) => ({ agentId: e.agentId, cost: usageCost(e, customPricing) }))
+    );
+    if (!exceeded) return;
+    await recordUsage();
+    await stopRunForBudget(runId, exceeded, trail, {
+      targetType: "workflow",
+      targetId: workflowId,
+    });
+    throw new BudgetExceededError(exceeded);
+  };
+
+  const callLLM = async (req: RunLLMRequest, agentId?: string) => {
+    await enforceBudgets(agentId);
+    const cfg = resolveLlmConfig(req.llmConfigId);
+    const { llmConfigId: _drop, ...chatReq } = req as Record<string, unknown>;
+    // Stream only while someone watches the run (GET /api/runs/:id/events as SSE).
+    const watched = hasSubscribers(runId);
+    if (watched) publish(runId, { type: "llm_request", ...(agentId && { agentId }) });
+    const response = await manager.chat(
+      cfg as LLMConfig,
+      chatReq as Parameters<LLMManager["chat"]>[1],
+      { source: "workflow" },
+      watched
+        ? {
+            onStream: (event) =>
+              publish(
+                runId,
+                event.type === "content"
+                  ? { type: "content_delta", delta: event.delta, ...(agentId && { agentId }) }
+                  : {
+                      type: "tool_call_delta",
+                      index: event.index,
+                      ...(event.id && { id: event.id }),
+                      ...(event.name && { name: event.name }),
+                      argumentsDelta: event.argumentsDelta,
+                      ...(agentId && { agentId }),
+                    }
+              ),
+          }
+        : undefined
+    );
+    usageEntries.push({
+      response,
+      agentId,
+      config: { provider: cfg.provider, model: cfg.model },
+    });
+    return response;
+  };
+
+  return { callLLM, recordUsage };
+}
@@ -16,6 +16,7 @@ import {
   type ExecutionTraceStep,
 } from "./run-workflow-constants";
 import { runWorkflow, type RunWorkflowOptions } from "./run-workflow-engine";
+import { BudgetExceededError } from "./budgets";
 
 export {
   WAITING_FOR_USER_MESSAGE,
@@ -232,6 +233,11 @@ export async function runWorkflowForRun(
       // ignore
     }
   } catch (err) {
+    if (err instanceof BudgetExceededError) {
+      // The run is already paused or cancelled with the budget recorded.
+      await destroyContainerSession(runId);
+      return;
+    }
     const rawMessage = err instanceof Error ? err.message : String(err);
     if (rawMessage === WAITING_FOR_USER_MESSAGE || err instanceof WaitingForUserError) {
       if (err instanceof WaitingForUserError && err.trail.length > 0) {
@@ -307,10 +313,11 @@ export async function runWorkflowAndUpdateExecution(params: {
   runId: string;
   workflowId: string;
   branchId?: string;
+  runInputs?: Record<string, unknown>;
   vaultKey?: Buffer | null;
   maxSelfFixRetries?: number;
 }): Promise<void> {
-  const { runId, workflowId, branchId, vaultKey, maxSelfFixRetries } = params;
+  const { runId, workflowId, branchId, runInputs, vaultKey, maxSelfFixRetries } = params;
   const onStepComplete = async (
     trail: Array<{
       order: number;
@@ -409,6 +416,7 @@ export async function runWorkflowAndUpdateExecution(params: {
       workflowId,
       runId,
       branchId,
+      runInputs,
       vaultKey: vaultKey ?? undefined,
       onStepComplete,
       onProgress,
@@ -422,7 +430,15 @@ export async function runWorkflowAndUpdateExecution(params: {
       .set({ status: "completed", finishedAt: Date.now(), output: JSON.stringify(payload) })
       .where(eq(executions.id, runId))
       .run();
+    void import("./workflow-triggers")
+      .then((m) => m.fireRunFinishedTriggers(runId, "completed"))
+      .catch(() => {});
   } catch (err) {
+    if (err instanceof BudgetExceededError) {
+      // The run is already paused or cancelled with the budget recorded.
+      await destroyContainerSession(runId);
+      return;
+    }
     const rawMessage = err instanceof Error ? err.message : String(err);
     if (rawMessage === WAITING_FOR_USER_MESSAGE) {
       if (err instanceof WaitingForUserError && err.trail.length > 0) {
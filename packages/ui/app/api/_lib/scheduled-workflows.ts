@@ -1,84 +1,206 @@
 /**
  * Schedules workflow runs for workflows with executionMode "interval" or "continuous" and a schedule.
- * Uses WorkflowScheduler for interval (seconds); uses setTimeout for daily@ / weekly@ and reschedules after each run.
+ * Interval schedules (seconds, cron, daily@ / weekly@; see parseSchedule) run through WorkflowScheduler
+ * in the workflow's or branch's timezone. Their last and next fire times are kept in workflow_schedules,
+ * so runs missed while the app was closed can be caught up on start (catchUp: skip, run_once, run_all).
  * All runs go through the DB-backed workflow queue (enqueueScheduledWorkflow + waitForJob).
  */
-import { WorkflowScheduler } from "@agentron-studio/runtime";
-import { eq } from "drizzle-orm";
-import { db, workflows } from "./db";
+import {
+  WorkflowScheduler,
+  defaultTimeZone,
+  nextScheduleTime,
+  parseSchedule,
+  parseScheduleSeconds,
+  upcomingScheduleTimes,
+  type ParsedSchedule,
+} from "@agentron-studio/runtime";
+import { eq, notInArray } from "drizzle-orm";
+import { db, workflows, workflowSchedules } from "./db";
 import { fromWorkflowRow } from "./db";
 import { enqueueScheduledWorkflow, waitForJob } from "./workflow-queue";
-import type { Workflow } from "@agentron-studio/core";
+import type { ScheduleCatchUp, Workflow, WorkflowBranch } from "@agentron-studio/core";
 
-const intervalScheduler = new WorkflowScheduler();
-const calendarTimeouts = new Map<string, NodeJS.Timeout>();
+export { parseScheduleSeconds, parseDaily, parseWeekly } from "@agentron-studio/runtime";
+
+const scheduler = new WorkflowScheduler();
 /** Timeouts for "continuous" mode: re-run after each run completes. Key = scheduleKey(workflowId, branchId). */
 const continuousTimeouts = new Map<string, NodeJS.Timeout>();
+/** Refreshes run one after another so two quick workflow updates cannot catch up the same runs twice. */
+let refreshing: Promise<void> = Promise.resolve();
 
 /** Default delay (ms) between consecutive runs when executionMode is continuous and no schedule is set. */
 const CONTINUOUS_DEFAULT_DELAY_MS = 1000;
 
-/** Exported for tests. */
-export function parseScheduleSeconds(schedule: string): number | null {
-  const s = schedule.trim();
-  const n = parseInt(s, 10);
-  if (Number.isNaN(n) || n <= 0) return null;
-  return n;
+/** Most missed runs one schedule catches up with catchUp "run_all". */
+export const MAX_CATCH_UP_RUNS = 100;
+
+/** An interval-mode schedule of a workflow or one of its branches. */
+export type WorkflowScheduleEntry = {
+  key: string;
+  workflowId: string;
+  branchId?: string;
+  schedule: string;
+  timezone: string;
+  catchUp: ScheduleCatchUp;
+  parsed: ParsedSchedule;
+};
+
+/** Key for schedule state and scheduler jobs: workflow-only or workflow:branchId for branch schedules. */
+function scheduleKey(workflowId: string, branchId?: string): string {
+  return branchId ? `${workflowId}:${branchId}` : workflowId;
+}
+
+/**
+ * Interval-mode schedules of a workflow: one per branch with its own schedule, or the workflow's
+ * own when it has no branches. Schedules that do not parse are left out.
+ */
+export function collectWorkflowSchedules(workflow: Workflow): WorkflowScheduleEntry[] {
+  const entry = (
+    schedule: string | undefined,
+    branch?: WorkflowBranch
+  ): WorkflowScheduleEntry[] => {
+    const s = schedule?.trim();
+    if (!s) return [];
+    let parsed: ParsedSchedule;
+    try {
+      parsed = parseSchedule(s);
+    } catch {
+      return [];
+    }
+    return [
+      {
+        key: scheduleKey(workflow.id, branch?.id),
+        workflowId: workflow.id,
+        ...(branch && { branchId: branch.id }),
+        schedule: s,
+        timezone: branch?.timezone || workflow.timezone || defaultTimeZone(),
+        catchUp: branch?.catchUp ?? workflow.catchUp ?? "skip",
+        parsed,
+      },
+    ];
+  };
+  if (Array.isArray(workflow.branches) && workflow.branches.length > 0) {
+    return workflow.branches.flatMap((branch) =>
+      (branch.executionMode ?? workflow.executionMode) === "interval"
+        ? entry(branch.schedule, branch)
+        : []
+    );
+  }
+  return workflow.executionMode === "interval" ? entry(workflow.schedule) : [];
 }
 
-/** Parse daily@HH:mm -> { type: 'daily', hour, minute }. Exported for tests. */
-export function parseDaily(schedule: string): { hour: number; minute: number } | null {
-  const s = schedule.trim();
-  if (!s.startsWith("daily@")) return null;
-  const time = s.slice(6).trim();
-  const match = time.match(/^(\d{1,2}):(\d{2})$/);
-  if (!match) return null;
-  const hour = Math.min(23, Math.max(0, parseInt(match[1], 10)));
-  const minute = Math.min(59, Math.max(0, parseInt(match[2], 10)));
-  return { hour, minute };
+/** Fire times from nextRunAt up to now (inclusive), at most limit. Exported for tests. */
+export function missedRunTimes(
+  parsed: ParsedSchedule,
+  nextRunAt: number,
+  now: number,
+  timeZone: string,
+  limit = MAX_CATCH_UP_RUNS
+): number[] {
+  const times: number[] = [];
+  let t: number | null = nextRunAt;
+  while (t != null && t <= now && times.length < limit) {
+    times.push(t);
+    t = nextScheduleTime(parsed, t, timeZone);
+  }
+  return times;
 }
 
-/** Parse weekly@d1,d2,... (0-6, Sunday=0) -> { type: 'weekly', days: number[] }. Exported for tests. */
-export function parseWeekly(schedule: string): number[] | null {
-  const s = schedule.trim();
-  if (!s.startsWith("weekly@")) return null;
-  const part = s.slice(7).trim();
-  if (!part) return null;
-  const days = part.split(",").map((d) => Math.min(6, Math.max(0, parseInt(d.trim(), 10) || 0)));
-  return days.length > 0 ? days : null;
+async function saveScheduleState(
+  entry: WorkflowScheduleEntry,
+  state: { nextRunAt: number | null; lastRunAt?: number | null }
+): Promise<void> {
+  const values = {
+    workflowId: entry.workflowId,
+    branchId: entry.branchId ?? null,
+    schedule: entry.schedule,
+    timezone: entry.timezone,
+    nextRunAt: state.nextRunAt,
+    ...(state.lastRunAt !== undefined && { lastRunAt: state.lastRunAt }),
+    updatedAt: Date.now(),
+  };
+  await db
+    .insert(workflowSchedules)
+    .values({ id: entry.key, ...values })
+    .onConflictDoUpdate({ target: workflowSchedules.id, set: values })
+    .run();
 }
 
-/** Next run time (ms from now) for daily at HH:mm in local time. Exported for tests. */
-export function nextDailyMs(hour: number, minute: number): number {
-  const now = new Date();
-  let next = new Date(now.getFullYear(), now.getMonth(), now.getDate(), hour, minute, 0, 0);
-  if (next.getTime() <= now.getTime()) {
-    next.setDate(next.getDate() + 1);
+/**
+ * Next fire time for a schedule and the missed runs to catch up, from its stored state; stores
+ * the new next fire time. A schedule or timezone that changed since the state was stored starts
+ * over without catch-up. Exported for tests.
+ */
+export async function prepareSchedule(
+  entry: WorkflowScheduleEntry,
+  now = Date.now()
+): Promise<{ nextRunAt: number | null; catchUpRuns: number[] }> {
+  const rows = await db.select().from(workflowSchedules).where(eq(workflowSchedules.id, entry.key));
+  const state =
+    rows[0] && rows[0].schedule === entry.schedule && rows[0].timezone === entry.timezone
+      ? rows[0]
+      : undefined;
+  if (state?.nextRunAt != null && state.nextRunAt > now) {
+    await saveScheduleState(entry, { nextRunAt: state.nextRunAt });
+    return { nextRunAt: state.nextRunAt, catchUpRuns: [] };
   }
-  return next.getTime() - now.getTime();
+  const missed =
+    state?.nextRunAt != null
+      ? missedRunTimes(entry.parsed, state.nextRunAt, now, entry.timezone)
+      : [];
+  const catchUpRuns =
+    entry.catchUp === "run_all"
+      ? missed
+      : entry.catchUp === "run_once" && missed.length > 0
+        ? [missed[missed.length - 1]]
+        : [];
+  const nextRunAt = nextScheduleTime(entry.parsed, now, entry.timezone);
+  await saveScheduleState(entry, { nextRunAt });
+  return { nextRunAt, catchUpRuns };
+}
+
+async function runScheduled(workflowId: string, branchId?: string): Promise<void> {
+  const jobId = await enqueueScheduledWorkflow({ workflowId, branchId });
+  await waitForJob(jobId);
 }
 
-/** Next run time (ms from now) for weekly on given days (0-6). Exported for tests. */
-export function nextWeeklyMs(days: number[]): number {
-  const now = new Date();
-  const currentDay = now.getDay();
-  let daysAhead = 0;
-  for (let i = 1; i <= 7; i++) {
-    const d = (currentDay + i) % 7;
-    if (days.includes(d)) {
-      daysAhead = i;
-      break;
+async function runCatchUp(entry: WorkflowScheduleEntry, count: number): Promise<void> {
+  for (let i = 0; i < count; i++) {
+    const startedAt = Date.now();
+    try {
+      await runScheduled(entry.workflowId, entry.branchId);
+    } catch {
+      // continue with the next missed run
     }
+    await db
+      .update(workflowSchedules)
+      .set({ lastRunAt: startedAt, updatedAt: Date.now() })
+      .where(eq(workflowSchedules.id, entry.key))
+      .run();
   }
-  const next = new Date(now);
-  next.setDate(next.getDate() + daysAhead);
-  next.setHours(0, 0, 0, 0);
-  return next.getTime() - now.getTime();
 }
 
-/** Key for calendar timeout map: workflow-only or workflow:branchId for branch schedules. */
-function scheduleKey(workflowId: string, branchId?: string): string {
-  return branchId ? `${workflowId}:${branchId}` : workflowId;
+/** Stored state and upcoming fire times of each interval-mode schedule of a workflow. */
+export async function getWorkflowScheduleInfo(workflow: Workflow, count = 5, now = Date.now()) {
+  const entries = collectWorkflowSchedules(workflow);
+  const states = entries.length
+    ? await db.select().from(workflowSchedules).where(eq(workflowSchedules.workflowId, workflow.id))
+    : [];
+  return entries.map((entry) => {
+    const state = states.find(
+      (s) => s.id === entry.key && s.schedule === entry.schedule && s.timezone === entry.timezone
+    );
+    return {
+      ...(entry.branchId && { branchId: entry.branchId }),
+      schedule: entry.schedule,
+      type: entry.parsed.type,
+      timezone: entry.timezone,
+      catchUp: entry.catchUp,
+      nextRunAt: state?.nextRunAt ?? null,
+      lastRunAt: state?.lastRunAt ?? null,
+      upcoming: upcomingScheduleTimes(entry.parsed, count, now, entry.timezone),
+    };
+  });
 }
 
 /**
@@ -93,8 +215,7 @@ function runContinuousLoop(
   const key = scheduleKey(workflowId, branchId);
   const run = async () => {
     try {
-      const jobId = await enqueueScheduledWorkflow({ workflowId, branchId });
-      await waitForJob(jobId);
+      await runScheduled(workflowId, branchId);
     } catch {
       // continue to reschedule
     }
@@ -104,62 +225,52 @@ function runContinuousLoop(
   void run();
 }
 
-function scheduleCalendarWorkflow(workflow: Workflow, branchId?: string): void {
-  const schedule = branchId
-    ? workflow.branches?.find((b) => b.id === branchId)?.schedule?.trim()
-    : workflow.schedule?.trim();
-  if (!schedule) return;
-
-  const daily = parseDaily(schedule);
-  if (daily) {
-    const run = async () => {
-      try {
-        const jobId = await enqueueScheduledWorkflow({ workflowId: workflow.id, branchId });
-        await waitForJob(jobId);
-      } catch {
-        // continue to reschedule
-      }
-      const ms = nextDailyMs(daily.hour, daily.minute);
-      const t = setTimeout(() => scheduleCalendarWorkflow(workflow, branchId), ms);
-      calendarTimeouts.set(scheduleKey(workflow.id, branchId), t);
-    };
-    const ms = nextDailyMs(daily.hour, daily.minute);
-    const t = setTimeout(() => void run(), ms);
-    calendarTimeouts.set(scheduleKey(workflow.id, branchId), t);
-    return;
-  }
+function continuousDelayMs(schedule: string | undefined): number {
+  const seconds = schedule != null ? parseScheduleSeconds(schedule) : null;
+  return seconds != null ? seconds * 1000 : CONTINUOUS_DEFAULT_DELAY_MS;
+}
 
-  const weeklyDays = parseWeekly(schedule);
-  if (weeklyDays) {
-    const run = async () => {
-      try {
-        const jobId = await enqueueScheduledWorkflow({ workflowId: workflow.id, branchId });
-        await waitForJob(jobId);
-      } catch {
-        // continue to reschedule
+async function refresh(): Promise<void> {
+  scheduler.clearAll();
+  for (const t of continuousTimeouts.values()) clearTimeout(t);
+  continuousTimeouts.clear();
+
+  const rows = await db.select().from(workflows);
+  const activeKeys: string[] = [];
+  for (const row of rows) {
+    const workflow = fromWorkflowRow(row) as Workflow;
+    const hasBranches = Array.isArray(workflow.branches) && workflow.branches.length > 0;
+    if (hasBranches) {
+      for (const branch of workflow.branches!) {
+        if ((branch.executionMode ?? workflow.executionMode) === "continuous") {
+          runContinuousLoop(workflow.id, branch.id, continuousDelayMs(branch.schedule?.trim()));
+        }
       }
-      const ms = nextWeeklyMs(weeklyDays);
-      const t = setTimeout(() => scheduleCalendarWorkflow(workflow, branchId), ms);
-      calendarTimeouts.set(scheduleKey(workflow.id, branchId), t);
-    };
-    const ms = nextWeeklyMs(weeklyDays);
-    const t = setTimeout(() => void run(), ms);
-    calendarTimeouts.set(scheduleKey(workflow.id, branchId), t);
-  }
-}
+    } else if (workflow.executionMode === "continuous") {
+      runContinuousLoop(workflow.id, undefined, continuousDelayMs(workflow.schedule?.trim()));
+    }
 
-function clearCalendarWorkflow(workflowId: string): void {
-  const t = calendarTimeouts.get(workflowId);
-  if (t) {
-    clearTimeout(t);
-    calendarTimeouts.delete(workflowId);
-  }
-  for (const key of calendarTimeouts.keys()) {
-    if (key.startsWith(`${workflowId}:`)) {
-      clearTimeout(calendarTimeouts.get(key)!);
-      calendarTimeouts.delete(key);
+    for (const entry of collectWorkflowSchedules(workflow)) {
+      activeKeys.push(entry.key);
+      const { nextRunAt, catchUpRuns } = await prepareSchedule(entry);
+      scheduler.scheduleRecurring(
+        entry.key,
+        entry.parsed,
+        {
+          timeZone: entry.timezone,
+          firstRunAt: nextRunAt,
+          onNext: (next, firedAt) =>
+            saveScheduleState(entry, { nextRunAt: next, lastRunAt: firedAt }),
+        },
+        () => runScheduled(entry.workflowId, entry.branchId)
+      );
+      if (catchUpRuns.length > 0) void runCatchUp(entry, catchUpRuns.length);
     }
   }
+  await db
+    .delete(workflowSchedules)
+    .where(activeKeys.length > 0 ? notInArray(workflowSchedules.id, activeKeys) : undefined)
+    .run();
 }
 
 /**
@@ -167,87 +278,5 @@ function clearCalendarWorkflow(workflowId: string): void {
  * Call on server start and after workflow create/update/delete.
  */
 export function refreshScheduledWorkflows(): void {
-  intervalScheduler.clearAll();
-  for (const t of calendarTimeouts.values()) clearTimeout(t);
-  calendarTimeouts.clear();
-  for (const t of continuousTimeouts.values()) clearTimeout(t);
-  continuousTimeouts.clear();
-
-  void (async () => {
-    const rows = await db.select().from(workflows);
-    for (const row of rows) {
-      const workflow = fromWorkflowRow(row) as Workflow;
-      const hasBranches = Array.isArray(workflow.branches) && workflow.branches.length > 0;
-
-      if (hasBranches) {
-        for (const branch of workflow.branches!) {
-          const mode = branch.executionMode ?? workflow.executionMode;
-          if (mode === "one_time") continue;
-
-          const schedule = branch.schedule?.trim();
-
-          if (mode === "continuous") {
-            const delayMs =
-              schedule != null && parseScheduleSeconds(schedule) != null
-                ? parseScheduleSeconds(schedule)! * 1000
-                : CONTINUOUS_DEFAULT_DELAY_MS;
-            runContinuousLoop(workflow.id, branch.id, delayMs);
-            continue;
-          }
-
-          if (mode === "interval" && schedule) {
-            const seconds = parseScheduleSeconds(schedule);
-            if (seconds != null) {
-              const intervalMs = seconds * 1000;
-              intervalScheduler.scheduleInterval(
-                { ...workflow, id: `${workflow.id}:${branch.id}` },
-                intervalMs,
-                async () => {
-                  const jobId = await enqueueScheduledWorkflow({
-                    workflowId: workflow.id,
-                    branchId: branch.id,
-                  });
-                  await waitForJob(jobId);
-                }
-              );
-              continue;
-            }
-            if (schedule.startsWith("daily@") || schedule.startsWith("weekly@")) {
-              scheduleCalendarWorkflow(workflow, branch.id);
-            }
-          }
-        }
-        continue;
-      }
-
-      const mode = workflow.executionMode;
-      if (mode === "one_time") continue;
-
-      const schedule = workflow.schedule?.trim();
-
-      if (mode === "continuous") {
-        const delayMs =
-          schedule != null && parseScheduleSeconds(schedule) != null
-            ? parseScheduleSeconds(schedule)! * 1000
-            : CONTINUOUS_DEFAULT_DELAY_MS;
-        runContinuousLoop(workflow.id, undefined, delayMs);
-        continue;
-      }
-
-      if (mode === "interval" && schedule) {
-        const seconds = parseScheduleSeconds(schedule);
-        if (seconds != null) {
-          const intervalMs = seconds * 1000;
-          intervalScheduler.scheduleInterval(workflow, intervalMs, async () => {
-            const jobId = await enqueueScheduledWorkflow({ workflowId: workflow.id });
-            await waitForJob(jobId);
-          });
-          continue;
-        }
-        if (schedule.startsWith("daily@") || schedule.startsWith("weekly@")) {
-          scheduleCalendarWorkflow(workflow);
-        }
-      }
-    }
-  })();
+  refreshing = refreshing.then(refresh).catch(() => {});
 }
@@ -0,0 +1,92 @@
+/**
+ * File intake for the Telegram channel: photos, documents, voice notes and audio sent to the bot are
+ * downloaded through the Bot API and stored with POST /api/files, so the assistant gets them as chat
+ * attachments.
+ */
+import { internalApiFetch } from "./api-auth";
+
+const TELEGRAM_API = "https://api.telegram.org";
+
+/** Bots can download files up to 20 MB through getFile. */
+const TELEGRAM_DOWNLOAD_MAX_BYTES = 20 * 1024 * 1024;
+
+/** A file attached to a Telegram message. */
+export type TelegramFileRef = {
+  fileId: string;
+  name: string;
+  mimeType: string;
+  size?: number;
+};
+
+type TelegramFileFields = {
+  message_id?: number;
+  photo?: { file_id: string; file_size?: number }[];
+  document?: { file_id: string; file_name?: string; mime_type?: string; file_size?: number };
+  voice?: { file_id: string; mime_type?: string; file_size?: number };
+  audio?: { file_id: string; file_name?: string; mime_type?: string; file_size?: number };
+};
+
+/** The file in a message, if any. Photos come in several sizes; the largest is used. */
+export function getTelegramMessageFile(message: TelegramFileFields): TelegramFileRef | undefined {
+  const suffix = message.message_id ?? Date.now();
+  if (Array.isArray(message.photo) && message.photo.length > 0) {
+    const largest = message.photo[message.photo.length - 1];
+    return {
+      fileId: largest.file_id,
+      name: `photo-${suffix}.jpg`,
+      mimeType: "image/jpeg",
+      size: largest.file_size,
+    };
+  }
+  const doc = message.document ?? message.audio;
+  if (doc) {
+    return {
+      fileId: doc.file_id,
+      name: doc.file_name || `file-${suffix}`,
+      mimeType: doc.mime_type || "application/octet-stream",
+      size: doc.file_size,
+    };
+  }
+  if (message.voice) {
+    return {
+      fileId: message.voice.file_id,
+      name: `voice-${suffix}.ogg`,
+      mimeType: message.voice.mime_type || "audio/ogg",
+      size: message.voice.file_size,
+    };
+  }
+  return undefined;
+}
+
+/** Downloads a Telegram file and uploads it to /api/files. Returns the stored file id. */
+export async function storeTelegramFile(
+  token: string,
+  file: TelegramFileRef
+): Promise<{ id: string } | { error: string }> {
+  if (file.size !== undefined && file.size > TELEGRAM_DOWNLOAD_MAX_BYTES) {
+    return { error: "Telegram bots can only download files up to 20 MB." };
+  }
+  const infoRes = await fetch(
+    `${TELEGRAM_API}/bot${encodeURIComponent(token)}/getFile?file_id=${encodeURIComponent(file.fileId)}`
+  );
+  const info = (await infoRes.json().catch(() => ({}))) as {
+    ok?: boolean;
+    result?: { file_path?: string };
+    description?: string;
+  };
+  const filePath = info.result?.file_path;
+  if (!infoRes.ok || !info.ok || !filePath) {
+    return { error: info.description ?? "Telegram did not return the file." };
+  }
+  const download = await fetch(`${TELEGRAM_API}/file/bot${encodeURIComponent(token)}/${filePath}`);
+  if (!download.ok) return { error: `Download failed (${download.status}).` };
+
+  const form = new FormData();
+  form.append("file", new File([await download.arrayBuffer()], file.name, { type: file.mimeType }));
+  const uploadRes = await internalApiFetch("/api/files", { method: "POST", body: form });
+  const uploaded = (await uploadRes.json().catch(() => ({}))) as { id?: string; error?: string };
+  if (!uploadRes.ok || typeof uploaded.id !== "string") {
+    return { error: uploaded.error ?? uploadRes.statusText };
+  }
+  return { id: uploaded.id };
+}
@@ -61,10 +61,6 @@ async function getUpdates(token: string, offset: number): Promise<TelegramUpdate
 let running = false;
 let loopPromise: Promise<void> | null = null;
 
-function getBaseUrl(): string {
-  return process.env.AGENTRON_PUBLIC_URL ?? "http://127.0.0.1:3000";
-}
-
 async function runLoop(): Promise<void> {
   const token = getTelegramBotToken();
   const settings = getTelegramSettings();
@@ -75,7 +71,6 @@ async function runLoop(): Promise<void> {
 
   await deleteWebhook(token);
   let lastUpdateId = loadLastUpdateId();
-  const baseUrl = getBaseUrl();
 
   while (running) {
     try {
@@ -85,7 +80,7 @@ async function runLoop(): Promise<void> {
           lastUpdateId = update.update_id;
           saveLastUpdateId(lastUpdateId);
         }
-        await processTelegramUpdate(update, token, baseUrl);
+        await processTelegramUpdate(update, token);
       }
     } catch (e) {
       logApiError("telegram-polling", "getUpdates", e instanceof Error ? e : new Error(String(e)));
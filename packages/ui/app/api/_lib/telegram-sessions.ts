@@ -1,39 +1,129 @@
 import path from "node:path";
 import fs from "node:fs";
+import crypto from "node:crypto";
 import { getDataDir } from "./db";
 
 const FILENAME = "telegram-chat-sessions.json";
+const BUTTONS_FILENAME = "telegram-buttons.json";
+
+/** Button sets older than this are dropped; pressing one of their buttons does nothing. */
+const BUTTONS_TTL_MS = 7 * 24 * 60 * 60 * 1000;
 
 function getSessionsPath(): string {
   return path.join(getDataDir(), FILENAME);
 }
 
+function getButtonsPath(): string {
+  return path.join(getDataDir(), BUTTONS_FILENAME);
+}
+
 type Sessions = Record<string, string>;
 
-function load(): Sessions {
-  const p = getSessionsPath();
-  if (!fs.existsSync(p)) return {};
+function loadJson<T>(p: string): T | undefined {
+  if (!fs.existsSync(p)) return undefined;
   try {
-    const raw = fs.readFileSync(p, "utf-8");
-    return JSON.parse(raw) as Sessions;
+    return JSON.parse(fs.readFileSync(p, "utf-8")) as T;
   } catch {
-    return {};
+    return undefined;
   }
 }
 
+function load(): Sessions {
+  return loadJson<Sessions>(getSessionsPath()) ?? {};
+}
+
 function save(sessions: Sessions): void {
   fs.writeFileSync(getSessionsPath(), JSON.stringify(sessions, null, 2), "utf-8");
 }
 
-/** Get conversationId for a Telegram chat_id (string). */
-export function getConversationId(telegramChatId: string): string | undefined {
+/** Session key for one sender in one chat, so people sharing a group chat get separate conversations. */
+function senderKey(chatId: number, userId: number): string {
+  return `${chatId}:${userId}`;
+}
+
+/**
+ * Get the conversationId for a sender in a Telegram chat. Private chats bound before sessions were
+ * per sender (keyed by chat id alone, which equals the user id there) keep their conversation.
+ */
+export function getConversationId(chatId: number, userId: number): string | undefined {
   const sessions = load();
-  return sessions[telegramChatId];
+  return (
+    sessions[senderKey(chatId, userId)] ??
+    (chatId === userId ? sessions[String(chatId)] : undefined)
+  );
 }
 
-/** Bind a Telegram chat to a conversation. */
-export function setConversationId(telegramChatId: string, conversationId: string): void {
+/** Bind a sender in a Telegram chat to a conversation. */
+export function setConversationId(chatId: number, userId: number, conversationId: string): void {
   const sessions = load();
-  sessions[telegramChatId] = conversationId;
+  sessions[senderKey(chatId, userId)] = conversationId;
+  delete sessions[String(chatId)];
   save(sessions);
 }
+
+/** What pressing an inline keyboard button does. */
+export type TelegramButtonAction =
+  /** Send text to the assistant as if the sender typed it (ask_user options). */
+  | { type: "reply"; text: string }
+  /** Answer a run that is waiting for user input. */
+  | { type: "run_response"; runId: string; response: string }
+  /** Run a shell command the assistant asked approval for, or decline it. */
+  | { type: "shell_approve"; command: string }
+  | { type: "shell_deny"; command: string };
+
+type ButtonSet = {
+  chatId: number;
+  /** Only this sender may press the buttons; unset for notifications to the whole chat. */
+  userId?: number;
+  actions: TelegramButtonAction[];
+  createdAt: number;
+};
+
+function loadButtons(): Record<string, ButtonSet> {
+  return loadJson<Record<string, ButtonSet>>(getButtonsPath()) ?? {};
+}
+
+function saveButtons(sets: Record<string, ButtonSet>): void {
+  fs.writeFileSync(getButtonsPath(), JSON.stringify(sets, null, 2), "utf-8");
+}
+
+/**
+ * Stores the actions behind one message's buttons and returns their callback_data values, in order.
+ * Telegram limits callback_data to 64 bytes, so buttons carry "<set id>:<index>" only.
+ */
+export function saveTelegramButtons(
+  chatId: number,
+  userId: number | undefined,
+  actions: TelegramButtonAction[]
+): string[] {
+  const now = Date.now();
+  const sets = Object.fromEntries(
+    Object.entries(loadButtons()).filter(([, set]) => now - set.createdAt < BUTTONS_TTL_MS)
+  );
+  const setId = crypto.randomBytes(6).toString("hex");
+  sets[setId] = { chatId, ...(userId !== undefined && { userId }), actions, createdAt: now };
+  saveButtons(sets);
+  return actions.map((_, i) => `${setId}:${i}`);
+}
+
+/**
+ * Resolves a pressed button to its action and removes the whole set, so a message's buttons work
+ * once. Returns undefined for unknown or expired buttons and for buttons pressed by someone else.
+ */
+export function takeTelegramButton(
+  callbackData: string,
+  chatId: number,
+  userId: number
+): TelegramButtonAction | undefined {
+  const [setId, index] = callbackData.split(":");
+  const sets = loadButtons();
+  const set = setId ? sets[setId] : undefined;
+  if (!set || set.chatId !== chatId || (set.userId !== undefined && set.userId !== userId)) {
+    return undefined;
+  }
+  const action = set.actions[Number(index)];
+  if (!action || Date.now() - set.createdAt >= BUTTONS_TTL_MS) return undefined;
+  delete sets[setId];
+  saveButtons(sets);
+  return action;
+}
@@ -1,5 +1,6 @@
 import path from "node:path";
 import fs from "node:fs";
+import crypto from "node:crypto";
 import { getDataDir } from "./db";
 
 export type TelegramSettings = {
@@ -9,8 +10,33 @@ export type TelegramSettings = {
   notificationChatId?: string;
   /** When true, use getUpdates (long polling) instead of webhook. Works on localhost without a public URL. */
   usePolling?: boolean;
+  /** Telegram user ids (numeric, as strings) allowed to talk to the bot. Everyone else is refused. */
+  allowedUserIds?: string[];
+  /** One-time code a new sender can send as "/pair <code>" to add themselves to allowedUserIds. */
+  pairingCode?: string;
+  pairingCodeExpiresAt?: number;
+  /** Wrong pairing codes sent per chat id since the current code was created. */
+  pairingFailures?: Record<string, number>;
 };
 
+/** How long a pairing code stays valid. */
+export const TELEGRAM_PAIRING_CODE_TTL_MS = 15 * 60 * 1000;
+/** Wrong codes one chat may send before the current code is invalidated. */
+export const TELEGRAM_PAIRING_MAX_FAILURES_PER_CHAT = 3;
+/** Wrong codes all chats together may send before the current code is invalidated. */
+export const TELEGRAM_PAIRING_MAX_FAILURES = 10;
+
+/** Letters and digits without look-alikes (0/O, 1/I/L), so codes are easy to type. */
+const PAIRING_CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const PAIRING_CODE_LENGTH = 10;
+
+function createPairingCode(): string {
+  return Array.from(
+    { length: PAIRING_CODE_LENGTH },
+    () => PAIRING_CODE_ALPHABET[crypto.randomInt(PAIRING_CODE_ALPHABET.length)]
+  ).join("");
+}
+
 /** Safe view for API responses: never includes token. */
 export type TelegramSettingsPublic = {
   enabled: boolean;
@@ -18,6 +44,10 @@ export type TelegramSettingsPublic = {
   notificationChatId?: string;
   botUsername?: string;
   usePolling?: boolean;
+  allowedUserIds: string[];
+  /** Shown in Settings so the owner can pass it on; only while it is valid. */
+  pairingCode?: string;
+  pairingCodeExpiresAt?: number;
 };
 
 const FILENAME = "telegram-settings.json";
@@ -69,13 +99,76 @@ export function getTelegramSettings(): TelegramSettingsPublic {
     notificationChatId: raw.notificationChatId?.trim() || undefined,
     botUsername: undefined, // can be set by test endpoint or after getMe
     usePolling: raw.usePolling === true,
+    allowedUserIds: raw.allowedUserIds ?? [],
+    ...(activePairingCode(raw) && {
+      pairingCode: raw.pairingCode,
+      pairingCodeExpiresAt: raw.pairingCodeExpiresAt,
+    }),
   };
 }
 
+function activePairingCode(raw: Partial<TelegramSettings>): string | undefined {
+  if (!raw.pairingCode || !raw.pairingCodeExpiresAt || raw.pairingCodeExpiresAt <= Date.now()) {
+    return undefined;
+  }
+  return raw.pairingCode;
+}
+
+/** Whether a Telegram user id may use the bot. No one is allowed until an id is added or paired. */
+export function isTelegramUserAllowed(userId: number | string | undefined): boolean {
+  if (userId === undefined) return false;
+  return (loadRaw().allowedUserIds ?? []).includes(String(userId));
+}
+
+/**
+ * Adds userId to the allowlist when code matches the current pairing code. The code is used up on
+ * success, so each code pairs one sender. Wrong codes are counted per chat and in total; past either
+ * limit the code is invalidated and the owner has to create a new one.
+ */
+export function pairTelegramUser(
+  userId: number | string,
+  code: string,
+  chatId: number | string = userId
+): boolean {
+  const raw = loadRaw();
+  const expected = activePairingCode(raw);
+  if (!expected) return false;
+  const given = Buffer.from(code.trim().toUpperCase());
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, Buffer.from(expected))) {
+    const failures = { ...raw.pairingFailures };
+    failures[String(chatId)] = (failures[String(chatId)] ?? 0) + 1;
+    const total = Object.values(failures).reduce((sum, n) => sum + n, 0);
+    const exhausted =
+      failures[String(chatId)]! >= TELEGRAM_PAIRING_MAX_FAILURES_PER_CHAT ||
+      total >= TELEGRAM_PAIRING_MAX_FAILURES;
+    save({
+      ...raw,
+      enabled: raw.enabled === true,
+      ...(exhausted
+        ? { pairingCode: undefined, pairingCodeExpiresAt: undefined, pairingFailures: undefined }
+        : { pairingFailures: failures }),
+    });
+    return false;
+  }
+  const allowed = new Set(raw.allowedUserIds ?? []);
+  allowed.add(String(userId));
+  save({
+    ...raw,
+    enabled: raw.enabled === true,
+    allowedUserIds: [...allowed],
+    pairingCode: undefined,
+    pairingCodeExpiresAt: undefined,
+    pairingFailures: undefined,
+  });
+  return true;
+}
+
 /**
  * Updates telegram settings. Token is never returned.
  */
-export function updateTelegramSettings(updates: Partial<TelegramSettings>): TelegramSettingsPublic {
+export function updateTelegramSettings(
+  updates: Partial<TelegramSettings> & { newPairingCode?: boolean }
+): TelegramSettingsPublic {
   const current = loadRaw();
   const next: TelegramSettings = {
     ...current,
@@ -103,6 +196,16 @@ export function updateTelegramSettings(updates: Partial<TelegramSettings>): Tele
   if (updates.usePolling !== undefined) {
     next.usePolling = updates.usePolling === true;
   }
+  if (updates.allowedUserIds !== undefined) {
+    next.allowedUserIds = [...new Set(updates.allowedUserIds.map((id) => id.trim()))];
+  }
+  if (updates.newPairingCode !== undefined) {
+    next.pairingCode = updates.newPairingCode ? createPairingCode() : undefined;
+    next.pairingCodeExpiresAt = updates.newPairingCode
+      ? Date.now() + TELEGRAM_PAIRING_CODE_TTL_MS
+      : undefined;
+    next.pairingFailures = undefined;
+  }
 
   save(next);
   return getTelegramSettings();
@@ -1,65 +1,175 @@
 /**
- * Shared logic to process one Telegram update (message from user).
+ * Shared logic to process one Telegram update (message from user or inline button press).
  * Used by both the webhook handler and the long-polling loop.
+ *
+ * Only senders on the allowlist in Telegram settings are served; others are told their user id and
+ * can pair with "/pair <code>" while a pairing code is active. Each sender in a chat has their own
+ * conversation. Assistant questions with options, shell command approvals and waiting runs are
+ * answered with inline keyboard buttons; photos and files are stored in /api/files and attached.
  */
-import { getConversationId, setConversationId } from "./telegram-sessions";
+import { eq } from "drizzle-orm";
+import {
+  getConversationId,
+  setConversationId,
+  saveTelegramButtons,
+  takeTelegramButton,
+  type TelegramButtonAction,
+} from "./telegram-sessions";
+import {
+  getTelegramBotToken,
+  getTelegramSettings,
+  isTelegramUserAllowed,
+  pairTelegramUser,
+} from "./telegram-settings";
+import { getTelegramMessageFile, storeTelegramFile } from "./telegram-files";
+import { getTurnStatusFromToolResults } from "./chat-helpers";
+import { db, executions } from "./db";
 import { logApiError } from "./api-logger";
+import { internalApiFetch } from "./api-auth";
+import { fireTelegramTriggers } from "./workflow-triggers";
 
 const TELEGRAM_API = "https://api.telegram.org/bot";
 
+/** Telegram rejects messages longer than 4096 characters. */
+const TELEGRAM_MESSAGE_MAX_CHARS = 4000;
+
+export type TelegramMessage = {
+  message_id?: number;
+  chat: { id: number };
+  text?: string;
+  caption?: string;
+  from?: { id: number };
+  photo?: { file_id: string; file_size?: number }[];
+  document?: { file_id: string; file_name?: string; mime_type?: string; file_size?: number };
+  voice?: { file_id: string; mime_type?: string; file_size?: number };
+  audio?: { file_id: string; file_name?: string; mime_type?: string; file_size?: number };
+};
+
 export type TelegramUpdate = {
   update_id?: number;
-  message?: {
-    chat: { id: number };
-    text?: string;
-    from?: { id: number };
+  message?: TelegramMessage;
+  /** Sent when a user presses an inline keyboard button. */
+  callback_query?: {
+    id: string;
+    from: { id: number };
+    message?: { message_id?: number; chat: { id: number } };
+    data?: string;
   };
 };
 
-export async function sendTelegramMessage(
+/** One inline keyboard button: label and the action it runs when pressed. */
+type TelegramButton = { text: string; action: TelegramButtonAction };
+
+type ToolResult = { name: string; args: Record<string, unknown>; result: unknown };
+
+async function callTelegram(
   token: string,
-  chatId: number,
-  text: string
+  method: string,
+  body: Record<string, unknown>
 ): Promise<boolean> {
-  const res = await fetch(`${TELEGRAM_API}${encodeURIComponent(token)}/sendMessage`, {
+  const res = await fetch(`${TELEGRAM_API}${encodeURIComponent(token)}/${method}`, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ chat_id: chatId, text, parse_mode: "HTML" }),
+    body: JSON.stringify(body),
   });
   if (!res.ok) {
     const err = await res.text();
-    logApiError("telegram", "sendMessage", new Error(err));
+    logApiError("telegram", method, new Error(err));
     return false;
   }
   return true;
 }
 
 /**
- * Process a single Telegram update: run chat through LLM and send reply.
- * baseUrl is the app origin for internal fetch (e.g. http://localhost:3000).
+ * Sends a message. With buttons (one row each), their actions are stored for the chat and, when
+ * userId is given, may only be pressed by that sender.
  */
-export async function processTelegramUpdate(
-  update: TelegramUpdate,
+export async function sendTelegramMessage(
   token: string,
-  baseUrl: string
-): Promise<void> {
-  const message = update.message;
-  if (!message?.chat?.id) return;
+  chatId: number,
+  text: string,
+  buttons?: { userId?: number; rows: TelegramButton[] }
+): Promise<boolean> {
+  const body: Record<string, unknown> = { chat_id: chatId, text, parse_mode: "HTML" };
+  if (buttons && buttons.rows.length > 0) {
+    const callbackData = saveTelegramButtons(
+      chatId,
+      buttons.userId,
+      buttons.rows.map((b) => b.action)
+    );
+    body.reply_markup = {
+      inline_keyboard: buttons.rows.map((b, i) => [
+        { text: b.text.slice(0, 64), callback_data: callbackData[i] },
+      ]),
+    };
+  }
+  return callTelegram(token, "sendMessage", body);
+}
 
-  const text = message.text?.trim();
-  if (!text) {
-    await sendTelegramMessage(token, message.chat.id, "Send a text message to talk to Agentron.");
-    return;
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function truncate(text: string): string {
+  return text.length > TELEGRAM_MESSAGE_MAX_CHARS
+    ? text.slice(0, TELEGRAM_MESSAGE_MAX_CHARS - 3) + "…"
+    : text;
+}
+
+/** Buttons for a chat turn: ask_user options, shell commands awaiting approval and waiting runs. */
+function buttonsForToolResults(toolResults: ToolResult[]): TelegramButton[] {
+  const rows: TelegramButton[] = [];
+  const { interactivePrompt } = getTurnStatusFromToolResults(toolResults);
+  for (const option of interactivePrompt?.options ?? []) {
+    rows.push({ text: option, action: { type: "reply", text: option } });
   }
+  for (const tr of toolResults) {
+    const res = (tr.result && typeof tr.result === "object" ? tr.result : {}) as {
+      needsApproval?: boolean;
+      command?: string;
+      id?: string;
+      status?: string;
+      options?: unknown[];
+    };
+    if (tr.name === "run_shell_command" && res.needsApproval && res.command) {
+      rows.push({
+        text: `Run: ${res.command}`,
+        action: { type: "shell_approve", command: res.command },
+      });
+      rows.push({ text: "Deny", action: { type: "shell_deny", command: res.command } });
+    } else if (
+      res.status === "waiting_for_user" &&
+      typeof res.id === "string" &&
+      Array.isArray(res.options)
+    ) {
+      for (const option of res.options) {
+        rows.push({
+          text: String(option),
+          action: { type: "run_response", runId: res.id, response: String(option) },
+        });
+      }
+    }
+  }
+  return rows;
+}
 
-  const chatId = String(message.chat.id);
-  let conversationId = getConversationId(chatId);
+/**
+ * Sends one message from a sender to the assistant in their conversation and replies with the
+ * answer. body is merged into the /api/chat payload (message, attachments, continueShellApproval).
+ */
+async function sendToAssistant(
+  token: string,
+  chatId: number,
+  userId: number,
+  body: Record<string, unknown>
+): Promise<void> {
+  let conversationId = getConversationId(chatId, userId);
   if (!conversationId) {
     conversationId = crypto.randomUUID();
-    setConversationId(chatId, conversationId);
+    setConversationId(chatId, userId, conversationId);
   }
 
-  const providersRes = await fetch(`${baseUrl}/api/llm/providers`);
+  const providersRes = await internalApiFetch("/api/llm/providers");
   const providers = await providersRes.json();
   const providerId =
     Array.isArray(providers) && providers.length > 0
@@ -68,34 +178,237 @@ export async function processTelegramUpdate(
   if (!providerId) {
     await sendTelegramMessage(
       token,
-      message.chat.id,
+      chatId,
       "No LLM provider configured. Add one in Settings → LLM Providers."
     );
     return;
   }
 
-  const chatRes = await fetch(`${baseUrl}/api/chat`, {
+  const chatRes = await internalApiFetch("/api/chat", {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      message: text,
-      conversationId,
-      providerId,
-    }),
+    body: JSON.stringify({ ...body, conversationId, providerId }),
   });
 
   const chatData = (await chatRes.json()) as {
     error?: string;
     assistantContent?: string;
     content?: string;
+    toolResults?: ToolResult[];
   };
   if (!chatRes.ok) {
     const err = chatData.error ?? chatRes.statusText;
-    await sendTelegramMessage(token, message.chat.id, `Error: ${err}`);
+    await sendTelegramMessage(token, chatId, `Error: ${err}`);
     return;
   }
 
-  const reply = chatData.assistantContent ?? chatData.content ?? "Done.";
-  const truncated = reply.length > 4000 ? reply.slice(0, 3997) + "…" : reply;
-  await sendTelegramMessage(token, message.chat.id, truncated);
+  const toolResults = Array.isArray(chatData.toolResults) ? chatData.toolResults : [];
+  const question = getTurnStatusFromToolResults(toolResults).interactivePrompt?.question;
+  const reply = chatData.assistantContent || chatData.content || question || "Done.";
+  await sendTelegramMessage(token, chatId, truncate(reply), {
+    userId,
+    rows: buttonsForToolResults(toolResults),
+  });
+}
+
+/** Runs the action behind a pressed inline keyboard button. */
+async function processTelegramCallback(
+  query: NonNullable<TelegramUpdate["callback_query"]>,
+  token: string
+): Promise<void> {
+  const chatId = query.message?.chat?.id;
+  const userId = query.from?.id;
+  const allowed = isTelegramUserAllowed(userId);
+  const action =
+    allowed && chatId && query.data ? takeTelegramButton(query.data, chatId, userId) : undefined;
+  await callTelegram(token, "answerCallbackQuery", {
+    callback_query_id: query.id,
+    ...(!action && { text: allowed ? "This button is no longer active." : "Not allowed." }),
+  });
+  if (!action || !chatId) return;
+  if (query.message?.message_id) {
+    await callTelegram(token, "editMessageReplyMarkup", {
+      chat_id: chatId,
+      message_id: query.message.message_id,
+      reply_markup: { inline_keyboard: [] },
+    });
+  }
+
+  switch (action.type) {
+    case "reply":
+      await sendToAssistant(token, chatId, userId, { message: action.text });
+      return;
+    case "shell_deny":
+      await sendToAssistant(token, chatId, userId, {
+        message: `I declined to run the command: ${action.command}`,
+      });
+      return;
+    case "shell_approve": {
+      const res = await internalApiFetch("/api/shell-command/execute", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ command: action.command }),
+      });
+      const data = (await res.json().catch(() => ({}))) as {
+        stdout?: string;
+        stderr?: string;
+        exitCode?: number;
+        error?: string;
+      };
+      const body = res.ok
+        ? {
+            message: "Command approved and run.",
+            continueShellApproval: {
+              command: action.command,
+              stdout: (data.stdout ?? "").trim(),
+              stderr: (data.stderr ?? "").trim(),
+              exitCode: data.exitCode,
+            },
+          }
+        : { message: `The shell command failed: ${data.error || "Command failed"}` };
+      await sendToAssistant(token, chatId, userId, body);
+      return;
+    }
+    case "run_response": {
+      const res = await internalApiFetch(`/api/runs/${encodeURIComponent(action.runId)}/respond`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ response: action.response }),
+      });
+      const data = (await res.json().catch(() => ({}))) as { error?: string };
+      await sendTelegramMessage(
+        token,
+        chatId,
+        res.ok ? "Sent your answer to the run." : `Error: ${data.error ?? res.statusText}`
+      );
+      return;
+    }
+  }
+}
+
+/**
+ * Process a single Telegram update: run chat through LLM and send reply. A message that matches
+ * telegram workflow triggers starts their workflows instead. Button presses run their stored action.
+ * The assistant and other app APIs are called at the fixed internal origin, never the request's.
+ */
+export async function processTelegramUpdate(update: TelegramUpdate, token: string): Promise<void> {
+  if (update.callback_query) {
+    await processTelegramCallback(update.callback_query, token);
+    return;
+  }
+  const message = update.message;
+  if (!message?.chat?.id) return;
+  const chatId = message.chat.id;
+  const userId = message.from?.id;
+  const text = (message.text ?? message.caption)?.trim();
+
+  if (userId === undefined || !isTelegramUserAllowed(userId)) {
+    const pairCode = /^\/(?:pair|start)(?:@\w+)?\s+(\S+)$/.exec(text ?? "")?.[1];
+    if (userId !== undefined && pairCode && pairTelegramUser(userId, pairCode, chatId)) {
+      await sendTelegramMessage(token, chatId, "Paired. You can now talk to Agentron.");
+      return;
+    }
+    await sendTelegramMessage(
+      token,
+      chatId,
+      userId === undefined
+        ? "This bot only answers messages from allowed users."
+        : `This bot is private. Your Telegram user id is ${userId}. Ask the owner to add it in Settings → Telegram, or send /pair CODE with a pairing code from there.`
+    );
+    return;
+  }
+
+  if (text && /^\/new(?:@\w+)?$/.test(text)) {
+    setConversationId(chatId, userId, crypto.randomUUID());
+    await sendTelegramMessage(token, chatId, "Started a new conversation.");
+    return;
+  }
+
+  const file = getTelegramMessageFile(message);
+  if (!text && !file) {
+    await sendTelegramMessage(
+      token,
+      chatId,
+      "Send a text message, photo or file to talk to Agentron."
+    );
+    return;
+  }
+
+  if (text && !file) {
+    let fired = 0;
+    try {
+      fired = await fireTelegramTriggers({
+        text,
+        chatId,
+        messageId: message.message_id,
+        fromId: userId,
+      });
+    } catch (err) {
+      logApiError("telegram", "workflow triggers", err);
+    }
+    if (fired > 0) {
+      await sendTelegramMessage(
+        token,
+        chatId,
+        fired === 1 ? "Started 1 workflow." : `Started ${fired} workflows.`
+      );
+      return;
+    }
+  }
+
+  const body: Record<string, unknown> = { message: text || `Sent ${file?.name}` };
+  if (file) {
+    const stored = await storeTelegramFile(token, file);
+    if ("error" in stored) {
+      await sendTelegramMessage(token, chatId, `Could not receive the file: ${stored.error}`);
+      return;
+    }
+    body.attachments = [{ fileId: stored.id }];
+  }
+  await sendToAssistant(token, chatId, userId, body);
+}
+
+/** Question and options a waiting run asked for (request_user_help writes them flat or under output). */
+function runWaitingPrompt(raw: unknown): { question?: string; options: string[] } {
+  let out: Record<string, unknown> = {};
+  try {
+    const parsed = typeof raw === "string" ? JSON.parse(raw) : raw;
+    if (parsed && typeof parsed === "object") out = parsed as Record<string, unknown>;
+  } catch {
+    // unparsable output: no question
+  }
+  const inner =
+    out.output && typeof out.output === "object" ? (out.output as Record<string, unknown>) : out;
+  const text = (v: unknown) => (typeof v === "string" && v.trim() ? v.trim() : undefined);
+  const question =
+    text(out.question) ?? text(inner.question) ?? text(out.message) ?? text(inner.message);
+  const opts = [inner.suggestions, inner.options, out.suggestions, out.options].find(Array.isArray);
+  return { question, options: (opts ?? []).map((o) => String(o)).filter(Boolean) };
+}
+
+/**
+ * Sends a run's question to the notification chat from Telegram settings, with its options as
+ * buttons. Does nothing unless Telegram is enabled with a token and a notification chat.
+ */
+export async function notifyTelegramRunWaiting(runId: string): Promise<void> {
+  const settings = getTelegramSettings();
+  const token = getTelegramBotToken();
+  const chatId = Number(settings.notificationChatId);
+  if (!settings.enabled || !token || !Number.isInteger(chatId) || chatId === 0) return;
+  const rows = await db
+    .select({ output: executions.output })
+    .from(executions)
+    .where(eq(executions.id, runId))
+    .limit(1);
+  if (rows.length === 0) return;
+  const { question, options } = runWaitingPrompt(rows[0].output);
+  const lines = [`<b>Run needs your input</b> (${escapeHtml(runId)})`];
+  if (question) lines.push(escapeHtml(question));
+  if (options.length === 0) lines.push("Reply from the run page in Agentron.");
+  await sendTelegramMessage(token, chatId, truncate(lines.join("\n")), {
+    rows: options.map((option) => ({
+      text: option,
+      action: { type: "run_response", runId, response: option },
+    })),
+  });
 }
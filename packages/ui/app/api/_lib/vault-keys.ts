@@ -0,0 +1,217 @@
+/**
+ * Vault key management: creating the vault, changing the master password, the optional recovery key
+ * and passphrase-encrypted credential exports for moving the vault to another machine.
+ *
+ * The vault key is derived from the master password and the salt in vault_meta, so a new password
+ * means a new key: rotation re-encrypts every saved credential in one transaction. The recovery key
+ * wraps the vault key; it also survives rotations because vault_meta keeps the recovery-derived key
+ * sealed with the vault key. Credential grants have their own keys and are not affected.
+ */
+import { asc, eq } from "drizzle-orm";
+import { db, savedCredentials, vaultMeta } from "./db";
+import {
+  createVaultSalt,
+  decryptWithVaultKey,
+  deriveRecoveryKey,
+  deriveVaultKey,
+  encryptWithVaultKey,
+  generateRecoveryKey,
+  unwrapKey,
+  VAULT_CHECK_PLAIN,
+  wrapKey,
+} from "./vault";
+
+const VAULT_ID = "default";
+export const VAULT_EXPORT_FORMAT = "agentron-vault-export";
+const VAULT_EXPORT_VERSION = 1;
+
+type VaultMetaRow = typeof vaultMeta.$inferSelect;
+
+/** File written by exportVaultCredentials: credentials encrypted with a key derived from a passphrase. */
+export type VaultExport = {
+  format: typeof VAULT_EXPORT_FORMAT;
+  version: number;
+  createdAt: number;
+  count: number;
+  salt: string;
+  data: string;
+};
+
+/** Encrypted check value stored in vault_meta; decrypting it proves a key is the vault key. */
+function createVaultCheck(key: Buffer): string {
+  return encryptWithVaultKey(VAULT_CHECK_PLAIN, key);
+}
+
+/** True when key decrypts the vault_meta check value. */
+export function isVaultKeyValid(check: string, key: Buffer): boolean {
+  try {
+    return decryptWithVaultKey(check, key) === VAULT_CHECK_PLAIN;
+  } catch {
+    return false;
+  }
+}
+
+export async function getVaultMeta(): Promise<VaultMetaRow | undefined> {
+  const rows = await db.select().from(vaultMeta).where(eq(vaultMeta.id, VAULT_ID));
+  return rows[0];
+}
+
+/** Recovery columns for a new recovery key protecting vaultKey. */
+function recoveryFields(vaultKey: Buffer, recoveryKey: string) {
+  const recoverySalt = createVaultSalt();
+  const recoveryDerived = deriveRecoveryKey(recoveryKey, recoverySalt);
+  return {
+    recoverySalt,
+    recoveryWrappedKey: wrapKey(vaultKey, recoveryDerived),
+    recoverySeal: wrapKey(recoveryDerived, vaultKey),
+  };
+}
+
+/**
+ * Creates the vault. Returns the vault key, plus a recovery key when requested (shown to the user
+ * once; only its derived form is stored). Returns null if the vault already exists.
+ */
+export async function createVault(
+  masterPassword: string,
+  withRecoveryKey: boolean
+): Promise<{ key: Buffer; recoveryKey?: string } | null> {
+  if (await getVaultMeta()) return null;
+  const salt = createVaultSalt();
+  const key = deriveVaultKey(masterPassword, salt);
+  const recoveryKey = withRecoveryKey ? generateRecoveryKey() : undefined;
+  await db
+    .insert(vaultMeta)
+    .values({
+      id: VAULT_ID,
+      salt,
+      check: createVaultCheck(key),
+      createdAt: Date.now(),
+      ...(recoveryKey !== undefined && recoveryFields(key, recoveryKey)),
+    })
+    .run();
+  return { key, ...(recoveryKey !== undefined && { recoveryKey }) };
+}
+
+/** The vault key for a master password, or null if the password is wrong. */
+export function keyFromMasterPassword(meta: VaultMetaRow, masterPassword: string): Buffer | null {
+  const key = deriveVaultKey(masterPassword, meta.salt);
+  return isVaultKeyValid(meta.check, key) ? key : null;
+}
+
+/** The vault key for a recovery key, or null if the vault has none or the key is wrong. */
+export function keyFromRecoveryKey(meta: VaultMetaRow, recoveryKey: string): Buffer | null {
+  if (!meta.recoverySalt || !meta.recoveryWrappedKey) return null;
+  const key = unwrapKey(meta.recoveryWrappedKey, deriveRecoveryKey(recoveryKey, meta.recoverySalt));
+  return key && isVaultKeyValid(meta.check, key) ? key : null;
+}
+
+/**
+ * Changes the master password: derives a new key from a new salt and re-encrypts every saved
+ * credential, the check value and the recovery key in one transaction. Credentials are read inside
+ * the transaction, so none written meanwhile is left on the old key, and a credential that cannot be
+ * decrypted rolls the rotation back. Returns the new key.
+ */
+export async function rotateVaultPassword(
+  meta: VaultMetaRow,
+  currentKey: Buffer,
+  newPassword: string
+): Promise<Buffer> {
+  const salt = createVaultSalt();
+  const newKey = deriveVaultKey(newPassword, salt);
+  const recoveryDerived = meta.recoverySeal ? unwrapKey(meta.recoverySeal, currentKey) : null;
+
+  db.transaction((tx) => {
+    for (const row of tx.select().from(savedCredentials).all()) {
+      const value = decryptWithVaultKey(row.value, currentKey);
+      tx.update(savedCredentials)
+        .set({ value: encryptWithVaultKey(value, newKey) })
+        .where(eq(savedCredentials.key, row.key))
+        .run();
+    }
+    tx.update(vaultMeta)
+      .set({
+        salt,
+        check: createVaultCheck(newKey),
+        rotatedAt: Date.now(),
+        ...(recoveryDerived && {
+          recoveryWrappedKey: wrapKey(newKey, recoveryDerived),
+          recoverySeal: wrapKey(recoveryDerived, newKey),
+        }),
+      })
+      .where(eq(vaultMeta.id, VAULT_ID))
+      .run();
+  });
+  return newKey;
+}
+
+/** Replaces the recovery key (or adds one to a vault created without it). Returns the new key. */
+export async function resetRecoveryKey(vaultKey: Buffer): Promise<string> {
+  const recoveryKey = generateRecoveryKey();
+  await db
+    .update(vaultMeta)
+    .set(recoveryFields(vaultKey, recoveryKey))
+    .where(eq(vaultMeta.id, VAULT_ID))
+    .run();
+  return recoveryKey;
+}
+
+/** Removes the recovery key; only the master password can unlock the vault afterwards. */
+export async function removeRecoveryKey(): Promise<void> {
+  await db
+    .update(vaultMeta)
+    .set({ recoverySalt: null, recoveryWrappedKey: null, recoverySeal: null })
+    .where(eq(vaultMeta.id, VAULT_ID))
+    .run();
+}
+
+/** Encrypts all saved credentials with a key derived from passphrase, for import on another machine. */
+export async function exportVaultCredentials(
+  vaultKey: Buffer,
+  passphrase: string
+): Promise<VaultExport> {
+  const rows = await db.select().from(savedCredentials).orderBy(asc(savedCredentials.createdAt));
+  const entries = rows.map((row) => ({
+    key: row.key,
+    value: decryptWithVaultKey(row.value, vaultKey),
+  }));
+  const salt = createVaultSalt();
+  return {
+    format: VAULT_EXPORT_FORMAT,
+    version: VAULT_EXPORT_VERSION,
+    createdAt: Date.now(),
+    count: entries.length,
+    salt,
+    data: encryptWithVaultKey(JSON.stringify({ entries }), deriveVaultKey(passphrase, salt)),
+  };
+}
+
+/** Decrypts a file written by exportVaultCredentials. */
+export function readVaultExport(
+  file: unknown,
+  passphrase: string
+): { entries: { key: string; value: string }[] } | { error: string } {
+  const f = file && typeof file === "object" ? (file as Partial<VaultExport>) : {};
+  if (
+    f.format !== VAULT_EXPORT_FORMAT ||
+    typeof f.salt !== "string" ||
+    typeof f.data !== "string"
+  ) {
+    return { error: "Not a vault export file." };
+  }
+  if (f.version !== VAULT_EXPORT_VERSION) {
+    return { error: `Unsupported vault export version: ${String(f.version)}` };
+  }
+  let parsed: { entries?: unknown };
+  try {
+    parsed = JSON.parse(decryptWithVaultKey(f.data, deriveVaultKey(passphrase, f.salt)));
+  } catch {
+    return { error: "Wrong passphrase or damaged export file." };
+  }
+  const entries = Array.isArray(parsed.entries)
+    ? parsed.entries.filter(
+        (e): e is { key: string; value: string } =>
+          !!e && typeof e.key === "string" && typeof e.value === "string"
+      )
+    : [];
+  return { entries };
+}
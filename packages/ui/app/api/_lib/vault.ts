@@ -1,13 +1,16 @@
 /**
  * Internal password vault: credentials are encrypted with a key derived from the user's
  * master password. The agent can only read credentials when the vault is unlocked (user
- * has entered the master password this session). No keychain, no file-based key fallbacks.
+ * has entered the master password this session), or through a credential grant the user created
+ * for a workflow or agent (see credential-grants.ts). No keychain, no file-based key fallbacks.
+ * Password rotation, the recovery key and encrypted exports are in vault-keys.ts.
  */
 
 import crypto from "node:crypto";
 import fs from "node:fs";
 import path from "node:path";
-import { getDataDir } from "./db";
+import { eq } from "drizzle-orm";
+import { db, getDataDir, vaultMeta } from "./db";
 
 const ALGORITHM = "aes-256-gcm";
 const IV_LENGTH = 12;
@@ -15,18 +18,24 @@ const AUTH_TAG_LENGTH = 16;
 const KEY_LENGTH = 32;
 const SALT_LENGTH = 16;
 const VAULT_SALT = "agentron-vault-v1";
-const VAULT_CHECK_PLAIN = "vault_ok";
 const COOKIE_NAME = "agentron_vault";
+/** Plaintext of the vault_meta check value; decrypting it proves a key is the current vault key. */
+export const VAULT_CHECK_PLAIN = "vault_ok";
 const COOKIE_MAX_AGE = 60 * 60 * 24 * 7; // 7 days
 const COOKIE_SECRET_FILE = "vault-cookie.secret";
+const MACHINE_SECRET_FILE = "vault-machine.secret";
 const ENC_PREFIX = "enc:";
 
-function getCookieSecret(): Buffer {
-  const env = process.env.AGENTRON_VAULT_COOKIE_SECRET;
+/**
+ * Loads a 32-byte server secret from envVar (at least 32 characters) or from fileName in the data
+ * dir, creating the file on first use. Returns null when neither is usable.
+ */
+function loadServerSecret(envVar: string, fileName: string): Buffer | null {
+  const env = process.env[envVar];
   if (env && env.trim().length >= 32) {
     return crypto.scryptSync(env.trim().slice(0, 64), VAULT_SALT, KEY_LENGTH);
   }
-  const keyPath = path.join(getDataDir(), COOKIE_SECRET_FILE);
+  const keyPath = path.join(getDataDir(), fileName);
   try {
     if (fs.existsSync(keyPath)) {
       const raw = fs.readFileSync(keyPath, "utf8").trim();
@@ -42,16 +51,44 @@ function getCookieSecret(): Buffer {
     }
     return key;
   } catch {
-    return crypto.scryptSync("agentron-fallback-cookie-secret", VAULT_SALT, KEY_LENGTH);
+    return null;
   }
 }
 
+function getCookieSecret(): Buffer {
+  // The cookie only carries the vault key for a session, so a fixed fallback is tolerable here.
+  return (
+    loadServerSecret("AGENTRON_VAULT_COOKIE_SECRET", COOKIE_SECRET_FILE) ??
+    crypto.scryptSync("agentron-fallback-cookie-secret", VAULT_SALT, KEY_LENGTH)
+  );
+}
+
 let cookieSecret: Buffer | null = null;
 function getSecret(): Buffer {
   if (!cookieSecret) cookieSecret = getCookieSecret();
   return cookieSecret;
 }
 
+/** Thrown when credential grants need the machine secret and there is none to load or create. */
+export class MachineSecretUnavailableError extends Error {
+  constructor() {
+    super(
+      "No machine secret for credential grants: set AGENTRON_VAULT_MACHINE_SECRET (at least 32 characters) or make the data directory writable."
+    );
+    this.name = "MachineSecretUnavailableError";
+  }
+}
+
+let machineSecret: Buffer | null = null;
+/** Secret that wraps grant keys. Grants persist, so there is no fallback: throws when unavailable. */
+function getMachineSecret(): Buffer {
+  if (!machineSecret) {
+    machineSecret = loadServerSecret("AGENTRON_VAULT_MACHINE_SECRET", MACHINE_SECRET_FILE);
+    if (!machineSecret) throw new MachineSecretUnavailableError();
+  }
+  return machineSecret;
+}
+
 /** Derive 32-byte vault key from master password and salt (scrypt). */
 export function deriveVaultKey(masterPassword: string, salt: string): Buffer {
   const saltBuf = Buffer.from(salt, "base64url");
@@ -81,6 +118,54 @@ export function decryptWithVaultKey(stored: string, key: Buffer): string {
   return decipher.update(ciphertext, undefined, "utf8") + decipher.final("utf8");
 }
 
+/** New random salt for deriveVaultKey. */
+export function createVaultSalt(): string {
+  return crypto.randomBytes(SALT_LENGTH).toString("base64url");
+}
+
+/** Encrypts a 32-byte key with another key (same format as encryptWithVaultKey). */
+export function wrapKey(key: Buffer, wrappingKey: Buffer): string {
+  return encryptWithVaultKey(key.toString("base64url"), wrappingKey);
+}
+
+/** Decrypts a key wrapped by wrapKey. Returns null if wrappingKey is wrong. */
+export function unwrapKey(wrapped: string, wrappingKey: Buffer): Buffer | null {
+  try {
+    const key = Buffer.from(decryptWithVaultKey(wrapped, wrappingKey), "base64url");
+    return key.length === KEY_LENGTH ? key : null;
+  } catch {
+    return null;
+  }
+}
+
+/** New recovery key shown to the user once: 32 hex characters in groups of four. */
+export function generateRecoveryKey(): string {
+  const hex = crypto.randomBytes(16).toString("hex").toUpperCase();
+  return hex.match(/.{4}/g)!.join("-");
+}
+
+/** Derives the key that wraps the vault key from a recovery key; dashes, spaces and case are ignored. */
+export function deriveRecoveryKey(recoveryKey: string, salt: string): Buffer {
+  return deriveVaultKey(recoveryKey.replace(/[\s-]/g, "").toUpperCase(), salt);
+}
+
+/**
+ * Creates a random key for a credential grant and returns it with its machine-secret-wrapped form.
+ * Throws MachineSecretUnavailableError when there is no machine secret.
+ */
+export function createGrantKey(): { key: Buffer; wrapped: string } {
+  const key = crypto.randomBytes(KEY_LENGTH);
+  return { key, wrapped: wrapKey(key, getMachineSecret()) };
+}
+
+/**
+ * Unwraps a grant key created by createGrantKey. Returns null if the machine secret changed;
+ * throws MachineSecretUnavailableError when there is none.
+ */
+export function unwrapGrantKey(wrapped: string): Buffer | null {
+  return unwrapKey(wrapped, getMachineSecret());
+}
+
 /** Encrypt vault key for cookie (so we can send it to the client as HTTP-only cookie and get it back per request). */
 function encryptForCookie(vaultKey: Buffer): string {
   const secret = getSecret();
@@ -116,14 +201,29 @@ export function decryptFromCookie(cookieValue: string): Buffer | null {
   }
 }
 
-/** Parse request Cookie header and return vault key if present and valid. */
+/**
+ * Parse request Cookie header and return vault key if present and valid. The key must still decrypt
+ * the vault_meta check value: a cookie from before a master-password change holds the old key and
+ * counts as locked, so nothing is encrypted with a key the vault no longer uses.
+ */
 export function getVaultKeyFromRequest(request: Request): Buffer | null {
   const cookieHeader = request.headers.get("cookie");
   if (!cookieHeader) return null;
   const match = cookieHeader.match(new RegExp(`(?:^|;)\\s*${COOKIE_NAME}=([^;]+)`));
   const value = match?.[1];
   if (!value) return null;
-  return decryptFromCookie(decodeURIComponent(value));
+  const key = decryptFromCookie(decodeURIComponent(value));
+  if (!key) return null;
+  const meta = db
+    .select({ check: vaultMeta.check })
+    .from(vaultMeta)
+    .where(eq(vaultMeta.id, "default"))
+    .get();
+  try {
+    return meta && decryptWithVaultKey(meta.check, key) === VAULT_CHECK_PLAIN ? key : null;
+  } catch {
+    return null;
+  }
 }
 
 /** Build Set-Cookie header value to set the vault cookie (after unlock). */
@@ -1,6 +1,9 @@
 /**
  * Query external vector stores (Qdrant, pgvector). Bundled store is queried in rag.ts directly.
+ * Chunk location (document id, chunk index, offsets, heading path) is read from the Qdrant point
+ * payload or the pgvector row when present, in snake_case or camelCase.
  */
+import type { ChunkLocation } from "./rag-retrieval";
 
 export type VectorStoreConfig = {
   endpoint?: string;
@@ -9,13 +12,41 @@ export type VectorStoreConfig = {
   tableName?: string;
 };
 
-export type RagChunk = { text: string; score?: number; source?: string };
+export type RagChunk = ChunkLocation & { text: string; score?: number; source?: string };
 
 function getApiKey(apiKeyRef?: string): string | undefined {
   if (!apiKeyRef || typeof process === "undefined") return undefined;
   return process.env[apiKeyRef];
 }
 
+/** Location fields of a Qdrant payload or pgvector row. */
+export function locationFromRecord(record: Record<string, unknown>): ChunkLocation {
+  const pick = (...keys: string[]) => keys.map((k) => record[k]).find((v) => v != null);
+  const int = (v: unknown) => {
+    const n = typeof v === "string" ? Number(v) : v;
+    return typeof n === "number" && Number.isInteger(n) ? n : undefined;
+  };
+  const documentId = pick("document_id", "documentId");
+  let headingPath = pick("heading_path", "headingPath");
+  if (typeof headingPath === "string") {
+    try {
+      headingPath = JSON.parse(headingPath);
+    } catch {
+      headingPath = undefined;
+    }
+  }
+  const chunkIndex = int(pick("chunk_index", "chunkIndex"));
+  const start = int(pick("start_offset", "startOffset", "start"));
+  const end = int(pick("end_offset", "endOffset", "end"));
+  return {
+    ...(documentId != null && { documentId: String(documentId) }),
+    ...(chunkIndex !== undefined && { chunkIndex }),
+    ...(Array.isArray(headingPath) && { headingPath: headingPath.map(String) }),
+    ...(start !== undefined && { start }),
+    ...(end !== undefined && { end }),
+  };
+}
+
 /**
  * Query Qdrant for similar vectors. Config: endpoint (e.g. https://xxx.qdrant.io or http://localhost:6333), apiKeyRef (optional).
  * Collection name in Qdrant is the RAG collectionId.
@@ -47,12 +78,13 @@ export async function queryQdrant(
     throw new Error(`Qdrant search failed: ${res.status} ${err}`);
   }
   const data = (await res.json()) as {
-    result?: Array<{ id?: unknown; score?: number; payload?: { text?: string } }>;
+    result?: Array<{ id?: unknown; score?: number; payload?: Record<string, unknown> }>;
   };
   const result = data.result || [];
   return result
     .map((r) => ({
-      text: r.payload?.text ?? "",
+      ...locationFromRecord(r.payload ?? {}),
+      text: typeof r.payload?.text === "string" ? r.payload.text : "",
       score: r.score,
     }))
     .filter((c) => c.text);
@@ -60,7 +92,8 @@ export async function queryQdrant(
 
 /**
  * Query pgvector. Config: connectionStringRef (env var with Postgres connection string), tableName (default rag_vectors).
- * Table must have: collection_id, embedding (vector), text.
+ * Table must have: collection_id, embedding (vector), text. Optional: document_id, chunk_index,
+ * start_offset, end_offset, heading_path.
  */
 export async function queryPgvector(
   collectionId: string,
@@ -79,10 +112,14 @@ export async function queryPgvector(
     const table = config.tableName || "rag_vectors";
     const vectorStr = `[${queryVector.join(",")}]`;
     const res = await client.query(
-      `SELECT text, 1 - (embedding <=> $1::vector) AS score FROM ${table} WHERE collection_id = $2 ORDER BY embedding <=> $1::vector LIMIT $3`,
+      `SELECT *, 1 - (embedding <=> $1::vector) AS score FROM ${table} WHERE collection_id = $2 ORDER BY embedding <=> $1::vector LIMIT $3`,
       [vectorStr, collectionId, limit]
     );
-    return res.rows.map((r: { text: string; score: number }) => ({ text: r.text, score: r.score }));
+    return res.rows.map((r: Record<string, unknown> & { text: string; score: number }) => ({
+      ...locationFromRecord(r),
+      text: r.text,
+      score: r.score,
+    }));
   } finally {
     await client.end();
   }
@@ -0,0 +1,86 @@
+/**
+ * Wakes workflow runs that were waiting in a delay node when the server stopped. Delay nodes
+ * persist their wake-up time under `__delay_until_<nodeId>` in the run state before they wait
+ * (see run-workflow-control-nodes.ts); on server start each such run is resumed at that time and
+ * only waits for whatever is left of the delay.
+ */
+import { and, eq } from "drizzle-orm";
+import { db, executionRunState, workflowQueue } from "./db";
+import {
+  enqueueExecutionEvent,
+  getExecutionEventsForRun,
+  getExecutionRunState,
+  parseRunStateSharedContext,
+} from "./execution-events";
+import { DELAY_UNTIL_KEY_PREFIX } from "./run-workflow-control-nodes";
+import { enqueueWorkflowResume, processOneWorkflowJob } from "./workflow-queue";
+
+const timeouts = new Map<string, NodeJS.Timeout>();
+
+/** Delay nodes that are waiting in a run's shared context, with their wake-up times. */
+export function getPendingDelays(
+  sharedContext: Record<string, unknown>
+): { nodeId: string; wakeAt: number }[] {
+  return Object.entries(sharedContext)
+    .filter(([key, value]) => key.startsWith(DELAY_UNTIL_KEY_PREFIX) && typeof value === "number")
+    .map(([key, value]) => ({
+      nodeId: key.slice(DELAY_UNTIL_KEY_PREFIX.length),
+      wakeAt: value as number,
+    }));
+}
+
+/** Requests the delay nodes again (unless a request is still pending) and resumes the run. */
+export async function wakeDelayedRun(runId: string): Promise<void> {
+  timeouts.delete(runId);
+  const state = await getExecutionRunState(runId);
+  if (!state || state.status !== "running") return;
+  const delays = getPendingDelays(parseRunStateSharedContext(state));
+  if (delays.length === 0) return;
+  const events = await getExecutionEventsForRun(runId);
+  for (const { nodeId } of delays) {
+    const pending = events.some(
+      (e) => e.type === "NodeRequested" && e.processedAt == null && e.payload?.nodeId === nodeId
+    );
+    if (!pending) await enqueueExecutionEvent(runId, "NodeRequested", { nodeId });
+  }
+  // The job that ran the run before the restart never finished; it must not hold a queue slot.
+  await db
+    .update(workflowQueue)
+    .set({
+      status: "failed",
+      finishedAt: Date.now(),
+      error: "Server stopped while the run waited in a delay node",
+    })
+    .where(and(eq(workflowQueue.runId, runId), eq(workflowQueue.status, "running")))
+    .run();
+  await enqueueWorkflowResume({ runId });
+  void processOneWorkflowJob().catch(() => {});
+}
+
+/**
+ * Clear all wake-up timeouts and schedule every running run that waits in a delay node. Call on
+ * server start, when no run is executing yet; runs whose wake-up time passed resume immediately.
+ */
+export function refreshDelayedWorkflowRuns(): void {
+  for (const t of timeouts.values()) clearTimeout(t);
+  timeouts.clear();
+  void (async () => {
+    const rows = await db
+      .select({ executionId: executionRunState.executionId })
+      .from(executionRunState)
+      .where(eq(executionRunState.status, "running"));
+    for (const { executionId } of rows) {
+      const state = await getExecutionRunState(executionId);
+      const delays = state ? getPendingDelays(parseRunStateSharedContext(state)) : [];
+      if (delays.length === 0) continue;
+      const wakeAt = Math.max(...delays.map((d) => d.wakeAt));
+      const t = setTimeout(
+        () => {
+          void wakeDelayedRun(executionId);
+        },
+        Math.max(0, wakeAt - Date.now())
+      );
+      timeouts.set(executionId, t);
+    }
+  })();
+}
@@ -33,11 +33,14 @@ function parsePayload(payload: string): Record<string, unknown> {
   }
 }
 
-/** Enqueue a new workflow run (execute route). Returns job id. */
+/** Enqueue a new workflow run (execute route, workflow triggers). Returns job id. */
 export async function enqueueWorkflowStart(params: {
   runId: string;
   workflowId: string;
   branchId?: string;
+  runInputs?: Record<string, unknown>;
+  /** Set when a workflow trigger started the run. */
+  triggerId?: string;
 }): Promise<string> {
   const id = crypto.randomUUID();
   const now = Date.now();
@@ -50,6 +53,8 @@ export async function enqueueWorkflowStart(params: {
         runId: params.runId,
         workflowId: params.workflowId,
         branchId: params.branchId ?? null,
+        ...(params.runInputs && { runInputs: params.runInputs }),
+        ...(params.triggerId && { triggerId: params.triggerId }),
       }),
       status: "queued",
       runId: params.runId,
@@ -210,8 +215,9 @@ export async function processOneWorkflowJob(options?: {
       const runId = payload.runId as string;
       const workflowId = payload.workflowId as string;
       const branchId = payload.branchId as string | undefined;
+      const runInputs = payload.runInputs as Record<string, unknown> | undefined;
       const vaultKey = isWaitingJob ? options?.vaultKey : undefined;
-      await runWorkflowAndUpdateExecution({ runId, workflowId, branchId, vaultKey });
+      await runWorkflowAndUpdateExecution({ runId, workflowId, branchId, runInputs, vaultKey });
     } else if (row.type === "workflow_resume") {
       const runId = payload.runId as string;
       const resumeUserResponse = payload.resumeUserResponse as string | undefined;
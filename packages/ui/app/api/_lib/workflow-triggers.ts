@@ -0,0 +1,522 @@
+/**
+ * Workflow triggers: start a workflow (or one of its branches) from outside the app or from a
+ * local event. Types: webhook (POST /api/hooks/:token, optionally HMAC-signed), file (new file in
+ * a watched folder), rag_connector (new items after a connector sync), workflow_run (another
+ * workflow's run finished) and telegram (inbound message matching a pattern).
+ * A firing maps the event to run inputs (inputMapping: input name -> expression over the event),
+ * creates the run, enqueues it as a workflow_start job and records a workflow_trigger_events row
+ * with the job and run, so firings can be audited like the queue jobs they create.
+ */
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { and, desc, eq, type SQL } from "drizzle-orm";
+import {
+  evaluateWorkflowExpression,
+  formatWorkflowFieldErrors,
+  parseWorkflowExpression,
+  validateWorkflowInputs,
+} from "@agentron-studio/runtime";
+import {
+  db,
+  executions,
+  workflows,
+  workflowTriggers,
+  workflowTriggerEvents,
+  toExecutionRow,
+  fromWorkflowRow,
+  fromWorkflowTriggerRow,
+  fromWorkflowTriggerEventRow,
+  type WorkflowTrigger,
+  type WorkflowTriggerEvent,
+  type WorkflowTriggerType,
+} from "./db";
+import { enqueueWorkflowStart, waitForJob } from "./workflow-queue";
+
+export const WORKFLOW_TRIGGER_TYPES: WorkflowTriggerType[] = [
+  "webhook",
+  "file",
+  "rag_connector",
+  "workflow_run",
+  "telegram",
+];
+
+/** Longest event payload kept in workflow_trigger_events (characters of JSON). */
+const MAX_EVENT_PAYLOAD_CHARS = 4000;
+
+/** Delay before a new file in a watched folder fires, so it is fully written. */
+const FILE_SETTLE_MS = 500;
+
+/** Folder watchers of enabled file triggers. Key = trigger id. */
+const watchers = new Map<string, fs.FSWatcher>();
+/** Refreshes run one after another so watchers are never opened twice for a trigger. */
+let refreshing: Promise<void> = Promise.resolve();
+
+/** An event that fires a trigger. scope adds variables next to payload for the input mapping. */
+export type TriggerEventInput = {
+  /** Where the event came from, e.g. "webhook", a file path or "run 1a2b…". */
+  source: string;
+  /** Identifies the event; a trigger fires once per sourceRef. */
+  sourceRef?: string;
+  payload: unknown;
+  scope?: Record<string, unknown>;
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value != null && typeof value === "object" && !Array.isArray(value);
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function regexError(pattern: unknown, field: string): string | undefined {
+  if (pattern == null || pattern === "") return undefined;
+  if (typeof pattern !== "string") return `${field} must be a regular expression string`;
+  try {
+    new RegExp(pattern, "i");
+    return undefined;
+  } catch {
+    return `${field} is not a valid regular expression`;
+  }
+}
+
+/** A random URL-safe token for /api/hooks/:token. */
+export function generateTriggerToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+/** Settings of one trigger type from a request body, or an error message. */
+function parseTriggerConfig(
+  type: WorkflowTriggerType,
+  config: Record<string, unknown>,
+  workflowId: string
+): Record<string, unknown> | { error: string } {
+  switch (type) {
+    case "webhook":
+      return {};
+    case "file": {
+      const dir = optionalString(config.path);
+      if (!dir || !path.isAbsolute(dir)) {
+        return { error: "File triggers need config.path, an absolute folder path" };
+      }
+      const error = regexError(config.pattern, "config.pattern");
+      if (error) return { error };
+      return { path: dir, ...(optionalString(config.pattern) && { pattern: config.pattern }) };
+    }
+    case "rag_connector": {
+      const connectorId = optionalString(config.connectorId);
+      if (!connectorId) return { error: "RAG connector triggers need config.connectorId" };
+      return { connectorId };
+    }
+    case "workflow_run": {
+      const sourceWorkflowId = optionalString(config.workflowId);
+      if (!sourceWorkflowId) return { error: "Workflow run triggers need config.workflowId" };
+      if (sourceWorkflowId === workflowId) {
+        return { error: "A workflow cannot be triggered by its own runs" };
+      }
+      const statuses = config.statuses ?? ["completed"];
+      if (
+        !Array.isArray(statuses) ||
+        statuses.length === 0 ||
+        statuses.some((s) => s !== "completed" && s !== "failed")
+      ) {
+        return { error: 'config.statuses must list "completed" and/or "failed"' };
+      }
+      return { workflowId: sourceWorkflowId, statuses };
+    }
+    case "telegram": {
+      const error = regexError(config.pattern, "config.pattern");
+      if (error) return { error };
+      return optionalString(config.pattern) ? { pattern: config.pattern } : {};
+    }
+  }
+}
+
+/**
+ * Trigger from a POST/PATCH body, applied over an existing trigger for updates. Webhook triggers
+ * get a generated token; body.regenerateToken replaces it. Returns an error message when the
+ * body is invalid.
+ */
+export function parseWorkflowTriggerInput(
+  body: Record<string, unknown>,
+  existing?: WorkflowTrigger
+): WorkflowTrigger | { error: string } {
+  const workflowId = existing?.workflowId ?? optionalString(body.workflowId);
+  if (!workflowId) return { error: "workflowId is required" };
+  const type = (existing?.type ?? body.type) as WorkflowTriggerType;
+  if (!WORKFLOW_TRIGGER_TYPES.includes(type)) {
+    return { error: `type must be one of: ${WORKFLOW_TRIGGER_TYPES.join(", ")}` };
+  }
+  const name = body.name !== undefined ? optionalString(body.name) : existing?.name;
+  if (!name) return { error: "name is required" };
+
+  const rawConfig = body.config !== undefined ? body.config : (existing?.config ?? {});
+  if (!isRecord(rawConfig)) return { error: "config must be an object" };
+  const config = parseTriggerConfig(type, rawConfig, workflowId);
+  if ("error" in config) return { error: config.error as string };
+
+  const inputMapping =
+    body.inputMapping !== undefined ? body.inputMapping : (existing?.inputMapping ?? {});
+  if (!isRecord(inputMapping)) return { error: "inputMapping must be an object" };
+  for (const [key, expression] of Object.entries(inputMapping)) {
+    if (typeof expression !== "string" || !expression.trim()) {
+      return { error: `inputMapping.${key} must be an expression string` };
+    }
+    try {
+      parseWorkflowExpression(expression);
+    } catch (err) {
+      return { error: `inputMapping.${key}: ${err instanceof Error ? err.message : String(err)}` };
+    }
+  }
+
+  let secret = existing?.secret;
+  if (body.secret !== undefined) {
+    if (body.secret !== null && typeof body.secret !== "string") {
+      return { error: "secret must be a string" };
+    }
+    secret = optionalString(body.secret);
+  }
+  const branchId = body.branchId !== undefined ? optionalString(body.branchId) : existing?.branchId;
+  const now = Date.now();
+  return {
+    id: existing?.id ?? crypto.randomUUID(),
+    workflowId,
+    ...(branchId && { branchId }),
+    name,
+    type,
+    ...(type === "webhook" && {
+      token:
+        existing?.token && body.regenerateToken !== true ? existing.token : generateTriggerToken(),
+      ...(secret && { secret }),
+    }),
+    config,
+    inputMapping: inputMapping as Record<string, string>,
+    enabled: typeof body.enabled === "boolean" ? body.enabled : (existing?.enabled ?? true),
+    ...(existing?.lastFiredAt != null && { lastFiredAt: existing.lastFiredAt }),
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Whether a webhook body is signed with the trigger secret. The signature header holds the
+ * hex HMAC-SHA256 of the raw body, optionally prefixed with "sha256=" (GitHub style).
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  rawBody: string,
+  signature: string | null | undefined
+): boolean {
+  if (!signature) return false;
+  const received = signature.trim().replace(/^sha256=/i, "");
+  if (!/^[0-9a-f]+$/i.test(received)) return false;
+  const expected = createHmac("sha256", secret).update(rawBody).digest("hex");
+  const a = Buffer.from(received.toLowerCase(), "hex");
+  const b = Buffer.from(expected, "hex");
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Run inputs for an event: each inputMapping entry evaluated over { payload, trigger, ...scope }.
+ * Without a mapping the run gets { payload }. Throws WorkflowExpressionError for bad expressions.
+ */
+export function mapTriggerInputs(
+  trigger: WorkflowTrigger,
+  event: TriggerEventInput
+): Record<string, unknown> {
+  const entries = Object.entries(trigger.inputMapping);
+  if (entries.length === 0) return { payload: event.payload };
+  const scope = {
+    ...event.scope,
+    payload: event.payload,
+    trigger: { id: trigger.id, name: trigger.name, type: trigger.type },
+  };
+  const inputs: Record<string, unknown> = {};
+  for (const [key, expression] of entries) {
+    inputs[key] = evaluateWorkflowExpression(expression, scope);
+  }
+  return inputs;
+}
+
+function truncatePayload(payload: unknown): string | null {
+  if (payload === undefined) return null;
+  let text: string;
+  try {
+    text = JSON.stringify(payload);
+  } catch {
+    text = String(payload);
+  }
+  return text.length > MAX_EVENT_PAYLOAD_CHARS
+    ? `${text.slice(0, MAX_EVENT_PAYLOAD_CHARS)}…`
+    : text;
+}
+
+async function recordTriggerEvent(
+  trigger: WorkflowTrigger,
+  event: TriggerEventInput,
+  fields: { status: WorkflowTriggerEvent["status"]; jobId?: string; runId?: string; error?: string }
+): Promise<WorkflowTriggerEvent> {
+  const row = {
+    id: crypto.randomUUID(),
+    triggerId: trigger.id,
+    workflowId: trigger.workflowId,
+    source: event.source,
+    sourceRef: event.sourceRef ?? null,
+    status: fields.status,
+    jobId: fields.jobId ?? null,
+    runId: fields.runId ?? null,
+    payload: truncatePayload(event.payload),
+    error: fields.error?.slice(0, 2000) ?? null,
+    createdAt: Date.now(),
+  };
+  await db.insert(workflowTriggerEvents).values(row).run();
+  return fromWorkflowTriggerEventRow(row);
+}
+
+/** Record an event that did not start a run (e.g. bad webhook signature, disabled trigger). */
+export function recordRejectedTriggerEvent(
+  trigger: WorkflowTrigger,
+  event: TriggerEventInput,
+  error: string
+): Promise<WorkflowTriggerEvent> {
+  return recordTriggerEvent(trigger, event, { status: "rejected", error });
+}
+
+async function alreadyFired(triggerId: string, sourceRef: string): Promise<boolean> {
+  const rows = await db
+    .select({ id: workflowTriggerEvents.id })
+    .from(workflowTriggerEvents)
+    .where(
+      and(
+        eq(workflowTriggerEvents.triggerId, triggerId),
+        eq(workflowTriggerEvents.sourceRef, sourceRef)
+      )
+    )
+    .limit(1);
+  return rows.length > 0;
+}
+
+/**
+ * Start the trigger's workflow for an event: map inputs, create the run, enqueue it and record
+ * the event. The run is processed in the background. Returns null when the event already fired
+ * this trigger (same sourceRef); an event with status "failed" when the input mapping failed.
+ */
+export async function fireTrigger(
+  trigger: WorkflowTrigger,
+  event: TriggerEventInput
+): Promise<WorkflowTriggerEvent | null> {
+  if (event.sourceRef && (await alreadyFired(trigger.id, event.sourceRef))) return null;
+  let runInputs: Record<string, unknown>;
+  try {
+    runInputs = mapTriggerInputs(trigger, event);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return recordTriggerEvent(trigger, event, {
+      status: "failed",
+      error: `Input mapping failed: ${message}`,
+    });
+  }
+  const wfRows = await db.select().from(workflows).where(eq(workflows.id, trigger.workflowId));
+  const inputSchema = wfRows[0] ? fromWorkflowRow(wfRows[0]).inputSchema : undefined;
+  if (inputSchema) {
+    const checked = validateWorkflowInputs(inputSchema, runInputs);
+    if (checked.errors.length > 0) {
+      return recordTriggerEvent(trigger, event, {
+        status: "failed",
+        error: `Invalid inputs: ${formatWorkflowFieldErrors(checked.errors)}`,
+      });
+    }
+    runInputs = checked.inputs;
+  }
+  const runId = crypto.randomUUID();
+  await db
+    .insert(executions)
+    .values(
+      toExecutionRow({
+        id: runId,
+        targetType: "workflow",
+        targetId: trigger.workflowId,
+        targetBranchId: trigger.branchId ?? null,
+        status: "running",
+      })
+    )
+    .run();
+  const jobId = await enqueueWorkflowStart({
+    runId,
+    workflowId: trigger.workflowId,
+    branchId: trigger.branchId,
+    runInputs,
+    triggerId: trigger.id,
+  });
+  const recorded = await recordTriggerEvent(trigger, event, { status: "queued", jobId, runId });
+  await db
+    .update(workflowTriggers)
+    .set({ lastFiredAt: recorded.createdAt })
+    .where(eq(workflowTriggers.id, trigger.id))
+    .run();
+  void waitForJob(jobId).catch(() => {});
+  return recorded;
+}
+
+/** Enabled triggers of one type. */
+async function enabledTriggers(type: WorkflowTriggerType): Promise<WorkflowTrigger[]> {
+  const rows = await db
+    .select()
+    .from(workflowTriggers)
+    .where(and(eq(workflowTriggers.type, type), eq(workflowTriggers.enabled, 1)));
+  return rows.map(fromWorkflowTriggerRow);
+}
+
+/** The trigger for /api/hooks/:token, or null. */
+export async function getWebhookTrigger(token: string): Promise<WorkflowTrigger | null> {
+  const rows = await db
+    .select()
+    .from(workflowTriggers)
+    .where(and(eq(workflowTriggers.type, "webhook"), eq(workflowTriggers.token, token)));
+  return rows[0] ? fromWorkflowTriggerRow(rows[0]) : null;
+}
+
+/** Most recent trigger events, newest first, optionally for one workflow or trigger. */
+export async function listWorkflowTriggerEvents(opts?: {
+  workflowId?: string;
+  triggerId?: string;
+  limit?: number;
+}): Promise<WorkflowTriggerEvent[]> {
+  const conditions: SQL[] = [];
+  if (opts?.workflowId) conditions.push(eq(workflowTriggerEvents.workflowId, opts.workflowId));
+  if (opts?.triggerId) conditions.push(eq(workflowTriggerEvents.triggerId, opts.triggerId));
+  const rows = await db
+    .select()
+    .from(workflowTriggerEvents)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(workflowTriggerEvents.createdAt))
+    .limit(opts?.limit ?? 50);
+  return rows.map(fromWorkflowTriggerEventRow);
+}
+
+/** Fire workflow_run triggers watching the workflow of a run that completed or failed. */
+export async function fireRunFinishedTriggers(
+  runId: string,
+  status: "completed" | "failed"
+): Promise<void> {
+  const rows = await db.select().from(executions).where(eq(executions.id, runId));
+  const run = rows[0];
+  if (!run || run.targetType !== "workflow") return;
+  const triggers = (await enabledTriggers("workflow_run")).filter(
+    (t) =>
+      t.config.workflowId === run.targetId &&
+      (t.config.statuses as string[] | undefined)?.includes(status)
+  );
+  if (triggers.length === 0) return;
+  let output: unknown;
+  try {
+    const parsed = run.output ? JSON.parse(run.output) : undefined;
+    output = isRecord(parsed) && "output" in parsed ? parsed.output : parsed;
+  } catch {
+    output = run.output;
+  }
+  for (const trigger of triggers) {
+    await fireTrigger(trigger, {
+      source: `run ${runId}`,
+      sourceRef: runId,
+      payload: { runId, workflowId: run.targetId, status, output },
+    });
+  }
+}
+
+/** Fire rag_connector triggers of a connector once per item that a sync added. */
+export async function fireRagConnectorTriggers(
+  connectorId: string,
+  items: Array<{ documentId: string; externalId?: string | null; name?: string }>
+): Promise<void> {
+  if (items.length === 0) return;
+  const triggers = (await enabledTriggers("rag_connector")).filter(
+    (t) => t.config.connectorId === connectorId
+  );
+  for (const trigger of triggers) {
+    for (const item of items) {
+      await fireTrigger(trigger, {
+        source: `connector ${connectorId}`,
+        sourceRef: item.externalId ?? item.documentId,
+        payload: { connectorId, ...item },
+      });
+    }
+  }
+}
+
+/**
+ * Fire telegram triggers whose pattern matches an inbound message (every message when a trigger
+ * has no pattern). The payload has the text, chat and the pattern's match groups. Returns how
+ * many triggers fired.
+ */
+export async function fireTelegramTriggers(message: {
+  text: string;
+  chatId: number;
+  messageId?: number;
+  fromId?: number;
+}): Promise<number> {
+  let fired = 0;
+  for (const trigger of await enabledTriggers("telegram")) {
+    const pattern = trigger.config.pattern as string | undefined;
+    const match = pattern ? new RegExp(pattern, "i").exec(message.text) : null;
+    if (pattern && !match) continue;
+    const result = await fireTrigger(trigger, {
+      source: `telegram chat ${message.chatId}`,
+      ...(message.messageId != null && { sourceRef: `${message.chatId}:${message.messageId}` }),
+      payload: { ...message, match: match ? [...match] : [] },
+    });
+    if (result?.status === "queued") fired++;
+  }
+  return fired;
+}
+
+function watchFolder(trigger: WorkflowTrigger): fs.FSWatcher | null {
+  const dir = trigger.config.path as string;
+  const pattern = trigger.config.pattern as string | undefined;
+  const regex = pattern ? new RegExp(pattern, "i") : null;
+  let watcher: fs.FSWatcher;
+  try {
+    watcher = fs.watch(dir, (eventType, filename) => {
+      if (eventType !== "rename" || !filename) return;
+      const name = filename.toString();
+      if (regex && !regex.test(name)) return;
+      const full = path.join(dir, name);
+      setTimeout(() => {
+        let stat: fs.Stats;
+        try {
+          stat = fs.statSync(full);
+        } catch {
+          return; // removed or renamed away
+        }
+        if (!stat.isFile()) return;
+        void fireTrigger(trigger, {
+          source: full,
+          sourceRef: `${full}@${Math.round(stat.birthtimeMs || stat.mtimeMs)}`,
+          payload: { path: full, name, size: stat.size, modifiedAt: stat.mtimeMs },
+        }).catch(() => {});
+      }, FILE_SETTLE_MS);
+    });
+  } catch {
+    return null; // folder missing or not readable; the trigger stays idle
+  }
+  watcher.on("error", () => watcher.close());
+  return watcher;
+}
+
+async function refresh(): Promise<void> {
+  for (const watcher of watchers.values()) watcher.close();
+  watchers.clear();
+  for (const trigger of await enabledTriggers("file")) {
+    const watcher = watchFolder(trigger);
+    if (watcher) watchers.set(trigger.id, watcher);
+  }
+}
+
+/**
+ * Watch the folders of enabled file triggers (files added while the app is closed do not fire).
+ * Call on server start and after trigger create/update/delete.
+ */
+export function refreshWorkflowTriggers(): void {
+  refreshing = refreshing.then(refresh).catch(() => {});
+}
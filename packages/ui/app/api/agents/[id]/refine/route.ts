@@ -10,7 +10,8 @@ import {
 } from "../../../_lib/db";
 import { eq } from "drizzle-orm";
 import type { LLMConfig } from "@agentron-studio/core";
-import { refinePrompt, createDefaultLLMManager } from "@agentron-studio/runtime";
+import { refinePrompt } from "@agentron-studio/runtime";
+import { createLLMManager } from "../../../_lib/llm-manager";
 
 export const runtime = "nodejs";
 
@@ -40,7 +41,7 @@ export async function POST(_: Request, { params }: Params) {
       return json({ error: "No LLM configured for this agent or globally" }, { status: 400 });
     }
     const cfg = fromLlmConfigRowWithSecret(configs[0]);
-    const manager = createDefaultLLMManager(async (ref) => (ref ? process.env[ref] : undefined));
+    const manager = createLLMManager();
 
     const definition = (agent as { definition?: Record<string, unknown> }).definition ?? {};
     const result = await refinePrompt(
@@ -55,7 +56,7 @@ export async function POST(_: Request, { params }: Params) {
     return json(result);
   }
 
-  const manager = createDefaultLLMManager(async (ref) => (ref ? process.env[ref] : undefined));
+  const manager = createLLMManager();
   const definition = (agent as { definition?: Record<string, unknown> }).definition ?? {};
   const result = await refinePrompt(
     {
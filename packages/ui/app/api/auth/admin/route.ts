@@ -0,0 +1,43 @@
+import { json } from "../../_lib/response";
+import {
+  changeAdminPassword,
+  createSession,
+  removeAdmin,
+  validateAdminPassword,
+  verifyAdminPassword,
+} from "../../_lib/api-auth";
+
+export const runtime = "nodejs";
+
+/**
+ * PATCH /api/auth/admin — change the admin password. Body: { currentPassword, newPassword }.
+ * Ends all sessions; this browser gets a new one.
+ */
+export async function PATCH(request: Request) {
+  const body = await request.json().catch(() => ({}));
+  const currentPassword = typeof body.currentPassword === "string" ? body.currentPassword : "";
+  const newPassword = typeof body.newPassword === "string" ? body.newPassword : "";
+  const invalid = validateAdminPassword(newPassword);
+  if (invalid) {
+    return json({ error: invalid }, { status: 400 });
+  }
+  if (!(await verifyAdminPassword(currentPassword))) {
+    return json({ error: "Invalid password" }, { status: 401 });
+  }
+  await changeAdminPassword(newPassword);
+  return json({ ok: true }, { headers: { "Set-Cookie": await createSession() } });
+}
+
+/**
+ * DELETE /api/auth/admin — remove the admin login, which turns API auth off. Body: { password }.
+ * Access tokens are kept and work again once a new admin login is set up.
+ */
+export async function DELETE(request: Request) {
+  const body = await request.json().catch(() => ({}));
+  const password = typeof body.password === "string" ? body.password : "";
+  if (!(await verifyAdminPassword(password))) {
+    return json({ error: "Invalid password" }, { status: 401 });
+  }
+  await removeAdmin();
+  return json({ ok: true });
+}
@@ -0,0 +1,20 @@
+import { json } from "../../_lib/response";
+import { createSession, isAuthEnabled, verifyAdminPassword } from "../../_lib/api-auth";
+
+export const runtime = "nodejs";
+
+/** POST /api/auth/login — log in with the admin password. Body: { password }. */
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => ({}));
+  const password = typeof body.password === "string" ? body.password : "";
+  if (!password) {
+    return json({ error: "password required" }, { status: 400 });
+  }
+  if (!(await isAuthEnabled())) {
+    return json({ error: "Admin login is not set up." }, { status: 400 });
+  }
+  if (!(await verifyAdminPassword(password))) {
+    return json({ error: "Invalid password" }, { status: 401 });
+  }
+  return json({ ok: true }, { headers: { "Set-Cookie": await createSession() } });
+}
@@ -0,0 +1,9 @@
+import { json } from "../../_lib/response";
+import { endSession } from "../../_lib/api-auth";
+
+export const runtime = "nodejs";
+
+/** POST /api/auth/logout — end this browser's session. */
+export async function POST(request: Request) {
+  return json({ ok: true }, { headers: { "Set-Cookie": await endSession(request) } });
+}
@@ -0,0 +1,21 @@
+import { json } from "../../_lib/response";
+import { createAdmin, createSession, validateAdminPassword } from "../../_lib/api-auth";
+
+export const runtime = "nodejs";
+
+/**
+ * POST /api/auth/setup — set up the admin login (first time only), which turns API auth on.
+ * Body: { password }. Logs this browser in.
+ */
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => ({}));
+  const password = typeof body.password === "string" ? body.password : "";
+  const invalid = validateAdminPassword(password);
+  if (invalid) {
+    return json({ error: invalid }, { status: 400 });
+  }
+  if (!(await createAdmin(password))) {
+    return json({ error: "Admin login already set up. Use login instead." }, { status: 400 });
+  }
+  return json({ ok: true }, { status: 201, headers: { "Set-Cookie": await createSession() } });
+}
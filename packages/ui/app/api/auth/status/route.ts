@@ -0,0 +1,18 @@
+import { json } from "../../_lib/response";
+import { isAuthEnabled, resolveApiPrincipal } from "../../_lib/api-auth";
+
+export const runtime = "nodejs";
+
+/**
+ * GET /api/auth/status — returns { enabled, authenticated, scope? }. enabled is false until the admin
+ * login is set up; scope is set when the request uses an access token.
+ */
+export async function GET(request: Request) {
+  const enabled = await isAuthEnabled();
+  const principal = enabled ? await resolveApiPrincipal(request) : null;
+  return json({
+    enabled,
+    authenticated: !enabled || principal !== null,
+    ...(principal?.kind === "token" && { scope: principal.scope }),
+  });
+}
@@ -0,0 +1,15 @@
+import { json } from "../../../_lib/response";
+import { revokeApiToken } from "../../../_lib/api-auth";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+/** DELETE /api/auth/tokens/:id — revoke an access token. */
+export async function DELETE(_request: Request, { params }: Params) {
+  const { id } = await params;
+  if (!(await revokeApiToken(id))) {
+    return json({ error: "Not found" }, { status: 404 });
+  }
+  return json({ ok: true });
+}
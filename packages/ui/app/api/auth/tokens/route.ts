@@ -0,0 +1,24 @@
+import { json } from "../../_lib/response";
+import { createApiToken, listApiTokens, parseApiTokenInput } from "../../_lib/api-auth";
+
+export const runtime = "nodejs";
+
+/** GET /api/auth/tokens — list access tokens. Query: includeRevoked=true. */
+export async function GET(request: Request) {
+  const includeRevoked = new URL(request.url).searchParams.get("includeRevoked") === "true";
+  return json({ tokens: await listApiTokens(includeRevoked) });
+}
+
+/**
+ * POST /api/auth/tokens — create an access token. Body: { name, scope: "read" | "run" | "admin",
+ * expiresInDays? }. The response's token is shown only this once.
+ */
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => ({}));
+  const input = parseApiTokenInput(body);
+  if ("error" in input) {
+    return json({ error: input.error }, { status: 400 });
+  }
+  const { token, apiToken } = await createApiToken(input);
+  return json({ ...apiToken, token }, { status: 201 });
+}
@@ -0,0 +1,32 @@
+import { json } from "../../_lib/response";
+import { db, budgets, fromBudgetRow, toBudgetRow } from "../../_lib/db";
+import { parseBudgetInput, withBudgetSpend } from "../../_lib/budgets";
+import { eq } from "drizzle-orm";
+
+type Params = { params: Promise<{ id: string }> };
+
+export const runtime = "nodejs";
+
+export async function GET(_: Request, { params }: Params) {
+  const { id } = await params;
+  const rows = await db.select().from(budgets).where(eq(budgets.id, id));
+  if (rows.length === 0) return json({ error: "Not found" }, { status: 404 });
+  return json(await withBudgetSpend(fromBudgetRow(rows[0])));
+}
+
+export async function PATCH(request: Request, { params }: Params) {
+  const { id } = await params;
+  const rows = await db.select().from(budgets).where(eq(budgets.id, id));
+  if (rows.length === 0) return json({ error: "Not found" }, { status: 404 });
+  const body = await request.json().catch(() => ({}));
+  const updated = parseBudgetInput(body, fromBudgetRow(rows[0]));
+  if ("error" in updated) return json({ error: updated.error }, { status: 400 });
+  await db.update(budgets).set(toBudgetRow(updated)).where(eq(budgets.id, id)).run();
+  return json(await withBudgetSpend(updated));
+}
+
+export async function DELETE(_: Request, { params }: Params) {
+  const { id } = await params;
+  await db.delete(budgets).where(eq(budgets.id, id)).run();
+  return json({ message: "Deleted" });
+}
@@ -0,0 +1,21 @@
+import { json } from "../_lib/response";
+import { db, budgets, fromBudgetRow, toBudgetRow } from "../_lib/db";
+import { parseBudgetInput, withBudgetSpend } from "../_lib/budgets";
+
+export const runtime = "nodejs";
+
+/** Lists budgets with what each scope spent today and this month (UTC). */
+export async function GET() {
+  const rows = await db.select().from(budgets);
+  const now = Date.now();
+  const list = await Promise.all(rows.map((r) => withBudgetSpend(fromBudgetRow(r), now)));
+  return json({ budgets: list });
+}
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => ({}));
+  const budget = parseBudgetInput(body);
+  if ("error" in budget) return json({ error: budget.error }, { status: 400 });
+  await db.insert(budgets).values(toBudgetRow(budget)).run();
+  return json(await withBudgetSpend(budget));
+}
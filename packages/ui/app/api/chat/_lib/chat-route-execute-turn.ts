@@ -4,17 +4,11 @@
  */
 import { json } from "../../_lib/response";
 import { logApiError } from "../../_lib/api-logger";
-import {
-  db,
-  conversations,
-  chatMessages,
-  tokenUsage,
-  toChatMessageRow,
-  toTokenUsageRow,
-} from "../../_lib/db";
+import { db, conversations, chatMessages, toChatMessageRow } from "../../_lib/db";
 import { eq, asc } from "drizzle-orm";
-import type { LLMTraceCall, LLMConfig } from "@agentron-studio/core";
+import type { ChatCitation, LLMTraceCall, LLMConfig } from "@agentron-studio/core";
 import type {
+  LLMContentPart,
   LLMMessage,
   LLMResponse,
   LLMRequest,
@@ -24,9 +18,8 @@ import type {
 import type { LLMManager } from "@agentron-studio/runtime";
 import {
   runAssistant,
+  createVisibleContentFilter,
   getRegistry,
-  resolveModelPricing,
-  calculateCost,
   SYSTEM_PROMPT,
 } from "@agentron-studio/runtime";
 import { executeTool, enrichAgentToolResult } from "./execute-tool";
@@ -60,7 +53,15 @@ import {
   AGENT_SPECIALIST_IMPROVEMENT_CLARIFICATION,
 } from "./chat-route-shared";
 import { runHeapModeTurn } from "./chat-route-heap";
+import { citationsUsedIn } from "../../_lib/rag-citations";
 import { loadSpecialistOverrides } from "../../_lib/specialist-overrides";
+import {
+  BudgetExceededError,
+  checkBudgets,
+  notifyChatBudgetExceeded,
+  recordTokenUsage,
+  usageCost,
+} from "../../_lib/budgets";
 
 /** Chat assistant settings shape (from db). */
 export interface ExecuteTurnChatSettings {
@@ -92,6 +93,8 @@ export interface ExecuteTurnState {
   providerId: string | undefined;
   uiContext: string | undefined;
   attachedContext: string | undefined;
+  /** Attached files as content parts for the user message (see chat-attachments). */
+  userContentParts: LLMContentPart[];
   conversationTitle: string | undefined;
   continueShellApproval:
     | { command?: string; stdout?: string; stderr?: string; exitCode?: number }
@@ -101,6 +104,8 @@ export interface ExecuteTurnState {
   studioContext: StudioContext;
   feedbackInjection: string;
   ragContext: string | undefined;
+  /** Numbered sources of ragContext; the ones the answer cites are stored with the message. */
+  ragCitations: ChatCitation[];
   manager: LLMManager;
   usageEntries: { response: LLMResponse }[];
   customPricing: Record<string, { input: number; output: number }>;
@@ -130,6 +135,27 @@ export async function executeTurnImpl(
   const STOPPED_BY_USER = "Stopped by user";
   const LLM_TRACE_PREVIEW_MAX = 600;
 
+  const turnUsage = () =>
+    state.usageEntries.map((e) => ({ response: e.response, config: state.llmConfig }));
+  /** Write this turn's LLM usage to token_usage (once; later calls only add new entries). */
+  async function recordTurnUsage() {
+    const entries = turnUsage();
+    state.usageEntries.length = 0;
+    await recordTokenUsage(entries, { conversationId: state.conversationId }, state.customPricing);
+  }
+
+  /** Before an LLM call: stop the turn when a budget for this conversation (or global) is used up. */
+  async function enforceBudgets() {
+    const exceeded = await checkBudgets(
+      { conversationId: state.conversationId },
+      turnUsage().map((e) => ({ cost: usageCost(e, state.customPricing) }))
+    );
+    if (!exceeded) return;
+    await recordTurnUsage();
+    if (state.conversationId) await notifyChatBudgetExceeded(state.conversationId, exceeded);
+    throw new BudgetExceededError(exceeded);
+  }
+
   function createTrackingCallLLM(opts: {
     pushTrace?: (entry: LLMTraceCall) => void;
     enqueueTraceStep?: (step: {
@@ -145,9 +171,13 @@ export async function executeTurnImpl(
     }) => void;
     signal?: AbortSignal | null;
     getExtraTraceData?: () => { specialistId?: string };
+    /** Receives the user-visible text of each response while it streams (markup filtered out). */
+    onContentDelta?: (delta: string) => void;
   }) {
+    let streamedContent = false;
     return async (req: LLMRequest) => {
       if (opts.signal?.aborted) throw new Error(STOPPED_BY_USER);
+      await enforceBudgets();
       const extra = opts.getExtraTraceData?.() ?? {};
       const lastUser = [...req.messages].reverse().find((m) => m.role === "user");
       const inputPreview =
@@ -168,9 +198,27 @@ export async function executeTurnImpl(
         requestMessages: requestMessagesForLog,
         ...extra,
       });
-      const response = await state.manager.chat(state.llmConfig as LLMConfig, req, {
-        source: "chat",
-      });
+      const onContentDelta = opts.onContentDelta;
+      const visibleContent = onContentDelta ? createVisibleContentFilter() : undefined;
+      let separated = !streamedContent;
+      const response = await state.manager.chat(
+        state.llmConfig as LLMConfig,
+        req,
+        { source: "chat" },
+        onContentDelta && visibleContent
+          ? {
+              onStream: (event) => {
+                if (event.type !== "content") return;
+                const text = visibleContent(event.delta);
+                if (!text || (!text.trim() && (!streamedContent || !separated))) return;
+                // Text of a follow-up call starts a new paragraph; "done" replaces it all anyway.
+                onContentDelta(separated ? text : `\n\n${text}`);
+                separated = true;
+                streamedContent = true;
+              },
+            }
+          : undefined
+      );
       state.usageEntries.push({ response });
       const contentStr = typeof response.content === "string" ? response.content : "";
       const outputPreview = contentStr.slice(0, LLM_TRACE_PREVIEW_MAX);
@@ -221,6 +269,7 @@ export async function executeTurnImpl(
     const streamTrackingCallLLM = createTrackingCallLLM({
       pushTrace: (e) => llmTraceEntries.push(e),
       enqueueTraceStep: (step) => enqueue({ type: "trace_step", ...step }),
+      onContentDelta: (delta) => enqueue({ type: "content_delta", delta }),
       signal,
       getExtraTraceData: state.useHeapMode
         ? () => ({ specialistId: currentSpecialistIdRef.current ?? undefined })
@@ -401,6 +450,7 @@ export async function executeTurnImpl(
             ragContext: state.ragContext,
             uiContext: [state.uiContext, getSystemContext()].filter(Boolean).join("\n\n"),
             attachedContext: state.attachedContext || undefined,
+            userContentParts: state.userContentParts,
             studioContext: state.studioContext,
             crossChatContext: state.crossChatContextTrimmed,
             runWaitingContext: state.runWaitingContext,
@@ -603,6 +653,7 @@ export async function executeTurnImpl(
       }
       const fallbackContent = (result.content ?? "").trim();
       if (!displayContent && fallbackContent) displayContent = fallbackContent;
+      const citations = citationsUsedIn(displayContent, state.ragCitations);
       const assistantMsg = {
         id: crypto.randomUUID(),
         role: "assistant" as const,
@@ -610,6 +661,7 @@ export async function executeTurnImpl(
         toolCalls: assistantToolCalls,
         llmTrace: fullLlmTrace.length > 0 ? fullLlmTrace : undefined,
         ...(rephrasedPrompt != null && rephrasedPrompt.trim() && { rephrasedPrompt }),
+        ...(citations.length > 0 && { citations }),
         createdAt: Date.now(),
         conversationId: state.conversationId,
       };
@@ -655,6 +707,7 @@ export async function executeTurnImpl(
           todos: result.todos,
           completedStepIndices: result.completedStepIndices,
           rephrasedPrompt,
+          ...(citations.length > 0 && { citations }),
           ...(generatedTitle && { conversationTitle: generatedTitle }),
           ...(state.useHeapMode &&
             "refinedTask" in result &&
@@ -681,26 +734,7 @@ export async function executeTurnImpl(
           () => {}
         );
       }
-      for (const entry of state.usageEntries) {
-        const usage = entry.response.usage;
-        if (usage && usage.totalTokens > 0) {
-          const pricing = resolveModelPricing(state.llmConfig.model, state.customPricing);
-          const cost = calculateCost(usage.promptTokens, usage.completionTokens, pricing);
-          await db
-            .insert(tokenUsage)
-            .values(
-              toTokenUsageRow({
-                id: crypto.randomUUID(),
-                provider: state.llmConfig.provider,
-                model: state.llmConfig.model,
-                promptTokens: usage.promptTokens,
-                completionTokens: usage.completionTokens,
-                estimatedCost: cost != null ? String(cost) : null,
-              })
-            )
-            .run();
-        }
-      }
+      await recordTurnUsage();
       await db
         .update(conversations)
         .set({
@@ -743,6 +777,8 @@ export async function executeTurnImpl(
         }
       }
     } finally {
+      // Turns that fail or are stopped by the user also count toward their budgets.
+      await recordTurnUsage().catch((e) => logApiError("/api/chat", "POST", e));
       channelFinish(turnId);
     }
     return;
@@ -887,6 +923,7 @@ export async function executeTurnImpl(
           ragContext: state.ragContext,
           uiContext: [state.uiContext, getSystemContext()].filter(Boolean).join("\n\n"),
           attachedContext: state.attachedContext || undefined,
+          userContentParts: state.userContentParts,
           studioContext: state.studioContext,
           crossChatContext: state.crossChatContextTrimmed,
           runWaitingContext: state.runWaitingContext,
@@ -1051,6 +1088,7 @@ export async function executeTurnImpl(
       ? [rephraseTraceEntry, ...llmTraceEntries]
       : llmTraceEntries;
     const displayContent = getAssistantDisplayContent(result.content, toolResultsToUse);
+    const citations = citationsUsedIn(displayContent, state.ragCitations);
     const assistantMsg = {
       id: crypto.randomUUID(),
       role: "assistant" as const,
@@ -1058,6 +1096,7 @@ export async function executeTurnImpl(
       toolCalls: assistantToolCalls,
       llmTrace: fullLlmTrace.length > 0 ? fullLlmTrace : undefined,
       ...(rephrasedPrompt != null && rephrasedPrompt.trim() && { rephrasedPrompt }),
+      ...(citations.length > 0 && { citations }),
       createdAt: Date.now(),
       conversationId: state.conversationId,
     };
@@ -1078,26 +1117,7 @@ export async function executeTurnImpl(
       summarizeConversation(state.conversationId!, state.manager, state.llmConfig).catch(() => {});
     }
 
-    for (const entry of state.usageEntries) {
-      const usage = entry.response.usage;
-      if (usage && usage.totalTokens > 0) {
-        const pricing = resolveModelPricing(state.llmConfig.model, state.customPricing);
-        const cost = calculateCost(usage.promptTokens, usage.completionTokens, pricing);
-        await db
-          .insert(tokenUsage)
-          .values(
-            toTokenUsageRow({
-              id: crypto.randomUUID(),
-              provider: state.llmConfig.provider,
-              model: state.llmConfig.model,
-              promptTokens: usage.promptTokens,
-              completionTokens: usage.completionTokens,
-              estimatedCost: cost != null ? String(cost) : null,
-            })
-          )
-          .run();
-      }
-    }
+    await recordTurnUsage();
 
     await db
       .update(conversations)
@@ -1118,6 +1138,7 @@ export async function executeTurnImpl(
       todos: result.todos,
       completedStepIndices: result.completedStepIndices,
       rephrasedPrompt,
+      ...(citations.length > 0 && { citations }),
       ...(generatedTitle && { conversationTitle: generatedTitle }),
       ...(state.useHeapMode &&
         "refinedTask" in result &&
@@ -1127,6 +1148,7 @@ export async function executeTurnImpl(
     });
   } catch (err: unknown) {
     logApiError("/api/chat", "POST", err);
+    await recordTurnUsage().catch((e) => logApiError("/api/chat", "POST", e));
     const msg = normalizeChatError(
       err,
       state.llmConfig
@@ -25,7 +25,7 @@ import {
   planImpliesCreateAgentAndWorkflow,
   reorderAgentBeforeWorkflow,
   reorderAgentAndWorkflowBeforeImproveAgentsWorkflows,
-  PLANNER_RETRY_INSTRUCTION,
+  PLANNER_RESPONSE_FORMAT,
   ASSISTANT_TOOLS,
 } from "@agentron-studio/runtime";
 import { executeTool, resolveTemplateVars } from "./execute-tool";
@@ -166,32 +166,23 @@ export async function runHeapModeTurn(opts: {
     }
 
     try {
+      // Structured output: the manager validates the plan against the schema and asks the model
+      // to repair invalid output, so parsed holds the plan object when it succeeded.
       plannerResponse = await manager.chat(
         llmConfig as LLMConfig,
         {
           messages: [{ role: "user", content: plannerPrompt }],
           temperature: 0.2,
           maxTokens: 8192,
+          responseFormat: PLANNER_RESPONSE_FORMAT,
         },
         { source: "chat" }
       );
       pushUsage(plannerResponse);
       plannerText = getPlannerText(plannerResponse);
-      plan = parsePlanOutput(plannerText);
-      if (plan == null && !useContinuationPrompt) {
-        plannerResponse = await manager.chat(
-          llmConfig as LLMConfig,
-          {
-            messages: [{ role: "user", content: plannerPrompt + PLANNER_RETRY_INSTRUCTION }],
-            temperature: 0.2,
-            maxTokens: 8192,
-          },
-          { source: "chat" }
-        );
-        pushUsage(plannerResponse);
-        plannerText = getPlannerText(plannerResponse);
-        plan = parsePlanOutput(plannerText);
-      }
+      plan = parsePlanOutput(
+        plannerResponse.parsed !== undefined ? JSON.stringify(plannerResponse.parsed) : plannerText
+      );
     } finally {
       const rawContent = plannerText;
       const rawToUse =
@@ -77,6 +77,8 @@ import { getEffectiveRagRetrieveLimit, getEffectiveFeedbackLimits } from "../../
 import { getRunForImprovement } from "../../_lib/run-for-improvement";
 import { enqueueWorkflowResume, processOneWorkflowJob } from "../../_lib/workflow-queue";
 import { getDeploymentCollectionId, retrieveChunks } from "../../_lib/rag";
+import { buildCitedContext } from "../../_lib/rag-citations";
+import { loadChatAttachments, parseChatAttachmentIds } from "../../_lib/chat-attachments";
 import type { RemoteServer } from "../../_lib/db";
 import { testRemoteConnection } from "../../_lib/remote-test";
 import { randomAgentName, randomWorkflowName } from "../../_lib/naming";
@@ -111,7 +113,6 @@ import { ragConnectors } from "@agentron-studio/core";
 import {
   runAssistant,
   buildFeedbackInjection,
-  createDefaultLLMManager,
   resolveModelPricing,
   calculateCost,
   type StudioContext,
@@ -122,6 +123,7 @@ import {
   buildRouterPrompt,
   parseRouterOutput,
   SYSTEM_PROMPT,
+  modelSupportsVision,
 } from "@agentron-studio/runtime";
 import { getContainerManager, withContainerInstallHint } from "../../_lib/container-manager";
 import { getShellCommandAllowlist, updateAppSettings } from "../../_lib/app-settings";
@@ -160,6 +162,7 @@ import {
 } from "./chat-route-shared";
 import { runHeapModeTurn } from "./chat-route-heap";
 import { executeTurnImpl, type ExecuteTurnState } from "./chat-route-execute-turn";
+import { createLLMManager } from "../../_lib/llm-manager";
 
 /** Build connectors array for StudioContext from RAG connector rows. Used so unit tests can assert the mapping. */
 export function studioContextConnectorsFromRows(
@@ -175,6 +178,7 @@ export async function runChatPost(request: Request): Promise<Response> {
   const uiContext = typeof payload.uiContext === "string" ? payload.uiContext.trim() : undefined;
   const attachedContext =
     typeof payload.attachedContext === "string" ? payload.attachedContext.trim() : undefined;
+  const attachmentIds = parseChatAttachmentIds(payload.attachments);
   let conversationId =
     typeof payload.conversationId === "string"
       ? payload.conversationId.trim() || undefined
@@ -621,7 +625,7 @@ export async function runChatPost(request: Request): Promise<Response> {
     // #endregion
     return json({ error: "Please select an LLM provider from the dropdown." }, { status: 400 });
   }
-  const manager = createDefaultLLMManager(async (ref) => (ref ? process.env[ref] : undefined));
+  const manager = createLLMManager();
 
   // Studio RAG: resolve deployment collection and retrieve context for user message
   const studioCollectionId = await getDeploymentCollectionId();
@@ -629,7 +633,9 @@ export async function runChatPost(request: Request): Promise<Response> {
   const ragChunks = studioCollectionId
     ? await retrieveChunks(studioCollectionId, userMessage, ragLimit)
     : [];
-  const ragContext = ragChunks.length > 0 ? ragChunks.map((c) => c.text).join("\n\n") : undefined;
+  const cited = ragChunks.length > 0 ? buildCitedContext(ragChunks) : null;
+  const ragContext = cited?.context;
+  const ragCitations = cited?.citations ?? [];
 
   // Load chat feedback for injection: by similarity when embedding available, else last N
   const { lastN, retrieveCap, minScore } = await getEffectiveFeedbackLimits({ type: "chat" });
@@ -894,10 +900,16 @@ export async function runChatPost(request: Request): Promise<Response> {
     }
   }
 
+  // Images are passed to vision-capable models as image parts; other files as extracted text.
+  const attachments = await loadChatAttachments(attachmentIds, modelSupportsVision(llmConfig!));
+
   const executeTurnState: ExecuteTurnState = {
     conversationId,
     vaultKey,
-    contentToStore,
+    contentToStore:
+      attachments.names.length > 0
+        ? `${contentToStore}\n\n[Attached: ${attachments.names.join(", ")}]`
+        : contentToStore,
     userMessage,
     isCredentialReply: !!isCredentialReply,
     credentialResponse,
@@ -910,6 +922,7 @@ export async function runChatPost(request: Request): Promise<Response> {
     providerId,
     uiContext,
     attachedContext,
+    userContentParts: attachments.parts,
     conversationTitle,
     continueShellApproval,
     hasContinueShellApproval,
@@ -917,6 +930,7 @@ export async function runChatPost(request: Request): Promise<Response> {
     studioContext,
     feedbackInjection,
     ragContext,
+    ragCitations,
     manager,
     usageEntries,
     customPricing,
@@ -2,6 +2,7 @@
  * Shared constants and helpers for the chat route and heap turn.
  * Extracted from route.ts for reuse and testability.
  */
+import type { ChatCitation } from "@agentron-studio/core";
 import type { LLMMessage, PlannerOutput } from "@agentron-studio/runtime";
 import { BLOCK_AGENTIC_PATTERNS, BLOCK_DESIGN_AGENTS } from "@agentron-studio/runtime";
 
@@ -98,6 +99,7 @@ export function sanitizeDonePayload(payload: {
   todos?: string[];
   completedStepIndices?: number[];
   rephrasedPrompt?: string;
+  citations?: ChatCitation[];
   planSummary?: { refinedTask: string; route: (string | { parallel: string[] })[] };
 }): Record<string, unknown> {
   /** When truncating large tool results, preserve these scalar fields so e2e and UI can still read status/id (e2e expects execute_workflow.result.status and create_* .result.id). */
@@ -154,6 +156,7 @@ export function sanitizeDonePayload(payload: {
       completedStepIndices: payload.completedStepIndices,
     }),
     ...(payload.rephrasedPrompt !== undefined && { rephrasedPrompt: payload.rephrasedPrompt }),
+    ...(payload.citations !== undefined && { citations: payload.citations }),
     ...(payload.planSummary !== undefined && { planSummary: payload.planSummary }),
   };
 }
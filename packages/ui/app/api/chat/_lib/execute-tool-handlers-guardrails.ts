@@ -3,6 +3,11 @@
  */
 import type { ExecuteToolContext } from "./execute-tool-shared";
 import { db, guardrails } from "../../_lib/db";
+import {
+  GUARDRAIL_SCOPES,
+  validateGuardrailConfig,
+  type GuardrailScope,
+} from "../../_lib/guardrails";
 import { eq } from "drizzle-orm";
 
 function parseGuardrailConfig(
@@ -17,6 +22,27 @@ function parseGuardrailConfig(
   }
 }
 
+/**
+ * Config argument of create_guardrail and update_guardrail: an object or its JSON text. Returns
+ * the config, or an error when it is not an object or fails validation (e.g. a bad regex).
+ */
+function readConfigArg(
+  value: unknown
+): { config: Record<string, unknown> } | { error: string } | undefined {
+  if (value == null) return undefined;
+  let config = value;
+  if (typeof value === "string") {
+    try {
+      config = JSON.parse(value);
+    } catch {
+      return { error: "Invalid guardrail config: config must be a JSON object" };
+    }
+  }
+  const errors = validateGuardrailConfig(config);
+  if (errors.length > 0) return { error: `Invalid guardrail config: ${errors.join("; ")}` };
+  return { config: config as Record<string, unknown> };
+}
+
 export const GUARDRAILS_TOOL_NAMES = [
   "create_guardrail",
   "list_guardrails",
@@ -35,17 +61,21 @@ export async function handleGuardrailTools(
       const id = crypto.randomUUID();
       const scope = (a.scope as string) || "deployment";
       const scopeId = (a.scopeId as string) || null;
-      const config =
-        a.config != null && typeof a.config === "object"
-          ? (a.config as Record<string, unknown>)
-          : {};
+      if (!GUARDRAIL_SCOPES.includes(scope as GuardrailScope)) {
+        return { error: `scope must be one of ${GUARDRAIL_SCOPES.join(", ")}` };
+      }
+      if (scope !== "deployment" && !scopeId) return { error: `scopeId required for ${scope}` };
+      const parsed = readConfigArg(a.config) ?? { config: {} };
+      if ("error" in parsed) return parsed;
+      const { config } = parsed;
       await db
         .insert(guardrails)
         .values({ id, scope, scopeId, config: JSON.stringify(config), createdAt: Date.now() })
         .run();
       return {
         id,
-        message: "Guardrail created. It will be applied when the agent uses fetch/browser.",
+        message:
+          "Guardrail created. It is checked before fetch, search, shell, code and HTTP tool calls; blocked calls return a refusal.",
       };
     }
     case "list_guardrails": {
@@ -78,10 +108,14 @@ export async function handleGuardrailTools(
     case "update_guardrail": {
       const gid = typeof a.id === "string" ? (a.id as string).trim() : "";
       if (!gid) return { error: "id required" };
-      const config =
-        a.config != null && typeof a.config === "object" ? JSON.stringify(a.config) : undefined;
-      if (!config) return { error: "config required" };
-      await db.update(guardrails).set({ config }).where(eq(guardrails.id, gid)).run();
+      const parsed = readConfigArg(a.config);
+      if (!parsed) return { error: "config required" };
+      if ("error" in parsed) return parsed;
+      await db
+        .update(guardrails)
+        .set({ config: JSON.stringify(parsed.config) })
+        .where(eq(guardrails.id, gid))
+        .run();
       return { id: gid, message: "Guardrail updated." };
     }
     case "delete_guardrail": {
@@ -11,13 +11,13 @@ import {
   techniqueInsights,
   techniquePlaybook,
   trainingRuns,
-  evalResults,
   feedback,
   executions,
   llmConfigs,
   toLlmConfigRow,
 } from "../../_lib/db";
 import { getRunForImprovement } from "../../_lib/run-for-improvement";
+import { getEvalSuite, listEvalSuites, runEvalSuite } from "../../_lib/evals";
 import { eq, desc, and, isNotNull } from "drizzle-orm";
 
 export const IMPROVEMENT_TOOL_NAMES = [
@@ -230,28 +230,45 @@ export async function handleImprovementTools(
       if (!jobId) return { error: "evaluate_model requires jobId." };
       const rows = await db.select().from(improvementJobs).where(eq(improvementJobs.id, jobId));
       if (rows.length === 0) return { error: "Job not found" };
-      const instanceRef = (a.instanceRef as string)?.trim() || null;
+      const job = rows[0];
       const evalSetRef = (a.evalSetRef as string)?.trim() || null;
-      const metrics = { accuracy: 0, loss: null as number | null };
-      const evalId = crypto.randomUUID();
-      await db
-        .insert(evalResults)
-        .values({
-          id: evalId,
-          jobId,
-          trainingRunId: null,
-          instanceRef,
-          evalSetRef,
-          metrics: JSON.stringify(metrics),
-          createdAt: Date.now(),
-        })
-        .run();
+      const suiteId =
+        evalSetRef ??
+        (await listEvalSuites({ targetType: "improvement_job", targetId: jobId }))[0]?.id;
+      if (!suiteId || !(await getEvalSuite(suiteId))) {
+        return {
+          error: evalSetRef
+            ? `Eval suite not found: ${evalSetRef}`
+            : "No eval suite for this job. Create one (POST /api/evals with targetType improvement_job and targetId = jobId) or pass evalSetRef = a suite id.",
+        };
+      }
+      const instanceRef =
+        (a.instanceRef as string)?.trim() ||
+        job.currentModelRef ||
+        job.studentLlmConfigId ||
+        undefined;
+      const run = await runEvalSuite(suiteId, { instanceRef }, { jobId });
+      if (run.status === "failed") return { error: `Eval run failed: ${run.error}` };
+      const metrics = {
+        accuracy: run.caseCount ? run.passedCount / run.caseCount : 0,
+        meanScore: run.meanScore ?? 0,
+        passed: run.passedCount,
+        cases: run.caseCount,
+      };
       return {
-        evalId,
+        evalRunId: run.id,
         jobId,
+        suiteId,
+        instanceRef: run.instanceRef ?? null,
         metrics,
-        message:
-          "Eval result persisted. Plug in eval set and run student for real metrics; then metrics will be stored in eval_results.",
+        failures: run.results
+          .filter((r) => !r.passed)
+          .map((r) => ({
+            caseId: r.caseId,
+            score: r.score,
+            ...(r.error ? { error: r.error } : { detail: r.metrics.detail }),
+          })),
+        message: `${run.passedCount}/${run.caseCount} cases passed (mean score ${metrics.meanScore.toFixed(2)}). Per-case results are stored in eval_results under eval run ${run.id}.`,
       };
     }
     case "trigger_training": {
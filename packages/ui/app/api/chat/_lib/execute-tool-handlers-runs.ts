@@ -1,6 +1,7 @@
 /**
  * Tool handlers for runs and execute_workflow: list_runs, cancel_run, respond_to_run, get_run, get_run_messages, get_run_for_improvement, get_feedback_for_scope, execute_workflow.
  */
+import { formatWorkflowFieldErrors, validateWorkflowInputs } from "@agentron-studio/runtime";
 import type { ExecuteToolContext } from "./execute-tool-shared";
 import {
   resolveWorkflowIdFromArgs,
@@ -12,6 +13,7 @@ import {
   executions,
   workflows,
   fromExecutionRow,
+  fromWorkflowRow,
   toExecutionRow,
   executionOutputSuccess,
   executionOutputFailure,
@@ -23,6 +25,7 @@ import {
   WAITING_FOR_USER_MESSAGE,
   WaitingForUserError,
 } from "../../_lib/run-workflow";
+import { BudgetExceededError } from "../../_lib/budgets";
 import { enqueueWorkflowResume } from "../../_lib/workflow-queue";
 import { getFeedbackForScope } from "../../_lib/feedback-for-scope";
 import { getRunForImprovement } from "../../_lib/run-for-improvement";
@@ -267,6 +270,13 @@ async function handleExecuteWorkflow(
       : rawInputs;
   const wfRows = await db.select().from(workflows).where(eq(workflows.id, workflowId));
   if (wfRows.length === 0) return { error: "Workflow not found" };
+  const { inputSchema } = fromWorkflowRow(wfRows[0]);
+  if (inputSchema) {
+    const { errors } = validateWorkflowInputs(inputSchema, runInputs);
+    if (errors.length > 0) {
+      return { error: `Invalid inputs: ${formatWorkflowFieldErrors(errors)}`, fields: errors };
+    }
+  }
   const runId = crypto.randomUUID();
   const run = {
     id: runId,
@@ -368,6 +378,18 @@ async function handleExecuteWorkflow(
       output: runResult.output,
     };
   } catch (err) {
+    if (err instanceof BudgetExceededError) {
+      const paused = err.exceeded.action === "pause";
+      return {
+        id: runId,
+        workflowId,
+        status: paused ? "paused" : "cancelled",
+        message: paused
+          ? `${err.message} The run is paused; raise the budget, then resume it from the run page.`
+          : `${err.message} The run was cancelled.`,
+        budgetExceeded: err.exceeded,
+      };
+    }
     const rawMessage = err instanceof Error ? err.message : String(err);
     const cancelled = rawMessage === RUN_CANCELLED_MESSAGE;
     if (cancelled) {
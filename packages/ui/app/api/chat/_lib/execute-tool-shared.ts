@@ -26,6 +26,10 @@ export type ExecuteToolContext = {
   registry?: ReturnType<typeof getRegistry>;
   /** Optional trace id for structured logging (router → specialist → tool). */
   traceId?: string;
+  /** Agent, workflow and run a workflow tool call is made for; their guardrails apply too. */
+  agentId?: string;
+  workflowId?: string;
+  runId?: string;
 };
 
 export type ExecuteToolFn = (
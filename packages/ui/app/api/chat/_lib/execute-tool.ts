@@ -70,7 +70,10 @@ import {
 } from "../../_lib/run-workflow";
 import { getFeedbackForScope } from "../../_lib/feedback-for-scope";
 import { getRunForImprovement } from "../../_lib/run-for-improvement";
+import { compareEvalVariants, getEvalSuite, type EvalComparisonReport } from "../../_lib/evals";
 import { enqueueWorkflowResume } from "../../_lib/workflow-queue";
+import { CONTROL_NODE_TYPES } from "../../_lib/run-workflow-control-nodes";
+import { enforceToolGuardrails } from "../../_lib/guardrails";
 import { getDeploymentCollectionId, retrieveChunks } from "../../_lib/rag";
 import { ragConnectors, ragDocuments } from "@agentron-studio/core";
 import {
@@ -83,6 +86,7 @@ import {
   browseGitBook,
   browseBookStack,
 } from "../../rag/connectors/_lib/browse";
+import { browseMcpResources } from "../../rag/connectors/_lib/sync-mcp";
 import { readConnectorItem, updateConnectorItem } from "../../rag/connectors/_lib/connector-write";
 import { ingestOneDocument } from "../../rag/ingest/route";
 import { testRemoteConnection } from "../../_lib/remote-test";
@@ -91,14 +95,17 @@ import { refreshScheduledWorkflows } from "../../_lib/scheduled-workflows";
 import { openclawSend, openclawHistory, openclawAbort } from "../../_lib/openclaw-client";
 import { eq, asc, desc, and, isNotNull } from "drizzle-orm";
 import {
-  createDefaultLLMManager,
   refinePrompt,
   getRegistry,
   getSpecialistOptions,
+  validateWorkflowEdgeConditions,
+  validateWorkflowIO,
+  validateWorkflowSchedules,
 } from "@agentron-studio/runtime";
 import { getContainerManager, withContainerInstallHint } from "../../_lib/container-manager";
 import { getShellCommandAllowlist, updateAppSettings } from "../../_lib/app-settings";
 import { getStoredCredential, setStoredCredential } from "../../_lib/credential-store";
+import { getGrantedCredential } from "../../_lib/credential-grants";
 import { createRunNotification } from "../../_lib/notifications-store";
 import { scheduleReminder, cancelReminderTimeout } from "../../_lib/reminder-scheduler";
 import { runShellCommand } from "../../_lib/shell-exec";
@@ -121,6 +128,7 @@ import {
   resolveTemplateVars,
   enrichAgentToolResult,
 } from "./execute-tool-shared";
+import { createLLMManager, loadLlmConfigIds } from "../../_lib/llm-manager";
 
 export {
   MAX_TOOLS_PER_CREATED_AGENT,
@@ -166,6 +174,13 @@ export async function executeTool(
     const conversationId = ctx?.conversationId;
     const vaultKey = ctx?.vaultKey ?? null;
 
+    const refusal = await enforceToolGuardrails(name, a, {
+      agentId: ctx?.agentId,
+      workflowId: ctx?.workflowId,
+      executionId: ctx?.runId ?? conversationId ?? "chat",
+    });
+    if (refusal) return refusal;
+
     if (name === "std-write-file") {
       return runWriteFile(args, conversationId ?? "chat");
     }
@@ -302,7 +317,15 @@ export async function executeTool(
             question: "Please provide a credential key.",
             credentialKey: "credential",
           };
-        const plaintext = await getStoredCredential(credentialKey, vaultKey);
+        // Without an unlocked vault, an agent or workflow tool call can still use its grants.
+        const plaintext =
+          !vaultKey && (ctx?.agentId || ctx?.workflowId)
+            ? await getGrantedCredential(credentialKey, {
+                agentId: ctx.agentId,
+                workflowId: ctx.workflowId,
+                runId: ctx.runId,
+              })
+            : await getStoredCredential(credentialKey, vaultKey);
         if (plaintext != null && plaintext !== "") {
           return { credentialProvided: true, value: plaintext };
         }
@@ -821,6 +844,7 @@ export async function executeTool(
       case "apply_agent_prompt_improvement": {
         const agentId = a.agentId as string;
         const autoApply = a.autoApply === true;
+        const evalSuiteId = typeof a.evalSuiteId === "string" ? a.evalSuiteId.trim() : "";
         const includeExecutionHistory = a.includeExecutionHistory !== false;
         const toolLearningArgs = {
           maxDerivedGood: typeof a.maxDerivedGood === "number" ? a.maxDerivedGood : undefined,
@@ -880,9 +904,7 @@ export async function executeTool(
           ) as import("@agentron-studio/core").LLMConfig;
         }
 
-        const manager = createDefaultLLMManager(async (ref) =>
-          ref ? process.env[ref] : undefined
-        );
+        const manager = createLLMManager();
         const result = await refinePrompt(
           {
             currentSystemPrompt,
@@ -892,7 +914,8 @@ export async function executeTool(
           (req) => manager.chat(llmConfig, req, { source: "agent", agentId })
         );
 
-        if (autoApply && result.suggestedSystemPrompt) {
+        let candidate: import("@agentron-studio/core").Agent | undefined;
+        if (result.suggestedSystemPrompt) {
           const def = (agent as { definition?: Record<string, unknown> }).definition ?? {};
           const defObj =
             typeof def === "object" && def !== null && !Array.isArray(def)
@@ -923,19 +946,63 @@ export async function executeTool(
             nodes: graphNodes.length > 0 ? graphNodes : (graphObj.nodes ?? []),
             edges: graphEdges,
           };
-          const updated = { ...agent, definition: newDef };
-          await db
-            .update(agents)
-            .set(toAgentRow(updated as import("@agentron-studio/core").Agent))
-            .where(eq(agents.id, agentId))
-            .run();
+          candidate = {
+            ...agent,
+            definition: newDef,
+          } as import("@agentron-studio/core").Agent;
+        }
+
+        // With an eval suite, the suggestion is only applied when it does not regress on it.
+        let evaluation: EvalComparisonReport | undefined;
+        if (evalSuiteId && candidate) {
+          const suite = await getEvalSuite(evalSuiteId);
+          if (!suite) return { error: `Eval suite not found: ${evalSuiteId}` };
+          if (suite.suite.targetType !== "agent" || suite.suite.targetId !== agentId) {
+            return { error: "evalSuiteId must be an eval suite of this agent" };
+          }
+          try {
+            evaluation = await compareEvalVariants(
+              evalSuiteId,
+              { label: "current prompt" },
+              { agentOverride: candidate, label: "suggested prompt" },
+              { vaultKey }
+            );
+          } catch (err) {
+            return {
+              suggestedSystemPrompt: result.suggestedSystemPrompt,
+              reasoning: result.reasoning,
+              applied: false,
+              error: `Eval failed, prompt not applied: ${err instanceof Error ? err.message : String(err)}`,
+            };
+          }
+        }
+
+        const applied = autoApply && candidate !== undefined && !evaluation?.regressed;
+        if (applied && candidate) {
+          await db.update(agents).set(toAgentRow(candidate)).where(eq(agents.id, agentId)).run();
         }
 
         return {
           suggestedSystemPrompt: result.suggestedSystemPrompt,
           reasoning: result.reasoning,
-          applied: autoApply,
+          applied,
           sources: { explicitFeedback: explicitFeedback.length, fromRuns: fromRuns.length },
+          ...(evaluation && {
+            evaluation: {
+              regressed: evaluation.regressed,
+              regressions: evaluation.regressions,
+              improvements: evaluation.improvements,
+              baseline: evaluation.baseline,
+              candidate: evaluation.candidate,
+              baselineRunId: evaluation.baselineRun.id,
+              candidateRunId: evaluation.candidateRun.id,
+              cases: evaluation.cases,
+            },
+            ...(autoApply &&
+              evaluation.regressed && {
+                message: `Not applied: the suggested prompt regressed on eval suite ${evalSuiteId} (${evaluation.regressions} case(s) worse).`,
+              }),
+          }),
         };
       }
       case "list_tools": {
@@ -1094,6 +1161,13 @@ export async function executeTool(
             mergedEdges.push({ ...edgeObj, id, source: src, target: tgt } as EdgeWithData);
           }
         }
+        const addConditionErrors = validateWorkflowEdgeConditions(
+          { edges: mergedEdges },
+          { llmConfigIds: await loadLlmConfigIds() }
+        );
+        if (addConditionErrors.length > 0) {
+          return { error: `Invalid edge condition: ${addConditionErrors.join("; ")}` };
+        }
         const merged = { ...existing, nodes: mergedNodes, edges: mergedEdges };
         if (a.maxRounds != null) (merged as { maxRounds?: number }).maxRounds = Number(a.maxRounds);
         if (a.turnInstruction !== undefined)
@@ -1131,7 +1205,7 @@ export async function executeTool(
             const n = a.nodes[i];
             if (n == null || typeof n !== "object") continue;
             const type = String((n as { type?: unknown }).type ?? "agent");
-            if (type !== "agent") continue;
+            if (type !== "agent" && !CONTROL_NODE_TYPES.includes(type)) continue;
             const nodeId = String((n as { id?: unknown }).id ?? "") || `n-${i}`;
             const pos = (n as { position?: unknown }).position;
             const position: [number, number] =
@@ -1176,6 +1250,7 @@ export async function executeTool(
           }
           const agentNodesWithoutId = normalizedNodes.filter(
             (nd) =>
+              nd.type === "agent" &&
               !(typeof nd.parameters?.agentId === "string" && nd.parameters.agentId.trim() !== "")
           );
           if (agentNodesWithoutId.length > 0) {
@@ -1200,6 +1275,13 @@ export async function executeTool(
             const edgeId = String(edgeObj.id ?? `e-${i}-${src}-${tgt}`);
             normalizedEdges.push({ ...edgeObj, id: edgeId, source: src, target: tgt });
           }
+          const createConditionErrors = validateWorkflowEdgeConditions(
+            { edges: normalizedEdges },
+            { llmConfigIds: await loadLlmConfigIds() }
+          );
+          if (createConditionErrors.length > 0) {
+            return { error: `Invalid edge condition: ${createConditionErrors.join("; ")}` };
+          }
           edges = normalizedEdges;
         }
         const wf = {
@@ -1263,11 +1345,18 @@ export async function executeTool(
           updated.executionMode = a.executionMode as "one_time" | "continuous" | "interval";
         if (a.schedule !== undefined)
           updated.schedule = a.schedule === null ? undefined : String(a.schedule);
+        if (a.timezone !== undefined)
+          updated.timezone = a.timezone === null ? undefined : String(a.timezone);
+        if (a.catchUp !== undefined)
+          updated.catchUp = a.catchUp === null ? undefined : String(a.catchUp);
         if (a.maxRounds != null) updated.maxRounds = Number(a.maxRounds);
         if (a.turnInstruction !== undefined)
           updated.turnInstruction = a.turnInstruction === null ? null : String(a.turnInstruction);
         if (a.branches !== undefined)
           updated.branches = Array.isArray(a.branches) ? a.branches : undefined;
+        for (const key of ["inputSchema", "outputSchema", "outputMapping"] as const) {
+          if (a[key] !== undefined) updated[key] = a[key] === null ? undefined : a[key];
+        }
         let updateWorkflowWarning: string | undefined;
         if (Array.isArray(a.nodes)) {
           const normalizedNodes: {
@@ -1282,7 +1371,7 @@ export async function executeTool(
             if (n == null || typeof n !== "object") continue;
             const id = String((n as { id?: unknown }).id ?? "");
             const type = String((n as { type?: unknown }).type ?? "agent");
-            if (type !== "agent") {
+            if (type !== "agent" && !CONTROL_NODE_TYPES.includes(type)) {
               nonAgentCount++;
               continue;
             }
@@ -1328,10 +1417,11 @@ export async function executeTool(
             normalizedNodes.push({ id: id || `n-${i}`, type, position, parameters });
           }
           if (nonAgentCount > 0) {
-            updateWorkflowWarning = `Ignored ${nonAgentCount} node(s) with type other than 'agent'; workflow nodes must be type 'agent'.`;
+            updateWorkflowWarning = `Ignored ${nonAgentCount} node(s) with an unsupported type; workflow nodes must be type 'agent' or a control node (${CONTROL_NODE_TYPES.join(", ")}).`;
           }
           const agentNodesWithoutId = normalizedNodes.filter(
             (nd) =>
+              nd.type === "agent" &&
               !(typeof nd.parameters?.agentId === "string" && nd.parameters.agentId.trim() !== "")
           );
           if (agentNodesWithoutId.length > 0) {
@@ -1356,6 +1446,13 @@ export async function executeTool(
             const id = String(edgeObj.id ?? `e-${i}-${src}-${tgt}`);
             normalizedEdges.push({ ...edgeObj, id, source: src, target: tgt });
           }
+          const updateConditionErrors = validateWorkflowEdgeConditions(
+            { edges: normalizedEdges },
+            { llmConfigIds: await loadLlmConfigIds() }
+          );
+          if (updateConditionErrors.length > 0) {
+            return { error: `Invalid edge condition: ${updateConditionErrors.join("; ")}` };
+          }
           updated.edges = normalizedEdges;
         }
         const workflowPayload = {
@@ -1366,10 +1463,23 @@ export async function executeTool(
           edges: updated.edges ?? [],
           executionMode: updated.executionMode,
           schedule: updated.schedule,
+          timezone: updated.timezone,
+          catchUp: updated.catchUp,
           maxRounds: updated.maxRounds,
           turnInstruction: updated.turnInstruction,
           branches: updated.branches,
+          inputSchema: updated.inputSchema,
+          outputSchema: updated.outputSchema,
+          outputMapping: updated.outputMapping,
         };
+        const updateScheduleErrors = validateWorkflowSchedules(workflowPayload);
+        if (updateScheduleErrors.length > 0) {
+          return { error: `Invalid schedule: ${updateScheduleErrors.join("; ")}` };
+        }
+        const updateIOErrors = validateWorkflowIO(workflowPayload);
+        if (updateIOErrors.length > 0) {
+          return { error: `Invalid inputs/outputs: ${updateIOErrors.join("; ")}` };
+        }
         const wfVersionRows = await db
           .select({ version: workflowVersions.version })
           .from(workflowVersions)
@@ -1486,6 +1596,7 @@ export async function executeTool(
           if (connector.type === "confluence") return await browseConfluence(config, { limit });
           if (connector.type === "gitbook") return await browseGitBook(config);
           if (connector.type === "bookstack") return await browseBookStack(config);
+          if (connector.type === "mcp") return await browseMcpResources(config);
           return { error: `Browse not implemented for connector type: ${connector.type}` };
         } catch (err) {
           const msg = err instanceof Error ? err.message : String(err);
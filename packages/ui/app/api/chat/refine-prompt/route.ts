@@ -12,8 +12,8 @@ import {
   llmConfigs,
 } from "../../_lib/db";
 import { eq, desc } from "drizzle-orm";
-import { createDefaultLLMManager } from "@agentron-studio/runtime";
 import { SYSTEM_PROMPT } from "@agentron-studio/runtime";
+import { createLLMManager } from "../../_lib/llm-manager";
 
 export const runtime = "nodejs";
 
@@ -29,7 +29,7 @@ export async function POST() {
         (typeof c.apiKeyRef === "string" && c.apiKeyRef.length > 0)
     ) ?? configRows[0];
 
-  const manager = createDefaultLLMManager(async (ref) => (ref ? process.env[ref] : undefined));
+  const manager = createLLMManager();
 
   const [fbRows, convRows, settingsRows] = await Promise.all([
     db
@@ -24,6 +24,7 @@ import {
   modelPricing,
   remoteServers,
   toTokenUsageRow,
+  servedModelFields,
   fromAgentRow,
   fromWorkflowRow,
   fromToolRow,
@@ -77,6 +78,7 @@ import { getEffectiveRagRetrieveLimit, getEffectiveFeedbackLimits } from "../_li
 import { getRunForImprovement } from "../_lib/run-for-improvement";
 import { enqueueWorkflowResume, processOneWorkflowJob } from "../_lib/workflow-queue";
 import { getDeploymentCollectionId, retrieveChunks } from "../_lib/rag";
+import { buildCitedContext, citationsUsedIn } from "../_lib/rag-citations";
 import type { RemoteServer } from "../_lib/db";
 import { testRemoteConnection } from "../_lib/remote-test";
 import { randomAgentName, randomWorkflowName } from "../_lib/naming";
@@ -110,7 +112,6 @@ import type { LLMTraceCall, LLMConfig } from "@agentron-studio/core";
 import {
   runAssistant,
   buildFeedbackInjection,
-  createDefaultLLMManager,
   resolveModelPricing,
   calculateCost,
   type StudioContext,
@@ -157,6 +158,7 @@ import {
   buildRecentConversationContext,
 } from "./_lib/chat-route-shared";
 import { runChatPost } from "./_lib/chat-route-post";
+import { createLLMManager } from "../_lib/llm-manager";
 
 export const runtime = "nodejs";
 
@@ -314,7 +316,8 @@ registerScheduledTurnRunner(async (conversationId, userMessageContent) => {
     const ragChunks = studioCollectionId
       ? await retrieveChunks(studioCollectionId, userMessageContent, ragLimit)
       : [];
-    const ragContext = ragChunks.length > 0 ? ragChunks.map((c) => c.text).join("\n\n") : undefined;
+    const cited = ragChunks.length > 0 ? buildCitedContext(ragChunks) : null;
+    const ragContext = cited?.context;
 
     const { lastN, retrieveCap, minScore } = await getEffectiveFeedbackLimits({ type: "chat" });
     let feedbackItems: ReturnType<typeof fromFeedbackRow>[];
@@ -338,7 +341,7 @@ registerScheduledTurnRunner(async (conversationId, userMessageContent) => {
     }
     const feedbackInjection = buildFeedbackInjection(feedbackItems);
 
-    const manager = createDefaultLLMManager(async (ref) => (ref ? process.env[ref] : undefined));
+    const manager = createLLMManager();
     const usageEntries: { response: LLMResponse }[] = [];
     const trackingCallLLM = async (req: LLMRequest): Promise<LLMResponse> => {
       const response = await manager.chat(llmConfig as LLMConfig, req, { source: "chat" });
@@ -363,6 +366,7 @@ registerScheduledTurnRunner(async (conversationId, userMessageContent) => {
     });
 
     const displayContent = getAssistantDisplayContent(result.content, result.toolResults);
+    const citations = citationsUsedIn(displayContent, cited?.citations ?? []);
     const assistantMsg = {
       id: crypto.randomUUID(),
       role: "assistant" as const,
@@ -377,6 +381,7 @@ registerScheduledTurnRunner(async (conversationId, userMessageContent) => {
             }))
           : undefined,
       llmTrace: undefined,
+      ...(citations.length > 0 && { citations }),
       createdAt: Date.now(),
       conversationId,
     };
@@ -401,15 +406,16 @@ registerScheduledTurnRunner(async (conversationId, userMessageContent) => {
             output: Number(p.outputCostPerM),
           };
         }
-        const pricing = resolveModelPricing(llmConfig.model, customPricing);
+        const served = servedModelFields(entry.response, llmConfig);
+        const pricing = resolveModelPricing(served.model, customPricing);
         const cost = calculateCost(usage.promptTokens, usage.completionTokens, pricing);
         await db
           .insert(tokenUsage)
           .values(
             toTokenUsageRow({
               id: crypto.randomUUID(),
-              provider: llmConfig.provider,
-              model: llmConfig.model,
+              ...served,
+              conversationId,
               promptTokens: usage.promptTokens,
               completionTokens: usage.completionTokens,
               estimatedCost: cost != null ? String(cost) : null,
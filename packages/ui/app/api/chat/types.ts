@@ -5,6 +5,20 @@ export type ChatStreamToolResult = {
   result: unknown;
 };
 
+/** Knowledge source cited in an answer as [index] (same shape as ChatCitation in core). */
+export type ChatStreamCitation = {
+  index: number;
+  documentId?: string;
+  filename?: string;
+  connectorItemId?: string;
+  url?: string;
+  chunkIndex?: number;
+  start?: number;
+  end?: number;
+  headingPath?: string[];
+  snippet?: string;
+};
+
 /** Interactive prompt when status is waiting_for_input. */
 export type ChatStreamInteractivePrompt = {
   question: string;
@@ -56,6 +70,8 @@ export type ChatStreamEvent =
       todos?: string[];
       completedStepIndices?: number[];
       rephrasedPrompt?: string;
+      /** Knowledge sources the answer cites as [index]. */
+      citations?: ChatStreamCitation[];
     }
   | { type: "error"; error?: string; messageId?: string; userMessageId?: string };
 
@@ -0,0 +1,46 @@
+import { json } from "../../../_lib/response";
+import {
+  compareEvalRunReports,
+  compareEvalVariants,
+  getEvalRun,
+  getEvalSuite,
+  parseEvalVariant,
+} from "../../../_lib/evals";
+import { getVaultKeyFromRequest } from "../../../_lib/vault";
+
+type Params = { params: Promise<{ id: string }> };
+
+export const runtime = "nodejs";
+
+/**
+ * Side-by-side report of two variants on the suite.
+ * Body { baselineRunId, candidateRunId } compares stored runs; otherwise
+ * { baseline: { agentVersion?, instanceRef? }, candidate: { … } } runs the suite for both first.
+ */
+export async function POST(request: Request, { params }: Params) {
+  const { id } = await params;
+  if (!(await getEvalSuite(id))) return json({ error: "Not found" }, { status: 404 });
+  const body = await request.json().catch(() => ({}));
+  try {
+    if (typeof body.baselineRunId === "string" && typeof body.candidateRunId === "string") {
+      const baseline = await getEvalRun(body.baselineRunId);
+      const candidate = await getEvalRun(body.candidateRunId);
+      if (!baseline || !candidate || baseline.suiteId !== id || candidate.suiteId !== id) {
+        return json({ error: "Run not found in this suite" }, { status: 404 });
+      }
+      return json(await compareEvalRunReports(baseline, candidate));
+    }
+    const baseline = parseEvalVariant(body.baseline);
+    if ("error" in baseline) return json({ error: `baseline: ${baseline.error}` }, { status: 400 });
+    const candidate = parseEvalVariant(body.candidate);
+    if ("error" in candidate) {
+      return json({ error: `candidate: ${candidate.error}` }, { status: 400 });
+    }
+    const report = await compareEvalVariants(id, baseline, candidate, {
+      vaultKey: getVaultKeyFromRequest(request),
+    });
+    return json(report);
+  } catch (err) {
+    return json({ error: err instanceof Error ? err.message : String(err) }, { status: 400 });
+  }
+}
@@ -0,0 +1,46 @@
+import { json } from "../../_lib/response";
+import {
+  deleteEvalSuite,
+  getEvalSuite,
+  listEvalRuns,
+  parseEvalCasesInput,
+  parseEvalSuiteInput,
+  saveEvalSuite,
+} from "../../_lib/evals";
+
+type Params = { params: Promise<{ id: string }> };
+
+export const runtime = "nodejs";
+
+/** Returns the suite with its cases and runs (newest first). */
+export async function GET(_: Request, { params }: Params) {
+  const { id } = await params;
+  const loaded = await getEvalSuite(id);
+  if (!loaded) return json({ error: "Not found" }, { status: 404 });
+  const runs = await listEvalRuns(id);
+  return json({ ...loaded.suite, cases: loaded.cases, runs });
+}
+
+/** Updates a suite. Body cases, when present, replaces all of its cases. */
+export async function PATCH(request: Request, { params }: Params) {
+  const { id } = await params;
+  const loaded = await getEvalSuite(id);
+  if (!loaded) return json({ error: "Not found" }, { status: 404 });
+  const body = await request.json().catch(() => ({}));
+  const suite = parseEvalSuiteInput(body, loaded.suite);
+  if ("error" in suite) return json({ error: suite.error }, { status: 400 });
+  let cases = loaded.cases;
+  if (body.cases !== undefined) {
+    const parsed = parseEvalCasesInput(id, body.cases);
+    if ("error" in parsed) return json({ error: parsed.error }, { status: 400 });
+    cases = parsed;
+  }
+  await saveEvalSuite(suite, body.cases !== undefined ? cases : undefined);
+  return json({ ...suite, cases });
+}
+
+export async function DELETE(_: Request, { params }: Params) {
+  const { id } = await params;
+  await deleteEvalSuite(id);
+  return json({ message: "Deleted" });
+}
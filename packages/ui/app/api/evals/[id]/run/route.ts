@@ -0,0 +1,21 @@
+import { json } from "../../../_lib/response";
+import { getEvalSuite, parseEvalVariant, runEvalSuite } from "../../../_lib/evals";
+import { getVaultKeyFromRequest } from "../../../_lib/vault";
+
+type Params = { params: Promise<{ id: string }> };
+
+export const runtime = "nodejs";
+
+/**
+ * Runs every case of the suite and returns the run with its per-case results.
+ * Body: { agentVersion?, instanceRef?, label? } selects the variant of the target to evaluate.
+ */
+export async function POST(request: Request, { params }: Params) {
+  const { id } = await params;
+  if (!(await getEvalSuite(id))) return json({ error: "Not found" }, { status: 404 });
+  const body = await request.json().catch(() => ({}));
+  const variant = parseEvalVariant(body);
+  if ("error" in variant) return json({ error: variant.error }, { status: 400 });
+  const run = await runEvalSuite(id, variant, { vaultKey: getVaultKeyFromRequest(request) });
+  return json(run, { status: 201 });
+}
@@ -0,0 +1,30 @@
+import { json } from "../_lib/response";
+import {
+  listEvalSuites,
+  parseEvalCasesInput,
+  parseEvalSuiteInput,
+  saveEvalSuite,
+} from "../_lib/evals";
+
+export const runtime = "nodejs";
+
+/** Lists eval suites; ?targetType= and ?targetId= limit them to one agent, workflow or job. */
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+  const suites = await listEvalSuites({
+    targetType: params.get("targetType") ?? undefined,
+    targetId: params.get("targetId") ?? undefined,
+  });
+  return json({ suites });
+}
+
+/** Creates a suite. Body: { name, targetType, targetId, description?, cases: [{ name?, input, expected?, scorer }] }. */
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => ({}));
+  const suite = parseEvalSuiteInput(body);
+  if ("error" in suite) return json({ error: suite.error }, { status: 400 });
+  const cases = parseEvalCasesInput(suite.id, body.cases ?? []);
+  if ("error" in cases) return json({ error: cases.error }, { status: 400 });
+  await saveEvalSuite(suite, cases);
+  return json({ ...suite, cases }, { status: 201 });
+}
@@ -0,0 +1,14 @@
+import { json } from "../../../_lib/response";
+import { getEvalRun } from "../../../_lib/evals";
+
+type Params = { params: Promise<{ runId: string }> };
+
+export const runtime = "nodejs";
+
+/** Returns an eval run with its per-case scores, outputs and run ids. */
+export async function GET(_: Request, { params }: Params) {
+  const { runId } = await params;
+  const run = await getEvalRun(runId);
+  if (!run) return json({ error: "Not found" }, { status: 404 });
+  return json(run);
+}
@@ -0,0 +1,66 @@
+import { json } from "../../_lib/response";
+import {
+  fireTrigger,
+  getWebhookTrigger,
+  recordRejectedTriggerEvent,
+  verifyWebhookSignature,
+  type TriggerEventInput,
+} from "../../_lib/workflow-triggers";
+
+type Params = { params: Promise<{ token: string }> };
+
+export const runtime = "nodejs";
+
+/** JSON and form bodies become objects; anything else is passed on as text. */
+function parseBody(rawBody: string, contentType: string): unknown {
+  if (!rawBody) return {};
+  if (contentType.includes("application/x-www-form-urlencoded")) {
+    return Object.fromEntries(new URLSearchParams(rawBody));
+  }
+  try {
+    return JSON.parse(rawBody);
+  } catch {
+    return rawBody;
+  }
+}
+
+/**
+ * POST /api/hooks/:token — Inbound webhook of a workflow trigger. When the trigger has a secret,
+ * X-Agentron-Signature or X-Hub-Signature-256 must hold the HMAC-SHA256 of the raw body
+ * ("sha256=<hex>"). The body, headers and query are mapped to run inputs and the run is queued;
+ * responds 202 with the run and queue job ids.
+ */
+export async function POST(request: Request, { params }: Params) {
+  const { token } = await params;
+  const trigger = await getWebhookTrigger(token);
+  if (!trigger) return json({ error: "Not found" }, { status: 404 });
+
+  const rawBody = await request.text();
+  const url = new URL(request.url);
+  const event: TriggerEventInput = {
+    source: "webhook",
+    payload: parseBody(rawBody, request.headers.get("content-type") ?? ""),
+    scope: {
+      headers: Object.fromEntries(request.headers),
+      query: Object.fromEntries(url.searchParams),
+    },
+  };
+  if (!trigger.enabled) {
+    await recordRejectedTriggerEvent(trigger, event, "Trigger is disabled");
+    return json({ error: "Trigger is disabled" }, { status: 403 });
+  }
+  if (trigger.secret) {
+    const signature =
+      request.headers.get("x-agentron-signature") ?? request.headers.get("x-hub-signature-256");
+    if (!verifyWebhookSignature(trigger.secret, rawBody, signature)) {
+      await recordRejectedTriggerEvent(trigger, event, "Invalid or missing signature");
+      return json({ error: "Invalid signature" }, { status: 401 });
+    }
+  }
+
+  const fired = await fireTrigger(trigger, event);
+  if (!fired || fired.status !== "queued") {
+    return json({ error: fired?.error ?? "Trigger did not fire" }, { status: 400 });
+  }
+  return json({ eventId: fired.id, runId: fired.runId, jobId: fired.jobId }, { status: 202 });
+}
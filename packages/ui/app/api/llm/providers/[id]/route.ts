@@ -12,7 +12,14 @@ async function buildExtraForPut(
   id: string,
   payload: Record<string, unknown>
 ): Promise<Record<string, unknown> | undefined> {
-  const { apiKey, rateLimit, contextLength, extra: rawExtra } = payload;
+  const {
+    apiKey,
+    rateLimit,
+    retry,
+    fallbackLlmConfigIds,
+    contextLength,
+    extra: rawExtra,
+  } = payload;
   const extraObj =
     rawExtra && typeof rawExtra === "object" && !Array.isArray(rawExtra)
       ? (rawExtra as Record<string, unknown>)
@@ -20,6 +27,12 @@ async function buildExtraForPut(
   const { apiKey: _drop, ...safeExtra } = extraObj;
   const out: Record<string, unknown> = { ...safeExtra };
   if (rateLimit != null) out.rateLimit = rateLimit;
+  if (retry != null) out.retry = retry;
+  if (Array.isArray(fallbackLlmConfigIds)) {
+    const ids = fallbackLlmConfigIds.filter((x): x is string => typeof x === "string");
+    if (ids.length > 0) out.fallbackLlmConfigIds = ids;
+    else delete out.fallbackLlmConfigIds;
+  }
   if (contextLength != null && contextLength !== "") {
     const n =
       typeof contextLength === "number" ? contextLength : parseInt(String(contextLength), 10);
@@ -47,7 +60,14 @@ export async function PUT(request: Request, { params }: Params) {
   try {
     const { id } = await params;
     const payload = (await request.json()) as Record<string, unknown>;
-    const { apiKey: _a, rateLimit: _r, extra: _e, ...rest } = payload;
+    const {
+      apiKey: _a,
+      rateLimit: _r,
+      retry: _rt,
+      fallbackLlmConfigIds: _f,
+      extra: _e,
+      ...rest
+    } = payload;
     const extra = await buildExtraForPut(id, payload);
     const config = { ...rest, id, extra };
     await db
@@ -1,6 +1,7 @@
 import { json } from "../../_lib/response";
 import { db, llmConfigs, toLlmConfigRow, fromLlmConfigRow } from "../../_lib/db";
 import { logApiError, appendLogLine } from "../../_lib/api-logger";
+import { modelSupportsVision } from "@agentron-studio/runtime";
 
 export const runtime = "nodejs";
 
@@ -13,7 +14,8 @@ export async function GET() {
         c.extra && typeof c.extra === "object" && !Array.isArray(c.extra)
           ? { ...(c.extra as Record<string, unknown>), apiKey: undefined }
           : c.extra;
-      return { ...c, extra };
+      // vision: whether the model accepts images, so the chat can warn before attaching them.
+      return { ...c, extra, vision: modelSupportsVision(c) };
     });
     return json(safe);
   } catch (err) {
@@ -27,7 +29,14 @@ export async function GET() {
 function buildExtraForStorage(
   payload: Record<string, unknown>
 ): Record<string, unknown> | undefined {
-  const { apiKey, rateLimit, contextLength, extra: rawExtra } = payload;
+  const {
+    apiKey,
+    rateLimit,
+    retry,
+    fallbackLlmConfigIds,
+    contextLength,
+    extra: rawExtra,
+  } = payload;
   const extraObj =
     rawExtra && typeof rawExtra === "object" && !Array.isArray(rawExtra)
       ? (rawExtra as Record<string, unknown>)
@@ -35,6 +44,12 @@ function buildExtraForStorage(
   const { apiKey: _drop, ...safeExtra } = extraObj;
   const out: Record<string, unknown> = { ...safeExtra };
   if (rateLimit != null) out.rateLimit = rateLimit;
+  if (retry != null) out.retry = retry;
+  if (Array.isArray(fallbackLlmConfigIds)) {
+    const ids = fallbackLlmConfigIds.filter((x): x is string => typeof x === "string");
+    if (ids.length > 0) out.fallbackLlmConfigIds = ids;
+    else delete out.fallbackLlmConfigIds;
+  }
   if (contextLength != null && contextLength !== "") {
     const n =
       typeof contextLength === "number" ? contextLength : parseInt(String(contextLength), 10);
@@ -51,7 +66,14 @@ export async function POST(request: Request) {
   try {
     const payload = (await request.json()) as Record<string, unknown>;
     const id = (payload.id as string) ?? crypto.randomUUID();
-    const { apiKey: _a, rateLimit: _r, extra: _e, ...rest } = payload;
+    const {
+      apiKey: _a,
+      rateLimit: _r,
+      retry: _rt,
+      fallbackLlmConfigIds: _f,
+      extra: _e,
+      ...rest
+    } = payload;
     const extra = buildExtraForStorage(payload);
     const config = { ...rest, id, extra };
     await db
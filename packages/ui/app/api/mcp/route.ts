@@ -1,7 +1,78 @@
 import { json } from "../_lib/response";
+import {
+  db,
+  tools as toolsTable,
+  prompts as promptsTable,
+  fromToolRow,
+  fromPromptRow,
+} from "../_lib/db";
+import { eq, like } from "drizzle-orm";
+import { getMCPClient } from "@agentron-studio/runtime";
+import {
+  checkMcpServerAllowed,
+  defaultMcpServerName,
+  discoverMcpTools,
+  importMcpTools,
+  parseMcpServer,
+} from "../_lib/mcp-tools";
+import { discoverMcpPrompts, importMcpPrompts } from "../_lib/mcp-prompts";
 
 export const runtime = "nodejs";
 
+/** GET — tools (protocol "mcp") and prompt templates imported from MCP servers. */
 export async function GET() {
-  return json({ tools: [] });
+  const rows = await db.select().from(toolsTable).where(eq(toolsTable.protocol, "mcp"));
+  const promptRows = await db.select().from(promptsTable).where(like(promptsTable.id, "mcp-%"));
+  return json({ tools: rows.map(fromToolRow), prompts: promptRows.map(fromPromptRow) });
+}
+
+/**
+ * POST { server: string | { transport?: "streamable-http" | "sse", url, headers? } |
+ *   { transport: "stdio", command, args?, env?, cwd? }, name?: string, import?: boolean }
+ * Connects to the server (spawning stdio servers) and returns its tools with descriptions and
+ * input/output schemas, its resources and its prompts with their arguments. A stdio server must be
+ * listed in the mcpStdioServers app setting (or already be imported), otherwise 403. With import: true,
+ * every tool is registered as a studio tool and every prompt stored as a prompt template
+ * (ids mcp-<name>-<tool|prompt>; re-importing updates them). name defaults to the package or host.
+ * Resources are not imported: attach them as an "mcp" RAG connector or as agent context.
+ */
+export async function POST(request: Request) {
+  let body: { server?: unknown; name?: unknown; import?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  const parsed = parseMcpServer(body.server);
+  if ("error" in parsed) return json({ error: parsed.error }, { status: 400 });
+  const server = parsed.server;
+  const notAllowed = await checkMcpServerAllowed(server);
+  if (notAllowed) return json({ error: notAllowed }, { status: 403 });
+  const name =
+    typeof body.name === "string" && body.name.trim()
+      ? body.name.trim()
+      : defaultMcpServerName(server);
+
+  let tools, resources, prompts;
+  try {
+    tools = await discoverMcpTools(server);
+    resources = await getMCPClient(server).listResources();
+    prompts = await discoverMcpPrompts(server);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return json({ error: `MCP server discovery failed: ${msg}` }, { status: 502 });
+  }
+  if (body.import !== true) return json({ name, server, tools, resources, prompts });
+  const imported = await importMcpTools(name, server, tools);
+  const importedPrompts = await importMcpPrompts(name, server, prompts);
+  return json({
+    name,
+    server,
+    tools,
+    resources,
+    prompts,
+    imported,
+    importedPrompts: importedPrompts.imported,
+    ...(importedPrompts.skipped.length > 0 && { skippedPrompts: importedPrompts.skipped }),
+  });
 }
@@ -0,0 +1,23 @@
+import { MCPServer } from "@agentron-studio/runtime";
+import { agentronMcpCatalog } from "../../_lib/mcp-server";
+
+export const runtime = "nodejs";
+
+const server = new MCPServer(agentronMcpCatalog);
+
+/**
+ * Agentron as an MCP server (Streamable HTTP, stateless, JSON responses). Point an MCP client
+ * (IDE, desktop app) at /api/mcp/server: workflows are listed as tools with input schemas,
+ * agents and RAG collections/documents as resources, and prompt templates as prompts.
+ */
+export async function POST(request: Request) {
+  return server.handleWebRequest(request);
+}
+
+export async function GET(request: Request) {
+  return server.handleWebRequest(request);
+}
+
+export async function DELETE(request: Request) {
+  return server.handleWebRequest(request);
+}
@@ -1,11 +1,19 @@
 import { and, asc, desc, eq, inArray, or, isNotNull } from "drizzle-orm";
 import { json } from "../_lib/response";
-import { db, conversationLocks, chatMessages, messageQueueLog } from "../_lib/db";
+import {
+  db,
+  conversationLocks,
+  chatMessages,
+  messageQueueLog,
+  workflowTriggers,
+  type WorkflowTriggerEvent,
+} from "../_lib/db";
 import {
   getWorkflowQueueStatus,
   listWorkflowQueueJobs,
   type WorkflowQueueJobRow,
 } from "../_lib/workflow-queue";
+import { listWorkflowTriggerEvents } from "../_lib/workflow-triggers";
 
 export const runtime = "nodejs";
 
@@ -36,6 +44,8 @@ export type QueuesResponse = {
     status: { queued: number; running: number; concurrency: number };
     jobs: WorkflowQueueJobRow[];
   };
+  /** Recent workflow trigger firings (webhooks, file, connector, run and Telegram events) and the jobs they queued. */
+  triggerEvents: Array<WorkflowTriggerEvent & { triggerName?: string }>;
   conversationLocks: Array<{ conversationId: string; startedAt: number; createdAt: number }>;
   /** For each locked conversation, the latest assistant message trace (tool calls + LLM) so the queue UI can show what the assistant did. */
   activeChatTraces: ChatTraceEntry[];
@@ -54,14 +64,17 @@ function parseJson<T>(raw: string | null | undefined): T | undefined {
 
 /**
  * GET /api/queues
- * Returns all queue-related state: workflow queue (status + jobs), active conversation locks, and chat trace data for locked conversations.
+ * Returns all queue-related state: workflow queue (status + jobs), workflow trigger events, active conversation locks, and chat trace data for locked conversations.
  */
 export async function GET() {
-  const [status, jobs, lockRows] = await Promise.all([
+  const [status, jobs, lockRows, triggerEvents, triggerRows] = await Promise.all([
     getWorkflowQueueStatus(),
     listWorkflowQueueJobs({ limit: 100 }),
     db.select().from(conversationLocks),
+    listWorkflowTriggerEvents({ limit: 100 }),
+    db.select({ id: workflowTriggers.id, name: workflowTriggers.name }).from(workflowTriggers),
   ]);
+  const triggerNames = new Map(triggerRows.map((t) => [t.id, t.name]));
 
   const lockIds = lockRows.map((r) => r.conversationId);
   let activeChatTraces: ChatTraceEntry[] = [];
@@ -168,6 +181,7 @@ export async function GET() {
 
   const response: QueuesResponse = {
     workflowQueue: { status, jobs },
+    triggerEvents: triggerEvents.map((e) => ({ ...e, triggerName: triggerNames.get(e.triggerId) })),
     conversationLocks: lockRows.map((r) => ({
       conversationId: r.conversationId,
       startedAt: r.startedAt,
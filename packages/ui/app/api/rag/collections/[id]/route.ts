@@ -1,7 +1,21 @@
 import { json } from "../../../_lib/response";
 import { db } from "../../../_lib/db";
-import { ragCollections } from "@agentron-studio/core";
+import { ragCollections, ragVectors } from "@agentron-studio/core";
 import { eq } from "drizzle-orm";
+import {
+  RETRIEVAL_MODES,
+  parseRerankConfig,
+  parseRetrievalMode,
+  validateRerankConfig,
+  type RerankConfig,
+  type RetrievalMode,
+} from "../../../_lib/rag-retrieval";
+import {
+  parseChunkingConfig,
+  validateChunkingConfig,
+  type ChunkingConfig,
+} from "../../../_lib/rag-chunking";
+import { dropVectorIndex } from "../../../_lib/rag-vector-index";
 
 type Params = { params: Promise<{ id: string }> };
 
@@ -20,6 +34,9 @@ export async function GET(_: Request, { params }: Params) {
     encodingConfigId: r.encodingConfigId,
     documentStoreId: r.documentStoreId,
     vectorStoreId: r.vectorStoreId ?? undefined,
+    retrievalMode: parseRetrievalMode(r.retrievalMode),
+    rerank: parseRerankConfig(r.rerankConfig) ?? undefined,
+    chunking: parseChunkingConfig(r.chunking) ?? undefined,
     createdAt: r.createdAt,
   });
 }
@@ -35,12 +52,26 @@ export async function PUT(request: Request, { params }: Params) {
     encodingConfigId?: string;
     documentStoreId?: string;
     vectorStoreId?: string | null;
+    retrievalMode?: RetrievalMode;
+    rerank?: RerankConfig | null;
+    chunking?: ChunkingConfig | null;
   };
   try {
     body = await request.json();
   } catch {
     return json({ error: "Invalid JSON body" }, { status: 400 });
   }
+  if (body.retrievalMode !== undefined && !RETRIEVAL_MODES.includes(body.retrievalMode)) {
+    return json(
+      { error: `retrievalMode must be one of ${RETRIEVAL_MODES.join(", ")}` },
+      { status: 400 }
+    );
+  }
+  const configErrors = [
+    ...validateRerankConfig(body.rerank),
+    ...validateChunkingConfig(body.chunking),
+  ];
+  if (configErrors.length > 0) return json({ error: configErrors.join("; ") }, { status: 400 });
   const updates: Record<string, unknown> = {};
   if (body.name !== undefined) updates.name = body.name;
   if (body.scope !== undefined) updates.scope = body.scope;
@@ -48,6 +79,13 @@ export async function PUT(request: Request, { params }: Params) {
   if (body.encodingConfigId !== undefined) updates.encodingConfigId = body.encodingConfigId;
   if (body.documentStoreId !== undefined) updates.documentStoreId = body.documentStoreId;
   if (body.vectorStoreId !== undefined) updates.vectorStoreId = body.vectorStoreId ?? null;
+  if (body.retrievalMode !== undefined) updates.retrievalMode = body.retrievalMode;
+  if (body.rerank !== undefined) {
+    updates.rerankConfig = body.rerank ? JSON.stringify(body.rerank) : null;
+  }
+  if (body.chunking !== undefined) {
+    updates.chunking = body.chunking ? JSON.stringify(body.chunking) : null;
+  }
   if (Object.keys(updates).length > 0) {
     await db.update(ragCollections).set(updates).where(eq(ragCollections.id, id)).run();
   }
@@ -61,6 +99,9 @@ export async function PUT(request: Request, { params }: Params) {
     encodingConfigId: r.encodingConfigId,
     documentStoreId: r.documentStoreId,
     vectorStoreId: r.vectorStoreId ?? undefined,
+    retrievalMode: parseRetrievalMode(r.retrievalMode),
+    rerank: parseRerankConfig(r.rerankConfig) ?? undefined,
+    chunking: parseChunkingConfig(r.chunking) ?? undefined,
     createdAt: r.createdAt,
   });
 }
@@ -70,5 +111,7 @@ export async function DELETE(_: Request, { params }: Params) {
   const rows = await db.select().from(ragCollections).where(eq(ragCollections.id, id));
   if (rows.length === 0) return json({ error: "Not found" }, { status: 404 });
   await db.delete(ragCollections).where(eq(ragCollections.id, id)).run();
+  await db.delete(ragVectors).where(eq(ragVectors.collectionId, id)).run();
+  await dropVectorIndex(id);
   return json({ ok: true });
 }
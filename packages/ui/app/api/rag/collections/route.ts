@@ -1,6 +1,19 @@
 import { json } from "../../_lib/response";
 import { db } from "../../_lib/db";
 import { ragCollections } from "@agentron-studio/core";
+import {
+  RETRIEVAL_MODES,
+  parseRerankConfig,
+  parseRetrievalMode,
+  validateRerankConfig,
+  type RerankConfig,
+  type RetrievalMode,
+} from "../../_lib/rag-retrieval";
+import {
+  parseChunkingConfig,
+  validateChunkingConfig,
+  type ChunkingConfig,
+} from "../../_lib/rag-chunking";
 
 export const runtime = "nodejs";
 
@@ -15,6 +28,9 @@ export async function GET() {
       encodingConfigId: r.encodingConfigId,
       documentStoreId: r.documentStoreId,
       vectorStoreId: r.vectorStoreId ?? undefined,
+      retrievalMode: parseRetrievalMode(r.retrievalMode),
+      rerank: parseRerankConfig(r.rerankConfig) ?? undefined,
+      chunking: parseChunkingConfig(r.chunking) ?? undefined,
       createdAt: r.createdAt,
     }))
   );
@@ -29,12 +45,26 @@ export async function POST(request: Request) {
     encodingConfigId: string;
     documentStoreId: string;
     vectorStoreId?: string | null;
+    retrievalMode?: RetrievalMode;
+    rerank?: RerankConfig | null;
+    chunking?: ChunkingConfig | null;
   };
   try {
     body = await request.json();
   } catch {
     return json({ error: "Invalid JSON body" }, { status: 400 });
   }
+  if (body.retrievalMode !== undefined && !RETRIEVAL_MODES.includes(body.retrievalMode)) {
+    return json(
+      { error: `retrievalMode must be one of ${RETRIEVAL_MODES.join(", ")}` },
+      { status: 400 }
+    );
+  }
+  const configErrors = [
+    ...validateRerankConfig(body.rerank),
+    ...validateChunkingConfig(body.chunking),
+  ];
+  if (configErrors.length > 0) return json({ error: configErrors.join("; ") }, { status: 400 });
   const id = body.id ?? crypto.randomUUID();
   const now = Date.now();
   await db
@@ -47,6 +77,9 @@ export async function POST(request: Request) {
       encodingConfigId: body.encodingConfigId,
       documentStoreId: body.documentStoreId,
       vectorStoreId: body.vectorStoreId ?? null,
+      retrievalMode: body.retrievalMode ?? "vector",
+      rerankConfig: body.rerank ? JSON.stringify(body.rerank) : null,
+      chunking: body.chunking ? JSON.stringify(body.chunking) : null,
       createdAt: now,
     })
     .run();
@@ -59,6 +92,9 @@ export async function POST(request: Request) {
       encodingConfigId: body.encodingConfigId,
       documentStoreId: body.documentStoreId,
       vectorStoreId: body.vectorStoreId ?? undefined,
+      retrievalMode: body.retrievalMode ?? "vector",
+      rerank: body.rerank ?? undefined,
+      chunking: body.chunking ?? undefined,
       createdAt: now,
     },
     { status: 201 }
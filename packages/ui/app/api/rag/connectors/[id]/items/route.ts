@@ -12,6 +12,7 @@ import {
   browseGitBook,
   browseBookStack,
 } from "../../_lib/browse";
+import { browseMcpResources } from "../../_lib/sync-mcp";
 
 const TEXT_EXTENSIONS = new Set([".md", ".markdown", ".txt", ".pdf"]);
 
@@ -84,6 +85,11 @@ export async function GET(request: Request, { params }: Params) {
       return json(result);
     }
 
+    if (connector.type === "mcp") {
+      const result = await browseMcpResources(config);
+      return json(result);
+    }
+
     return json(
       { error: `Browse not implemented for connector type: ${connector.type}` },
       { status: 400 }
@@ -20,8 +20,10 @@ import {
   syncGitBook,
   syncBookStack,
 } from "../../_lib/sync-cloud";
+import { syncMcpResources } from "../../_lib/sync-mcp";
 import { filterSyncItems } from "../../_lib/sync-filter";
 import { ingestOneDocument } from "../../../ingest/route";
+import { fireRagConnectorTriggers } from "../../../../_lib/workflow-triggers";
 
 type Params = { params: Promise<{ id: string }> };
 
@@ -65,6 +67,55 @@ export async function POST(_: Request, { params }: Params) {
     }
   }
 
+  /** Fire the connector's workflow triggers for documents whose externalId was not synced before. */
+  async function fireTriggersForNewItems(knownExternalIds: Set<string>, syncStartedAt: number) {
+    const docRows = await db
+      .select({
+        id: ragDocuments.id,
+        externalId: ragDocuments.externalId,
+        metadata: ragDocuments.metadata,
+        createdAt: ragDocuments.createdAt,
+      })
+      .from(ragDocuments)
+      .where(eq(ragDocuments.collectionId, collectionId));
+    const seen = new Set(knownExternalIds);
+    const items: Array<{ documentId: string; externalId?: string | null; name?: string }> = [];
+    for (const row of docRows) {
+      if (row.createdAt < syncStartedAt) continue;
+      if (row.externalId != null && seen.has(row.externalId)) continue;
+      if (row.externalId != null) seen.add(row.externalId);
+      let name: string | undefined;
+      try {
+        name = row.metadata ? (JSON.parse(row.metadata) as { name?: string }).name : undefined;
+      } catch {
+        name = undefined;
+      }
+      items.push({ documentId: row.id, externalId: row.externalId, name });
+    }
+    try {
+      await fireRagConnectorTriggers(id, items);
+    } catch {
+      // triggers must not fail the sync
+    }
+  }
+
+  const syncStartedAt = Date.now();
+  const knownExternalIds = new Set(
+    (
+      await db
+        .select({ externalId: ragDocuments.externalId })
+        .from(ragDocuments)
+        .where(eq(ragDocuments.collectionId, collectionId))
+    )
+      .map((r) => r.externalId)
+      .filter((x): x is string => x != null)
+  );
+
+  async function afterSync() {
+    await maybeIngestAfterSync();
+    await fireTriggersForNewItems(knownExternalIds, syncStartedAt);
+  }
+
   const collRows = await db
     .select()
     .from(ragCollections)
@@ -190,7 +241,7 @@ export async function POST(_: Request, { params }: Params) {
       .set({ status: "synced", lastSyncAt: Date.now() })
       .where(eq(ragConnectors.id, id))
       .run();
-    await maybeIngestAfterSync();
+    await afterSync();
     return json({ ok: true, synced, total: files.length });
   }
 
@@ -231,7 +282,7 @@ export async function POST(_: Request, { params }: Params) {
         .set({ status: "synced", lastSyncAt: Date.now() })
         .where(eq(ragConnectors.id, id))
         .run();
-      await maybeIngestAfterSync();
+      await afterSync();
       return json({ ok: true, synced: result.synced, total: result.total });
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Local path sync failed";
@@ -248,7 +299,7 @@ export async function POST(_: Request, { params }: Params) {
         .set({ status: "synced", lastSyncAt: Date.now() })
         .where(eq(ragConnectors.id, id))
         .run();
-      await maybeIngestAfterSync();
+      await afterSync();
       return json({ ok: true, synced: result.synced, total: result.total });
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Dropbox sync failed";
@@ -265,7 +316,7 @@ export async function POST(_: Request, { params }: Params) {
         .set({ status: "synced", lastSyncAt: Date.now() })
         .where(eq(ragConnectors.id, id))
         .run();
-      await maybeIngestAfterSync();
+      await afterSync();
       return json({ ok: true, synced: result.synced, total: result.total });
     } catch (err) {
       const msg = err instanceof Error ? err.message : "OneDrive sync failed";
@@ -282,7 +333,7 @@ export async function POST(_: Request, { params }: Params) {
         .set({ status: "synced", lastSyncAt: Date.now() })
         .where(eq(ragConnectors.id, id))
         .run();
-      await maybeIngestAfterSync();
+      await afterSync();
       return json({ ok: true, synced: result.synced, total: result.total });
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Notion sync failed";
@@ -299,7 +350,7 @@ export async function POST(_: Request, { params }: Params) {
         .set({ status: "synced", lastSyncAt: Date.now() })
         .where(eq(ragConnectors.id, id))
         .run();
-      await maybeIngestAfterSync();
+      await afterSync();
       return json({ ok: true, synced: result.synced, total: result.total });
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Confluence sync failed";
@@ -316,7 +367,7 @@ export async function POST(_: Request, { params }: Params) {
         .set({ status: "synced", lastSyncAt: Date.now() })
         .where(eq(ragConnectors.id, id))
         .run();
-      await maybeIngestAfterSync();
+      await afterSync();
       return json({ ok: true, synced: result.synced, total: result.total });
     } catch (err) {
       await db
@@ -339,7 +390,7 @@ export async function POST(_: Request, { params }: Params) {
         .set({ status: "synced", lastSyncAt: Date.now() })
         .where(eq(ragConnectors.id, id))
         .run();
-      await maybeIngestAfterSync();
+      await afterSync();
       return json({ ok: true, synced: result.synced, total: result.total });
     } catch (err) {
       const msg = err instanceof Error ? err.message : "BookStack sync failed";
@@ -348,6 +399,23 @@ export async function POST(_: Request, { params }: Params) {
     }
   }
 
+  if (connector.type === "mcp") {
+    try {
+      const result = await syncMcpResources(config, id, collectionId, store, !!useS3);
+      await db
+        .update(ragConnectors)
+        .set({ status: "synced", lastSyncAt: Date.now() })
+        .where(eq(ragConnectors.id, id))
+        .run();
+      await afterSync();
+      return json({ ok: true, synced: result.synced, total: result.total });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "MCP resource sync failed";
+      await setConnectorError(msg);
+      return json({ error: msg }, { status: 400 });
+    }
+  }
+
   await setConnectorError(`Sync not implemented for connector type: ${connector.type}`);
   return json(
     { error: `Sync not implemented for connector type: ${connector.type}` },
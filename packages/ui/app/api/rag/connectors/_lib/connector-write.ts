@@ -1,6 +1,7 @@
 /**
  * Read and update connector items. Used by connector_read_item and connector_update_item tools.
  * Local path connectors (filesystem, obsidian_vault, logseq_graph): read/write file by path.
+ * MCP connectors: read a resource by its URI (read-only).
  * Cloud connectors: not implemented here yet; return clear error.
  */
 import path from "node:path";
@@ -8,6 +9,9 @@ import fs from "node:fs";
 import { db } from "../../../_lib/db";
 import { ragConnectors } from "@agentron-studio/core";
 import { eq } from "drizzle-orm";
+import { getMCPClient } from "@agentron-studio/runtime";
+import { mcpResourceText } from "../../../_lib/mcp-resources";
+import { mcpServerFromConnectorConfig } from "./sync-mcp";
 
 const LOCAL_PATH_TYPES = new Set(["filesystem", "obsidian_vault", "logseq_graph"]);
 
@@ -43,6 +47,17 @@ export async function readConnectorItem(
     return { content, mimeType };
   }
 
+  if (connector.type === "mcp") {
+    try {
+      const contents = await getMCPClient(mcpServerFromConnectorConfig(config)).readResource(
+        itemId
+      );
+      return { content: mcpResourceText(contents), mimeType: contents[0]?.mimeType };
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : String(err) };
+    }
+  }
+
   return { error: `Read not implemented for connector type: ${connector.type}` };
 }
 
@@ -11,7 +11,7 @@ import { getRagUploadsDir } from "../../../_lib/db";
 import { ragDocuments } from "@agentron-studio/core";
 import { db } from "../../../_lib/db";
 
-type StoreRow = {
+export type StoreRow = {
   id: string;
   type: string;
   bucket: string;
@@ -26,7 +26,7 @@ function getToken(config: Record<string, unknown>, refKey: string): string {
   return process.env[ref]!;
 }
 
-async function writeToStore(
+export async function writeToStore(
   useS3: boolean,
   store: StoreRow,
   storePath: string,
@@ -299,7 +299,11 @@ export async function syncConfluence(
         externalId: page.id,
         storePath: finalPath,
         mimeType: "text/html",
-        metadata: JSON.stringify({ source: "confluence", title: page.name }),
+        metadata: JSON.stringify({
+          source: "confluence",
+          title: page.name,
+          url: `${baseUrl}/pages/viewpage.action?pageId=${encodeURIComponent(page.id)}`,
+        }),
         createdAt: Date.now(),
       })
       .run();
@@ -419,7 +423,11 @@ export async function syncBookStack(
           externalId: String(p.id),
           storePath: finalPath,
           mimeType: "text/html",
-          metadata: JSON.stringify({ source: "bookstack", name: page.name }),
+          metadata: JSON.stringify({
+            source: "bookstack",
+            name: page.name,
+            url: `${baseUrl}/link/${p.id}`,
+          }),
           createdAt: Date.now(),
         })
         .run();
@@ -0,0 +1,128 @@
+/**
+ * MCP connector: the resources of an MCP server (config.server, as accepted by POST /api/mcp)
+ * become collection documents. Each resource is read and stored in the collection's document
+ * store; re-syncing updates the document of a resource in place (matched by its URI).
+ * Optional config.includeIds (resource URIs) and config.excludePatterns filter which are synced.
+ */
+import { and, eq } from "drizzle-orm";
+import { ragDocuments } from "@agentron-studio/core";
+import { getMCPClient, type MCPResourceInfo, type MCPServerConfig } from "@agentron-studio/runtime";
+import { db } from "../../../_lib/db";
+import { parseMcpServer } from "../../../_lib/mcp-tools";
+import { filterSyncItems } from "./sync-filter";
+import { writeToStore, type StoreRow } from "./sync-cloud";
+import type { BrowseResult } from "./browse";
+
+const EXTENSIONS: Record<string, string> = {
+  "text/markdown": ".md",
+  "text/html": ".html",
+  "application/json": ".json",
+  "application/pdf": ".pdf",
+};
+
+export function mcpServerFromConnectorConfig(config: Record<string, unknown>): MCPServerConfig {
+  const parsed = parseMcpServer(config.server);
+  if ("error" in parsed) throw new Error(`MCP connector config.${parsed.error}`);
+  return parsed.server;
+}
+
+/** File name a resource is stored under: its name, made safe, with an extension for its type. */
+function storedFileName(resource: MCPResourceInfo, mimeType: string): string {
+  const base = resource.name.replace(/[^a-zA-Z0-9._-]+/g, "_").slice(0, 100) || "resource";
+  const ext = EXTENSIONS[mimeType] ?? (mimeType.startsWith("text/") ? ".txt" : "");
+  return ext && !base.toLowerCase().endsWith(ext) ? `${base}${ext}` : base;
+}
+
+export async function browseMcpResources(config: Record<string, unknown>): Promise<BrowseResult> {
+  const resources = await getMCPClient(mcpServerFromConnectorConfig(config)).listResources();
+  return {
+    items: resources.map((r) => ({
+      id: r.uri,
+      name: r.title ?? r.name,
+      type: r.mimeType ?? "resource",
+      path: r.uri,
+    })),
+  };
+}
+
+export async function syncMcpResources(
+  config: Record<string, unknown>,
+  connectorId: string,
+  collectionId: string,
+  store: StoreRow,
+  useS3: boolean
+): Promise<{ synced: number; total: number }> {
+  const client = getMCPClient(mcpServerFromConnectorConfig(config));
+  const items = filterSyncItems(
+    (await client.listResources()).map((r) => ({
+      id: r.uri,
+      name: r.name,
+      path: r.uri,
+      resource: r,
+    })),
+    config
+  );
+  let synced = 0;
+  for (const { resource } of items) {
+    const contents = await client.readResource(resource.uri);
+    const content = contents[0];
+    if (!content) continue;
+    const mimeType = content.mimeType ?? resource.mimeType ?? "text/plain";
+    const buffer =
+      content.blob != null
+        ? Buffer.from(content.blob, "base64")
+        : Buffer.from(
+            contents
+              .map((c) => c.text ?? "")
+              .filter(Boolean)
+              .join("\n\n"),
+            "utf-8"
+          );
+
+    const existing = await db
+      .select({ id: ragDocuments.id })
+      .from(ragDocuments)
+      .where(
+        and(eq(ragDocuments.collectionId, collectionId), eq(ragDocuments.externalId, resource.uri))
+      );
+    const docId = existing[0]?.id ?? crypto.randomUUID();
+    const fileName = storedFileName(resource, mimeType);
+    const finalPath = await writeToStore(
+      useS3,
+      store,
+      `connectors/${connectorId}/${docId}_${fileName}`,
+      `uploads/${docId}_${fileName}`,
+      buffer,
+      mimeType,
+      collectionId
+    );
+    const metadata = JSON.stringify({
+      source: "mcp",
+      name: resource.title ?? resource.name,
+      uri: resource.uri,
+      ...(/^https?:\/\//.test(resource.uri) && { url: resource.uri }),
+    });
+    if (existing[0]) {
+      await db
+        .update(ragDocuments)
+        .set({ storePath: finalPath, mimeType, metadata })
+        .where(eq(ragDocuments.id, docId))
+        .run();
+    } else {
+      await db
+        .insert(ragDocuments)
+        .values({
+          id: docId,
+          collectionId,
+          externalId: resource.uri,
+          storePath: finalPath,
+          mimeType,
+          metadata,
+          createdAt: Date.now(),
+        })
+        .run();
+    }
+    synced++;
+  }
+  return { synced, total: items.length };
+}
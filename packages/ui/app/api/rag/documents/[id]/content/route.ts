@@ -0,0 +1,55 @@
+import { json } from "../../../../_lib/response";
+import { db } from "../../../../_lib/db";
+import { ragCollections, ragDocuments } from "@agentron-studio/core";
+import { eq } from "drizzle-orm";
+import { readDocumentFile } from "../../../ingest/route";
+import { documentSource } from "../../../../_lib/rag-citations";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+/** Types shown in the browser; anything else (HTML, SVG, …) could run script on this origin. */
+const INLINE_MIME_TYPES = new Set([
+  "application/pdf",
+  "text/plain",
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+]);
+
+/**
+ * GET — the document's stored file, e.g. the target of a RAG citation link. PDFs, plain text and
+ * raster images open inline; other uploads are downloaded as attachments.
+ */
+export async function GET(_: Request, { params }: Params) {
+  const { id } = await params;
+  const docRows = await db.select().from(ragDocuments).where(eq(ragDocuments.id, id));
+  if (docRows.length === 0) return json({ error: "Not found" }, { status: 404 });
+  const doc = docRows[0];
+  const collRows = await db
+    .select({ documentStoreId: ragCollections.documentStoreId })
+    .from(ragCollections)
+    .where(eq(ragCollections.id, doc.collectionId));
+  if (collRows.length === 0) return json({ error: "Collection not found" }, { status: 404 });
+
+  let buffer: Buffer;
+  try {
+    buffer = await readDocumentFile(doc, collRows[0].documentStoreId);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return json({ error: msg }, { status: msg.includes("bucket") ? 502 : 404 });
+  }
+  const filename = documentSource(doc).filename.replace(/["\\\r\n]/g, "_");
+  const mimeType = doc.mimeType ?? "application/octet-stream";
+  const inline = INLINE_MIME_TYPES.has(mimeType.split(";")[0]!.trim().toLowerCase());
+  return new Response(new Uint8Array(buffer), {
+    headers: {
+      "Content-Type": mimeType,
+      "Content-Disposition": `${inline ? "inline" : "attachment"}; filename="${filename}"`,
+      "Content-Length": String(buffer.length),
+      "X-Content-Type-Options": "nosniff",
+    },
+  });
+}
@@ -0,0 +1,18 @@
+import { json } from "../../../_lib/response";
+import { db } from "../../../_lib/db";
+import { ragDocuments, ragVectors } from "@agentron-studio/core";
+import { eq } from "drizzle-orm";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+/** DELETE — remove a document and its chunks (they drop out of the collection's vector index). */
+export async function DELETE(_: Request, { params }: Params) {
+  const { id } = await params;
+  const rows = await db.select().from(ragDocuments).where(eq(ragDocuments.id, id));
+  if (rows.length === 0) return json({ error: "Not found" }, { status: 404 });
+  await db.delete(ragVectors).where(eq(ragVectors.documentId, id)).run();
+  await db.delete(ragDocuments).where(eq(ragDocuments.id, id)).run();
+  return json({ ok: true });
+}
@@ -2,6 +2,11 @@ import { json } from "../../../_lib/response";
 import { db } from "../../../_lib/db";
 import { ragEncodingConfigs } from "@agentron-studio/core";
 import { eq } from "drizzle-orm";
+import {
+  parseChunkingConfig,
+  validateChunkingConfig,
+  type ChunkingConfig,
+} from "../../../_lib/rag-chunking";
 
 type Params = { params: Promise<{ id: string }> };
 
@@ -20,6 +25,7 @@ export async function GET(_: Request, { params }: Params) {
     dimensions: r.dimensions,
     embeddingProviderId: r.embeddingProviderId ?? undefined,
     endpoint: r.endpoint ?? undefined,
+    chunking: parseChunkingConfig(r.chunking) ?? undefined,
     createdAt: r.createdAt,
   });
 }
@@ -35,12 +41,17 @@ export async function PUT(request: Request, { params }: Params) {
     dimensions?: number;
     embeddingProviderId?: string | null;
     endpoint?: string | null;
+    chunking?: ChunkingConfig | null;
   };
   try {
     body = await request.json();
   } catch {
     return json({ error: "Invalid JSON body" }, { status: 400 });
   }
+  const chunkingErrors = validateChunkingConfig(body.chunking);
+  if (chunkingErrors.length > 0) {
+    return json({ error: chunkingErrors.join("; ") }, { status: 400 });
+  }
   const updates: Record<string, unknown> = {};
   if (body.name !== undefined) updates.name = body.name;
   if (body.provider !== undefined) updates.provider = body.provider;
@@ -49,6 +60,9 @@ export async function PUT(request: Request, { params }: Params) {
   if (body.embeddingProviderId !== undefined)
     updates.embeddingProviderId = body.embeddingProviderId;
   if (body.endpoint !== undefined) updates.endpoint = body.endpoint;
+  if (body.chunking !== undefined) {
+    updates.chunking = body.chunking ? JSON.stringify(body.chunking) : null;
+  }
   if (Object.keys(updates).length > 0) {
     await db.update(ragEncodingConfigs).set(updates).where(eq(ragEncodingConfigs.id, id)).run();
   }
@@ -62,6 +76,7 @@ export async function PUT(request: Request, { params }: Params) {
     dimensions: r.dimensions,
     embeddingProviderId: r.embeddingProviderId ?? undefined,
     endpoint: r.endpoint ?? undefined,
+    chunking: parseChunkingConfig(r.chunking) ?? undefined,
     createdAt: r.createdAt,
   });
 }
@@ -1,6 +1,11 @@
 import { json } from "../../_lib/response";
 import { db } from "../../_lib/db";
 import { ragEncodingConfigs } from "@agentron-studio/core";
+import {
+  parseChunkingConfig,
+  validateChunkingConfig,
+  type ChunkingConfig,
+} from "../../_lib/rag-chunking";
 
 export const runtime = "nodejs";
 
@@ -15,6 +20,7 @@ export async function GET() {
       dimensions: r.dimensions,
       embeddingProviderId: r.embeddingProviderId ?? undefined,
       endpoint: r.endpoint ?? undefined,
+      chunking: parseChunkingConfig(r.chunking) ?? undefined,
       createdAt: r.createdAt,
     }))
   );
@@ -29,12 +35,17 @@ export async function POST(request: Request) {
     dimensions: number;
     embeddingProviderId?: string | null;
     endpoint?: string | null;
+    chunking?: ChunkingConfig | null;
   };
   try {
     body = await request.json();
   } catch {
     return json({ error: "Invalid JSON body" }, { status: 400 });
   }
+  const chunkingErrors = validateChunkingConfig(body.chunking);
+  if (chunkingErrors.length > 0) {
+    return json({ error: chunkingErrors.join("; ") }, { status: 400 });
+  }
   const id = body.id ?? crypto.randomUUID();
   const now = Date.now();
   const provider = body.embeddingProviderId != null ? "openai" : (body.provider ?? "openai");
@@ -48,6 +59,7 @@ export async function POST(request: Request) {
       dimensions: body.dimensions,
       embeddingProviderId: body.embeddingProviderId ?? null,
       endpoint: body.endpoint ?? null,
+      chunking: body.chunking ? JSON.stringify(body.chunking) : null,
       createdAt: now,
     })
     .run();
@@ -60,6 +72,7 @@ export async function POST(request: Request) {
       dimensions: body.dimensions,
       embeddingProviderId: body.embeddingProviderId ?? undefined,
       endpoint: body.endpoint ?? undefined,
+      chunking: body.chunking ?? undefined,
       createdAt: now,
     },
     { status: 201 }
@@ -1,61 +1,70 @@
 import { json } from "../../_lib/response";
 import { db, getRagUploadsDir } from "../../_lib/db";
-import { ragDocuments, ragCollections, ragVectors, ragDocumentStores } from "@agentron-studio/core";
+import {
+  ragDocuments,
+  ragCollections,
+  ragVectors,
+  ragDocumentStores,
+  ragEncodingConfigs,
+} from "@agentron-studio/core";
 import { eq } from "drizzle-orm";
 import path from "node:path";
 import fs from "node:fs";
 import { embed } from "../../_lib/embeddings";
+import {
+  encodeVector,
+  loadVectorIndex,
+  maintainVectorIndex,
+  nearestList,
+} from "../../_lib/rag-vector-index";
 import { getObject } from "../../_lib/s3";
 import { extractText } from "../../_lib/rag-extract";
+import {
+  chunkDocument,
+  parseChunkingConfig,
+  DEFAULT_CHUNKING,
+  type ChunkingConfig,
+} from "../../_lib/rag-chunking";
 
 export const runtime = "nodejs";
-const CHUNK_SIZE = 500;
-const CHUNK_OVERLAP = 50;
-
-function chunkText(text: string): string[] {
-  const chunks: string[] = [];
-  let start = 0;
-  while (start < text.length) {
-    let end = Math.min(start + CHUNK_SIZE, text.length);
-    if (end < text.length) {
-      const lastSpace = text.lastIndexOf(" ", end);
-      if (lastSpace > start) end = lastSpace + 1;
-    }
-    const chunk = text.slice(start, end).trim();
-    if (chunk) chunks.push(chunk);
-    start = end - (end < text.length ? CHUNK_OVERLAP : 0);
-  }
-  return chunks.length ? chunks : [text];
-}
 
 /**
- * Ingest one document: chunk, embed, store vectors. Used by POST (single or bulk by collectionId).
+ * Chunking config for a collection: the collection's own, else its encoding config's, else the
+ * default (500-character windows with 50 overlap).
  */
-export async function ingestOneDocument(documentId: string): Promise<{ chunks: number }> {
-  const docRows = await db.select().from(ragDocuments).where(eq(ragDocuments.id, documentId));
-  if (docRows.length === 0) throw new Error("Document not found");
-  const doc = docRows[0];
-  const collectionId = doc.collectionId;
-
-  const collRows = await db
+async function resolveChunking(collection: {
+  chunking: string | null;
+  encodingConfigId: string;
+}): Promise<{ config: ChunkingConfig; model: string }> {
+  const encRows = await db
     .select()
-    .from(ragCollections)
-    .where(eq(ragCollections.id, collectionId));
-  if (collRows.length === 0) throw new Error("Collection not found");
-  const collection = collRows[0];
-  const encodingConfigId = collection.encodingConfigId;
+    .from(ragEncodingConfigs)
+    .where(eq(ragEncodingConfigs.id, collection.encodingConfigId));
+  const encoding = encRows[0];
+  const config =
+    parseChunkingConfig(collection.chunking) ??
+    parseChunkingConfig(encoding?.chunking) ??
+    DEFAULT_CHUNKING;
+  return { config, model: encoding?.modelOrEndpoint ?? "" };
+}
 
+/**
+ * Reads a document's stored file: from the collection's S3/MinIO bucket, else the local uploads dir.
+ */
+export async function readDocumentFile(
+  doc: typeof ragDocuments.$inferSelect,
+  documentStoreId: string
+): Promise<Buffer> {
   const storeRows = await db
     .select()
     .from(ragDocumentStores)
-    .where(eq(ragDocumentStores.id, collection.documentStoreId));
+    .where(eq(ragDocumentStores.id, documentStoreId));
   const store = storeRows[0];
   const useS3 = store && (store.type === "s3" || store.type === "minio");
 
-  let buffer: Buffer;
   if (useS3) {
     try {
-      buffer = await getObject(
+      return await getObject(
         {
           id: store.id,
           type: store.type,
@@ -72,23 +81,50 @@ export async function ingestOneDocument(documentId: string): Promise<{ chunks: n
     }
   } else {
     const fileName = doc.storePath.replace(/^uploads\//, "");
-    const localPath = path.join(getRagUploadsDir(), collectionId, fileName);
+    const localPath = path.join(getRagUploadsDir(), doc.collectionId, fileName);
     if (!fs.existsSync(localPath)) {
       throw new Error("Document file not found on disk. Use bundled storage or re-upload.");
     }
-    buffer = fs.readFileSync(localPath);
+    return fs.readFileSync(localPath);
   }
+}
+
+/**
+ * Ingest one document: chunk, embed, store vectors (Float32 blobs in rag_vectors, indexed for
+ * bundled search). Used by POST (single or bulk by collectionId).
+ */
+export async function ingestOneDocument(documentId: string): Promise<{ chunks: number }> {
+  const docRows = await db.select().from(ragDocuments).where(eq(ragDocuments.id, documentId));
+  if (docRows.length === 0) throw new Error("Document not found");
+  const doc = docRows[0];
+  const collectionId = doc.collectionId;
+
+  const collRows = await db
+    .select()
+    .from(ragCollections)
+    .where(eq(ragCollections.id, collectionId));
+  if (collRows.length === 0) throw new Error("Collection not found");
+  const collection = collRows[0];
+  const encodingConfigId = collection.encodingConfigId;
+
+  const buffer = await readDocumentFile(doc, collection.documentStoreId);
   const raw = doc.mimeType ? await extractText(buffer, doc.mimeType) : buffer.toString("utf-8");
-  const chunks = chunkText(raw);
+  const chunking = await resolveChunking(collection);
+  const chunks = chunkDocument(raw, chunking.config, chunking.model);
   if (chunks.length === 0) throw new Error("No text to embed");
 
-  const embeddings = await embed(encodingConfigId, chunks);
+  const embeddings = await embed(
+    encodingConfigId,
+    chunks.map((c) => c.text)
+  );
 
   const existing = await db.select().from(ragVectors).where(eq(ragVectors.documentId, documentId));
   for (const row of existing) {
     await db.delete(ragVectors).where(eq(ragVectors.id, row.id)).run();
   }
 
+  // New vectors join their nearest IVF list; the index is (re)built below once the collection is large enough.
+  const index = await loadVectorIndex(collectionId);
   const now = Date.now();
   for (let i = 0; i < chunks.length; i++) {
     await db
@@ -98,12 +134,19 @@ export async function ingestOneDocument(documentId: string): Promise<{ chunks: n
         collectionId,
         documentId,
         chunkIndex: i,
-        text: chunks[i],
-        embedding: JSON.stringify(embeddings[i]),
+        text: chunks[i].text,
+        embedding: "",
+        embeddingBlob: encodeVector(embeddings[i]),
+        listId: index ? nearestList(index, embeddings[i]) : null,
+        headingPath:
+          chunks[i].headingPath.length > 0 ? JSON.stringify(chunks[i].headingPath) : null,
+        startOffset: chunks[i].start,
+        endOffset: chunks[i].end,
         createdAt: now,
       })
       .run();
   }
+  await maintainVectorIndex(collectionId);
   return { chunks: chunks.length };
 }
 
@@ -9,7 +9,12 @@ export const runtime = "nodejs";
  * POST body: { collectionId?: string, query: string, limit?: number }
  * - If collectionId is omitted, uses the deployment (studio) collection.
  * - limit is clamped to system max; if omitted, effective limit for the scope is used.
- * Returns { chunks: { text: string, score?: number, source?: string }[] }
+ * Returns { chunks: { text: string, score?: number, source?: string, scores?: { vector?, keyword?, fused?, rerank? }, documentId?, filename?, connectorItemId?, url?, chunkIndex?, headingPath?, start?, end? }[] }
+ * - score is the score of the last stage that ran; scores has each stage's score (vector cosine,
+ *   BM25 keyword, reciprocal-rank fusion, rerank) per the collection's retrieval mode.
+ * - documentId, chunkIndex, headingPath and start/end (character offsets in the document text)
+ *   locate the chunk; filename, connectorItemId and url identify its document. They are set for
+ *   every vector store (external stores are matched to rag_vectors when their payload lacks them).
  */
 export async function POST(request: Request) {
   let body: { collectionId?: string; query: string; limit?: number };
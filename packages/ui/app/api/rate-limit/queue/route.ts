@@ -1,12 +1,40 @@
 import { json } from "../../_lib/response";
 import { getDefaultRateLimiter } from "@agentron-studio/runtime";
+import { db, llmConfigs, fromLlmConfigRow } from "../../_lib/db";
+import { getQuotaUsage, installSqliteRateLimitStore } from "../../_lib/rate-limit-store";
 
 export const runtime = "nodejs";
 
-/** Returns currently pending (waiting) and recently delayed LLM requests for the queue UI. */
+type QuotaLimits = { tokensPerDay?: number; tokensPerMonth?: number };
+
+/**
+ * Returns currently pending (waiting), retrying (backing off after a failed call), recently
+ * delayed and recently rejected (over quota) LLM requests, plus token quota usage of each LLM
+ * config that has a daily or monthly quota, for the queue UI.
+ */
 export async function GET() {
+  installSqliteRateLimitStore();
   const limiter = getDefaultRateLimiter();
   const pending = limiter.getPending();
+  const retrying = limiter.getRetrying();
   const recentDelayed = limiter.getRecentDelayed();
-  return json({ pending, recentDelayed });
+  const recentRejected = limiter.getRecentRejected();
+
+  const configs = (await db.select().from(llmConfigs)).map(fromLlmConfigRow).filter((c) => {
+    const limits = c.extra?.rateLimit as QuotaLimits | undefined;
+    return limits?.tokensPerDay != null || limits?.tokensPerMonth != null;
+  });
+  const usage = await getQuotaUsage(configs.map((c) => c.id));
+  const quotas = configs.map((c) => {
+    const limits = c.extra?.rateLimit as QuotaLimits;
+    return {
+      llmConfigId: c.id,
+      provider: c.provider,
+      model: c.model,
+      ...usage[c.id],
+      ...(limits.tokensPerDay != null && { tokensPerDay: limits.tokensPerDay }),
+      ...(limits.tokensPerMonth != null && { tokensPerMonth: limits.tokensPerMonth }),
+    };
+  });
+  return json({ pending, retrying, recentDelayed, recentRejected, quotas });
 }
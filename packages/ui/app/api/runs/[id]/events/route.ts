@@ -1,18 +1,56 @@
 import { json } from "../../../_lib/response";
 import { db, executions } from "../../../_lib/db";
 import { getExecutionEventsForRun, getExecutionRunState } from "../../../_lib/execution-events";
+import { subscribe } from "../../../_lib/chat-event-channel";
 import { eq } from "drizzle-orm";
 
 type Params = { params: Promise<{ id: string }> };
 
 export const runtime = "nodejs";
 
+/**
+ * Live LLM output of a workflow run as server-sent events: llm_request when an agent calls its
+ * model, then content_delta and tool_call_delta as the response streams. Open until the client
+ * disconnects.
+ */
+function streamRunEvents(request: Request, runId: string): Response {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    start(controller) {
+      const unsub = subscribe(runId, (event) => {
+        try {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        } catch {
+          // stream already closed
+        }
+      });
+      request.signal?.addEventListener?.("abort", () => {
+        unsub();
+        try {
+          controller.close();
+        } catch {
+          //
+        }
+      });
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
+
 /**
  * GET /api/runs/:id/events
  * Returns the full execution event queue and optional run state for this run.
  * Use for diagnosis and "Copy for support" (events + state are JSON-serializable).
+ * With Accept: text/event-stream, streams the run's live LLM output instead.
  */
-export async function GET(_request: Request, { params }: Params) {
+export async function GET(request: Request, { params }: Params) {
   const { id: runId } = await params;
 
   const rows = await db
@@ -23,6 +61,10 @@ export async function GET(_request: Request, { params }: Params) {
     return json({ error: "Run not found" }, { status: 404 });
   }
 
+  if (request.headers.get("accept")?.includes("text/event-stream")) {
+    return streamRunEvents(request, runId);
+  }
+
   const [events, runState] = await Promise.all([
     getExecutionEventsForRun(runId),
     getExecutionRunState(runId),
@@ -0,0 +1,41 @@
+import { json } from "../../../_lib/response";
+import { db, executions, fromExecutionRow, runLogs } from "../../../_lib/db";
+import { updateExecutionRunState } from "../../../_lib/execution-events";
+import { enqueueWorkflowResume } from "../../../_lib/workflow-queue";
+import { eq } from "drizzle-orm";
+
+type Params = { params: Promise<{ id: string }> };
+
+export const runtime = "nodejs";
+
+/** Resume a run that a budget paused. It continues at the node that was about to call the LLM; budgets are checked again. */
+export async function POST(_: Request, { params }: Params) {
+  const { id: runId } = await params;
+  const rows = await db.select().from(executions).where(eq(executions.id, runId));
+  if (rows.length === 0) {
+    return json({ error: "Not found" }, { status: 404 });
+  }
+  if (rows[0].status !== "paused") {
+    return json({ error: "Run is not paused", status: rows[0].status }, { status: 400 });
+  }
+  await db
+    .update(executions)
+    .set({ status: "running", finishedAt: null })
+    .where(eq(executions.id, runId))
+    .run();
+  await updateExecutionRunState(runId, { status: "running" });
+  await db
+    .insert(runLogs)
+    .values({
+      id: crypto.randomUUID(),
+      executionId: runId,
+      level: "stdout",
+      message: "Run resumed after a budget pause",
+      payload: null,
+      createdAt: Date.now(),
+    })
+    .run();
+  await enqueueWorkflowResume({ runId });
+  const updated = await db.select().from(executions).where(eq(executions.id, runId));
+  return json(fromExecutionRow(updated[0]));
+}
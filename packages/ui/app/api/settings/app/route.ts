@@ -61,7 +61,7 @@ export async function GET() {
   }
 }
 
-/** PATCH updates general app settings. Body: { maxFileUploadBytes?, containerEngine?, shellCommandAllowlist?, workflowMaxSelfFixRetries? (0-10) }. */
+/** PATCH updates general app settings. Body: { maxFileUploadBytes?, containerEngine?, shellCommandAllowlist?, mcpStdioServers?, workflowMaxSelfFixRetries? (0-10) }. */
 export async function PATCH(request: Request) {
   try {
     const payload = await request.json().catch(() => ({}));
@@ -69,6 +69,7 @@ export async function PATCH(request: Request) {
       maxFileUploadBytes?: number;
       containerEngine?: "podman" | "docker";
       shellCommandAllowlist?: string[];
+      mcpStdioServers?: string[];
       workflowMaxSelfFixRetries?: number;
       webSearchProvider?: WebSearchProvider;
       braveSearchApiKey?: string;
@@ -94,6 +95,11 @@ export async function PATCH(request: Request) {
         .filter((x: unknown) => typeof x === "string" && x.trim().length > 0)
         .map((s: string) => s.trim());
     }
+    if (payload.mcpStdioServers !== undefined && Array.isArray(payload.mcpStdioServers)) {
+      updates.mcpStdioServers = payload.mcpStdioServers.filter(
+        (x: unknown) => typeof x === "string" && x.trim().length > 0
+      );
+    }
     if (payload.workflowMaxSelfFixRetries !== undefined) {
       const v = Number(payload.workflowMaxSelfFixRetries);
       if (!Number.isNaN(v) && v >= 0 && v <= 10) updates.workflowMaxSelfFixRetries = Math.floor(v);
@@ -18,7 +18,11 @@ export async function GET() {
   }
 }
 
-/** PATCH updates telegram settings. Body: { enabled?, botToken?, botTokenEnvVar?, notificationChatId? }. Token is never returned. */
+/**
+ * PATCH updates telegram settings. Body: { enabled?, botToken?, botTokenEnvVar?, notificationChatId?,
+ * usePolling?, allowedUserIds?, newPairingCode? }. newPairingCode true issues a fresh pairing code,
+ * false revokes it. Token is never returned.
+ */
 export async function PATCH(request: Request) {
   try {
     const payload = await request.json().catch(() => ({}));
@@ -28,12 +32,30 @@ export async function PATCH(request: Request) {
       botTokenEnvVar: string;
       notificationChatId: string;
       usePolling: boolean;
+      allowedUserIds: string[];
+      newPairingCode: boolean;
     }> = {};
     if (typeof payload.enabled === "boolean") updates.enabled = payload.enabled;
     if (typeof payload.botToken === "string") updates.botToken = payload.botToken;
     if (typeof payload.botTokenEnvVar === "string") updates.botTokenEnvVar = payload.botTokenEnvVar;
     if (typeof payload.notificationChatId === "string")
       updates.notificationChatId = payload.notificationChatId;
+    if (payload.allowedUserIds !== undefined) {
+      const ids = Array.isArray(payload.allowedUserIds)
+        ? (payload.allowedUserIds as unknown[]).map((id) =>
+            typeof id === "number" || typeof id === "string" ? String(id).trim() : ""
+          )
+        : null;
+      if (!ids || ids.some((id) => !/^\d+$/.test(id))) {
+        return json(
+          { error: "allowedUserIds must be an array of numeric Telegram user ids" },
+          { status: 400 }
+        );
+      }
+      updates.allowedUserIds = ids;
+    }
+    if (typeof payload.newPairingCode === "boolean")
+      updates.newPairingCode = payload.newPairingCode;
     if (typeof payload.usePolling === "boolean") {
       updates.usePolling = payload.usePolling;
       if (!payload.usePolling) stopPolling();
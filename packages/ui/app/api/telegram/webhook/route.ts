@@ -2,18 +2,26 @@ import { json } from "../../_lib/response";
 import { getTelegramBotToken } from "../../_lib/telegram-settings";
 import { processTelegramUpdate, type TelegramUpdate } from "../../_lib/telegram-update";
 import { logApiError } from "../../_lib/api-logger";
+import { isAuthEnabled, secretsEqual } from "../../_lib/api-auth";
 
 export const runtime = "nodejs";
 
-function getOrigin(request: Request): string {
+/** Secret Telegram sends when the webhook was set with secret_token; ?secret= is the older form. */
+function getPresentedSecret(request: Request): string | null {
+  const header = request.headers.get("x-telegram-bot-api-secret-token");
+  if (header) return header;
   try {
-    return new URL(request.url).origin;
+    return new URL(request.url).searchParams.get("secret");
   } catch {
-    return process.env.AGENTRON_PUBLIC_URL ?? "http://localhost:3000";
+    return null;
   }
 }
 
-/** POST receives Telegram webhook updates. Requires Telegram enabled and token. Optional: ?secret= for TELEGRAM_WEBHOOK_SECRET. */
+/**
+ * POST receives Telegram webhook updates (messages and inline button presses). Requires Telegram enabled and token.
+ * TELEGRAM_WEBHOOK_SECRET is checked against the X-Telegram-Bot-Api-Secret-Token header (or ?secret=); once the
+ * admin login is on, the secret must be configured, since this route is reachable without a login.
+ */
 export async function POST(request: Request) {
   try {
     const token = getTelegramBotToken();
@@ -23,20 +31,23 @@ export async function POST(request: Request) {
 
     const secret = process.env.TELEGRAM_WEBHOOK_SECRET;
     if (secret) {
-      const q = new URL(request.url).searchParams.get("secret");
-      if (q !== secret) {
+      const presented = getPresentedSecret(request);
+      if (!presented || !secretsEqual(presented, secret)) {
         return json({ error: "Unauthorized" }, { status: 401 });
       }
+    } else if (await isAuthEnabled()) {
+      return json(
+        { error: "Set TELEGRAM_WEBHOOK_SECRET to receive webhooks while the admin login is on" },
+        { status: 403 }
+      );
     }
 
     const body = (await request.json()) as TelegramUpdate;
-    const message = body.message;
-    if (!message?.chat?.id) {
+    if (!body.message?.chat?.id && !body.callback_query) {
       return json({ ok: true });
     }
 
-    const origin = getOrigin(request);
-    await processTelegramUpdate(body, token, origin);
+    await processTelegramUpdate(body, token);
     return json({ ok: true });
   } catch (e) {
     logApiError("/api/telegram/webhook", "POST", e);
@@ -0,0 +1,52 @@
+import { eq } from "drizzle-orm";
+import { json } from "../../_lib/response";
+import {
+  db,
+  workflowTriggers,
+  workflowTriggerEvents,
+  fromWorkflowTriggerRow,
+  toWorkflowTriggerRow,
+} from "../../_lib/db";
+import {
+  listWorkflowTriggerEvents,
+  parseWorkflowTriggerInput,
+  refreshWorkflowTriggers,
+} from "../../_lib/workflow-triggers";
+
+type Params = { params: Promise<{ id: string }> };
+
+export const runtime = "nodejs";
+
+/** Returns the trigger with its recent events. */
+export async function GET(_: Request, { params }: Params) {
+  const { id } = await params;
+  const rows = await db.select().from(workflowTriggers).where(eq(workflowTriggers.id, id));
+  if (rows.length === 0) return json({ error: "Not found" }, { status: 404 });
+  const events = await listWorkflowTriggerEvents({ triggerId: id });
+  return json({ ...fromWorkflowTriggerRow(rows[0]), events });
+}
+
+/** Updates a trigger. Body { regenerateToken: true } gives a webhook trigger a new URL. */
+export async function PATCH(request: Request, { params }: Params) {
+  const { id } = await params;
+  const rows = await db.select().from(workflowTriggers).where(eq(workflowTriggers.id, id));
+  if (rows.length === 0) return json({ error: "Not found" }, { status: 404 });
+  const body = await request.json().catch(() => ({}));
+  const updated = parseWorkflowTriggerInput(body, fromWorkflowTriggerRow(rows[0]));
+  if ("error" in updated) return json({ error: updated.error }, { status: 400 });
+  await db
+    .update(workflowTriggers)
+    .set(toWorkflowTriggerRow(updated))
+    .where(eq(workflowTriggers.id, id))
+    .run();
+  refreshWorkflowTriggers();
+  return json(updated);
+}
+
+export async function DELETE(_: Request, { params }: Params) {
+  const { id } = await params;
+  await db.delete(workflowTriggers).where(eq(workflowTriggers.id, id)).run();
+  await db.delete(workflowTriggerEvents).where(eq(workflowTriggerEvents.triggerId, id)).run();
+  refreshWorkflowTriggers();
+  return json({ message: "Deleted" });
+}
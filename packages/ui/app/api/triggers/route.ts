@@ -0,0 +1,30 @@
+import { eq } from "drizzle-orm";
+import { json } from "../_lib/response";
+import { db, workflowTriggers, fromWorkflowTriggerRow, toWorkflowTriggerRow } from "../_lib/db";
+import {
+  listWorkflowTriggerEvents,
+  parseWorkflowTriggerInput,
+  refreshWorkflowTriggers,
+} from "../_lib/workflow-triggers";
+
+export const runtime = "nodejs";
+
+/** Lists triggers and their recent events; ?workflowId= limits both to one workflow. */
+export async function GET(request: Request) {
+  const workflowId = new URL(request.url).searchParams.get("workflowId") ?? undefined;
+  const rows = await db
+    .select()
+    .from(workflowTriggers)
+    .where(workflowId ? eq(workflowTriggers.workflowId, workflowId) : undefined);
+  const events = await listWorkflowTriggerEvents({ workflowId });
+  return json({ triggers: rows.map(fromWorkflowTriggerRow), events });
+}
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => ({}));
+  const trigger = parseWorkflowTriggerInput(body);
+  if ("error" in trigger) return json({ error: trigger.error }, { status: 400 });
+  await db.insert(workflowTriggers).values(toWorkflowTriggerRow(trigger)).run();
+  refreshWorkflowTriggers();
+  return json(trigger, { status: 201 });
+}
@@ -1,14 +1,14 @@
 import { json } from "../../_lib/response";
-import { db, vaultMeta } from "../../_lib/db";
-import { eq } from "drizzle-orm";
-import { deriveVaultKey, encryptWithVaultKey, buildVaultCookieHeader } from "../../_lib/vault";
-import crypto from "node:crypto";
+import { buildVaultCookieHeader } from "../../_lib/vault";
+import { createVault } from "../../_lib/vault-keys";
 
 export const runtime = "nodejs";
 
-const VAULT_CHECK_PLAIN = "vault_ok";
-
-/** POST /api/vault/create — create vault with master password (first time only). Body: { masterPassword }. */
+/**
+ * POST /api/vault/create — create vault with master password (first time only).
+ * Body: { masterPassword, recoveryKey?: boolean }. With recoveryKey: true the response includes a
+ * recovery key; it is returned only this once.
+ */
 export async function POST(request: Request) {
   const body = await request.json().catch(() => ({}));
   const masterPassword = typeof body.masterPassword === "string" ? body.masterPassword : "";
@@ -16,28 +16,14 @@ export async function POST(request: Request) {
     return json({ error: "masterPassword required" }, { status: 400 });
   }
 
-  const existing = await db.select().from(vaultMeta).where(eq(vaultMeta.id, "default"));
-  if (existing.length > 0) {
+  const created = await createVault(masterPassword.trim(), body.recoveryKey === true);
+  if (!created) {
     return json({ error: "Vault already exists. Use unlock instead." }, { status: 400 });
   }
 
-  const salt = crypto.randomBytes(16).toString("base64url");
-  const key = deriveVaultKey(masterPassword.trim(), salt);
-  const check = encryptWithVaultKey(VAULT_CHECK_PLAIN, key);
-
-  await db
-    .insert(vaultMeta)
-    .values({
-      id: "default",
-      salt,
-      check,
-      createdAt: Date.now(),
-    })
-    .run();
-
-  const cookieHeader = buildVaultCookieHeader(key);
+  const cookieHeader = buildVaultCookieHeader(created.key);
   return json(
-    { ok: true },
+    { ok: true, ...(created.recoveryKey && { recoveryKey: created.recoveryKey }) },
     {
       headers: { "Set-Cookie": cookieHeader },
     }
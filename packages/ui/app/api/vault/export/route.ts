@@ -0,0 +1,33 @@
+import { json } from "../../_lib/response";
+import { getVaultKeyFromRequest } from "../../_lib/vault";
+import { exportVaultCredentials } from "../../_lib/vault-keys";
+import { logApiError } from "../../_lib/api-logger";
+
+export const runtime = "nodejs";
+
+/**
+ * POST /api/vault/export — download all credentials encrypted with a passphrase. Body: { passphrase }.
+ * Requires vault unlocked. Import the file on another machine with POST /api/vault/import; database
+ * backups from /api/backup/export hold credentials that only this vault's master password opens.
+ */
+export async function POST(request: Request) {
+  const vaultKey = getVaultKeyFromRequest(request);
+  if (!vaultKey) {
+    return json({ error: "Vault is locked. Unlock the vault first." }, { status: 403 });
+  }
+  const body = await request.json().catch(() => ({}));
+  const passphrase = typeof body.passphrase === "string" ? body.passphrase.trim() : "";
+  if (!passphrase) {
+    return json({ error: "passphrase required" }, { status: 400 });
+  }
+  try {
+    const file = await exportVaultCredentials(vaultKey, passphrase);
+    const filename = `agentron-vault-${new Date().toISOString().slice(0, 10)}.json`;
+    return json(file, {
+      headers: { "Content-Disposition": `attachment; filename="${filename}"` },
+    });
+  } catch (e) {
+    logApiError("/api/vault/export", "POST", e);
+    return json({ error: "Export failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,14 @@
+import { json } from "../../../_lib/response";
+import { revokeCredentialGrant } from "../../../_lib/credential-grants";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+/** DELETE /api/vault/grants/:id — revoke a grant. Works while the vault is locked. */
+export async function DELETE(_request: Request, { params }: Params) {
+  const { id } = await params;
+  const revoked = await revokeCredentialGrant(id);
+  if (!revoked) return json({ error: "Not found" }, { status: 404 });
+  return json({ ok: true });
+}
@@ -0,0 +1,76 @@
+import { eq } from "drizzle-orm";
+import { json } from "../../_lib/response";
+import { db, agents, workflows } from "../../_lib/db";
+import { getVaultKeyFromRequest, MachineSecretUnavailableError } from "../../_lib/vault";
+import {
+  CREDENTIAL_GRANT_TARGET_TYPES,
+  createCredentialGrant,
+  listCredentialGrants,
+  parseCredentialGrantInput,
+  VaultKeyStaleError,
+  type CredentialGrantTargetType,
+} from "../../_lib/credential-grants";
+
+export const runtime = "nodejs";
+
+/**
+ * GET /api/vault/grants — list credential grants (no values). Query: credentialKey?, targetType?,
+ * targetId?, includeRevoked=true for the audit trail.
+ */
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const targetType = url.searchParams.get("targetType") ?? undefined;
+  if (
+    targetType &&
+    !CREDENTIAL_GRANT_TARGET_TYPES.includes(targetType as CredentialGrantTargetType)
+  ) {
+    return json(
+      { error: `targetType must be one of ${CREDENTIAL_GRANT_TARGET_TYPES.join(", ")}` },
+      { status: 400 }
+    );
+  }
+  const grants = await listCredentialGrants({
+    credentialKey: url.searchParams.get("credentialKey") ?? undefined,
+    targetType: targetType as CredentialGrantTargetType | undefined,
+    targetId: url.searchParams.get("targetId") ?? undefined,
+    includeRevoked: url.searchParams.get("includeRevoked") === "true",
+  });
+  return json({ grants });
+}
+
+/**
+ * POST /api/vault/grants — let a workflow or agent use a credential in runs without an unlocked
+ * vault. Body: { credentialKey, targetType: "workflow" | "agent", targetId }. Requires vault unlocked;
+ * 423 when the unlocked key cannot decrypt the credential (vault locked or key stale); 503 when the
+ * server has no machine secret to seal grants with.
+ */
+export async function POST(request: Request) {
+  const vaultKey = getVaultKeyFromRequest(request);
+  if (!vaultKey) {
+    return json({ error: "Vault is locked. Unlock the vault first." }, { status: 403 });
+  }
+  const body = await request.json().catch(() => null);
+  const input = parseCredentialGrantInput(body);
+  if ("error" in input) return json({ error: input.error }, { status: 400 });
+
+  const table = input.targetType === "workflow" ? workflows : agents;
+  const target = await db.select({ id: table.id }).from(table).where(eq(table.id, input.targetId));
+  if (target.length === 0) {
+    return json(
+      { error: input.targetType === "workflow" ? "Workflow not found" : "Agent not found" },
+      { status: 404 }
+    );
+  }
+  let grant;
+  try {
+    grant = await createCredentialGrant(input, vaultKey);
+  } catch (e) {
+    if (e instanceof VaultKeyStaleError) return json({ error: e.message }, { status: 423 });
+    if (e instanceof MachineSecretUnavailableError) {
+      return json({ error: e.message }, { status: 503 });
+    }
+    throw e;
+  }
+  if (!grant) return json({ error: "Credential not found" }, { status: 404 });
+  return json(grant, { status: 201 });
+}
@@ -0,0 +1,40 @@
+import { json } from "../../_lib/response";
+import { getVaultKeyFromRequest } from "../../_lib/vault";
+import { setStoredCredential } from "../../_lib/credential-store";
+import { readVaultExport } from "../../_lib/vault-keys";
+
+export const runtime = "nodejs";
+
+/**
+ * POST /api/vault/import — import a file from POST /api/vault/export. Body: { passphrase, file }.
+ * Requires vault unlocked; credentials are re-encrypted with this vault's key and replace existing
+ * ones with the same key.
+ */
+export async function POST(request: Request) {
+  const vaultKey = getVaultKeyFromRequest(request);
+  if (!vaultKey) {
+    return json({ error: "Vault is locked. Unlock the vault first." }, { status: 403 });
+  }
+  const body = await request.json().catch(() => ({}));
+  const passphrase = typeof body.passphrase === "string" ? body.passphrase.trim() : "";
+  if (!passphrase) {
+    return json({ error: "passphrase required" }, { status: 400 });
+  }
+  const file = typeof body.file === "string" ? parseJson(body.file) : body.file;
+  const result = readVaultExport(file, passphrase);
+  if ("error" in result) {
+    return json({ error: result.error }, { status: 400 });
+  }
+  for (const { key, value } of result.entries) {
+    await setStoredCredential(key, value, true, vaultKey);
+  }
+  return json({ ok: true, imported: result.entries.length });
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
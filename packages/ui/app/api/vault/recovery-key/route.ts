@@ -0,0 +1,28 @@
+import { json } from "../../_lib/response";
+import { getVaultKeyFromRequest } from "../../_lib/vault";
+import { removeRecoveryKey, resetRecoveryKey } from "../../_lib/vault-keys";
+
+export const runtime = "nodejs";
+
+/**
+ * POST /api/vault/recovery-key — create a new recovery key, replacing any previous one. Requires vault
+ * unlocked. The key is returned only in this response.
+ */
+export async function POST(request: Request) {
+  const vaultKey = getVaultKeyFromRequest(request);
+  if (!vaultKey) {
+    return json({ error: "Vault is locked. Unlock the vault first." }, { status: 403 });
+  }
+  const recoveryKey = await resetRecoveryKey(vaultKey);
+  return json({ ok: true, recoveryKey });
+}
+
+/** DELETE /api/vault/recovery-key — remove the recovery key. Requires vault unlocked. */
+export async function DELETE(request: Request) {
+  const vaultKey = getVaultKeyFromRequest(request);
+  if (!vaultKey) {
+    return json({ error: "Vault is locked. Unlock the vault first." }, { status: 403 });
+  }
+  await removeRecoveryKey();
+  return json({ ok: true });
+}
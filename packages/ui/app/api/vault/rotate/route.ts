@@ -0,0 +1,59 @@
+import { json } from "../../_lib/response";
+import { buildVaultCookieHeader } from "../../_lib/vault";
+import {
+  getVaultMeta,
+  keyFromMasterPassword,
+  keyFromRecoveryKey,
+  rotateVaultPassword,
+} from "../../_lib/vault-keys";
+import { logApiError } from "../../_lib/api-logger";
+
+export const runtime = "nodejs";
+
+/**
+ * POST /api/vault/rotate — change the master password. Body: { currentPassword | recoveryKey, newPassword }.
+ * All saved credentials are re-encrypted with the new key; this session stays unlocked, other
+ * sessions must unlock again.
+ */
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => ({}));
+  const newPassword = typeof body.newPassword === "string" ? body.newPassword.trim() : "";
+  const currentPassword =
+    typeof body.currentPassword === "string" ? body.currentPassword.trim() : "";
+  const recoveryKey = typeof body.recoveryKey === "string" ? body.recoveryKey.trim() : "";
+  if (!newPassword) {
+    return json({ error: "newPassword required" }, { status: 400 });
+  }
+  if (!currentPassword && !recoveryKey) {
+    return json({ error: "currentPassword or recoveryKey required" }, { status: 400 });
+  }
+
+  const meta = await getVaultMeta();
+  if (!meta) {
+    return json({ error: "Vault does not exist. Create it first." }, { status: 400 });
+  }
+  if (!currentPassword && !meta.recoveryWrappedKey) {
+    return json({ error: "This vault has no recovery key." }, { status: 400 });
+  }
+
+  const currentKey = currentPassword
+    ? keyFromMasterPassword(meta, currentPassword)
+    : keyFromRecoveryKey(meta, recoveryKey);
+  if (!currentKey) {
+    return json(
+      { error: currentPassword ? "Invalid master password" : "Invalid recovery key" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const newKey = await rotateVaultPassword(meta, currentKey, newPassword);
+    return json({ ok: true }, { headers: { "Set-Cookie": buildVaultCookieHeader(newKey) } });
+  } catch (e) {
+    logApiError("/api/vault/rotate", "POST", e);
+    return json(
+      { error: "Could not re-encrypt the vault; the master password was not changed." },
+      { status: 500 }
+    );
+  }
+}
@@ -1,14 +1,15 @@
 import { json } from "../../_lib/response";
-import { db, vaultMeta } from "../../_lib/db";
-import { eq } from "drizzle-orm";
 import { getVaultKeyFromRequest } from "../../_lib/vault";
+import { getVaultMeta } from "../../_lib/vault-keys";
 
 export const runtime = "nodejs";
 
-/** GET /api/vault/status — returns { locked, vaultExists }. */
+/**
+ * GET /api/vault/status — returns { locked, vaultExists, hasRecoveryKey }. A session unlocked before
+ * the master password was changed holds the old key and counts as locked.
+ */
 export async function GET(request: Request) {
-  const rows = await db.select().from(vaultMeta).where(eq(vaultMeta.id, "default"));
-  const vaultExists = rows.length > 0;
-  const vaultKey = getVaultKeyFromRequest(request);
-  return json({ locked: vaultKey === null, vaultExists });
+  const meta = await getVaultMeta();
+  const locked = getVaultKeyFromRequest(request) === null;
+  return json({ locked, vaultExists: !!meta, hasRecoveryKey: !!meta?.recoveryWrappedKey });
 }
@@ -1,12 +1,9 @@
 import { json } from "../../_lib/response";
-import { db, vaultMeta } from "../../_lib/db";
-import { eq } from "drizzle-orm";
-import { deriveVaultKey, decryptWithVaultKey, buildVaultCookieHeader } from "../../_lib/vault";
+import { buildVaultCookieHeader } from "../../_lib/vault";
+import { getVaultMeta, keyFromMasterPassword } from "../../_lib/vault-keys";
 
 export const runtime = "nodejs";
 
-const VAULT_CHECK_PLAIN = "vault_ok";
-
 /** POST /api/vault/unlock — unlock vault with master password. Body: { masterPassword }. */
 export async function POST(request: Request) {
   const body = await request.json().catch(() => ({}));
@@ -15,20 +12,13 @@ export async function POST(request: Request) {
     return json({ error: "masterPassword required" }, { status: 400 });
   }
 
-  const rows = await db.select().from(vaultMeta).where(eq(vaultMeta.id, "default"));
-  if (rows.length === 0) {
+  const meta = await getVaultMeta();
+  if (!meta) {
     return json({ error: "Vault does not exist. Create it first." }, { status: 400 });
   }
 
-  const row = rows[0]!;
-  const key = deriveVaultKey(masterPassword.trim(), row.salt);
-  let verified: string;
-  try {
-    verified = decryptWithVaultKey(row.check, key);
-  } catch {
-    return json({ error: "Invalid master password" }, { status: 401 });
-  }
-  if (verified !== VAULT_CHECK_PLAIN) {
+  const key = keyFromMasterPassword(meta, masterPassword.trim());
+  if (!key) {
     return json({ error: "Invalid master password" }, { status: 401 });
   }
 
@@ -1,5 +1,14 @@
+import { formatWorkflowFieldErrors, validateWorkflowInputs } from "@agentron-studio/runtime";
 import { json } from "../../../_lib/response";
-import { db, executions, runLogs, toExecutionRow, fromExecutionRow } from "../../../_lib/db";
+import {
+  db,
+  executions,
+  runLogs,
+  workflows,
+  toExecutionRow,
+  fromExecutionRow,
+  fromWorkflowRow,
+} from "../../../_lib/db";
 import { executionOutputSuccess, executionOutputFailure } from "../../../_lib/db";
 import {
   runWorkflow,
@@ -17,12 +26,18 @@ type Params = { params: Promise<{ id: string }> };
 
 export const runtime = "nodejs";
 
-/** Starts a workflow run, executes it synchronously, and updates the run with output or error. Optional body: { maxSelfFixRetries?: number }. */
+/**
+ * Starts a workflow run, executes it synchronously, and updates the run with output or error.
+ * Optional body: { inputs?: object, maxSelfFixRetries?: number }. Inputs are checked against the
+ * workflow's inputSchema (defaults applied); invalid inputs return 400 with the failing fields.
+ */
 export async function POST(request: Request, { params }: Params) {
   const { id: workflowId } = await params;
   let maxSelfFixRetries: number | undefined;
+  let inputs: unknown;
   try {
     const body = await request.json().catch(() => ({}));
+    if (body && typeof body === "object") inputs = (body as { inputs?: unknown }).inputs;
     if (
       body &&
       typeof body === "object" &&
@@ -37,6 +52,22 @@ export async function POST(request: Request, { params }: Params) {
   if (maxSelfFixRetries === undefined) {
     maxSelfFixRetries = getAppSettings().workflowMaxSelfFixRetries;
   }
+  let runInputs: Record<string, unknown> | undefined;
+  const wfRows = await db.select().from(workflows).where(eq(workflows.id, workflowId));
+  if (wfRows.length > 0) {
+    const workflow = fromWorkflowRow(wfRows[0]);
+    const checked = validateWorkflowInputs(workflow.inputSchema, inputs);
+    if (checked.errors.length > 0) {
+      return json(
+        {
+          error: `Invalid inputs: ${formatWorkflowFieldErrors(checked.errors)}`,
+          fields: checked.errors,
+        },
+        { status: 400 }
+      );
+    }
+    if (Object.keys(checked.inputs).length > 0) runInputs = checked.inputs;
+  }
   const runId = crypto.randomUUID();
   const run = {
     id: runId,
@@ -63,7 +94,7 @@ export async function POST(request: Request, { params }: Params) {
   // #endregion
 
   try {
-    const jobId = await enqueueWorkflowStart({ runId, workflowId });
+    const jobId = await enqueueWorkflowStart({ runId, workflowId, runInputs });
     await waitForJob(jobId, { vaultKey: vaultKey ?? undefined });
     const updated = await db.select().from(executions).where(eq(executions.id, runId));
     return json(fromExecutionRow(updated[0]), { status: 200 });
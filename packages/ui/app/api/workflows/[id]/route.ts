@@ -1,6 +1,19 @@
+import {
+  validateWorkflowEdgeConditions,
+  validateWorkflowIO,
+  validateWorkflowSchedules,
+} from "@agentron-studio/runtime";
 import { json } from "../../_lib/response";
-import { db, workflows as workflowsTable, toWorkflowRow, fromWorkflowRow } from "../../_lib/db";
+import {
+  db,
+  workflows as workflowsTable,
+  workflowTriggers,
+  toWorkflowRow,
+  fromWorkflowRow,
+} from "../../_lib/db";
+import { loadLlmConfigIds } from "../../_lib/llm-manager";
 import { refreshScheduledWorkflows } from "../../_lib/scheduled-workflows";
+import { refreshWorkflowTriggers } from "../../_lib/workflow-triggers";
 import { eq } from "drizzle-orm";
 
 type Params = { params: Promise<{ id: string }> };
@@ -19,6 +32,23 @@ export async function GET(_: Request, { params }: Params) {
 export async function PUT(request: Request, { params }: Params) {
   const { id } = await params;
   const payload = await request.json();
+  const conditionErrors = validateWorkflowEdgeConditions(payload, {
+    llmConfigIds: await loadLlmConfigIds(),
+  });
+  if (conditionErrors.length > 0) {
+    return json(
+      { error: `Invalid edge condition: ${conditionErrors.join("; ")}` },
+      { status: 400 }
+    );
+  }
+  const scheduleErrors = validateWorkflowSchedules(payload);
+  if (scheduleErrors.length > 0) {
+    return json({ error: `Invalid schedule: ${scheduleErrors.join("; ")}` }, { status: 400 });
+  }
+  const ioErrors = validateWorkflowIO(payload);
+  if (ioErrors.length > 0) {
+    return json({ error: `Invalid inputs/outputs: ${ioErrors.join("; ")}` }, { status: 400 });
+  }
   const workflow = { ...payload, id };
   await db
     .update(workflowsTable)
@@ -32,6 +62,8 @@ export async function PUT(request: Request, { params }: Params) {
 export async function DELETE(_: Request, { params }: Params) {
   const { id } = await params;
   await db.delete(workflowsTable).where(eq(workflowsTable.id, id)).run();
+  await db.delete(workflowTriggers).where(eq(workflowTriggers.workflowId, id)).run();
   refreshScheduledWorkflows();
+  refreshWorkflowTriggers();
   return json({ ok: true });
 }
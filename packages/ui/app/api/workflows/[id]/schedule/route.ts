@@ -0,0 +1,60 @@
+import {
+  WorkflowScheduleError,
+  defaultTimeZone,
+  isValidTimeZone,
+  parseSchedule,
+  upcomingScheduleTimes,
+} from "@agentron-studio/runtime";
+import { json } from "../../../_lib/response";
+import { db, workflows as workflowsTable, fromWorkflowRow } from "../../../_lib/db";
+import { getWorkflowScheduleInfo } from "../../../_lib/scheduled-workflows";
+import { eq } from "drizzle-orm";
+
+type Params = { params: Promise<{ id: string }> };
+
+export const runtime = "nodejs";
+
+const MAX_PREVIEW_COUNT = 50;
+
+/**
+ * Schedules of a workflow (and its branches) with last/next run and the upcoming fire times.
+ * With ?schedule= (and optional &timezone=) previews that schedule instead, e.g. while editing.
+ * ?count= sets how many fire times to list (default 5).
+ */
+export async function GET(request: Request, { params }: Params) {
+  const { id } = await params;
+  const url = new URL(request.url);
+  const countParam = parseInt(url.searchParams.get("count") ?? "", 10);
+  const count = Number.isFinite(countParam)
+    ? Math.min(MAX_PREVIEW_COUNT, Math.max(1, countParam))
+    : 5;
+  const rows = await db.select().from(workflowsTable).where(eq(workflowsTable.id, id));
+  if (rows.length === 0) {
+    return json({ error: "Not found" }, { status: 404 });
+  }
+  const workflow = fromWorkflowRow(rows[0]);
+
+  const schedule = url.searchParams.get("schedule");
+  if (schedule != null) {
+    const timezone = url.searchParams.get("timezone") || workflow.timezone || defaultTimeZone();
+    if (!isValidTimeZone(timezone)) {
+      return json({ error: `Unknown timezone "${timezone}"` }, { status: 400 });
+    }
+    try {
+      const parsed = parseSchedule(schedule);
+      return json({
+        schedule: schedule.trim(),
+        type: parsed.type,
+        timezone,
+        upcoming: upcomingScheduleTimes(parsed, count, Date.now(), timezone),
+      });
+    } catch (err) {
+      if (err instanceof WorkflowScheduleError) {
+        return json({ error: err.message }, { status: 400 });
+      }
+      throw err;
+    }
+  }
+
+  return json({ schedules: await getWorkflowScheduleInfo(workflow, count) });
+}
@@ -1,6 +1,12 @@
+import {
+  validateWorkflowEdgeConditions,
+  validateWorkflowIO,
+  validateWorkflowSchedules,
+} from "@agentron-studio/runtime";
 import { json } from "../_lib/response";
 import { db, workflows as workflowsTable, toWorkflowRow, fromWorkflowRow } from "../_lib/db";
 import { randomWorkflowName } from "../_lib/naming";
+import { loadLlmConfigIds } from "../_lib/llm-manager";
 import { refreshScheduledWorkflows } from "../_lib/scheduled-workflows";
 
 export const runtime = "nodejs";
@@ -12,6 +18,23 @@ export async function GET() {
 
 export async function POST(request: Request) {
   const payload = await request.json();
+  const conditionErrors = validateWorkflowEdgeConditions(payload, {
+    llmConfigIds: await loadLlmConfigIds(),
+  });
+  if (conditionErrors.length > 0) {
+    return json(
+      { error: `Invalid edge condition: ${conditionErrors.join("; ")}` },
+      { status: 400 }
+    );
+  }
+  const scheduleErrors = validateWorkflowSchedules(payload);
+  if (scheduleErrors.length > 0) {
+    return json({ error: `Invalid schedule: ${scheduleErrors.join("; ")}` }, { status: 400 });
+  }
+  const ioErrors = validateWorkflowIO(payload);
+  if (ioErrors.length > 0) {
+    return json({ error: `Invalid inputs/outputs: ${ioErrors.join("; ")}` }, { status: 400 });
+  }
   const id = payload.id ?? crypto.randomUUID();
   const name = payload.name && String(payload.name).trim() ? payload.name : randomWorkflowName();
   const workflow = { ...payload, id, name };
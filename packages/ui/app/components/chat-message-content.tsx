@@ -681,6 +681,56 @@ export function ChatMessageResourceLinks({
   );
 }
 
+/** Numbered knowledge sources an answer cites as [n]; each links to the document or connector item. */
+export function ChatMessageCitations({
+  citations,
+}: {
+  citations?: {
+    index: number;
+    filename?: string;
+    url?: string;
+    headingPath?: string[];
+    chunkIndex?: number;
+    snippet?: string;
+  }[];
+}) {
+  if (!citations || citations.length === 0) return null;
+  return (
+    <div className="chat-message-resource-links" aria-label="Sources cited in this message">
+      <div className="chat-message-resource-links-inner">
+        <div className="chat-message-resource-links-group">
+          <div className="chat-message-resource-links-label">Sources</div>
+          {citations.map((c) => {
+            const label = [c.filename ?? "Document", c.headingPath?.join(" > ")]
+              .filter(Boolean)
+              .join(" › ");
+            return (
+              <div key={c.index} className="chat-message-citation" title={c.snippet}>
+                <span className="chat-message-citation-index">[{c.index}]</span>
+                {c.url ? (
+                  <a
+                    href={c.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="chat-message-resource-link"
+                  >
+                    {label} <ExternalLink size={11} />
+                  </a>
+                ) : (
+                  <span>{label}</span>
+                )}
+                {c.chunkIndex != null && (
+                  <span className="chat-message-citation-chunk">chunk {c.chunkIndex + 1}</span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
+
 function getToolResultDisplayText(result: unknown): string {
   if (result === null || result === undefined) return "done";
   if (typeof result === "object" && result !== null) {
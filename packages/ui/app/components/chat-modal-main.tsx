@@ -11,6 +11,8 @@ import {
   Sparkles,
   Bot,
   Network,
+  Paperclip,
+  X,
 } from "lucide-react";
 import { StyledSelect } from "./styled-select";
 import { getLoadingStatus } from "./chat-message-content";
@@ -22,7 +24,17 @@ import { ChatModalVaultBar } from "./chat-modal-vault-bar";
 import { ChatModalCredentialForm } from "./chat-modal-credential-form";
 import type { Message } from "./chat-types";
 
-export type LlmProvider = { id: string; provider: string; model: string; endpoint?: string };
+export type LlmProvider = {
+  id: string;
+  provider: string;
+  model: string;
+  endpoint?: string;
+  /** Whether the model accepts images (from /api/llm/providers). */
+  vision?: boolean;
+};
+
+/** A file uploaded to /api/files and sent with the next message. */
+export type ChatAttachment = { fileId: string; name: string; mimeType: string };
 
 export type ChatModalMainProps = {
   embedded: boolean;
@@ -93,6 +105,11 @@ export type ChatModalMainProps = {
   ) => void;
   setLoading: (v: boolean) => void;
   getMessageCopyText: (msg: Message) => string;
+  attachments: ChatAttachment[];
+  attachmentUploading: boolean;
+  attachmentError: string | null;
+  onAttachFiles: (files: FileList) => void;
+  onRemoveAttachment: (fileId: string) => void;
 };
 
 export function ChatModalMain(props: ChatModalMainProps) {
@@ -156,7 +173,15 @@ export function ChatModalMain(props: ChatModalMainProps) {
     setRunWaitingInCache,
     setLoading,
     getMessageCopyText,
+    attachments,
+    attachmentUploading,
+    attachmentError,
+    onAttachFiles,
+    onRemoveAttachment,
   } = props;
+  const selectedProvider = providers.find((p) => p.id === providerId);
+  const imageAttachedWithoutVision =
+    selectedProvider?.vision === false && attachments.some((a) => a.mimeType.startsWith("image/"));
 
   return (
     <div className={`chat-main ${embedded ? "chat-main-embedded" : ""}`}>
@@ -390,6 +415,29 @@ export function ChatModalMain(props: ChatModalMainProps) {
           to send messages.
         </div>
       )}
+      {attachments.length > 0 && (
+        <div className="chat-attachments">
+          {attachments.map((a) => (
+            <span key={a.fileId} className="chat-attachment-chip" title={a.name}>
+              {a.name}
+              <button
+                type="button"
+                onClick={() => onRemoveAttachment(a.fileId)}
+                aria-label={`Remove ${a.name}`}
+              >
+                <X size={12} />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      {attachmentError && <div className="chat-no-model-banner">{attachmentError}</div>}
+      {imageAttachedWithoutVision && (
+        <div className="chat-no-model-banner">
+          {selectedProvider?.model} cannot view images; attached images will not be sent to it. Pick
+          a vision-capable model to include them.
+        </div>
+      )}
       <div className="chat-input-bar">
         <div className="chat-input-field-wrap">
           <textarea
@@ -459,6 +507,23 @@ export function ChatModalMain(props: ChatModalMainProps) {
               variant="pill"
               iconOnly
             />
+            <label
+              className={`chat-feedback-trigger chat-attach-trigger${attachmentUploading ? " chat-attach-uploading" : ""}`}
+              title="Attach files"
+              aria-label="Attach files"
+            >
+              <Paperclip size={16} />
+              <input
+                type="file"
+                multiple
+                hidden
+                disabled={attachmentUploading}
+                onChange={(e) => {
+                  if (e.target.files?.length) onAttachFiles(e.target.files);
+                  e.target.value = "";
+                }}
+              />
+            </label>
             <button
               type="button"
               className="chat-feedback-trigger"
@@ -13,6 +13,7 @@ import {
 import {
   ChatMessageContent,
   ChatMessageResourceLinks,
+  ChatMessageCitations,
   ChatToolResults,
   getAgentRequestFromToolResults,
   getLoadingStatus,
@@ -288,6 +289,7 @@ export function ChatModalMessageRow({
                   content={displayState.displayContent}
                   structuredContent={displayState.structuredContent}
                 />
+                <ChatMessageCitations citations={msg.citations} />
                 {displayState.hasAskUserWaiting &&
                   isLastMessage &&
                   !loading &&
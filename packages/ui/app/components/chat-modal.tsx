@@ -39,11 +39,17 @@ import {
 } from "../lib/chat-state-cache";
 import { getDraft, setDraft } from "../lib/chat-drafts";
 import { randomId, getUiContext, getMessageCopyText } from "./chat-modal-utils";
-import { ChatModalMain } from "./chat-modal-main";
+import { ChatModalMain, type ChatAttachment } from "./chat-modal-main";
 import { ChatModalConversationsPanel } from "./chat-modal-conversations-panel";
 import type { Message, ToolResult, InteractivePrompt } from "./chat-types";
 
-type LlmProvider = { id: string; provider: string; model: string; endpoint?: string };
+type LlmProvider = {
+  id: string;
+  provider: string;
+  model: string;
+  endpoint?: string;
+  vision?: boolean;
+};
 
 type ConversationItem = {
   id: string;
@@ -104,6 +110,9 @@ export default function ChatModal({
   const [copiedMsgId, setCopiedMsgId] = useState<string | null>(null);
   const [providers, setProviders] = useState<LlmProvider[]>([]);
   const [providerId, setProviderId] = useState<string>("");
+  const [attachments, setAttachments] = useState<ChatAttachment[]>([]);
+  const [attachmentUploading, setAttachmentUploading] = useState(false);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
   const [chatMode, setChatMode] = useState<"traditional" | "heap">("traditional");
   const [credentialInput, setCredentialInput] = useState("");
   const [credentialSave, setCredentialSave] = useState(false);
@@ -379,6 +388,9 @@ export default function ChatModal({
               ...(m.interactivePrompt != null && {
                 interactivePrompt: m.interactivePrompt as InteractivePrompt,
               }),
+              ...(Array.isArray(m.citations) && {
+                citations: m.citations as Message["citations"],
+              }),
             } as Message;
           });
           const currentCount = latestMessageCountRef.current;
@@ -419,6 +431,9 @@ export default function ChatModal({
             ...(m.interactivePrompt != null && {
               interactivePrompt: m.interactivePrompt as InteractivePrompt,
             }),
+            ...(Array.isArray(m.citations) && {
+              citations: m.citations as Message["citations"],
+            }),
           } as Message;
         });
         setMessages(msgs);
@@ -830,6 +845,41 @@ export default function ChatModal({
     abortRef.current?.abort();
   }, []);
 
+  /** Upload files to /api/files; they are sent by id with the next message. */
+  const handleAttachFiles = useCallback(async (fileList: FileList) => {
+    setAttachmentUploading(true);
+    setAttachmentError(null);
+    try {
+      for (const file of Array.from(fileList)) {
+        const form = new FormData();
+        form.append("file", file);
+        const res = await fetch("/api/files", { method: "POST", body: form });
+        const data = (await res.json().catch(() => ({}))) as {
+          id?: string;
+          name?: string;
+          mimeType?: string;
+          error?: string;
+        };
+        if (!res.ok || !data.id) {
+          setAttachmentError(data.error ?? `Could not upload ${file.name}`);
+          continue;
+        }
+        const uploaded: ChatAttachment = {
+          fileId: data.id,
+          name: data.name ?? file.name,
+          mimeType: data.mimeType ?? file.type,
+        };
+        setAttachments((prev) => [...prev, uploaded]);
+      }
+    } finally {
+      setAttachmentUploading(false);
+    }
+  }, []);
+
+  const handleRemoveAttachment = useCallback((fileId: string) => {
+    setAttachments((prev) => prev.filter((a) => a.fileId !== fileId));
+  }, []);
+
   const send = async (
     payload?: unknown,
     optionValue?: string,
@@ -903,6 +953,10 @@ export default function ChatModal({
         body.attachedContext = attachedContext;
         clearAttachedContext?.();
       }
+      if (attachments.length > 0 && !isCredentialReply) {
+        body.attachments = attachments.map((a) => ({ fileId: a.fileId }));
+        setAttachments([]);
+      }
       body.useHeapMode = chatMode === "heap";
       return body;
     };
@@ -967,6 +1021,9 @@ export default function ChatModal({
                   ...(m.interactivePrompt != null && {
                     interactivePrompt: m.interactivePrompt as InteractivePrompt,
                   }),
+                  ...(Array.isArray(m.citations) && {
+                    citations: m.citations as Message["citations"],
+                  }),
                 } as Message;
               });
               setMessages(msgs);
@@ -1175,6 +1232,11 @@ export default function ChatModal({
       setRunWaitingInCache={setRunWaitingInCache}
       setLoading={setLoading}
       getMessageCopyText={getMessageCopyText}
+      attachments={attachments}
+      attachmentUploading={attachmentUploading}
+      attachmentError={attachmentError}
+      onAttachFiles={(files) => void handleAttachFiles(files)}
+      onRemoveAttachment={handleRemoveAttachment}
     />
   );
 
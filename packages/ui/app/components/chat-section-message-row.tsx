@@ -15,6 +15,7 @@ import {
 import {
   ChatMessageContent,
   ChatMessageResourceLinks,
+  ChatMessageCitations,
   ChatToolResults,
   getAgentRequestFromToolResults,
   getLoadingStatus,
@@ -332,6 +333,7 @@ export function ChatSectionMessageRow({
                   content={displayState.displayContent}
                   structuredContent={displayState.structuredContent}
                 />
+                <ChatMessageCitations citations={msg.citations} />
                 {(() => {
                   const wouldShowOptions = displayState.hasAskUserWaiting && isLast && !loading;
                   if (!wouldShowOptions) return null;
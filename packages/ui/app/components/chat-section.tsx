@@ -422,6 +422,9 @@ export default function ChatSection({ onOpenSettings }: Props) {
                         ...(m.completedStepIndices != null && {
                           completedStepIndices: m.completedStepIndices as number[],
                         }),
+                        ...(Array.isArray(m.citations) && {
+                          citations: m.citations as Message["citations"],
+                        }),
                       } as Message;
                     });
                     setMessages((prev) => {
@@ -630,6 +633,9 @@ export default function ChatSection({ onOpenSettings }: Props) {
               ...(m.completedStepIndices != null && {
                 completedStepIndices: m.completedStepIndices as number[],
               }),
+              ...(Array.isArray(m.citations) && {
+                citations: m.citations as Message["citations"],
+              }),
             } as Message;
           });
           // Prefer API when it has at least as many messages as we had at restore; do not overwrite when we have more messages locally (in-progress or just-finished turn)
@@ -715,6 +721,9 @@ export default function ChatSection({ onOpenSettings }: Props) {
             ...(m.completedStepIndices != null && {
               completedStepIndices: m.completedStepIndices as number[],
             }),
+            ...(Array.isArray(m.citations) && {
+              citations: m.citations as Message["citations"],
+            }),
           } as Message;
         });
         let applied = false;
@@ -1097,6 +1106,9 @@ export default function ChatSection({ onOpenSettings }: Props) {
                     ...(m.completedStepIndices != null && {
                       completedStepIndices: m.completedStepIndices as number[],
                     }),
+                    ...(Array.isArray(m.citations) && {
+                      citations: m.citations as Message["citations"],
+                    }),
                   } as Message;
                 });
                 setMessages((prev) => {
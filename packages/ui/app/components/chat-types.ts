@@ -1,5 +1,7 @@
 /** Shared chat message types used by chat-modal and chat-section. */
 
+import type { ChatStreamCitation } from "../api/chat/types";
+
 export type ToolResult = { name: string; args: Record<string, unknown>; result: unknown };
 
 export type TraceStep = {
@@ -42,6 +44,8 @@ export type Message = {
   executingSubStepLabel?: string;
   /** Rephrased user intent for this turn (shown so user can assess) */
   rephrasedPrompt?: string | null;
+  /** Knowledge sources the answer cites as [n]. */
+  citations?: ChatStreamCitation[];
   /** Live trace steps during thinking (e.g. "Rephrasing…", "Calling LLM…") */
   traceSteps?: TraceStep[];
 };
@@ -336,7 +336,9 @@ const sections: NavSection[] = [
     title: "Settings",
     items: [
       { label: "Vault", href: "/settings/vault", icon: icons.vault },
+      { label: "Access", href: "/settings/access", icon: icons.vault },
       { label: "LLM setup", href: "/settings/llm", icon: icons.llm },
+      { label: "Budgets", href: "/settings/budgets", icon: icons.stats },
       { label: "Telegram", href: "/settings/telegram", icon: icons.telegram },
       { label: "GitHub", href: "/settings/github", icon: icons.github },
       { label: "Container Engine", href: "/settings/container", icon: icons.container },
@@ -374,7 +376,10 @@ export default function Sidebar() {
         const res = await fetch("/api/rate-limit/queue");
         if (res.ok) {
           const data = await res.json();
-          setPendingCount(Array.isArray(data.pending) ? data.pending.length : 0);
+          setPendingCount(
+            (Array.isArray(data.pending) ? data.pending.length : 0) +
+              (Array.isArray(data.retrying) ? data.retrying.length : 0)
+          );
         }
       } catch {
         // ignore
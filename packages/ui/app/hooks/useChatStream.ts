@@ -2,7 +2,7 @@
 
 import { useCallback, useRef } from "react";
 import { flushSync } from "react-dom";
-import type { ChatStreamEvent } from "../api/chat/types";
+import type { ChatStreamCitation, ChatStreamEvent } from "../api/chat/types";
 import { dispatchNotificationsUpdated } from "../lib/notifications-events";
 
 export type ChatStreamMessage = {
@@ -25,6 +25,7 @@ export type ChatStreamMessage = {
   executingTodoLabel?: string;
   executingSubStepLabel?: string;
   rephrasedPrompt?: string | null;
+  citations?: ChatStreamCitation[];
   traceSteps?: {
     phase: string;
     label?: string;
@@ -252,6 +253,7 @@ export function processChatStreamEvent(
         executingTodoLabel: undefined,
         executingSubStepLabel: undefined,
         ...(event.rephrasedPrompt !== undefined && { rephrasedPrompt: event.rephrasedPrompt }),
+        ...(event.citations !== undefined && { citations: event.citations }),
       },
       true
     );
@@ -14,6 +14,7 @@ export const CONNECTOR_TYPES_SYNC_IMPLEMENTED = new Set([
   "confluence",
   "gitbook",
   "bookstack",
+  "mcp",
 ]);
 
 export type ConnectorTypeId =
@@ -24,6 +25,7 @@ export type ConnectorTypeId =
   | "confluence"
   | "gitbook"
   | "bookstack"
+  | "mcp"
   | "obsidian_vault"
   | "logseq_graph"
   | "roam"
@@ -97,6 +99,13 @@ export const CONNECTOR_TYPES: ConnectorTypeMeta[] = [
     description: "Sync books and pages from BookStack wiki",
     syncImplemented: true,
   },
+  {
+    id: "mcp",
+    label: "MCP server",
+    logoPath: `${BASE}/mcp.svg`,
+    description: "Sync resources from an MCP server",
+    syncImplemented: true,
+  },
   {
     id: "obsidian_vault",
     label: "Obsidian",
@@ -71,9 +71,13 @@ type Collection = {
   encodingConfigId: string;
   documentStoreId: string;
   vectorStoreId?: string;
+  retrievalMode?: "vector" | "keyword" | "hybrid";
+  chunking?: { strategy: ChunkingStrategy };
   createdAt: number;
 };
 
+type ChunkingStrategy = "fixed" | "token" | "markdown" | "code" | "sentence";
+
 type Connector = {
   id: string;
   type: string;
@@ -103,6 +107,7 @@ const TEXT_BASED_CONNECTOR_TYPES = new Set([
   "confluence",
   "gitbook",
   "bookstack",
+  "mcp",
 ]);
 
 function StudioDocumentsList({
@@ -273,6 +278,10 @@ export default function KnowledgePage() {
   const [collEncodingId, setCollEncodingId] = useState("");
   const [collStoreId, setCollStoreId] = useState("");
   const [collVectorStoreId, setCollVectorStoreId] = useState<string>("");
+  const [collRetrievalMode, setCollRetrievalMode] = useState<"vector" | "keyword" | "hybrid">(
+    "vector"
+  );
+  const [collChunking, setCollChunking] = useState<ChunkingStrategy | "">("");
   const [savingColl, setSavingColl] = useState(false);
 
   const [vecStoreName, setVecStoreName] = useState("");
@@ -289,6 +298,7 @@ export default function KnowledgePage() {
   const [connectorIngestAfterSync, setConnectorIngestAfterSync] = useState(true);
   const [connectorAccessTokenRef, setConnectorAccessTokenRef] = useState("");
   const [connectorBaseUrl, setConnectorBaseUrl] = useState("");
+  const [connectorMcpServer, setConnectorMcpServer] = useState("");
   const [connectorTokenId, setConnectorTokenId] = useState("");
   const [connectorTokenSecret, setConnectorTokenSecret] = useState("");
   const [savingConnector, setSavingConnector] = useState(false);
@@ -543,6 +553,13 @@ export default function KnowledgePage() {
         tokenId: connectorTokenId || undefined,
         tokenSecret: connectorTokenSecret || undefined,
       };
+    } else if (connectorType === "mcp") {
+      // An endpoint URL, or a command line started as a stdio server.
+      const server = connectorMcpServer.trim();
+      const [command, ...args] = server.split(/\s+/);
+      base = {
+        server: /^https?:\/\//i.test(server) ? server : { transport: "stdio", command, args },
+      };
     }
     return { ...base, ingestAfterSync: connectorIngestAfterSync };
   };
@@ -568,6 +585,7 @@ export default function KnowledgePage() {
       setConnectorPath("");
       setConnectorAccessTokenRef("");
       setConnectorBaseUrl("");
+      setConnectorMcpServer("");
       setConnectorTokenId("");
       setConnectorTokenSecret("");
       setShowConnectorForm(false);
@@ -625,6 +643,8 @@ export default function KnowledgePage() {
           encodingConfigId: collEncodingId,
           documentStoreId: collStoreId,
           vectorStoreId: collVectorStoreId || null,
+          retrievalMode: collRetrievalMode,
+          chunking: collChunking ? { strategy: collChunking } : null,
         }),
       });
       await loadAll();
@@ -632,6 +652,8 @@ export default function KnowledgePage() {
       setCollEncodingId("");
       setCollStoreId("");
       setCollVectorStoreId("");
+      setCollRetrievalMode("vector");
+      setCollChunking("");
       setShowCollectionForm(false);
     } finally {
       setSavingColl(false);
@@ -1074,6 +1096,18 @@ export default function KnowledgePage() {
                         />
                       </div>
                     )}
+                    {connectorType === "mcp" && (
+                      <div className="field">
+                        <label>MCP server (endpoint URL or command)</label>
+                        <input
+                          className="input"
+                          value={connectorMcpServer}
+                          onChange={(e) => setConnectorMcpServer(e.target.value)}
+                          placeholder="https://mcp.example.com/mcp or npx -y @modelcontextprotocol/server-filesystem /docs"
+                          required
+                        />
+                      </div>
+                    )}
                     {connectorType === "confluence" && (
                       <div className="field">
                         <label>Access token (env var name)</label>
@@ -1557,6 +1591,41 @@ export default function KnowledgePage() {
                         Bundled stores vectors in the app. Choose an external store for scale.
                       </span>
                     </div>
+                    <div className="field">
+                      <label>Retrieval</label>
+                      <select
+                        className="select"
+                        value={collRetrievalMode}
+                        onChange={(e) =>
+                          setCollRetrievalMode(e.target.value as "vector" | "keyword" | "hybrid")
+                        }
+                      >
+                        <option value="vector">Vector (semantic)</option>
+                        <option value="keyword">Keyword (BM25)</option>
+                        <option value="hybrid">Hybrid (vector + keyword)</option>
+                      </select>
+                      <span style={{ fontSize: "0.75rem", color: "var(--text-muted)" }}>
+                        Keyword and hybrid find exact identifiers, error codes and product names.
+                      </span>
+                    </div>
+                    <div className="field">
+                      <label>Chunking</label>
+                      <select
+                        className="select"
+                        value={collChunking}
+                        onChange={(e) => setCollChunking(e.target.value as ChunkingStrategy | "")}
+                      >
+                        <option value="">Default (encoding config or 500 characters)</option>
+                        <option value="fixed">Fixed (characters)</option>
+                        <option value="token">Tokens (embedding model)</option>
+                        <option value="markdown">Markdown (by heading)</option>
+                        <option value="code">Code (by function and class)</option>
+                        <option value="sentence">Sentences</option>
+                      </select>
+                      <span style={{ fontSize: "0.75rem", color: "var(--text-muted)" }}>
+                        Markdown and code keep sections, code blocks and definitions together.
+                      </span>
+                    </div>
                     <button type="submit" className="button button-primary" disabled={savingColl}>
                       {savingColl ? "Saving..." : "Create"}
                     </button>
@@ -1577,6 +1646,10 @@ export default function KnowledgePage() {
                       <span>
                         <strong>{c.name}</strong> — {c.scope}
                         {c.scope === "agent" && c.agentId ? ` (agent ${c.agentId})` : ""}
+                        {c.retrievalMode && c.retrievalMode !== "vector"
+                          ? ` · ${c.retrievalMode}`
+                          : ""}
+                        {c.chunking ? ` · ${c.chunking.strategy} chunks` : ""}
                       </span>
                       <button
                         type="button"
@@ -0,0 +1,103 @@
+"use client";
+
+import { Suspense, useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { ShieldCheck } from "lucide-react";
+
+/** Only same-app paths are followed after login. */
+function safeNext(next: string | null): string {
+  return next && next.startsWith("/") && !next.startsWith("//") ? next : "/";
+}
+
+function LoginForm() {
+  const router = useRouter();
+  const next = safeNext(useSearchParams().get("next"));
+  const [password, setPassword] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/auth/status", { credentials: "include" })
+      .then((r) => r.json())
+      .then((data: { enabled: boolean; authenticated: boolean }) => {
+        if (!data.enabled || data.authenticated) router.replace(next);
+      })
+      .catch(() => {});
+  }, [router, next]);
+
+  const handleLogin = async () => {
+    if (!password) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/auth/login", {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ password }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error ?? "Login failed");
+        return;
+      }
+      window.location.href = next;
+    } catch {
+      setError("Request failed");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="card" style={{ padding: "1.25rem", maxWidth: 380, margin: "10vh auto 0" }}>
+      <div
+        style={{
+          fontSize: "1rem",
+          fontWeight: 600,
+          marginBottom: "0.5rem",
+          display: "flex",
+          alignItems: "center",
+          gap: "0.4rem",
+        }}
+      >
+        <ShieldCheck size={18} /> Log in
+      </div>
+      <p style={{ fontSize: "0.82rem", color: "var(--text-muted)", margin: "0 0 0.75rem" }}>
+        This Agentron server requires the admin password.
+      </p>
+      <div className="form-group">
+        <input
+          type="password"
+          className="input"
+          placeholder="Admin password"
+          value={password}
+          autoFocus
+          onChange={(e) => {
+            setPassword(e.target.value);
+            setError(null);
+          }}
+          onKeyDown={(e) => e.key === "Enter" && handleLogin()}
+          aria-label="Admin password"
+        />
+        <button
+          type="button"
+          className="button"
+          disabled={loading || !password}
+          onClick={handleLogin}
+        >
+          {loading ? "…" : "Log in"}
+        </button>
+        {error && <span style={{ fontSize: "0.82rem", color: "#dc2626" }}>{error}</span>}
+      </div>
+    </div>
+  );
+}
+
+export default function LoginPage() {
+  return (
+    <Suspense>
+      <LoginForm />
+    </Suspense>
+  );
+}
@@ -13,6 +13,7 @@ import {
   ChevronRight,
   Copy,
   Check,
+  Zap,
 } from "lucide-react";
 import RequestQueueSection from "./request-queue-section";
 import { getStepsTokenTotals } from "./_lib/get-steps-token-totals";
@@ -30,6 +31,19 @@ type WorkflowQueueJob = {
   createdAt: number;
 };
 
+type TriggerEvent = {
+  id: string;
+  triggerId: string;
+  triggerName?: string;
+  workflowId: string;
+  source: string;
+  status: string;
+  jobId?: string;
+  runId?: string;
+  error?: string;
+  createdAt: number;
+};
+
 type ChatTraceEntry = {
   conversationId: string;
   messageId: string;
@@ -57,11 +71,21 @@ type QueuesData = {
     status: { queued: number; running: number; concurrency: number };
     jobs: WorkflowQueueJob[];
   };
+  triggerEvents?: TriggerEvent[];
   conversationLocks: Array<{ conversationId: string; startedAt: number; createdAt: number }>;
   activeChatTraces?: ChatTraceEntry[];
   messageQueueLog?: Array<{ conversationId: string; steps: MessageQueueLogEntry[] }>;
 };
 
+/** True when a workflow trigger (webhook or event) queued the job. */
+function isTriggeredJob(job: WorkflowQueueJob): boolean {
+  try {
+    return typeof (JSON.parse(job.payload) as { triggerId?: unknown }).triggerId === "string";
+  } catch {
+    return false;
+  }
+}
+
 function JobStatusBadge({ status }: { status: string }) {
   if (status === "running") {
     return (
@@ -879,6 +903,7 @@ export default function QueuesPage() {
   }
 
   const wq = data?.workflowQueue ?? { status: { queued: 0, running: 0, concurrency: 2 }, jobs: [] };
+  const triggerEvents = data?.triggerEvents ?? [];
   const locks = data?.conversationLocks ?? [];
   const activeChatTraces = data?.activeChatTraces ?? [];
   const messageQueueLog = data?.messageQueueLog ?? [];
@@ -1023,7 +1048,12 @@ export default function QueuesPage() {
                     <td style={{ padding: "0.5rem 0.75rem" }}>
                       <JobStatusBadge status={job.status} />
                     </td>
-                    <td style={{ padding: "0.5rem 0.75rem" }}>{job.type}</td>
+                    <td style={{ padding: "0.5rem 0.75rem" }}>
+                      {job.type}
+                      {isTriggeredJob(job) && (
+                        <span style={{ color: "var(--text-muted)" }}> (trigger)</span>
+                      )}
+                    </td>
                     <td style={{ padding: "0.5rem 0.75rem" }}>
                       {job.runId ? (
                         <Link href={`/runs/${job.runId}`} style={{ color: "var(--link)" }}>
@@ -1064,6 +1094,96 @@ export default function QueuesPage() {
         )}
       </section>
 
+      <section style={{ marginBottom: "2rem" }}>
+        <h2
+          style={{
+            fontSize: "1.1rem",
+            margin: "0 0 0.75rem",
+            display: "flex",
+            alignItems: "center",
+            gap: "0.5rem",
+          }}
+        >
+          <Zap size={18} />
+          Trigger events
+        </h2>
+        <p style={{ color: "var(--text-muted)", fontSize: "0.9rem", marginBottom: "0.75rem" }}>
+          Webhooks and local events that fired a workflow trigger, and the run each one queued.
+          Manage triggers on a workflow&apos;s Triggers tab.
+        </p>
+        {triggerEvents.length === 0 ? (
+          <p style={{ color: "var(--text-muted)", fontSize: "0.9rem" }}>No trigger events yet.</p>
+        ) : (
+          <div style={{ overflowX: "auto" }}>
+            <table style={{ width: "100%", borderCollapse: "collapse", fontSize: "0.9rem" }}>
+              <thead>
+                <tr style={{ borderBottom: "1px solid var(--border)", textAlign: "left" }}>
+                  <th style={{ padding: "0.5rem 0.75rem" }}>Status</th>
+                  <th style={{ padding: "0.5rem 0.75rem" }}>Trigger</th>
+                  <th style={{ padding: "0.5rem 0.75rem" }}>Source</th>
+                  <th style={{ padding: "0.5rem 0.75rem" }}>Run</th>
+                  <th style={{ padding: "0.5rem 0.75rem" }}>Fired / Error</th>
+                </tr>
+              </thead>
+              <tbody>
+                {triggerEvents.map((e) => (
+                  <tr key={e.id} style={{ borderBottom: "1px solid var(--border)" }}>
+                    <td style={{ padding: "0.5rem 0.75rem" }}>
+                      <JobStatusBadge status={e.status} />
+                    </td>
+                    <td style={{ padding: "0.5rem 0.75rem" }}>
+                      <Link href={`/workflows/${e.workflowId}`} style={{ color: "var(--link)" }}>
+                        {e.triggerName ?? e.triggerId.slice(0, 8)}
+                      </Link>
+                    </td>
+                    <td
+                      style={{
+                        padding: "0.5rem 0.75rem",
+                        color: "var(--text-muted)",
+                        maxWidth: 260,
+                        overflow: "hidden",
+                        textOverflow: "ellipsis",
+                        whiteSpace: "nowrap",
+                      }}
+                      title={e.source}
+                    >
+                      {e.source}
+                    </td>
+                    <td style={{ padding: "0.5rem 0.75rem" }}>
+                      {e.runId ? (
+                        <Link href={`/runs/${e.runId}`} style={{ color: "var(--link)" }}>
+                          {e.runId.slice(0, 8)}…
+                        </Link>
+                      ) : (
+                        <span style={{ color: "var(--text-muted)" }}>—</span>
+                      )}
+                    </td>
+                    <td
+                      style={{
+                        padding: "0.5rem 0.75rem",
+                        color: "var(--text-muted)",
+                        maxWidth: 200,
+                      }}
+                    >
+                      {formatTs(e.createdAt)}
+                      {e.error ? (
+                        <span
+                          className="run-status run-status-failed"
+                          style={{ display: "block", marginTop: "0.25rem", fontSize: "0.8rem" }}
+                        >
+                          {e.error.slice(0, 80)}
+                          {e.error.length > 80 ? "…" : ""}
+                        </span>
+                      ) : null}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
       <section>
         <div
           style={{
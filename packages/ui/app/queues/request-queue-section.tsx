@@ -15,6 +15,7 @@ export type PendingEntry = {
   key: string;
   context: LLMRequestContext;
   addedAt: number;
+  reason?: string;
 };
 
 export type DelayedEntry = {
@@ -25,11 +26,56 @@ export type DelayedEntry = {
   waitedMs: number;
 };
 
+export type RetryingEntry = {
+  id: string;
+  key: string;
+  context: LLMRequestContext;
+  attempt: number;
+  maxRetries: number;
+  status?: number;
+  error: string;
+  addedAt: number;
+  retryAt: number;
+};
+
+export type RejectedEntry = {
+  key: string;
+  context: LLMRequestContext;
+  error: string;
+  rejectedAt: number;
+};
+
+export type QuotaEntry = {
+  llmConfigId: string;
+  provider: string;
+  model: string;
+  tokensToday: number;
+  tokensThisMonth: number;
+  tokensPerDay?: number;
+  tokensPerMonth?: number;
+};
+
 export type RequestQueueData = {
   pending: PendingEntry[];
+  retrying: RetryingEntry[];
   recentDelayed: DelayedEntry[];
+  recentRejected: RejectedEntry[];
+  quotas: QuotaEntry[];
 };
 
+const EMPTY_QUEUE: RequestQueueData = {
+  pending: [],
+  retrying: [],
+  recentDelayed: [],
+  recentRejected: [],
+  quotas: [],
+};
+
+function formatQuota(used: number, limit?: number): string | null {
+  if (limit == null) return null;
+  return `${used.toLocaleString()} / ${limit.toLocaleString()} tokens`;
+}
+
 export type AggregateBy = "none" | "source" | "workflow" | "agent";
 
 export function formatRequestQueueTs(ts: number): string {
@@ -98,13 +144,16 @@ export default function RequestQueueSection() {
           const json = await res.json();
           setData({
             pending: Array.isArray(json.pending) ? json.pending : [],
+            retrying: Array.isArray(json.retrying) ? json.retrying : [],
             recentDelayed: Array.isArray(json.recentDelayed) ? json.recentDelayed : [],
+            recentRejected: Array.isArray(json.recentRejected) ? json.recentRejected : [],
+            quotas: Array.isArray(json.quotas) ? json.quotas : [],
           });
         } else {
-          setData({ pending: [], recentDelayed: [] });
+          setData(EMPTY_QUEUE);
         }
       } catch {
-        setData({ pending: [], recentDelayed: [] });
+        setData(EMPTY_QUEUE);
       } finally {
         setLoading(false);
       }
@@ -121,6 +170,9 @@ export default function RequestQueueSection() {
   }
 
   const pending = data?.pending ?? [];
+  const retrying = data?.retrying ?? [];
+  const recentRejected = data?.recentRejected ?? [];
+  const quotas = data?.quotas ?? [];
   const recentDelayed = data?.recentDelayed ?? [];
   const pendingGrouped = groupPending(pending, aggregateBy);
   const delayedGrouped = groupDelayed(recentDelayed, aggregateBy);
@@ -129,8 +181,8 @@ export default function RequestQueueSection() {
     <div style={{ maxWidth: 900 }}>
       <h1 style={{ margin: "0 0 0.25rem" }}>Request queue</h1>
       <p style={{ fontSize: "0.82rem", color: "var(--text-muted)", margin: "0 0 1rem" }}>
-        LLM requests waiting due to rate limiting, and recently delayed requests. Data updates every
-        2 seconds.
+        LLM requests waiting due to rate limits, concurrency caps or token quotas, retries after
+        failed calls, and recently delayed or rejected requests. Data updates every 2 seconds.
       </p>
 
       <div
@@ -161,6 +213,94 @@ export default function RequestQueueSection() {
         ))}
       </div>
 
+      {quotas.length > 0 && (
+        <section className="card" style={{ padding: "1rem", marginBottom: "1.5rem" }}>
+          <h2 style={{ fontSize: "0.95rem", margin: "0 0 0.5rem" }}>Token quotas</h2>
+          <p style={{ fontSize: "0.8rem", color: "var(--text-muted)", margin: "0 0 0.75rem" }}>
+            Tokens used per LLM provider in the current UTC day and month.
+          </p>
+          <ul style={{ listStyle: "none", padding: 0, margin: 0 }}>
+            {quotas.map((q) => {
+              const over =
+                (q.tokensPerDay != null && q.tokensToday >= q.tokensPerDay) ||
+                (q.tokensPerMonth != null && q.tokensThisMonth >= q.tokensPerMonth);
+              return (
+                <li
+                  key={q.llmConfigId}
+                  style={{
+                    padding: "0.5rem 0.6rem",
+                    borderRadius: 6,
+                    background: "var(--surface-muted)",
+                    marginBottom: "0.35rem",
+                    fontSize: "0.85rem",
+                  }}
+                >
+                  <span>
+                    {q.provider} · {q.model}
+                  </span>
+                  {[
+                    ["today", formatQuota(q.tokensToday, q.tokensPerDay)],
+                    ["this month", formatQuota(q.tokensThisMonth, q.tokensPerMonth)],
+                  ]
+                    .filter(([, text]) => text != null)
+                    .map(([label, text]) => (
+                      <span
+                        key={label}
+                        style={{
+                          marginLeft: "0.75rem",
+                          color: over ? "var(--resource-red)" : "var(--text-muted)",
+                        }}
+                      >
+                        {label}: {text}
+                      </span>
+                    ))}
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+      )}
+
+      {recentRejected.length > 0 && (
+        <section className="card" style={{ padding: "1rem", marginBottom: "1.5rem" }}>
+          <h2 style={{ fontSize: "0.95rem", margin: "0 0 0.5rem" }}>Rejected (over quota)</h2>
+          <p style={{ fontSize: "0.8rem", color: "var(--text-muted)", margin: "0 0 0.75rem" }}>
+            Requests that failed because a daily or monthly token quota was used up.
+          </p>
+          <ul style={{ listStyle: "none", padding: 0, margin: 0 }}>
+            {[...recentRejected]
+              .reverse()
+              .slice(0, 20)
+              .map((r, i) => (
+                <li
+                  key={`${r.rejectedAt}-${r.key}-${i}`}
+                  style={{
+                    padding: "0.5rem 0.6rem",
+                    borderRadius: 6,
+                    background: "var(--surface-muted)",
+                    marginBottom: "0.35rem",
+                    fontSize: "0.85rem",
+                  }}
+                >
+                  <span style={{ color: "var(--text-muted)", marginRight: "0.5rem" }}>
+                    {formatRequestQueueTs(r.rejectedAt)}
+                  </span>
+                  <span>{describeContext(r.context)}</span>
+                  <div
+                    style={{
+                      color: "var(--resource-red)",
+                      fontSize: "0.78rem",
+                      marginTop: "0.2rem",
+                    }}
+                  >
+                    {r.error}
+                  </div>
+                </li>
+              ))}
+          </ul>
+        </section>
+      )}
+
       <section className="card" style={{ padding: "1rem", marginBottom: "1.5rem" }}>
         <h2 style={{ fontSize: "0.95rem", margin: "0 0 0.5rem" }}>
           Waiting now
@@ -173,7 +313,8 @@ export default function RequestQueueSection() {
           )}
         </h2>
         <p style={{ fontSize: "0.8rem", color: "var(--text-muted)", margin: "0 0 0.75rem" }}>
-          Requests currently blocked by rate limits (RPM/TPM) until a slot is free.
+          Requests currently blocked by rate limits (RPM/TPM), the concurrency cap or a token quota
+          set to wait, until a slot is free.
         </p>
         {pending.length === 0 ? (
           <p style={{ fontSize: "0.85rem", color: "var(--text-muted)" }}>No requests waiting.</p>
@@ -194,6 +335,11 @@ export default function RequestQueueSection() {
                   {formatRequestQueueTs(p.addedAt)}
                 </span>
                 <span>{describeContext(p.context)}</span>
+                {p.reason && (
+                  <span style={{ marginLeft: "0.5rem", color: "var(--resource-yellow)" }}>
+                    {p.reason}
+                  </span>
+                )}
                 <span style={{ color: "var(--text-muted)", marginLeft: "0.5rem" }}>
                   {" | "}
                   {p.key}
@@ -248,6 +394,66 @@ export default function RequestQueueSection() {
         )}
       </section>
 
+      <section className="card" style={{ padding: "1rem", marginBottom: "1.5rem" }}>
+        <h2 style={{ fontSize: "0.95rem", margin: "0 0 0.5rem" }}>
+          Retrying
+          {retrying.length > 0 && (
+            <span style={{ marginLeft: "0.5rem", fontWeight: 600, color: "var(--resource-red)" }}>
+              {retrying.length} request{retrying.length !== 1 ? "s" : ""}
+            </span>
+          )}
+        </h2>
+        <p style={{ fontSize: "0.8rem", color: "var(--text-muted)", margin: "0 0 0.75rem" }}>
+          Requests backing off after a failed call (e.g. 429 or 529) before the next attempt. When
+          retries run out, the provider&apos;s fallbacks are tried in order.
+        </p>
+        {retrying.length === 0 ? (
+          <p style={{ fontSize: "0.85rem", color: "var(--text-muted)" }}>No requests retrying.</p>
+        ) : (
+          <ul style={{ listStyle: "none", padding: 0, margin: 0 }}>
+            {retrying.map((r) => (
+              <li
+                key={r.id}
+                style={{
+                  padding: "0.5rem 0.6rem",
+                  borderRadius: 6,
+                  background: "var(--surface-muted)",
+                  marginBottom: "0.35rem",
+                  fontSize: "0.85rem",
+                }}
+              >
+                <span style={{ color: "var(--text-muted)", marginRight: "0.5rem" }}>
+                  {formatRequestQueueTs(r.addedAt)}
+                </span>
+                <span>{describeContext(r.context)}</span>
+                <span style={{ marginLeft: "0.5rem", color: "var(--resource-red)" }}>
+                  retry {r.attempt}/{r.maxRetries}
+                  {r.status != null ? ` after ${r.status}` : ""} at{" "}
+                  {formatRequestQueueTs(r.retryAt)}
+                </span>
+                <span style={{ color: "var(--text-muted)", marginLeft: "0.5rem" }}>
+                  {" | "}
+                  {r.key}
+                </span>
+                <div
+                  style={{
+                    color: "var(--text-muted)",
+                    fontSize: "0.78rem",
+                    marginTop: "0.2rem",
+                    overflow: "hidden",
+                    textOverflow: "ellipsis",
+                    whiteSpace: "nowrap",
+                  }}
+                  title={r.error}
+                >
+                  {r.error}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
       <section className="card" style={{ padding: "1rem" }}>
         <h2 style={{ fontSize: "0.95rem", margin: "0 0 0.5rem" }}>Recently delayed</h2>
         <p style={{ fontSize: "0.8rem", color: "var(--text-muted)", margin: "0 0 0.75rem" }}>
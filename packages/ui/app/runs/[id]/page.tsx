@@ -19,8 +19,11 @@ import {
   Eye,
   EyeOff,
   ListOrdered,
+  Pause,
+  Play,
 } from "lucide-react";
 import { openChatWithContext } from "../../components/chat-wrapper";
+import { ChatMessageCitations } from "../../components/chat-message-content";
 
 /** When the agent calls request_user_help, the workflow throws this message; we treat it as "waiting for input", not a failure. */
 const WAITING_FOR_USER_MESSAGE = "WAITING_FOR_USER";
@@ -72,6 +75,15 @@ type ExecutionTraceStep = {
   sentToNodeId?: string;
   sentToAgentName?: string;
   llmSummary?: string;
+  /** Knowledge passages from the agent's RAG collection, numbered as in its prompt. */
+  citations?: Array<{
+    index: number;
+    filename?: string;
+    url?: string;
+    headingPath?: string[];
+    chunkIndex?: number;
+    snippet?: string;
+  }>;
 };
 
 type RunLogEntry = { level: string; message: string; payload?: string | null; createdAt: number };
@@ -110,10 +122,30 @@ type Run = {
     };
     output?: unknown;
     trail?: ExecutionTraceStep[];
+    /** Set when a spend budget paused or cancelled the run. */
+    budgetExceeded?: BudgetExceeded;
     [k: string]: unknown;
   } | null;
 };
 
+type BudgetExceeded = {
+  budgetName?: string;
+  scope: string;
+  scopeId?: string;
+  period: "run" | "day" | "month";
+  spent: number;
+  limit: number;
+  action: "pause" | "cancel";
+};
+
+/** Why a budget stopped the run, e.g. 'Budget "Nightly" reached: $2.0100 of $2 spent today (UTC).' */
+function describeBudgetStop(b: BudgetExceeded): string {
+  const name = b.budgetName ? `"${b.budgetName}"` : `for ${b.scope}`;
+  const when =
+    b.period === "day" ? "today (UTC)" : b.period === "month" ? "this month (UTC)" : "in this run";
+  return `Budget ${name} reached: $${b.spent.toFixed(4)} of $${b.limit} spent ${when}.`;
+}
+
 /** Copy text to clipboard; works in insecure contexts (HTTP) via execCommand fallback. */
 async function copyToClipboard(text: string): Promise<boolean> {
   try {
@@ -579,6 +611,12 @@ function TrailStepCard({
               </ul>
             </div>
           )}
+          {!outputsOnly && step.citations && step.citations.length > 0 && (
+            <div style={{ marginBottom: "0.75rem" }}>
+              <div className="run-trail-step-field-label">Knowledge passages</div>
+              <ChatMessageCitations citations={step.citations} />
+            </div>
+          )}
           {showNoContainerWarning && (
             <div
               style={{
@@ -737,6 +775,13 @@ function StatusBadge({ status }: { status: string }) {
       </span>
     );
   }
+  if (status === "paused") {
+    return (
+      <span className="run-status run-status-waiting">
+        <Pause size={14} /> paused
+      </span>
+    );
+  }
   return (
     <span className="run-status run-status-queued">
       <Clock size={14} /> {status}
@@ -752,6 +797,7 @@ export default function RunDetailPage() {
   const [error, setError] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
   const [stopping, setStopping] = useState(false);
+  const [resuming, setResuming] = useState(false);
   const [rating, setRating] = useState<"good" | "bad" | null>(null);
   const [notes, setNotes] = useState("");
   const [submittingRating, setSubmittingRating] = useState(false);
@@ -782,6 +828,8 @@ export default function RunDetailPage() {
   /** Error from last respond attempt (e.g. run no longer waiting); cleared on next load or submit. */
   const [replyError, setReplyError] = useState<string | null>(null);
   const [executionLogSteps, setExecutionLogSteps] = useState<ExecutionLogStep[]>([]);
+  /** Text the current model call is streaming (workflow runs); cleared when an agent starts a new call. */
+  const [liveLlmOutput, setLiveLlmOutput] = useState("");
   const liveLogEndRef = useRef<HTMLDivElement | null>(null);
 
   const load = useCallback(
@@ -875,6 +923,28 @@ export default function RunDetailPage() {
       .catch(() => setEventsData(null));
   }, [run?.id, run?.targetType]);
 
+  // While a workflow run is in progress, stream its LLM output (GET /api/runs/:id/events as SSE)
+  useEffect(() => {
+    if (!run?.id || run.targetType !== "workflow" || run.status !== "running") return;
+    const source = new EventSource(`/api/runs/${encodeURIComponent(run.id)}/events`);
+    source.onmessage = (e) => {
+      try {
+        const event = JSON.parse(e.data) as { type?: string; delta?: unknown };
+        if (event.type === "llm_request") setLiveLlmOutput("");
+        else if (event.type === "content_delta" && typeof event.delta === "string") {
+          const delta = event.delta;
+          setLiveLlmOutput((prev) => prev + delta);
+        }
+      } catch {
+        // ignore malformed events
+      }
+    };
+    return () => {
+      source.close();
+      setLiveLlmOutput("");
+    };
+  }, [run?.id, run?.targetType, run?.status]);
+
   useEffect(() => {
     if (!run?.id) return;
     fetch(`/api/feedback?executionId=${encodeURIComponent(run.id)}`)
@@ -1074,7 +1144,12 @@ export default function RunDetailPage() {
   );
 
   const handleStopRun = useCallback(async () => {
-    if (!id || !run || (run.status !== "running" && run.status !== "waiting_for_user")) return;
+    if (
+      !id ||
+      !run ||
+      (run.status !== "running" && run.status !== "waiting_for_user" && run.status !== "paused")
+    )
+      return;
     setStopping(true);
     try {
       const res = await fetch(`/api/runs/${encodeURIComponent(id)}`, {
@@ -1091,6 +1166,17 @@ export default function RunDetailPage() {
     }
   }, [id, run]);
 
+  const handleResumeRun = useCallback(async () => {
+    if (!id || run?.status !== "paused") return;
+    setResuming(true);
+    try {
+      const res = await fetch(`/api/runs/${encodeURIComponent(id)}/resume`, { method: "POST" });
+      if (res.ok) setRun(await res.json());
+    } finally {
+      setResuming(false);
+    }
+  }, [id, run?.status]);
+
   // Auto-scroll live container output to bottom when new logs arrive (must be before any early return)
   useEffect(() => {
     const logs = run?.logs ?? [];
@@ -1238,7 +1324,21 @@ export default function RunDetailPage() {
             style={{ display: "flex", alignItems: "center", gap: "0.75rem", flexWrap: "wrap" }}
           >
             <StatusBadge status={run.status} />
-            {(run.status === "running" || run.status === "waiting_for_user") && (
+            {run.status === "paused" && (
+              <button
+                type="button"
+                className="button"
+                onClick={handleResumeRun}
+                disabled={resuming}
+                style={{ display: "inline-flex", alignItems: "center", gap: "0.4rem" }}
+              >
+                {resuming ? <Loader2 size={14} className="spin" /> : <Play size={14} />}
+                {resuming ? "Resuming…" : "Resume run"}
+              </button>
+            )}
+            {(run.status === "running" ||
+              run.status === "waiting_for_user" ||
+              run.status === "paused") && (
               <button
                 type="button"
                 className="button button-secondary"
@@ -1247,15 +1347,24 @@ export default function RunDetailPage() {
                 style={{ display: "inline-flex", alignItems: "center", gap: "0.4rem" }}
               >
                 {stopping ? <Loader2 size={14} className="spin" /> : <Square size={14} />}
-                {stopping
-                  ? "Stopping…"
-                  : run.status === "waiting_for_user"
-                    ? "Cancel run"
-                    : "Stop run"}
+                {stopping ? "Stopping…" : run.status === "running" ? "Stop run" : "Cancel run"}
               </button>
             )}
           </div>
         </div>
+        {run.output?.budgetExceeded && (
+          <div className="run-detail-section">
+            <div className="run-detail-label">Budget</div>
+            <div className="run-detail-value" style={{ fontSize: "0.9rem" }}>
+              {describeBudgetStop(run.output.budgetExceeded)}{" "}
+              {run.status === "paused" && (
+                <span style={{ color: "var(--text-muted)" }}>
+                  Raise the limit in Settings → Budgets (or wait for the next period), then resume.
+                </span>
+              )}
+            </div>
+          </div>
+        )}
         {run.status === "running" && runUsesContainer && (
           <div className="run-detail-section" style={{ paddingTop: "0.25rem" }}>
             <div
@@ -1470,6 +1579,20 @@ export default function RunDetailPage() {
         </div>
       </div>
 
+      {run.targetType === "workflow" && run.status === "running" && liveLlmOutput && (
+        <div className="run-detail-card" style={{ marginBottom: "1rem" }}>
+          <div className="run-detail-section" style={{ marginBottom: "0.5rem" }}>
+            <div
+              className="run-detail-label"
+              style={{ display: "flex", alignItems: "center", gap: "0.35rem" }}
+            >
+              <Loader2 size={16} className="spin" /> Model output (streaming)
+            </div>
+          </div>
+          <pre className="run-trail-step-pre">{liveLlmOutput}</pre>
+        </div>
+      )}
+
       {/* Live container output: only when the workflow actually used a container (std-container-run / std-container-session) */}
       {run.targetType === "workflow" &&
         runUsesContainer &&
@@ -0,0 +1,387 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { ShieldCheck, Trash2 } from "lucide-react";
+
+type AuthStatus = { enabled: boolean; authenticated: boolean };
+type Scope = "read" | "run" | "admin";
+
+type ApiToken = {
+  id: string;
+  name: string;
+  scope: Scope;
+  tokenPrefix: string;
+  createdAt: number;
+  expiresAt?: number;
+  lastUsedAt?: number;
+};
+
+const SCOPE_LABELS: Record<Scope, string> = {
+  read: "Read-only",
+  run: "Run workflows",
+  admin: "Admin",
+};
+
+const mutedText = { fontSize: "0.82rem", color: "var(--text-muted)", margin: "0 0 0.75rem" };
+const errorText = { fontSize: "0.82rem", color: "#dc2626" };
+const cardTitle = { fontSize: "0.85rem", fontWeight: 600, marginBottom: "0.5rem" };
+
+async function send(url: string, method: string, body?: unknown) {
+  const res = await fetch(url, {
+    method,
+    credentials: "include",
+    headers: { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const data = await res.json().catch(() => ({}));
+  return { ok: res.ok, data };
+}
+
+export default function AccessSettingsPage() {
+  const [status, setStatus] = useState<AuthStatus | null>(null);
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [password, setPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [tokenName, setTokenName] = useState("");
+  const [tokenScope, setTokenScope] = useState<Scope>("read");
+  const [tokenDays, setTokenDays] = useState("");
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchStatus = useCallback(
+    () =>
+      fetch("/api/auth/status", { credentials: "include" })
+        .then((r) => r.json())
+        .then((data: AuthStatus) => setStatus(data))
+        .catch(() => setStatus(null)),
+    []
+  );
+
+  const fetchTokens = useCallback(
+    () =>
+      fetch("/api/auth/tokens", { credentials: "include" })
+        .then((r) => (r.ok ? r.json() : { tokens: [] }))
+        .then((data: { tokens: ApiToken[] }) => setTokens(data.tokens ?? []))
+        .catch(() => setTokens([])),
+    []
+  );
+
+  useEffect(() => {
+    fetchStatus();
+    fetchTokens();
+  }, [fetchStatus, fetchTokens]);
+
+  const run = async (action: () => Promise<string | null>) => {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      setMessage(await action());
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Request failed.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSetup = () =>
+    run(async () => {
+      const { ok, data } = await send("/api/auth/setup", "POST", { password });
+      if (!ok) throw new Error(data.error ?? "Setup failed.");
+      setPassword("");
+      await fetchStatus();
+      return "Admin login set up. The API now requires this login or an access token.";
+    });
+
+  const handleChangePassword = () =>
+    run(async () => {
+      const { ok, data } = await send("/api/auth/admin", "PATCH", {
+        currentPassword: password,
+        newPassword,
+      });
+      if (!ok) throw new Error(data.error ?? "Could not change the password.");
+      setPassword("");
+      setNewPassword("");
+      return "Password changed. Other browsers need to log in again.";
+    });
+
+  const handleDisable = () =>
+    run(async () => {
+      const { ok, data } = await send("/api/auth/admin", "DELETE", { password });
+      if (!ok) throw new Error(data.error ?? "Could not turn off the admin login.");
+      setPassword("");
+      await fetchStatus();
+      return "Admin login removed. The API is open to anyone who can reach this port.";
+    });
+
+  const handleLogout = async () => {
+    await send("/api/auth/logout", "POST");
+    window.location.href = "/login";
+  };
+
+  const handleCreateToken = () =>
+    run(async () => {
+      const days = Number(tokenDays);
+      const { ok, data } = await send("/api/auth/tokens", "POST", {
+        name: tokenName.trim(),
+        scope: tokenScope,
+        ...(tokenDays.trim() && { expiresInDays: days }),
+      });
+      if (!ok) throw new Error(data.error ?? "Could not create the token.");
+      setCreatedToken(data.token);
+      setTokenName("");
+      setTokenDays("");
+      await fetchTokens();
+      return null;
+    });
+
+  const handleRevoke = (id: string) =>
+    run(async () => {
+      const { ok, data } = await send(`/api/auth/tokens/${encodeURIComponent(id)}`, "DELETE");
+      if (!ok) throw new Error(data.error ?? "Could not revoke the token.");
+      await fetchTokens();
+      return null;
+    });
+
+  if (!status) {
+    return (
+      <div className="settings-page">
+        <div className="card" style={{ padding: "1rem" }}>
+          <p style={{ color: "var(--text-muted)" }}>Loading…</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="settings-page">
+      <div className="card" style={{ padding: "1.25rem", marginBottom: "1rem" }}>
+        <h1
+          style={{
+            fontSize: "1.25rem",
+            fontWeight: 600,
+            marginBottom: "0.5rem",
+            display: "flex",
+            alignItems: "center",
+            gap: "0.5rem",
+          }}
+        >
+          <ShieldCheck size={20} /> Access
+        </h1>
+        <p style={{ fontSize: "0.9rem", color: "var(--text-muted)", margin: 0 }}>
+          {status.enabled
+            ? "The API requires the admin login or an access token. Webhook URLs (/api/hooks/…) and the Telegram webhook stay reachable; they check their own secrets."
+            : "The API is open: anything that can reach this port can call it. Set up an admin login before running Agentron on a shared machine or exposing it to the internet."}
+        </p>
+      </div>
+
+      {!status.enabled && (
+        <div className="card" style={{ padding: "1rem", marginBottom: "0.75rem" }}>
+          <div style={cardTitle}>Set up admin login</div>
+          <div className="form-group" style={{ maxWidth: 320 }}>
+            <input
+              type="password"
+              className="input"
+              placeholder="Admin password (8+ characters)"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleSetup()}
+              aria-label="Admin password"
+            />
+            <button
+              type="button"
+              className="button"
+              disabled={busy || password.length < 8}
+              onClick={handleSetup}
+            >
+              Turn on admin login
+            </button>
+          </div>
+        </div>
+      )}
+
+      {status.enabled && (
+        <div className="card" style={{ padding: "1rem", marginBottom: "0.75rem" }}>
+          <div style={cardTitle}>Admin login</div>
+          <div className="form-group" style={{ maxWidth: 320 }}>
+            <input
+              type="password"
+              className="input"
+              placeholder="Current password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              aria-label="Current admin password"
+            />
+            <input
+              type="password"
+              className="input"
+              placeholder="New password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              aria-label="New admin password"
+            />
+            <div style={{ display: "flex", gap: "0.5rem", flexWrap: "wrap" }}>
+              <button
+                type="button"
+                className="button button-small"
+                disabled={busy || !password || newPassword.length < 8}
+                onClick={handleChangePassword}
+              >
+                Change password
+              </button>
+              <button
+                type="button"
+                className="button button-ghost button-small"
+                disabled={busy || !password}
+                onClick={handleDisable}
+              >
+                Turn off admin login
+              </button>
+              <button
+                type="button"
+                className="button button-ghost button-small"
+                onClick={handleLogout}
+              >
+                Log out
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="card" style={{ padding: "1rem" }}>
+        <div style={cardTitle}>Access tokens</div>
+        <p style={mutedText}>
+          For scripts and other machines: send <code>Authorization: Bearer &lt;token&gt;</code>.
+          Read-only tokens can only make GET requests; run tokens can also start and answer workflow
+          runs; admin tokens can do everything, including shell commands, sandboxes and backups.
+          Tokens apply once the admin login is on.
+        </p>
+
+        {createdToken && (
+          <div
+            style={{
+              padding: "0.6rem",
+              background: "var(--surface-muted)",
+              borderRadius: 6,
+              marginBottom: "0.75rem",
+              fontSize: "0.82rem",
+            }}
+          >
+            Copy this token now; it is not shown again.
+            <div
+              style={{ display: "flex", gap: "0.5rem", alignItems: "center", marginTop: "0.35rem" }}
+            >
+              <code style={{ userSelect: "all", wordBreak: "break-all" }}>{createdToken}</code>
+              <button
+                type="button"
+                className="button button-small"
+                onClick={() => setCreatedToken(null)}
+              >
+                Done
+              </button>
+            </div>
+          </div>
+        )}
+
+        {tokens.length > 0 && (
+          <ul
+            style={{
+              listStyle: "none",
+              padding: 0,
+              margin: "0 0 0.75rem",
+              display: "flex",
+              flexDirection: "column",
+              gap: "0.35rem",
+            }}
+          >
+            {tokens.map((token) => (
+              <li
+                key={token.id}
+                style={{
+                  display: "flex",
+                  alignItems: "center",
+                  justifyContent: "space-between",
+                  gap: "0.5rem",
+                  padding: "0.5rem 0.6rem",
+                  background: "var(--surface-muted)",
+                  borderRadius: 6,
+                  fontSize: "0.82rem",
+                }}
+              >
+                <span>
+                  <strong>{token.name}</strong> <code>{token.tokenPrefix}…</code>{" "}
+                  {SCOPE_LABELS[token.scope]}
+                  <span style={{ color: "var(--text-muted)" }}>
+                    {token.expiresAt &&
+                      ` · expires ${new Date(token.expiresAt).toLocaleDateString()}`}
+                    {" · "}
+                    {token.lastUsedAt
+                      ? `last used ${new Date(token.lastUsedAt).toLocaleString()}`
+                      : "not used yet"}
+                  </span>
+                </span>
+                <button
+                  type="button"
+                  className="button button-ghost button-small"
+                  title="Revoke"
+                  style={{ color: "var(--danger, #ef4444)", flexShrink: 0 }}
+                  disabled={busy}
+                  onClick={() => handleRevoke(token.id)}
+                >
+                  <Trash2 size={14} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div style={{ display: "flex", gap: "0.5rem", flexWrap: "wrap", alignItems: "center" }}>
+          <input
+            type="text"
+            className="input"
+            style={{ maxWidth: 200 }}
+            placeholder="Token name"
+            value={tokenName}
+            onChange={(e) => setTokenName(e.target.value)}
+            aria-label="Token name"
+          />
+          <select
+            className="select"
+            value={tokenScope}
+            onChange={(e) => setTokenScope(e.target.value as Scope)}
+          >
+            {(Object.keys(SCOPE_LABELS) as Scope[]).map((scope) => (
+              <option key={scope} value={scope}>
+                {SCOPE_LABELS[scope]}
+              </option>
+            ))}
+          </select>
+          <input
+            type="number"
+            className="input"
+            style={{ maxWidth: 140 }}
+            min={1}
+            placeholder="Expires in days"
+            value={tokenDays}
+            onChange={(e) => setTokenDays(e.target.value)}
+            aria-label="Expires in days"
+          />
+          <button
+            type="button"
+            className="button button-small"
+            disabled={busy || !tokenName.trim()}
+            onClick={handleCreateToken}
+          >
+            Create token
+          </button>
+        </div>
+      </div>
+
+      {message && <p style={{ ...mutedText, marginTop: "0.75rem" }}>{message}</p>}
+      {error && <p style={{ ...errorText, marginTop: "0.75rem" }}>{error}</p>}
+    </div>
+  );
+}
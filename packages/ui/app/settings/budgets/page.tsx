@@ -0,0 +1,313 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Trash2 } from "lucide-react";
+
+type BudgetScope = "global" | "workflow" | "agent" | "conversation";
+
+type Budget = {
+  id: string;
+  name?: string;
+  scope: BudgetScope;
+  scopeId?: string;
+  perRunLimit?: number;
+  dailyLimit?: number;
+  monthlyLimit?: number;
+  action: "pause" | "cancel";
+  enabled: boolean;
+  spend: { today: number; thisMonth: number };
+};
+
+type Named = { id: string; name: string };
+
+const SCOPE_LABELS: Record<BudgetScope, string> = {
+  global: "Whole deployment",
+  workflow: "Workflow",
+  agent: "Agent",
+  conversation: "Chat conversation",
+};
+
+function formatUsd(n: number | undefined): string {
+  return n == null ? "—" : `$${n.toFixed(n < 1 ? 4 : 2)}`;
+}
+
+export default function BudgetsSettingsPage() {
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [workflows, setWorkflows] = useState<Named[]>([]);
+  const [agents, setAgents] = useState<Named[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [scope, setScope] = useState<BudgetScope>("global");
+  const [scopeId, setScopeId] = useState("");
+  const [perRunLimit, setPerRunLimit] = useState("");
+  const [dailyLimit, setDailyLimit] = useState("");
+  const [monthlyLimit, setMonthlyLimit] = useState("");
+  const [action, setAction] = useState<"pause" | "cancel">("pause");
+
+  const load = useCallback(async () => {
+    const res = await fetch("/api/budgets");
+    if (res.ok) {
+      const data = await res.json();
+      setBudgets(Array.isArray(data.budgets) ? data.budgets : []);
+    }
+  }, []);
+
+  useEffect(() => {
+    Promise.all([
+      load(),
+      fetch("/api/workflows")
+        .then((r) => (r.ok ? r.json() : []))
+        .then((data) => setWorkflows(Array.isArray(data) ? data : [])),
+      fetch("/api/agents")
+        .then((r) => (r.ok ? r.json() : []))
+        .then((data) => setAgents(Array.isArray(data) ? data : [])),
+    ])
+      .catch(() => {})
+      .finally(() => setLoading(false));
+  }, [load]);
+
+  const targetName = (b: Budget): string => {
+    if (b.scope === "global") return SCOPE_LABELS.global;
+    const list = b.scope === "workflow" ? workflows : b.scope === "agent" ? agents : [];
+    const match = list.find((x) => x.id === b.scopeId);
+    return `${SCOPE_LABELS[b.scope]}: ${match?.name ?? b.scopeId}`;
+  };
+
+  const handleAdd = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/budgets", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          scope,
+          ...(scope !== "global" && { scopeId }),
+          perRunLimit,
+          dailyLimit,
+          monthlyLimit,
+          action,
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(data.error ?? "Could not save budget");
+        return;
+      }
+      setName("");
+      setScopeId("");
+      setPerRunLimit("");
+      setDailyLimit("");
+      setMonthlyLimit("");
+      await load();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (b: Budget) => {
+    await fetch(`/api/budgets/${b.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ enabled: !b.enabled }),
+    });
+    await load();
+  };
+
+  const handleDelete = async (id: string) => {
+    await fetch(`/api/budgets/${id}`, { method: "DELETE" });
+    await load();
+  };
+
+  if (loading) {
+    return (
+      <div className="settings-page">
+        <div className="card" style={{ padding: "1rem" }}>
+          <p style={{ color: "var(--text-muted)" }}>Loading…</p>
+        </div>
+      </div>
+    );
+  }
+
+  const inputStyle = { padding: "0.35rem 0.5rem", fontSize: "0.9rem" };
+  const targets = scope === "workflow" ? workflows : scope === "agent" ? agents : [];
+
+  return (
+    <div style={{ maxWidth: 760 }}>
+      <h1 style={{ margin: "0 0 0.25rem" }}>Budgets</h1>
+      <p style={{ fontSize: "0.82rem", color: "var(--text-muted)", margin: "0 0 1.5rem" }}>
+        Spend limits in USD, estimated from token usage and model pricing. Budgets are checked
+        before every LLM call; when one is reached the run is paused (resume it from the run page)
+        or cancelled, and a notification says which budget stopped it. Days and months are UTC.
+      </p>
+
+      <div className="card" style={{ padding: "1rem" }}>
+        <div style={{ fontSize: "0.85rem", fontWeight: 600, marginBottom: "0.5rem" }}>
+          Active budgets
+        </div>
+        {budgets.length === 0 ? (
+          <p style={{ fontSize: "0.82rem", color: "var(--text-muted)", margin: 0 }}>
+            No budgets yet.
+          </p>
+        ) : (
+          <table style={{ width: "100%", fontSize: "0.82rem", borderCollapse: "collapse" }}>
+            <thead>
+              <tr style={{ textAlign: "left", color: "var(--text-muted)" }}>
+                <th style={{ padding: "0.25rem 0" }}>Budget</th>
+                <th>Per run</th>
+                <th>Today</th>
+                <th>This month</th>
+                <th>When reached</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {budgets.map((b) => (
+                <tr key={b.id} style={{ opacity: b.enabled ? 1 : 0.55 }}>
+                  <td style={{ padding: "0.35rem 0" }}>
+                    <div style={{ fontWeight: 500 }}>{b.name ?? targetName(b)}</div>
+                    {b.name && <div style={{ color: "var(--text-muted)" }}>{targetName(b)}</div>}
+                  </td>
+                  <td>{formatUsd(b.perRunLimit)}</td>
+                  <td>
+                    {formatUsd(b.spend.today)}
+                    {b.dailyLimit != null && ` / ${formatUsd(b.dailyLimit)}`}
+                  </td>
+                  <td>
+                    {formatUsd(b.spend.thisMonth)}
+                    {b.monthlyLimit != null && ` / ${formatUsd(b.monthlyLimit)}`}
+                  </td>
+                  <td>{b.action === "pause" ? "Pause" : "Cancel"}</td>
+                  <td style={{ textAlign: "right", whiteSpace: "nowrap" }}>
+                    <button
+                      type="button"
+                      className="button button-ghost button-small"
+                      onClick={() => handleToggle(b)}
+                    >
+                      {b.enabled ? "Disable" : "Enable"}
+                    </button>
+                    <button
+                      type="button"
+                      className="button button-ghost button-small"
+                      title="Delete budget"
+                      onClick={() => handleDelete(b.id)}
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="card" style={{ padding: "1rem", marginTop: "0.75rem" }}>
+        <div style={{ fontSize: "0.85rem", fontWeight: 600, marginBottom: "0.5rem" }}>
+          Add budget
+        </div>
+        <div style={{ display: "grid", gap: "0.5rem", gridTemplateColumns: "1fr 1fr" }}>
+          <input
+            placeholder="Name (optional)"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            style={inputStyle}
+          />
+          <select
+            value={scope}
+            onChange={(e) => {
+              setScope(e.target.value as BudgetScope);
+              setScopeId("");
+            }}
+            style={inputStyle}
+          >
+            {(Object.keys(SCOPE_LABELS) as BudgetScope[]).map((s) => (
+              <option key={s} value={s}>
+                {SCOPE_LABELS[s]}
+              </option>
+            ))}
+          </select>
+          {scope === "conversation" ? (
+            <input
+              placeholder="Conversation id"
+              value={scopeId}
+              onChange={(e) => setScopeId(e.target.value)}
+              style={inputStyle}
+            />
+          ) : scope !== "global" ? (
+            <select value={scopeId} onChange={(e) => setScopeId(e.target.value)} style={inputStyle}>
+              <option value="">Select {scope}…</option>
+              {targets.map((t) => (
+                <option key={t.id} value={t.id}>
+                  {t.name}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <span />
+          )}
+          <select
+            value={action}
+            onChange={(e) => setAction(e.target.value as "pause" | "cancel")}
+            style={inputStyle}
+          >
+            <option value="pause">Pause the run when reached</option>
+            <option value="cancel">Cancel the run when reached</option>
+          </select>
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            placeholder="Per run (USD)"
+            value={perRunLimit}
+            onChange={(e) => setPerRunLimit(e.target.value)}
+            style={inputStyle}
+          />
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            placeholder="Per day (USD)"
+            value={dailyLimit}
+            onChange={(e) => setDailyLimit(e.target.value)}
+            style={inputStyle}
+          />
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            placeholder="Per month (USD)"
+            value={monthlyLimit}
+            onChange={(e) => setMonthlyLimit(e.target.value)}
+            style={inputStyle}
+          />
+        </div>
+        <div
+          style={{ display: "flex", alignItems: "center", gap: "0.75rem", marginTop: "0.75rem" }}
+        >
+          <button
+            type="button"
+            className="button button-small"
+            disabled={saving}
+            onClick={handleAdd}
+          >
+            {saving ? "Saving…" : "Add budget"}
+          </button>
+          {error && (
+            <span style={{ fontSize: "0.82rem", color: "var(--error, #ef4444)" }}>{error}</span>
+          )}
+        </div>
+      </div>
+
+      <p style={{ marginTop: "1rem", fontSize: "0.82rem", color: "var(--text-muted)" }}>
+        <Link href="/settings" style={{ color: "var(--primary)" }}>
+          ← General settings
+        </Link>
+      </p>
+    </div>
+  );
+}
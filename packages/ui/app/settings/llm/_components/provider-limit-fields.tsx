@@ -0,0 +1,204 @@
+"use client";
+
+/** Retries after a failed call when none is set (runtime DEFAULT_RETRY_POLICY). */
+const DEFAULT_MAX_RETRIES = 3;
+
+/** Concurrency cap, token quotas, retries and fallbacks of a provider as form inputs. */
+export type ProviderLimitInputs = {
+  maxConcurrent: string;
+  tokensPerDay: string;
+  tokensPerMonth: string;
+  onQuotaExceeded: "fail" | "wait";
+  maxRetries: string;
+  fallbackIds: string[];
+};
+
+export const EMPTY_LIMIT_INPUTS: ProviderLimitInputs = {
+  maxConcurrent: "",
+  tokensPerDay: "",
+  tokensPerMonth: "",
+  onQuotaExceeded: "fail",
+  maxRetries: "",
+  fallbackIds: [],
+};
+
+/** The saved settings the inputs edit (part of an LLM config's extra). */
+export type ProviderLimits = {
+  rateLimit?: {
+    maxConcurrent?: number;
+    tokensPerDay?: number;
+    tokensPerMonth?: number;
+    onQuotaExceeded?: "fail" | "wait";
+  };
+  retry?: { maxRetries?: number };
+  fallbackLlmConfigIds?: string[];
+};
+
+/** Form inputs for a saved provider's extra settings. */
+export function limitInputsFromExtra(extra: ProviderLimits | undefined): ProviderLimitInputs {
+  const limits = extra?.rateLimit;
+  const text = (n: number | undefined) => (n != null ? String(n) : "");
+  return {
+    maxConcurrent: text(limits?.maxConcurrent),
+    tokensPerDay: text(limits?.tokensPerDay),
+    tokensPerMonth: text(limits?.tokensPerMonth),
+    onQuotaExceeded: limits?.onQuotaExceeded ?? "fail",
+    maxRetries: text(extra?.retry?.maxRetries),
+    fallbackIds: extra?.fallbackLlmConfigIds ?? [],
+  };
+}
+
+/** The settings to save for the inputs; empty inputs are left out. */
+export function limitInputsToExtra(inputs: ProviderLimitInputs): {
+  rateLimit: NonNullable<ProviderLimits["rateLimit"]>;
+  retry?: { maxRetries: number };
+  fallbackLlmConfigIds: string[];
+} {
+  const rateLimit: NonNullable<ProviderLimits["rateLimit"]> = {};
+  if (inputs.maxConcurrent.trim()) rateLimit.maxConcurrent = parseInt(inputs.maxConcurrent, 10);
+  if (inputs.tokensPerDay.trim()) rateLimit.tokensPerDay = parseInt(inputs.tokensPerDay, 10);
+  if (inputs.tokensPerMonth.trim()) rateLimit.tokensPerMonth = parseInt(inputs.tokensPerMonth, 10);
+  if (rateLimit.tokensPerDay != null || rateLimit.tokensPerMonth != null)
+    rateLimit.onQuotaExceeded = inputs.onQuotaExceeded;
+  const maxRetries = inputs.maxRetries.trim() ? parseInt(inputs.maxRetries, 10) : undefined;
+  return {
+    rateLimit,
+    ...(maxRetries != null && !Number.isNaN(maxRetries) && maxRetries >= 0
+      ? { retry: { maxRetries } }
+      : {}),
+    fallbackLlmConfigIds: inputs.fallbackIds,
+  };
+}
+
+/** Quota, retry and fallback fields shared by the add and edit forms. */
+export default function ProviderLimitFields({
+  value,
+  onChange,
+  providers,
+  selfId,
+}: {
+  value: ProviderLimitInputs;
+  onChange: (value: ProviderLimitInputs) => void;
+  /** All providers, as fallback choices. */
+  providers: { id: string; label: string }[];
+  /** The provider being edited; null when adding one. */
+  selfId: string | null;
+}) {
+  const set = (patch: Partial<ProviderLimitInputs>) => onChange({ ...value, ...patch });
+  const candidates = providers.filter((c) => c.id !== selfId && !value.fallbackIds.includes(c.id));
+  const fallbackLabel = (id: string) =>
+    providers.find((c) => c.id === id)?.label ?? "(deleted provider)";
+  return (
+    <>
+      <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 1fr", gap: "0.75rem" }}>
+        <div className="field">
+          <label>Max concurrent requests</label>
+          <input
+            className="input"
+            type="number"
+            min={1}
+            value={value.maxConcurrent}
+            onChange={(e) => set({ maxConcurrent: e.target.value })}
+            placeholder="No limit"
+          />
+        </div>
+        <div className="field">
+          <label>Token quota: per day</label>
+          <input
+            className="input"
+            type="number"
+            min={1}
+            value={value.tokensPerDay}
+            onChange={(e) => set({ tokensPerDay: e.target.value })}
+            placeholder="No quota"
+          />
+        </div>
+        <div className="field">
+          <label>Token quota: per month</label>
+          <input
+            className="input"
+            type="number"
+            min={1}
+            value={value.tokensPerMonth}
+            onChange={(e) => set({ tokensPerMonth: e.target.value })}
+            placeholder="No quota"
+          />
+        </div>
+      </div>
+      {(value.tokensPerDay.trim() || value.tokensPerMonth.trim()) && (
+        <div className="field">
+          <label>When a quota is used up</label>
+          <select
+            className="select"
+            value={value.onQuotaExceeded}
+            onChange={(e) => set({ onQuotaExceeded: e.target.value as "fail" | "wait" })}
+          >
+            <option value="fail">Fail the request (fallbacks are tried)</option>
+            <option value="wait">Wait until the quota resets</option>
+          </select>
+          <span style={{ fontSize: "0.75rem", color: "var(--text-muted)" }}>
+            Quotas reset at midnight UTC (daily) and on the 1st of the month (monthly). Usage is
+            shown on the Queues page.
+          </span>
+        </div>
+      )}
+      <div className="field">
+        <label>Retries after a failed call</label>
+        <input
+          className="input"
+          type="number"
+          min={0}
+          max={10}
+          value={value.maxRetries}
+          onChange={(e) => set({ maxRetries: e.target.value })}
+          placeholder={`Default: ${DEFAULT_MAX_RETRIES}`}
+        />
+        <span style={{ fontSize: "0.75rem", color: "var(--text-muted)" }}>
+          Rate limits (429), overloads (529), server errors and network failures are retried with
+          exponential backoff, honoring the provider&apos;s Retry-After.
+        </span>
+      </div>
+      <div className="field">
+        <label>Fallbacks</label>
+        {value.fallbackIds.length > 0 && (
+          <ol style={{ margin: "0 0 0.4rem", paddingLeft: "1.25rem", fontSize: "0.82rem" }}>
+            {value.fallbackIds.map((id) => (
+              <li key={id} style={{ marginBottom: "0.2rem" }}>
+                {fallbackLabel(id)}{" "}
+                <button
+                  type="button"
+                  className="button button-ghost button-small"
+                  onClick={() => set({ fallbackIds: value.fallbackIds.filter((x) => x !== id) })}
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ol>
+        )}
+        <select
+          className="select"
+          value=""
+          disabled={candidates.length === 0}
+          onChange={(e) => {
+            const id = e.target.value;
+            if (id) set({ fallbackIds: [...value.fallbackIds, id] });
+          }}
+        >
+          <option value="">
+            {candidates.length === 0 ? "No other providers" : "Add fallback…"}
+          </option>
+          {candidates.map((c) => (
+            <option key={c.id} value={c.id}>
+              {c.label}
+            </option>
+          ))}
+        </select>
+        <span style={{ fontSize: "0.75rem", color: "var(--text-muted)" }}>
+          Tried in order when this provider still fails after its retries (e.g. hosted model →
+          OpenRouter → local Ollama). Usage records the model that answered.
+        </span>
+      </div>
+    </>
+  );
+}
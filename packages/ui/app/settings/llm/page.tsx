@@ -3,8 +3,15 @@
 import { useEffect, useState, useCallback } from "react";
 import CopyDebugInfoButton from "../../components/copy-debug-info-button";
 import LlmSetupTabs from "./_components/llm-setup-tabs";
+import ProviderLimitFields, {
+  EMPTY_LIMIT_INPUTS,
+  limitInputsFromExtra,
+  limitInputsToExtra,
+  type ProviderLimitInputs,
+  type ProviderLimits,
+} from "./_components/provider-limit-fields";
 
-interface RateLimitConfig {
+interface RateLimitConfig extends NonNullable<ProviderLimits["rateLimit"]> {
   requestsPerMinute?: number;
   tokensPerMinute?: number;
 }
@@ -15,7 +22,7 @@ interface LlmProvider {
   model: string;
   endpoint?: string;
   apiKeyRef?: string;
-  extra?: { rateLimit?: RateLimitConfig; contextLength?: number };
+  extra?: ProviderLimits & { rateLimit?: RateLimitConfig; contextLength?: number };
 }
 
 /** OpenRouter key/limits response (https://openrouter.ai/docs/api/reference/limits) */
@@ -67,6 +74,7 @@ export default function LlmSettingsPage() {
   const [apiKey, setApiKey] = useState("");
   const [rateLimitRPM, setRateLimitRPM] = useState<string>("");
   const [rateLimitTPM, setRateLimitTPM] = useState<string>("");
+  const [limitInputs, setLimitInputs] = useState<ProviderLimitInputs>(EMPTY_LIMIT_INPUTS);
   const [contextLengthInput, setContextLengthInput] = useState<string>("");
   const [defaultLimits, setDefaultLimits] = useState<Record<string, RateLimitConfig>>({});
   const [catalogModels, setCatalogModels] = useState<
@@ -184,7 +192,8 @@ export default function LlmSettingsPage() {
   };
 
   const buildPayload = (): Record<string, unknown> => {
-    const rateLimit: RateLimitConfig = {};
+    const { rateLimit: limits, ...retryAndFallbacks } = limitInputsToExtra(limitInputs);
+    const rateLimit: RateLimitConfig = { ...limits };
     if (rateLimitRPM.trim()) rateLimit.requestsPerMinute = parseInt(rateLimitRPM, 10);
     if (rateLimitTPM.trim()) rateLimit.tokensPerMinute = parseInt(rateLimitTPM, 10);
     const payload: Record<string, unknown> = {
@@ -192,6 +201,7 @@ export default function LlmSettingsPage() {
       model,
       ...(PROVIDERS_WITHOUT_ENDPOINT.includes(provider) ? {} : { endpoint: endpoint || undefined }),
       ...(Object.keys(rateLimit).length ? { rateLimit } : {}),
+      ...retryAndFallbacks,
     };
     if (apiKey.trim()) payload.apiKey = apiKey.trim();
     const ctx = contextLengthInput.trim() ? parseInt(contextLengthInput, 10) : undefined;
@@ -218,6 +228,7 @@ export default function LlmSettingsPage() {
       setApiKey("");
       setRateLimitRPM("");
       setRateLimitTPM("");
+      setLimitInputs(EMPTY_LIMIT_INPUTS);
       setContextLengthInput("");
       // Add the created provider from response so list updates even if GET fails (e.g. desktop app)
       if (
@@ -251,6 +262,7 @@ export default function LlmSettingsPage() {
     setRateLimitTPM(
       p.extra?.rateLimit?.tokensPerMinute != null ? String(p.extra.rateLimit.tokensPerMinute) : ""
     );
+    setLimitInputs(limitInputsFromExtra(p.extra));
     setContextLengthInput(p.extra?.contextLength != null ? String(p.extra.contextLength) : "");
     loadCatalog(p.provider);
     const d = defaultLimits[p.provider];
@@ -323,6 +335,13 @@ export default function LlmSettingsPage() {
     return labels[p] || p;
   };
 
+  const providerOptions = providers.map((p) => ({
+    id: p.id,
+    label: `${providerLabel(p.provider)} · ${p.model}`,
+  }));
+  const fallbackLabel = (id: string) =>
+    providerOptions.find((o) => o.id === id)?.label ?? "(deleted provider)";
+
   return (
     <div style={{ maxWidth: 680 }}>
       <LlmSetupTabs />
@@ -347,6 +366,7 @@ export default function LlmSettingsPage() {
               setEditingId(null);
               setShowForm(true);
               setContextLengthInput("");
+              setLimitInputs(EMPTY_LIMIT_INPUTS);
               loadCatalog(provider);
               const d = defaultLimits[provider];
               setRateLimitRPM(d?.requestsPerMinute != null ? String(d.requestsPerMinute) : "");
@@ -557,6 +577,12 @@ export default function LlmSettingsPage() {
                 />
               </div>
             </div>
+            <ProviderLimitFields
+              value={limitInputs}
+              onChange={setLimitInputs}
+              providers={providerOptions}
+              selfId={null}
+            />
             <button type="submit" className="button" disabled={saving || !model.trim()}>
               {saving ? "Saving..." : "Save Provider"}
             </button>
@@ -772,6 +798,12 @@ export default function LlmSettingsPage() {
                         />
                       </div>
                     </div>
+                    <ProviderLimitFields
+                      value={limitInputs}
+                      onChange={setLimitInputs}
+                      providers={providerOptions}
+                      selfId={p.id}
+                    />
                     <button type="submit" className="button" disabled={saving || !model.trim()}>
                       {saving ? "Saving..." : "Save changes"}
                     </button>
@@ -835,6 +867,14 @@ export default function LlmSettingsPage() {
                               )}
                             </span>
                           )}
+                          {(p.extra?.fallbackLlmConfigIds?.length ?? 0) > 0 && (
+                            <span
+                              style={{ display: "block", fontSize: "0.72rem", marginTop: "0.2rem" }}
+                            >
+                              Fallbacks:{" "}
+                              {p.extra!.fallbackLlmConfigIds!.map(fallbackLabel).join(" → ")}
+                            </span>
+                          )}
                           {p.provider === "openrouter" &&
                             (() => {
                               const info = openrouterKeyInfo[p.id];
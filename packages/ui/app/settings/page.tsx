@@ -912,6 +912,12 @@ export default function SettingsPage() {
           >
             LLM Providers &rarr;
           </a>
+          <a
+            href="/settings/budgets"
+            style={{ fontSize: "0.82rem", color: "var(--primary)", textDecoration: "none" }}
+          >
+            Budgets &rarr;
+          </a>
           <a
             href="/settings/embedding"
             style={{ fontSize: "0.82rem", color: "var(--primary)", textDecoration: "none" }}
@@ -9,6 +9,9 @@ type TelegramSettings = {
   notificationChatId?: string;
   botUsername?: string;
   usePolling?: boolean;
+  allowedUserIds?: string[];
+  pairingCode?: string;
+  pairingCodeExpiresAt?: number;
 };
 
 const BOTFATHER_URL = "https://t.me/BotFather";
@@ -30,6 +33,8 @@ export default function TelegramSettingsPage() {
   const [notificationChatId, setNotificationChatId] = useState("");
   const [enabled, setEnabled] = useState(false);
   const [usePolling, setUsePolling] = useState(false);
+  const [allowedUserIds, setAllowedUserIds] = useState("");
+  const [pairing, setPairing] = useState(false);
   const [testing, setTesting] = useState(false);
   const [testResult, setTestResult] = useState<{
     ok: boolean;
@@ -46,6 +51,7 @@ export default function TelegramSettingsPage() {
         setEnabled(data.enabled);
         setNotificationChatId(data.notificationChatId ?? "");
         setUsePolling(data.usePolling ?? false);
+        setAllowedUserIds((data.allowedUserIds ?? []).join(", "));
       }
     } catch {
       setSettings(null);
@@ -76,6 +82,28 @@ export default function TelegramSettingsPage() {
     }
   };
 
+  const handleNewPairingCode = async () => {
+    setPairing(true);
+    setSaveError(null);
+    try {
+      const res = await fetch("/api/settings/telegram", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ newPairingCode: true }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setSaveError(data.error || res.statusText);
+        return;
+      }
+      setSettings(data);
+    } catch (e) {
+      setSaveError(e instanceof Error ? e.message : "Request failed");
+    } finally {
+      setPairing(false);
+    }
+  };
+
   const handleSave = async () => {
     setSaving(true);
     setSaveError(null);
@@ -84,6 +112,10 @@ export default function TelegramSettingsPage() {
         enabled,
         usePolling,
         notificationChatId: notificationChatId.trim() || undefined,
+        allowedUserIds: allowedUserIds
+          .split(/[\s,]+/)
+          .map((id) => id.trim())
+          .filter(Boolean),
       };
       if (useEnvVar) {
         payload.botTokenEnvVar = envVarName.trim() || undefined;
@@ -102,6 +134,7 @@ export default function TelegramSettingsPage() {
         return;
       }
       setSettings(data);
+      setAllowedUserIds((data.allowedUserIds ?? []).join(", "));
       if (data.hasToken) {
         setBotToken("");
       }
@@ -317,7 +350,7 @@ export default function TelegramSettingsPage() {
                 </button>
               </div>
               <p style={{ fontSize: "0.75rem", color: "var(--text-muted)", marginTop: "0.5rem" }}>
-                Optional: set{" "}
+                Set{" "}
                 <code
                   style={{
                     background: "var(--bg-muted)",
@@ -327,7 +360,7 @@ export default function TelegramSettingsPage() {
                 >
                   TELEGRAM_WEBHOOK_SECRET
                 </code>{" "}
-                and add{" "}
+                and pass the same value as{" "}
                 <code
                   style={{
                     background: "var(--bg-muted)",
@@ -335,9 +368,9 @@ export default function TelegramSettingsPage() {
                     borderRadius: 2,
                   }}
                 >
-                  ?secret=YOUR_SECRET
+                  secret_token
                 </code>{" "}
-                to the webhook URL.
+                when setting the webhook. Required once the admin login (Settings → Access) is on.
               </p>
             </>
           )}
@@ -356,6 +389,60 @@ export default function TelegramSettingsPage() {
           </label>
         </div>
 
+        <div style={{ marginBottom: "1.25rem" }}>
+          <div style={{ fontSize: "0.85rem", fontWeight: 600, marginBottom: "0.35rem" }}>
+            Allowed users
+          </div>
+          <p style={{ fontSize: "0.8rem", color: "var(--text-muted)", marginBottom: "0.5rem" }}>
+            The bot only answers these Telegram user ids; anyone else is told their id. Separate ids
+            with commas. Or create a pairing code and have the person send{" "}
+            <code
+              style={{ background: "var(--bg-muted)", padding: "0.1rem 0.3rem", borderRadius: 4 }}
+            >
+              /pair CODE
+            </code>{" "}
+            to the bot. A few wrong codes cancel the code; create a new one if that happens.
+          </p>
+          <input
+            type="text"
+            className="input"
+            placeholder="e.g. 123456789, 987654321"
+            value={allowedUserIds}
+            onChange={(e) => setAllowedUserIds(e.target.value)}
+            style={{ width: "100%", maxWidth: 400, marginBottom: "0.5rem" }}
+          />
+          <div style={{ display: "flex", alignItems: "center", gap: "0.75rem", flexWrap: "wrap" }}>
+            <button
+              type="button"
+              className="button"
+              style={{ fontSize: "0.8rem" }}
+              onClick={handleNewPairingCode}
+              disabled={pairing}
+            >
+              {pairing ? "Creating…" : "Create pairing code"}
+            </button>
+            {settings?.pairingCode && (
+              <span style={{ fontSize: "0.85rem" }}>
+                <code
+                  style={{
+                    background: "var(--bg-muted)",
+                    padding: "0.1rem 0.3rem",
+                    borderRadius: 4,
+                  }}
+                >
+                  /pair {settings.pairingCode}
+                </code>
+                {settings.pairingCodeExpiresAt && (
+                  <span style={{ color: "var(--text-muted)" }}>
+                    {" "}
+                    valid until {new Date(settings.pairingCodeExpiresAt).toLocaleTimeString()}
+                  </span>
+                )}
+              </span>
+            )}
+          </div>
+        </div>
+
         <div style={{ marginBottom: "1.25rem" }}>
           <div style={{ fontSize: "0.85rem", fontWeight: 600, marginBottom: "0.35rem" }}>
             Notification chat ID (optional)
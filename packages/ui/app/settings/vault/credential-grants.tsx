@@ -0,0 +1,214 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { KeyRound, Trash2 } from "lucide-react";
+
+type TargetType = "workflow" | "agent";
+
+type Grant = {
+  id: string;
+  credentialKey: string;
+  targetType: TargetType;
+  targetId: string;
+  createdAt: number;
+  revokedAt?: number;
+  lastUsedAt?: number;
+};
+
+type Target = { id: string; name: string };
+
+type Props = {
+  /** Credential keys in the unlocked vault. */
+  credentialKeys: string[];
+};
+
+/**
+ * Background access: grants that let a workflow or agent use specific credentials in scheduled and
+ * triggered runs, without an unlocked vault. Shown while the vault is unlocked.
+ */
+export default function CredentialGrants({ credentialKeys }: Props) {
+  const [grants, setGrants] = useState<Grant[]>([]);
+  const [workflows, setWorkflows] = useState<Target[]>([]);
+  const [agents, setAgents] = useState<Target[]>([]);
+  const [credentialKey, setCredentialKey] = useState("");
+  const [targetType, setTargetType] = useState<TargetType>("workflow");
+  const [targetId, setTargetId] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchGrants = useCallback(
+    () =>
+      fetch("/api/vault/grants", { credentials: "include" })
+        .then((r) => (r.ok ? r.json() : { grants: [] }))
+        .then((data: { grants: Grant[] }) => setGrants(data.grants ?? []))
+        .catch(() => setGrants([])),
+    []
+  );
+
+  useEffect(() => {
+    fetchGrants();
+    const load = (url: string, set: (targets: Target[]) => void) =>
+      fetch(url)
+        .then((r) => (r.ok ? r.json() : []))
+        .then((rows: Target[]) => set(Array.isArray(rows) ? rows : []))
+        .catch(() => set([]));
+    load("/api/workflows", setWorkflows);
+    load("/api/agents", setAgents);
+  }, [fetchGrants]);
+
+  const targets = targetType === "workflow" ? workflows : agents;
+  const targetName = (grant: Grant) =>
+    (grant.targetType === "workflow" ? workflows : agents).find((t) => t.id === grant.targetId)
+      ?.name ?? grant.targetId;
+
+  const handleGrant = async () => {
+    if (!credentialKey || !targetId) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/vault/grants", {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ credentialKey, targetType, targetId }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error ?? "Failed to grant access.");
+        return;
+      }
+      setTargetId("");
+      fetchGrants();
+    } catch {
+      setError("Request failed.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async (id: string) => {
+    const res = await fetch(`/api/vault/grants/${encodeURIComponent(id)}`, {
+      method: "DELETE",
+      credentials: "include",
+    });
+    if (res.ok) fetchGrants();
+  };
+
+  return (
+    <div className="card" style={{ padding: "1rem", marginTop: "0.75rem" }}>
+      <div
+        style={{
+          fontSize: "0.85rem",
+          fontWeight: 600,
+          marginBottom: "0.35rem",
+          display: "flex",
+          alignItems: "center",
+          gap: "0.4rem",
+        }}
+      >
+        <KeyRound size={16} /> Background access
+      </div>
+      <p style={{ fontSize: "0.78rem", color: "var(--text-muted)", margin: "0 0 0.75rem" }}>
+        Scheduled and triggered runs cannot unlock the vault. Grant a workflow or agent the
+        credentials it needs; only those keys are readable, and each read is recorded in the
+        run&apos;s execution log. Grants apply to workflow runs and their agents; the chat assistant
+        and Telegram still need the vault unlocked.
+      </p>
+
+      {grants.length > 0 && (
+        <ul
+          style={{
+            listStyle: "none",
+            padding: 0,
+            margin: "0 0 0.75rem",
+            display: "flex",
+            flexDirection: "column",
+            gap: "0.35rem",
+          }}
+        >
+          {grants.map((grant) => (
+            <li
+              key={grant.id}
+              style={{
+                display: "flex",
+                alignItems: "center",
+                justifyContent: "space-between",
+                gap: "0.5rem",
+                padding: "0.5rem 0.6rem",
+                background: "var(--surface-muted)",
+                borderRadius: 6,
+                fontSize: "0.82rem",
+              }}
+            >
+              <span style={{ wordBreak: "break-all" }}>
+                <code>{grant.credentialKey}</code> → {grant.targetType} {targetName(grant)}
+                <span style={{ color: "var(--text-muted)" }}>
+                  {" · "}
+                  {grant.lastUsedAt
+                    ? `last used ${new Date(grant.lastUsedAt).toLocaleString()}`
+                    : "not used yet"}
+                </span>
+              </span>
+              <button
+                type="button"
+                className="button button-ghost button-small"
+                title="Revoke"
+                style={{ color: "var(--danger, #ef4444)", flexShrink: 0 }}
+                onClick={() => handleRevoke(grant.id)}
+              >
+                <Trash2 size={14} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div style={{ display: "flex", gap: "0.5rem", flexWrap: "wrap", alignItems: "center" }}>
+        <select
+          className="select"
+          value={credentialKey}
+          onChange={(e) => setCredentialKey(e.target.value)}
+        >
+          <option value="">Credential…</option>
+          {credentialKeys.map((key) => (
+            <option key={key} value={key}>
+              {key}
+            </option>
+          ))}
+        </select>
+        <select
+          className="select"
+          value={targetType}
+          onChange={(e) => {
+            setTargetType(e.target.value as TargetType);
+            setTargetId("");
+          }}
+        >
+          <option value="workflow">Workflow</option>
+          <option value="agent">Agent</option>
+        </select>
+        <select className="select" value={targetId} onChange={(e) => setTargetId(e.target.value)}>
+          <option value="">{targetType === "workflow" ? "Workflow…" : "Agent…"}</option>
+          {targets.map((t) => (
+            <option key={t.id} value={t.id}>
+              {t.name}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          className="button button-small"
+          disabled={saving || !credentialKey || !targetId}
+          onClick={handleGrant}
+        >
+          {saving ? "Granting…" : "Grant"}
+        </button>
+      </div>
+      {error && (
+        <p style={{ fontSize: "0.8rem", color: "var(--danger, #ef4444)", margin: "0.5rem 0 0" }}>
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
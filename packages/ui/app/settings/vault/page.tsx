@@ -4,8 +4,10 @@ import { useEffect, useState, useRef } from "react";
 import Link from "next/link";
 import { Lock, Unlock, Trash2, Pencil, Upload, Plus } from "lucide-react";
 import ConfirmModal from "../../components/confirm-modal";
+import CredentialGrants from "./credential-grants";
+import VaultKeys, { RecoveryKeyNotice, RecoveryReset } from "./vault-keys";
 
-type VaultStatus = { locked: boolean; vaultExists: boolean };
+type VaultStatus = { locked: boolean; vaultExists: boolean; hasRecoveryKey?: boolean };
 type CredentialKey = { key: string; createdAt: number };
 
 export default function VaultSettingsPage() {
@@ -15,6 +17,8 @@ export default function VaultSettingsPage() {
   const [masterPassword, setMasterPassword] = useState("");
   const [vaultError, setVaultError] = useState<string | null>(null);
   const [vaultLoading, setVaultLoading] = useState(false);
+  const [withRecoveryKey, setWithRecoveryKey] = useState(true);
+  const [recoveryKey, setRecoveryKey] = useState<string | null>(null);
   const [editingKey, setEditingKey] = useState<string | null>(null);
   const [editSaving, setEditSaving] = useState(false);
   const [clearModal, setClearModal] = useState(false);
@@ -64,13 +68,17 @@ export default function VaultSettingsPage() {
         method: "POST",
         credentials: "include",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ masterPassword: masterPassword.trim() }),
+        body: JSON.stringify({
+          masterPassword: masterPassword.trim(),
+          ...(!status?.vaultExists && { recoveryKey: withRecoveryKey }),
+        }),
       });
       const data = await res.json();
       if (!res.ok) {
         setVaultError(data.error ?? "Failed");
         return;
       }
+      if (typeof data.recoveryKey === "string") setRecoveryKey(data.recoveryKey);
       setMasterPassword("");
       await fetchStatus();
       if (status?.vaultExists) await fetchKeys();
@@ -270,6 +278,16 @@ export default function VaultSettingsPage() {
             >
               {vaultLoading ? "…" : "Create vault"}
             </button>
+            <label
+              style={{ display: "flex", alignItems: "center", gap: "0.4rem", fontSize: "0.82rem" }}
+            >
+              <input
+                type="checkbox"
+                checked={withRecoveryKey}
+                onChange={(e) => setWithRecoveryKey(e.target.checked)}
+              />
+              Create a recovery key
+            </label>
             {vaultError && (
               <span style={{ fontSize: "0.82rem", color: "#dc2626" }}>{vaultError}</span>
             )}
@@ -319,11 +337,15 @@ export default function VaultSettingsPage() {
               <span style={{ fontSize: "0.82rem", color: "#dc2626" }}>{vaultError}</span>
             )}
           </div>
+          {status.hasRecoveryKey && <RecoveryReset onReset={fetchStatus} />}
         </div>
       )}
 
       {status.vaultExists && !status.locked && (
         <>
+          {recoveryKey && (
+            <RecoveryKeyNotice recoveryKey={recoveryKey} onDismiss={() => setRecoveryKey(null)} />
+          )}
           <div className="card" style={{ padding: "1rem", marginBottom: "0.75rem" }}>
             <div
               style={{
@@ -680,6 +702,13 @@ export default function VaultSettingsPage() {
               </p>
             </div>
           </div>
+
+          <CredentialGrants credentialKeys={keys.map((k) => k.key)} />
+          <VaultKeys
+            hasRecoveryKey={!!status.hasRecoveryKey}
+            onRecoveryKey={setRecoveryKey}
+            onChanged={() => Promise.all([fetchStatus(), fetchKeys()])}
+          />
         </>
       )}
 
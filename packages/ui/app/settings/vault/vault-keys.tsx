@@ -0,0 +1,351 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Download, KeyRound, Upload } from "lucide-react";
+
+const mutedText = { fontSize: "0.78rem", color: "var(--text-muted)", margin: "0 0 0.5rem" };
+const errorText = { fontSize: "0.8rem", color: "var(--danger, #ef4444)", margin: "0.35rem 0 0" };
+const sectionTitle = { fontSize: "0.82rem", fontWeight: 600, margin: "0.75rem 0 0.35rem" };
+const row = {
+  display: "flex",
+  gap: "0.5rem",
+  flexWrap: "wrap" as const,
+  alignItems: "center",
+};
+
+async function postJson(url: string, body?: unknown, method = "POST") {
+  const res = await fetch(url, {
+    method,
+    credentials: "include",
+    headers: { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const data = await res.json().catch(() => ({}));
+  return { ok: res.ok, data };
+}
+
+/** Shows a just-created recovery key once, until the user confirms they saved it. */
+export function RecoveryKeyNotice({
+  recoveryKey,
+  onDismiss,
+}: {
+  recoveryKey: string;
+  onDismiss: () => void;
+}) {
+  return (
+    <div className="card" style={{ padding: "1rem", marginBottom: "0.75rem" }}>
+      <div style={{ fontSize: "0.85rem", fontWeight: 600, marginBottom: "0.35rem" }}>
+        Your recovery key
+      </div>
+      <p style={mutedText}>
+        Store it somewhere safe. It can reset the master password if you forget it, and it is not
+        shown again.
+      </p>
+      <div style={row}>
+        <code style={{ fontSize: "0.9rem", userSelect: "all" }}>{recoveryKey}</code>
+        <button type="button" className="button button-small" onClick={onDismiss}>
+          I saved it
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/** Locked vault: set a new master password with the recovery key. */
+export function RecoveryReset({ onReset }: { onReset: () => void }) {
+  const [open, setOpen] = useState(false);
+  const [recoveryKey, setRecoveryKey] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        className="button button-ghost button-small"
+        style={{ marginTop: "0.5rem" }}
+        onClick={() => setOpen(true)}
+      >
+        Forgot the master password?
+      </button>
+    );
+  }
+
+  const handleReset = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const { ok, data } = await postJson("/api/vault/rotate", {
+        recoveryKey: recoveryKey.trim(),
+        newPassword: newPassword.trim(),
+      });
+      if (!ok) {
+        setError(data.error ?? "Reset failed.");
+        return;
+      }
+      setRecoveryKey("");
+      setNewPassword("");
+      onReset();
+    } catch {
+      setError("Request failed.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div style={{ marginTop: "0.75rem" }}>
+      <div style={sectionTitle}>Reset with recovery key</div>
+      <div className="form-group" style={{ maxWidth: 320 }}>
+        <input
+          type="text"
+          className="input"
+          placeholder="Recovery key"
+          value={recoveryKey}
+          onChange={(e) => setRecoveryKey(e.target.value)}
+          aria-label="Recovery key"
+        />
+        <input
+          type="password"
+          className="input"
+          placeholder="New master password"
+          value={newPassword}
+          onChange={(e) => setNewPassword(e.target.value)}
+          aria-label="New master password"
+        />
+        <button
+          type="button"
+          className="button"
+          disabled={saving || !recoveryKey.trim() || !newPassword.trim()}
+          onClick={handleReset}
+        >
+          {saving ? "…" : "Reset password"}
+        </button>
+        {error && <span style={errorText}>{error}</span>}
+      </div>
+    </div>
+  );
+}
+
+type Props = {
+  hasRecoveryKey: boolean;
+  /** Called with a newly created recovery key, to show it once. */
+  onRecoveryKey: (recoveryKey: string) => void;
+  /** Called after the password changed, a recovery key was removed or credentials were imported. */
+  onChanged: () => void;
+};
+
+/**
+ * Unlocked vault: change the master password, manage the recovery key, and move credentials to
+ * another machine as a passphrase-encrypted file.
+ */
+export default function VaultKeys({ hasRecoveryKey, onRecoveryKey, onChanged }: Props) {
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [passphrase, setPassphrase] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const run = async (action: () => Promise<string | null>) => {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      setMessage(await action());
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Request failed.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRotate = () =>
+    run(async () => {
+      const { ok, data } = await postJson("/api/vault/rotate", {
+        currentPassword: currentPassword.trim(),
+        newPassword: newPassword.trim(),
+      });
+      if (!ok) throw new Error(data.error ?? "Could not change the password.");
+      setCurrentPassword("");
+      setNewPassword("");
+      onChanged();
+      return "Master password changed. Other browsers need to unlock again.";
+    });
+
+  const handleNewRecoveryKey = () =>
+    run(async () => {
+      const { ok, data } = await postJson("/api/vault/recovery-key");
+      if (!ok) throw new Error(data.error ?? "Could not create a recovery key.");
+      onRecoveryKey(data.recoveryKey);
+      onChanged();
+      return null;
+    });
+
+  const handleRemoveRecoveryKey = () =>
+    run(async () => {
+      const { ok, data } = await postJson("/api/vault/recovery-key", undefined, "DELETE");
+      if (!ok) throw new Error(data.error ?? "Could not remove the recovery key.");
+      onChanged();
+      return "Recovery key removed.";
+    });
+
+  const handleExport = () =>
+    run(async () => {
+      const res = await fetch("/api/vault/export", {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ passphrase: passphrase.trim() }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error ?? "Export failed.");
+      }
+      const blob = await res.blob();
+      const filename =
+        res.headers.get("Content-Disposition")?.match(/filename="(.+)"/)?.[1] ??
+        "agentron-vault.json";
+      const a = document.createElement("a");
+      a.href = URL.createObjectURL(blob);
+      a.download = filename;
+      a.click();
+      URL.revokeObjectURL(a.href);
+      return "Export downloaded. Keep the passphrase; it is needed to import the file.";
+    });
+
+  const handleImport = (file: File) =>
+    run(async () => {
+      const { ok, data } = await postJson("/api/vault/import", {
+        passphrase: passphrase.trim(),
+        file: await file.text(),
+      });
+      if (!ok) throw new Error(data.error ?? "Import failed.");
+      onChanged();
+      return `Imported ${data.imported} credential(s).`;
+    });
+
+  return (
+    <div className="card" style={{ padding: "1rem", marginTop: "0.75rem" }}>
+      <div
+        style={{
+          fontSize: "0.85rem",
+          fontWeight: 600,
+          display: "flex",
+          alignItems: "center",
+          gap: "0.4rem",
+        }}
+      >
+        <KeyRound size={16} /> Master password and backups
+      </div>
+
+      <div style={sectionTitle}>Change master password</div>
+      <p style={mutedText}>All stored credentials are re-encrypted with the new password.</p>
+      <div style={row}>
+        <input
+          type="password"
+          className="input"
+          style={{ maxWidth: 200 }}
+          placeholder="Current password"
+          value={currentPassword}
+          onChange={(e) => setCurrentPassword(e.target.value)}
+          aria-label="Current master password"
+        />
+        <input
+          type="password"
+          className="input"
+          style={{ maxWidth: 200 }}
+          placeholder="New password"
+          value={newPassword}
+          onChange={(e) => setNewPassword(e.target.value)}
+          aria-label="New master password"
+        />
+        <button
+          type="button"
+          className="button button-small"
+          disabled={busy || !currentPassword.trim() || !newPassword.trim()}
+          onClick={handleRotate}
+        >
+          Change
+        </button>
+      </div>
+
+      <div style={sectionTitle}>Recovery key</div>
+      <p style={mutedText}>
+        {hasRecoveryKey
+          ? "A recovery key can reset the master password. Creating a new one invalidates the old key."
+          : "No recovery key. Without one, a forgotten master password means losing the stored credentials."}
+      </p>
+      <div style={row}>
+        <button
+          type="button"
+          className="button button-small"
+          disabled={busy}
+          onClick={handleNewRecoveryKey}
+        >
+          {hasRecoveryKey ? "Create new recovery key" : "Create recovery key"}
+        </button>
+        {hasRecoveryKey && (
+          <button
+            type="button"
+            className="button button-ghost button-small"
+            disabled={busy}
+            onClick={handleRemoveRecoveryKey}
+          >
+            Remove
+          </button>
+        )}
+      </div>
+
+      <div style={sectionTitle}>Encrypted export</div>
+      <p style={mutedText}>
+        Move credentials to another machine. The file is encrypted with the passphrase below, not
+        with the master password. Database backups do not replace this: their credentials only open
+        with this vault&apos;s master password.
+      </p>
+      <div style={row}>
+        <input
+          type="password"
+          className="input"
+          style={{ maxWidth: 200 }}
+          placeholder="Export passphrase"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          aria-label="Export passphrase"
+        />
+        <button
+          type="button"
+          className="button button-small"
+          disabled={busy || !passphrase.trim()}
+          onClick={handleExport}
+        >
+          <Download size={14} /> Export
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          style={{ display: "none" }}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = "";
+            if (file) handleImport(file);
+          }}
+        />
+        <button
+          type="button"
+          className="button button-ghost button-small"
+          disabled={busy || !passphrase.trim()}
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <Upload size={14} /> Import
+        </button>
+      </div>
+
+      {message && <p style={{ ...mutedText, margin: "0.5rem 0 0" }}>{message}</p>}
+      {error && <p style={errorText}>{error}</p>}
+    </div>
+  );
+}
@@ -12,11 +12,18 @@ import {
   Play,
   FileEdit,
   ListChecks,
+  Zap,
 } from "lucide-react";
 import ConfirmModal from "../../components/confirm-modal";
 import WorkflowCanvas from "./workflow-canvas";
 import { getNextNodePosition, getWorkflowGridOptions } from "../../lib/canvas-layout";
 import WorkflowStackTracesView from "./workflow-stack-traces-view";
+import WorkflowTriggersView from "./workflow-triggers-view";
+import WorkflowIOFields, { type WorkflowIOText } from "./workflow-io-fields";
+import WorkflowRunForm, {
+  type WorkflowFieldError,
+  type WorkflowInputSchema,
+} from "./workflow-run-form";
 
 type Workflow = {
   id: string;
@@ -26,8 +33,23 @@ type Workflow = {
   edges: unknown[];
   executionMode: string;
   schedule?: string;
+  timezone?: string;
+  catchUp?: CatchUp;
   maxRounds?: number | null;
   turnInstruction?: string | null;
+  inputSchema?: WorkflowInputSchema | null;
+  outputSchema?: WorkflowInputSchema | null;
+  outputMapping?: Record<string, string> | null;
+};
+
+type CatchUp = "skip" | "run_once" | "run_all";
+
+/** Saved schedule state and a preview of upcoming fire times (GET /api/workflows/:id/schedule). */
+type SchedulePreview = {
+  upcoming: number[];
+  timezone: string;
+  lastRunAt?: number | null;
+  error?: string;
 };
 
 type Agent = { id: string; name: string };
@@ -38,7 +60,14 @@ type WfNode = {
   position: [number, number];
   parameters?: Record<string, unknown>;
 };
-type WfEdge = { id: string; source: string; target: string; data?: { label?: string } };
+type WfEdge = {
+  id: string;
+  source: string;
+  target: string;
+  branch?: string;
+  condition?: unknown;
+  data?: { label?: string };
+};
 
 const INTERVAL_PRESETS = [
   { value: "60", label: "Every 1 minute" },
@@ -51,17 +80,25 @@ const INTERVAL_PRESETS = [
   { value: "2592000", label: "Monthly (30 days)" },
 ] as const;
 
-const SCHEDULE_TYPES = ["interval", "daily", "weekly"] as const;
+const SCHEDULE_TYPES = ["interval", "daily", "weekly", "cron"] as const;
 type ScheduleType = (typeof SCHEDULE_TYPES)[number];
 
 const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
 
+const CATCH_UP_LABELS: Record<CatchUp, string> = {
+  skip: "Skip missed runs",
+  run_once: "Run once for all missed runs",
+  run_all: "Run every missed run",
+};
+
+function isIntervalSeconds(schedule: string): boolean {
+  return /^\d+$/.test(schedule.trim());
+}
+
 function scheduleToPreset(schedule: string): string {
   const s = schedule.trim();
   if (!s) return "";
-  if (s.startsWith("daily@")) return "";
-  if (s.startsWith("weekly@")) return "";
-  if (s.startsWith("monthly@")) return "";
+  if (!isIntervalSeconds(s)) return "";
   const n = parseInt(s, 10);
   if (Number.isNaN(n)) return "custom";
   const found = INTERVAL_PRESETS.find((p) => p.value === String(n));
@@ -73,7 +110,7 @@ function scheduleToScheduleType(schedule: string): ScheduleType {
   if (!s) return "interval";
   if (s.startsWith("daily@")) return "daily";
   if (s.startsWith("weekly@")) return "weekly";
-  return "interval";
+  return isIntervalSeconds(s) ? "interval" : "cron";
 }
 
 function parseCalendarSchedule(schedule: string): {
@@ -97,7 +134,7 @@ function parseCalendarSchedule(schedule: string): {
 
 function scheduleToCustomDisplay(schedule: string): { value: number; unit: "minutes" | "hours" } {
   const s = schedule.trim();
-  if (s.startsWith("daily@") || s.startsWith("weekly@")) return { value: 5, unit: "minutes" };
+  if (!isIntervalSeconds(s)) return { value: 5, unit: "minutes" };
   const n = parseInt(s, 10);
   if (Number.isNaN(n) || n <= 0) return { value: 5, unit: "minutes" };
   if (n >= 3600 && n % 3600 === 0) return { value: n / 3600, unit: "hours" };
@@ -131,7 +168,20 @@ export default function WorkflowDetailPage() {
   const [customIntervalUnit, setCustomIntervalUnit] = useState<"minutes" | "hours">("minutes");
   const [calendarDailyTime, setCalendarDailyTime] = useState("09:00");
   const [calendarWeeklyDays, setCalendarWeeklyDays] = useState<number[]>([1]);
-  const [detailTab, setDetailTab] = useState<"editor" | "traces">("editor");
+  const [cronExpression, setCronExpression] = useState("0 9 * * 1-5");
+  const [timezone, setTimezone] = useState("");
+  const [catchUp, setCatchUp] = useState<CatchUp>("skip");
+  const [schedulePreview, setSchedulePreview] = useState<SchedulePreview | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [detailTab, setDetailTab] = useState<"editor" | "traces" | "triggers">("editor");
+  const [ioText, setIoText] = useState<WorkflowIOText>({
+    inputSchema: "",
+    outputSchema: "",
+    outputMapping: "",
+  });
+  const [showRunForm, setShowRunForm] = useState(false);
+  const [runError, setRunError] = useState<string | null>(null);
+  const [runFieldErrors, setRunFieldErrors] = useState<WorkflowFieldError[]>([]);
 
   useEffect(() => {
     fetch("/api/agents")
@@ -193,19 +243,47 @@ export default function WorkflowDetailPage() {
     setEdges(JSON.stringify(newEdges, null, 2));
   }, []);
 
-  const executeWorkflow = useCallback(async () => {
-    if (!workflowId) return;
-    setExecuting(true);
-    try {
-      const res = await fetch(`/api/workflows/${workflowId}/execute`, { method: "POST" });
-      const data = res.ok ? await res.json() : null;
-      if (data?.id) {
-        router.push(`/runs/${data.id}`);
+  const runWorkflowWithInputs = useCallback(
+    async (inputs?: Record<string, unknown>) => {
+      if (!workflowId) return;
+      setExecuting(true);
+      setRunError(null);
+      setRunFieldErrors([]);
+      try {
+        const res = await fetch(`/api/workflows/${workflowId}/execute`, {
+          method: "POST",
+          ...(inputs && {
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ inputs }),
+          }),
+        });
+        const data = await res.json().catch(() => null);
+        if (!res.ok) {
+          setRunError(data?.error ?? "Could not start the run");
+          setRunFieldErrors(Array.isArray(data?.fields) ? data.fields : []);
+          return;
+        }
+        if (data?.id) {
+          setShowRunForm(false);
+          router.push(`/runs/${data.id}`);
+        }
+      } finally {
+        setExecuting(false);
       }
-    } finally {
-      setExecuting(false);
+    },
+    [workflowId, router]
+  );
+
+  /** Opens the run form when the workflow declares inputs; otherwise runs right away. */
+  const executeWorkflow = useCallback(() => {
+    if (Object.keys(workflow?.inputSchema?.properties ?? {}).length > 0) {
+      setRunError(null);
+      setRunFieldErrors([]);
+      setShowRunForm(true);
+      return;
     }
-  }, [workflowId, router]);
+    void runWorkflowWithInputs();
+  }, [workflow, runWorkflowWithInputs]);
 
   useEffect(() => {
     if (!workflowId) {
@@ -229,10 +307,19 @@ export default function WorkflowDetailPage() {
         const cal = parseCalendarSchedule(s);
         setCalendarDailyTime(cal.dailyTime);
         setCalendarWeeklyDays(cal.weeklyDays.length ? cal.weeklyDays : [1]);
+        if (scheduleToScheduleType(s) === "cron") setCronExpression(s);
+        setTimezone(data.timezone ?? "");
+        setCatchUp(data.catchUp ?? "skip");
         setMaxRounds(data.maxRounds != null ? String(data.maxRounds) : "");
         setTurnInstruction(data.turnInstruction ?? "");
         setNodes(JSON.stringify(data.nodes ?? [], null, 2));
         setEdges(JSON.stringify(data.edges ?? [], null, 2));
+        const json = (v: unknown) => (v ? JSON.stringify(v, null, 2) : "");
+        setIoText({
+          inputSchema: json(data.inputSchema),
+          outputSchema: json(data.outputSchema),
+          outputMapping: json(data.outputMapping),
+        });
       })
       .finally(() => setLoading(false));
   }, [workflowId]);
@@ -249,6 +336,7 @@ export default function WorkflowDetailPage() {
         .filter((d, i, arr) => arr.indexOf(d) === i);
       return days.length ? `weekly@${days.join(",")}` : "";
     }
+    if (scheduleType === "cron") return cronExpression.trim();
     if (intervalPreset && intervalPreset !== "custom") return intervalPreset;
     const value = Math.max(1, customIntervalValue);
     const seconds = customIntervalUnit === "hours" ? value * 3600 : value * 60;
@@ -261,11 +349,47 @@ export default function WorkflowDetailPage() {
     customIntervalUnit,
     calendarDailyTime,
     calendarWeeklyDays,
+    cronExpression,
   ]);
 
+  const scheduleToPreview = getScheduleToSave();
+  useEffect(() => {
+    if (!workflowId || !scheduleToPreview) {
+      setSchedulePreview(null);
+      return;
+    }
+    const query = new URLSearchParams({ schedule: scheduleToPreview, count: "5" });
+    if (timezone.trim()) query.set("timezone", timezone.trim());
+    let cancelled = false;
+    const t = setTimeout(() => {
+      Promise.all([
+        fetch(`/api/workflows/${workflowId}/schedule?${query}`).then((r) => r.json()),
+        fetch(`/api/workflows/${workflowId}/schedule`).then((r) => r.json()),
+      ])
+        .then(([preview, saved]) => {
+          if (cancelled) return;
+          const savedState = Array.isArray(saved?.schedules) ? saved.schedules[0] : undefined;
+          setSchedulePreview({
+            upcoming: Array.isArray(preview?.upcoming) ? preview.upcoming : [],
+            timezone: preview?.timezone ?? timezone,
+            lastRunAt: savedState?.lastRunAt ?? null,
+            ...(preview?.error && { error: preview.error }),
+          });
+        })
+        .catch(() => {
+          if (!cancelled) setSchedulePreview(null);
+        });
+    }, 400);
+    return () => {
+      cancelled = true;
+      clearTimeout(t);
+    };
+  }, [workflowId, scheduleToPreview, timezone, workflow]);
+
   const save = async () => {
     if (!workflow) return;
     setSaving(true);
+    setSaveError(null);
     let parsedNodes: unknown[] = [];
     let parsedEdges: unknown[] = [];
     try {
@@ -275,6 +399,20 @@ export default function WorkflowDetailPage() {
       setSaving(false);
       return;
     }
+    const io: Record<string, unknown> = {};
+    for (const [key, text, label] of [
+      ["inputSchema", ioText.inputSchema, "Input schema"],
+      ["outputSchema", ioText.outputSchema, "Output schema"],
+      ["outputMapping", ioText.outputMapping, "Output mapping"],
+    ] as const) {
+      try {
+        io[key] = text.trim() ? JSON.parse(text) : null;
+      } catch {
+        setSaveError(`${label} is not valid JSON`);
+        setSaving(false);
+        return;
+      }
+    }
     const scheduleToSave = getScheduleToSave();
     const res = await fetch(`/api/workflows/${workflowId}`, {
       method: "PUT",
@@ -284,15 +422,21 @@ export default function WorkflowDetailPage() {
         name,
         executionMode: mode,
         schedule: scheduleToSave || undefined,
+        timezone: timezone.trim() || undefined,
+        catchUp: catchUp === "skip" ? undefined : catchUp,
         maxRounds: maxRounds.trim() === "" ? undefined : Math.max(1, parseInt(maxRounds, 10) || 1),
         turnInstruction: turnInstruction.trim() || undefined,
         nodes: parsedNodes,
         edges: parsedEdges,
+        ...io,
       }),
     });
     if (res.ok) {
       const updated = await res.json();
       setWorkflow(updated);
+    } else {
+      const data = await res.json().catch(() => ({}));
+      setSaveError(data.error ?? "Could not save workflow");
     }
     setSaving(false);
   };
@@ -353,7 +497,17 @@ export default function WorkflowDetailPage() {
         }}
       >
         <h1 style={{ margin: 0, fontSize: "1.35rem" }}>{name || "Untitled Workflow"}</h1>
-        <div style={{ display: "flex", gap: "0.4rem" }}>
+        <div style={{ display: "flex", gap: "0.4rem", alignItems: "center" }}>
+          {saveError && (
+            <span style={{ fontSize: "0.8rem", color: "#dc2626" }} title={saveError}>
+              {saveError}
+            </span>
+          )}
+          {runError && !showRunForm && (
+            <span style={{ fontSize: "0.8rem", color: "#dc2626" }} title={runError}>
+              {runError}
+            </span>
+          )}
           <button
             type="button"
             className="button button-success"
@@ -421,7 +575,27 @@ export default function WorkflowDetailPage() {
         >
           <ListChecks size={16} /> Stack traces
         </button>
+        <button
+          type="button"
+          onClick={() => setDetailTab("triggers")}
+          style={{
+            padding: "0.5rem 1rem",
+            background: detailTab === "triggers" ? "var(--surface-muted)" : "transparent",
+            border: "none",
+            borderBottom:
+              detailTab === "triggers" ? "2px solid var(--primary)" : "2px solid transparent",
+            cursor: "pointer",
+            fontSize: "0.9rem",
+            fontWeight: 500,
+            display: "inline-flex",
+            alignItems: "center",
+            gap: "0.35rem",
+          }}
+        >
+          <Zap size={16} /> Triggers
+        </button>
       </div>
+      {detailTab === "triggers" && <WorkflowTriggersView workflowId={workflowId} />}
       {detailTab === "traces" && (
         <div className="card" style={{ padding: "0", overflow: "hidden", minHeight: 360 }}>
           <WorkflowStackTracesView workflowId={workflowId} />
@@ -459,6 +633,7 @@ export default function WorkflowDetailPage() {
                     <option value="interval">Interval (every X)</option>
                     <option value="daily">Daily at time</option>
                     <option value="weekly">Weekly on days</option>
+                    <option value="cron">Cron expression</option>
                   </select>
                 </div>
                 {scheduleType === "interval" && (
@@ -561,6 +736,89 @@ export default function WorkflowDetailPage() {
                     </div>
                   </div>
                 )}
+                {scheduleType === "cron" && (
+                  <div className="field">
+                    <label>Cron expression</label>
+                    <input
+                      className="input"
+                      style={{ fontFamily: "monospace" }}
+                      value={cronExpression}
+                      onChange={(e) => setCronExpression(e.target.value)}
+                      placeholder="0 9 * * 1-5"
+                    />
+                    <p
+                      style={{
+                        fontSize: "0.8rem",
+                        color: "var(--text-muted)",
+                        margin: "0.25rem 0 0 0",
+                      }}
+                    >
+                      minute hour day-of-month month day-of-week (add a leading seconds field for 6
+                      fields), e.g. <code>*/15 * * * *</code> or <code>0 9 * * MON-FRI</code>.
+                    </p>
+                  </div>
+                )}
+                {scheduleType !== "interval" && (
+                  <div className="field">
+                    <label>Timezone</label>
+                    <input
+                      className="input"
+                      list="workflow-timezones"
+                      value={timezone}
+                      onChange={(e) => setTimezone(e.target.value)}
+                      placeholder={`Server timezone (${Intl.DateTimeFormat().resolvedOptions().timeZone})`}
+                    />
+                    <datalist id="workflow-timezones">
+                      {(typeof Intl.supportedValuesOf === "function"
+                        ? Intl.supportedValuesOf("timeZone")
+                        : []
+                      ).map((tz) => (
+                        <option key={tz} value={tz} />
+                      ))}
+                    </datalist>
+                  </div>
+                )}
+                <div className="field">
+                  <label>Missed runs (app was not running)</label>
+                  <select
+                    className="select"
+                    value={catchUp}
+                    onChange={(e) => setCatchUp(e.target.value as CatchUp)}
+                  >
+                    {(Object.keys(CATCH_UP_LABELS) as CatchUp[]).map((c) => (
+                      <option key={c} value={c}>
+                        {CATCH_UP_LABELS[c]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                {schedulePreview && (
+                  <div className="field" style={{ fontSize: "0.8rem", color: "var(--text-muted)" }}>
+                    {schedulePreview.error ? (
+                      <span style={{ color: "#dc2626" }}>{schedulePreview.error}</span>
+                    ) : (
+                      <>
+                        <div>Next runs ({schedulePreview.timezone}):</div>
+                        <ul style={{ margin: "0.25rem 0 0 1rem", padding: 0 }}>
+                          {schedulePreview.upcoming.map((t) => (
+                            <li key={t}>
+                              {new Date(t).toLocaleString(undefined, {
+                                timeZone: schedulePreview.timezone,
+                                dateStyle: "medium",
+                                timeStyle: "short",
+                              })}
+                            </li>
+                          ))}
+                        </ul>
+                        {schedulePreview.lastRunAt != null && (
+                          <div style={{ marginTop: "0.25rem" }}>
+                            Last run: {new Date(schedulePreview.lastRunAt).toLocaleString()}
+                          </div>
+                        )}
+                      </>
+                    )}
+                  </div>
+                )}
               </>
             )}
             <div className="field">
@@ -635,6 +893,7 @@ export default function WorkflowDetailPage() {
               onAddNodeAt={addAgentNodeAt}
             />
           </div>
+          <WorkflowIOFields value={ioText} onChange={setIoText} />
           <div className="card form form-wide">
             <button
               type="button"
@@ -679,6 +938,16 @@ export default function WorkflowDetailPage() {
           </div>
         </>
       )}
+      {showRunForm && (
+        <WorkflowRunForm
+          schema={workflow.inputSchema ?? {}}
+          running={executing}
+          error={runError}
+          fieldErrors={runFieldErrors}
+          onRun={(inputs) => void runWorkflowWithInputs(inputs)}
+          onCancel={() => !executing && setShowRunForm(false)}
+        />
+      )}
       <ConfirmModal
         open={showDeleteModal}
         title="Delete workflow"
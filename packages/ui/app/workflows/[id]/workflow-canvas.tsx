@@ -20,7 +20,7 @@ import {
   type EdgeChange,
 } from "@xyflow/react";
 import "@xyflow/react/dist/style.css";
-import { User, LayoutGrid, X } from "lucide-react";
+import { User, LayoutGrid, X, GitBranch } from "lucide-react";
 import { CanvasNodeCard } from "../../components/canvas-node-card";
 import { CanvasLabelEdge } from "../../components/canvas-label-edge";
 import {
@@ -37,10 +37,18 @@ type WfNode = {
   position: [number, number];
   parameters?: Record<string, unknown>;
 };
-export type WfEdge = { id: string; source: string; target: string; data?: { label?: string } };
+export type WfEdge = {
+  id: string;
+  source: string;
+  target: string;
+  /** Branch of a routing node (condition, switch, for_each) this edge belongs to. */
+  branch?: string;
+  condition?: unknown;
+  data?: { label?: string };
+};
 
 type FlowNodeData = {
-  nodeType: "agent";
+  nodeType: string;
   agentId?: string;
   agentName?: string;
   agents: Agent[];
@@ -80,7 +88,62 @@ function AgentNode({ id, data, selected }: NodeProps<Node<FlowNodeData>>) {
   );
 }
 
-const nodeTypes = { agent: AgentNode };
+/** Labels for control-flow node types; their config is edited as JSON via the workflow tools. */
+const CONTROL_NODE_LABELS: Record<string, string> = {
+  condition: "Condition",
+  switch: "Switch",
+  for_each: "For each",
+  loop: "For each",
+  merge: "Merge",
+  delay: "Delay",
+  set_context: "Set context",
+};
+
+function controlNodeSummary(nodeType: string, params: Record<string, unknown>): string {
+  if (typeof params.expression === "string") return params.expression;
+  if (nodeType === "for_each" || nodeType === "loop") {
+    return typeof params.items === "string" ? params.items : "previous output";
+  }
+  if (nodeType === "delay") {
+    if (typeof params.seconds === "number") return `${params.seconds}s`;
+    if (typeof params.ms === "number") return `${params.ms}ms`;
+  }
+  if (nodeType === "merge") return typeof params.mode === "string" ? params.mode : "object";
+  if (nodeType === "set_context") {
+    const keys = [
+      ...Object.keys((params.values as object) ?? {}),
+      ...Object.keys((params.expressions as object) ?? {}),
+    ];
+    return keys.join(", ");
+  }
+  return "";
+}
+
+function ControlNode({ id, data, selected }: NodeProps<Node<FlowNodeData>>) {
+  const summary = controlNodeSummary(data.nodeType, data.parameters ?? {});
+  return (
+    <CanvasNodeCard
+      icon={<GitBranch size={14} style={{ color: "var(--text-muted)" }} />}
+      label={CONTROL_NODE_LABELS[data.nodeType] ?? data.nodeType}
+      selected={selected}
+      onRemove={() => data.onRemove?.(id)}
+      minWidth={140}
+      maxWidth={240}
+    >
+      <code
+        style={{
+          fontSize: "0.75rem",
+          color: summary ? "var(--text)" : "var(--text-muted)",
+          wordBreak: "break-word",
+        }}
+      >
+        {summary || "—"}
+      </code>
+    </CanvasNodeCard>
+  );
+}
+
+const nodeTypes = { agent: AgentNode, control: ControlNode };
 
 function toFlowNodes(
   wfNodes: WfNode[],
@@ -100,13 +163,14 @@ function toFlowNodes(
     const params = n.parameters ?? {};
     const agentId = (params.agentId as string) ?? "";
     const agent = agents.find((a) => a.id === agentId);
+    const nodeType = n.type || "agent";
     return {
       id: n.id,
-      type: "agent",
+      type: nodeType === "agent" ? "agent" : "control",
       position: pos,
       dragHandle: ".drag-handle",
       data: {
-        nodeType: "agent",
+        nodeType,
         agentId,
         agentName: agent?.name ?? "Agent",
         agents,
@@ -124,35 +188,50 @@ function toFlowEdges(wfEdges: WfEdge[]): Edge[] {
     source: e.source,
     target: e.target,
     type: "labelEdge",
-    data: { label: e.data?.label ?? "" },
+    data: {
+      label: e.data?.label || e.branch || "",
+      customLabel: e.data?.label,
+      branch: e.branch,
+      condition: e.condition,
+    },
   }));
 }
 
 /** Emit n8n-style canvas format (position: [x,y], parameters; edges with source/target). */
 function fromFlowNodes(nodes: Node<FlowNodeData>[]): WfNode[] {
-  return nodes.map((n) => ({
-    id: n.id,
-    type: "agent",
-    position: [n.position?.x ?? 0, n.position?.y ?? 0],
-    parameters: { ...(n.data?.parameters ?? {}), agentId: n.data?.agentId },
-  }));
+  return nodes.map((n) => {
+    const nodeType = n.data?.nodeType || "agent";
+    return {
+      id: n.id,
+      type: nodeType,
+      position: [n.position?.x ?? 0, n.position?.y ?? 0],
+      parameters:
+        nodeType === "agent"
+          ? { ...(n.data?.parameters ?? {}), agentId: n.data?.agentId }
+          : { ...(n.data?.parameters ?? {}) },
+    };
+  });
 }
 
 function fromFlowEdges(edges: Edge[]): WfEdge[] {
-  return edges.map((e) => ({
-    id: e.id ?? `e-${e.source}-${e.target}`,
-    source: e.source,
-    target: e.target,
-    data:
-      e.data && typeof e.data === "object" && "label" in e.data
-        ? {
-            label:
-              typeof (e.data as { label?: unknown }).label === "string"
-                ? (e.data as { label: string }).label
-                : undefined,
-          }
-        : undefined,
-  }));
+  return edges.map((e) => {
+    const data = (e.data ?? {}) as {
+      customLabel?: unknown;
+      branch?: unknown;
+      condition?: unknown;
+    };
+    return {
+      id: e.id ?? `e-${e.source}-${e.target}`,
+      source: e.source,
+      target: e.target,
+      ...(typeof data.branch === "string" && { branch: data.branch }),
+      ...(data.condition != null && { condition: data.condition }),
+      data:
+        typeof data.customLabel === "string" && data.customLabel
+          ? { label: data.customLabel }
+          : undefined,
+    };
+  });
 }
 
 type Props = {
@@ -210,7 +289,7 @@ function WorkflowCanvasInner({
     wfNodes.length,
     wfEdges.length,
     JSON.stringify(wfNodes.map((n) => [n.id, n.type, n.parameters, n.position])),
-    JSON.stringify(wfEdges.map((e) => [e.id, e.source, e.target, e.data])),
+    JSON.stringify(wfEdges.map((e) => [e.id, e.source, e.target, e.branch, e.data])),
   ]);
 
   const onConnect = useCallback(
@@ -291,6 +370,16 @@ function WorkflowCanvasInner({
     setSelectedEdgeId(null);
   }, []);
 
+  const onEdgeBranchChange = useCallback(
+    (edgeId: string, branch: string) => {
+      const nextEdges = wfEdges.map((e) =>
+        e.id === edgeId ? { ...e, branch: branch.trim() || undefined } : e
+      );
+      onNodesEdgesChange(wfNodes, nextEdges);
+    },
+    [wfNodes, wfEdges, onNodesEdgesChange]
+  );
+
   const onEdgeLabelChange = useCallback(
     (edgeId: string, label: string) => {
       const nextEdges = wfEdges.map((e) =>
@@ -454,6 +543,27 @@ function WorkflowCanvasInner({
               placeholder="Optional label"
               style={{ width: "100%", fontSize: "0.8rem" }}
             />
+            {wfNodes.find((n) => n.id === selectedEdge.source)?.type !== "agent" && (
+              <>
+                <label
+                  style={{
+                    fontSize: "0.75rem",
+                    display: "block",
+                    margin: "0.35rem 0 0.25rem",
+                  }}
+                >
+                  Branch
+                </label>
+                <input
+                  type="text"
+                  className="input nodrag nopan"
+                  value={selectedEdge.branch ?? ""}
+                  onChange={(e) => onEdgeBranchChange(selectedEdge.id, e.target.value)}
+                  placeholder="true, false, item, done…"
+                  style={{ width: "100%", fontSize: "0.8rem" }}
+                />
+              </>
+            )}
           </div>
         )}
       </div>
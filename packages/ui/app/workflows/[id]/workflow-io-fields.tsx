@@ -0,0 +1,87 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronDown, ChevronRight } from "lucide-react";
+
+/** A workflow's inputSchema, outputSchema and outputMapping as JSON text being edited. */
+export type WorkflowIOText = { inputSchema: string; outputSchema: string; outputMapping: string };
+
+/** Collapsible "Inputs and outputs" card of the workflow editor. */
+export default function WorkflowIOFields({
+  value,
+  onChange,
+}: {
+  value: WorkflowIOText;
+  onChange: (value: WorkflowIOText) => void;
+}) {
+  const [showIO, setShowIO] = useState(false);
+  return (
+    <div className="card form form-wide" style={{ marginBottom: "1.5rem" }}>
+      <button
+        type="button"
+        onClick={() => setShowIO(!showIO)}
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: "0.35rem",
+          marginBottom: showIO ? "0.75rem" : 0,
+          background: "none",
+          border: "none",
+          cursor: "pointer",
+          fontSize: "0.9rem",
+          color: "var(--text-muted)",
+        }}
+      >
+        {showIO ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+        Inputs and outputs
+      </button>
+      {showIO && (
+        <>
+          <p style={{ fontSize: "0.8rem", color: "var(--text-muted)", margin: "0 0 0.75rem" }}>
+            Declared inputs are checked before each run (Execute once shows a form for them); the
+            output mapping builds the run result from node outputs, e.g.{" "}
+            <code>{'{ "title": "nodes.n2.title" }'}</code>, and is checked against the output
+            schema. Leave empty to accept any inputs and return the last node&apos;s output.
+          </p>
+          <div className="field">
+            <label>Input schema (JSON schema, type object)</label>
+            <textarea
+              className="textarea"
+              rows={6}
+              style={{ fontFamily: "monospace" }}
+              value={value.inputSchema}
+              onChange={(e) => onChange({ ...value, inputSchema: e.target.value })}
+              placeholder={
+                '{ "type": "object", "properties": { "url": { "type": "string" } }, "required": ["url"] }'
+              }
+            />
+          </div>
+          <div className="field">
+            <label>Output mapping (result field → expression)</label>
+            <textarea
+              className="textarea"
+              rows={4}
+              style={{ fontFamily: "monospace" }}
+              value={value.outputMapping}
+              onChange={(e) => onChange({ ...value, outputMapping: e.target.value })}
+              placeholder={'{ "summary": "nodes.n2", "score": "number(nodes.n3.score)" }'}
+            />
+          </div>
+          <div className="field">
+            <label>Output schema (JSON schema, type object)</label>
+            <textarea
+              className="textarea"
+              rows={4}
+              style={{ fontFamily: "monospace" }}
+              value={value.outputSchema}
+              onChange={(e) => onChange({ ...value, outputSchema: e.target.value })}
+              placeholder={
+                '{ "type": "object", "properties": { "summary": { "type": "string" } }, "required": ["summary"] }'
+              }
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Play } from "lucide-react";
+
+/** A workflow's declared inputs (inputSchema), as returned by GET /api/workflows/:id. */
+export type WorkflowInputSchema = {
+  type?: "object";
+  properties?: Record<string, InputProperty>;
+  required?: string[];
+  additionalProperties?: boolean;
+};
+
+type InputProperty = {
+  type?: string | string[];
+  title?: string;
+  description?: string;
+  default?: unknown;
+  enum?: unknown[];
+};
+
+export type WorkflowFieldError = { field: string; message: string };
+
+type Props = {
+  schema: WorkflowInputSchema;
+  running: boolean;
+  error?: string | null;
+  fieldErrors?: WorkflowFieldError[];
+  onRun: (inputs: Record<string, unknown>) => void;
+  onCancel: () => void;
+};
+
+function fieldType(prop: InputProperty): string {
+  const types = Array.isArray(prop.type) ? prop.type : prop.type ? [prop.type] : [];
+  return types.find((t) => t !== "null") ?? "string";
+}
+
+/** Form text for a value: JSON for objects and arrays, plain text otherwise. */
+function toText(value: unknown, type: string): string {
+  if (value === undefined || value === null) return "";
+  if (type === "object" || type === "array") return JSON.stringify(value, null, 2);
+  return String(value);
+}
+
+/**
+ * Converts form values to typed inputs. Empty optional fields are left out so defaults apply;
+ * values that do not convert are passed as text and rejected by the server with a field error.
+ */
+function toInputs(
+  schema: WorkflowInputSchema,
+  values: Record<string, string | boolean>
+): Record<string, unknown> {
+  const inputs: Record<string, unknown> = {};
+  for (const [name, prop] of Object.entries(schema.properties ?? {})) {
+    const value = values[name];
+    const type = fieldType(prop);
+    if (typeof value === "boolean") {
+      inputs[name] = value;
+      continue;
+    }
+    if (value === undefined || value.trim() === "") continue;
+    if (Array.isArray(prop.enum)) {
+      inputs[name] = prop.enum.find((e) => String(e) === value) ?? value;
+    } else if (type === "number" || type === "integer") {
+      inputs[name] = Number.isNaN(Number(value)) ? value : Number(value);
+    } else if (type === "object" || type === "array") {
+      try {
+        inputs[name] = JSON.parse(value);
+      } catch {
+        inputs[name] = value;
+      }
+    } else {
+      inputs[name] = value;
+    }
+  }
+  return inputs;
+}
+
+/** Run form generated from a workflow's inputSchema; shown by "Execute once". Mount it to open it. */
+export default function WorkflowRunForm({
+  schema,
+  running,
+  error,
+  fieldErrors = [],
+  onRun,
+  onCancel,
+}: Props) {
+  const [values, setValues] = useState<Record<string, string | boolean>>(() => {
+    const initial: Record<string, string | boolean> = {};
+    for (const [name, prop] of Object.entries(schema.properties ?? {})) {
+      const type = fieldType(prop);
+      initial[name] = type === "boolean" ? prop.default === true : toText(prop.default, type);
+    }
+    return initial;
+  });
+
+  useEffect(() => {
+    const handle = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onCancel();
+    };
+    window.addEventListener("keydown", handle);
+    return () => window.removeEventListener("keydown", handle);
+  }, [onCancel]);
+
+  const required = new Set(schema.required ?? []);
+  const names = Object.keys(schema.properties ?? {});
+  /** Field of an error: "tags[0]" and "address.city" belong to tags and address. */
+  const fieldOf = (e: WorkflowFieldError) => names.find((n) => /^[^.[]*/.exec(e.field)?.[0] === n);
+  const errorsFor = (name: string) => fieldErrors.filter((e) => fieldOf(e) === name);
+  const generalErrors = fieldErrors.filter((e) => fieldOf(e) === undefined);
+
+  return (
+    <div
+      className="confirm-modal-overlay"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="workflow-run-form-title"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onCancel();
+      }}
+    >
+      <form
+        className="card confirm-modal-card form"
+        style={{ maxWidth: 520, width: "100%" }}
+        onSubmit={(e) => {
+          e.preventDefault();
+          onRun(toInputs(schema, values));
+        }}
+      >
+        <h3
+          id="workflow-run-form-title"
+          style={{ margin: "0 0 0.75rem", fontSize: "1rem", fontWeight: 600 }}
+        >
+          Run inputs
+        </h3>
+        {Object.entries(schema.properties ?? {}).map(([name, prop]) => {
+          const type = fieldType(prop);
+          const value = values[name];
+          const errors = errorsFor(name);
+          return (
+            <div className="field" key={name}>
+              <label htmlFor={`run-input-${name}`}>
+                {prop.title || name}
+                {required.has(name) && <span style={{ color: "#dc2626" }}> *</span>}
+                <span style={{ color: "var(--text-muted)", fontWeight: 400 }}> ({type})</span>
+              </label>
+              {Array.isArray(prop.enum) ? (
+                <select
+                  id={`run-input-${name}`}
+                  className="select"
+                  value={typeof value === "string" ? value : ""}
+                  onChange={(e) => setValues({ ...values, [name]: e.target.value })}
+                >
+                  <option value="">—</option>
+                  {prop.enum.map((option) => (
+                    <option key={String(option)} value={String(option)}>
+                      {String(option)}
+                    </option>
+                  ))}
+                </select>
+              ) : type === "boolean" ? (
+                <input
+                  id={`run-input-${name}`}
+                  type="checkbox"
+                  checked={value === true}
+                  onChange={(e) => setValues({ ...values, [name]: e.target.checked })}
+                />
+              ) : type === "object" || type === "array" ? (
+                <textarea
+                  id={`run-input-${name}`}
+                  className="textarea"
+                  rows={4}
+                  style={{ fontFamily: "monospace" }}
+                  value={typeof value === "string" ? value : ""}
+                  placeholder={type === "array" ? "[]" : "{}"}
+                  onChange={(e) => setValues({ ...values, [name]: e.target.value })}
+                />
+              ) : (
+                <input
+                  id={`run-input-${name}`}
+                  className="input"
+                  type={type === "number" || type === "integer" ? "number" : "text"}
+                  step={type === "integer" ? 1 : "any"}
+                  value={typeof value === "string" ? value : ""}
+                  onChange={(e) => setValues({ ...values, [name]: e.target.value })}
+                />
+              )}
+              {prop.description && (
+                <p
+                  style={{
+                    fontSize: "0.8rem",
+                    color: "var(--text-muted)",
+                    margin: "0.25rem 0 0 0",
+                  }}
+                >
+                  {prop.description}
+                </p>
+              )}
+              {errors.map((e) => (
+                <p
+                  key={`${e.field}:${e.message}`}
+                  style={{ fontSize: "0.8rem", color: "#dc2626", margin: 0 }}
+                >
+                  {e.field === name ? e.message : `${e.field}: ${e.message}`}
+                </p>
+              ))}
+            </div>
+          );
+        })}
+        {(generalErrors.length > 0 || (error && fieldErrors.length === 0)) && (
+          <p style={{ fontSize: "0.8rem", color: "#dc2626", margin: "0 0 0.5rem" }}>
+            {generalErrors.length > 0
+              ? generalErrors
+                  .map((e) => (e.field ? `${e.field}: ${e.message}` : e.message))
+                  .join("; ")
+              : error}
+          </p>
+        )}
+        <div style={{ display: "flex", gap: "0.5rem", justifyContent: "flex-end" }}>
+          <button type="button" className="button" onClick={onCancel} disabled={running}>
+            Cancel
+          </button>
+          <button type="submit" className="button button-success" disabled={running}>
+            <Play size={14} /> {running ? "Starting…" : "Run"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,460 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Copy, Check, RefreshCw, Trash2 } from "lucide-react";
+
+type TriggerType = "webhook" | "file" | "rag_connector" | "workflow_run" | "telegram";
+
+type Trigger = {
+  id: string;
+  name: string;
+  type: TriggerType;
+  branchId?: string;
+  token?: string;
+  secret?: string;
+  config: Record<string, unknown>;
+  inputMapping: Record<string, string>;
+  enabled: boolean;
+  lastFiredAt?: number;
+};
+
+type TriggerEvent = {
+  id: string;
+  triggerId: string;
+  source: string;
+  status: string;
+  runId?: string;
+  error?: string;
+  createdAt: number;
+};
+
+type Option = { id: string; label: string };
+
+const TYPE_LABELS: Record<TriggerType, string> = {
+  webhook: "Webhook",
+  file: "New file in folder",
+  rag_connector: "New knowledge connector item",
+  workflow_run: "Another workflow's run finished",
+  telegram: "Telegram message",
+};
+
+function describeTrigger(t: Trigger, workflows: Option[], connectors: Option[]): string {
+  switch (t.type) {
+    case "webhook":
+      return t.secret ? "Signed with secret" : "No signature required";
+    case "file":
+      return `${t.config.path}${t.config.pattern ? ` matching /${t.config.pattern}/` : ""}`;
+    case "rag_connector":
+      return connectors.find((c) => c.id === t.config.connectorId)?.label ?? "Unknown connector";
+    case "workflow_run": {
+      const source = workflows.find((w) => w.id === t.config.workflowId)?.label ?? "Unknown";
+      const statuses = Array.isArray(t.config.statuses) ? t.config.statuses.join(" or ") : "";
+      return `${source} — ${statuses}`;
+    }
+    case "telegram":
+      return t.config.pattern ? `Matching /${t.config.pattern}/` : "Every message";
+  }
+}
+
+/** Triggers tab of the workflow page: webhook and event triggers with their recent firings. */
+export default function WorkflowTriggersView({ workflowId }: { workflowId: string }) {
+  const [triggers, setTriggers] = useState<Trigger[]>([]);
+  const [events, setEvents] = useState<TriggerEvent[]>([]);
+  const [workflows, setWorkflows] = useState<Option[]>([]);
+  const [connectors, setConnectors] = useState<Option[]>([]);
+  const [origin, setOrigin] = useState("");
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [type, setType] = useState<TriggerType>("webhook");
+  const [secret, setSecret] = useState("");
+  const [folder, setFolder] = useState("");
+  const [pattern, setPattern] = useState("");
+  const [connectorId, setConnectorId] = useState("");
+  const [sourceWorkflowId, setSourceWorkflowId] = useState("");
+  const [onFailed, setOnFailed] = useState(false);
+  const [inputMapping, setInputMapping] = useState("");
+
+  const load = useCallback(async () => {
+    const res = await fetch(`/api/triggers?workflowId=${encodeURIComponent(workflowId)}`);
+    if (!res.ok) return;
+    const data = await res.json();
+    setTriggers(Array.isArray(data.triggers) ? data.triggers : []);
+    setEvents(Array.isArray(data.events) ? data.events : []);
+  }, [workflowId]);
+
+  useEffect(() => {
+    setOrigin(window.location.origin);
+    void load();
+    fetch("/api/workflows")
+      .then((r) => (r.ok ? r.json() : []))
+      .then((data: Array<{ id: string; name: string }>) =>
+        setWorkflows(
+          Array.isArray(data)
+            ? data.filter((w) => w.id !== workflowId).map((w) => ({ id: w.id, label: w.name }))
+            : []
+        )
+      )
+      .catch(() => {});
+    fetch("/api/rag/connectors")
+      .then((r) => (r.ok ? r.json() : []))
+      .then((data: Array<{ id: string; type: string; config?: { path?: string } }>) =>
+        setConnectors(
+          Array.isArray(data)
+            ? data.map((c) => ({
+                id: c.id,
+                label: `${c.type}${c.config?.path ? ` — ${c.config.path}` : ` (${c.id.slice(0, 8)})`}`,
+              }))
+            : []
+        )
+      )
+      .catch(() => {});
+  }, [load, workflowId]);
+
+  const configForType = (): Record<string, unknown> => {
+    if (type === "file") return { path: folder, ...(pattern && { pattern }) };
+    if (type === "rag_connector") return { connectorId };
+    if (type === "workflow_run") {
+      return {
+        workflowId: sourceWorkflowId,
+        statuses: onFailed ? ["completed", "failed"] : ["completed"],
+      };
+    }
+    if (type === "telegram") return pattern ? { pattern } : {};
+    return {};
+  };
+
+  const handleAdd = async () => {
+    setError(null);
+    let mapping: unknown = {};
+    if (inputMapping.trim()) {
+      try {
+        mapping = JSON.parse(inputMapping);
+      } catch {
+        setError("Input mapping must be a JSON object");
+        return;
+      }
+    }
+    setSaving(true);
+    try {
+      const res = await fetch("/api/triggers", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          workflowId,
+          name: name || TYPE_LABELS[type],
+          type,
+          ...(type === "webhook" && secret && { secret }),
+          config: configForType(),
+          inputMapping: mapping,
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(data.error ?? "Could not save trigger");
+        return;
+      }
+      setName("");
+      setSecret("");
+      setFolder("");
+      setPattern("");
+      setInputMapping("");
+      await load();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const patchTrigger = async (id: string, body: Record<string, unknown>) => {
+    await fetch(`/api/triggers/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    await load();
+  };
+
+  const handleDelete = async (id: string) => {
+    await fetch(`/api/triggers/${id}`, { method: "DELETE" });
+    await load();
+  };
+
+  const copyUrl = async (t: Trigger) => {
+    await navigator.clipboard.writeText(`${origin}/api/hooks/${t.token}`);
+    setCopiedId(t.id);
+    setTimeout(() => setCopiedId(null), 1500);
+  };
+
+  const generateSecret = () => {
+    const bytes = new Uint8Array(24);
+    crypto.getRandomValues(bytes);
+    setSecret(Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join(""));
+  };
+
+  const triggerName = (id: string) => triggers.find((t) => t.id === id)?.name ?? id.slice(0, 8);
+
+  return (
+    <div style={{ display: "grid", gap: "1rem" }}>
+      <div className="card" style={{ padding: "1rem" }}>
+        <div style={{ fontSize: "0.9rem", fontWeight: 600, marginBottom: "0.25rem" }}>Triggers</div>
+        <p style={{ fontSize: "0.82rem", color: "var(--text-muted)", margin: "0 0 0.75rem" }}>
+          Start this workflow from a webhook or a local event. The event becomes the run input{" "}
+          <code>payload</code>, or map it to named inputs with expressions such as{" "}
+          <code>payload.issue.title</code> (webhooks also see <code>headers</code> and{" "}
+          <code>query</code>).
+        </p>
+        {triggers.length === 0 ? (
+          <p style={{ fontSize: "0.82rem", color: "var(--text-muted)", margin: 0 }}>
+            No triggers yet.
+          </p>
+        ) : (
+          <table style={{ width: "100%", fontSize: "0.82rem", borderCollapse: "collapse" }}>
+            <tbody>
+              {triggers.map((t) => (
+                <tr
+                  key={t.id}
+                  style={{ borderTop: "1px solid var(--border)", opacity: t.enabled ? 1 : 0.55 }}
+                >
+                  <td style={{ padding: "0.4rem 0" }}>
+                    <div style={{ fontWeight: 500 }}>{t.name}</div>
+                    <div style={{ color: "var(--text-muted)" }}>
+                      {TYPE_LABELS[t.type]} · {describeTrigger(t, workflows, connectors)}
+                    </div>
+                    {t.type === "webhook" && t.token && (
+                      <div style={{ display: "flex", alignItems: "center", gap: "0.35rem" }}>
+                        <code style={{ fontSize: "0.78rem" }}>
+                          POST {origin}/api/hooks/{t.token}
+                        </code>
+                        <button
+                          type="button"
+                          className="button button-ghost button-small"
+                          title="Copy URL"
+                          onClick={() => void copyUrl(t)}
+                        >
+                          {copiedId === t.id ? <Check size={12} /> : <Copy size={12} />}
+                        </button>
+                        <button
+                          type="button"
+                          className="button button-ghost button-small"
+                          title="New URL (the old one stops working)"
+                          onClick={() => void patchTrigger(t.id, { regenerateToken: true })}
+                        >
+                          <RefreshCw size={12} />
+                        </button>
+                      </div>
+                    )}
+                  </td>
+                  <td style={{ color: "var(--text-muted)", whiteSpace: "nowrap" }}>
+                    {t.lastFiredAt ? `Last fired ${new Date(t.lastFiredAt).toLocaleString()}` : ""}
+                  </td>
+                  <td style={{ textAlign: "right", whiteSpace: "nowrap" }}>
+                    <button
+                      type="button"
+                      className="button button-ghost button-small"
+                      onClick={() => void patchTrigger(t.id, { enabled: !t.enabled })}
+                    >
+                      {t.enabled ? "Disable" : "Enable"}
+                    </button>
+                    <button
+                      type="button"
+                      className="button button-ghost button-small"
+                      title="Delete trigger"
+                      onClick={() => void handleDelete(t.id)}
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="card form" style={{ padding: "1rem" }}>
+        <div style={{ fontSize: "0.9rem", fontWeight: 600, marginBottom: "0.5rem" }}>
+          Add trigger
+        </div>
+        <div className="field">
+          <label>Type</label>
+          <select
+            className="select"
+            value={type}
+            onChange={(e) => setType(e.target.value as TriggerType)}
+          >
+            {(Object.keys(TYPE_LABELS) as TriggerType[]).map((t) => (
+              <option key={t} value={t}>
+                {TYPE_LABELS[t]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="field">
+          <label>Name</label>
+          <input
+            className="input"
+            value={name}
+            placeholder={TYPE_LABELS[type]}
+            onChange={(e) => setName(e.target.value)}
+          />
+        </div>
+        {type === "webhook" && (
+          <div className="field">
+            <label>Signing secret (optional)</label>
+            <div style={{ display: "flex", gap: "0.4rem" }}>
+              <input
+                className="input"
+                value={secret}
+                onChange={(e) => setSecret(e.target.value)}
+                placeholder="Requests must send X-Agentron-Signature: sha256=<HMAC of body>"
+              />
+              <button type="button" className="button button-secondary" onClick={generateSecret}>
+                Generate
+              </button>
+            </div>
+          </div>
+        )}
+        {type === "file" && (
+          <div className="field">
+            <label>Folder (absolute path)</label>
+            <input
+              className="input"
+              value={folder}
+              onChange={(e) => setFolder(e.target.value)}
+              placeholder="/home/me/inbox"
+            />
+          </div>
+        )}
+        {(type === "file" || type === "telegram") && (
+          <div className="field">
+            <label>
+              {type === "file" ? "File name pattern" : "Message pattern"} (regular expression,
+              optional)
+            </label>
+            <input
+              className="input"
+              value={pattern}
+              onChange={(e) => setPattern(e.target.value)}
+              placeholder={type === "file" ? "\\.csv$" : "^/report\\b"}
+            />
+          </div>
+        )}
+        {type === "rag_connector" && (
+          <div className="field">
+            <label>Connector</label>
+            <select
+              className="select"
+              value={connectorId}
+              onChange={(e) => setConnectorId(e.target.value)}
+            >
+              <option value="">Select connector…</option>
+              {connectors.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+        {type === "workflow_run" && (
+          <>
+            <div className="field">
+              <label>When a run of</label>
+              <select
+                className="select"
+                value={sourceWorkflowId}
+                onChange={(e) => setSourceWorkflowId(e.target.value)}
+              >
+                <option value="">Select workflow…</option>
+                {workflows.map((w) => (
+                  <option key={w.id} value={w.id}>
+                    {w.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <label style={{ fontSize: "0.85rem", display: "flex", gap: "0.35rem" }}>
+              <input
+                type="checkbox"
+                checked={onFailed}
+                onChange={(e) => setOnFailed(e.target.checked)}
+              />
+              Also when it fails
+            </label>
+          </>
+        )}
+        <div className="field">
+          <label>Input mapping (JSON, optional)</label>
+          <textarea
+            className="textarea"
+            rows={3}
+            value={inputMapping}
+            onChange={(e) => setInputMapping(e.target.value)}
+            placeholder={
+              '{ "title": "payload.issue.title", "author": "lower(payload.sender.login)" }'
+            }
+          />
+        </div>
+        <div style={{ display: "flex", alignItems: "center", gap: "0.75rem" }}>
+          <button type="button" className="button" disabled={saving} onClick={handleAdd}>
+            {saving ? "Saving…" : "Add trigger"}
+          </button>
+          {error && <span style={{ fontSize: "0.82rem", color: "#dc2626" }}>{error}</span>}
+        </div>
+      </div>
+
+      <div className="card" style={{ padding: "1rem" }}>
+        <div style={{ fontSize: "0.9rem", fontWeight: 600, marginBottom: "0.5rem" }}>
+          Recent trigger events
+        </div>
+        {events.length === 0 ? (
+          <p style={{ fontSize: "0.82rem", color: "var(--text-muted)", margin: 0 }}>
+            Nothing has fired yet.
+          </p>
+        ) : (
+          <table style={{ width: "100%", fontSize: "0.82rem", borderCollapse: "collapse" }}>
+            <thead>
+              <tr style={{ textAlign: "left", color: "var(--text-muted)" }}>
+                <th style={{ padding: "0.25rem 0" }}>When</th>
+                <th>Trigger</th>
+                <th>Source</th>
+                <th>Status</th>
+                <th>Run</th>
+              </tr>
+            </thead>
+            <tbody>
+              {events.map((e) => (
+                <tr key={e.id}>
+                  <td style={{ padding: "0.3rem 0", whiteSpace: "nowrap" }}>
+                    {new Date(e.createdAt).toLocaleString()}
+                  </td>
+                  <td>{triggerName(e.triggerId)}</td>
+                  <td style={{ color: "var(--text-muted)", wordBreak: "break-all" }}>{e.source}</td>
+                  <td title={e.error}>
+                    {e.status}
+                    {e.error && (
+                      <div style={{ color: "#dc2626" }}>
+                        {e.error.length > 80 ? `${e.error.slice(0, 80)}…` : e.error}
+                      </div>
+                    )}
+                  </td>
+                  <td>
+                    {e.runId ? (
+                      <Link href={`/runs/${e.runId}`} style={{ color: "var(--primary)" }}>
+                        {e.runId.slice(0, 8)}…
+                      </Link>
+                    ) : (
+                      "—"
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -31,8 +31,8 @@ function formatSchedule(executionMode: string, schedule?: string): string {
     const days = s.slice(8).split(",").filter(Boolean);
     return days.length ? "Monthly (day " + days.join(", ") + ")" : "Monthly";
   }
+  if (!/^\d+$/.test(s)) return "Cron " + s;
   const sec = parseInt(s, 10);
-  if (Number.isNaN(sec)) return "interval";
   if (sec < 60) return "Every " + sec + "s";
   if (sec === 86400) return "Daily";
   if (sec === 604800) return "Weekly";
@@ -1,12 +1,18 @@
 /**
- * Runs when the Next.js server starts. Used to start the scheduled workflow scheduler,
- * the reminder scheduler, and to register the scheduled-turn runner (so assistant_task
- * reminders can run the assistant when they fire).
+ * Runs when the Next.js server starts. Used to create the internal API token, to start the scheduled workflow scheduler,
+ * the folder watchers of file triggers, wake-ups of runs that waited in a delay node, the reminder scheduler, and to
+ * register the scheduled-turn runner (so assistant_task reminders can run the assistant when they fire).
  */
 export async function register() {
   if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { getInternalApiToken } = await import("./app/api/_lib/api-auth");
+    getInternalApiToken();
     const { refreshScheduledWorkflows } = await import("./app/api/_lib/scheduled-workflows");
     refreshScheduledWorkflows();
+    const { refreshWorkflowTriggers } = await import("./app/api/_lib/workflow-triggers");
+    refreshWorkflowTriggers();
+    const { refreshDelayedWorkflowRuns } = await import("./app/api/_lib/workflow-delay-scheduler");
+    refreshDelayedWorkflowRuns();
     await import("./app/api/chat/route"); // register scheduled-turn runner before any reminder can fire
     const { refreshReminderScheduler } = await import("./app/api/_lib/reminder-scheduler");
     refreshReminderScheduler();
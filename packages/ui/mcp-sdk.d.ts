@@ -1,24 +1,11 @@
 /** Type declarations for MCP SDK subpath exports (bundler does not resolve .d.ts from path-mapped .js). */
-declare module "@modelcontextprotocol/sdk/server/mcp" {
-  export class McpServer {
-    constructor(options: { name: string; version: string });
-    registerTool(
-      name: string,
-      schema: { description: string; inputSchema: unknown },
-      handler: (
-        input: unknown
-      ) => Promise<{ content: Array<{ type: string; text: string }>; structuredContent?: unknown }>
-    ): void;
-    connect(transport: unknown): Promise<void>;
-    close(): void;
-  }
-}
-
 declare module "@modelcontextprotocol/sdk/server/streamableHttp" {
   export class StreamableHTTPServerTransport {
     constructor(options?: { sessionIdGenerator?: () => string });
+    start(): Promise<void>;
+    send(message: unknown): Promise<void>;
     handleRequest(req: unknown, res: unknown, body: unknown): Promise<void>;
-    close(): void;
+    close(): Promise<void>;
   }
 }
 
@@ -0,0 +1,49 @@
+/**
+ * Request proxy (Next.js middleware): enforces API authentication once the admin login is set up.
+ * API requests need an admin session cookie, an access token whose scope allows the request, or the
+ * internal token; pages redirect to /login without a session. Login and self-verifying webhooks
+ * (/api/hooks/:token, /api/telegram/webhook) stay reachable. See app/api/_lib/api-auth.ts.
+ */
+import { NextResponse, type NextRequest } from "next/server";
+import {
+  isAuthEnabled,
+  isPublicApiPath,
+  isRequestInScope,
+  resolveApiPrincipal,
+} from "./app/api/_lib/api-auth";
+
+export async function proxy(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const isApi = pathname.startsWith("/api/");
+  if (pathname === "/login" || (isApi && isPublicApiPath(pathname))) return NextResponse.next();
+  if (!(await isAuthEnabled())) return NextResponse.next();
+
+  const principal = await resolveApiPrincipal(request);
+  if (!isApi) {
+    if (principal?.kind === "session") return NextResponse.next();
+    const login = new URL("/login", request.url);
+    login.searchParams.set("next", `${pathname}${search}`);
+    return NextResponse.redirect(login);
+  }
+  if (!principal) {
+    return NextResponse.json(
+      { error: "Authentication required" },
+      { status: 401, headers: { "WWW-Authenticate": "Bearer" } }
+    );
+  }
+  if (principal.kind === "token" && !(await isRequestInScope(principal.scope, request))) {
+    return NextResponse.json(
+      { error: `Token scope "${principal.scope}" does not allow ${request.method} ${pathname}` },
+      { status: 403 }
+    );
+  }
+  return NextResponse.next();
+}
+
+/** Every API path is checked; static assets are skipped only outside /api. */
+export const config = {
+  matcher: [
+    "/api/:path*",
+    "/((?!api/|_next/static|_next/image|favicon.ico|icon-|apple-touch-icon|.*\\.(?:png|svg|ico|jpg|jpeg|webp|css|js)$).*)",
+  ],
+};